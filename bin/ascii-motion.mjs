@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI (src/cli) through tsx so it shares the editor's export code
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../src/cli/index.ts');
@@ -0,0 +1,340 @@
+import { decodeFrames } from './decodeFrames.js';
+import type {
+  AsciiMotionJson,
+  AsciiPlayerEvent,
+  AsciiPlayerEventMap,
+  AsciiPlayerListener,
+  AsciiPlayerOptions,
+  AsciiPlayerState,
+  PlayerFrame
+} from './types.js';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+const DEFAULT_FONT_FAMILY = 'SF Mono, Monaco, Cascadia Code, Consolas, JetBrains Mono, Fira Code, Courier New, monospace';
+const DEFAULT_LABEL = 'ASCII animation';
+const MIN_SPEED = 0.1;
+const MAX_SPEED = 10;
+// Monospace glyph width relative to font size (matches the editor's cell aspect ratio)
+const CELL_ASPECT_RATIO = 0.6;
+
+const clampSpeed = (speed: number): number =>
+  Number.isFinite(speed) ? Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed)) : 1;
+
+// Loop counts are total plays; anything below one still plays once
+const normalizeLoop = (loop: boolean | number): boolean | number =>
+  typeof loop === 'number' ? (Number.isFinite(loop) ? Math.max(1, Math.round(loop)) : true) : loop;
+
+/**
+ * Framework-agnostic player for ASCII Motion JSON exports
+ *
+ * Renders into a `<pre>` inside the given container and plays frames with their
+ * exported durations. Autoplay is skipped when the user prefers reduced motion;
+ * explicit `play()` calls (e.g. from a button) still start playback.
+ */
+export class AsciiPlayer {
+  private readonly root: HTMLDivElement;
+  private readonly screen: HTMLPreElement;
+  private readonly frames: PlayerFrame[];
+  private readonly label: string;
+  private readonly listeners = new Map<AsciiPlayerEvent, Set<AsciiPlayerListener<AsciiPlayerEvent>>>();
+  private readonly reducedMotion: MediaQueryList | null;
+  private readonly respectReducedMotion: boolean;
+
+  private frameIndex = 0;
+  private isPlaying = false;
+  private speed: number;
+  private loop: boolean | number;
+  private completedPlays = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+
+  constructor(container: HTMLElement, data: AsciiMotionJson, options: AsciiPlayerOptions = {}) {
+    this.frames = decodeFrames(data);
+    this.speed = clampSpeed(options.speed ?? 1);
+    this.loop = normalizeLoop(options.loop ?? data.animation.looping);
+    this.label = options.label ?? data.metadata?.title ?? DEFAULT_LABEL;
+    this.respectReducedMotion = options.respectReducedMotion ?? true;
+    this.reducedMotion = typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+      ? window.matchMedia(REDUCED_MOTION_QUERY)
+      : null;
+
+    this.root = document.createElement('div');
+    this.root.className = 'ascii-motion-player';
+    this.root.setAttribute('role', 'img');
+    this.root.setAttribute('aria-roledescription', 'animation');
+
+    this.screen = document.createElement('pre');
+    this.screen.setAttribute('aria-hidden', 'true');
+    this.applyScreenStyles(data, options);
+    this.root.appendChild(this.screen);
+
+    if (options.keyboardControls ?? true) {
+      this.root.tabIndex = 0;
+      this.root.setAttribute('aria-keyshortcuts', 'Space Enter ArrowLeft ArrowRight Home End');
+      this.root.addEventListener('keydown', this.handleKeyDown);
+    }
+
+    this.reducedMotion?.addEventListener('change', this.handleReducedMotionChange);
+
+    container.appendChild(this.root);
+
+    this.showFrame(options.startFrame ?? data.animation.currentFrame ?? 0);
+
+    if ((options.autoplay ?? true) && !this.prefersReducedMotion()) {
+      this.play();
+    } else {
+      this.updateLabel();
+    }
+  }
+
+  /**
+   * Start playback from the current frame (restarts from the first frame after the end)
+   */
+  play(): void {
+    if (this.destroyed || this.isPlaying || this.frames.length === 0) return;
+
+    if (this.loop !== true && this.frameIndex >= this.frames.length - 1) {
+      this.showFrame(0);
+      this.completedPlays = 0;
+    }
+
+    this.isPlaying = true;
+    this.updateLabel();
+    this.emit('play', { frameIndex: this.frameIndex });
+    this.scheduleNextFrame();
+  }
+
+  pause(): void {
+    if (!this.isPlaying) return;
+
+    this.isPlaying = false;
+    this.clearTimer();
+    this.updateLabel();
+    this.emit('pause', { frameIndex: this.frameIndex });
+  }
+
+  toggle(): void {
+    if (this.isPlaying) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Jump to a frame; playback continues from there if playing
+   */
+  seek(frameIndex: number): void {
+    if (this.destroyed || this.frames.length === 0) return;
+
+    this.showFrame(frameIndex);
+    if (this.isPlaying) {
+      this.scheduleNextFrame();
+    }
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = clampSpeed(speed);
+    if (this.isPlaying) {
+      this.scheduleNextFrame();
+    }
+  }
+
+  setLoop(loop: boolean | number): void {
+    this.loop = normalizeLoop(loop);
+    this.completedPlays = 0;
+  }
+
+  getState(): AsciiPlayerState {
+    return {
+      frameIndex: this.frameIndex,
+      frameCount: this.frames.length,
+      isPlaying: this.isPlaying,
+      speed: this.speed,
+      loop: this.loop
+    };
+  }
+
+  /**
+   * Subscribe to player events; returns an unsubscribe function
+   */
+  on<E extends AsciiPlayerEvent>(event: E, listener: AsciiPlayerListener<E>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener as AsciiPlayerListener<AsciiPlayerEvent>);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends AsciiPlayerEvent>(event: E, listener: AsciiPlayerListener<E>): void {
+    this.listeners.get(event)?.delete(listener as AsciiPlayerListener<AsciiPlayerEvent>);
+  }
+
+  /**
+   * Stop playback, remove the player element and release listeners
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.isPlaying = false;
+    this.clearTimer();
+    this.listeners.clear();
+    this.reducedMotion?.removeEventListener('change', this.handleReducedMotionChange);
+    this.root.removeEventListener('keydown', this.handleKeyDown);
+    this.root.remove();
+  }
+
+  private emit<E extends AsciiPlayerEvent>(event: E, detail: AsciiPlayerEventMap[E]): void {
+    this.listeners.get(event)?.forEach(listener => listener(detail));
+  }
+
+  private prefersReducedMotion(): boolean {
+    return this.respectReducedMotion && (this.reducedMotion?.matches ?? false);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNextFrame(): void {
+    this.clearTimer();
+    const frame = this.frames[this.frameIndex];
+    if (!this.isPlaying || !frame) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const nextIndex = this.frameIndex + 1;
+
+      if (nextIndex >= this.frames.length) {
+        this.completedPlays += 1;
+        if (!this.shouldRepeat()) {
+          this.isPlaying = false;
+          this.updateLabel();
+          this.emit('ended', { frameIndex: this.frameIndex });
+          return;
+        }
+        this.showFrame(0);
+      } else {
+        this.showFrame(nextIndex);
+      }
+
+      this.scheduleNextFrame();
+    }, frame.duration / this.speed);
+  }
+
+  private shouldRepeat(): boolean {
+    return typeof this.loop === 'number' ? this.completedPlays < this.loop : this.loop;
+  }
+
+  private showFrame(frameIndex: number): void {
+    if (this.frames.length === 0) return;
+
+    const index = Math.max(0, Math.min(Math.round(frameIndex), this.frames.length - 1));
+    this.frameIndex = index;
+    this.renderFrame(this.frames[index]);
+    this.emit('frame', { frameIndex: index });
+  }
+
+  private renderFrame(frame: PlayerFrame): void {
+    const fragment = document.createDocumentFragment();
+
+    frame.rows.forEach((row, y) => {
+      // Merge runs of identically colored cells into one span
+      let runText = '';
+      let runColor = '';
+      let runBackground: string | null = null;
+
+      const flush = () => {
+        if (!runText) return;
+        const span = document.createElement('span');
+        span.textContent = runText;
+        span.style.color = runColor;
+        if (runBackground) span.style.backgroundColor = runBackground;
+        fragment.appendChild(span);
+        runText = '';
+      };
+
+      row.forEach(cell => {
+        if (cell.color !== runColor || cell.bgColor !== runBackground) {
+          flush();
+          runColor = cell.color;
+          runBackground = cell.bgColor;
+        }
+        runText += cell.char;
+      });
+      flush();
+
+      if (y < frame.rows.length - 1) {
+        fragment.appendChild(document.createTextNode('\n'));
+      }
+    });
+
+    this.screen.replaceChildren(fragment);
+  }
+
+  private applyScreenStyles(data: AsciiMotionJson, options: AsciiPlayerOptions): void {
+    const { fontSize, characterSpacing, lineSpacing } = data.typography;
+    const style = this.screen.style;
+
+    style.margin = '0';
+    style.display = 'inline-block';
+    style.whiteSpace = 'pre';
+    style.fontFamily = options.fontFamily ?? DEFAULT_FONT_FAMILY;
+    style.fontSize = `${fontSize}px`;
+    style.lineHeight = `${lineSpacing}`;
+    style.letterSpacing = `${((characterSpacing || 1) - 1) * CELL_ASPECT_RATIO}em`;
+
+    if (options.showBackground ?? true) {
+      style.backgroundColor = data.canvas.backgroundColor;
+    }
+  }
+
+  private updateLabel(): void {
+    const state = this.isPlaying ? 'playing' : 'paused';
+    this.root.setAttribute('aria-label', `${this.label} (${state})`);
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    switch (event.key) {
+      case ' ':
+      case 'Enter':
+        this.toggle();
+        break;
+      case 'ArrowLeft':
+        this.pause();
+        this.seek(this.frameIndex - 1);
+        break;
+      case 'ArrowRight':
+        this.pause();
+        this.seek(this.frameIndex + 1);
+        break;
+      case 'Home':
+        this.seek(0);
+        break;
+      case 'End':
+        this.seek(this.frames.length - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  private handleReducedMotionChange = (): void => {
+    if (this.prefersReducedMotion()) {
+      this.pause();
+    }
+  };
+}
+
+/**
+ * Create a player mounted in `container`
+ */
+export const createAsciiPlayer = (
+  container: HTMLElement,
+  data: AsciiMotionJson,
+  options?: AsciiPlayerOptions
+): AsciiPlayer => new AsciiPlayer(container, data, options);
@@ -0,0 +1,72 @@
+import type { AsciiMotionJson, AsciiMotionJsonFrame, PlayerCell, PlayerFrame } from './types.js';
+
+// Defaults omitted by the JSON exporter
+const DEFAULT_FOREGROUND = '#FFFFFF';
+const MIN_FRAME_DURATION = 16;
+
+const parseColorMap = (value: Record<string, string> | string | undefined): Record<string, string> => {
+  if (!value) return {};
+  if (typeof value !== 'string') return value;
+
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return typeof parsed === 'object' && parsed !== null ? parsed as Record<string, string> : {};
+  } catch {
+    return {};
+  }
+};
+
+const getFrameLines = (frame: AsciiMotionJsonFrame): string[] => {
+  if (Array.isArray(frame.content)) return frame.content;
+  return (frame.contentString ?? frame.content).split('\n');
+};
+
+/**
+ * Decode one exported frame into a full width x height cell grid
+ */
+export const decodeFrame = (frame: AsciiMotionJsonFrame, width: number, height: number): PlayerFrame => {
+  const lines = getFrameLines(frame);
+  const foreground = parseColorMap(frame.colors?.foreground);
+  const background = parseColorMap(frame.colors?.background);
+
+  const rows: PlayerCell[][] = [];
+  for (let y = 0; y < height; y++) {
+    // Array.from splits by code point so surrogate-pair glyphs stay in one cell
+    const chars = Array.from(lines[y] ?? '');
+    const row: PlayerCell[] = [];
+
+    for (let x = 0; x < width; x++) {
+      const key = `${x},${y}`;
+      row.push({
+        char: chars[x] ?? ' ',
+        color: foreground[key] ?? DEFAULT_FOREGROUND,
+        bgColor: background[key] ?? null
+      });
+    }
+
+    rows.push(row);
+  }
+
+  return {
+    duration: Math.max(frame.duration || 0, MIN_FRAME_DURATION),
+    rows
+  };
+};
+
+/**
+ * Decode every frame of a JSON export
+ */
+export const decodeFrames = (data: AsciiMotionJson): PlayerFrame[] =>
+  data.frames.map(frame => decodeFrame(frame, data.canvas.width, data.canvas.height));
+
+/**
+ * Minimal structural check for data loaded at runtime
+ */
+export const isAsciiMotionJson = (value: unknown): value is AsciiMotionJson => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Partial<AsciiMotionJson>;
+
+  return typeof candidate.canvas?.width === 'number'
+    && typeof candidate.canvas?.height === 'number'
+    && Array.isArray(candidate.frames);
+};
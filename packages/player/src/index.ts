@@ -0,0 +1,26 @@
+/**
+ * ASCII Motion - Player Package
+ *
+ * Embeddable, framework-agnostic player for ASCII Motion JSON exports.
+ * A React wrapper is available from `@ascii-motion/player/react`.
+ *
+ * @license MIT
+ * @copyright 2025 ASCII Motion
+ * @see LICENSE-MIT for full license text
+ */
+
+export { AsciiPlayer, createAsciiPlayer } from './AsciiPlayer.js';
+export { decodeFrame, decodeFrames, isAsciiMotionJson } from './decodeFrames.js';
+export type {
+  AsciiMotionJson,
+  AsciiMotionJsonFrame,
+  AsciiMotionJsonFrameColors,
+  AsciiMotionJsonMetadata,
+  AsciiPlayerOptions,
+  AsciiPlayerState,
+  AsciiPlayerEvent,
+  AsciiPlayerEventMap,
+  AsciiPlayerListener,
+  PlayerCell,
+  PlayerFrame
+} from './types.js';
@@ -0,0 +1,106 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import type { CSSProperties } from 'react';
+import { AsciiPlayer } from '../AsciiPlayer.js';
+import type { AsciiMotionJson, AsciiPlayerOptions, AsciiPlayerState } from '../types.js';
+
+export interface AsciiMotionPlayerProps extends Omit<AsciiPlayerOptions, 'startFrame'> {
+  data: AsciiMotionJson;
+  className?: string;
+  style?: CSSProperties;
+  onFrame?: (frameIndex: number) => void;
+  onPlay?: (frameIndex: number) => void;
+  onPause?: (frameIndex: number) => void;
+  onEnded?: (frameIndex: number) => void;
+}
+
+export interface AsciiMotionPlayerHandle {
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  seek: (frameIndex: number) => void;
+  getState: () => AsciiPlayerState | null;
+}
+
+/**
+ * React wrapper around AsciiPlayer
+ *
+ * The player is recreated when `data` or its mount-time options change;
+ * `speed` and `loop` are applied to the running player.
+ */
+export const AsciiMotionPlayer = forwardRef<AsciiMotionPlayerHandle, AsciiMotionPlayerProps>(
+  function AsciiMotionPlayer(
+    {
+      data,
+      className,
+      style,
+      onFrame,
+      onPlay,
+      onPause,
+      onEnded,
+      speed,
+      loop,
+      autoplay,
+      label,
+      respectReducedMotion,
+      keyboardControls,
+      showBackground,
+      fontFamily
+    },
+    ref
+  ) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const playerRef = useRef<AsciiPlayer | null>(null);
+
+    // Latest callbacks, so changing handlers doesn't recreate the player
+    const handlersRef = useRef({ onFrame, onPlay, onPause, onEnded });
+    handlersRef.current = { onFrame, onPlay, onPause, onEnded };
+
+    // Latest playback settings, applied when the player is (re)created
+    const playbackRef = useRef({ speed, loop });
+    playbackRef.current = { speed, loop };
+
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      const player = new AsciiPlayer(container, data, {
+        ...playbackRef.current,
+        autoplay,
+        label,
+        respectReducedMotion,
+        keyboardControls,
+        showBackground,
+        fontFamily
+      });
+      playerRef.current = player;
+
+      player.on('frame', ({ frameIndex }) => handlersRef.current.onFrame?.(frameIndex));
+      player.on('play', ({ frameIndex }) => handlersRef.current.onPlay?.(frameIndex));
+      player.on('pause', ({ frameIndex }) => handlersRef.current.onPause?.(frameIndex));
+      player.on('ended', ({ frameIndex }) => handlersRef.current.onEnded?.(frameIndex));
+
+      return () => {
+        player.destroy();
+        playerRef.current = null;
+      };
+    }, [data, autoplay, label, respectReducedMotion, keyboardControls, showBackground, fontFamily]);
+
+    useEffect(() => {
+      if (speed !== undefined) playerRef.current?.setSpeed(speed);
+    }, [speed]);
+
+    useEffect(() => {
+      if (loop !== undefined) playerRef.current?.setLoop(loop);
+    }, [loop]);
+
+    useImperativeHandle(ref, () => ({
+      play: () => playerRef.current?.play(),
+      pause: () => playerRef.current?.pause(),
+      toggle: () => playerRef.current?.toggle(),
+      seek: (frameIndex: number) => playerRef.current?.seek(frameIndex),
+      getState: () => playerRef.current?.getState() ?? null
+    }), []);
+
+    return <div ref={containerRef} className={className} style={style} />;
+  }
+);
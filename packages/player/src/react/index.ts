@@ -0,0 +1,8 @@
+/**
+ * ASCII Motion - Player Package (React)
+ *
+ * @license MIT
+ */
+
+export { AsciiMotionPlayer } from './AsciiMotionPlayer.js';
+export type { AsciiMotionPlayerProps, AsciiMotionPlayerHandle } from './AsciiMotionPlayer.js';
@@ -0,0 +1,96 @@
+/**
+ * ASCII Motion JSON export format (see ExportRenderer.renderJson in the main app)
+ *
+ * Frame content is stored as text lines. Colors are keyed by "x,y" and only
+ * written for non-default cells; human-readable exports store each color map
+ * as a JSON string instead of an object.
+ */
+
+export interface AsciiMotionJsonMetadata {
+  exportedAt: string;
+  exportVersion: string;
+  appVersion: string;
+  description: string;
+  title: string;
+  frameCount: number;
+  canvasSize: {
+    width: number;
+    height: number;
+  };
+}
+
+export interface AsciiMotionJsonFrameColors {
+  foreground?: Record<string, string> | string;
+  background?: Record<string, string> | string;
+}
+
+export interface AsciiMotionJsonFrame {
+  title: string;
+  duration: number;
+  content: string[] | string;
+  contentString?: string;
+  colors?: AsciiMotionJsonFrameColors;
+}
+
+export interface AsciiMotionJson {
+  metadata?: AsciiMotionJsonMetadata;
+  canvas: {
+    width: number;
+    height: number;
+    backgroundColor: string;
+  };
+  typography: {
+    fontSize: number;
+    characterSpacing: number;
+    lineSpacing: number;
+  };
+  animation: {
+    frameRate: number;
+    looping: boolean;
+    currentFrame: number;
+  };
+  frames: AsciiMotionJsonFrame[];
+}
+
+// Decoded cell; colors are resolved to the export defaults
+export interface PlayerCell {
+  char: string;
+  color: string;
+  bgColor: string | null;
+}
+
+export interface PlayerFrame {
+  duration: number;
+  rows: PlayerCell[][];
+}
+
+export interface AsciiPlayerOptions {
+  autoplay?: boolean;             // Start playing once mounted (default true)
+  loop?: boolean | number;        // true repeats forever, a number plays that many times in total (default: the export's `animation.looping`)
+  speed?: number;                 // Playback rate multiplier (default 1)
+  startFrame?: number;            // Initial frame (default: the export's current frame)
+  label?: string;                 // Accessible name (default: export title)
+  respectReducedMotion?: boolean; // Don't autoplay when the user prefers reduced motion (default true)
+  keyboardControls?: boolean;     // Space/Enter toggles, arrows step while focused (default true)
+  showBackground?: boolean;       // Paint the canvas background color (default true)
+  fontFamily?: string;            // CSS font stack for the characters
+}
+
+export interface AsciiPlayerState {
+  frameIndex: number;
+  frameCount: number;
+  isPlaying: boolean;
+  speed: number;
+  loop: boolean | number;
+}
+
+export interface AsciiPlayerEventMap {
+  frame: { frameIndex: number };
+  play: { frameIndex: number };
+  pause: { frameIndex: number };
+  ended: { frameIndex: number };
+}
+
+export type AsciiPlayerEvent = keyof AsciiPlayerEventMap;
+
+export type AsciiPlayerListener<E extends AsciiPlayerEvent> = (detail: AsciiPlayerEventMap[E]) => void;
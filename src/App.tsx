@@ -18,6 +18,10 @@ import { InlineProjectNameEditor } from './components/features/InlineProjectName
 import { SaveToCloudDialog } from './components/features/SaveToCloudDialog'
 import { ProjectsDialog } from './components/features/ProjectsDialog'
 import { SilentSaveHandler } from './components/features/SilentSaveHandler'
+import { LocalProjectHandler } from './components/features/LocalProjectHandler'
+import { SaveLocalProjectDialog } from './components/features/SaveLocalProjectDialog'
+import { LocalProjectsDialog } from './components/features/LocalProjectsDialog'
+import { useLocalProjectDialogState } from './hooks/useLocalProjectDialogState'
 import { Toaster } from './components/ui/sonner'
 import { toast } from 'sonner'
 import { MobileDialog } from './components/features/MobileDialog'
@@ -76,6 +80,12 @@ function AppContent() {
     setShowSaveToCloudDialog,
     setShowProjectsDialog,
   } = useCloudDialogState()
+  const {
+    showSaveLocalDialog,
+    showLocalProjectsDialog,
+    setShowSaveLocalDialog,
+    setShowLocalProjectsDialog,
+  } = useLocalProjectDialogState()
   const {
     handleLoadFromCloud: loadFromCloudBase,
     handleDownloadProject,
@@ -350,6 +360,17 @@ function AppContent() {
             </>
           )}
           
+          {/* Local project library - autosave, crash recovery and offline Save/Open */}
+          <LocalProjectHandler />
+          <SaveLocalProjectDialog
+            open={showSaveLocalDialog}
+            onOpenChange={setShowSaveLocalDialog}
+          />
+          <LocalProjectsDialog
+            open={showLocalProjectsDialog}
+            onOpenChange={setShowLocalProjectsDialog}
+          />
+          
           {/* Password Recovery Dialog - Shows when user clicks email reset link */}
           <UpdatePasswordDialog 
             open={showUpdatePasswordDialog} 
@@ -0,0 +1,150 @@
+/**
+ * ascii-motion CLI
+ *
+ * Usage:
+ *   ascii-motion render <input.asciimtn...> --format <format[,format]> [--out <dir>] [--name <basename>] [--frame <n>]
+ *
+ * Renders sessions without a browser (see renderSession.ts) so build pipelines
+ * can regenerate exported assets whenever a .asciimtn file changes.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+import { renderSession, isRenderFormat, RENDER_FORMATS } from './renderSession';
+import type { RenderFormat } from './renderSession';
+
+interface RenderCommandOptions {
+  inputs: string[];
+  formats: RenderFormat[];
+  outDir: string;
+  name?: string;
+  frameIndex?: number;
+}
+
+const USAGE = `Usage: ascii-motion render <input.asciimtn...> --format <format[,format]> [options]
+
+Formats: ${RENDER_FORMATS.join(', ')}
+
+Options:
+  -f, --format <list>   Comma-separated output formats (required)
+  -o, --out <dir>       Output directory (default: current directory)
+  -n, --name <name>     Output base name (default: input file name; single input only)
+      --frame <n>       Frame number for single-frame formats such as svg (1-based)
+  -h, --help            Show this message`;
+
+class CliUsageError extends Error {}
+
+const parseRenderArgs = (args: string[]): RenderCommandOptions => {
+  const options: RenderCommandOptions = { inputs: [], formats: [], outDir: '.' };
+
+  const readValue = (flag: string, index: number): string => {
+    const value = args[index + 1];
+    if (value === undefined || value.startsWith('-')) {
+      throw new CliUsageError(`Missing value for ${flag}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '-f':
+      case '--format': {
+        const formats = readValue(arg, i++).split(',').map(format => format.trim().toLowerCase());
+        formats.forEach(format => {
+          if (!isRenderFormat(format)) {
+            throw new CliUsageError(`Unknown format "${format}" (expected one of: ${RENDER_FORMATS.join(', ')})`);
+          }
+          if (!options.formats.includes(format)) {
+            options.formats.push(format);
+          }
+        });
+        break;
+      }
+      case '-o':
+      case '--out':
+        options.outDir = readValue(arg, i++);
+        break;
+      case '-n':
+      case '--name':
+        options.name = readValue(arg, i++);
+        break;
+      case '--frame': {
+        const frame = Number(readValue(arg, i++));
+        if (!Number.isInteger(frame) || frame < 1) {
+          throw new CliUsageError('--frame must be a positive frame number');
+        }
+        options.frameIndex = frame - 1;
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) {
+          throw new CliUsageError(`Unknown option ${arg}`);
+        }
+        options.inputs.push(arg);
+    }
+  }
+
+  if (options.inputs.length === 0) {
+    throw new CliUsageError('No input session given');
+  }
+  if (options.formats.length === 0) {
+    throw new CliUsageError('No output format given (use --format)');
+  }
+  if (options.name && options.inputs.length > 1) {
+    throw new CliUsageError('--name can only be used with a single input');
+  }
+
+  return options;
+};
+
+const runRender = async (options: RenderCommandOptions): Promise<void> => {
+  await mkdir(options.outDir, { recursive: true });
+
+  for (const input of options.inputs) {
+    const session = JSON.parse(await readFile(input, 'utf8')) as unknown;
+    const filename = options.name ?? path.basename(input, path.extname(input));
+
+    for (const format of options.formats) {
+      const output = renderSession(session, format, { filename, frameIndex: options.frameIndex });
+      const outputPath = path.join(options.outDir, output.filename);
+      await writeFile(outputPath, output.content, 'utf8');
+      console.log(`${input} -> ${outputPath}`);
+    }
+  }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv;
+
+  if (!command || command === '-h' || command === '--help') {
+    console.log(USAGE);
+    return command ? 0 : 1;
+  }
+
+  if (command !== 'render') {
+    console.error(`Unknown command "${command}"\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    await runRender(parseRenderArgs(args));
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      console.error(`Render failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return 1;
+  }
+};
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,153 @@
+/**
+ * renderSession - Browser-free rendering of .asciimtn sessions
+ *
+ * Parses a session with the SessionImporter validation/migration, applies the
+ * effect stack and renders the string-based export formats through ExportRenderer.
+ * Used by the `ascii-motion render` CLI so animations can be rebuilt in CI.
+ */
+
+import type { ExportDataBundle, RenderedExport } from '../types/export';
+import { SessionImporter } from '../utils/sessionImporter';
+import type { SessionImportData } from '../utils/sessionImporter';
+import { ExportRenderer } from '../utils/exportRenderer';
+import { applyEffectStackToFrames } from '../utils/effectStack';
+import { toExportFrame } from '../utils/layerUtils';
+import { calculateFontMetrics } from '../utils/fontMetrics';
+import { getFontStack, DEFAULT_FONT_ID } from '../constants/fonts';
+import { VERSION, BUILD_DATE, BUILD_HASH } from '../constants/version';
+import {
+  DEFAULT_SVG_SETTINGS,
+  DEFAULT_TEXT_SETTINGS,
+  DEFAULT_ANSI_SETTINGS,
+  DEFAULT_JSON_SETTINGS,
+  DEFAULT_HTML_SETTINGS,
+  DEFAULT_REACT_SETTINGS
+} from '../stores/exportStore';
+
+export const RENDER_FORMATS = ['text', 'json', 'html', 'react', 'svg', 'ansi'] as const;
+
+export type RenderFormat = typeof RENDER_FORMATS[number];
+
+export interface RenderSessionOptions {
+  filename: string;   // Output base name (without extension)
+  frameIndex?: number; // Frame rendered by single-frame formats (SVG); defaults to the saved frame
+}
+
+export const isRenderFormat = (value: string): value is RenderFormat =>
+  (RENDER_FORMATS as readonly string[]).includes(value);
+
+// Same defaults as the editor's typography settings
+const DEFAULT_TYPOGRAPHY = {
+  fontSize: 16,
+  characterSpacing: 1.0,
+  lineSpacing: 1.0
+};
+
+/**
+ * Build the export bundle the editor would collect for a loaded session
+ */
+export const createSessionExportData = (
+  sessionData: SessionImportData,
+  frameIndex?: number
+): ExportDataBundle => {
+  const sourceFrames = SessionImporter.deserializeFrames(sessionData).map(toExportFrame);
+  const effectStack = sessionData.effectStack ?? [];
+  const canvasBackgroundColor = sessionData.canvas.canvasBackgroundColor;
+  const frames = applyEffectStackToFrames(sourceFrames, effectStack, canvasBackgroundColor);
+
+  const typography = {
+    fontSize: sessionData.typography?.fontSize ?? DEFAULT_TYPOGRAPHY.fontSize,
+    characterSpacing: sessionData.typography?.characterSpacing ?? DEFAULT_TYPOGRAPHY.characterSpacing,
+    lineSpacing: sessionData.typography?.lineSpacing ?? DEFAULT_TYPOGRAPHY.lineSpacing,
+    selectedFontId: sessionData.typography?.selectedFontId ?? DEFAULT_FONT_ID
+  };
+
+  const requestedIndex = frameIndex ?? sessionData.animation.currentFrameIndex;
+  const currentFrameIndex = Math.max(0, Math.min(requestedIndex, frames.length - 1));
+
+  return {
+    name: sessionData.name,
+    description: sessionData.description,
+    metadata: {
+      version: VERSION,
+      buildDate: BUILD_DATE,
+      buildHash: BUILD_HASH,
+      exportDate: new Date().toISOString(),
+      projectName: sessionData.name,
+      projectDescription: sessionData.description
+    },
+    frames,
+    sourceFrames,
+    currentFrameIndex,
+    frameRate: sessionData.animation.frameRate ?? 12,
+    looping: sessionData.animation.looping ?? false,
+    canvasData: frames[currentFrameIndex]?.data ?? new Map(),
+    canvasDimensions: {
+      width: sessionData.canvas.width,
+      height: sessionData.canvas.height
+    },
+    canvasBackgroundColor,
+    showGrid: sessionData.canvas.showGrid ?? false,
+    fontMetrics: calculateFontMetrics(typography.fontSize, getFontStack(typography.selectedFontId)),
+    typography,
+    toolState: {
+      activeTool: sessionData.tools.activeTool,
+      selectedColor: sessionData.tools.selectedColor,
+      selectedBgColor: sessionData.tools.selectedBgColor ?? 'transparent',
+      selectedCharacter: sessionData.tools.selectedCharacter ?? '@',
+      paintBucketContiguous: true,
+      rectangleFilled: sessionData.tools.rectangleFilled ?? false
+    },
+    uiState: {
+      zoom: 1,
+      panOffset: { x: 0, y: 0 },
+      theme: 'dark'
+    },
+    paletteState: sessionData.palettes ?? {
+      activePaletteId: '',
+      customPalettes: [],
+      recentColors: []
+    },
+    characterPaletteState: sessionData.characterPalettes ?? {
+      activePaletteId: '',
+      customPalettes: [],
+      mappingMethod: 'brightness',
+      invertDensity: false,
+      characterSpacing: 1.0
+    },
+    toolPresets: sessionData.toolPresets ?? {},
+    effectStack
+  };
+};
+
+/**
+ * Render a parsed .asciimtn JSON document to one export format using the editor's default settings
+ */
+export const renderSession = (
+  session: unknown,
+  format: RenderFormat,
+  options: RenderSessionOptions
+): RenderedExport => {
+  const sessionData = SessionImporter.parseSessionData(session);
+  const data = createSessionExportData(sessionData, options.frameIndex);
+  const renderer = new ExportRenderer();
+  const { filename } = options;
+
+  switch (format) {
+    case 'text':
+      return renderer.renderText(data, DEFAULT_TEXT_SETTINGS, filename);
+    case 'json':
+      return renderer.renderJson(data, DEFAULT_JSON_SETTINGS, filename);
+    case 'html':
+      return renderer.renderHtml(data, DEFAULT_HTML_SETTINGS, filename);
+    case 'react':
+      return renderer.renderReactComponent(data, { ...DEFAULT_REACT_SETTINGS, fileName: filename });
+    case 'svg':
+      // Outlines need font files and a canvas fallback, so text elements are always used
+      return renderer.renderSvg(data, { ...DEFAULT_SVG_SETTINGS, textAsOutlines: false }, filename);
+    case 'ansi':
+      return renderer.renderAnsi(data, DEFAULT_ANSI_SETTINGS, filename);
+    default:
+      throw new Error(`Unsupported render format: ${format as string}`);
+  }
+};
@@ -4,7 +4,8 @@ import { useCanvasStore } from '../../stores/canvasStore'
 import { 
   logPerformanceStats, 
   testLargeGridPerformance, 
-  clearPerformanceHistory 
+  clearPerformanceHistory,
+  runLargeCanvasBenchmark
 } from '../../utils/performance';
 
 interface PerformanceTestResult {
@@ -31,7 +32,8 @@ export const PerformanceMonitor: React.FC = () => {
       { width: 80, height: 24 },   // Standard
       { width: 120, height: 40 },  // Medium
       { width: 160, height: 60 },  // Large
-      { width: 200, height: 100 }  // Extra Large
+      { width: 200, height: 100 }, // Extra Large
+      { width: 1000, height: 500 }  // Poster
     ];
 
     const results: PerformanceTestResult[] = [];
@@ -60,6 +62,25 @@ export const PerformanceMonitor: React.FC = () => {
     setCanvasSize(80, 24);
   }, [setCanvasSize]);
 
+  // Benchmark culled, panned, dirty-region and export paths on a synthetic poster-sized frame
+  const runLargeCanvasTests = useCallback(async () => {
+    setIsTesting(true);
+    setTestResults([]);
+
+    try {
+      const results = await runLargeCanvasBenchmark(1000, 500);
+      setTestResults(results.map(result => ({
+        gridSize: result.name,
+        avgRenderTime: result.durationMs,
+        recommendation: result.detail
+      })));
+    } catch (error) {
+      console.error('❌ Large canvas benchmark failed:', error);
+    }
+
+    setIsTesting(false);
+  }, []);
+
   const handleLogStats = useCallback(() => {
     logPerformanceStats();
   }, []);
@@ -98,6 +119,16 @@ export const PerformanceMonitor: React.FC = () => {
           >
             {isTesting ? 'Testing...' : 'Test Grid Sizes'}
           </Button>
+
+          <Button
+            onClick={runLargeCanvasTests}
+            size="sm"
+            variant="outline"
+            className="text-xs"
+            disabled={isTesting}
+          >
+            Benchmark 1000x500
+          </Button>
           
           <Button
             onClick={handleClearHistory}
@@ -8,6 +8,7 @@ import { usePlaybackOnlySnapshot } from '../../hooks/usePlaybackOnlySnapshot';
 import { useFrameNavigation } from '../../hooks/useFrameNavigation';
 import { useAnimationHistory } from '../../hooks/useAnimationHistory';
 import { useTimeEffectsStore } from '../../stores/timeEffectsStore';
+import { useTimeEffectsHistory } from '../../hooks/useTimeEffectsHistory';
 import { FrameThumbnail } from './FrameThumbnail';
 import { PlaybackControls } from './PlaybackControls';
 import { FrameControls } from './FrameControls';
@@ -25,8 +26,11 @@ import {
   DropdownMenuSubTrigger,
   DropdownMenuTrigger 
 } from '../ui/dropdown-menu';
-import { Menu, Clock, Plus, Zap } from 'lucide-react';
+import { Menu, Clock, Plus, Zap, MoveRight } from 'lucide-react';
 import { MAX_LIMITS } from '../../constants';
+import { useKeymapStore } from '../../stores/keymapStore';
+import { eventToChord } from '../../utils/keymap';
+import { registerCommandHandlers } from '../../utils/commandHandlers';
 
 const AUTO_SCROLL_EDGE_RATIO = 0.1; // 10% edge band for auto-scrolling
 const AUTO_SCROLL_MIN_SPEED = 30; // px per second at edge boundary
@@ -255,6 +259,11 @@ export const AnimationTimeline: React.FC = () => {
     }
   }, [isPlaybackActive, stopOptimizedPlayback]);
 
+  // Expose play/pause to the command registry
+  useEffect(() => registerCommandHandlers({
+    'playback.toggle': () => (isPlaybackActive ? handlePausePlayback() : handleStartPlayback())
+  }), [isPlaybackActive, handleStartPlayback, handlePausePlayback]);
+
   // Handle keyboard shortcuts for playback (moved from useAnimationPlayback to support optimized playback)
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -268,23 +277,21 @@ export const AnimationTimeline: React.FC = () => {
   const { activeTool, textToolState } = useToolStore.getState();
       const isTypingInTextTool = activeTool === 'text' && textToolState.isTyping;
 
-      switch (event.key) {
-        case ' ': // Spacebar for play/pause (primary modern value)
-        case 'Space': // Some browsers/environments (legacy) provide 'Space'
-          // Ensure we don't hijack typing in text tool
-          if (isTypingInTextTool) return;
-          // Also guard against focused inputs (already filtered above) & allow default when modifier pressed
-          if (event.metaKey || event.ctrlKey || event.altKey) return;
-          event.preventDefault(); // Prevent page scroll
-          if (isPlaybackActive) {
-            handlePausePlayback();
-          } else {
-            handleStartPlayback();
-          }
-          break;
-        case 'Escape': // Escape to stop
-          event.preventDefault();
-          break;
+      // Play/pause chord comes from the keymap (Spacebar by default)
+      if (useKeymapStore.getState().getCommandForChord(eventToChord(event)) === 'playback.toggle') {
+        // Ensure we don't hijack typing in text tool
+        if (isTypingInTextTool) return;
+        event.preventDefault(); // Prevent page scroll
+        if (isPlaybackActive) {
+          handlePausePlayback();
+        } else {
+          handleStartPlayback();
+        }
+        return;
+      }
+
+      if (event.key === 'Escape') { // Escape to stop
+        event.preventDefault();
       }
     };
 
@@ -691,8 +698,10 @@ const AnimationControlsMenu: React.FC = () => {
     openSetDurationDialog,
     openAddFramesDialog,
     openWaveWarpDialog,
-    openWiggleDialog
+    openWiggleDialog,
+    openTweenDialog
   } = useTimeEffectsStore();
+  const { getSelectionOrigin } = useTimeEffectsHistory();
 
   return (
     <TooltipProvider>
@@ -730,6 +739,11 @@ const AnimationControlsMenu: React.FC = () => {
             <span>Add multiple frames</span>
           </DropdownMenuItem>
           
+          <DropdownMenuItem onClick={() => openTweenDialog(getSelectionOrigin())}>
+            <MoveRight className="mr-2 h-4 w-4" />
+            <span>Tween selection</span>
+          </DropdownMenuItem>
+          
           <DropdownMenuSub>
             <DropdownMenuSubTrigger>
               <Zap className="mr-2 h-4 w-4" />
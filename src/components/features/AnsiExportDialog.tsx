@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Terminal, Download, Settings, Loader2 } from 'lucide-react';
+import { useExportStore } from '../../stores/exportStore';
+import { useExportDataCollector } from '../../utils/exportDataCollector';
+import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
+import { ExportRenderer } from '../../utils/exportRenderer';
+import type { AnsiExportSettings } from '../../types/export';
+
+/**
+ * ANSI Export Dialog
+ * Handles terminal escape-sequence export as a .ans file or a self-playing shell script
+ */
+export const AnsiExportDialog: React.FC = () => {
+  const activeFormat = useExportStore(state => state.activeFormat);
+  const showExportModal = useExportStore(state => state.showExportModal);
+  const setShowExportModal = useExportStore(state => state.setShowExportModal);
+  const ansiSettings = useExportStore(state => state.ansiSettings);
+  const setAnsiSettings = useExportStore(state => state.setAnsiSettings);
+
+  const exportData = useExportDataCollector();
+  const projectName = useProjectMetadataStore((state) => state.projectName);
+
+  const [filename, setFilename] = useState(projectName || 'ascii-motion-ansi');
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<{ message: string; progress: number } | null>(null);
+
+  const isOpen = showExportModal && activeFormat === 'ansi';
+
+  // Sync filename with project name when dialog opens
+  useEffect(() => {
+    if (isOpen && projectName) {
+      setFilename(projectName);
+    }
+  }, [isOpen, projectName]);
+
+  const handleClose = () => {
+    setShowExportModal(false);
+  };
+
+  const handleExport = async () => {
+    if (!exportData) {
+      console.error('No export data available');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+
+      // Create renderer with progress callback
+      const renderer = new ExportRenderer((progress) => {
+        setProgress(progress);
+      });
+
+      // Perform the export
+      await renderer.exportAnsi(exportData, ansiSettings, filename);
+
+      // Close dialog on success
+      handleClose();
+    } catch (error) {
+      console.error('ANSI export failed:', error);
+      alert(`ANSI export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleSettingChange = <K extends keyof AnsiExportSettings>(key: K, value: AnsiExportSettings[K]) => {
+    setAnsiSettings({ [key]: value });
+  };
+
+  const frameCount = exportData?.frames.length || 0;
+  const isScript = ansiSettings.output === 'sh';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setShowExportModal}>
+      <DialogContent className="max-w-md p-0 overflow-hidden border-border/50" aria-describedby={undefined}>
+        <DialogHeader className="px-6 pt-6 pb-4 border-b border-border/50 bg-background">
+          <DialogTitle className="flex items-center gap-2">
+            <Terminal className="w-5 h-5" />
+            Export ANSI
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col max-h-[80vh]">
+          {/* Sticky Progress + Filename */}
+          <div className="sticky top-0 z-10 bg-background px-6 py-4 border-b border-border/50 space-y-4">
+            {progress && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{progress.message}</span>
+                  <span>{progress.progress}%</span>
+                </div>
+                <div className="w-full bg-muted rounded-full h-2">
+                  <div
+                    className="bg-primary h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${progress.progress}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="filename">Filename</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="filename"
+                  value={filename}
+                  onChange={(e) => setFilename(e.target.value)}
+                  placeholder="ascii-motion-ansi"
+                  className="flex-1"
+                  disabled={isExporting}
+                />
+                <Badge variant="outline" className="ml-2 self-center">
+                  .{ansiSettings.output}
+                </Badge>
+              </div>
+            </div>
+          </div>
+
+          {/* Scrollable Settings */}
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            <Card className="border-border/50">
+              <CardContent className="pt-4 space-y-4">
+                <div className="flex items-center gap-2 mb-1">
+                  <Settings className="w-4 h-4" />
+                  <span className="text-sm font-medium">ANSI Settings</span>
+                </div>
+
+                {/* Output Type */}
+                <div className="space-y-2">
+                  <Label htmlFor="ansi-output">Output</Label>
+                  <Select
+                    value={ansiSettings.output}
+                    onValueChange={(value: AnsiExportSettings['output']) => handleSettingChange('output', value)}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="ansi-output">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ans">ANSI art file (.ans)</SelectItem>
+                      <SelectItem value="sh">Shell script player (.sh)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Color Mode */}
+                <div className="space-y-2">
+                  <Label htmlFor="ansi-color-mode">Color Mode</Label>
+                  <Select
+                    value={ansiSettings.colorMode}
+                    onValueChange={(value: AnsiExportSettings['colorMode']) => handleSettingChange('colorMode', value)}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="ansi-color-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="truecolor">24-bit truecolor</SelectItem>
+                      <SelectItem value="ansi256">256 colors</SelectItem>
+                      <SelectItem value="ansi16">16 colors</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Include Background */}
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="ansi-include-background">Include canvas background</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Fill empty cells with the canvas background color
+                    </p>
+                  </div>
+                  <Checkbox
+                    id="ansi-include-background"
+                    checked={ansiSettings.includeBackground}
+                    onCheckedChange={(checked) => handleSettingChange('includeBackground', !!checked)}
+                    disabled={isExporting}
+                  />
+                </div>
+
+                {isScript ? (
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="ansi-loop">Loop playback</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Repeat until interrupted with Ctrl+C
+                      </p>
+                    </div>
+                    <Checkbox
+                      id="ansi-loop"
+                      checked={ansiSettings.loop}
+                      onCheckedChange={(checked) => handleSettingChange('loop', !!checked)}
+                      disabled={isExporting}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="ansi-cursor-home">Redraw frames in place</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Add cursor-home sequences so the file plays with cat
+                      </p>
+                    </div>
+                    <Checkbox
+                      id="ansi-cursor-home"
+                      checked={ansiSettings.cursorHome}
+                      onCheckedChange={(checked) => handleSettingChange('cursorHome', !!checked)}
+                      disabled={isExporting}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Export Info */}
+            <Card className="bg-muted/50 border-border/50">
+              <CardContent className="pt-4">
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Frames:</span>
+                    <span>{frameCount}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {isScript
+                      ? 'Run with bash to play the animation using each frame\'s duration.'
+                      : 'Frame timing is not stored in .ans files; terminals draw frames as fast as they are read.'}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sticky Action Buttons */}
+          <div className="sticky bottom-0 z-10 bg-background px-6 py-4 border-t border-border/50 flex justify-end gap-2">
+            <Button variant="outline" onClick={handleClose} disabled={isExporting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || !exportData || !filename.trim()}
+              className="gap-2"
+            >
+              {isExporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Exporting...
+                </>
+              ) : (
+                <>
+                  <Download className="w-4 h-4" />
+                  Export ANSI
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Card, CardContent } from '../ui/card';
+import { Button } from '../ui/button';
+import { Upload, Terminal, AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useExportStore } from '../../stores/exportStore';
+import { useAnsiImporter } from '../../utils/ansiImporter';
+
+/**
+ * ANSI Import Dialog
+ * Handles .ans / terminal escape-sequence import - triggered from dropdown
+ */
+export const AnsiImportDialog: React.FC = () => {
+  const activeFormat = useExportStore(state => state.activeFormat);
+  const showImportModal = useExportStore(state => state.showImportModal);
+  const setShowImportModal = useExportStore(state => state.setShowImportModal);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  const { importAnsi } = useAnsiImporter();
+  const [isImporting, setIsImporting] = useState(false);
+
+  const isOpen = showImportModal && activeFormat === 'ansi';
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      
+      const { frameCount, clippedCells } = await importAnsi(file);
+      toast.success(`Imported ${frameCount} frame${frameCount === 1 ? '' : 's'} from ${file.name}`);
+      if (clippedCells > 0) {
+        toast.warning(`${clippedCells} cells outside the canvas were skipped`);
+      }
+      
+      // Reset input and close modal
+      event.target.value = '';
+      setShowImportModal(false);
+    } catch (error) {
+      console.error('ANSI import failed:', error);
+      alert(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setShowImportModal(false);
+  };
+
+  return (
+    <>
+      {/* Hidden file input */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        accept=".ans,.ansi,.txt,.asc,text/plain"
+        onChange={handleFileChange}
+      />
+
+      <Dialog open={isOpen} onOpenChange={setShowImportModal}>
+        <DialogContent className="max-w-md border-border/50" aria-describedby={undefined}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Terminal className="w-5 h-5" />
+              Import ANSI Art
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            {/* File Selection */}
+            <div className="text-center py-8">
+              <Terminal className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Select ANSI File</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                Choose a .ans or text file containing terminal color codes
+              </p>
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                className="gap-2"
+                disabled={isImporting}
+              >
+                {isImporting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="w-4 h-4" />
+                    Browse Files
+                  </>
+                )}
+              </Button>
+            </div>
+
+            {/* Help Text */}
+            <Card className="bg-muted/50">
+              <CardContent className="pt-4">
+                <div className="flex items-start gap-3">
+                  <AlertCircle className="w-4 h-4 text-muted-foreground mt-0.5" />
+                  <div className="text-xs text-muted-foreground">
+                    <div className="font-medium mb-1">Import Guidelines:</div>
+                    <ul className="space-y-1">
+                      <li>• Imported frames are appended to the end of the timeline</li>
+                      <li>• 16, 256 and 24-bit SGR colors are converted to cell colors</li>
+                      <li>• Each cursor-home or clear-screen sequence starts a new frame</li>
+                      <li>• Lines wrap at the canvas width; cells outside the canvas are skipped</li>
+                      <li>• Legacy CP437 files (DOS-era .ans art) are detected automatically</li>
+                    </ul>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Action Buttons */}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
\ No newline at end of file
@@ -36,6 +36,7 @@ import { useAnimationStore } from '../../stores/animationStore';
 import { usePreviewStore } from '../../stores/previewStore';
 import { useToolStore } from '../../stores/toolStore';
 import { cn } from '../../lib/utils';
+import { canEditActiveLayer } from '../../utils/layerLock';
 import { Loader2, Sparkles, Type, X } from 'lucide-react';
 
 const parseTailwindDuration = (token: string): number | null => {
@@ -198,6 +199,9 @@ export function AsciiTypePanel() {
     if (!isPreviewPlaced || !previewOrigin || previewCanvasCells.size === 0) {
       return;
     }
+    if (!canEditActiveLayer()) {
+      return;
+    }
 
     const { cells: canvasCells } = useCanvasStore.getState();
     const nextCells = new Map(canvasCells);
@@ -1,54 +1,11 @@
-import React, { useCallback } from 'react';
+import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Copy, Clipboard, Undo2, Redo2, Trash2 } from 'lucide-react';
 import { useCanvasStore } from '@/stores/canvasStore';
 import { useToolStore } from '@/stores/toolStore';
 import { useAnimationStore } from '@/stores/animationStore';
-import { useBezierStore } from '@/stores/bezierStore';
-import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
-import type { 
-  AnyHistoryAction, 
-  ApplyEffectHistoryAction, 
-  CanvasHistoryAction, 
-  Cell, 
-  DeleteFrameRangeHistoryAction,
-  DuplicateFrameRangeHistoryAction,
-  DeleteAllFramesHistoryAction,
-  BezierCommitHistoryAction,
-  BezierAddPointHistoryAction,
-  BezierMovePointHistoryAction,
-  BezierAdjustHandleHistoryAction,
-  BezierToggleHandlesHistoryAction,
-  BezierDeletePointHistoryAction,
-} from '@/types';
-
-interface ResizeHistoryAction {
-  type: 'canvas_resize';
-  data: {
-    frameIndex: number;
-    newWidth: number;
-    newHeight: number;
-    previousWidth: number;
-    previousHeight: number;
-    previousCanvasData: Map<string, Cell>;
-  };
-}
-
-interface TimeEffectHistoryAction {
-  type: 'apply_time_effect';
-  data: {
-    previousFramesData?: Array<{ frameIndex: number; data: Map<string, Cell> }>;
-  };
-}
-
-interface DurationHistoryAction {
-  type: 'set_frame_durations';
-  data: {
-    affectedFrameIndices: number[];
-    newDuration: number;
-    previousDurations: Array<{ frameIndex: number; duration: number }>;
-  };
-}
+import { processHistoryAction, useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { canEditActiveLayer } from '@/utils/layerLock';
 
 /**
  * Canvas Action Buttons Component
@@ -56,7 +13,7 @@ interface DurationHistoryAction {
  * Moved from top toolbar to save space for canvas settings
  */
 export const CanvasActionButtons: React.FC = () => {
-  const { clearCanvas, setCanvasData, setCanvasSize } = useCanvasStore();
+  const { clearCanvas } = useCanvasStore();
   const { 
     selection, 
     lassoSelection,
@@ -66,479 +23,9 @@ export const CanvasActionButtons: React.FC = () => {
     redo, 
     canUndo, 
     canRedo,
-    activeTool,
-    setActiveTool,
-    setSelectedChar,
-    setSelectedColor,
-    setSelectedBgColor,
   } = useToolStore();
-  const animationStore = useAnimationStore();
-  const bezierStore = useBezierStore();
   const { copySelection: handleCopyFromKeyboard, pasteSelection: handlePasteFromKeyboard } = useKeyboardShortcuts();
 
-  /**
-   * Helper function to process different types of history actions
-   * This is the same logic used by keyboard shortcuts
-   */
-  const processHistoryAction = useCallback((action: AnyHistoryAction, isRedo: boolean) => {
-    switch (action.type) {
-      case 'canvas_edit': {
-        const canvasAction = action as CanvasHistoryAction;
-        // Determine correct snapshot based on undo/redo direction
-        const targetData = isRedo
-          ? (canvasAction.data.newCanvasData ?? canvasAction.data.previousCanvasData)
-          : canvasAction.data.previousCanvasData;
-        if (isRedo && !canvasAction.data.newCanvasData && process.env.NODE_ENV !== 'production') {
-          console.warn('[history] Redo encountered legacy canvas_edit entry without newCanvasData; using previousCanvasData fallback');
-        }
-
-        // Update frame store first to avoid auto-save races
-        animationStore.setFrameData(canvasAction.data.frameIndex, targetData);
-
-        // Switch to frame if needed
-        if (animationStore.currentFrameIndex !== canvasAction.data.frameIndex) {
-          animationStore.setCurrentFrame(canvasAction.data.frameIndex);
-        }
-
-        // Reflect on visible canvas
-        setCanvasData(targetData);
-        break;
-      }
-      
-      case 'canvas_resize': {
-        const resizeAction = action as ResizeHistoryAction;
-        if (isRedo) {
-          // Redo: Apply new size
-          setCanvasSize(resizeAction.data.newWidth, resizeAction.data.newHeight);
-        } else {
-          // Undo: Restore previous size and data
-          setCanvasSize(resizeAction.data.previousWidth, resizeAction.data.previousHeight);
-          setCanvasData(resizeAction.data.previousCanvasData);
-        }
-        // Set current frame to match the frame this resize was made in
-        animationStore.setCurrentFrame(resizeAction.data.frameIndex);
-        break;
-      }
-        
-      case 'add_frame': {
-        if (isRedo) {
-          // Redo: Re-add the frame with full properties
-          const frame = action.data.frame;
-          animationStore.addFrame(action.data.frameIndex, frame.data, frame.duration);
-          animationStore.updateFrameName(action.data.frameIndex, frame.name);
-          // Canvas will sync automatically since addFrame sets current frame
-        } else {
-          // Undo: Remove the frame that was added
-          animationStore.removeFrame(action.data.frameIndex);
-          animationStore.setCurrentFrame(action.data.previousCurrentFrame);
-          // After removing frame and switching to previous frame, 
-          // sync canvas with the frame we switched to
-          const currentFrame = animationStore.frames[action.data.previousCurrentFrame];
-          if (currentFrame) {
-            setCanvasData(currentFrame.data);
-          }
-        }
-        break;
-      }
-        
-      case 'duplicate_frame': {
-        if (isRedo) {
-          // Redo: Re-add the duplicated frame using the stored frame data
-          const frame = action.data.frame;
-          animationStore.addFrame(action.data.newIndex, frame.data, frame.duration);
-          animationStore.updateFrameName(action.data.newIndex, frame.name);
-          // Canvas will sync automatically since addFrame sets current frame
-        } else {
-          // Undo: Remove the duplicated frame
-          animationStore.removeFrame(action.data.newIndex);
-          animationStore.setCurrentFrame(action.data.previousCurrentFrame);
-          // Sync canvas with the frame we switched to
-          const currentFrame = animationStore.frames[action.data.previousCurrentFrame];
-          if (currentFrame) {
-            setCanvasData(currentFrame.data);
-          }
-        }
-        break;
-      }
-        
-      case 'delete_frame': {
-        if (isRedo) {
-          // Redo: Re-delete the frame
-          animationStore.removeFrame(action.data.frameIndex);
-          // After deletion, sync canvas with the new current frame
-          const newCurrentIndex = Math.min(action.data.frameIndex, animationStore.frames.length - 1);
-          const currentFrame = animationStore.frames[newCurrentIndex];
-          if (currentFrame) {
-            setCanvasData(currentFrame.data);
-          }
-        } else {
-          // Undo: Re-add the deleted frame
-          const deletedFrame = action.data.frame;
-          
-          // Add frame at the correct position
-          animationStore.addFrame(action.data.frameIndex, deletedFrame.data, deletedFrame.duration);
-          
-          // Update the frame properties to match the deleted frame
-          animationStore.updateFrameName(action.data.frameIndex, deletedFrame.name);
-          
-          // Restore previous current frame
-          animationStore.setCurrentFrame(action.data.previousCurrentFrame);
-          // Sync canvas with the restored frame
-          setCanvasData(deletedFrame.data);
-        }
-        break;
-      }
-        
-      case 'reorder_frames': {
-        if (isRedo) {
-          // Redo: Re-perform the reorder
-          animationStore.reorderFrames(action.data.fromIndex, action.data.toIndex);
-        } else {
-          // Undo: Reverse the reorder
-          animationStore.reorderFrames(action.data.toIndex, action.data.fromIndex);
-          animationStore.setCurrentFrame(action.data.previousCurrentFrame);
-        }
-        // Sync canvas after reorder to ensure we're showing the right frame
-        const currentFrame = animationStore.frames[animationStore.currentFrameIndex];
-        if (currentFrame) {
-          setCanvasData(currentFrame.data);
-        }
-        break;
-      }
-        
-      case 'update_duration':
-        if (isRedo) {
-          // Redo: Apply new duration
-          animationStore.updateFrameDuration(action.data.frameIndex, action.data.newDuration);
-        } else {
-          // Undo: Restore old duration
-          animationStore.updateFrameDuration(action.data.frameIndex, action.data.oldDuration);
-        }
-        break;
-
-      case 'update_name':
-        if (isRedo) {
-          // Redo: Apply new name
-          animationStore.updateFrameName(action.data.frameIndex, action.data.newName);
-        } else {
-          // Undo: Restore old name
-          animationStore.updateFrameName(action.data.frameIndex, action.data.oldName);
-        }
-        break;
-
-      case 'navigate_frame':
-        if (isRedo) {
-          // Redo: Go to the new frame index
-          animationStore.setCurrentFrame(action.data.newFrameIndex);
-        } else {
-          // Undo: Go back to the previous frame index
-          animationStore.setCurrentFrame(action.data.previousFrameIndex);
-        }
-        break;
-
-      case 'apply_effect': {
-        const effectAction = action as ApplyEffectHistoryAction;
-        if (isRedo) {
-          // Redo: Restore the "after" state (following the forward snapshot pattern)
-          if (effectAction.data.applyToTimeline) {
-            // Restore all affected frames to their post-effect state
-            const { newFramesData } = effectAction.data;
-            if (newFramesData) {
-              newFramesData.forEach(({ frameIndex, data }) => {
-                animationStore.setFrameData(frameIndex, data);
-              });
-              console.log(`✅ Redo: Applied ${effectAction.data.effectType} effect to ${newFramesData.length} frames`);
-            } else {
-              console.warn(`⚠️ Redo for ${effectAction.data.effectType} effect: newFramesData missing (legacy entry)`);
-            }
-          } else {
-            // Restore single canvas to its post-effect state
-            if (effectAction.data.newCanvasData) {
-              setCanvasData(effectAction.data.newCanvasData);
-              console.log(`✅ Redo: Applied ${effectAction.data.effectType} effect to canvas`);
-            } else {
-              console.warn(`⚠️ Redo for ${effectAction.data.effectType} effect: newCanvasData missing (legacy entry)`);
-            }
-          }
-        } else {
-          // Undo: Restore previous data
-          if (effectAction.data.applyToTimeline) {
-            // Restore all affected frames
-            const { previousFramesData } = effectAction.data;
-            if (previousFramesData) {
-              previousFramesData.forEach(({ frameIndex, data }) => {
-                animationStore.setFrameData(frameIndex, data);
-              });
-              console.log(`✅ Undo: Restored ${previousFramesData.length} frames from ${effectAction.data.effectType} effect`);
-            }
-          } else {
-            // Restore single canvas
-            if (effectAction.data.previousCanvasData) {
-              setCanvasData(effectAction.data.previousCanvasData);
-              console.log(`✅ Undo: Restored canvas from ${effectAction.data.effectType} effect`);
-            }
-          }
-        }
-        break;
-      }
-
-      case 'apply_time_effect': {
-        const timeEffectAction = action as TimeEffectHistoryAction;
-        if (isRedo) {
-          // Redo: Re-apply the time effect (not yet implemented)
-          console.warn('Redo for time effects is not yet implemented');
-        } else {
-          // Undo: Restore previous frame data
-          if (timeEffectAction.data.previousFramesData) {
-            timeEffectAction.data.previousFramesData.forEach(({ frameIndex, data }) => {
-              animationStore.setFrameData(frameIndex, data);
-            });
-          }
-        }
-        break;
-      }
-
-      case 'set_frame_durations': {
-        const durationsAction = action as DurationHistoryAction;
-        if (isRedo) {
-          // Redo: Re-apply the new duration to all affected frames
-          durationsAction.data.affectedFrameIndices.forEach((frameIndex: number) => {
-            animationStore.updateFrameDuration(frameIndex, durationsAction.data.newDuration);
-          });
-        } else {
-          // Undo: Restore previous durations
-          durationsAction.data.previousDurations.forEach(({ frameIndex, duration }) => {
-            animationStore.updateFrameDuration(frameIndex, duration);
-          });
-        }
-        break;
-      }
-
-      case 'delete_frame_range': {
-        const deleteRangeAction = action as DeleteFrameRangeHistoryAction;
-        if (isRedo) {
-          // Redo: Re-delete the frames
-          animationStore.removeFrameRange(deleteRangeAction.data.frameIndices);
-        } else {
-          // Undo: Restore snapshot prior to deletion
-          const { previousFrames, previousCurrentFrame, previousSelection } = deleteRangeAction.data;
-          animationStore.replaceFrames(
-            previousFrames,
-            previousCurrentFrame,
-            previousSelection.length > 0 ? previousSelection : undefined
-          );
-        }
-        break;
-      }
-
-      case 'duplicate_frame_range': {
-        const duplicateRangeAction = action as DuplicateFrameRangeHistoryAction;
-        const {
-          previousFrames,
-          newFrames,
-          previousSelection,
-          newSelection,
-          previousCurrentFrame,
-          newCurrentFrame
-        } = duplicateRangeAction.data;
-
-        if (isRedo) {
-          animationStore.replaceFrames(
-            newFrames,
-            newCurrentFrame,
-            newSelection.length > 0 ? newSelection : undefined
-          );
-        } else {
-          animationStore.replaceFrames(
-            previousFrames,
-            previousCurrentFrame,
-            previousSelection.length > 0 ? previousSelection : undefined
-          );
-        }
-        break;
-      }
-
-      case 'delete_all_frames': {
-        const deleteAllAction = action as DeleteAllFramesHistoryAction;
-        if (isRedo) {
-          // Redo: Clear all frames again
-          animationStore.clearAllFrames();
-        } else {
-          // Undo: Restore all deleted frames
-          deleteAllAction.data.frames.forEach((frame, index) => {
-            if (index === 0) {
-              // Replace the default frame created by clearAllFrames
-              animationStore.setFrameData(0, frame.data);
-              animationStore.updateFrameName(0, frame.name);
-              animationStore.updateFrameDuration(0, frame.duration);
-            } else {
-              // Add additional frames
-              animationStore.addFrame(index, frame.data, frame.duration);
-              animationStore.updateFrameName(index, frame.name);
-            }
-          });
-          animationStore.setCurrentFrame(deleteAllAction.data.previousCurrentFrame);
-        }
-        break;
-      }
-
-      case 'bezier_commit': {
-        const bezierAction = action as BezierCommitHistoryAction;
-        if (isRedo) {
-          // Redo: Re-apply bezier shape to canvas
-          setCanvasData(bezierAction.data.newCanvasData);
-          animationStore.setFrameData(bezierAction.data.frameIndex, bezierAction.data.newCanvasData);
-          if (animationStore.currentFrameIndex !== bezierAction.data.frameIndex) {
-            animationStore.setCurrentFrame(bezierAction.data.frameIndex);
-          }
-        } else {
-          // Undo: Restore canvas AND bezier editing state
-          // First restore canvas
-          setCanvasData(bezierAction.data.previousCanvasData);
-          animationStore.setFrameData(bezierAction.data.frameIndex, bezierAction.data.previousCanvasData);
-          if (animationStore.currentFrameIndex !== bezierAction.data.frameIndex) {
-            animationStore.setCurrentFrame(bezierAction.data.frameIndex);
-          }
-          
-          // Then restore bezier tool state so user can continue editing
-          bezierStore.restoreState(bezierAction.data.bezierState);
-          
-          // Restore character/color settings from when shape was committed
-          setSelectedChar(bezierAction.data.bezierState.selectedChar);
-          setSelectedColor(bezierAction.data.bezierState.selectedColor);
-          setSelectedBgColor(bezierAction.data.bezierState.selectedBgColor);
-          
-          // Switch to bezier tool to show restored shape
-          setActiveTool('beziershape');
-        }
-        break;
-      }
-
-      case 'bezier_add_point': {
-        const addPointAction = action as BezierAddPointHistoryAction;
-        if (isRedo) {
-          // Redo: Re-add the point
-          bezierStore.addAnchorPoint(
-            addPointAction.data.position.x,
-            addPointAction.data.position.y,
-            addPointAction.data.withHandles
-          );
-        } else {
-          // Undo: Remove the point
-          bezierStore.removePoint(addPointAction.data.pointId);
-        }
-        // Ensure bezier tool is active
-        if (activeTool !== 'beziershape') {
-          setActiveTool('beziershape');
-        }
-        break;
-      }
-
-      case 'bezier_move_point': {
-        const moveAction = action as BezierMovePointHistoryAction;
-        const positions = isRedo ? moveAction.data.newPositions : moveAction.data.previousPositions;
-        
-        // Apply all position changes
-        positions.forEach(({ pointId, position }) => {
-          bezierStore.updatePointPosition(pointId, position);
-        });
-        
-        // Ensure bezier tool is active
-        if (activeTool !== 'beziershape') {
-          setActiveTool('beziershape');
-        }
-        break;
-      }
-
-      case 'bezier_adjust_handle': {
-        const adjustAction = action as BezierAdjustHandleHistoryAction;
-        const handle = isRedo ? adjustAction.data.newHandle : adjustAction.data.previousHandle;
-        const oppositeHandle = isRedo 
-          ? adjustAction.data.newOppositeHandle 
-          : adjustAction.data.previousOppositeHandle;
-        const wasSymmetric = isRedo 
-          ? adjustAction.data.newSymmetric 
-          : adjustAction.data.previousSymmetric;
-        
-        // Update the handle
-        bezierStore.updateHandle(
-          adjustAction.data.pointId,
-          adjustAction.data.handleType,
-          handle
-        );
-        
-        // If opposite handle changed (symmetry was involved), update it too
-        if (oppositeHandle) {
-          const oppositeType = adjustAction.data.handleType === 'out' ? 'in' : 'out';
-          bezierStore.updateHandle(
-            adjustAction.data.pointId,
-            oppositeType,
-            oppositeHandle
-          );
-        }
-        
-        // Restore symmetry state
-        if (!wasSymmetric) {
-          bezierStore.breakHandleSymmetry(adjustAction.data.pointId);
-        }
-        
-        // Ensure bezier tool is active
-        if (activeTool !== 'beziershape') {
-          setActiveTool('beziershape');
-        }
-        break;
-      }
-
-      case 'bezier_toggle_handles': {
-        const toggleAction = action as BezierToggleHandlesHistoryAction;
-        // Just toggle to the previous/new state
-        bezierStore.togglePointHandles(toggleAction.data.pointId);
-        
-        // Ensure bezier tool is active
-        if (activeTool !== 'beziershape') {
-          setActiveTool('beziershape');
-        }
-        break;
-      }
-
-      case 'bezier_delete_point': {
-        const deleteAction = action as BezierDeletePointHistoryAction;
-        if (isRedo) {
-          // Redo: Delete the point again
-          bezierStore.removePoint(deleteAction.data.point.id);
-        } else {
-          // Undo: Re-insert the point at its original position
-          bezierStore.insertPointOnSegment(
-            deleteAction.data.pointIndex > 0 ? deleteAction.data.pointIndex - 1 : 0,
-            deleteAction.data.point.position,
-            0.5 // t value doesn't matter for restore
-          );
-          
-          // NOTE: insertPointOnSegment creates a new point with a new ID,
-          // so the exact point structure may differ slightly. This is acceptable
-          // for undo/redo as the visual result is the same.
-        }
-        
-        // Ensure bezier tool is active
-        if (activeTool !== 'beziershape') {
-          setActiveTool('beziershape');
-        }
-        break;
-      }
-
-      case 'bezier_close_shape': {
-        // Toggle the closed state
-        bezierStore.toggleClosedShape();
-        
-        // Ensure bezier tool is active
-        if (activeTool !== 'beziershape') {
-          setActiveTool('beziershape');
-        }
-        break;
-      }
-    }
-  }, [setCanvasData, setCanvasSize, animationStore, bezierStore, setActiveTool, setSelectedChar, setSelectedColor, setSelectedBgColor, activeTool]);
-
   const handleUndo = () => {
     if (canUndo()) {
       const undoAction = undo();
@@ -547,7 +34,8 @@ export const CanvasActionButtons: React.FC = () => {
         useToolStore.setState({ isProcessingHistory: true });
         
         try {
-          processHistoryAction(undoAction, false);
+          // Same handler as the keyboard shortcuts and History panel
+          processHistoryAction(undoAction, false, useCanvasStore.getState(), useAnimationStore.getState());
         } finally {
           // Clear flag after a small delay to ensure all effects have settled
           setTimeout(() => {
@@ -566,7 +54,7 @@ export const CanvasActionButtons: React.FC = () => {
         useToolStore.setState({ isProcessingHistory: true });
         
         try {
-          processHistoryAction(redoAction, true);
+          processHistoryAction(redoAction, true, useCanvasStore.getState(), useAnimationStore.getState());
         } finally {
           // Clear flag after a small delay to ensure all effects have settled
           setTimeout(() => {
@@ -587,6 +75,11 @@ export const CanvasActionButtons: React.FC = () => {
     handlePasteFromKeyboard();
   };
 
+  const handleClearCanvas = () => {
+    if (!canEditActiveLayer()) return;
+    clearCanvas();
+  };
+
   return (
     <div className="flex gap-1">
       <Button 
@@ -636,7 +129,7 @@ export const CanvasActionButtons: React.FC = () => {
       <Button 
         variant="outline" 
         size="sm" 
-        onClick={clearCanvas}
+        onClick={handleClearCanvas}
         title="Clear entire canvas"
         className="h-6 px-2 text-xs flex items-center gap-1"
       >
@@ -9,6 +9,7 @@ import { useCanvasRenderer } from '../../hooks/useCanvasRenderer';
 import { useToolBehavior } from '../../hooks/useToolBehavior';
 import { useBezierStore } from '../../stores/bezierStore';
 import { useHoverPreview } from '../../hooks/useHoverPreview';
+import { useCanvasViewport } from '../../hooks/useCanvasViewport';
 import { ToolManager } from './ToolManager';
 import { ToolStatusManager } from './ToolStatusManager';
 import { CanvasActionButtons } from './CanvasActionButtons';
@@ -53,8 +54,15 @@ export const CanvasGrid: React.FC<CanvasGridProps> = ({ className = '' }) => {
     setMoveState,
     setPendingSelectionStart,
     setJustCommittedMove,
+    canvasWidth,
+    canvasHeight,
+    displaySize,
   } = useCanvasState();
 
+  // Scroll container; its visible window decides which part of the canvas is drawn
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  useCanvasViewport(scrollContainerRef);
+
   // Use our new mouse handlers
   const {
     handleMouseDown,
@@ -418,27 +426,35 @@ export const CanvasGrid: React.FC<CanvasGridProps> = ({ className = '' }) => {
       {/* Tool Manager - handles tool-specific behavior */}
       <ToolManager />
       
-      <div className={`canvas-wrapper border rounded-lg overflow-auto flex-1 relative ${
-        isPlaying 
-          ? 'border-purple-400/60 border-2' 
-          : isPlaybackMode 
-            ? 'border-orange-500 border-2'
-            : 'border-border border'
-      }`}>
-        <canvas
-          ref={canvasRef}
-          className={`canvas-grid border border-border ${getToolCursor(effectiveTool)}`}
-          onMouseDown={handleCanvasMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseLeave}
-          onContextMenu={handleContextMenu}
-          style={{
-            display: 'block'
-            // Width and height are set by canvas resize logic in useCanvasRenderer
-          }}
-        />
-        <CanvasOverlay />
+      <div
+        ref={scrollContainerRef}
+        className={`canvas-wrapper border rounded-lg overflow-auto flex-1 relative ${
+          isPlaying 
+            ? 'border-purple-400/60 border-2' 
+            : isPlaybackMode 
+              ? 'border-orange-500 border-2'
+              : 'border-border border'
+        }`}
+      >
+        {/* Full-size spacer keeps native scrolling; the canvas only covers the visible window */}
+        <div className="relative" style={{ width: canvasWidth, height: canvasHeight }}>
+          <div className="sticky top-0 left-0" style={{ width: displaySize.width, height: displaySize.height }}>
+            <canvas
+              ref={canvasRef}
+              className={`canvas-grid border border-border ${getToolCursor(effectiveTool)}`}
+              onMouseDown={handleCanvasMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseLeave}
+              onContextMenu={handleContextMenu}
+              style={{
+                display: 'block'
+                // Width and height are set by canvas resize logic in useCanvasRenderer
+              }}
+            />
+            <CanvasOverlay />
+          </div>
+        </div>
       </div>
       
       {/* Action buttons and status info positioned outside canvas */}
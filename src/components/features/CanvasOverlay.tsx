@@ -3,11 +3,13 @@ import { useToolStore } from '../../stores/toolStore';
 import { useGradientStore } from '../../stores/gradientStore';
 import { useAsciiBoxStore } from '../../stores/asciiBoxStore';
 import { useBezierStore } from '../../stores/bezierStore';
+import { useSymmetryStore } from '../../stores/symmetryStore';
 import { useCanvasContext } from '../../contexts/CanvasContext';
 import { useCanvasStore } from '../../stores/canvasStore';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useCanvasState } from '../../hooks/useCanvasState';
 import { getFontString } from '../../utils/fontMetrics';
+import { getSymmetryCenter, SYMMETRY_TOOLS } from '../../utils/symmetryUtils';
 import { InteractiveGradientOverlay } from './InteractiveGradientOverlay';
 import { InteractiveBezierOverlay } from './InteractiveBezierOverlay';
 
@@ -41,6 +43,10 @@ export const CanvasOverlay: React.FC = () => {
   // Only subscribe to bezier preview cells, not the entire store
   const bezierPreview = useBezierStore((state) => state.previewCells);
   const bezierRemountKey = useBezierStore((state) => state.remountKey);
+  const symmetryEnabled = useSymmetryStore((state) => state.enabled);
+  const symmetryMode = useSymmetryStore((state) => state.mode);
+  const symmetrySegments = useSymmetryStore((state) => state.radialSegments);
+  const symmetryCenter = useSymmetryStore((state) => state.center);
   const { canvasBackgroundColor, width, height } = useCanvasStore();
   const { theme } = useTheme();
 
@@ -746,6 +752,59 @@ export const CanvasOverlay: React.FC = () => {
       ctx.globalAlpha = 1.0;
     }
     
+    // Draw symmetry guide (axes through the center, or radial segment spokes)
+    if (symmetryEnabled && SYMMETRY_TOOLS.includes(activeTool)) {
+      const center = getSymmetryCenter(
+        { enabled: symmetryEnabled, mode: symmetryMode, radialSegments: symmetrySegments, center: symmetryCenter },
+        width,
+        height
+      );
+      const canvasLeft = panOffset.x;
+      const canvasTop = panOffset.y;
+      const canvasRight = canvasLeft + width * effectiveCellWidth;
+      const canvasBottom = canvasTop + height * effectiveCellHeight;
+      const centerX = canvasLeft + (center.x + 0.5) * effectiveCellWidth;
+      const centerY = canvasTop + (center.y + 0.5) * effectiveCellHeight;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(canvasLeft, canvasTop, canvasRight - canvasLeft, canvasBottom - canvasTop);
+      ctx.clip();
+
+      ctx.strokeStyle = 'rgba(34, 211, 238, 0.7)'; // Cyan guide
+      ctx.lineWidth = 1;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+
+      if (symmetryMode === 'vertical' || symmetryMode === 'both') {
+        ctx.moveTo(centerX, canvasTop);
+        ctx.lineTo(centerX, canvasBottom);
+      }
+      if (symmetryMode === 'horizontal' || symmetryMode === 'both') {
+        ctx.moveTo(canvasLeft, centerY);
+        ctx.lineTo(canvasRight, centerY);
+      }
+      if (symmetryMode === 'radial') {
+        const spokeLength = Math.hypot(canvasRight - canvasLeft, canvasBottom - canvasTop);
+        for (let i = 0; i < symmetrySegments; i++) {
+          // Start from straight up; segments are evenly spaced in pixel space
+          const angle = -Math.PI / 2 + (2 * Math.PI * i) / symmetrySegments;
+          ctx.moveTo(centerX, centerY);
+          ctx.lineTo(centerX + Math.cos(angle) * spokeLength, centerY + Math.sin(angle) * spokeLength);
+        }
+      }
+
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Center handle
+      ctx.fillStyle = 'rgba(34, 211, 238, 0.9)';
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, 3, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.restore();
+    }
+    
     // Draw hover cell outline (subtle outline for current cell under cursor)
     if (hoveredCell && hoveredCell.x >= 0 && hoveredCell.x < width && hoveredCell.y >= 0 && hoveredCell.y < height) {
       ctx.strokeStyle = 'rgba(168, 85, 247, 0.5)'; // 50% opacity purple outline
@@ -865,7 +924,11 @@ export const CanvasOverlay: React.FC = () => {
     width,
     height,
     theme,
-    zoom
+    zoom,
+    symmetryEnabled,
+    symmetryMode,
+    symmetrySegments,
+    symmetryCenter
   ]);
 
   // Re-render overlay when dependencies change, throttled with RAF
@@ -0,0 +1,215 @@
+/**
+ * CanvasResizeDialog - Resizes the canvas around a 9-way anchor point.
+ *
+ * Every frame is shifted the same way, and newly exposed space can optionally
+ * be filled with the current character and colors.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Scaling } from 'lucide-react';
+import { useCanvasStore } from '../../stores/canvasStore';
+import { useToolStore } from '../../stores/toolStore';
+import { useCanvasResize } from '../../hooks/useCanvasResize';
+import { clampCanvasSize } from '../../utils/canvasResizeUtils';
+import { CANVAS_SIZE_LIMITS } from '../../constants';
+import type { CanvasAnchor } from '../../types';
+
+interface CanvasResizeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ANCHOR_OPTIONS: Array<{ anchor: CanvasAnchor; label: string }> = [
+  { anchor: 'top-left', label: 'Top Left' },
+  { anchor: 'top', label: 'Top Center' },
+  { anchor: 'top-right', label: 'Top Right' },
+  { anchor: 'left', label: 'Center Left' },
+  { anchor: 'center', label: 'Center' },
+  { anchor: 'right', label: 'Center Right' },
+  { anchor: 'bottom-left', label: 'Bottom Left' },
+  { anchor: 'bottom', label: 'Bottom Center' },
+  { anchor: 'bottom-right', label: 'Bottom Right' },
+];
+
+export const CanvasResizeDialog: React.FC<CanvasResizeDialogProps> = ({ open, onOpenChange }) => {
+  const canvasWidth = useCanvasStore((state) => state.width);
+  const canvasHeight = useCanvasStore((state) => state.height);
+  const selectedChar = useToolStore((state) => state.selectedChar);
+  const selectedColor = useToolStore((state) => state.selectedColor);
+  const selectedBgColor = useToolStore((state) => state.selectedBgColor);
+  const { resizeCanvas } = useCanvasResize();
+
+  const [widthInput, setWidthInput] = useState(canvasWidth.toString());
+  const [heightInput, setHeightInput] = useState(canvasHeight.toString());
+  const [anchor, setAnchor] = useState<CanvasAnchor>('center');
+  const [fillNewSpace, setFillNewSpace] = useState(false);
+
+  // Start from the current size each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setWidthInput(canvasWidth.toString());
+      setHeightInput(canvasHeight.toString());
+    }
+  }, [open, canvasWidth, canvasHeight]);
+
+  const parsedWidth = parseInt(widthInput, 10);
+  const parsedHeight = parseInt(heightInput, 10);
+  const isValid = !Number.isNaN(parsedWidth) && !Number.isNaN(parsedHeight);
+  const target = isValid ? clampCanvasSize(parsedWidth, parsedHeight) : { width: canvasWidth, height: canvasHeight };
+  const isUnchanged = target.width === canvasWidth && target.height === canvasHeight;
+  const growsCanvas = target.width > canvasWidth || target.height > canvasHeight;
+  const shrinksCanvas = target.width < canvasWidth || target.height < canvasHeight;
+
+  const handleApply = () => {
+    if (!isValid || isUnchanged) return;
+
+    resizeCanvas(
+      target.width,
+      target.height,
+      anchor,
+      fillNewSpace ? { char: selectedChar, color: selectedColor, bgColor: selectedBgColor } : null
+    );
+    onOpenChange(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleApply();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px] border-border/50">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scaling className="h-5 w-5" />
+            Resize Canvas
+          </DialogTitle>
+          <DialogDescription>
+            Resize all frames from {canvasWidth}×{canvasHeight}, keeping content attached to the anchor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          {/* Size */}
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="resize-width" className="text-xs">Width ({CANVAS_SIZE_LIMITS.minWidth}–{CANVAS_SIZE_LIMITS.maxWidth})</Label>
+              <Input
+                id="resize-width"
+                type="number"
+                min={CANVAS_SIZE_LIMITS.minWidth}
+                max={CANVAS_SIZE_LIMITS.maxWidth}
+                value={widthInput}
+                onChange={(e) => setWidthInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="resize-height" className="text-xs">Height ({CANVAS_SIZE_LIMITS.minHeight}–{CANVAS_SIZE_LIMITS.maxHeight})</Label>
+              <Input
+                id="resize-height"
+                type="number"
+                min={CANVAS_SIZE_LIMITS.minHeight}
+                max={CANVAS_SIZE_LIMITS.maxHeight}
+                value={heightInput}
+                onChange={(e) => setHeightInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+
+          {/* Anchor */}
+          <div className="flex flex-col items-center space-y-2">
+            <Label className="text-xs">Anchor</Label>
+            <TooltipProvider>
+              <div className="grid grid-cols-3 gap-[3px]" role="radiogroup" aria-label="Resize anchor">
+                {ANCHOR_OPTIONS.map((option) => {
+                  const isActive = anchor === option.anchor;
+                  return (
+                    <Tooltip key={option.anchor}>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          role="radio"
+                          aria-checked={isActive}
+                          aria-label={option.label}
+                          onClick={() => setAnchor(option.anchor)}
+                          className={`h-7 w-7 p-0 transition-colors ${
+                            isActive
+                              ? 'bg-purple-500 text-white hover:bg-purple-600'
+                              : 'bg-background hover:bg-muted border border-border'
+                          }`}
+                        >
+                          {isActive && <span className="block h-2 w-2 rounded-sm bg-current" />}
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>{option.label}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  );
+                })}
+              </div>
+            </TooltipProvider>
+          </div>
+        </div>
+
+        {/* Fill */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="resize-fill" className="text-xs cursor-pointer">Fill new space</Label>
+            <p className="text-xs text-muted-foreground">
+              Uses the current character{' '}
+              <span
+                className="inline-block min-w-[1.25rem] rounded px-1 text-center font-mono"
+                style={{ color: selectedColor, backgroundColor: selectedBgColor === 'transparent' ? undefined : selectedBgColor }}
+              >
+                {selectedChar}
+              </span>{' '}
+              and colors
+            </p>
+          </div>
+          <Switch
+            id="resize-fill"
+            checked={fillNewSpace}
+            onCheckedChange={setFillNewSpace}
+            disabled={!growsCanvas}
+          />
+        </div>
+
+        {shrinksCanvas && (
+          <p className="text-xs text-muted-foreground">
+            Content outside the new bounds will be removed from every frame.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!isValid || isUnchanged}>
+            Resize
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,13 +6,15 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Grid3X3, Palette, Type, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Grid3X3, Palette, Type, AlertTriangle, CheckCircle2, Loader2, Scaling } from 'lucide-react';
 import { useCanvasStore } from '@/stores/canvasStore';
 import { useCanvasContext } from '@/contexts/CanvasContext';
 import { ZoomControls } from './ZoomControls';
+import { CanvasResizeDialog } from './CanvasResizeDialog';
 import { useToolStore } from '@/stores/toolStore';
 import { useAnimationStore } from '@/stores/animationStore';
 import { MONOSPACE_FONTS, DEFAULT_FONT_ID } from '@/constants/fonts';
+import { CANVAS_SIZE_LIMITS } from '@/constants';
 import { getFontFallbackMessage } from '@/utils/fontDetection';
 import { 
   charactersToPixels, 
@@ -59,6 +61,9 @@ export const CanvasSettings: React.FC = () => {
   const [widthInput, setWidthInput] = useState(width.toString());
   const [heightInput, setHeightInput] = useState(height.toString());
 
+  // Anchored resize dialog (applies to all frames)
+  const [showResizeDialog, setShowResizeDialog] = useState(false);
+
   // Calculate pixel dimensions using typography settings
   const pixelDimensions = useMemo((): PixelDimensions => {
     return charactersToPixels(
@@ -116,7 +121,7 @@ export const CanvasSettings: React.FC = () => {
     if (isNaN(numValue) || widthInput === '') {
       setWidthInput(width.toString());
     } else {
-      const constrainedValue = Math.max(4, Math.min(200, numValue));
+      const constrainedValue = Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, numValue));
       handleSizeChange(constrainedValue, height);
     }
   };
@@ -130,7 +135,7 @@ export const CanvasSettings: React.FC = () => {
     if (isNaN(numValue) || heightInput === '') {
       setHeightInput(height.toString());
     } else {
-      const constrainedValue = Math.max(4, Math.min(100, numValue));
+      const constrainedValue = Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, numValue));
       handleSizeChange(width, constrainedValue);
     }
   };
@@ -180,7 +185,7 @@ export const CanvasSettings: React.FC = () => {
   // +/- button handlers that work in both modes
   const adjustWidth = (delta: number) => {
     if (sizeMode === 'characters') {
-      const newWidth = Math.max(4, Math.min(200, width + delta));
+      const newWidth = Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, width + delta));
       handleSizeChange(newWidth, height);
     } else {
       // In pixel mode, adjust by one character worth of pixels
@@ -197,7 +202,7 @@ export const CanvasSettings: React.FC = () => {
 
   const adjustHeight = (delta: number) => {
     if (sizeMode === 'characters') {
-      const newHeight = Math.max(4, Math.min(100, height + delta));
+      const newHeight = Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, height + delta));
       handleSizeChange(width, newHeight);
     } else {
       // In pixel mode, adjust by one character worth of pixels
@@ -373,7 +378,7 @@ export const CanvasSettings: React.FC = () => {
                 size="sm"
                 variant="ghost"
                 onClick={() => adjustWidth(1)}
-                disabled={sizeMode === 'characters' ? width >= 200 : false}
+                disabled={sizeMode === 'characters' ? width >= CANVAS_SIZE_LIMITS.maxWidth : false}
                 className="h-3 w-6 p-0 text-xs leading-none"
               >
                 +
@@ -396,7 +401,7 @@ export const CanvasSettings: React.FC = () => {
               onKeyDown={handleKeyDown}
               className="w-12 h-7 text-xs text-center border border-border rounded bg-background text-foreground [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
               min={sizeMode === 'characters' ? "4" : "1"}
-              max={sizeMode === 'characters' ? "200" : undefined}
+              max={sizeMode === 'characters' ? CANVAS_SIZE_LIMITS.maxWidth : undefined}
             />
           </div>
 
@@ -412,14 +417,14 @@ export const CanvasSettings: React.FC = () => {
               onKeyDown={handleKeyDown}
               className="w-12 h-7 text-xs text-center border border-border rounded bg-background text-foreground [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
               min={sizeMode === 'characters' ? "4" : "1"}
-              max={sizeMode === 'characters' ? "100" : undefined}
+              max={sizeMode === 'characters' ? CANVAS_SIZE_LIMITS.maxHeight : undefined}
             />
             <div className="flex flex-col">
               <Button
                 size="sm"
                 variant="ghost"
                 onClick={() => adjustHeight(1)}
-                disabled={sizeMode === 'characters' ? height >= 100 : false}
+                disabled={sizeMode === 'characters' ? height >= CANVAS_SIZE_LIMITS.maxHeight : false}
                 className="h-3 w-6 p-0 text-xs leading-none"
               >
                 +
@@ -435,6 +440,25 @@ export const CanvasSettings: React.FC = () => {
               </Button>
             </div>
           </div>
+
+          {/* Anchored resize across all frames */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowResizeDialog(true)}
+                className="h-7 w-7 p-0"
+                aria-label="Resize canvas with anchor"
+              >
+                <Scaling className="w-3 h-3" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              Resize canvas with anchor (all frames)
+            </TooltipContent>
+          </Tooltip>
+          <CanvasResizeDialog open={showResizeDialog} onOpenChange={setShowResizeDialog} />
         </div>
 
         {/* Right Section - Display, Text, and Zoom Controls */}
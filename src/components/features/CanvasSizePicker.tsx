@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Minus, Plus } from 'lucide-react';
+import { CANVAS_SIZE_LIMITS } from '@/constants';
 
 interface CanvasSizePickerProps {
   width: number;
@@ -35,7 +36,7 @@ export const CanvasSizePicker: React.FC<CanvasSizePickerProps> = ({
       setLocalWidth(width.toString());
     } else {
       // Apply constraints and update
-      const constrainedValue = Math.max(4, Math.min(200, numValue));
+      const constrainedValue = Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, numValue));
       onSizeChange(constrainedValue, height);
     }
   };
@@ -57,7 +58,7 @@ export const CanvasSizePicker: React.FC<CanvasSizePickerProps> = ({
       setLocalHeight(height.toString());
     } else {
       // Apply constraints and update
-      const constrainedValue = Math.max(4, Math.min(100, numValue));
+      const constrainedValue = Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, numValue));
       onSizeChange(width, constrainedValue);
     }
   };
@@ -69,12 +70,12 @@ export const CanvasSizePicker: React.FC<CanvasSizePickerProps> = ({
   };
 
   const adjustWidth = (delta: number) => {
-    const newWidth = Math.max(4, Math.min(200, width + delta));
+    const newWidth = Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, width + delta));
     onSizeChange(newWidth, height);
   };
 
   const adjustHeight = (delta: number) => {
-    const newHeight = Math.max(4, Math.min(100, height + delta));
+    const newHeight = Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, height + delta));
     onSizeChange(width, newHeight);
   };
 
@@ -102,14 +103,14 @@ export const CanvasSizePicker: React.FC<CanvasSizePickerProps> = ({
           onKeyDown={handleWidthKeyDown}
           className="w-12 h-7 px-2 text-center text-xs border border-border rounded bg-background focus:outline-none focus:ring-1 focus:ring-ring"
           min="4"
-          max="200"
+          max={CANVAS_SIZE_LIMITS.maxWidth}
         />
         
         <Button
           variant="outline"
           size="sm"
           onClick={() => adjustWidth(1)}
-          disabled={width >= 200}
+          disabled={width >= CANVAS_SIZE_LIMITS.maxWidth}
           className="h-7 w-7 p-0"
         >
           <Plus className="w-3 h-3" />
@@ -138,14 +139,14 @@ export const CanvasSizePicker: React.FC<CanvasSizePickerProps> = ({
           onKeyDown={handleHeightKeyDown}
           className="w-12 h-7 px-2 text-center text-xs border border-border rounded bg-background focus:outline-none focus:ring-1 focus:ring-ring"
           min="4"
-          max="100"
+          max={CANVAS_SIZE_LIMITS.maxHeight}
         />
         
         <Button
           variant="outline"
           size="sm"
           onClick={() => adjustHeight(1)}
-          disabled={height >= 100}
+          disabled={height >= CANVAS_SIZE_LIMITS.maxHeight}
           className="h-7 w-7 p-0"
         >
           <Plus className="w-3 h-3" />
@@ -16,6 +16,8 @@ import { ExportPaletteDialog } from './ExportPaletteDialog';
 import { ManagePalettesDialog } from './ManagePalettesDialog';
 import { EffectsSection } from './EffectsSection';
 import { GeneratorsSection } from './GeneratorsSection';
+import { LayersSection } from './LayersSection';
+import { HistorySection } from './HistorySection';
 import { ANSI_COLORS } from '../../constants/colors';
 
 interface ColorPickerProps {
@@ -667,6 +669,18 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({ className = '' }) => {
       {/* Generators Section */}
       <GeneratorsSection />
 
+      {/* Divider between Generators and Layers */}
+      <PanelSeparator side="right" />
+
+      {/* Layers Section */}
+      <LayersSection />
+
+      {/* Divider between Layers and History */}
+      <PanelSeparator side="right" />
+
+      {/* History Section */}
+      <HistorySection />
+
       {/* Divider after Effects/Generators */}
       <PanelSeparator side="right" />
 
@@ -0,0 +1,332 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Dialog, DialogContent, DialogTitle } from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Search } from 'lucide-react';
+import { COMMANDS, COMMAND_CATEGORIES } from '../../constants/commands';
+import { EFFECT_DEFINITIONS } from '../../constants/effectsDefaults';
+import { GENERATOR_DEFINITIONS } from '../../constants/generators';
+import { EXPORT_OPTIONS, IMPORT_OPTIONS } from '../../constants/exportFormats';
+import { useCommandPaletteStore } from '../../stores/commandPaletteStore';
+import { useKeymapStore } from '../../stores/keymapStore';
+import { useEffectsStore } from '../../stores/effectsStore';
+import { useGeneratorsStore } from '../../stores/generatorsStore';
+import { useExportStore } from '../../stores/exportStore';
+import { useImportStore } from '../../stores/importStore';
+import { usePaletteStore } from '../../stores/paletteStore';
+import { useCharacterPaletteStore } from '../../stores/characterPaletteStore';
+import { useTimeEffectsStore } from '../../stores/timeEffectsStore';
+import { useTimeEffectsHistory } from '../../hooks/useTimeEffectsHistory';
+import { executeCommand, hasCommandHandler, registerCommandHandlers } from '../../utils/commandHandlers';
+import { formatChordLabel } from '../../utils/keymap';
+import { fuzzyMatchScore } from '../../utils/fuzzySearch';
+
+interface PaletteEntry {
+  id: string; // Stable id used for the recently-used list
+  title: string;
+  group: string;
+  description?: string;
+  chords?: string[];
+  run: () => void;
+}
+
+interface PaletteRow {
+  entry: PaletteEntry;
+  section: string;
+}
+
+const GROUP_ORDER: string[] = [
+  ...COMMAND_CATEGORIES,
+  'Effects',
+  'Generators',
+  'Export',
+  'Import',
+  'Color Palettes',
+  'Character Palettes'
+];
+
+const RECENT_SECTION = 'Recently Used';
+
+/**
+ * Command palette (Ctrl/Cmd+K)
+ * Fuzzy search over registry commands, effects, generators, export/import
+ * formats, palette switches and frame operations
+ */
+export const CommandPalette: React.FC = () => {
+  const isOpen = useCommandPaletteStore(state => state.isOpen);
+  const setOpen = useCommandPaletteStore(state => state.setOpen);
+  const recentEntryIds = useCommandPaletteStore(state => state.recentEntryIds);
+  const recordEntryUsage = useCommandPaletteStore(state => state.recordEntryUsage);
+  const bindings = useKeymapStore(state => state.bindings);
+
+  const colorPalettes = usePaletteStore(state => state.palettes);
+  const customColorPalettes = usePaletteStore(state => state.customPalettes);
+  const activeColorPaletteId = usePaletteStore(state => state.activePaletteId);
+  const characterPalettes = useCharacterPaletteStore(state => state.availablePalettes);
+  const customCharacterPalettes = useCharacterPaletteStore(state => state.customPalettes);
+  const activeCharacterPalette = useCharacterPaletteStore(state => state.activePalette);
+  const { getSelectionOrigin } = useTimeEffectsHistory();
+
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    return registerCommandHandlers({
+      'view.commandPalette': () => setOpen(true)
+    });
+  }, [setOpen]);
+
+  // Start from a clean search every time the palette opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+    }
+  }, [isOpen]);
+
+  const entries = useMemo(() => {
+    if (!isOpen) return [];
+
+    const list: PaletteEntry[] = [];
+
+    // Registry commands that something in the editor currently implements
+    COMMANDS.forEach(command => {
+      if (command.id === 'view.commandPalette' || !hasCommandHandler(command.id)) return;
+      list.push({
+        id: `command:${command.id}`,
+        title: command.title,
+        group: command.category,
+        chords: bindings[command.id],
+        run: () => { executeCommand(command.id); }
+      });
+    });
+
+    // Frame operations from the timeline menu
+    const timeEffects = useTimeEffectsStore.getState();
+    list.push(
+      { id: 'timeline:setDurations', title: 'Set all frame durations', group: 'Animation & Timeline', run: timeEffects.openSetDurationDialog },
+      { id: 'timeline:addFrames', title: 'Add multiple frames', group: 'Animation & Timeline', run: timeEffects.openAddFramesDialog },
+      { id: 'timeline:tween', title: 'Tween selection', group: 'Animation & Timeline', run: () => timeEffects.openTweenDialog(getSelectionOrigin()) },
+      { id: 'timeline:waveWarp', title: 'Wave warp', group: 'Animation & Timeline', description: 'Animated FX', run: timeEffects.openWaveWarpDialog },
+      { id: 'timeline:wiggle', title: 'Wiggle', group: 'Animation & Timeline', description: 'Animated FX', run: timeEffects.openWiggleDialog }
+    );
+
+    EFFECT_DEFINITIONS.forEach(effect => {
+      list.push({
+        id: `effect:${effect.id}`,
+        title: effect.name,
+        group: 'Effects',
+        description: effect.description,
+        run: () => useEffectsStore.getState().openEffectPanel(effect.id)
+      });
+    });
+
+    GENERATOR_DEFINITIONS.forEach(generator => {
+      list.push({
+        id: `generator:${generator.id}`,
+        title: generator.name,
+        group: 'Generators',
+        description: generator.description,
+        run: () => useGeneratorsStore.getState().openGenerator(generator.id)
+      });
+    });
+
+    EXPORT_OPTIONS.forEach(option => {
+      list.push({
+        id: `export:${option.id}`,
+        title: `Export ${option.name}`,
+        group: 'Export',
+        description: option.description,
+        run: () => {
+          const { setActiveFormat, setShowExportModal } = useExportStore.getState();
+          setActiveFormat(option.id);
+          setShowExportModal(true);
+        }
+      });
+    });
+
+    IMPORT_OPTIONS.forEach(option => {
+      list.push({
+        id: `import:${option.id}`,
+        title: `Import ${option.name}`,
+        group: 'Import',
+        description: option.description,
+        run: () => {
+          if (option.id === 'media') {
+            useImportStore.getState().openImportModal();
+            return;
+          }
+          const { setActiveFormat, setShowImportModal } = useExportStore.getState();
+          setActiveFormat(option.id);
+          setShowImportModal(true);
+        }
+      });
+    });
+
+    [...colorPalettes, ...customColorPalettes].forEach(palette => {
+      list.push({
+        id: `colorPalette:${palette.id}`,
+        title: `Use color palette: ${palette.name}`,
+        group: 'Color Palettes',
+        description: palette.id === activeColorPaletteId ? 'Active' : undefined,
+        run: () => usePaletteStore.getState().setActivePalette(palette.id)
+      });
+    });
+
+    [...characterPalettes, ...customCharacterPalettes].forEach(palette => {
+      list.push({
+        id: `characterPalette:${palette.id}`,
+        title: `Use character palette: ${palette.name}`,
+        group: 'Character Palettes',
+        description: palette.id === activeCharacterPalette.id ? 'Active' : undefined,
+        run: () => useCharacterPaletteStore.getState().setActivePalette(palette)
+      });
+    });
+
+    // Stable sort keeps registry order within each group
+    return list.sort((a, b) => GROUP_ORDER.indexOf(a.group) - GROUP_ORDER.indexOf(b.group));
+  }, [
+    isOpen,
+    bindings,
+    colorPalettes,
+    customColorPalettes,
+    activeColorPaletteId,
+    characterPalettes,
+    customCharacterPalettes,
+    activeCharacterPalette,
+    getSelectionOrigin
+  ]);
+
+  const rows = useMemo((): PaletteRow[] => {
+    const recentRank = new Map(recentEntryIds.map((id, index) => [id, index]));
+
+    if (!query.trim()) {
+      const recentRows = entries
+        .filter(entry => recentRank.has(entry.id))
+        .sort((a, b) => (recentRank.get(a.id) ?? 0) - (recentRank.get(b.id) ?? 0))
+        .map(entry => ({ entry, section: RECENT_SECTION }));
+      return [...recentRows, ...entries.map(entry => ({ entry, section: entry.group }))];
+    }
+
+    const scored: Array<{ entry: PaletteEntry; score: number }> = [];
+    entries.forEach(entry => {
+      const titleScore = fuzzyMatchScore(query, entry.title);
+      const groupScore = fuzzyMatchScore(query, `${entry.group} ${entry.title}`);
+      const score = titleScore ?? (groupScore !== null ? groupScore - 50 : null);
+      if (score === null) return;
+
+      // Recently used entries float above equally good matches
+      const rank = recentRank.get(entry.id);
+      scored.push({ entry, score: score + (rank !== undefined ? 100 - rank * 10 : 0) });
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .map(({ entry }) => ({ entry, section: recentRank.has(entry.id) ? RECENT_SECTION : 'Results' }))
+      .sort((a, b) => Number(b.section === RECENT_SECTION) - Number(a.section === RECENT_SECTION));
+  }, [entries, query, recentEntryIds]);
+
+  // Keep the highlighted row in range and visible
+  useEffect(() => {
+    setActiveIndex(index => Math.min(index, Math.max(rows.length - 1, 0)));
+  }, [rows.length]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-row-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runEntry = (entry: PaletteEntry) => {
+    setOpen(false);
+    recordEntryUsage(entry.id);
+    // Let the palette dialog close before the action opens its own panel or dialog
+    setTimeout(entry.run, 0);
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => (rows.length === 0 ? 0 : (index + 1) % rows.length));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => (rows.length === 0 ? 0 : (index - 1 + rows.length) % rows.length));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const row = rows[activeIndex];
+      if (row) runEntry(row.entry);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogContent className="max-w-xl p-0 gap-0 border-border/50" aria-describedby={undefined} hideClose>
+        <DialogTitle className="sr-only">Command Palette</DialogTitle>
+
+        <div className="relative border-b border-border/50">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder="Search tools, effects, generators, exports..."
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleInputKeyDown}
+            className="pl-9 h-11 border-none shadow-none focus-visible:ring-0"
+            autoFocus
+          />
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto p-1">
+          {rows.length === 0 ? (
+            <div className="text-center py-6 text-sm text-muted-foreground">
+              No commands found matching "{query}"
+            </div>
+          ) : (
+            rows.map((row, index) => {
+              const showHeader = index === 0 || rows[index - 1].section !== row.section;
+              const chord = row.entry.chords?.[0];
+              return (
+                <React.Fragment key={`${row.section}-${row.entry.id}`}>
+                  {showHeader && (
+                    <div className="px-2 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+                      {row.section}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    data-row-index={index}
+                    className={`w-full flex items-center justify-between gap-4 px-2 py-1.5 rounded text-left transition-colors ${
+                      index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-muted/50'
+                    }`}
+                    onMouseMove={() => setActiveIndex(index)}
+                    onClick={() => runEntry(row.entry)}
+                  >
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-sm truncate">{row.entry.title}</span>
+                      {row.entry.description && (
+                        <span className="text-xs text-muted-foreground truncate">{row.entry.description}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {row.section !== row.entry.group && (
+                        <span className="text-xs text-muted-foreground">{row.entry.group}</span>
+                      )}
+                      {chord && (
+                        <kbd className="px-2 py-0.5 text-xs font-semibold bg-muted border border-border rounded text-foreground">
+                          {formatChordLabel(chord)}
+                        </kbd>
+                      )}
+                    </div>
+                  </button>
+                </React.Fragment>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
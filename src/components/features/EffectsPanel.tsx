@@ -5,7 +5,9 @@
  * - Fixed right-side overlay with slide animation
  * - Header with effect name and close button
  * - Scrollable content area for effect-specific controls
- * - Footer with Apply to Timeline toggle and Apply/Cancel buttons
+ * - Footer with Apply to Timeline toggle and Apply/Add to Stack/Cancel buttons
+ * - Limits preview, apply and stack entries to the active selection mask
+ * - Edits effect stack entries in place when opened from the stack list
  * - Follows MediaImportPanel and GradientPanel patterns exactly
  */
 
@@ -15,6 +17,7 @@ import { ScrollArea } from '../ui/scroll-area';
 import { Separator } from '../ui/separator';
 import { Switch } from '../ui/switch';
 import { useEffectsStore } from '../../stores/effectsStore';
+import { useAnimationStore } from '../../stores/animationStore';
 import { useEffectsHistory } from '../../hooks/useEffectsHistory';
 import { EFFECT_DEFINITIONS } from '../../constants/effectsDefaults';
 import { PANEL_ANIMATION } from '../../constants';
@@ -24,13 +27,15 @@ import { HueSaturationEffectPanel } from './effects/HueSaturationEffectPanel';
 import { RemapColorsEffectPanel } from './effects/RemapColorsEffectPanel';
 import { RemapCharactersEffectPanel } from './effects/RemapCharactersEffectPanel';
 import { ScatterEffectPanel } from './effects/ScatterEffectPanel';
+import { SelectionMaskControls } from './SelectionMaskControls';
 import {
   X,
   BarChart3,
   Palette,
   RefreshCcw,
   Type,
-  ScatterChart
+  ScatterChart,
+  Layers
 } from 'lucide-react';
 
 // Icon mapping for effect headers
@@ -55,8 +60,14 @@ export function EffectsPanel() {
     applyToTimeline,
     setApplyToTimeline,
     closeEffectPanel,
-    isAnalyzing
+    isAnalyzing,
+    editingStackEntryId,
+    addEffectToStack,
+    saveEditingStackEntry,
+    applyProgress
   } = useEffectsStore();
+  const isApplying = applyProgress !== null;
+  const currentFrameId = useAnimationStore(state => state.frames[state.currentFrameIndex]?.id);
   
   // Use history-aware effects hook
   const { 
@@ -123,6 +134,36 @@ export function EffectsPanel() {
     }
   };
 
+  // Handle add to stack - store the effect without modifying frame data
+  const handleAddToStack = () => {
+    if (!activeEffect) return;
+    
+    const { stopPreview } = useEffectsStore.getState();
+    stopPreview();
+    addEffectToStack(
+      activeEffect,
+      applyToTimeline || !currentFrameId ? null : [currentFrameId]
+    );
+    closeEffectPanel();
+  };
+
+  // Handle update of the stack entry being edited
+  const handleUpdateStackEntry = () => {
+    const { stopPreview } = useEffectsStore.getState();
+    stopPreview();
+    saveEditingStackEntry();
+    closeEffectPanel();
+  };
+
+  // Refresh the live preview when the selection mask options change
+  const handleMaskChange = () => {
+    useEffectsStore.getState().updatePreview().catch(error => {
+      console.error('Preview update failed:', error);
+    });
+  };
+
+  const isEditingStackEntry = editingStackEntryId !== null;
+
   // Don't render if panel should not be visible
   if (!shouldRender) return null;
 
@@ -187,23 +228,34 @@ export function EffectsPanel() {
 
       {/* Footer */}
       <div className="border-t border-border p-3 space-y-3">
-        {/* Apply to Timeline Toggle */}
-        <div className="flex items-center justify-between">
-          <label className="flex items-center gap-2 text-xs cursor-pointer">
-            <Switch
-              checked={applyToTimeline}
-              onCheckedChange={setApplyToTimeline}
-            />
-            <span>Apply to entire timeline</span>
-          </label>
-        </div>
-        
-        <div className="text-xs text-muted-foreground">
-          {applyToTimeline 
-            ? 'Effect will be applied to all frames' 
-            : 'Effect will be applied to current canvas only'
-          }
-        </div>
+        {isEditingStackEntry ? (
+          <div className="text-xs text-muted-foreground">
+            Editing an effect stack entry - frame data is not modified
+          </div>
+        ) : (
+          <>
+            {/* Apply to Timeline Toggle */}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <Switch
+                  checked={applyToTimeline}
+                  onCheckedChange={setApplyToTimeline}
+                />
+                <span>Apply to entire timeline</span>
+              </label>
+            </div>
+            
+            <div className="text-xs text-muted-foreground">
+              {applyToTimeline 
+                ? 'Effect will be applied to all frames' 
+                : 'Effect will be applied to current canvas only'
+              }
+            </div>
+            
+            {/* Selection Scope */}
+            <SelectionMaskControls onMaskChange={handleMaskChange} />
+          </>
+        )}
         
         <Separator className="-mx-3" />
         
@@ -217,20 +269,46 @@ export function EffectsPanel() {
           >
             Cancel
           </Button>
-          <Button
-            variant="default"
-            size="sm"
-            onClick={handleApplyEffect}
-            disabled={!activeEffect || isAnalyzing || !canApplyEffect()}
-            className="flex-1 h-8"
-            title={
-              !canApplyEffect() 
-                ? 'No canvas data to apply effect to' 
-                : `Apply ${getEffectDescription(activeEffect || 'levels')} effect`
-            }
-          >
-            Apply
-          </Button>
+          {isEditingStackEntry ? (
+            <Button
+              variant="default"
+              size="sm"
+              onClick={handleUpdateStackEntry}
+              disabled={!activeEffect || isAnalyzing}
+              className="flex-1 h-8"
+              title="Save settings to the effect stack entry"
+            >
+              Update
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAddToStack}
+                disabled={!activeEffect || isAnalyzing || isApplying}
+                className="flex-1 h-8 gap-1"
+                title="Add as a non-destructive effect that can be edited or removed later"
+              >
+                <Layers className="w-3 h-3" />
+                Add to Stack
+              </Button>
+              <Button
+                variant="default"
+                size="sm"
+                onClick={handleApplyEffect}
+                disabled={!activeEffect || isAnalyzing || isApplying || !canApplyEffect()}
+                className="flex-1 h-8"
+                title={
+                  !canApplyEffect() 
+                    ? 'No canvas data to apply effect to' 
+                    : `Apply ${getEffectDescription(activeEffect || 'levels')} effect`
+                }
+              >
+                {isApplying ? `${Math.round(applyProgress * 100)}%` : 'Apply'}
+              </Button>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -5,6 +5,7 @@
  * - Collapsible section header with effects icon
  * - Effect buttons with icons and names
  * - Timeline toggle for applying effects to entire timeline
+ * - Non-destructive effect stack list
  * - Follows MainCharacterPaletteSection patterns exactly
  */
 
@@ -18,6 +19,7 @@ import { CollapsibleHeader } from '../common/CollapsibleHeader';
 import { useEffectsStore } from '../../stores/effectsStore';
 import { useEffectsHistory } from '../../hooks/useEffectsHistory';
 import { EFFECT_DEFINITIONS } from '../../constants/effectsDefaults';
+import { EffectStackList } from './effects/EffectStackList';
 import type { EffectType } from '../../types/effects';
 import { 
   Wand2,
@@ -107,6 +109,9 @@ export function EffectsSection({ className = '' }: EffectsSectionProps) {
               </Button>
             </div>
             
+            {/* Effect Stack */}
+            <EffectStackList />
+            
             {/* Analysis Status */}
             {isAnalyzing && (
               <div className="text-xs text-muted-foreground animate-pulse">
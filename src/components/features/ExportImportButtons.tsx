@@ -7,79 +7,12 @@ import {
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu';
 
-import { Download, Upload, FileImage, Film, FileText, ChevronDown, Globe, FileCode, Save, FolderOpen } from 'lucide-react';
+import { Download, Upload, ChevronDown } from 'lucide-react';
 import { useExportStore } from '../../stores/exportStore';
 import { useImportModal } from '../../stores/importStore';
+import { EXPORT_OPTIONS, IMPORT_OPTIONS } from '../../constants/exportFormats';
 import type { ExportFormatId } from '../../types/export';
 
-// Export format definitions for dropdown
-const EXPORT_OPTIONS = [
-  {
-    id: 'png' as ExportFormatId,
-    name: 'Image',
-    description: 'Current frame as SVG/PNG/JPG',
-    icon: FileImage,
-  },
-  {
-    id: 'mp4' as ExportFormatId,
-    name: 'Video',
-    description: 'Animation as .mp4 or .webm',
-    icon: Film,
-  },
-  {
-    id: 'html' as ExportFormatId,
-    name: 'HTML',
-    description: 'Standalone webpage',
-    icon: Globe,
-  },
-  {
-    id: 'react' as ExportFormatId,
-    name: 'React Component',
-    description: 'Drop-in canvas component',
-    icon: FileCode,
-  },
-  {
-    id: 'json' as ExportFormatId,
-    name: 'JSON',
-    description: 'Importable & human readable',
-    icon: FileText,
-  },
-  {
-    id: 'text' as ExportFormatId,
-    name: 'Simple Text',
-    description: 'Character data as a .txt file',
-    icon: FileText,
-  },
-  {
-    id: 'session' as ExportFormatId,
-    name: '.asciimtn Project',
-    description: 'Full ascii-motion session file',
-    icon: Save,
-  },
-];
-
-// Import format definitions for dropdown
-const IMPORT_OPTIONS = [
-  {
-    id: 'media' as ExportFormatId,
-    name: 'Image/Video',
-    description: 'Convert to ASCII art',
-    icon: Upload,
-  },
-  {
-    id: 'json' as ExportFormatId,
-    name: 'JSON Data',
-    description: 'Load JSON project',
-    icon: FileText,
-  },
-  {
-    id: 'session' as ExportFormatId,
-    name: '.asciimtn',
-    description: 'Load project file',
-    icon: FolderOpen,
-  },
-];
-
 /**
  * Export and Import dropdown buttons for the top header bar
  * Each button opens a dropdown menu with format options
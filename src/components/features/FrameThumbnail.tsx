@@ -5,6 +5,9 @@ import { Card } from '../ui/card';
 import type { Frame } from '../../types';
 import { X, Copy } from 'lucide-react';
 import { useCanvasStore } from '../../stores/canvasStore';
+import { useEffectsStore } from '../../stores/effectsStore';
+import { compositeFrame } from '../../utils/layerUtils';
+import { applyEffectStack } from '../../utils/effectStack';
 
 interface FrameThumbnailProps {
   frame: Frame;
@@ -54,6 +57,7 @@ export const FrameThumbnail: React.FC<FrameThumbnailProps> = ({
   
   // Get canvas background color from store
   const { canvasBackgroundColor } = useCanvasStore();
+  const effectStack = useEffectsStore((state) => state.effectStack);
   
   // Calculate scaled dimensions based on timeline zoom
   const baseCardSize = 144; // w-36 = 144px
@@ -97,7 +101,8 @@ export const FrameThumbnail: React.FC<FrameThumbnailProps> = ({
     
     // Create a completely independent copy of the frame data at render time
     const frameDataCopy = new Map();
-    for (const [key, cell] of frame.data.entries()) {
+    const displayCells = applyEffectStack(compositeFrame(frame), effectStack, frame.id, canvasBackgroundColor);
+    for (const [key, cell] of displayCells.entries()) {
       frameDataCopy.set(key, { ...cell }); // Deep copy each cell
     }
     
@@ -165,7 +170,7 @@ export const FrameThumbnail: React.FC<FrameThumbnailProps> = ({
     }
 
     return canvas.toDataURL();
-  }, [frame.data, canvasWidth, canvasHeight, canvasBackgroundColor, scaledThumbnailWidth, scaledThumbnailHeight]);
+  }, [frame, effectStack, canvasWidth, canvasHeight, canvasBackgroundColor, scaledThumbnailWidth, scaledThumbnailHeight]);
 
   // Handle duration input change (allow free typing)
   const handleDurationInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
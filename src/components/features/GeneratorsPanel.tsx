@@ -6,6 +6,7 @@
  * - Animation and Mapping tabs
  * - Live preview playback with frame scrubbing
  * - Output mode selection (append/overwrite)
+ * - Limits output to the active selection mask
  * - Generator-specific settings per tab
  */
 
@@ -20,6 +21,10 @@ import {
   Sparkles,
   Droplets,
   CloudHail,
+  Grid3x3,
+  Flame,
+  Waves,
+  Box,
   Wand2,
   Palette as PaletteIcon
 } from 'lucide-react';
@@ -33,7 +38,12 @@ import { TurbulentNoiseSettings } from './generators/TurbulentNoiseSettings';
 import { ParticlePhysicsSettings } from './generators/ParticlePhysicsSettings';
 import { RainDropsSettings } from './generators/RainDropsSettings';
 import { DigitalRainSettings } from './generators/DigitalRainSettings';
+import { CellularAutomataSettings } from './generators/CellularAutomataSettings';
+import { FireSettings } from './generators/FireSettings';
+import { PlasmaSettings } from './generators/PlasmaSettings';
+import { Perspective3DSettings } from './generators/Perspective3DSettings';
 import { GeneratorsMappingTab } from './generators/GeneratorsMappingTab';
+import { SelectionMaskControls } from './SelectionMaskControls';
 import { useGeneratorPreview } from '../../hooks/useGeneratorPreview';
 
 // Icon mapping for generator headers
@@ -42,7 +52,11 @@ const GENERATOR_ICONS = {
   'turbulent-noise': Wind,
   'particle-physics': Sparkles,
   'rain-drops': Droplets,
-  'digital-rain': CloudHail
+  'digital-rain': CloudHail,
+  'cellular-automata': Grid3x3,
+  'fire': Flame,
+  'plasma': Waves,
+  'perspective-3d': Box
 } as const;
 
 // Parse Tailwind duration for animation timing
@@ -110,6 +124,12 @@ export function GeneratorsPanel() {
     closeGenerator();
   };
 
+  // Re-show the current preview frame through the updated selection mask
+  const handleMaskChange = () => {
+    const { setPreviewFrame } = useGeneratorsStore.getState();
+    setPreviewFrame(uiState.currentPreviewFrame);
+  };
+
   return (
     <div className={cn(
       "fixed inset-y-0 right-0 w-80 bg-background border-l border-border shadow-lg z-50",
@@ -165,6 +185,10 @@ export function GeneratorsPanel() {
             {activeGenerator === 'particle-physics' && <ParticlePhysicsSettings />}
             {activeGenerator === 'rain-drops' && <RainDropsSettings />}
             {activeGenerator === 'digital-rain' && <DigitalRainSettings />}
+            {activeGenerator === 'cellular-automata' && <CellularAutomataSettings />}
+            {activeGenerator === 'fire' && <FireSettings />}
+            {activeGenerator === 'plasma' && <PlasmaSettings />}
+            {activeGenerator === 'perspective-3d' && <Perspective3DSettings />}
           </TabsContent>
 
           <TabsContent value="mapping" className="p-3 space-y-3 mt-0">
@@ -204,6 +228,9 @@ export function GeneratorsPanel() {
           </div>
         </div>
 
+        {/* Selection Scope */}
+        <SelectionMaskControls onMaskChange={handleMaskChange} />
+
         {/* Action Buttons */}
         <div className="flex gap-2">
           <Button
@@ -24,7 +24,11 @@ import {
   Wind,
   Sparkles,
   Droplets,
-  CloudHail
+  CloudHail,
+  Grid3x3,
+  Flame,
+  Waves,
+  Box
 } from 'lucide-react';
 
 // Icon mapping for generator buttons
@@ -33,7 +37,11 @@ const GENERATOR_ICONS = {
   'Wind': Wind,
   'Sparkles': Sparkles,
   'Droplets': Droplets,
-  'CloudHail': CloudHail
+  'CloudHail': CloudHail,
+  'Grid3x3': Grid3x3,
+  'Flame': Flame,
+  'Waves': Waves,
+  'Box': Box
 } as const;
 
 interface GeneratorsSectionProps {
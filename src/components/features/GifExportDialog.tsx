@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Checkbox } from '../ui/checkbox';
+import { Progress } from '../ui/progress';
+import { Card, CardContent } from '../ui/card';
+import { ImagePlay, Loader2, Play, Settings } from 'lucide-react';
+import { useExportStore } from '../../stores/exportStore';
+import { useExportDataCollector } from '../../utils/exportDataCollector';
+import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
+import { ExportRenderer } from '../../utils/exportRenderer';
+import { calculateExportPixelDimensions, formatPixelDimensions } from '../../utils/exportPixelCalculator';
+import type { GifExportSettings } from '../../types/export';
+
+/**
+ * GIF Export Dialog
+ * Handles animated GIF export with per-frame timing, looping and palette options
+ */
+export const GifExportDialog: React.FC = () => {
+  const showExportModal = useExportStore(state => state.showExportModal);
+  const activeFormat = useExportStore(state => state.activeFormat);
+  const setShowExportModal = useExportStore(state => state.setShowExportModal);
+  const gifSettings = useExportStore(state => state.gifSettings);
+  const setGifSettings = useExportStore(state => state.setGifSettings);
+  const progress = useExportStore(state => state.progress);
+  const setProgress = useExportStore(state => state.setProgress);
+  const isExporting = useExportStore(state => state.isExporting);
+  const setIsExporting = useExportStore(state => state.setIsExporting);
+
+  const exportData = useExportDataCollector();
+  const projectName = useProjectMetadataStore((state) => state.projectName);
+
+  const [filename, setFilename] = useState(projectName || 'ascii-motion-animation');
+
+  const isOpen = showExportModal && activeFormat === 'gif';
+
+  // Sync filename with project name when dialog opens
+  useEffect(() => {
+    if (isOpen && projectName) {
+      setFilename(projectName);
+    }
+  }, [isOpen, projectName]);
+
+  const handleClose = () => {
+    setShowExportModal(false);
+  };
+
+  const handleExport = async () => {
+    if (!exportData) {
+      alert('No export data available. Please make sure you have an animation to export.');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+
+      // Create renderer with progress callback
+      const renderer = new ExportRenderer((progress) => {
+        setProgress(progress);
+      });
+
+      // Perform the export
+      await renderer.exportGif(exportData, gifSettings, filename);
+
+      // Close dialog on success
+      handleClose();
+    } catch (error) {
+      console.error('GIF export failed:', error);
+      alert(`GIF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleSettingChange = <K extends keyof GifExportSettings>(
+    key: K,
+    value: GifExportSettings[K]
+  ) => {
+    setGifSettings({ [key]: value });
+  };
+
+  const frameCount = exportData?.frames.length || 0;
+  const totalDurationMs = exportData?.frames.reduce((sum, frame) => sum + frame.duration, 0) || 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setShowExportModal}>
+      <DialogContent className="max-w-xl p-0 overflow-hidden border-border/50" aria-describedby={undefined}>
+        <DialogHeader className="px-6 pt-6 pb-4 border-b border-border/50 bg-background">
+          <DialogTitle className="flex items-center gap-2">
+            <ImagePlay className="w-5 h-5" />
+            Export Animated GIF
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col max-h-[80vh]">
+          {/* Sticky File Name Input */}
+          <div className="sticky top-0 z-10 bg-background px-6 py-4 border-b border-border/50 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="filename">File Name</Label>
+              <div className="flex">
+                <Input
+                  id="filename"
+                  value={filename}
+                  onChange={(e) => setFilename(e.target.value)}
+                  placeholder="Enter filename"
+                  className="flex-1"
+                  disabled={isExporting}
+                />
+                <Badge variant="outline" className="ml-2 self-center">
+                  .gif
+                </Badge>
+              </div>
+            </div>
+
+            {progress && (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">{progress.message}</span>
+                  <span className="text-sm text-muted-foreground">{Math.round(progress.progress)}%</span>
+                </div>
+                <Progress value={progress.progress} />
+              </div>
+            )}
+          </div>
+
+          {/* Scrollable Settings */}
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Settings className="w-4 h-4" />
+                <Label className="text-sm font-medium">GIF Settings</Label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="gifLoops">Loop Animation</Label>
+                  <Select
+                    value={gifSettings.loops.toString()}
+                    onValueChange={(value) => handleSettingChange('loops', value === 'infinite' ? 'infinite' : parseInt(value))}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="gifLoops">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="infinite">Forever</SelectItem>
+                      <SelectItem value="1">Play Once</SelectItem>
+                      <SelectItem value="2">Play 2x</SelectItem>
+                      <SelectItem value="3">Play 3x</SelectItem>
+                      <SelectItem value="5">Play 5x</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gifColors">Palette Size</Label>
+                  <Select
+                    value={gifSettings.colors.toString()}
+                    onValueChange={(value) => handleSettingChange('colors', parseInt(value))}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="gifColors">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="256">256 colors</SelectItem>
+                      <SelectItem value="128">128 colors</SelectItem>
+                      <SelectItem value="64">64 colors</SelectItem>
+                      <SelectItem value="32">32 colors</SelectItem>
+                      <SelectItem value="16">16 colors</SelectItem>
+                      <SelectItem value="8">8 colors</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gifSizeMultiplier">Resolution</Label>
+                  <Select
+                    value={gifSettings.sizeMultiplier.toString()}
+                    onValueChange={(value) => handleSettingChange('sizeMultiplier', parseInt(value) as 1 | 2 | 4)}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="gifSizeMultiplier">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1x (Standard)</SelectItem>
+                      <SelectItem value="2">2x (Large)</SelectItem>
+                      <SelectItem value="4">4x (Extra Large)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {exportData && (
+                    <div className="mt-2 p-2 bg-muted/30 rounded text-xs">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Output size:</span>
+                        <span className="font-mono">
+                          {formatPixelDimensions(calculateExportPixelDimensions({
+                            gridWidth: exportData.canvasDimensions.width,
+                            gridHeight: exportData.canvasDimensions.height,
+                            sizeMultiplier: gifSettings.sizeMultiplier,
+                            fontSize: exportData.typography.fontSize,
+                            characterSpacing: exportData.typography.characterSpacing,
+                            lineSpacing: exportData.typography.lineSpacing
+                          }))}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="gifDithering"
+                    checked={gifSettings.dithering}
+                    onCheckedChange={(checked: boolean) => handleSettingChange('dithering', checked)}
+                    disabled={isExporting}
+                  />
+                  <Label htmlFor="gifDithering" className="text-sm">
+                    Dither colors (smoother gradients, softer glyph edges)
+                  </Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="gifIncludeGrid"
+                    checked={gifSettings.includeGrid}
+                    onCheckedChange={(checked: boolean) => handleSettingChange('includeGrid', checked)}
+                    disabled={isExporting}
+                  />
+                  <Label htmlFor="gifIncludeGrid" className="text-sm">
+                    Include grid lines
+                  </Label>
+                </div>
+              </div>
+            </div>
+
+            {/* GIF Preview Info */}
+            <Card className="bg-muted/50 border-border/50">
+              <CardContent className="pt-4">
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Frames:</span>
+                    <span>{frameCount}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Duration:</span>
+                    <span>{(totalDurationMs / 1000).toFixed(1)}s</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-2">
+                    Frame timing follows each frame's duration. GIF delays are stored in 10ms steps.
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sticky Action Buttons */}
+          <div className="sticky bottom-0 z-10 bg-background px-6 py-4 border-t border-border/50 flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              disabled={isExporting}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || !exportData || !filename.trim()}
+              className="gap-2"
+            >
+              {isExporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Exporting...
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  Export GIF
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
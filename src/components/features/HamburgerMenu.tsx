@@ -8,7 +8,7 @@ import {
   MenubarSeparator,
   MenubarTrigger,
 } from '../ui/menubar';
-import { Menu, Info, Keyboard, CloudUpload, CloudDownload, FilePlus2, Settings, Sparkles, Users, Upload } from 'lucide-react';
+import { Menu, Info, Keyboard, CloudUpload, CloudDownload, FilePlus2, Settings, Sparkles, Users, Upload, Save, FolderOpen, Command } from 'lucide-react';
 import { AboutDialog } from './AboutDialog';
 import { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog';
 import { useAuth } from '@ascii-motion/premium';
@@ -16,6 +16,7 @@ import { useCloudDialogState } from '../../hooks/useCloudDialogState';
 import { useProjectDialogState } from '../../hooks/useProjectDialogState';
 import { useProjectFileActions } from '../../hooks/useProjectFileActions';
 import { useWelcomeDialog } from '../../hooks/useWelcomeDialog';
+import { useCommandPaletteStore } from '../../stores/commandPaletteStore';
 import { FEATURES } from '../../constants/features';
 
 interface HamburgerMenuProps {
@@ -25,7 +26,7 @@ interface HamburgerMenuProps {
 
 /**
  * Hamburger menu button for the top header bar
- * Contains app information and cloud storage operations
+ * Contains app information and cloud/local project storage operations
  */
 export const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ onOpenGallery, onOpenPublish }) => {
   const [showAboutDialog, setShowAboutDialog] = useState(false);
@@ -41,9 +42,10 @@ export const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ onOpenGallery, onO
     setShowProjectSettingsDialog,
   } = useProjectDialogState();
 
-  const { showSaveProjectDialog, showSaveAsDialog } = useProjectFileActions();
+  const { showSaveProjectDialog, showSaveAsDialog, showOpenProjectDialog } = useProjectFileActions();
   
   const { resetWelcomeState } = useWelcomeDialog();
+  const setShowCommandPalette = useCommandPaletteStore(state => state.setOpen);
 
   return (
     <>
@@ -99,6 +101,36 @@ export const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ onOpenGallery, onO
               </>
             )}
             
+            {!user && (
+              <>
+                <MenubarItem onClick={showSaveProjectDialog} className="cursor-pointer">
+                  <Save className="mr-2 h-4 w-4" />
+                  <span>Save Project</span>
+                  <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                    {navigator.platform.includes('Mac') ? '⌘S' : 'Ctrl+S'}
+                  </span>
+                </MenubarItem>
+                
+                <MenubarItem onClick={showSaveAsDialog} className="cursor-pointer">
+                  <Save className="mr-2 h-4 w-4" />
+                  <span>Save As...</span>
+                  <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                    {navigator.platform.includes('Mac') ? '⇧⌘S' : 'Ctrl+Shift+S'}
+                  </span>
+                </MenubarItem>
+                
+                <MenubarItem onClick={showOpenProjectDialog} className="cursor-pointer">
+                  <FolderOpen className="mr-2 h-4 w-4" />
+                  <span>Open Project</span>
+                  <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                    {navigator.platform.includes('Mac') ? '⌘O' : 'Ctrl+O'}
+                  </span>
+                </MenubarItem>
+                
+                <MenubarSeparator />
+              </>
+            )}
+            
             <MenubarItem onClick={() => setShowProjectSettingsDialog(true)} className="cursor-pointer">
               <Settings className="mr-2 h-4 w-4" />
               <span>Project Settings</span>
@@ -129,6 +161,11 @@ export const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ onOpenGallery, onO
               <span>Show Welcome Screen</span>
             </MenubarItem>
             
+            <MenubarItem onClick={() => setShowCommandPalette(true)} className="cursor-pointer">
+              <Command className="mr-2 h-4 w-4" />
+              <span>Command Palette</span>
+            </MenubarItem>
+            
             <MenubarItem onClick={() => setShowKeyboardShortcuts(true)} className="cursor-pointer">
               <Keyboard className="mr-2 h-4 w-4" />
               <span>Keyboard Shortcuts</span>
@@ -0,0 +1,291 @@
+/**
+ * HistorySection - Collapsible undo history panel
+ *
+ * Features:
+ * - Lists history steps newest first, highlighting the current position
+ * - Click a step to undo/redo straight to it
+ * - Steps ahead of the current position are shown dimmed as the redo branch
+ * - Thumbnail of the frame each step affected
+ * - Snapshot bookmarks of the whole project that survive history trimming
+ * - Memory limit for the history, saved between sessions
+ * - Follows LayersSection patterns
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  Collapsible,
+  CollapsibleContent,
+} from '../ui/collapsible';
+import { CollapsibleHeader } from '../common/CollapsibleHeader';
+import { useHistoryNavigation } from '../../hooks/useHistoryNavigation';
+import { useAnimationStore } from '../../stores/animationStore';
+import { useCanvasStore } from '../../stores/canvasStore';
+import { useToolStore } from '../../stores/toolStore';
+import { compositeFrame } from '../../utils/layerUtils';
+import { getHistoryActionFrameIndex } from '../../utils/historySnapshots';
+import type { Frame } from '../../types';
+import {
+  History,
+  BookmarkPlus,
+  Bookmark,
+  Trash2
+} from 'lucide-react';
+
+interface HistorySectionProps {
+  className?: string;
+}
+
+const THUMBNAIL_WIDTH = 32;
+const THUMBNAIL_HEIGHT = 18;
+
+const MEMORY_BUDGET_OPTIONS_MB = [32, 64, 128, 256, 512, 1024];
+
+// Frames are replaced rather than mutated, so a rendered preview stays valid for its frame object
+const thumbnailCache = new WeakMap<Frame, { key: string; url: string }>();
+
+/**
+ * Pixel preview of a frame (one rectangle per cell, like the timeline thumbnails)
+ */
+const renderFrameThumbnail = (frame: Frame, canvasWidth: number, canvasHeight: number, backgroundColor: string): string | null => {
+  const key = `${canvasWidth}x${canvasHeight}-${backgroundColor}`;
+  const cached = thumbnailCache.get(frame);
+  if (cached && cached.key === key) {
+    return cached.url;
+  }
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  ctx.fillStyle = backgroundColor || '#1a1a1a';
+  ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+  const scaleX = THUMBNAIL_WIDTH / canvasWidth;
+  const scaleY = THUMBNAIL_HEIGHT / canvasHeight;
+  compositeFrame(frame).forEach((cell, cellKey) => {
+    const [x, y] = cellKey.split(',').map(Number);
+    if (x < 0 || x >= canvasWidth || y < 0 || y >= canvasHeight) return;
+    ctx.fillStyle = cell.color || cell.bgColor || '#ffffff';
+    ctx.fillRect(Math.floor(x * scaleX), Math.floor(y * scaleY), Math.ceil(Math.max(1, scaleX)), Math.ceil(Math.max(1, scaleY)));
+  });
+
+  const url = canvas.toDataURL();
+  thumbnailCache.set(frame, { key, url });
+  return url;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export function HistorySection({ className = '' }: HistorySectionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingSnapshotId, setEditingSnapshotId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const {
+    historyStack,
+    historyPosition,
+    historySnapshots,
+    jumpToPosition,
+    addSnapshot,
+    restoreSnapshot,
+    renameSnapshot,
+    removeSnapshot
+  } = useHistoryNavigation();
+  const frames = useAnimationStore((state) => state.frames);
+  const { width: canvasWidth, height: canvasHeight, canvasBackgroundColor } = useCanvasStore();
+  const historyMemoryBudget = useToolStore((state) => state.historyMemoryBudget);
+  const setHistoryLimits = useToolStore((state) => state.setHistoryLimits);
+  const memoryBudgetMb = Math.round(historyMemoryBudget / (1024 * 1024));
+  const memoryBudgetOptions = MEMORY_BUDGET_OPTIONS_MB.includes(memoryBudgetMb)
+    ? MEMORY_BUDGET_OPTIONS_MB
+    : [...MEMORY_BUDGET_OPTIONS_MB, memoryBudgetMb].sort((a, b) => a - b);
+
+  const redoCount = historyStack.length - 1 - historyPosition;
+
+  // Display newest step first; only build rows while the panel is open
+  const displaySteps = useMemo(() => {
+    if (!isOpen) return [];
+    return historyStack.map((action, index) => {
+      const frameIndex = getHistoryActionFrameIndex(action);
+      const frame = frameIndex !== undefined ? frames[frameIndex] : undefined;
+      return {
+        action,
+        index,
+        frameIndex,
+        thumbnail: frame ? renderFrameThumbnail(frame, canvasWidth, canvasHeight, canvasBackgroundColor) : null
+      };
+    }).reverse();
+  }, [isOpen, historyStack, frames, canvasWidth, canvasHeight, canvasBackgroundColor]);
+
+  const commitRename = () => {
+    if (editingSnapshotId && editingName.trim()) {
+      renameSnapshot(editingSnapshotId, editingName.trim());
+    }
+    setEditingSnapshotId(null);
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleHeader isOpen={isOpen}>
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History
+          </div>
+        </CollapsibleHeader>
+
+        <CollapsibleContent className="collapsible-content mt-2">
+          <div className="space-y-2">
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {displaySteps.map(({ action, index, frameIndex, thumbnail }) => {
+                const isCurrent = index === historyPosition;
+                const isRedoBranch = index > historyPosition;
+                return (
+                  <div
+                    key={`${action.timestamp}-${index}`}
+                    className={`flex items-center gap-2 rounded border px-1 h-7 text-xs cursor-pointer ${
+                      isCurrent ? 'border-primary bg-primary/10' : 'border-border/50 hover:bg-muted/50'
+                    } ${isRedoBranch ? 'opacity-50 border-dashed' : ''}`}
+                    title={isRedoBranch ? 'Redo to this step' : 'Undo to this step'}
+                    onClick={() => jumpToPosition(index)}
+                  >
+                    {thumbnail ? (
+                      <img
+                        src={thumbnail}
+                        alt={frameIndex !== undefined ? `Frame ${frameIndex + 1}` : ''}
+                        className="h-[18px] w-8 rounded-sm border border-border/50 flex-shrink-0"
+                        style={{ imageRendering: 'pixelated' }}
+                      />
+                    ) : (
+                      <div className="h-[18px] w-8 rounded-sm border border-border/50 flex-shrink-0" />
+                    )}
+                    <span className="flex-1 truncate">{action.description}</span>
+                    <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                      {formatTime(action.timestamp)}
+                    </span>
+                  </div>
+                );
+              })}
+
+              <div
+                className={`flex items-center rounded border px-2 h-7 text-xs cursor-pointer ${
+                  historyPosition === -1 ? 'border-primary bg-primary/10' : 'border-border/50 hover:bg-muted/50'
+                }`}
+                title="Undo every step"
+                onClick={() => jumpToPosition(-1)}
+              >
+                <span className="flex-1 truncate text-muted-foreground">
+                  {historyStack.length > 0 ? 'Oldest kept state' : 'No history yet'}
+                </span>
+              </div>
+            </div>
+
+            {redoCount > 0 && (
+              <div className="text-xs text-muted-foreground">
+                {redoCount} step{redoCount === 1 ? '' : 's'} ahead will be discarded by the next edit.
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">Memory limit</span>
+              <Select
+                value={String(memoryBudgetMb)}
+                onValueChange={(value) => setHistoryLimits({ memoryBudgetMb: Number(value) })}
+              >
+                <SelectTrigger className="h-7 w-24 text-xs" title="Oldest steps are dropped once history exceeds this estimate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {memoryBudgetOptions.map(mb => (
+                    <SelectItem key={mb} value={String(mb)} className="text-xs">
+                      {mb >= 1024 ? `${mb / 1024} GB` : `${mb} MB`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Snapshots</div>
+              {historySnapshots.length === 0 ? (
+                <div className="text-xs text-muted-foreground">
+                  Bookmark the project to come back to it after older steps are trimmed.
+                </div>
+              ) : (
+                historySnapshots.map(snapshot => (
+                  <div
+                    key={snapshot.id}
+                    className="flex items-center gap-1 rounded border border-border/50 px-1 h-7 text-xs cursor-pointer hover:bg-muted/50"
+                    title="Restore this snapshot"
+                    onClick={() => restoreSnapshot(snapshot.id)}
+                  >
+                    <Bookmark className="w-3 h-3 flex-shrink-0" />
+                    {editingSnapshotId === snapshot.id ? (
+                      <Input
+                        autoFocus
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          e.stopPropagation();
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingSnapshotId(null);
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="h-5 flex-1 text-xs px-1"
+                      />
+                    ) : (
+                      <span
+                        className="flex-1 truncate"
+                        title="Double-click to rename"
+                        onDoubleClick={(e) => {
+                          e.stopPropagation();
+                          setEditingSnapshotId(snapshot.id);
+                          setEditingName(snapshot.name);
+                        }}
+                      >
+                        {snapshot.name}
+                      </span>
+                    )}
+                    <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                      {formatTime(snapshot.timestamp)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 w-5 p-0"
+                      title="Delete snapshot"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeSnapshot(snapshot.id);
+                      }}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => addSnapshot()}
+              className="w-full justify-start gap-2 h-8 text-xs"
+              title="Bookmark the current project state"
+            >
+              <BookmarkPlus className="w-3 h-3" />
+              Add Snapshot
+            </Button>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
@@ -206,6 +206,37 @@ export const HtmlExportDialog: React.FC = () => {
                     disabled={isExporting}
                   />
                 </div>
+
+                {/* Player Source */}
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <Label className="text-sm">Use @ascii-motion/player</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Load the shared player module instead of inlining one
+                    </p>
+                  </div>
+                  <Switch
+                    checked={htmlSettings.playerSource === 'package'}
+                    onCheckedChange={(checked) => handleSettingChange('playerSource', checked ? 'package' : 'inline')}
+                    disabled={isExporting}
+                  />
+                </div>
+
+                {htmlSettings.playerSource === 'package' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="html-player-url" className="text-sm">Player Module URL</Label>
+                    <Input
+                      id="html-player-url"
+                      value={htmlSettings.playerUrl}
+                      onChange={(e) => handleSettingChange('playerUrl', e.target.value)}
+                      placeholder="https://example.com/ascii-motion-player.js"
+                      disabled={isExporting}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Where your build of @ascii-motion/player is hosted
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -215,7 +246,11 @@ export const HtmlExportDialog: React.FC = () => {
                 <div className="text-xs text-muted-foreground">
                   <div className="font-medium mb-2">HTML Export Features:</div>
                   <ul className="space-y-1">
-                    <li>• Standalone HTML file with no external dependencies</li>
+                    <li>
+                      {htmlSettings.playerSource === 'package'
+                        ? '• Small HTML file that loads the player module at runtime'
+                        : '• Standalone HTML file with no external dependencies'}
+                    </li>
                     <li>• Built-in play/pause controls and speed adjustment</li>
                     <li>• Preserves all character colors and backgrounds</li>
                     <li>• Works in any modern web browser</li>
@@ -230,7 +265,10 @@ export const HtmlExportDialog: React.FC = () => {
             <Button variant="outline" onClick={handleClose} disabled={isExporting}>
               Cancel
             </Button>
-            <Button onClick={handleExport} disabled={isExporting || !filename.trim()}>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || !filename.trim() || (htmlSettings.playerSource === 'package' && !htmlSettings.playerUrl.trim())}
+            >
               {isExporting ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -4,6 +4,7 @@ import { Card, CardContent } from '../ui/card';
 import { Button } from '../ui/button';
 import { Upload, Save, AlertCircle, Loader2 } from 'lucide-react';
 import { useExportStore } from '../../stores/exportStore';
+import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
 import { useSessionImporter } from '../../utils/sessionImporter';
 import { useCanvasContext } from '../../contexts/CanvasContext';
 
@@ -15,6 +16,7 @@ export const ImportModal: React.FC = () => {
   const activeFormat = useExportStore(state => state.activeFormat);
   const showImportModal = useExportStore(state => state.showImportModal);
   const setShowImportModal = useExportStore(state => state.setShowImportModal);
+  const markDocumentSaved = useProjectMetadataStore(state => state.markDocumentSaved);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Get typography setters from CanvasContext
@@ -39,6 +41,7 @@ export const ImportModal: React.FC = () => {
         setLineSpacing,
         setSelectedFontId
       });
+      markDocumentSaved();
       
       // Reset input and close modal
       event.target.value = '';
@@ -15,6 +15,7 @@ import { useCharacterPaletteStore } from '../../stores/characterPaletteStore';
 import { useAnimationStore } from '../../stores/animationStore';
 import { usePaletteStore } from '../../stores/paletteStore';
 import { generateBezierPreview } from '../../utils/bezierFillUtils';
+import { canEditActiveLayer } from '../../utils/layerLock';
 import { BezierActionButtons } from './BezierActionButtons';
 import type { 
   BezierCommitHistoryAction,
@@ -141,6 +142,9 @@ export const InteractiveBezierOverlay: React.FC = () => {
       console.warn('[Bezier] Cannot commit: no preview data');
       return;
     }
+    if (!canEditActiveLayer()) {
+      return;
+    }
 
     try {
       // Capture bezier state BEFORE committing (for undo to restore editing state)
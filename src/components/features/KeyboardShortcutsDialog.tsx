@@ -1,114 +1,34 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
 import { ScrollArea } from '../ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Input } from '../ui/input';
-import { Search } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Search, Pencil, Plus, RotateCcw, Download, Upload, X, AlertTriangle } from 'lucide-react';
+import { COMMANDS, COMMAND_CATEGORIES, COMMANDS_BY_ID, KEYMAP_PRESETS } from '../../constants/commands';
+import type { CommandDefinition, CommandId } from '../../constants/commands';
+import { useKeymapStore } from '../../stores/keymapStore';
+import { eventToChord, findKeymapConflicts, formatChordKeys } from '../../utils/keymap';
 
 interface KeyboardShortcutsDialogProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-interface ShortcutItem {
-  keys: string[];
-  description: string;
+interface RecordingState {
+  commandId: CommandId;
+  mode: 'replace' | 'add';
 }
 
-interface ShortcutSection {
-  title: string;
-  shortcuts: ShortcutItem[];
-}
-
-const KEYBOARD_SHORTCUTS: ShortcutSection[] = [
-  {
-    title: 'File & Project',
-    shortcuts: [
-      { keys: ['Cmd', 'S'], description: 'Save to Cloud (requires sign in)' },
-      { keys: ['Cmd', 'Shift', 'S'], description: 'Save As... (requires sign in)' },
-      { keys: ['Cmd', 'O'], description: 'Open from Cloud (requires sign in)' },
-    ]
-  },
-  {
-    title: 'Tool Selection',
-    shortcuts: [
-      { keys: ['P'], description: 'Pencil tool' },
-      { keys: ['E'], description: 'Eraser tool' },
-      { keys: ['F'], description: 'Fill tool' },
-      { keys: ['M'], description: 'Rectangular Selection tool' },
-      { keys: ['L'], description: 'Lasso Selection tool' },
-      { keys: ['W'], description: 'Magic Wand Selection tool' },
-      { keys: ['I'], description: 'Eyedropper tool' },
-      { keys: ['R'], description: 'Rectangle tool' },
-      { keys: ['O'], description: 'Ellipse tool' },
-      { keys: ['T'], description: 'Text tool' },
-      { keys: ['G'], description: 'Gradient Fill tool' },
-      { keys: ['Alt'], description: 'Temporary Eyedropper' },
-    ]
-  },
-  {
-    title: 'Canvas Actions',
-    shortcuts: [
-      { keys: ['Cmd', 'A'], description: 'Select All' },
-      { keys: ['Cmd', 'C'], description: 'Copy Selection' },
-      { keys: ['Cmd', 'V'], description: 'Paste Selection' },
-      { keys: ['Cmd', 'Z'], description: 'Undo' },
-      { keys: ['Cmd', 'Shift', 'Z'], description: 'Redo' },
-      { keys: ['Delete'], description: 'Delete selected cells' },
-      { keys: ['Backspace'], description: 'Delete selected cells' },
-      { keys: ['Esc'], description: 'Clear selection' },
-      { keys: ['Shift', 'H'], description: 'Flip selection horizontally' },
-      { keys: ['Shift', 'V'], description: 'Flip selection vertically' },
-      { keys: ['Cmd', 'Shift', 'C'], description: 'Crop canvas to selection' },
-      { keys: ['Space'], description: 'Pan canvas' },
-    ]
-  },
-  {
-    title: 'Color Management',
-    shortcuts: [
-      { keys: ['X'], description: 'Swap foreground/background colors' },
-      { keys: ['['], description: 'Decrease brush size' },
-      { keys: [']'], description: 'Increase brush size' },
-      { keys: ['Shift', '['], description: 'Previous palette color' },
-      { keys: ['Shift', ']'], description: 'Next palette color' },
-      { keys: ['Cmd', '['], description: 'Previous character in active palette' },
-      { keys: ['Cmd', ']'], description: 'Next character in active palette' },
-    ]
-  },
-  {
-    title: 'Zoom & Navigation',
-    shortcuts: [
-      { keys: ['+'], description: 'Zoom in' },
-      { keys: ['='], description: 'Zoom in' },
-      { keys: ['-'], description: 'Zoom out' },
-    ]
-  },
-  {
-    title: 'Animation & Timeline',
-    shortcuts: [
-      { keys: [','], description: 'Previous frame' },
-      { keys: ['.'], description: 'Next frame' },
-      { keys: ['Cmd', 'N'], description: 'Add new frame after current' },
-      { keys: ['Cmd', 'D'], description: 'Duplicate current frame' },
-      { keys: ['Cmd', 'Delete'], description: 'Delete current frame' },
-      { keys: ['Cmd', 'Backspace'], description: 'Delete current frame' },
-      { keys: ['Shift', 'O'], description: 'Toggle onion skinning' },
-    ]
-  },
-  {
-    title: 'Performance',
-    shortcuts: [
-      { keys: ['Ctrl', 'Shift', 'P'], description: 'Toggle performance overlay' },
-    ]
-  }
-];
-
-const KeyDisplay: React.FC<{ keys: string[] }> = ({ keys }) => {
+const KeyDisplay: React.FC<{ keys: string[]; conflict?: boolean }> = ({ keys, conflict = false }) => {
   return (
     <div className="flex items-center gap-1">
       {keys.map((key, index) => (
         <React.Fragment key={index}>
-          <kbd className="px-2 py-1 text-xs font-semibold text-foreground bg-muted border border-border rounded">
+          <kbd className={`px-2 py-1 text-xs font-semibold bg-muted border rounded ${
+            conflict ? 'text-destructive border-destructive' : 'text-foreground border-border'
+          }`}>
             {key === 'Cmd' ? (navigator.platform.includes('Mac') ? '⌘' : 'Ctrl') : key}
           </kbd>
           {index < keys.length - 1 && (
@@ -120,35 +40,122 @@ const KeyDisplay: React.FC<{ keys: string[] }> = ({ keys }) => {
   );
 };
 
-export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ 
-  isOpen, 
-  onOpenChange 
+export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({
+  isOpen,
+  onOpenChange
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [recording, setRecording] = useState<RecordingState | null>(null);
+  const [statusMessage, setStatusMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const {
+    presetId,
+    overrides,
+    bindings,
+    setPreset,
+    setCommandChords,
+    resetCommand,
+    resetAll,
+    exportKeymap,
+    importKeymap
+  } = useKeymapStore();
+
+  const conflicts = useMemo(() => findKeymapConflicts(bindings), [bindings]);
+
+  // Capture the next chord while a command is being rebound
+  useEffect(() => {
+    if (!recording) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
 
-  // Filter shortcuts based on search query
+      const chord = eventToChord(event);
+      if (!chord) return; // Wait for a non-modifier key
+
+      const current = bindings[recording.commandId] ?? [];
+      setCommandChords(recording.commandId, recording.mode === 'add' ? [...current, chord] : [chord]);
+      setRecording(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, bindings, setCommandChords]);
+
+  // Stop recording when the dialog closes
+  useEffect(() => {
+    if (!isOpen) {
+      setRecording(null);
+      setStatusMessage(null);
+    }
+  }, [isOpen]);
+
+  // Filter commands based on search query, grouped by category
   const filteredSections = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return KEYBOARD_SHORTCUTS;
+    const query = searchQuery.trim().toLowerCase();
+
+    const matches = (command: CommandDefinition) => {
+      if (!query) return true;
+      // Search in description and in keyboard shortcut keys
+      return command.title.toLowerCase().includes(query) ||
+        (bindings[command.id] ?? []).some(chord => chord.toLowerCase().includes(query));
+    };
+
+    return COMMAND_CATEGORIES.map(category => ({
+      title: category,
+      commands: COMMANDS.filter(command => command.category === category && matches(command))
+    })).filter(section => section.commands.length > 0);
+  }, [searchQuery, bindings]);
+
+  const handleExport = () => {
+    try {
+      const blob = new Blob([exportKeymap()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'ascii-motion-keymap.json';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export keymap:', error);
     }
+  };
 
-    const query = searchQuery.toLowerCase();
-    
-    return KEYBOARD_SHORTCUTS.map(section => ({
-      ...section,
-      shortcuts: section.shortcuts.filter(shortcut => {
-        // Search in description
-        const matchesDescription = shortcut.description.toLowerCase().includes(query);
-        
-        // Search in keyboard shortcut keys
-        const matchesKeys = shortcut.keys.some(key => 
-          key.toLowerCase().includes(query)
-        );
-        
-        return matchesDescription || matchesKeys;
-      })
-    })).filter(section => section.shortcuts.length > 0);
-  }, [searchQuery]);
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { skipped } = importKeymap(await file.text());
+      setStatusMessage({
+        text: skipped.length > 0
+          ? `Keymap imported (${skipped.length} unknown or fixed command${skipped.length === 1 ? '' : 's'} skipped)`
+          : 'Keymap imported',
+        isError: false
+      });
+    } catch (error) {
+      setStatusMessage({
+        text: error instanceof Error ? error.message : 'Failed to import keymap',
+        isError: true
+      });
+    }
+  };
+
+  const describeConflict = (commandId: CommandId, chord: string) => {
+    const others = (conflicts.get(chord) ?? []).filter(id => id !== commandId);
+    return others.map(id => COMMANDS_BY_ID.get(id)?.title ?? id).join(', ');
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
@@ -156,7 +163,61 @@ export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = (
         <DialogHeader>
           <DialogTitle>Keyboard Shortcuts</DialogTitle>
         </DialogHeader>
-        
+
+        {/* Keymap controls */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Keymap</span>
+          <Select value={presetId} onValueChange={setPreset}>
+            <SelectTrigger className="h-8 text-xs w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {KEYMAP_PRESETS.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs gap-1"
+            onClick={resetAll}
+            disabled={Object.keys(overrides).length === 0}
+            title="Discard your changes to this keymap"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 text-xs gap-1" onClick={handleExport}>
+            <Download className="w-3 h-3" />
+            Export
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 text-xs gap-1" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-3 h-3" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          {conflicts.size > 0 && (
+            <span className="flex items-center gap-1 text-xs text-destructive">
+              <AlertTriangle className="w-3 h-3" />
+              {conflicts.size} conflicting shortcut{conflicts.size === 1 ? '' : 's'}
+            </span>
+          )}
+          {statusMessage && (
+            <span className={`text-xs ${statusMessage.isError ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {statusMessage.text}
+            </span>
+          )}
+        </div>
+
         {/* Search Bar */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -168,16 +229,16 @@ export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = (
             className="pl-9"
           />
         </div>
-        
-        <ScrollArea className="h-[calc(85vh-180px)] pr-4">
+
+        <ScrollArea className="h-[calc(85vh-230px)] pr-4">
           {filteredSections.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               No shortcuts found matching "{searchQuery}"
             </div>
           ) : (
             <div className="space-y-4">
-              {filteredSections.map((section, sectionIndex) => (
-                <Card key={sectionIndex} className="border-border/50">
+              {filteredSections.map(section => (
+                <Card key={section.title} className="border-border/50">
                   <CardHeader className="pb-3">
                     <CardTitle className="text-base font-semibold text-muted-foreground">
                       {section.title}
@@ -186,17 +247,84 @@ export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = (
                   <CardContent>
                     {/* 2-column grid layout */}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-x-16 gap-y-2">
-                      {section.shortcuts.map((shortcut, shortcutIndex) => (
-                        <div 
-                          key={shortcutIndex}
-                          className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 transition-colors gap-4"
-                        >
-                          <span className="text-sm text-foreground flex-1 min-w-0">
-                            {shortcut.description}
-                          </span>
-                          <KeyDisplay keys={shortcut.keys} />
-                        </div>
-                      ))}
+                      {section.commands.map(command => {
+                        const chords = bindings[command.id] ?? [];
+                        const isRecording = recording?.commandId === command.id;
+                        return (
+                          <div
+                            key={command.id}
+                            className="group flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 transition-colors gap-4"
+                          >
+                            <span className="text-sm text-foreground flex-1 min-w-0">
+                              {command.title}
+                            </span>
+                            <div className="flex flex-wrap items-center justify-end gap-2">
+                              {isRecording ? (
+                                <span className="text-xs text-primary">Press keys… (Esc to cancel)</span>
+                              ) : chords.length === 0 ? (
+                                <span className="text-xs text-muted-foreground">Unassigned</span>
+                              ) : (
+                                chords.map(chord => {
+                                  const conflict = describeConflict(command.id, chord);
+                                  return (
+                                    <div
+                                      key={chord}
+                                      className="flex items-center gap-0.5"
+                                      title={conflict ? `Also bound to: ${conflict}` : undefined}
+                                    >
+                                      <KeyDisplay keys={formatChordKeys(chord)} conflict={Boolean(conflict)} />
+                                      {!command.fixed && (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100"
+                                          title="Remove shortcut"
+                                          onClick={() => setCommandChords(command.id, chords.filter(item => item !== chord))}
+                                        >
+                                          <X className="w-3 h-3" />
+                                        </Button>
+                                      )}
+                                    </div>
+                                  );
+                                })
+                              )}
+                              {!command.fixed && (
+                                <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0"
+                                    title="Change shortcut"
+                                    onClick={() => setRecording({ commandId: command.id, mode: 'replace' })}
+                                  >
+                                    <Pencil className="w-3 h-3" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0"
+                                    title="Add alternate shortcut"
+                                    onClick={() => setRecording({ commandId: command.id, mode: 'add' })}
+                                  >
+                                    <Plus className="w-3 h-3" />
+                                  </Button>
+                                  {overrides[command.id] && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 w-6 p-0"
+                                      title="Reset to keymap default"
+                                      onClick={() => resetCommand(command.id)}
+                                    >
+                                      <RotateCcw className="w-3 h-3" />
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
                   </CardContent>
                 </Card>
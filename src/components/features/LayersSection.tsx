@@ -0,0 +1,231 @@
+/**
+ * LayersSection - Collapsible layer stack for the current frame
+ *
+ * Features:
+ * - Lists layers top-most first, click to make a layer active
+ * - Add, remove, reorder and rename layers
+ * - Visibility, lock and opacity controls per layer
+ * - Follows EffectsSection/GeneratorsSection patterns
+ */
+
+import { useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Slider } from '../ui/slider';
+import {
+  Collapsible,
+  CollapsibleContent,
+} from '../ui/collapsible';
+import { CollapsibleHeader } from '../common/CollapsibleHeader';
+import { useFrameLayers } from '../../hooks/useFrameLayers';
+import type { LayerId } from '../../types';
+import {
+  Layers,
+  Plus,
+  Trash2,
+  Eye,
+  EyeOff,
+  Lock,
+  Unlock,
+  ChevronUp,
+  ChevronDown
+} from 'lucide-react';
+
+interface LayersSectionProps {
+  className?: string;
+}
+
+export function LayersSection({ className = '' }: LayersSectionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingLayerId, setEditingLayerId] = useState<LayerId | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const {
+    layers,
+    activeLayerId,
+    addLayer,
+    removeLayer,
+    selectLayer,
+    moveLayer,
+    renameLayer,
+    setLayerVisibility,
+    setLayerLocked,
+    setLayerOpacity
+  } = useFrameLayers();
+
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
+
+  const commitRename = () => {
+    if (editingLayerId && editingName.trim()) {
+      renameLayer(editingLayerId, editingName.trim());
+    }
+    setEditingLayerId(null);
+  };
+
+  // Display top-most layer first
+  const displayLayers = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleHeader isOpen={isOpen}>
+          <div className="flex items-center gap-2">
+            <Layers className="w-4 h-4" />
+            Layers
+          </div>
+        </CollapsibleHeader>
+
+        <CollapsibleContent className="collapsible-content mt-2">
+          <div className="space-y-2">
+            {layers.length === 0 ? (
+              <div className="text-xs text-muted-foreground">
+                This frame has a single layer. Add a layer to stack artwork.
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {displayLayers.map(({ layer, index }) => {
+                  const isActive = layer.id === activeLayerId;
+                  return (
+                    <div
+                      key={layer.id}
+                      className={`flex items-center gap-1 rounded border px-1 h-7 text-xs cursor-pointer ${
+                        isActive ? 'border-primary bg-primary/10' : 'border-border/50 hover:bg-muted/50'
+                      }`}
+                      onClick={() => selectLayer(layer.id)}
+                    >
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0"
+                        title={layer.visible ? 'Hide layer' : 'Show layer'}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setLayerVisibility(layer.id, !layer.visible);
+                        }}
+                      >
+                        {layer.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0"
+                        title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setLayerLocked(layer.id, !layer.locked);
+                        }}
+                      >
+                        {layer.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3 opacity-50" />}
+                      </Button>
+
+                      {editingLayerId === layer.id ? (
+                        <Input
+                          autoFocus
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            e.stopPropagation();
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setEditingLayerId(null);
+                          }}
+                          onClick={(e) => e.stopPropagation()}
+                          className="h-5 flex-1 text-xs px-1"
+                        />
+                      ) : (
+                        <span
+                          className="flex-1 truncate"
+                          title="Double-click to rename"
+                          onDoubleClick={(e) => {
+                            e.stopPropagation();
+                            setEditingLayerId(layer.id);
+                            setEditingName(layer.name);
+                          }}
+                        >
+                          {layer.name}
+                        </span>
+                      )}
+
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0"
+                        title="Move layer up"
+                        disabled={index >= layers.length - 1}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveLayer(layer.id, index + 1);
+                        }}
+                      >
+                        <ChevronUp className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0"
+                        title="Move layer down"
+                        disabled={index <= 0}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveLayer(layer.id, index - 1);
+                        }}
+                      >
+                        <ChevronDown className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {activeLayer && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Opacity</span>
+                  <span>{Math.round(activeLayer.opacity * 100)}%</span>
+                </div>
+                <Slider
+                  value={Math.round(activeLayer.opacity * 100)}
+                  onValueChange={(value) => setLayerOpacity(activeLayer.id, value / 100)}
+                  min={0}
+                  max={100}
+                  step={5}
+                  className="h-2"
+                />
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addLayer()}
+                className="flex-1 justify-start gap-2 h-8 text-xs"
+                title="Add a layer above the active layer"
+              >
+                <Plus className="w-3 h-3" />
+                Add Layer
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => activeLayerId && removeLayer(activeLayerId)}
+                disabled={!activeLayerId || layers.length <= 1}
+                className="h-8 w-8 p-0"
+                title="Delete active layer"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+
+            {activeLayer?.locked && (
+              <div className="text-xs text-muted-foreground">
+                Active layer is locked - drawing tools are disabled.
+              </div>
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+/**
+ * ASCII Motion
+ * Local Project Handler
+ *
+ * Keeps the working document safe in the browser's local storage:
+ * - Autosaves the full session to IndexedDB a couple of seconds after each edit
+ * - Drops the autosave once the document matches its last explicit save or load
+ * - Offers to recover unsaved work from the last autosave at startup
+ * - Handles silent saves (Ctrl+S) for projects already saved to the local library
+ *
+ * This component must be rendered inside CanvasProvider to access useExportDataCollector
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { HardDrive, History } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { useCanvasContext } from '../../contexts/CanvasContext';
+import { useExportDataCollector } from '../../utils/exportDataCollector';
+import { buildSessionData } from '../../utils/sessionFormat';
+import type { SessionDocument } from '../../utils/sessionFormat';
+import {
+  clearAutosave,
+  isLocalStorageAvailable,
+  readAutosave,
+  writeAutosave,
+} from '../../utils/localProjectStorage';
+import type { LocalAutosaveRecord } from '../../utils/localProjectStorage';
+import { useLocalProjectActions } from '../../hooks/useLocalProjectActions';
+import { useLocalProjectDialogState } from '../../hooks/useLocalProjectDialogState';
+import { useAnimationStore } from '../../stores/animationStore';
+import { useCanvasStore } from '../../stores/canvasStore';
+import { useEffectsStore } from '../../stores/effectsStore';
+import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
+
+// Delay after the last edit before the working document is written
+const AUTOSAVE_DELAY_MS = 2000;
+
+/**
+ * Whether an autosaved document has any artwork worth recovering
+ */
+const hasRecoverableContent = (sessionData: SessionDocument): boolean =>
+  sessionData.animation.frames.some(frame => (
+    Object.keys(frame.data ?? {}).length > 0
+    || (frame.layers ?? []).some(layer => Object.keys(layer.data).length > 0)
+  ));
+
+export function LocalProjectHandler() {
+  const { setFontSize, setCharacterSpacing, setLineSpacing, setSelectedFontId } = useCanvasContext();
+  const exportData = useExportDataCollector();
+  const { localProjectId, projectName, projectDescription, setLocalProjectId } = useProjectMetadataStore();
+  const { triggerSilentSave, setTriggerSilentSave, setShowSaveLocalDialog } = useLocalProjectDialogState();
+  const { handleSaveLocal, importSessionDocument } = useLocalProjectActions();
+
+  const [recoveryRecord, setRecoveryRecord] = useState<LocalAutosaveRecord | null>(null);
+  const [recovering, setRecovering] = useState(false);
+
+  // Latest state for the debounced writer, so subscriptions don't need to be recreated
+  const exportDataRef = useRef(exportData);
+  exportDataRef.current = exportData;
+  const localProjectIdRef = useRef(localProjectId);
+  localProjectIdRef.current = localProjectId;
+
+  // Autosave stays paused until the startup recovery check has been resolved
+  const autosaveReadyRef = useRef(false);
+  const autosaveTimerRef = useRef<number | null>(null);
+
+  // Serialized document as of the last explicit save or load; matching it means there is nothing to recover.
+  // The baseline is taken once the saved or loaded state has settled (frame sync, Save As renames)
+  const savedSignatureRef = useRef<string | null>(null);
+  const captureSavedSignatureRef = useRef(false);
+
+  const writeWorkingDocument = useCallback(async () => {
+    autosaveTimerRef.current = null;
+    try {
+      const sessionData = buildSessionData(exportDataRef.current, { includeMetadata: false });
+      const signature = JSON.stringify(sessionData);
+      if (captureSavedSignatureRef.current) {
+        captureSavedSignatureRef.current = false;
+        savedSignatureRef.current = signature;
+      }
+
+      if (signature === savedSignatureRef.current) {
+        await clearAutosave();
+        return;
+      }
+      await writeAutosave({
+        savedAt: new Date().toISOString(),
+        localProjectId: localProjectIdRef.current,
+        sessionData,
+      });
+    } catch (error) {
+      console.warn('[LocalProjectHandler] Autosave failed:', error);
+    }
+  }, []);
+
+  // Startup: look for unsaved work from a previous session
+  useEffect(() => {
+    if (!isLocalStorageAvailable()) return;
+
+    let cancelled = false;
+    readAutosave()
+      .then(record => {
+        if (cancelled) return;
+        if (record && hasRecoverableContent(record.sessionData)) {
+          setRecoveryRecord(record);
+        } else {
+          autosaveReadyRef.current = true;
+        }
+      })
+      .catch(error => {
+        console.warn('[LocalProjectHandler] Failed to read autosave:', error);
+        autosaveReadyRef.current = true;
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Schedule an autosave whenever the document changes
+  useEffect(() => {
+    if (!isLocalStorageAvailable()) return;
+
+    const scheduleAutosave = () => {
+      const { isPlaying, isImportingSession } = useAnimationStore.getState();
+      if (!autosaveReadyRef.current || isPlaying || isImportingSession) return;
+
+      if (autosaveTimerRef.current !== null) {
+        window.clearTimeout(autosaveTimerRef.current);
+      }
+      autosaveTimerRef.current = window.setTimeout(writeWorkingDocument, AUTOSAVE_DELAY_MS);
+    };
+
+    // An explicit save or load supersedes the snapshot: drop it now, cancel the pending write,
+    // and record the settled document as the new clean baseline instead
+    const markSaved = () => {
+      captureSavedSignatureRef.current = true;
+      clearAutosave().catch(error => {
+        console.warn('[LocalProjectHandler] Failed to clear autosave:', error);
+      });
+      if (autosaveTimerRef.current !== null) {
+        window.clearTimeout(autosaveTimerRef.current);
+      }
+      autosaveTimerRef.current = window.setTimeout(writeWorkingDocument, AUTOSAVE_DELAY_MS);
+    };
+
+    // Write immediately when the tab is hidden or closed so the last edits aren't lost
+    const flushAutosave = () => {
+      if (autosaveTimerRef.current === null) return;
+      window.clearTimeout(autosaveTimerRef.current);
+      writeWorkingDocument();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flushAutosave();
+      }
+    };
+
+    const unsubscribers = [
+      useAnimationStore.subscribe((state, previous) => {
+        if (state.frames !== previous.frames || state.frameRate !== previous.frameRate || state.looping !== previous.looping) {
+          scheduleAutosave();
+        }
+      }),
+      useCanvasStore.subscribe((state, previous) => {
+        if (
+          state.cells !== previous.cells
+          || state.width !== previous.width
+          || state.height !== previous.height
+          || state.canvasBackgroundColor !== previous.canvasBackgroundColor
+        ) {
+          scheduleAutosave();
+        }
+      }),
+      useEffectsStore.subscribe((state, previous) => {
+        if (state.effectStack !== previous.effectStack) {
+          scheduleAutosave();
+        }
+      }),
+      useProjectMetadataStore.subscribe((state, previous) => {
+        if (state.savedRevision !== previous.savedRevision) {
+          markSaved();
+        } else if (state.projectName !== previous.projectName || state.projectDescription !== previous.projectDescription) {
+          scheduleAutosave();
+        }
+      }),
+    ];
+
+    window.addEventListener('pagehide', flushAutosave);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      window.removeEventListener('pagehide', flushAutosave);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (autosaveTimerRef.current !== null) {
+        window.clearTimeout(autosaveTimerRef.current);
+        autosaveTimerRef.current = null;
+      }
+    };
+  }, [writeWorkingDocument]);
+
+  // Silent save for projects that already exist in the local library
+  useEffect(() => {
+    if (!triggerSilentSave) {
+      return;
+    }
+
+    // Reset the flag immediately to prevent duplicate saves
+    setTriggerSilentSave(false);
+
+    if (!localProjectId) {
+      setShowSaveLocalDialog(true);
+      return;
+    }
+
+    handleSaveLocal(exportData, projectName, projectDescription, false)
+      .then(() => {
+        toast.success('Saved to this browser', {
+          description: projectName,
+          icon: <HardDrive className="h-5 w-5" />,
+        });
+      })
+      .catch(error => {
+        console.error('[LocalProjectHandler] Failed to save project:', error);
+        toast.error('Failed to save project', {
+          description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        });
+      });
+  }, [triggerSilentSave, localProjectId, exportData, projectName, projectDescription, handleSaveLocal, setTriggerSilentSave, setShowSaveLocalDialog]);
+
+  const handleRecover = async () => {
+    if (!recoveryRecord) return;
+
+    setRecovering(true);
+    try {
+      autosaveReadyRef.current = true;
+      await importSessionDocument(recoveryRecord.sessionData, {
+        setFontSize,
+        setCharacterSpacing,
+        setLineSpacing,
+        setSelectedFontId,
+      });
+      setLocalProjectId(recoveryRecord.localProjectId);
+      toast.success('Recovered unsaved work', {
+        description: recoveryRecord.sessionData.name,
+      });
+    } catch (error) {
+      console.error('[LocalProjectHandler] Recovery failed:', error);
+      toast.error('Failed to recover unsaved work', {
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    } finally {
+      setRecovering(false);
+      setRecoveryRecord(null);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setRecoveryRecord(null);
+    autosaveReadyRef.current = true;
+    try {
+      await clearAutosave();
+    } catch (error) {
+      console.warn('[LocalProjectHandler] Failed to clear autosave:', error);
+    }
+  };
+
+  const formatSavedAt = (dateString: string) => {
+    const date = new Date(dateString);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
+  return (
+    <Dialog
+      open={recoveryRecord !== null}
+      onOpenChange={(open) => {
+        // Dismissing keeps the snapshot until new edits replace it
+        if (!open && !recovering) {
+          setRecoveryRecord(null);
+          autosaveReadyRef.current = true;
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-[425px] border-border/50">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Recover unsaved work
+          </DialogTitle>
+          <DialogDescription>
+            {recoveryRecord && (
+              <>
+                &ldquo;{recoveryRecord.sessionData.name}&rdquo; has changes from {formatSavedAt(recoveryRecord.savedAt)} that were never saved.
+                Recover them or start fresh?
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleDiscard} disabled={recovering}>
+            Discard
+          </Button>
+          <Button onClick={handleRecover} disabled={recovering}>
+            Recover
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
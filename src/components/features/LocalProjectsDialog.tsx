@@ -0,0 +1,194 @@
+/**
+ * ASCII Motion
+ * Local Projects Dialog
+ *
+ * Lists projects saved in the browser's local project library (IndexedDB)
+ * and lets the user open or delete them. Used for Open when not signed in to cloud storage.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Loader2, FolderOpen, Trash2, HardDrive } from 'lucide-react';
+import { isLocalStorageAvailable, listLocalProjects } from '../../utils/localProjectStorage';
+import type { LocalProjectSummary } from '../../utils/localProjectStorage';
+import { useLocalProjectActions } from '../../hooks/useLocalProjectActions';
+import { useCanvasContext } from '../../contexts/CanvasContext';
+
+interface LocalProjectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LocalProjectsDialog({ open, onOpenChange }: LocalProjectsDialogProps) {
+  const { setFontSize, setCharacterSpacing, setLineSpacing, setSelectedFontId } = useCanvasContext();
+  const { localProjectId, handleLoadLocal, handleDeleteLocal } = useLocalProjectActions();
+
+  const [projects, setProjects] = useState<LocalProjectSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const loadProjectsList = useCallback(async () => {
+    if (!isLocalStorageAvailable()) {
+      setProjects([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setProjects(await listLocalProjects());
+    } catch (err) {
+      console.error('[LocalProjectsDialog] Failed to list projects:', err);
+      setProjects([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadProjectsList();
+    }
+  }, [open, loadProjectsList]);
+
+  const handleOpenProject = async (project: LocalProjectSummary) => {
+    setOpeningId(project.id);
+    try {
+      await handleLoadLocal(project.id, {
+        setFontSize,
+        setCharacterSpacing,
+        setLineSpacing,
+        setSelectedFontId,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('[LocalProjectsDialog] Load failed:', err);
+      toast.error('Failed to open project', {
+        description: err instanceof Error ? err.message : 'An unexpected error occurred',
+      });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handleDeleteProject = async (project: LocalProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await handleDeleteLocal(project.id);
+      await loadProjectsList();
+    } catch (err) {
+      console.error('[LocalProjectsDialog] Delete failed:', err);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffMins = Math.floor(diffMs / 60000);
+    const diffHours = Math.floor(diffMs / 3600000);
+    const diffDays = Math.floor(diffMs / 86400000);
+
+    if (diffMins < 1) return 'Just now';
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffHours < 24) return `${diffHours}h ago`;
+    if (diffDays < 7) return `${diffDays}d ago`;
+
+    return date.toLocaleDateString();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-hidden flex flex-col border-border/50">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HardDrive className="h-5 w-5" />
+            Open Project
+          </DialogTitle>
+          <DialogDescription>
+            Projects saved in this browser
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !isLocalStorageAvailable() ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              Local project storage isn't available in this browser.
+            </p>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              No saved projects yet. Use Save ({navigator.platform.includes('Mac') ? '⌘S' : 'Ctrl+S'}) to store one in this browser.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {projects.map((project) => (
+                <Card key={project.id} className="relative border-border/50 flex flex-col">
+                  <CardHeader className="flex-1">
+                    <CardTitle className="text-base line-clamp-2">
+                      {project.name}
+                      {project.id === localProjectId && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">(open)</span>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {project.frameCount} frame{project.frameCount !== 1 ? 's' : ''} • {project.width}×{project.height} • {formatDate(project.updatedAt)}
+                    </CardDescription>
+                    {project.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">{project.description}</p>
+                    )}
+                  </CardHeader>
+                  <CardFooter className="gap-2">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleOpenProject(project)}
+                      disabled={openingId !== null}
+                    >
+                      {openingId === project.id ? (
+                        <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                      ) : (
+                        <FolderOpen className="h-4 w-4 mr-1.5" />
+                      )}
+                      Open
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-8 p-0 text-destructive"
+                      onClick={() => handleDeleteProject(project)}
+                      disabled={openingId !== null}
+                      aria-label={`Delete ${project.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </CardFooter>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
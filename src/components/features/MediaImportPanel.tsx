@@ -59,7 +59,8 @@ import {
 } from '../../stores/importStore';
 import { mediaProcessor, SUPPORTED_IMAGE_FORMATS, SUPPORTED_VIDEO_FORMATS } from '../../utils/mediaProcessor';
 import { asciiConverter } from '../../utils/asciiConverter';
-import { cloneFrames } from '../../utils/frameUtils';
+import { snapshotFrames } from '../../utils/frameUtils';
+import { canEditActiveLayer } from '../../utils/layerLock';
 import { useCanvasStore } from '../../stores/canvasStore';
 import { useAnimationStore } from '../../stores/animationStore';
 import { usePreviewStore } from '../../stores/previewStore';
@@ -853,6 +854,13 @@ export function MediaImportPanel() {
   const handleImportToCanvas = useCallback(async () => {
     if (previewFrames.length === 0) return;
     
+    // Overwriting a sequence replaces every frame from the current one; other imports touch the current frame
+    const targetIndices = previewFrames.length > 1 && importMode === 'overwrite'
+      ? previewFrames.map((_, index) => currentFrameIndex + index)
+        .filter(index => index < useAnimationStore.getState().frames.length)
+      : undefined;
+    if (!canEditActiveLayer(targetIndices)) return;
+    
     // End preview mode before importing (restores original canvas data)
     endPreview();
     
@@ -903,7 +911,7 @@ export function MediaImportPanel() {
       } else {
         // Multiple frames - use import mode
         // Save current state for undo
-        const previousFrames = cloneFrames(frames);
+        const previousFrames = snapshotFrames(frames);
         const previousCurrentFrame = currentFrameIndex;
         
         // Convert all frames first
@@ -944,7 +952,7 @@ export function MediaImportPanel() {
         }
         
         // Get new frames state after import
-        const newFrames = cloneFrames(useAnimationStore.getState().frames);
+        const newFrames = snapshotFrames(useAnimationStore.getState().frames);
         const newCurrentFrame = useAnimationStore.getState().currentFrameIndex;
         
         // Record history
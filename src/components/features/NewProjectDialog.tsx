@@ -16,7 +16,9 @@ import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
 import { useCanvasStore } from '../../stores/canvasStore';
 import { useAnimationStore } from '../../stores/animationStore';
 import { useToolStore } from '../../stores/toolStore';
+import { useEffectsStore } from '../../stores/effectsStore';
 import { useCloudProjectActions } from '../../hooks/useCloudProjectActions';
+import { CANVAS_SIZE_LIMITS } from '../../constants';
 
 /**
  * New Project Dialog
@@ -29,10 +31,11 @@ import { useCloudProjectActions } from '../../hooks/useCloudProjectActions';
  */
 export function NewProjectDialog() {
   const { showNewProjectDialog, setShowNewProjectDialog } = useProjectDialogState();
-  const { setProjectName, setProjectDescription } = useProjectMetadataStore();
+  const { setProjectName, setProjectDescription, setLocalProjectId } = useProjectMetadataStore();
   const { setCanvasSize, clearCanvas } = useCanvasStore();
   const { resetAnimation } = useAnimationStore();
   const { clearHistory } = useToolStore();
+  const setEffectStack = useEffectsStore(state => state.setEffectStack);
   const { clearCurrentProject } = useCloudProjectActions();
   
   const [name, setName] = useState('Untitled Project');
@@ -60,8 +63,9 @@ export function NewProjectDialog() {
     setProjectName(name.trim());
     setProjectDescription(description.trim());
     
-    // Clear cloud project tracking (this is a new project)
+    // Clear cloud and local project tracking (this is a new project)
     clearCurrentProject();
+    setLocalProjectId(null);
     
     // Initialize canvas
     setCanvasSize(width, height);
@@ -70,6 +74,9 @@ export function NewProjectDialog() {
     // Reset animation to single frame
     resetAnimation();
     
+    // Drop effect layers from the previous project
+    setEffectStack([]);
+    
     // Clear undo/redo history
     clearHistory();
     
@@ -82,11 +89,11 @@ export function NewProjectDialog() {
   };
 
   const handleWidthChange = (value: number) => {
-    setWidth(Math.max(4, Math.min(200, value)));
+    setWidth(Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, value)));
   };
 
   const handleHeightChange = (value: number) => {
-    setHeight(Math.max(4, Math.min(100, value)));
+    setHeight(Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, value)));
   };
 
   return (
@@ -140,7 +147,7 @@ export function NewProjectDialog() {
                     id="canvas-width"
                     type="number"
                     min="4"
-                    max="200"
+                    max={CANVAS_SIZE_LIMITS.maxWidth}
                     value={width}
                     onChange={(e) => handleWidthChange(parseInt(e.target.value) || 4)}
                     className="text-center"
@@ -179,7 +186,7 @@ export function NewProjectDialog() {
                     id="canvas-height"
                     type="number"
                     min="4"
-                    max="100"
+                    max={CANVAS_SIZE_LIMITS.maxHeight}
                     value={height}
                     onChange={(e) => handleHeightChange(parseInt(e.target.value) || 4)}
                     className="text-center"
@@ -15,6 +15,7 @@ import { Settings } from 'lucide-react';
 import { useProjectDialogState } from '../../hooks/useProjectDialogState';
 import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
 import { useCanvasStore } from '../../stores/canvasStore';
+import { CANVAS_SIZE_LIMITS } from '../../constants';
 
 /**
  * Project Settings Dialog
@@ -97,11 +98,11 @@ export function ProjectSettingsDialog() {
   };
 
   const handleWidthChange = (value: number) => {
-    setWidth(Math.max(4, Math.min(200, value)));
+    setWidth(Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, value)));
   };
 
   const handleHeightChange = (value: number) => {
-    setHeight(Math.max(4, Math.min(100, value)));
+    setHeight(Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, value)));
   };
 
   const sizeChanged = width !== canvasWidth || height !== canvasHeight;
@@ -180,7 +181,7 @@ export function ProjectSettingsDialog() {
                     id="settings-canvas-width"
                     type="number"
                     min="4"
-                    max="200"
+                    max={CANVAS_SIZE_LIMITS.maxWidth}
                     value={width}
                     onChange={(e) => handleWidthChange(parseInt(e.target.value) || 4)}
                     className="text-center"
@@ -219,7 +220,7 @@ export function ProjectSettingsDialog() {
                     id="settings-canvas-height"
                     type="number"
                     min="4"
-                    max="100"
+                    max={CANVAS_SIZE_LIMITS.maxHeight}
                     value={height}
                     onChange={(e) => handleHeightChange(parseInt(e.target.value) || 4)}
                     className="text-center"
@@ -247,6 +247,21 @@ export const ReactExportDialog: React.FC = () => {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="react-player-package">Use @ascii-motion/player</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Render through the player package instead of inlining the playback code (requires <code>npm install @ascii-motion/player</code>).
+                    </p>
+                  </div>
+                  <Switch
+                    id="react-player-package"
+                    checked={reactSettings.playerSource === 'package'}
+                    onCheckedChange={(checked) => setReactSettings({ playerSource: checked ? 'package' : 'inline' })}
+                    disabled={isExporting}
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
                     <Label htmlFor="react-background">Include canvas background</Label>
@@ -297,6 +312,9 @@ export const ReactExportDialog: React.FC = () => {
                 <div className="flex items-start gap-2 text-xs text-muted-foreground">
                   <Info className="h-4 w-4 mt-0.5" />
                   <ul className="space-y-1">
+                    {reactSettings.playerSource === 'package' && (
+                      <li>Install the player first: <code>npm install @ascii-motion/player</code></li>
+                    )}
                     <li>1. Download the generated <code>{`${sanitizedFileName || 'your-component'}.${fileExtension}`}</code> file.</li>
                     <li>2. Move it into your React project (e.g. <code>src/components</code>).</li>
                     <li>3. Import and use the component as shown above.</li>
@@ -323,6 +341,12 @@ export const ReactExportDialog: React.FC = () => {
                   <div>Canvas Size: <span className="font-medium text-foreground">{canvasWidth} × {canvasHeight}</span> cells</div>
                   <div>Total Duration: <span className="font-medium text-foreground">{formatDuration(totalDurationMs)}</span></div>
                   <div>Background: <span className="font-medium text-foreground">{reactSettings.includeBackground ? 'Included' : 'Transparent'}</span></div>
+                  <div>
+                    Player:{' '}
+                    <span className="font-medium text-foreground">
+                      {reactSettings.playerSource === 'package' ? '@ascii-motion/player' : 'Inlined in component'}
+                    </span>
+                  </div>
                   <div>
                     Controls:{' '}
                     <span className="font-medium text-foreground">
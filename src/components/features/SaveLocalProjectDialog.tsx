@@ -0,0 +1,185 @@
+/**
+ * ASCII Motion
+ * Save Local Project Dialog
+ *
+ * Saves the project to the browser's local project library (IndexedDB).
+ * Used for Save / Save As when not signed in to cloud storage.
+ */
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { useExportDataCollector } from '../../utils/exportDataCollector';
+import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
+import { useLocalProjectActions } from '../../hooks/useLocalProjectActions';
+import { useLocalProjectDialogState } from '../../hooks/useLocalProjectDialogState';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Loader2, HardDrive, Save } from 'lucide-react';
+
+interface SaveLocalProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export function SaveLocalProjectDialog({ open, onOpenChange }: SaveLocalProjectDialogProps) {
+  const exportData = useExportDataCollector();
+  const { handleSaveLocal } = useLocalProjectActions();
+  const {
+    projectName: storedProjectName,
+    projectDescription: storedProjectDescription,
+    setProjectName: setStoredProjectName,
+    setProjectDescription: setStoredProjectDescription
+  } = useProjectMetadataStore();
+  const { saveAsMode, setSaveAsMode } = useLocalProjectDialogState();
+
+  const [projectName, setProjectName] = useState(storedProjectName);
+  const [description, setDescription] = useState(storedProjectDescription);
+  const [saving, setSaving] = useState(false);
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  // Sync with projectMetadataStore when dialog opens
+  useEffect(() => {
+    if (open) {
+      setProjectName(storedProjectName);
+      setDescription(storedProjectDescription);
+    } else {
+      // Reset saveAsMode when dialog closes
+      setSaveAsMode(false);
+      setNameError(null);
+    }
+  }, [open, storedProjectName, storedProjectDescription, setSaveAsMode]);
+
+  const handleSave = async () => {
+    const trimmedName = projectName.trim();
+    const trimmedDescription = description.trim();
+
+    if (!trimmedName) {
+      setNameError('Project name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Store the name first so the saved session carries it
+      setStoredProjectName(trimmedName);
+      setStoredProjectDescription(trimmedDescription);
+
+      await handleSaveLocal(
+        {
+          ...exportData,
+          name: trimmedName,
+          description: trimmedDescription,
+          metadata: { ...exportData.metadata, projectName: trimmedName, projectDescription: trimmedDescription }
+        },
+        trimmedName,
+        trimmedDescription,
+        saveAsMode // Save As always creates a new local project
+      );
+
+      toast.success('Saved to this browser', {
+        description: trimmedName,
+        icon: <HardDrive className="h-5 w-5" />,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('[SaveLocalProjectDialog] Save failed:', err);
+      toast.error('Failed to save project', {
+        description: err instanceof Error ? err.message : 'An unexpected error occurred',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px] border-border/50">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HardDrive className="h-5 w-5" />
+            {saveAsMode ? 'Save As...' : 'Save Project'}
+          </DialogTitle>
+          <DialogDescription>
+            Projects are stored in this browser and work offline. Export a session file to move them to another device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="local-project-name">
+              Project Name
+              <span className="text-xs text-muted-foreground ml-2">
+                ({projectName.length}/{MAX_NAME_LENGTH})
+              </span>
+            </Label>
+            <Input
+              id="local-project-name"
+              value={projectName}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => {
+                setProjectName(e.target.value);
+                setNameError(null); // Clear error on change
+              }}
+              placeholder="My Animation"
+              disabled={saving}
+              className={nameError ? 'border-destructive' : ''}
+            />
+            {nameError && (
+              <p className="text-sm text-destructive">{nameError}</p>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="local-project-description">
+              Description (Optional)
+              <span className="text-xs text-muted-foreground ml-2">
+                ({description.length}/{MAX_DESCRIPTION_LENGTH})
+              </span>
+            </Label>
+            <Textarea
+              id="local-project-description"
+              value={description}
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="A brief description of your project..."
+              rows={3}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-1.5" />
+                Save
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * SelectionMaskControls - Selection scope for effects, time effects and generators
+ *
+ * Renders only while a rectangle, lasso or magic wand selection is active and
+ * offers invert and feather options for the mask.
+ */
+
+import { Label } from '../ui/label';
+import { Slider } from '../ui/slider';
+import { Switch } from '../ui/switch';
+import { SquareDashed } from 'lucide-react';
+import { useToolStore } from '../../stores/toolStore';
+import { getActiveSelectionCells, MAX_SELECTION_FEATHER } from '../../utils/selectionMask';
+import type { SelectionMaskSettings } from '../../types';
+
+interface SelectionMaskControlsProps {
+  onMaskChange?: () => void; // Refresh the live preview after a mask setting changes
+}
+
+export function SelectionMaskControls({ onMaskChange }: SelectionMaskControlsProps) {
+  const selection = useToolStore(state => state.selection);
+  const lassoSelection = useToolStore(state => state.lassoSelection);
+  const magicWandSelection = useToolStore(state => state.magicWandSelection);
+  const selectionMaskSettings = useToolStore(state => state.selectionMaskSettings);
+  const setSelectionMaskSettings = useToolStore(state => state.setSelectionMaskSettings);
+
+  const selectedCells = getActiveSelectionCells({
+    selection,
+    lassoSelection,
+    magicWandSelection,
+    selectionMaskSettings
+  });
+
+  if (!selectedCells) return null;
+
+  const handleChange = (settings: Partial<SelectionMaskSettings>) => {
+    setSelectionMaskSettings(settings);
+    onMaskChange?.();
+  };
+
+  return (
+    <div className="space-y-2 rounded border border-border/50 bg-muted/30 p-2">
+      <div className="flex items-center gap-2 text-xs">
+        <SquareDashed className="w-3 h-3 text-primary" />
+        <span>
+          {selectionMaskSettings.invert ? 'Outside selection' : 'Selection only'}
+          <span className="text-muted-foreground"> ({selectedCells.size} cells selected)</span>
+        </span>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs cursor-pointer">
+        <Switch
+          checked={selectionMaskSettings.invert}
+          onCheckedChange={(checked: boolean) => handleChange({ invert: checked })}
+        />
+        <span>Invert selection</span>
+      </label>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="selection-mask-feather" className="text-xs">Feather</Label>
+          <span className="text-xs text-muted-foreground">
+            {selectionMaskSettings.feather === 0 ? 'Hard edge' : `${selectionMaskSettings.feather} cells`}
+          </span>
+        </div>
+        <Slider
+          id="selection-mask-feather"
+          min={0}
+          max={MAX_SELECTION_FEATHER}
+          step={1}
+          value={selectionMaskSettings.feather}
+          onValueChange={(value) => handleChange({ feather: value })}
+          className="w-full"
+        />
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ export const SessionExportDialog: React.FC = () => {
   
   const exportData = useExportDataCollector();
   const projectName = useProjectMetadataStore((state) => state.projectName);
+  const markDocumentSaved = useProjectMetadataStore((state) => state.markDocumentSaved);
 
   const [filename, setFilename] = useState(projectName || 'ascii-motion-project');
 
@@ -61,6 +62,7 @@ export const SessionExportDialog: React.FC = () => {
       // Export data already contains project metadata from projectMetadataStore
       // No need to manually inject name/description
       await renderer.exportSession(exportData, sessionSettings, filename);
+      markDocumentSaved();
       
       // Close dialog on success
       handleClose();
@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Checkbox } from '../ui/checkbox';
+import { Progress } from '../ui/progress';
+import { Card, CardContent } from '../ui/card';
+import { LayoutGrid, Loader2, Play, Settings } from 'lucide-react';
+import { useExportStore } from '../../stores/exportStore';
+import { useExportDataCollector } from '../../utils/exportDataCollector';
+import { useProjectMetadataStore } from '../../stores/projectMetadataStore';
+import { ExportRenderer } from '../../utils/exportRenderer';
+import type { SpriteSheetExportSettings } from '../../types/export';
+
+const MAX_PADDING = 32;
+
+/**
+ * Sprite Sheet Export Dialog
+ * Packs every frame into one PNG atlas with a JSON sidecar for game engines
+ */
+export const SpriteSheetExportDialog: React.FC = () => {
+  const showExportModal = useExportStore(state => state.showExportModal);
+  const activeFormat = useExportStore(state => state.activeFormat);
+  const setShowExportModal = useExportStore(state => state.setShowExportModal);
+  const spriteSheetSettings = useExportStore(state => state.spriteSheetSettings);
+  const setSpriteSheetSettings = useExportStore(state => state.setSpriteSheetSettings);
+  const progress = useExportStore(state => state.progress);
+  const setProgress = useExportStore(state => state.setProgress);
+  const isExporting = useExportStore(state => state.isExporting);
+  const setIsExporting = useExportStore(state => state.setIsExporting);
+
+  const exportData = useExportDataCollector();
+  const projectName = useProjectMetadataStore((state) => state.projectName);
+
+  const [filename, setFilename] = useState(projectName || 'ascii-motion-spritesheet');
+
+  const isOpen = showExportModal && activeFormat === 'spritesheet';
+
+  // Sync filename with project name when dialog opens
+  useEffect(() => {
+    if (isOpen && projectName) {
+      setFilename(projectName);
+    }
+  }, [isOpen, projectName]);
+
+  const handleClose = () => {
+    setShowExportModal(false);
+  };
+
+  const handleExport = async () => {
+    if (!exportData) {
+      alert('No export data available. Please make sure you have an animation to export.');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+
+      // Create renderer with progress callback
+      const renderer = new ExportRenderer((progress) => {
+        setProgress(progress);
+      });
+
+      // Perform the export
+      await renderer.exportSpriteSheet(exportData, spriteSheetSettings, filename);
+
+      // Close dialog on success
+      handleClose();
+    } catch (error) {
+      console.error('Sprite sheet export failed:', error);
+      alert(`Sprite sheet export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleSettingChange = <K extends keyof SpriteSheetExportSettings>(
+    key: K,
+    value: SpriteSheetExportSettings[K]
+  ) => {
+    setSpriteSheetSettings({ [key]: value });
+  };
+
+  const frameCount = exportData?.frames.length || 0;
+  const columns = spriteSheetSettings.columns > 0
+    ? Math.min(spriteSheetSettings.columns, Math.max(frameCount, 1))
+    : Math.max(Math.ceil(Math.sqrt(frameCount)), 1);
+  const rows = Math.max(Math.ceil(frameCount / columns), 1);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setShowExportModal}>
+      <DialogContent className="max-w-xl p-0 overflow-hidden border-border/50" aria-describedby={undefined}>
+        <DialogHeader className="px-6 pt-6 pb-4 border-b border-border/50 bg-background">
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutGrid className="w-5 h-5" />
+            Export Sprite Sheet
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col max-h-[80vh]">
+          {/* Sticky File Name Input */}
+          <div className="sticky top-0 z-10 bg-background px-6 py-4 border-b border-border/50 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="filename">File Name</Label>
+              <div className="flex">
+                <Input
+                  id="filename"
+                  value={filename}
+                  onChange={(e) => setFilename(e.target.value)}
+                  placeholder="Enter filename"
+                  className="flex-1"
+                  disabled={isExporting}
+                />
+                <Badge variant="outline" className="ml-2 self-center">
+                  .png + .json
+                </Badge>
+              </div>
+            </div>
+
+            {progress && (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">{progress.message}</span>
+                  <span className="text-sm text-muted-foreground">{Math.round(progress.progress)}%</span>
+                </div>
+                <Progress value={progress.progress} />
+              </div>
+            )}
+          </div>
+
+          {/* Scrollable Settings */}
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Settings className="w-4 h-4" />
+                <Label className="text-sm font-medium">Sprite Sheet Settings</Label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="spriteSheetLayout">Layout</Label>
+                  <Select
+                    value={spriteSheetSettings.layout}
+                    onValueChange={(value) => handleSettingChange('layout', value as SpriteSheetExportSettings['layout'])}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="spriteSheetLayout">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="grid">Grid (equal cells)</SelectItem>
+                      <SelectItem value="packed">Packed (trimmed frames)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="spriteSheetMetadata">JSON Format</Label>
+                  <Select
+                    value={spriteSheetSettings.metadataFormat}
+                    onValueChange={(value) => handleSettingChange('metadataFormat', value as SpriteSheetExportSettings['metadataFormat'])}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="spriteSheetMetadata">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hash">Hash (frames by name)</SelectItem>
+                      <SelectItem value="array">Array (frames in order)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="spriteSheetColumns">Columns (0 = auto)</Label>
+                  <Input
+                    id="spriteSheetColumns"
+                    type="number"
+                    min="0"
+                    max={Math.max(frameCount, 1)}
+                    value={spriteSheetSettings.columns}
+                    onChange={(e) => handleSettingChange('columns', Math.max(0, parseInt(e.target.value) || 0))}
+                    disabled={isExporting}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="spriteSheetPadding">Padding (px)</Label>
+                  <Input
+                    id="spriteSheetPadding"
+                    type="number"
+                    min="0"
+                    max={MAX_PADDING}
+                    value={spriteSheetSettings.padding}
+                    onChange={(e) => handleSettingChange('padding', Math.min(MAX_PADDING, Math.max(0, parseInt(e.target.value) || 0)))}
+                    disabled={isExporting}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="spriteSheetSizeMultiplier">Resolution</Label>
+                  <Select
+                    value={spriteSheetSettings.sizeMultiplier.toString()}
+                    onValueChange={(value) => handleSettingChange('sizeMultiplier', parseInt(value) as SpriteSheetExportSettings['sizeMultiplier'])}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="spriteSheetSizeMultiplier">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1x (Standard)</SelectItem>
+                      <SelectItem value="2">2x (Large)</SelectItem>
+                      <SelectItem value="3">3x (Larger)</SelectItem>
+                      <SelectItem value="4">4x (Extra Large)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="spriteSheetIncludeBackground"
+                    checked={spriteSheetSettings.includeBackground}
+                    onCheckedChange={(checked: boolean) => handleSettingChange('includeBackground', checked)}
+                    disabled={isExporting}
+                  />
+                  <Label htmlFor="spriteSheetIncludeBackground" className="text-sm">
+                    Include canvas background (transparent when off)
+                  </Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="spriteSheetIncludeGrid"
+                    checked={spriteSheetSettings.includeGrid}
+                    onCheckedChange={(checked: boolean) => handleSettingChange('includeGrid', checked)}
+                    disabled={isExporting}
+                  />
+                  <Label htmlFor="spriteSheetIncludeGrid" className="text-sm">
+                    Include grid lines
+                  </Label>
+                </div>
+              </div>
+            </div>
+
+            {/* Sprite Sheet Preview Info */}
+            <Card className="bg-muted/50 border-border/50">
+              <CardContent className="pt-4">
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Frames:</span>
+                    <span>{frameCount}</span>
+                  </div>
+                  {spriteSheetSettings.layout === 'grid' && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Grid:</span>
+                      <span>{columns} × {rows}</span>
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground mt-2">
+                    The JSON sidecar follows Aseprite's format: frame rectangles, trim offsets, durations and frame names.
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sticky Action Buttons */}
+          <div className="sticky bottom-0 z-10 bg-background px-6 py-4 border-t border-border/50 flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              disabled={isExporting}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || !exportData || !filename.trim()}
+              className="gap-2"
+            >
+              {isExporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Exporting...
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  Export Sprite Sheet
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,176 @@
+/**
+ * SymmetryControls Component
+ *
+ * Symmetry mode toggle, axis selection, radial segment count and center placement
+ * for the painting tools. Shown in Tool Options next to the brush controls.
+ */
+
+import React, { useMemo } from 'react';
+import { useSymmetryStore } from '../../stores/symmetryStore';
+import { useCanvasStore } from '../../stores/canvasStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { FlipHorizontal2, FlipVertical2, Crosshair, RotateCcw, Asterisk, Plus } from 'lucide-react';
+import { getSymmetryCenter, MAX_RADIAL_SEGMENTS, MIN_RADIAL_SEGMENTS } from '../../utils/symmetryUtils';
+import type { SymmetryMode } from '../../types';
+
+interface SymmetryControlsProps {
+  className?: string;
+}
+
+export const SymmetryControls: React.FC<SymmetryControlsProps> = ({ className = '' }) => {
+  const enabled = useSymmetryStore((state) => state.enabled);
+  const mode = useSymmetryStore((state) => state.mode);
+  const radialSegments = useSymmetryStore((state) => state.radialSegments);
+  const center = useSymmetryStore((state) => state.center);
+  const isPlacingCenter = useSymmetryStore((state) => state.isPlacingCenter);
+  const setEnabled = useSymmetryStore((state) => state.setEnabled);
+  const setMode = useSymmetryStore((state) => state.setMode);
+  const setRadialSegments = useSymmetryStore((state) => state.setRadialSegments);
+  const setCenter = useSymmetryStore((state) => state.setCenter);
+  const setPlacingCenter = useSymmetryStore((state) => state.setPlacingCenter);
+  const width = useCanvasStore((state) => state.width);
+  const height = useCanvasStore((state) => state.height);
+
+  const resolvedCenter = getSymmetryCenter({ enabled, mode, radialSegments, center }, width, height);
+
+  const modes = useMemo<Array<{
+    id: SymmetryMode;
+    icon: React.ReactNode;
+    description: string;
+  }>>(() => ([
+    { id: 'vertical', icon: <FlipHorizontal2 className="h-3 w-3" />, description: 'Mirror left/right (vertical axis)' },
+    { id: 'horizontal', icon: <FlipVertical2 className="h-3 w-3" />, description: 'Mirror top/bottom (horizontal axis)' },
+    { id: 'both', icon: <Plus className="h-3 w-3" />, description: 'Mirror across both axes' },
+    { id: 'radial', icon: <Asterisk className="h-3 w-3" />, description: 'Radial copies around the center' },
+  ]), []);
+
+  const handleCenterChange = (axis: 'x' | 'y', value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    const max = axis === 'x' ? width - 1 : height - 1;
+    setCenter({ ...resolvedCenter, [axis]: Math.max(0, Math.min(max, parsed)) });
+  };
+
+  return (
+    <TooltipProvider>
+      <div className={`space-y-2 ${className}`}>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="symmetry-enabled" className="text-xs cursor-pointer">
+            Symmetry
+          </Label>
+          <Switch
+            id="symmetry-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+          />
+        </div>
+
+        {enabled && (
+          <>
+            <div className="grid grid-cols-4 gap-1">
+              {modes.map((option) => (
+                <Tooltip key={option.id}>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={mode === option.id ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-8 w-full p-0"
+                      onClick={() => setMode(option.id)}
+                      aria-label={option.description}
+                      aria-pressed={mode === option.id}
+                    >
+                      {option.icon}
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{option.description}</p>
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+
+            {mode === 'radial' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs text-muted-foreground">Segments:</div>
+                  <div className="text-xs font-mono text-muted-foreground">{radialSegments}</div>
+                </div>
+                <Slider
+                  value={radialSegments}
+                  onValueChange={setRadialSegments}
+                  min={MIN_RADIAL_SEGMENTS}
+                  max={MAX_RADIAL_SEGMENTS}
+                  step={1}
+                  className="w-full h-2"
+                />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Center:</div>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  step={0.5}
+                  min={0}
+                  max={width - 1}
+                  value={resolvedCenter.x}
+                  onChange={(e) => handleCenterChange('x', e.target.value)}
+                  className="h-6 px-1 text-xs"
+                  aria-label="Symmetry center X"
+                />
+                <Input
+                  type="number"
+                  step={0.5}
+                  min={0}
+                  max={height - 1}
+                  value={resolvedCenter.y}
+                  onChange={(e) => handleCenterChange('y', e.target.value)}
+                  className="h-6 px-1 text-xs"
+                  aria-label="Symmetry center Y"
+                />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={isPlacingCenter ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-6 w-6 p-0 shrink-0"
+                      onClick={() => setPlacingCenter(!isPlacingCenter)}
+                      aria-pressed={isPlacingCenter}
+                    >
+                      <Crosshair className="h-3 w-3" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Click the canvas to place the center</p>
+                  </TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 w-6 p-0 shrink-0"
+                      onClick={() => setCenter(null)}
+                      disabled={center === null}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Reset to canvas center</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+};
@@ -14,6 +14,7 @@ import { CollapsibleHeader } from '../common/CollapsibleHeader';
 import { PanelSeparator } from '../common/PanelSeparator';
 import { GradientIcon } from '../icons';
 import { BrushControls } from './BrushControls';
+import { SymmetryControls } from './SymmetryControls';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AUTOFILL_PALETTES } from '../../constants/bezierAutofill';
 import type { BezierCloseShapeHistoryAction } from '../../types';
@@ -31,6 +32,9 @@ import {
   Wrench,
   MoveHorizontal,
   MoveVertical,
+  RotateCcw,
+  RotateCw,
+  RefreshCw,
   TypeOutline,
   Grid2x2,
   Brush,
@@ -40,7 +44,9 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import type { Tool } from '../../types';
-import { getToolTooltipText } from '../../constants/hotkeys';
+import { useKeymapStore } from '../../stores/keymapStore';
+import { formatShortcutTooltip } from '../../utils/keymap';
+import { SYMMETRY_TOOLS } from '../../utils/symmetryUtils';
 
 interface ToolPaletteProps {
   className?: string;
@@ -90,6 +96,9 @@ const UTILITY_TOOLS: Array<{ id: Tool; name: string; icon: React.ReactNode; desc
   { id: 'eyedropper', name: 'Eyedropper', icon: <Pipette className="w-3 h-3" />, description: 'Pick character/color' },
   { id: 'fliphorizontal', name: 'Flip H', icon: <MoveHorizontal className="w-3 h-3" />, description: 'Flip horizontally (Shift+H)' },
   { id: 'flipvertical', name: 'Flip V', icon: <MoveVertical className="w-3 h-3" />, description: 'Flip vertically (Shift+V)' },
+  { id: 'rotatecounterclockwise', name: 'Rotate Left', icon: <RotateCcw className="w-3 h-3" />, description: 'Rotate 90° counter-clockwise (Shift+E)' },
+  { id: 'rotateclockwise', name: 'Rotate Right', icon: <RotateCw className="w-3 h-3" />, description: 'Rotate 90° clockwise (Shift+R)' },
+  { id: 'rotate180', name: 'Rotate 180', icon: <RefreshCw className="w-3 h-3" />, description: 'Rotate 180°' },
 ];
 
 export const ToolPalette: React.FC<ToolPaletteProps> = ({ className = '' }) => {
@@ -97,8 +106,9 @@ export const ToolPalette: React.FC<ToolPaletteProps> = ({ className = '' }) => {
   const { contiguous, matchChar, matchColor, matchBgColor, setContiguous, setMatchCriteria } = useGradientStore();
   const { fillMode, autofillPaletteId, setFillMode, setAutofillPaletteId, fillColorMode, setFillColorMode, strokeWidth, strokeTaperStart, strokeTaperEnd, setStrokeWidth, setStrokeTaperStart, setStrokeTaperEnd, isClosed, toggleClosedShape } = useBezierStore();
   const { currentFrameIndex } = useAnimationStore();
+  const keymapBindings = useKeymapStore((state) => state.bindings);
   const { altKeyDown, ctrlKeyDown } = useCanvasContext();
-  const { flipHorizontal, flipVertical } = useFlipUtilities();
+  const { flipHorizontal, flipVertical, rotate } = useFlipUtilities();
   const { canCrop, cropToSelection } = useCropToSelection();
   const [showOptions, setShowOptions] = React.useState(true);
   const [showTools, setShowTools] = React.useState(true);
@@ -114,7 +124,7 @@ export const ToolPalette: React.FC<ToolPaletteProps> = ({ className = '' }) => {
   }
 
   // Tools that actually have configurable options. (Removed 'eraser' and 'text' per layout bug fix.)
-  const hasOptions = ['rectangle', 'ellipse', 'paintbucket', 'gradientfill', 'magicwand', 'pencil', 'eraser', 'eyedropper', 'beziershape', 'select', 'lasso'].includes(effectiveTool);
+  const hasOptions = ['rectangle', 'ellipse', 'paintbucket', 'gradientfill', 'magicwand', 'pencil', 'eraser', 'eyedropper', 'beziershape', 'select', 'lasso', 'asciibox'].includes(effectiveTool);
 
   // Get the current tool's icon
   const getCurrentToolIcon = () => {
@@ -124,7 +134,7 @@ export const ToolPalette: React.FC<ToolPaletteProps> = ({ className = '' }) => {
   };
 
   const handleToolClick = (tool: { id: Tool; name: string; icon: React.ReactNode; description: string }) => {
-    // Handle flip utilities as immediate actions
+    // Handle flip and rotate utilities as immediate actions
     if (tool.id === 'fliphorizontal') {
       flipHorizontal();
       return;
@@ -133,6 +143,18 @@ export const ToolPalette: React.FC<ToolPaletteProps> = ({ className = '' }) => {
       flipVertical();
       return;
     }
+    if (tool.id === 'rotateclockwise') {
+      rotate(90);
+      return;
+    }
+    if (tool.id === 'rotatecounterclockwise') {
+      rotate(270);
+      return;
+    }
+    if (tool.id === 'rotate180') {
+      rotate(180);
+      return;
+    }
     
     // Default tool switching behavior
     setActiveTool(tool.id);
@@ -177,7 +199,7 @@ export const ToolPalette: React.FC<ToolPaletteProps> = ({ className = '' }) => {
           </Button>
         </TooltipTrigger>
         <TooltipContent side="right">
-          <p className="text-xs">{getToolTooltipText(tool.id, tool.name)}</p>
+          <p className="text-xs">{formatShortcutTooltip(tool.name, keymapBindings[`tool.${tool.id}`])}</p>
         </TooltipContent>
       </Tooltip>
     );
@@ -743,6 +765,13 @@ export const ToolPalette: React.FC<ToolPaletteProps> = ({ className = '' }) => {
                     </div>
                   )}
                   
+                  {/* Symmetry controls for painting tools */}
+                  {SYMMETRY_TOOLS.includes(effectiveTool) && (
+                    <div className="mt-2">
+                      <SymmetryControls />
+                    </div>
+                  )}
+                  
                   {/* Eyedropper behavior toggles */}
                   {effectiveTool === 'eyedropper' && (
                     <>
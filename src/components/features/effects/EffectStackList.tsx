@@ -0,0 +1,113 @@
+/**
+ * EffectStackList - Non-destructive effect stack controls
+ *
+ * Features:
+ * - Lists stack entries in evaluation order (first entry applies first)
+ * - Toggle, edit, reorder and remove entries
+ * - Frame data is never modified; entries are applied at render and export time
+ */
+
+import { Button } from '../../ui/button';
+import { useEffectsStore } from '../../../stores/effectsStore';
+import { useAnimationStore } from '../../../stores/animationStore';
+import { describeEffectStackEntry } from '../../../utils/effectStack';
+import {
+  Eye,
+  EyeOff,
+  Pencil,
+  Trash2,
+  ChevronUp,
+  ChevronDown
+} from 'lucide-react';
+
+export function EffectStackList() {
+  const effectStack = useEffectsStore(state => state.effectStack);
+  const frames = useAnimationStore(state => state.frames);
+  const editingStackEntryId = useEffectsStore(state => state.editingStackEntryId);
+  const editEffectStackEntry = useEffectsStore(state => state.editEffectStackEntry);
+  const updateEffectStackEntry = useEffectsStore(state => state.updateEffectStackEntry);
+  const removeEffectStackEntry = useEffectsStore(state => state.removeEffectStackEntry);
+  const moveEffectStackEntry = useEffectsStore(state => state.moveEffectStackEntry);
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium">Effect Stack</div>
+
+      {effectStack.length === 0 ? (
+        <div className="text-xs text-muted-foreground">
+          Use "Add to Stack" in an effect panel to apply it without changing your artwork.
+        </div>
+      ) : (
+        effectStack.map((entry, index) => {
+          const label = describeEffectStackEntry(entry, frames);
+          const isEditing = entry.id === editingStackEntryId;
+
+          return (
+            <div
+              key={entry.id}
+              className={`flex items-center gap-1 rounded border px-1 h-7 text-xs ${
+                isEditing ? 'border-primary bg-primary/10' : 'border-border/50'
+              }`}
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                title={entry.enabled ? 'Disable effect' : 'Enable effect'}
+                onClick={() => updateEffectStackEntry(entry.id, { enabled: !entry.enabled })}
+              >
+                {entry.enabled ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+              </Button>
+
+              <span
+                className={`flex-1 truncate ${entry.enabled ? '' : 'text-muted-foreground line-through'}`}
+                title={label}
+              >
+                {label}
+              </span>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                title="Edit effect settings"
+                onClick={() => editEffectStackEntry(entry.id)}
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                title="Apply earlier"
+                disabled={index <= 0}
+                onClick={() => moveEffectStackEntry(entry.id, index - 1)}
+              >
+                <ChevronUp className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                title="Apply later"
+                disabled={index >= effectStack.length - 1}
+                onClick={() => moveEffectStackEntry(entry.id, index + 1)}
+              >
+                <ChevronDown className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                title="Remove effect"
+                onClick={() => removeEffectStackEntry(entry.id)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+/**
+ * CellularAutomataSettings - Complete settings UI for Cellular Automata generator
+ */
+
+import { useEffect, useState } from 'react';
+import { Label } from '../../ui/label';
+import { Input } from '../../ui/input';
+import { Button } from '../../ui/button';
+import { Slider } from '../../ui/slider';
+import { Checkbox } from '../../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Dice5, RotateCcw } from 'lucide-react';
+import { useGeneratorsStore } from '../../../stores/generatorsStore';
+import {
+  DEFAULT_CELLULAR_AUTOMATA_SETTINGS,
+  ELEMENTARY_RULE_PRESETS,
+  LIFE_RULE_PRESETS
+} from '../../../constants/generators';
+import { parseLifeRule } from '../../../utils/generators/cellularAutomata';
+import type { AutomatonSeedMode, AutomatonType } from '../../../types/generators';
+
+export function CellularAutomataSettings() {
+  const { cellularAutomataSettings, updateCellularAutomataSettings } = useGeneratorsStore();
+  const isElementary = cellularAutomataSettings.automatonType === 'elementary';
+
+  // Rule text is edited locally and only committed once it parses
+  const [ruleDraft, setRuleDraft] = useState(cellularAutomataSettings.lifeRule);
+  useEffect(() => {
+    setRuleDraft(cellularAutomataSettings.lifeRule);
+  }, [cellularAutomataSettings.lifeRule]);
+  const isRuleDraftValid = parseLifeRule(ruleDraft) !== null;
+
+  const lifePreset = LIFE_RULE_PRESETS.find(preset => preset.rule === cellularAutomataSettings.lifeRule);
+  const elementaryPreset = ELEMENTARY_RULE_PRESETS.find(preset => preset.rule === cellularAutomataSettings.elementaryRule);
+
+  const handleRuleDraftChange = (value: string) => {
+    setRuleDraft(value);
+    if (parseLifeRule(value)) {
+      updateCellularAutomataSettings({ lifeRule: value.trim().toUpperCase() });
+    }
+  };
+
+  const handleSeedRandomize = () => {
+    updateCellularAutomataSettings({
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  const handleResetToDefaults = () => {
+    updateCellularAutomataSettings({
+      ...DEFAULT_CELLULAR_AUTOMATA_SETTINGS,
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Reset to Defaults */}
+      <Button
+        variant="outline"
+        onClick={handleResetToDefaults}
+        className="w-full h-8 text-xs"
+      >
+        <RotateCcw className="mr-1.5 h-3 w-3" />
+        Reset to Defaults
+      </Button>
+
+      {/* Automaton Type */}
+      <div className="space-y-2">
+        <Label className="text-xs font-semibold">Automaton Type</Label>
+        <Select
+          value={cellularAutomataSettings.automatonType}
+          onValueChange={(value) => updateCellularAutomataSettings({ automatonType: value as AutomatonType })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="life-like">Life-like (2D, B/S rules)</SelectItem>
+            <SelectItem value="elementary">Elementary (1D, scrolling)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Rule */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Rule</Label>
+
+        {isElementary ? (
+          <>
+            <Select
+              value={elementaryPreset ? String(elementaryPreset.rule) : 'custom'}
+              onValueChange={(value) => {
+                if (value !== 'custom') updateCellularAutomataSettings({ elementaryRule: Number(value) });
+              }}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ELEMENTARY_RULE_PRESETS.map(preset => (
+                  <SelectItem key={preset.rule} value={String(preset.rule)}>{preset.name}</SelectItem>
+                ))}
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Rule Number</Label>
+                <span className="text-xs tabular-nums">{cellularAutomataSettings.elementaryRule}</span>
+              </div>
+              <Slider
+                value={cellularAutomataSettings.elementaryRule}
+                onValueChange={(value) => updateCellularAutomataSettings({ elementaryRule: Math.round(value) })}
+                min={0}
+                max={255}
+                step={1}
+                className="w-full"
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <Select
+              value={lifePreset ? lifePreset.rule : 'custom'}
+              onValueChange={(value) => {
+                if (value !== 'custom') updateCellularAutomataSettings({ lifeRule: value });
+              }}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LIFE_RULE_PRESETS.map(preset => (
+                  <SelectItem key={preset.rule} value={preset.rule}>{preset.name}</SelectItem>
+                ))}
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Birth / Survival</Label>
+              <Input
+                value={ruleDraft}
+                onChange={(e) => handleRuleDraftChange(e.target.value)}
+                placeholder="B3/S23"
+                className="h-8 text-xs font-mono"
+                aria-invalid={!isRuleDraftValid}
+              />
+              {!isRuleDraftValid && (
+                <p className="text-xs text-destructive">
+                  Use B/S notation: neighbor counts that give birth, then counts that survive (e.g. B36/S23)
+                </p>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="automataWrapEdges"
+            checked={cellularAutomataSettings.wrapEdges}
+            onCheckedChange={(checked) => updateCellularAutomataSettings({ wrapEdges: checked as boolean })}
+          />
+          <Label htmlFor="automataWrapEdges" className="text-xs cursor-pointer">
+            Wrap edges (opposite edges are neighbors)
+          </Label>
+        </div>
+      </div>
+
+      {/* Initial State */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Initial State</Label>
+
+        <Select
+          value={cellularAutomataSettings.seedMode}
+          onValueChange={(value) => updateCellularAutomataSettings({ seedMode: value as AutomatonSeedMode })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="random">Random soup</SelectItem>
+            <SelectItem value="center">{isElementary ? 'Single center cell' : 'Center pattern (R-pentomino)'}</SelectItem>
+            <SelectItem value="canvas">Current canvas</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {cellularAutomataSettings.seedMode === 'canvas' && (
+          <p className="text-xs text-muted-foreground">
+            Every drawn cell starts alive, so existing art evolves under the rule
+          </p>
+        )}
+
+        {cellularAutomataSettings.seedMode === 'random' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Density</Label>
+              <span className="text-xs tabular-nums">{Math.round(cellularAutomataSettings.density * 100)}%</span>
+            </div>
+            <Slider
+              value={cellularAutomataSettings.density}
+              onValueChange={(value) => updateCellularAutomataSettings({ density: value })}
+              min={0.01}
+              max={1.0}
+              step={0.01}
+              className="w-full"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Evolution */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Evolution</Label>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Generations per Frame</Label>
+            <span className="text-xs tabular-nums">{cellularAutomataSettings.generationsPerFrame}</span>
+          </div>
+          <Slider
+            value={cellularAutomataSettings.generationsPerFrame}
+            onValueChange={(value) => updateCellularAutomataSettings({ generationsPerFrame: Math.round(value) })}
+            min={1}
+            max={10}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Warm-up Generations</Label>
+            <span className="text-xs tabular-nums">{cellularAutomataSettings.warmupGenerations}</span>
+          </div>
+          <Slider
+            value={cellularAutomataSettings.warmupGenerations}
+            onValueChange={(value) => updateCellularAutomataSettings({ warmupGenerations: Math.round(value) })}
+            min={0}
+            max={500}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        {!isElementary && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Trail Fade</Label>
+              <span className="text-xs tabular-nums">{Math.round(cellularAutomataSettings.trailFade * 100)}%</span>
+            </div>
+            <Slider
+              value={cellularAutomataSettings.trailFade}
+              onValueChange={(value) => updateCellularAutomataSettings({ trailFade: value })}
+              min={0.0}
+              max={0.95}
+              step={0.05}
+              className="w-full"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Random Seed */}
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Random Seed</Label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            value={cellularAutomataSettings.seed}
+            onChange={(e) => updateCellularAutomataSettings({ seed: parseInt(e.target.value) || 0 })}
+            className="h-8 text-xs flex-1"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSeedRandomize}
+            className="h-8 w-8 p-0"
+            title="Randomize seed"
+          >
+            <Dice5 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
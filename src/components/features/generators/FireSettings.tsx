@@ -0,0 +1,247 @@
+/**
+ * FireSettings - Complete settings UI for Fire generator
+ */
+
+import { Label } from '../../ui/label';
+import { Input } from '../../ui/input';
+import { Button } from '../../ui/button';
+import { Slider } from '../../ui/slider';
+import { Checkbox } from '../../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Dice5, RotateCcw } from 'lucide-react';
+import { useGeneratorsStore } from '../../../stores/generatorsStore';
+import { useCanvasStore } from '../../../stores/canvasStore';
+import { DEFAULT_FIRE_SETTINGS } from '../../../constants/generators';
+import type { FireSourceShape } from '../../../types/generators';
+
+export function FireSettings() {
+  const { fireSettings, updateFireSettings } = useGeneratorsStore();
+  const { width: canvasWidth, height: canvasHeight } = useCanvasStore();
+
+  const handleSeedRandomize = () => {
+    updateFireSettings({
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  const handleResetToDefaults = () => {
+    // Reset to defaults but keep the source along the bottom of the canvas
+    updateFireSettings({
+      ...DEFAULT_FIRE_SETTINGS,
+      sourceX: Math.floor(canvasWidth / 2),
+      sourceY: canvasHeight - 1,
+      sourceSize: canvasWidth,
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Reset to Defaults */}
+      <Button
+        variant="outline"
+        onClick={handleResetToDefaults}
+        className="w-full h-8 text-xs"
+      >
+        <RotateCcw className="mr-1.5 h-3 w-3" />
+        Reset to Defaults
+      </Button>
+
+      {/* Heat Source */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Heat Source</Label>
+
+        <Select
+          value={fireSettings.sourceShape}
+          onValueChange={(value) => updateFireSettings({ sourceShape: value as FireSourceShape })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="line">Line</SelectItem>
+            <SelectItem value="point">Point</SelectItem>
+            <SelectItem value="circle">Circle</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">X Position</Label>
+            <span className="text-xs tabular-nums">{fireSettings.sourceX}</span>
+          </div>
+          <Slider
+            value={fireSettings.sourceX}
+            onValueChange={(value) => updateFireSettings({ sourceX: value })}
+            min={0}
+            max={canvasWidth}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Y Position</Label>
+            <span className="text-xs tabular-nums">{fireSettings.sourceY}</span>
+          </div>
+          <Slider
+            value={fireSettings.sourceY}
+            onValueChange={(value) => updateFireSettings({ sourceY: value })}
+            min={0}
+            max={canvasHeight}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        {fireSettings.sourceShape !== 'point' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">
+                {fireSettings.sourceShape === 'circle' ? 'Diameter' : 'Width'}
+              </Label>
+              <span className="text-xs tabular-nums">{fireSettings.sourceSize}</span>
+            </div>
+            <Slider
+              value={fireSettings.sourceSize}
+              onValueChange={(value) => updateFireSettings({ sourceSize: Math.round(value) })}
+              min={1}
+              max={200}
+              step={1}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Intensity</Label>
+            <span className="text-xs tabular-nums">{Math.round(fireSettings.sourceIntensity * 100)}%</span>
+          </div>
+          <Slider
+            value={fireSettings.sourceIntensity}
+            onValueChange={(value) => updateFireSettings({ sourceIntensity: value })}
+            min={0.0}
+            max={1.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Flicker</Label>
+            <span className="text-xs tabular-nums">{Math.round(fireSettings.sourceFlicker * 100)}%</span>
+          </div>
+          <Slider
+            value={fireSettings.sourceFlicker}
+            onValueChange={(value) => updateFireSettings({ sourceFlicker: value })}
+            min={0.0}
+            max={1.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      {/* Flames */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Flames</Label>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Cooling</Label>
+            <span className="text-xs tabular-nums">{fireSettings.cooling.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={fireSettings.cooling}
+            onValueChange={(value) => updateFireSettings({ cooling: value })}
+            min={0.0}
+            max={1.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Rise Speed</Label>
+            <span className="text-xs tabular-nums">{fireSettings.riseSpeed}</span>
+          </div>
+          <Slider
+            value={fireSettings.riseSpeed}
+            onValueChange={(value) => updateFireSettings({ riseSpeed: Math.round(value) })}
+            min={1}
+            max={5}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Wind</Label>
+            <span className="text-xs tabular-nums">{fireSettings.wind.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={fireSettings.wind}
+            onValueChange={(value) => updateFireSettings({ wind: value })}
+            min={-1.0}
+            max={1.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Turbulence</Label>
+            <span className="text-xs tabular-nums">{fireSettings.turbulence.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={fireSettings.turbulence}
+            onValueChange={(value) => updateFireSettings({ turbulence: value })}
+            min={0.0}
+            max={1.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="firePreRun"
+            checked={fireSettings.preRun}
+            onCheckedChange={(checked) => updateFireSettings({ preRun: checked as boolean })}
+          />
+          <Label htmlFor="firePreRun" className="text-xs cursor-pointer">
+            Pre-run (start with flames already burning)
+          </Label>
+        </div>
+      </div>
+
+      {/* Random Seed */}
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Random Seed</Label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            value={fireSettings.seed}
+            onChange={(e) => updateFireSettings({ seed: parseInt(e.target.value) || 0 })}
+            className="h-8 text-xs flex-1"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSeedRandomize}
+            className="h-8 w-8 p-0"
+            title="Randomize seed"
+          >
+            <Dice5 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+/**
+ * Perspective3DSettings - Complete settings UI for 3D Perspective generator
+ */
+
+import { useMemo, useRef } from 'react';
+import { Label } from '../../ui/label';
+import { Input } from '../../ui/input';
+import { Button } from '../../ui/button';
+import { Slider } from '../../ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Dice5, RotateCcw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGeneratorsStore } from '../../../stores/generatorsStore';
+import { DEFAULT_PERSPECTIVE_3D_SETTINGS } from '../../../constants/generators';
+import { parseObjMesh } from '../../../utils/generators/perspective3d';
+import type {
+  MeshPrimitive,
+  MeshRenderStyle,
+  Perspective3DMode,
+  TunnelPattern
+} from '../../../types/generators';
+
+export function Perspective3DSettings() {
+  const { perspective3DSettings, updatePerspective3DSettings } = useGeneratorsStore();
+  const objInputRef = useRef<HTMLInputElement>(null);
+  const { mode, meshPrimitive, objSource } = perspective3DSettings;
+
+  // Parsed only for the summary line; the generator parses its own copy
+  const objMesh = useMemo(
+    () => (meshPrimitive === 'obj' && objSource ? parseObjMesh(objSource) : null),
+    [meshPrimitive, objSource]
+  );
+
+  const handleObjFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      updatePerspective3DSettings({
+        objSource: await file.text(),
+        objFileName: file.name
+      });
+    } catch (error) {
+      console.error('OBJ import failed:', error);
+      toast.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleSeedRandomize = () => {
+    updatePerspective3DSettings({
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  const handleResetToDefaults = () => {
+    // Keep the imported OBJ so resetting does not require picking the file again
+    updatePerspective3DSettings({
+      ...DEFAULT_PERSPECTIVE_3D_SETTINGS,
+      objSource: perspective3DSettings.objSource,
+      objFileName: perspective3DSettings.objFileName,
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  const renderTurnsSlider = (label: string, key: 'rotationX' | 'rotationY' | 'rotationZ') => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">{label}</Label>
+        <span className="text-xs tabular-nums">{perspective3DSettings[key]}</span>
+      </div>
+      <Slider
+        value={perspective3DSettings[key]}
+        onValueChange={(value) => updatePerspective3DSettings({ [key]: Math.round(value) })}
+        min={-3}
+        max={3}
+        step={1}
+        className="w-full"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Reset to Defaults */}
+      <Button
+        variant="outline"
+        onClick={handleResetToDefaults}
+        className="w-full h-8 text-xs"
+      >
+        <RotateCcw className="mr-1.5 h-3 w-3" />
+        Reset to Defaults
+      </Button>
+
+      {/* Scene */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Scene</Label>
+
+        <Select
+          value={mode}
+          onValueChange={(value) => updatePerspective3DSettings({ mode: value as Perspective3DMode })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="starfield">Warp Starfield</SelectItem>
+            <SelectItem value="tunnel">Infinite Tunnel</SelectItem>
+            <SelectItem value="mesh">Rotating Mesh</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Field of View</Label>
+            <span className="text-xs tabular-nums">{perspective3DSettings.fieldOfView}°</span>
+          </div>
+          <Slider
+            value={perspective3DSettings.fieldOfView}
+            onValueChange={(value) => updatePerspective3DSettings({ fieldOfView: Math.round(value) })}
+            min={30}
+            max={120}
+            step={1}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      {/* Starfield */}
+      {mode === 'starfield' && (
+        <div className="space-y-3">
+          <Label className="text-xs font-semibold">Stars</Label>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Star Count</Label>
+              <span className="text-xs tabular-nums">{perspective3DSettings.starCount}</span>
+            </div>
+            <Slider
+              value={perspective3DSettings.starCount}
+              onValueChange={(value) => updatePerspective3DSettings({ starCount: Math.round(value) })}
+              min={50}
+              max={2000}
+              step={50}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Speed (passes per loop)</Label>
+              <span className="text-xs tabular-nums">{perspective3DSettings.starSpeed}</span>
+            </div>
+            <Slider
+              value={perspective3DSettings.starSpeed}
+              onValueChange={(value) => updatePerspective3DSettings({ starSpeed: Math.round(value) })}
+              min={1}
+              max={5}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Trail Length</Label>
+              <span className="text-xs tabular-nums">{Math.round(perspective3DSettings.starTrail * 100)}%</span>
+            </div>
+            <Slider
+              value={perspective3DSettings.starTrail}
+              onValueChange={(value) => updatePerspective3DSettings({ starTrail: value })}
+              min={0.0}
+              max={1.0}
+              step={0.05}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Random Seed</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                value={perspective3DSettings.seed}
+                onChange={(e) => updatePerspective3DSettings({ seed: parseInt(e.target.value) || 0 })}
+                className="h-8 text-xs flex-1"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSeedRandomize}
+                className="h-8 w-8 p-0"
+                title="Randomize seed"
+              >
+                <Dice5 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Tunnel */}
+      {mode === 'tunnel' && (
+        <div className="space-y-3">
+          <Label className="text-xs font-semibold">Tunnel</Label>
+
+          <Select
+            value={perspective3DSettings.tunnelPattern}
+            onValueChange={(value) => updatePerspective3DSettings({ tunnelPattern: value as TunnelPattern })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="checker">Checkerboard</SelectItem>
+              <SelectItem value="rings">Rings</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {perspective3DSettings.tunnelPattern === 'checker' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Wall Segments</Label>
+                <span className="text-xs tabular-nums">{perspective3DSettings.tunnelSegments}</span>
+              </div>
+              <Slider
+                value={perspective3DSettings.tunnelSegments}
+                onValueChange={(value) => updatePerspective3DSettings({ tunnelSegments: Math.round(value) })}
+                min={4}
+                max={32}
+                step={2}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Speed</Label>
+              <span className="text-xs tabular-nums">{perspective3DSettings.tunnelSpeed}</span>
+            </div>
+            <Slider
+              value={perspective3DSettings.tunnelSpeed}
+              onValueChange={(value) => updatePerspective3DSettings({ tunnelSpeed: Math.round(value) })}
+              min={0}
+              max={5}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Twist (turns per loop)</Label>
+              <span className="text-xs tabular-nums">{perspective3DSettings.tunnelTwist}</span>
+            </div>
+            <Slider
+              value={perspective3DSettings.tunnelTwist}
+              onValueChange={(value) => updatePerspective3DSettings({ tunnelTwist: Math.round(value) })}
+              min={-3}
+              max={3}
+              step={1}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Mesh */}
+      {mode === 'mesh' && (
+        <>
+          <div className="space-y-3">
+            <Label className="text-xs font-semibold">Mesh</Label>
+
+            <Select
+              value={meshPrimitive}
+              onValueChange={(value) => updatePerspective3DSettings({ meshPrimitive: value as MeshPrimitive })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="torus">Torus</SelectItem>
+                <SelectItem value="cube">Cube</SelectItem>
+                <SelectItem value="sphere">Sphere</SelectItem>
+                <SelectItem value="obj">OBJ File</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {meshPrimitive === 'obj' && (
+              <div className="space-y-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full h-8 text-xs gap-1"
+                  onClick={() => objInputRef.current?.click()}
+                >
+                  <Upload className="w-3 h-3" />
+                  {perspective3DSettings.objFileName ? 'Replace OBJ File' : 'Import OBJ File'}
+                </Button>
+                <input
+                  ref={objInputRef}
+                  type="file"
+                  accept=".obj"
+                  className="hidden"
+                  onChange={handleObjFile}
+                />
+                {objSource && (
+                  <p className={`text-xs ${objMesh ? 'text-muted-foreground' : 'text-destructive'}`}>
+                    {objMesh
+                      ? `${perspective3DSettings.objFileName}: ${objMesh.vertices.length} vertices, ${objMesh.faces.length} faces`
+                      : `${perspective3DSettings.objFileName} contains no faces`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <Select
+              value={perspective3DSettings.meshRenderStyle}
+              onValueChange={(value) => updatePerspective3DSettings({ meshRenderStyle: value as MeshRenderStyle })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="solid">Solid (shaded)</SelectItem>
+                <SelectItem value="wireframe">Wireframe</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Size</Label>
+                <span className="text-xs tabular-nums">{perspective3DSettings.meshScale.toFixed(2)}</span>
+              </div>
+              <Slider
+                value={perspective3DSettings.meshScale}
+                onValueChange={(value) => updatePerspective3DSettings({ meshScale: value })}
+                min={0.2}
+                max={1.5}
+                step={0.05}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Ambient Light</Label>
+                <span className="text-xs tabular-nums">{Math.round(perspective3DSettings.ambientLight * 100)}%</span>
+              </div>
+              <Slider
+                value={perspective3DSettings.ambientLight}
+                onValueChange={(value) => updatePerspective3DSettings({ ambientLight: value })}
+                min={0.0}
+                max={1.0}
+                step={0.05}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-xs font-semibold">Rotation (turns per loop)</Label>
+            {renderTurnsSlider('X Axis', 'rotationX')}
+            {renderTurnsSlider('Y Axis', 'rotationY')}
+            {renderTurnsSlider('Z Axis', 'rotationZ')}
+          </div>
+        </>
+      )}
+
+      {/* Visual Adjustments */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Visual Adjustments</Label>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Brightness</Label>
+            <span className="text-xs tabular-nums">{perspective3DSettings.brightness.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={perspective3DSettings.brightness}
+            onValueChange={(value) => updatePerspective3DSettings({ brightness: value })}
+            min={-1.0}
+            max={1.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Contrast</Label>
+            <span className="text-xs tabular-nums">{perspective3DSettings.contrast.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={perspective3DSettings.contrast}
+            onValueChange={(value) => updatePerspective3DSettings({ contrast: value })}
+            min={0.0}
+            max={4.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
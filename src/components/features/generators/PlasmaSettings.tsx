@@ -0,0 +1,184 @@
+/**
+ * PlasmaSettings - Complete settings UI for Plasma generator
+ */
+
+import { Label } from '../../ui/label';
+import { Input } from '../../ui/input';
+import { Button } from '../../ui/button';
+import { Slider } from '../../ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Dice5, RotateCcw } from 'lucide-react';
+import { useGeneratorsStore } from '../../../stores/generatorsStore';
+import { DEFAULT_PLASMA_SETTINGS } from '../../../constants/generators';
+import type { PlasmaPaletteMode } from '../../../types/generators';
+
+export function PlasmaSettings() {
+  const { plasmaSettings, updatePlasmaSettings } = useGeneratorsStore();
+
+  const handleSeedRandomize = () => {
+    updatePlasmaSettings({
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  const handleResetToDefaults = () => {
+    updatePlasmaSettings({
+      ...DEFAULT_PLASMA_SETTINGS,
+      seed: Math.floor(Math.random() * 10000)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Reset to Defaults */}
+      <Button
+        variant="outline"
+        onClick={handleResetToDefaults}
+        className="w-full h-8 text-xs"
+      >
+        <RotateCcw className="mr-1.5 h-3 w-3" />
+        Reset to Defaults
+      </Button>
+
+      {/* Plasma Fields */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Plasma Fields</Label>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Scale</Label>
+            <span className="text-xs tabular-nums">{plasmaSettings.scale.toFixed(1)}</span>
+          </div>
+          <Slider
+            value={plasmaSettings.scale}
+            onValueChange={(value) => updatePlasmaSettings({ scale: value })}
+            min={0.1}
+            max={4.0}
+            step={0.1}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Complexity</Label>
+            <span className="text-xs tabular-nums">{plasmaSettings.complexity}</span>
+          </div>
+          <Slider
+            value={plasmaSettings.complexity}
+            onValueChange={(value) => updatePlasmaSettings({ complexity: Math.round(value) })}
+            min={2}
+            max={6}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Speed (cycles per loop)</Label>
+            <span className="text-xs tabular-nums">{plasmaSettings.speed}</span>
+          </div>
+          <Slider
+            value={plasmaSettings.speed}
+            onValueChange={(value) => updatePlasmaSettings({ speed: Math.round(value) })}
+            min={0}
+            max={5}
+            step={1}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      {/* Palette */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Palette</Label>
+
+        <Select
+          value={plasmaSettings.paletteMode}
+          onValueChange={(value) => updatePlasmaSettings({ paletteMode: value as PlasmaPaletteMode })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="smooth">Smooth</SelectItem>
+            <SelectItem value="bands">Bands</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Palette Cycles</Label>
+            <span className="text-xs tabular-nums">{plasmaSettings.paletteCycles}</span>
+          </div>
+          <Slider
+            value={plasmaSettings.paletteCycles}
+            onValueChange={(value) => updatePlasmaSettings({ paletteCycles: Math.round(value) })}
+            min={0}
+            max={8}
+            step={1}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      {/* Visual Adjustments */}
+      <div className="space-y-3">
+        <Label className="text-xs font-semibold">Visual Adjustments</Label>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Brightness</Label>
+            <span className="text-xs tabular-nums">{plasmaSettings.brightness.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={plasmaSettings.brightness}
+            onValueChange={(value) => updatePlasmaSettings({ brightness: value })}
+            min={-1.0}
+            max={1.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Contrast</Label>
+            <span className="text-xs tabular-nums">{plasmaSettings.contrast.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={plasmaSettings.contrast}
+            onValueChange={(value) => updatePlasmaSettings({ contrast: value })}
+            min={0.0}
+            max={4.0}
+            step={0.05}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      {/* Random Seed */}
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Random Seed</Label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            value={plasmaSettings.seed}
+            onChange={(e) => updatePlasmaSettings({ seed: parseInt(e.target.value) || 0 })}
+            className="h-8 text-xs flex-1"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSeedRandomize}
+            className="h-8 w-8 p-0"
+            title="Randomize seed"
+          >
+            <Dice5 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@
  * - Play/Pause button
  * - Frame scrubber slider
  * - Frame counter display
- * - Spinner overlay during generation
+ * - Spinner overlay with progress during generation
  * - Canvas rendering of current preview frame
  */
 
@@ -38,6 +38,7 @@ export function GeneratorPreviewCanvas({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { 
     isGenerating, 
+    generationProgress,
     previewFrames,
     activeGenerator,
     radioWavesSettings,
@@ -49,7 +50,15 @@ export function GeneratorPreviewCanvas({
     rainDropsSettings,
     updateRainDropsSettings,
     digitalRainSettings,
-    updateDigitalRainSettings
+    updateDigitalRainSettings,
+    cellularAutomataSettings,
+    updateCellularAutomataSettings,
+    fireSettings,
+    updateFireSettings,
+    plasmaSettings,
+    updatePlasmaSettings,
+    perspective3DSettings,
+    updatePerspective3DSettings
   } = useGeneratorsStore();
 
   // Get current generator settings
@@ -57,12 +66,20 @@ export function GeneratorPreviewCanvas({
     : activeGenerator === 'turbulent-noise' ? turbulentNoiseSettings
     : activeGenerator === 'particle-physics' ? particlePhysicsSettings
     : activeGenerator === 'rain-drops' ? rainDropsSettings
+    : activeGenerator === 'cellular-automata' ? cellularAutomataSettings
+    : activeGenerator === 'fire' ? fireSettings
+    : activeGenerator === 'plasma' ? plasmaSettings
+    : activeGenerator === 'perspective-3d' ? perspective3DSettings
     : digitalRainSettings;
 
   const updateCurrentSettings = activeGenerator === 'radio-waves' ? updateRadioWavesSettings
     : activeGenerator === 'turbulent-noise' ? updateTurbulentNoiseSettings
     : activeGenerator === 'particle-physics' ? updateParticlePhysicsSettings
     : activeGenerator === 'rain-drops' ? updateRainDropsSettings
+    : activeGenerator === 'cellular-automata' ? updateCellularAutomataSettings
+    : activeGenerator === 'fire' ? updateFireSettings
+    : activeGenerator === 'plasma' ? updatePlasmaSettings
+    : activeGenerator === 'perspective-3d' ? updatePerspective3DSettings
     : updateDigitalRainSettings;
 
   // Render current preview frame to canvas
@@ -98,7 +115,9 @@ export function GeneratorPreviewCanvas({
         {isGenerating ? (
           <div className="flex flex-col items-center gap-2">
             <Spinner size="sm" />
-            <span className="text-xs text-muted-foreground">Generating preview...</span>
+            <span className="text-xs text-muted-foreground">
+              Generating preview... {Math.round(generationProgress * 100)}%
+            </span>
           </div>
         ) : totalFrames > 0 ? (
           <canvas 
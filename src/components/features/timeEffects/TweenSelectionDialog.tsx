@@ -0,0 +1,405 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DraggableDialogBar } from '@/components/common/DraggableDialogBar';
+import { useTimeEffectsStore } from '@/stores/timeEffectsStore';
+import { useTimeEffectsHistory } from '@/hooks/useTimeEffectsHistory';
+import { useAnimationStore } from '@/stores/animationStore';
+import { useCanvasStore } from '@/stores/canvasStore';
+import { useBezierStore } from '@/stores/bezierStore';
+import { TWEEN_RANGES } from '@/constants/timeEffects';
+import type { TweenEasing, TweenSettings } from '@/types/timeEffects';
+import { Crosshair, MoveRight } from 'lucide-react';
+
+export const TweenSelectionDialog: React.FC = () => {
+  const {
+    isTweenDialogOpen,
+    closeTweenDialog,
+    tweenSettings,
+    updateTweenSettings,
+    tweenKeyframe,
+    setTweenKeyframe
+  } = useTimeEffectsStore();
+
+  const { captureTweenStart, getSelectionOrigin, applyTweenWithHistory } = useTimeEffectsHistory();
+  const { frames, currentFrameIndex } = useAnimationStore();
+  const { width: canvasWidth, height: canvasHeight } = useCanvasStore();
+  const anchorCount = useBezierStore((state) => state.anchorPoints.length);
+
+  // Dialog state
+  const [positionOffset, setPositionOffset] = useState({ x: 0, y: 0 });
+  const [isDraggingDialog, setIsDraggingDialog] = useState(false);
+  const [hasBeenDragged, setHasBeenDragged] = useState(false);
+  const dragStartOffsetRef = useRef({ x: 0, y: 0 });
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const canFollowPath = anchorCount >= 2;
+  const followPath = tweenSettings.followPath && canFollowPath;
+  const isInsertMode = tweenSettings.frameMode === 'insert';
+  const hasValidEndFrame = isInsertMode || (
+    !!tweenKeyframe &&
+    tweenSettings.endFrame > tweenKeyframe.frameIndex &&
+    tweenSettings.endFrame < frames.length
+  );
+  const canApply = !!tweenKeyframe && hasValidEndFrame;
+
+  const handleSettingChange = useCallback((settings: Partial<TweenSettings>) => {
+    updateTweenSettings(settings);
+  }, [updateTweenSettings]);
+
+  const handleCapture = useCallback(() => {
+    if (captureTweenStart()) {
+      setStatusMessage(null);
+    } else {
+      setStatusMessage('Select the cells to animate on the start frame first.');
+    }
+  }, [captureTweenStart]);
+
+  const handleUseSelection = useCallback(() => {
+    const origin = getSelectionOrigin();
+    if (origin) {
+      handleSettingChange({ endPosition: origin });
+      setStatusMessage(null);
+    } else {
+      setStatusMessage('No selection found to use as the end position.');
+    }
+  }, [getSelectionOrigin, handleSettingChange]);
+
+  const handleApply = useCallback(async () => {
+    if (!canApply) return;
+    const success = await applyTweenWithHistory();
+    if (!success) {
+      setStatusMessage('Nothing to tween. Check the end frame and keyframe.');
+    }
+  }, [canApply, applyTweenWithHistory]);
+
+  // Reset position when dialog opens
+  useEffect(() => {
+    if (isTweenDialogOpen) {
+      setPositionOffset({ x: 0, y: 0 });
+      setHasBeenDragged(false);
+      setStatusMessage(null);
+    }
+  }, [isTweenDialogOpen]);
+
+  // Handle escape key to close
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isTweenDialogOpen) return;
+
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        closeTweenDialog();
+      } else if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        handleApply();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isTweenDialogOpen, closeTweenDialog, handleApply]);
+
+  // Dragging handlers
+  const handleDrag = useCallback((deltaX: number, deltaY: number) => {
+    setPositionOffset({
+      x: dragStartOffsetRef.current.x + deltaX,
+      y: dragStartOffsetRef.current.y + deltaY
+    });
+  }, []);
+
+  const handleDragStart = useCallback(() => {
+    setIsDraggingDialog(true);
+    setHasBeenDragged(true);
+    dragStartOffsetRef.current = { ...positionOffset };
+  }, [positionOffset]);
+
+  const handleDragEnd = useCallback(() => {
+    setIsDraggingDialog(false);
+    dragStartOffsetRef.current = { ...positionOffset };
+  }, [positionOffset]);
+
+  const handleNumberChange = (value: string, min: number, max: number, apply: (value: number) => void) => {
+    const numValue = parseInt(value, 10);
+    if (Number.isNaN(numValue)) return;
+    apply(Math.max(min, Math.min(max, numValue)));
+  };
+
+  // Calculate dialog position (lower-left corner)
+  const getDialogPosition = () => {
+    const dialogWidth = 400;
+    const margin = 8;
+
+    // Calculate maxHeight to ensure dialog fits on screen
+    const viewportHeight = window.innerHeight;
+    const maxHeight = viewportHeight - (margin * 2);
+
+    return {
+      bottom: margin,
+      left: margin,
+      width: dialogWidth,
+      maxHeight: `${maxHeight}px`
+    };
+  };
+
+  if (!isTweenDialogOpen) return null;
+
+  const position = getDialogPosition();
+  const tweenFrameCount = isInsertMode
+    ? tweenSettings.insertCount
+    : tweenKeyframe ? Math.max(0, tweenSettings.endFrame - tweenKeyframe.frameIndex) : 0;
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      className={`fixed z-[99999] ${
+        !hasBeenDragged ? 'animate-in duration-200 slide-in-from-bottom-4 fade-in-0' : ''
+      }`}
+      style={{
+        bottom: position.bottom - positionOffset.y,
+        left: position.left + positionOffset.x,
+        width: position.width,
+        maxHeight: position.maxHeight,
+        transition: isDraggingDialog ? 'none' : undefined
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Card className="border border-border/50 shadow-lg overflow-hidden flex flex-col" style={{ maxHeight: position.maxHeight }}>
+        <DraggableDialogBar
+          title="Tween Selection"
+          onDrag={handleDrag}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+          onClose={closeTweenDialog}
+        />
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* Start Keyframe */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Start keyframe</Label>
+            {tweenKeyframe ? (
+              <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded space-y-1">
+                <div>
+                  <strong>Frame {tweenKeyframe.frameIndex + 1}</strong> at ({tweenKeyframe.origin.x}, {tweenKeyframe.origin.y})
+                </div>
+                <div>{tweenKeyframe.cells.size} cell{tweenKeyframe.cells.size !== 1 ? 's' : ''} captured</div>
+              </div>
+            ) : (
+              <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded">
+                Select cells on the start frame and capture them. Then move to the end frame,
+                select the target spot and reopen this dialog.
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCapture} className="gap-2">
+                <Crosshair className="h-4 w-4" />
+                {tweenKeyframe ? 'Recapture Selection' : 'Capture Selection'}
+              </Button>
+              {tweenKeyframe && (
+                <Button variant="ghost" size="sm" onClick={() => setTweenKeyframe(null)}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Frames */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Frames</Label>
+            <Select
+              value={tweenSettings.frameMode}
+              onValueChange={(value: TweenSettings['frameMode']) => handleSettingChange({ frameMode: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="existing">Tween across existing frames</SelectItem>
+                <SelectItem value="insert">Insert new in-between frames</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {isInsertMode ? (
+              <div className="space-y-2">
+                <Label htmlFor="tween-insert-count" className="text-xs">Frames to insert</Label>
+                <Input
+                  id="tween-insert-count"
+                  type="number"
+                  min={TWEEN_RANGES.INSERT_COUNT.min}
+                  max={TWEEN_RANGES.INSERT_COUNT.max}
+                  value={tweenSettings.insertCount}
+                  onChange={(e) => handleNumberChange(
+                    e.target.value,
+                    TWEEN_RANGES.INSERT_COUNT.min,
+                    TWEEN_RANGES.INSERT_COUNT.max,
+                    (insertCount) => handleSettingChange({ insertCount })
+                  )}
+                  className="h-8"
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="tween-end-frame" className="text-xs">End frame</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => handleSettingChange({ endFrame: currentFrameIndex })}
+                  >
+                    Use Current ({currentFrameIndex + 1})
+                  </Button>
+                </div>
+                <Input
+                  id="tween-end-frame"
+                  type="number"
+                  min={1}
+                  max={frames.length}
+                  value={tweenSettings.endFrame + 1}
+                  onChange={(e) => handleNumberChange(
+                    e.target.value,
+                    1,
+                    frames.length,
+                    (frameNumber) => handleSettingChange({ endFrame: frameNumber - 1 })
+                  )}
+                  className="h-8"
+                />
+                {tweenKeyframe && !hasValidEndFrame && (
+                  <div className="text-xs text-destructive">
+                    End frame must come after frame {tweenKeyframe.frameIndex + 1}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Motion */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Motion</Label>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="tween-follow-path"
+                checked={followPath}
+                disabled={!canFollowPath}
+                onCheckedChange={(checked) => handleSettingChange({ followPath: checked === true })}
+              />
+              <Label htmlFor="tween-follow-path" className="text-sm font-normal cursor-pointer">
+                Follow bezier path
+              </Label>
+            </div>
+            {!canFollowPath && (
+              <div className="text-xs text-muted-foreground">
+                Draw a path with the bezier tool (2+ points) to move along it
+              </div>
+            )}
+
+            {!followPath && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">End position</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={handleUseSelection}
+                  >
+                    Use Selection
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="tween-end-x" className="text-xs w-3">X</Label>
+                    <Input
+                      id="tween-end-x"
+                      type="number"
+                      min={0}
+                      max={canvasWidth - 1}
+                      value={tweenSettings.endPosition.x}
+                      onChange={(e) => handleNumberChange(
+                        e.target.value,
+                        0,
+                        canvasWidth - 1,
+                        (x) => handleSettingChange({ endPosition: { ...tweenSettings.endPosition, x } })
+                      )}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="tween-end-y" className="text-xs w-3">Y</Label>
+                    <Input
+                      id="tween-end-y"
+                      type="number"
+                      min={0}
+                      max={canvasHeight - 1}
+                      value={tweenSettings.endPosition.y}
+                      onChange={(e) => handleNumberChange(
+                        e.target.value,
+                        0,
+                        canvasHeight - 1,
+                        (y) => handleSettingChange({ endPosition: { ...tweenSettings.endPosition, y } })
+                      )}
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-xs">Easing</Label>
+              <Select
+                value={tweenSettings.easing}
+                onValueChange={(value: TweenEasing) => handleSettingChange({ easing: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="linear">Linear</SelectItem>
+                  <SelectItem value="ease-in">Ease In</SelectItem>
+                  <SelectItem value="ease-out">Ease Out</SelectItem>
+                  <SelectItem value="ease-in-out">Ease In-Out</SelectItem>
+                  <SelectItem value="bounce">Bounce</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="tween-clear-source"
+                checked={tweenSettings.clearSource}
+                onCheckedChange={(checked) => handleSettingChange({ clearSource: checked === true })}
+              />
+              <Label htmlFor="tween-clear-source" className="text-sm font-normal cursor-pointer">
+                Remove original content from tweened frames
+              </Label>
+            </div>
+          </div>
+
+          {statusMessage && (
+            <div className="text-xs text-destructive">{statusMessage}</div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 pt-0">
+          <Button variant="outline" onClick={closeTweenDialog}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!canApply} className="gap-2">
+            <MoveRight className="h-4 w-4" />
+            Tween {tweenFrameCount} Frame{tweenFrameCount !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </Card>
+    </div>,
+    document.body
+  );
+};
@@ -8,6 +8,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { DraggableDialogBar } from '@/components/common/DraggableDialogBar';
+import { SelectionMaskControls } from '@/components/features/SelectionMaskControls';
 import { useTimeEffectsStore } from '@/stores/timeEffectsStore';
 import { useTimeEffectsHistory } from '@/hooks/useTimeEffectsHistory';
 import { useAnimationStore } from '@/stores/animationStore';
@@ -330,6 +331,9 @@ export const WaveWarpDialog: React.FC = () => {
             </div>
           </div>
 
+          {/* Selection Scope */}
+          <SelectionMaskControls onMaskChange={updatePreview} />
+
           {/* Frame Range Settings */}
           <div className="space-y-4">
             <h3 className="text-sm font-semibold">Frame Range</h3>
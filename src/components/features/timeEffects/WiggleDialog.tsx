@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DraggableDialogBar } from '@/components/common/DraggableDialogBar';
+import { SelectionMaskControls } from '@/components/features/SelectionMaskControls';
 import { useTimeEffectsStore } from '@/stores/timeEffectsStore';
 import { useTimeEffectsHistory } from '@/hooks/useTimeEffectsHistory';
 import { useAnimationStore } from '@/stores/animationStore';
@@ -441,6 +442,9 @@ export const WiggleDialog: React.FC = () => {
             </TabsContent>
           </Tabs>
 
+          {/* Selection Scope */}
+          <SelectionMaskControls onMaskChange={updatePreview} />
+
           {/* Frame Range Settings */}
           <div className="space-y-4">
             <h3 className="text-sm font-semibold">Frame Range</h3>
@@ -0,0 +1,201 @@
+/**
+ * Command registry
+ * Every keyboard-reachable editor command with its default key chords.
+ * Keymaps (presets and user overrides) map command ids to chords; see
+ * utils/keymap.ts for the chord format
+ */
+
+import type { Tool } from '../types';
+import { TOOL_HOTKEYS } from './hotkeys';
+
+export type CommandId =
+  | 'file.save'
+  | 'file.saveAs'
+  | 'file.open'
+  | `tool.${Tool}`
+  | 'tool.temporaryEyedropper'
+  | 'edit.undo'
+  | 'edit.redo'
+  | 'edit.selectAll'
+  | 'edit.copy'
+  | 'edit.paste'
+  | 'edit.deleteSelection'
+  | 'edit.clearSelection'
+  | 'edit.cropToSelection'
+  | 'transform.flipHorizontal'
+  | 'transform.flipVertical'
+  | 'transform.rotateClockwise'
+  | 'transform.rotateCounterClockwise'
+  | 'color.swap'
+  | 'color.previousPaletteColor'
+  | 'color.nextPaletteColor'
+  | 'brush.decreaseSize'
+  | 'brush.increaseSize'
+  | 'character.previous'
+  | 'character.next'
+  | 'view.zoomIn'
+  | 'view.zoomOut'
+  | 'view.performanceOverlay'
+  | 'view.commandPalette'
+  | 'frame.previous'
+  | 'frame.next'
+  | 'frame.first'
+  | 'frame.last'
+  | 'frame.add'
+  | 'frame.duplicate'
+  | 'frame.delete'
+  | 'onionSkin.toggle'
+  | 'playback.toggle';
+
+export type CommandCategory =
+  | 'File & Project'
+  | 'Tool Selection'
+  | 'Canvas Actions'
+  | 'Color Management'
+  | 'Zoom & Navigation'
+  | 'Animation & Timeline'
+  | 'Performance';
+
+export interface CommandDefinition {
+  id: CommandId;
+  title: string;
+  category: CommandCategory;
+  defaultChords: string[];
+  // Handled directly by the canvas or a tool, so the chord cannot be rebound
+  fixed?: boolean;
+}
+
+const TOOL_TITLES: Partial<Record<Tool, string>> = {
+  pencil: 'Brush tool',
+  eraser: 'Eraser tool',
+  paintbucket: 'Fill tool',
+  select: 'Rectangular Selection tool',
+  lasso: 'Lasso Selection tool',
+  magicwand: 'Magic Wand Selection tool',
+  rectangle: 'Rectangle tool',
+  ellipse: 'Ellipse tool',
+  eyedropper: 'Eyedropper tool',
+  text: 'Text tool',
+  asciitype: 'ASCII Type tool',
+  asciibox: 'ASCII Box tool',
+  beziershape: 'Bezier Pen tool',
+  gradientfill: 'Gradient Fill tool'
+};
+
+const TOOL_COMMANDS: CommandDefinition[] = TOOL_HOTKEYS.map(({ tool, key }) => ({
+  id: `tool.${tool}` as CommandId,
+  title: TOOL_TITLES[tool] ?? tool,
+  category: 'Tool Selection',
+  defaultChords: [key.toUpperCase()]
+}));
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: 'file.save', title: 'Save project (cloud when signed in, otherwise this browser)', category: 'File & Project', defaultChords: ['Mod+S'] },
+  { id: 'file.saveAs', title: 'Save As...', category: 'File & Project', defaultChords: ['Mod+Shift+S'] },
+  { id: 'file.open', title: 'Open project', category: 'File & Project', defaultChords: ['Mod+O'] },
+
+  ...TOOL_COMMANDS,
+  { id: 'tool.temporaryEyedropper', title: 'Temporary Eyedropper', category: 'Tool Selection', defaultChords: ['Alt'], fixed: true },
+
+  { id: 'edit.selectAll', title: 'Select All', category: 'Canvas Actions', defaultChords: ['Mod+A'] },
+  { id: 'edit.copy', title: 'Copy Selection', category: 'Canvas Actions', defaultChords: ['Mod+C'] },
+  { id: 'edit.paste', title: 'Paste Selection', category: 'Canvas Actions', defaultChords: ['Mod+V'] },
+  { id: 'edit.undo', title: 'Undo', category: 'Canvas Actions', defaultChords: ['Mod+Z'] },
+  { id: 'edit.redo', title: 'Redo', category: 'Canvas Actions', defaultChords: ['Mod+Shift+Z'] },
+  { id: 'edit.deleteSelection', title: 'Delete selected cells', category: 'Canvas Actions', defaultChords: ['Delete', 'Backspace'], fixed: true },
+  { id: 'edit.clearSelection', title: 'Clear selection', category: 'Canvas Actions', defaultChords: ['Escape'], fixed: true },
+  { id: 'transform.flipHorizontal', title: 'Flip selection horizontally', category: 'Canvas Actions', defaultChords: ['Shift+H'] },
+  { id: 'transform.flipVertical', title: 'Flip selection vertically', category: 'Canvas Actions', defaultChords: ['Shift+V'] },
+  { id: 'transform.rotateClockwise', title: 'Rotate selection or canvas 90° clockwise', category: 'Canvas Actions', defaultChords: ['Shift+R'] },
+  { id: 'transform.rotateCounterClockwise', title: 'Rotate selection or canvas 90° counter-clockwise', category: 'Canvas Actions', defaultChords: ['Shift+E'] },
+  { id: 'edit.cropToSelection', title: 'Crop canvas to selection', category: 'Canvas Actions', defaultChords: ['Shift+C'] },
+
+  { id: 'color.swap', title: 'Swap foreground/background colors', category: 'Color Management', defaultChords: ['X'] },
+  { id: 'brush.decreaseSize', title: 'Decrease brush size', category: 'Color Management', defaultChords: ['['] },
+  { id: 'brush.increaseSize', title: 'Increase brush size', category: 'Color Management', defaultChords: [']'] },
+  { id: 'color.previousPaletteColor', title: 'Previous palette color', category: 'Color Management', defaultChords: ['Shift+['] },
+  { id: 'color.nextPaletteColor', title: 'Next palette color', category: 'Color Management', defaultChords: ['Shift+]'] },
+  { id: 'character.previous', title: 'Previous character in active palette', category: 'Color Management', defaultChords: ['Mod+['] },
+  { id: 'character.next', title: 'Next character in active palette', category: 'Color Management', defaultChords: ['Mod+]'] },
+
+  { id: 'view.zoomIn', title: 'Zoom in', category: 'Zoom & Navigation', defaultChords: ['=', 'Plus'] },
+  { id: 'view.zoomOut', title: 'Zoom out', category: 'Zoom & Navigation', defaultChords: ['-'] },
+  { id: 'view.commandPalette', title: 'Open command palette', category: 'Zoom & Navigation', defaultChords: ['Mod+K'] },
+
+  { id: 'frame.previous', title: 'Previous frame', category: 'Animation & Timeline', defaultChords: [','] },
+  { id: 'frame.next', title: 'Next frame', category: 'Animation & Timeline', defaultChords: ['.'] },
+  { id: 'frame.first', title: 'First frame', category: 'Animation & Timeline', defaultChords: ['Shift+,'] },
+  { id: 'frame.last', title: 'Last frame', category: 'Animation & Timeline', defaultChords: ['Shift+.'] },
+  { id: 'frame.add', title: 'Add new frame after current', category: 'Animation & Timeline', defaultChords: ['Mod+N'] },
+  { id: 'frame.duplicate', title: 'Duplicate current frame', category: 'Animation & Timeline', defaultChords: ['Mod+D'] },
+  { id: 'frame.delete', title: 'Delete current frame', category: 'Animation & Timeline', defaultChords: ['Mod+Delete', 'Mod+Backspace'] },
+  { id: 'onionSkin.toggle', title: 'Toggle onion skinning', category: 'Animation & Timeline', defaultChords: ['Shift+O'] },
+  { id: 'playback.toggle', title: 'Play / pause animation', category: 'Animation & Timeline', defaultChords: ['Space'] },
+
+  { id: 'view.performanceOverlay', title: 'Toggle performance overlay', category: 'Performance', defaultChords: ['Mod+Shift+P'], fixed: true }
+];
+
+export const COMMAND_CATEGORIES: CommandCategory[] = [
+  'File & Project',
+  'Tool Selection',
+  'Canvas Actions',
+  'Color Management',
+  'Zoom & Navigation',
+  'Animation & Timeline',
+  'Performance'
+];
+
+export const COMMANDS_BY_ID = new Map<CommandId, CommandDefinition>(
+  COMMANDS.map(command => [command.id, command])
+);
+
+export interface KeymapPreset {
+  id: string;
+  name: string;
+  // Chords that differ from the command defaults (an empty list unbinds the command)
+  bindings: Partial<Record<CommandId, string[]>>;
+}
+
+export const DEFAULT_KEYMAP_PRESET_ID = 'default';
+
+export const KEYMAP_PRESETS: KeymapPreset[] = [
+  {
+    id: DEFAULT_KEYMAP_PRESET_ID,
+    name: 'ASCII Motion',
+    bindings: {}
+  },
+  {
+    id: 'aseprite',
+    name: 'Aseprite',
+    bindings: {
+      'tool.paintbucket': ['G'],
+      'tool.gradientfill': ['Shift+G'],
+      'tool.lasso': ['Q'],
+      'tool.asciibox': ['K'],
+      'tool.rectangle': ['U'],
+      'tool.ellipse': ['Shift+U'],
+      'frame.first': ['Home'],
+      'frame.last': ['End'],
+      'frame.add': ['Alt+N'],
+      'frame.delete': ['Alt+C'],
+      'frame.duplicate': ['Alt+D'],
+      'onionSkin.toggle': ['F3'],
+      'playback.toggle': ['Enter']
+    }
+  },
+  {
+    id: 'photoshop',
+    name: 'Photoshop',
+    bindings: {
+      'tool.paintbucket': ['G'],
+      'tool.gradientfill': ['Shift+G'],
+      'tool.rectangle': ['U'],
+      'tool.ellipse': ['Shift+U'],
+      'view.zoomIn': ['Mod+=', 'Mod+Plus'],
+      'view.zoomOut': ['Mod+-'],
+      'edit.cropToSelection': ['Mod+Alt+C'],
+      'transform.rotateClockwise': ['Mod+Shift+R'],
+      'transform.rotateCounterClockwise': ['Mod+Shift+E']
+    }
+  }
+];
@@ -0,0 +1,106 @@
+/**
+ * Export and import format options shown in the header menus and the command palette
+ */
+
+import { Upload, FileImage, Film, ImagePlay, FileText, Terminal, Globe, FileCode, Save, FolderOpen, LayoutGrid } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { ExportFormatId } from '../types/export';
+
+export interface FormatOption {
+  id: ExportFormatId;
+  name: string;
+  description: string;
+  icon: LucideIcon;
+}
+
+// Export format definitions for dropdown
+export const EXPORT_OPTIONS: FormatOption[] = [
+  {
+    id: 'png',
+    name: 'Image',
+    description: 'Current frame as SVG/PNG/JPG',
+    icon: FileImage,
+  },
+  {
+    id: 'mp4',
+    name: 'Video',
+    description: 'Animation as .mp4 or .webm',
+    icon: Film,
+  },
+  {
+    id: 'gif',
+    name: 'Animated GIF',
+    description: 'Looping animation as .gif',
+    icon: ImagePlay,
+  },
+  {
+    id: 'spritesheet',
+    name: 'Sprite Sheet',
+    description: 'Frames as a PNG atlas + JSON',
+    icon: LayoutGrid,
+  },
+  {
+    id: 'html',
+    name: 'HTML',
+    description: 'Standalone webpage',
+    icon: Globe,
+  },
+  {
+    id: 'react',
+    name: 'React Component',
+    description: 'Drop-in canvas component',
+    icon: FileCode,
+  },
+  {
+    id: 'json',
+    name: 'JSON',
+    description: 'Importable & human readable',
+    icon: FileText,
+  },
+  {
+    id: 'text',
+    name: 'Simple Text',
+    description: 'Character data as a .txt file',
+    icon: FileText,
+  },
+  {
+    id: 'ansi',
+    name: 'ANSI',
+    description: 'Terminal colors as .ans or .sh',
+    icon: Terminal,
+  },
+  {
+    id: 'session',
+    name: '.asciimtn Project',
+    description: 'Full ascii-motion session file',
+    icon: Save,
+  },
+];
+
+// Import format definitions for dropdown
+export const IMPORT_OPTIONS: FormatOption[] = [
+  {
+    id: 'media',
+    name: 'Image/Video',
+    description: 'Convert to ASCII art',
+    icon: Upload,
+  },
+  {
+    id: 'json',
+    name: 'JSON Data',
+    description: 'Load JSON project',
+    icon: FileText,
+  },
+  {
+    id: 'ansi',
+    name: 'ANSI Art',
+    description: 'Append frames from .ans',
+    icon: Terminal,
+  },
+  {
+    id: 'session',
+    name: '.asciimtn',
+    description: 'Load project file',
+    icon: FolderOpen,
+  },
+];
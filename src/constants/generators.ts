@@ -10,7 +10,11 @@ import type {
   TurbulentNoiseSettings,
   ParticlePhysicsSettings,
   RainDropsSettings,
-  DigitalRainSettings
+  DigitalRainSettings,
+  CellularAutomataSettings,
+  FireSettings,
+  PlasmaSettings,
+  Perspective3DSettings
 } from '../types/generators';
 
 // Generator definitions for UI rendering
@@ -44,6 +48,30 @@ export const GENERATOR_DEFINITIONS: GeneratorDefinition[] = [
     name: 'Digital Rain (Matrix)',
     description: 'Vertical falling trails with luminosity fade',
     icon: 'CloudHail'
+  },
+  {
+    id: 'cellular-automata',
+    name: 'Cellular Automata',
+    description: 'Game of Life style rules and scrolling elementary automata',
+    icon: 'Grid3x3'
+  },
+  {
+    id: 'fire',
+    name: 'Fire',
+    description: 'Rising flames from a heat source with cooling and wind',
+    icon: 'Flame'
+  },
+  {
+    id: 'plasma',
+    name: 'Plasma',
+    description: 'Summed sine fields with looping palette cycling',
+    icon: 'Waves'
+  },
+  {
+    id: 'perspective-3d',
+    name: '3D Perspective',
+    description: 'Warp starfield, infinite tunnel or rotating shaded mesh',
+    icon: 'Box'
   }
 ];
 
@@ -226,6 +254,143 @@ export const DEFAULT_DIGITAL_RAIN_SETTINGS: DigitalRainSettings = {
   seed: Math.floor(Math.random() * 10000)
 };
 
+export const DEFAULT_CELLULAR_AUTOMATA_SETTINGS: CellularAutomataSettings = {
+  // Rules
+  automatonType: 'life-like',
+  lifeRule: 'B3/S23',           // Conway's Game of Life
+  elementaryRule: 30,
+  wrapEdges: true,
+  
+  // Initial state
+  seedMode: 'random',
+  density: 0.3,                 // 30% of cells start alive
+  
+  // Evolution
+  generationsPerFrame: 1,
+  warmupGenerations: 0,
+  trailFade: 0.6,               // Dead cells fade out over a few generations
+  
+  // Timing (default: 5 seconds at 15fps = 75 frames)
+  duration: 5000,
+  frameRate: 15,
+  frameCount: 75,
+  timingMode: 'frameCount',
+  
+  // Random seed
+  seed: Math.floor(Math.random() * 10000)
+};
+
+export const DEFAULT_FIRE_SETTINGS: FireSettings = {
+  // Heat source (bottom row of default 80x24 canvas - will be updated dynamically)
+  sourceShape: 'line',
+  sourceX: 40,
+  sourceY: 23,
+  sourceSize: 80,
+  sourceIntensity: 1.0,
+  sourceFlicker: 0.3,
+  
+  // Propagation
+  cooling: 0.4,
+  riseSpeed: 1,
+  wind: 0,
+  turbulence: 0.3,
+  preRun: true,                 // Flames fill the canvas from the first frame
+  
+  // Timing (default: 3 seconds at 20fps = 60 frames)
+  duration: 3000,
+  frameRate: 20,
+  frameCount: 60,
+  timingMode: 'frameCount',
+  
+  // Random seed
+  seed: Math.floor(Math.random() * 10000)
+};
+
+export const DEFAULT_PLASMA_SETTINGS: PlasmaSettings = {
+  // Field properties
+  scale: 1.0,
+  complexity: 4,
+  speed: 1,
+  
+  // Palette cycling
+  paletteCycles: 1,
+  paletteMode: 'smooth',
+  
+  // Visual adjustments
+  brightness: 0,
+  contrast: 1.0,
+  
+  // Timing (default: 4 seconds at 30fps = 120 frames)
+  duration: 4000,
+  frameRate: 30,
+  frameCount: 120,
+  timingMode: 'frameCount',
+  
+  // Random seed
+  seed: Math.floor(Math.random() * 10000)
+};
+
+export const DEFAULT_PERSPECTIVE_3D_SETTINGS: Perspective3DSettings = {
+  // Scene
+  mode: 'mesh',
+  fieldOfView: 60,
+  
+  // Starfield
+  starCount: 400,
+  starSpeed: 1,
+  starTrail: 0.3,
+  
+  // Tunnel
+  tunnelPattern: 'checker',
+  tunnelSegments: 12,
+  tunnelSpeed: 2,
+  tunnelTwist: 0,
+  
+  // Mesh (default: the classic spinning donut)
+  meshPrimitive: 'torus',
+  meshRenderStyle: 'solid',
+  objSource: '',
+  objFileName: '',
+  rotationX: 1,
+  rotationY: 2,
+  rotationZ: 0,
+  meshScale: 0.8,
+  ambientLight: 0.15,
+  
+  // Visual adjustments
+  brightness: 0,
+  contrast: 1.0,
+  
+  // Timing (default: 3 seconds at 30fps = 90 frames)
+  duration: 3000,
+  frameRate: 30,
+  frameCount: 90,
+  timingMode: 'frameCount',
+  
+  // Random seed
+  seed: Math.floor(Math.random() * 10000)
+};
+
+// Well-known Life-like rules in B/S notation
+export const LIFE_RULE_PRESETS = [
+  { name: 'Conway\'s Life', rule: 'B3/S23' },
+  { name: 'HighLife', rule: 'B36/S23' },
+  { name: 'Seeds', rule: 'B2/S' },
+  { name: 'Day & Night', rule: 'B3678/S34678' },
+  { name: 'Life without Death', rule: 'B3/S012345678' },
+  { name: 'Maze', rule: 'B3/S12345' },
+  { name: 'Diamoeba', rule: 'B35678/S5678' },
+  { name: 'Replicator', rule: 'B1357/S1357' }
+] as const;
+
+// Elementary rules with characteristic behaviour
+export const ELEMENTARY_RULE_PRESETS = [
+  { name: 'Rule 30 (chaotic)', rule: 30 },
+  { name: 'Rule 90 (Sierpinski)', rule: 90 },
+  { name: 'Rule 110 (complex)', rule: 110 },
+  { name: 'Rule 184 (traffic)', rule: 184 }
+] as const;
+
 // Generator processing limits
 export const GENERATOR_LIMITS = {
   // Canvas size limits
@@ -20,6 +20,7 @@ export interface ToolHotkey {
  * - Alt key temporarily activates eyedropper tool for drawing tools
  * - Ctrl key temporarily activates eraser when pencil is active
  * - Easy to update and maintain hotkeys in one place
+ * - These are the defaults for the tool.* commands in commands.ts; users can rebind them
  */
 export const TOOL_HOTKEYS: ToolHotkey[] = [
   { tool: 'pencil', key: 'b', displayName: 'B', description: 'Brush tool hotkey (Ctrl for temporary eraser)' },
@@ -71,9 +71,18 @@ export const DEFAULT_CANVAS_SIZES = [
   { name: "Wide Terminal (120x40)", width: 120, height: 40 },
   { name: "Square (50x50)", width: 50, height: 50 },
   { name: "Large (100x60)", width: 100, height: 60 },
-  { name: "Max (200x100)", width: 200, height: 100 }
+  { name: "Extra Large (200x100)", width: 200, height: 100 },
+  { name: "Poster (1000x500)", width: 1000, height: 500 }
 ] as const;
 
+// Supported canvas dimensions in characters
+export const CANVAS_SIZE_LIMITS = {
+  minWidth: 4,
+  maxWidth: 1000,
+  minHeight: 4,
+  maxHeight: 500
+} as const;
+
 export const DEFAULT_COLORS = [
   "transparent", "#000000", "#FFFFFF", "#FF0000", "#00FF00", "#0000FF",
   "#FFFF00", "#FF00FF", "#00FFFF", "#808080", "#C0C0C0",
@@ -96,13 +105,17 @@ export const FRAME_RATE_PRESETS = [
 ] as const;
 
 export const MAX_LIMITS = {
-  CANVAS_WIDTH: 200,
-  CANVAS_HEIGHT: 100,
+  CANVAS_WIDTH: CANVAS_SIZE_LIMITS.maxWidth,
+  CANVAS_HEIGHT: CANVAS_SIZE_LIMITS.maxHeight,
   FRAME_COUNT: 500,
   ANIMATION_DURATION: 60000, // 60 seconds in ms
-  UNDO_HISTORY: 50
+  UNDO_HISTORY: 500,
+  HISTORY_SNAPSHOTS: 20
 } as const;
 
+// Default estimated memory the undo history may hold before the oldest steps are dropped
+export const DEFAULT_HISTORY_MEMORY_BUDGET_MB = 128;
+
 export const DEFAULT_FRAME_DURATION = 100; // ms
 export const MIN_FRAME_DURATION = 17; // ms
 export const MAX_FRAME_DURATION = 10000; // ms
@@ -4,7 +4,7 @@
  * Default settings, parameter ranges, and configuration for time-based effects.
  */
 
-import type { WaveWarpSettings, WiggleSettings } from '../types/timeEffects';
+import type { WaveWarpSettings, WiggleSettings, TweenSettings } from '../types/timeEffects';
 
 // ==========================================
 // Wave Warp Effect Constants
@@ -121,3 +121,27 @@ export const TIME_EFFECT_DIALOG_POSITION = {
   INITIAL_Y: -100, // 100px from bottom (calculated from viewport height)
   Z_INDEX: 99999   // Above all other content (matches picker z-index)
 } as const;
+
+// ==========================================
+// Selection Tween Constants
+// ==========================================
+
+/**
+ * Default Selection Tween Settings
+ */
+export const DEFAULT_TWEEN_SETTINGS: TweenSettings = {
+  endFrame: 0,
+  endPosition: { x: 0, y: 0 },
+  easing: 'ease-in-out',
+  frameMode: 'existing',
+  insertCount: 8,
+  followPath: false,
+  clearSource: true
+};
+
+/**
+ * Selection Tween Parameter Ranges
+ */
+export const TWEEN_RANGES = {
+  INSERT_COUNT: { min: 1, max: 60, step: 1 }
+} as const;
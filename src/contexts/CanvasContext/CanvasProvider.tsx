@@ -11,6 +11,8 @@ import { calculateCellDimensions, calculateFontMetrics, DEFAULT_SPACING } from '
 import { DEFAULT_FONT_ID, getFontStack, getFontById } from '@/constants/fonts';
 import { detectAvailableFont } from '@/utils/fontDetection';
 import { loadBundledFont, isFontLoaded } from '@/utils/fontLoader';
+import { EMPTY_VIEWPORT_RECT } from '@/utils/canvasViewport';
+import type { CanvasViewportRect } from '@/utils/canvasViewport';
 
 export const CanvasProvider: React.FC<CanvasProviderProps> = ({
   children,
@@ -26,6 +28,13 @@ export const CanvasProvider: React.FC<CanvasProviderProps> = ({
   const [fontLoadError, setFontLoadError] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1.0);
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
+  const [viewportRect, setViewportRect] = useState<CanvasViewportRect>(EMPTY_VIEWPORT_RECT);
+
+  // Large canvases only draw the scrolled window, so grid pixels are shifted by its origin
+  const drawOffset = useMemo(
+    () => ({ x: panOffset.x - viewportRect.x, y: panOffset.y - viewportRect.y }),
+    [panOffset, viewportRect.x, viewportRect.y]
+  );
 
   const [characterSpacing, setCharacterSpacing] = useState(DEFAULT_SPACING.characterSpacing);
   const [lineSpacing, setLineSpacing] = useState(DEFAULT_SPACING.lineSpacing);
@@ -185,7 +194,9 @@ export const CanvasProvider: React.FC<CanvasProviderProps> = ({
   const contextValue: CanvasContextValue = {
     cellSize,
     zoom,
-    panOffset,
+    panOffset: drawOffset,
+    basePanOffset: panOffset,
+    viewportRect,
     characterSpacing,
     lineSpacing,
     fontSize: cellSize,
@@ -213,6 +224,7 @@ export const CanvasProvider: React.FC<CanvasProviderProps> = ({
     setCellSize,
     setZoom,
     setPanOffset,
+    setViewportRect,
     setCharacterSpacing,
     setLineSpacing,
     setFontSize: setCellSize,
@@ -3,6 +3,7 @@ import type { ReactNode } from 'react';
 import type { Cell } from '@/types';
 import type { PasteModeState } from '@/hooks/usePasteMode';
 import type { FontMetrics } from '@/utils/fontMetrics';
+import type { CanvasViewportRect } from '@/utils/canvasViewport';
 
 export interface SelectionPreviewState {
   active: boolean;
@@ -15,7 +16,9 @@ export interface SelectionPreviewState {
 export interface CanvasState {
   cellSize: number;
   zoom: number;
-  panOffset: { x: number; y: number };
+  panOffset: { x: number; y: number }; // Grid-to-canvas pixel offset, including the scrolled viewport window
+  basePanOffset: { x: number; y: number }; // Pan set via setPanOffset, without viewport scrolling
+  viewportRect: CanvasViewportRect; // Visible window of the canvas scroll container
 
   characterSpacing: number;
   lineSpacing: number;
@@ -63,6 +66,7 @@ export interface CanvasActions {
   setCellSize: (size: number) => void;
   setZoom: (zoom: number) => void;
   setPanOffset: (offset: { x: number; y: number }) => void;
+  setViewportRect: (rect: CanvasViewportRect) => void;
 
   setCharacterSpacing: (spacing: number) => void;
   setLineSpacing: (spacing: number) => void;
@@ -88,7 +92,7 @@ export interface CanvasActions {
 
   setMoveState: (state: CanvasState['moveState']) => void;
 
-  startPasteMode: (position: { x: number; y: number }) => boolean;
+  startPasteMode: (position: { x: number; y: number }, externalData?: Map<string, Cell>) => boolean;
   updatePastePosition: (position: { x: number; y: number }) => void;
   startPasteDrag: (clickPosition: { x: number; y: number }) => void;
   stopPasteDrag: () => void;
@@ -11,7 +11,7 @@ import type {
   UpdateDurationHistoryAction,
   UpdateNameHistoryAction
 } from '../types';
-import { cloneFrame, cloneFrames } from '../utils/frameUtils';
+import { snapshotFrames } from '../utils/frameUtils';
 
 /**
  * Custom hook that provides animation actions with integrated undo/redo history
@@ -86,7 +86,7 @@ export const useAnimationHistory = () => {
       data: {
         originalIndex: index,
         newIndex: index + 1,
-        frame: cloneFrame(frameToDuplicate),
+        frame: frameToDuplicate,
         previousCurrentFrame
       }
     };
@@ -112,7 +112,7 @@ export const useAnimationHistory = () => {
       return;
     }
 
-    const previousFramesSnapshot = cloneFrames(frames);
+    const previousFramesSnapshot = snapshotFrames(frames);
     const previousSelection = Array.from(selectedFrameIndices).sort((a, b) => a - b);
     const previousCurrentFrame = currentFrameIndex;
 
@@ -124,7 +124,7 @@ export const useAnimationHistory = () => {
       currentFrameIndex: currentAfter
     } = useAnimationStore.getState();
 
-    const newFramesSnapshot = cloneFrames(framesAfter);
+    const newFramesSnapshot = snapshotFrames(framesAfter);
     const newSelection = Array.from(selectionAfter).sort((a, b) => a - b);
     const previousFrameIds = new Set(previousFramesSnapshot.map(frame => frame.id));
     const insertedFrameIds = framesAfter
@@ -173,7 +173,7 @@ export const useAnimationHistory = () => {
       description: `Delete frame ${index + 1}`,
       data: {
         frameIndex: index,
-        frame: cloneFrame(frameToDelete),
+        frame: frameToDelete,
         previousCurrentFrame,
         newCurrentFrame
       }
@@ -328,7 +328,7 @@ export const useAnimationHistory = () => {
     ));
     
     // Create history action
-    const previousFramesSnapshot = cloneFrames(frames);
+    const previousFramesSnapshot = snapshotFrames(frames);
 
     const selectionBeforeDelete = Array.from(selectedFrameIndices).sort((a, b) => a - b);
 
@@ -338,7 +338,7 @@ export const useAnimationHistory = () => {
       description: `Delete ${framesToDelete.length} frame${framesToDelete.length > 1 ? 's' : ''}`,
       data: {
         frameIndices: sortedIndices,
-  frames: framesToDelete.map((frame) => cloneFrame(frame)),
+  frames: framesToDelete,
         previousCurrentFrame,
         newCurrentFrame,
         previousFrames: previousFramesSnapshot,
@@ -358,7 +358,7 @@ export const useAnimationHistory = () => {
    */
   const deleteAllFramesWithReset = useCallback(() => {
     const previousCurrentFrame = currentFrameIndex;
-    const framesToSave = cloneFrames(frames);
+    const framesToSave = snapshotFrames(frames);
     
     // Create history action
     const historyAction: import('../types').DeleteAllFramesHistoryAction = {
@@ -4,6 +4,8 @@ import { useToolStore } from '../stores/toolStore';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useAnimationStore } from '../stores/animationStore';
 import { useCanvasContext } from '../contexts/CanvasContext';
+import { useSymmetry } from './useSymmetry';
+import { canEditActiveLayer } from '../utils/layerLock';
 import { BOX_DRAWING_STYLES } from '../constants/boxDrawingStyles';
 import {
   generateBoxRectangle,
@@ -65,6 +67,7 @@ export const useAsciiBoxTool = () => {
   } = useCanvasStore();
   
   const { shiftKeyDown } = useCanvasContext();
+  const { expandSymmetricPoints } = useSymmetry();
   
   const { currentFrameIndex } = useAnimationStore();
   
@@ -144,8 +147,14 @@ export const useAsciiBoxTool = () => {
           selectedBgColor
         );
         
-        // Merge with existing drawn cells and preview
-        const newDrawnCells = new Set([...drawnCells, ...rectDrawn]);
+        // Merge with existing drawn cells and preview (plus symmetric copies)
+        const symmetricRectDrawn = expandSymmetricPoints(
+          Array.from(rectDrawn).map(key => {
+            const [rx, ry] = key.split(',').map(Number);
+            return { x: rx, y: ry };
+          })
+        ).map(point => `${point.x},${point.y}`);
+        const newDrawnCells = new Set([...drawnCells, ...symmetricRectDrawn]);
         const newPreview = new Map(previewData || new Map());
         
         // Update all affected cells with new connections
@@ -176,8 +185,8 @@ export const useAsciiBoxTool = () => {
         const newDrawnCells = new Set(drawnCells);
         const newPreview = new Map(previewData || new Map());
         
-        // Add all cells along the line
-        lineCells.forEach(point => {
+        // Add all cells along the line (and its symmetric copies)
+        expandSymmetricPoints(lineCells).forEach(point => {
             const { affectedCells } = addBoxCell(
               point.x,
               point.y,
@@ -203,27 +212,30 @@ export const useAsciiBoxTool = () => {
         updatePreview(newPreview, newDrawnCells);
         continueDrawing({ x, y });
       } else {
-        // Single click - add one cell
+        // Single click - add one cell (and its symmetric copies)
         const newDrawnCells = new Set(drawnCells);
+        const newPreview = new Map(previewData || new Map());
+        
+        expandSymmetricPoints([{ x, y }]).forEach(point => {
           const { affectedCells } = addBoxCell(
-            x,
-            y,
+            point.x,
+            point.y,
             newDrawnCells,
             currentStyle,
             cells
           );
-        
-        // Update preview with new and affected cells
-        const newPreview = new Map(previewData || new Map());
-        affectedCells.forEach(cellKey => {
-          const [cx, cy] = cellKey.split(',').map(Number);
-          const connections = detectConnections(cx, cy, newDrawnCells, cells);
-          const cellChar = getBoxDrawingCharacter(connections, currentStyle);
           
-          newPreview.set(cellKey, {
-            char: cellChar,
-            color: selectedColor,
-            bgColor: selectedBgColor
+          // Update preview with new and affected cells
+          affectedCells.forEach(cellKey => {
+            const [cx, cy] = cellKey.split(',').map(Number);
+            const connections = detectConnections(cx, cy, newDrawnCells, cells);
+            const cellChar = getBoxDrawingCharacter(connections, currentStyle);
+            
+            newPreview.set(cellKey, {
+              char: cellChar,
+              color: selectedColor,
+              bgColor: selectedBgColor
+            });
           });
         });
         
@@ -231,25 +243,29 @@ export const useAsciiBoxTool = () => {
         continueDrawing({ x, y });
       }
     } else if (drawingMode === 'erase') {
-      // Erase mode - only erase cells in current session
-      const key = `${x},${y}`;
-      if (drawnCells.has(key)) {
+      // Erase mode - only erase cells in current session (and their symmetric copies)
+      const erasePoints = expandSymmetricPoints([{ x, y }]).filter(point => drawnCells.has(`${point.x},${point.y}`));
+      if (erasePoints.length > 0) {
         const newDrawnCells = new Set(drawnCells);
-  const affectedCells = eraseBoxCell(x, y, newDrawnCells);
-        
-        // Update preview - remove erased cell and update neighbors
         const newPreview = new Map(previewData || new Map());
-        newPreview.delete(key);
         
-        affectedCells.forEach(cellKey => {
-          const [cx, cy] = cellKey.split(',').map(Number);
-          const connections = detectConnections(cx, cy, newDrawnCells, cells);
-          const cellChar = getBoxDrawingCharacter(connections, currentStyle);
+        erasePoints.forEach(point => {
+          const key = `${point.x},${point.y}`;
+          const affectedCells = eraseBoxCell(point.x, point.y, newDrawnCells);
           
-          newPreview.set(cellKey, {
-            char: cellChar,
-            color: selectedColor,
-            bgColor: selectedBgColor
+          // Update preview - remove erased cell and update neighbors
+          newPreview.delete(key);
+          
+          affectedCells.forEach(cellKey => {
+            const [cx, cy] = cellKey.split(',').map(Number);
+            const connections = detectConnections(cx, cy, newDrawnCells, cells);
+            const cellChar = getBoxDrawingCharacter(connections, currentStyle);
+            
+            newPreview.set(cellKey, {
+              char: cellChar,
+              color: selectedColor,
+              bgColor: selectedBgColor
+            });
           });
         });
         
@@ -275,7 +291,8 @@ export const useAsciiBoxTool = () => {
     updatePreview,
     continueDrawing,
     shiftKeyDown,
-    clearLinePreview
+    clearLinePreview,
+    expandSymmetricPoints
   ]);
   
   // Handle mouse drag for free draw mode
@@ -298,7 +315,7 @@ export const useAsciiBoxTool = () => {
     const newDrawnCells = new Set(drawnCells);
     const newPreview = new Map(previewData || new Map());
     
-    cellsToAdd.forEach(point => {
+    expandSymmetricPoints(cellsToAdd).forEach(point => {
         const { affectedCells } = addBoxCell(
           point.x,
           point.y,
@@ -335,7 +352,8 @@ export const useAsciiBoxTool = () => {
     selectedColor,
     selectedBgColor,
     updatePreview,
-    continueDrawing
+    continueDrawing,
+    expandSymmetricPoints
   ]);
   
   // Handle erase drag
@@ -358,7 +376,7 @@ export const useAsciiBoxTool = () => {
     const newDrawnCells = new Set(drawnCells);
     const newPreview = new Map(previewData || new Map());
     
-    cellsToErase.forEach(point => {
+    expandSymmetricPoints(cellsToErase).forEach(point => {
       const key = `${point.x},${point.y}`;
       if (newDrawnCells.has(key)) {
   const affectedCells = eraseBoxCell(point.x, point.y, newDrawnCells);
@@ -395,7 +413,8 @@ export const useAsciiBoxTool = () => {
     selectedColor,
     selectedBgColor,
     updatePreview,
-    continueDrawing
+    continueDrawing,
+    expandSymmetricPoints
   ]);
   
   // Start drawing (mouse down)
@@ -475,6 +494,7 @@ export const useAsciiBoxTool = () => {
   // Apply preview to canvas
   const applyPreview = useCallback(() => {
     if (!previewData || previewData.size === 0) return;
+    if (!canEditActiveLayer()) return;
     
     // Store original for undo
     const originalCells = new Map(cells);
@@ -12,9 +12,14 @@ import { useCanvasState } from './useCanvasState';
 import { useAnimationStore } from '../stores/animationStore';
 import { useAsciiTypeTool } from './useAsciiTypeTool';
 import { useAsciiTypeStore } from '../stores/asciiTypeStore';
+import { useSymmetryStore } from '../stores/symmetryStore';
 import { useAsciiBoxTool } from './useAsciiBoxTool';
+import { canEditActiveLayer } from '../utils/layerLock';
 import type { Tool } from '../types';
 
+// Tools that only read the canvas and stay usable on a locked layer
+const NON_EDITING_TOOLS: ReadonlyArray<Tool> = ['select', 'lasso', 'magicwand', 'eyedropper'];
+
 export interface MouseHandlers {
   handleMouseDown: (event: React.MouseEvent<HTMLCanvasElement>) => void;
   handleMouseMove: (event: React.MouseEvent<HTMLCanvasElement>) => void;
@@ -138,11 +143,24 @@ export const useCanvasMouseHandlers = (): MouseHandlers => {
       return;
     }
 
+    // Place the symmetry center instead of drawing
+    const symmetry = useSymmetryStore.getState();
+    if (symmetry.isPlacingCenter && event.button === 0) {
+      symmetry.setCenter(getGridCoordinatesFromEvent(event));
+      symmetry.setPlacingCenter(false);
+      return;
+    }
+
     const { selectedFrameIndices } = useAnimationStore.getState();
     if (selectedFrameIndices.size > 1) {
       clearTimelineSelection();
     }
 
+    // Locked layers reject edits from drawing tools
+    if (!NON_EDITING_TOOLS.includes(effectiveTool) && !canEditActiveLayer()) {
+      return;
+    }
+
     // Handle paste mode interactions first
     if (pasteMode.isActive && pasteMode.preview) {
       const { x, y } = getGridCoordinatesFromEvent(event);
@@ -163,6 +181,9 @@ export const useCanvasMouseHandlers = (): MouseHandlers => {
           startPasteDrag({ x, y });
         } else {
           // Click outside preview commits the paste
+          if (!canEditActiveLayer()) {
+            return;
+          }
           const pastedData = commitPaste();
           if (pastedData) {
             // Apply the paste to canvas
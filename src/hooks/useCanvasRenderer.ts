@@ -1,10 +1,11 @@
-import { useCallback, useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useToolStore } from '../stores/toolStore';
 import { usePreviewStore } from '../stores/previewStore';
 import { useEffectsStore } from '../stores/effectsStore';
 import { useTimeEffectsStore } from '../stores/timeEffectsStore';
 import { useAsciiTypeStore } from '../stores/asciiTypeStore';
+import { useAnimationStore } from '../stores/animationStore';
 import { useCanvasContext } from '../contexts/CanvasContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useCanvasState } from './useCanvasState';
@@ -17,8 +18,18 @@ import {
 } from '../utils/canvasTextRendering';
 import { getFontString } from '../utils/fontMetrics';
 import { scheduleCanvasRender } from '../utils/renderScheduler';
-import { markFullRedraw } from '../utils/dirtyTracker';
+import { dirtyTracker, markFullRedraw } from '../utils/dirtyTracker';
 import { calculateAdaptiveGridColor } from '../utils/gridColor';
+import { compositeFrame, hasLayers } from '../utils/layerUtils';
+import { applyEffectStack } from '../utils/effectStack';
+import {
+  cellRegionToPixelRect,
+  forEachCellInRegion,
+  getCellRegionArea,
+  getVisibleCellRegion,
+  intersectCellRegions
+} from '../utils/canvasViewport';
+import type { CellRegion } from '../utils/canvasViewport';
 import type { Cell } from '../types';
 
 /**
@@ -61,6 +72,8 @@ const setupHighDPICanvas = (
  * - Memoized font and style calculations
  * - Grid-level change detection
  * - Performance measurement
+ * - Viewport culling (only cells inside the visible window are drawn)
+ * - Dirty-region redraw for plain cell edits
  */
 export const useCanvasRenderer = () => {
   const { canvasRef, pasteMode, panOffset, fontMetrics, isFontLoading } = useCanvasContext();
@@ -72,16 +85,21 @@ export const useCanvasRenderer = () => {
     moveState,
     canvasWidth,
     canvasHeight,
+    displaySize,
     getTotalOffset,
   } = useCanvasState();
+  const { width: displayWidth, height: displayHeight } = displaySize;
 
   const { 
     width, 
     height, 
     canvasBackgroundColor,
     showGrid,
-    getCell
+    cells
   } = useCanvasStore();
+  const currentFrame = useAnimationStore((state) => state.frames[state.currentFrameIndex]);
+  const onionSkinVisible = useAnimationStore((state) => state.onionSkin.enabled && !state.isPlaying);
+  const effectStack = useEffectsStore((state) => state.effectStack);
 
   const { activeTool, rectangleFilled, lassoSelection, magicWandSelection, textToolState, linePreview } = useToolStore();
   const { previewData, isPreviewActive } = usePreviewStore();
@@ -101,18 +119,44 @@ export const useCanvasRenderer = () => {
     getTotalOffset
   );
 
+  // Composite the live canvas (active layer) with the frame's other layers
+  const layeredCells = useMemo(() => (
+    currentFrame && hasLayers(currentFrame) ? compositeFrame(currentFrame, cells) : null
+  ), [currentFrame, cells]);
+
+  // Evaluate the non-destructive effect stack on top of the frame artwork
+  const stackedCells = useMemo(() => (
+    currentFrame && effectStack.some(entry => entry.enabled)
+      ? applyEffectStack(layeredCells ?? cells, effectStack, currentFrame.id, canvasBackgroundColor)
+      : null
+  ), [effectStack, layeredCells, cells, currentFrame, canvasBackgroundColor]);
+  const displayCells = stackedCells ?? layeredCells;
+
   // Memoize canvas dimensions and styling to reduce re-renders
   const canvasConfig = useMemo(() => ({
     width,
     height,
     canvasWidth,
     canvasHeight,
+    displayWidth,
+    displayHeight,
     effectiveCellWidth,
     effectiveCellHeight,
     panOffset,
     showGrid,
     canvasBackgroundColor
-  }), [width, height, canvasWidth, canvasHeight, effectiveCellWidth, effectiveCellHeight, panOffset, showGrid, canvasBackgroundColor]);
+  }), [width, height, canvasWidth, canvasHeight, displayWidth, displayHeight, effectiveCellWidth, effectiveCellHeight, panOffset, showGrid, canvasBackgroundColor]);
+
+  // Cells covered by the visible window of the canvas
+  const visibleRegion = useMemo(() => getVisibleCellRegion(
+    displayWidth,
+    displayHeight,
+    panOffset,
+    effectiveCellWidth,
+    effectiveCellHeight,
+    width,
+    height
+  ), [displayWidth, displayHeight, panOffset, effectiveCellWidth, effectiveCellHeight, width, height]);
 
   // Memoize tool state to reduce re-renders
   const toolState = useMemo(() => ({
@@ -180,31 +224,66 @@ export const useCanvasRenderer = () => {
     }
   }, [effectiveCellWidth, effectiveCellHeight, panOffset, canvasBackgroundColor, drawingStyles]);
 
-  // Separate function to render grid background
-  const drawGridBackground = useCallback((ctx: CanvasRenderingContext2D) => {
+  // Separate function to render grid background (limited to the given cell region)
+  const drawGridBackground = useCallback((ctx: CanvasRenderingContext2D, region: CellRegion) => {
     if (!showGrid) return;
     
     ctx.strokeStyle = drawingStyles.gridLineColor;
     ctx.lineWidth = drawingStyles.gridLineWidth;
+
+    const top = region.minY * effectiveCellHeight + panOffset.y;
+    const bottom = (region.maxY + 1) * effectiveCellHeight + panOffset.y;
+    const left = region.minX * effectiveCellWidth + panOffset.x;
+    const right = (region.maxX + 1) * effectiveCellWidth + panOffset.x;
     
     // Draw vertical lines
-    for (let x = 0; x <= width; x++) {
+    for (let x = region.minX; x <= region.maxX + 1; x++) {
       const lineX = Math.round(x * effectiveCellWidth + panOffset.x) + 0.5;
       ctx.beginPath();
-      ctx.moveTo(lineX, panOffset.y);
-      ctx.lineTo(lineX, height * effectiveCellHeight + panOffset.y);
+      ctx.moveTo(lineX, top);
+      ctx.lineTo(lineX, bottom);
       ctx.stroke();
     }
     
     // Draw horizontal lines
-    for (let y = 0; y <= height; y++) {
+    for (let y = region.minY; y <= region.maxY + 1; y++) {
       const lineY = Math.round(y * effectiveCellHeight + panOffset.y) + 0.5;
       ctx.beginPath();
-      ctx.moveTo(panOffset.x, lineY);
-      ctx.lineTo(width * effectiveCellWidth + panOffset.x, lineY);
+      ctx.moveTo(left, lineY);
+      ctx.lineTo(right, lineY);
       ctx.stroke();
     }
-  }, [width, height, effectiveCellWidth, effectiveCellHeight, panOffset, drawingStyles, showGrid]);
+  }, [effectiveCellWidth, effectiveCellHeight, panOffset, drawingStyles, showGrid]);
+
+  // Inputs that affect more than individual cells; a change forces a full redraw
+  const viewSignature = useMemo(() => [
+    canvasConfig,
+    drawingStyles,
+    displayCells,
+    toolState,
+    overlayState,
+    previewData,
+    isPreviewActive,
+    isEffectPreviewActive,
+    isTimeEffectPreviewActive,
+    previewOrigin,
+    previewDimensions,
+    onionSkinVisible
+  ], [
+    canvasConfig,
+    drawingStyles,
+    displayCells,
+    toolState,
+    overlayState,
+    previewData,
+    isPreviewActive,
+    isEffectPreviewActive,
+    isTimeEffectPreviewActive,
+    previewOrigin,
+    previewDimensions,
+    onionSkinVisible
+  ]);
+  const lastFullRenderSignatureRef = useRef<unknown[] | null>(null);
 
   // Optimized render function with performance measurement and subtle DPI improvements
   const renderCanvas = useCallback(() => {
@@ -220,18 +299,78 @@ export const useCanvasRenderer = () => {
     // Start performance measurement
     measureCanvasRender();
 
+    // Plain cell edits with nothing drawn on top only repaint the dirty cells
+    const dirtyBounds = dirtyTracker.getRenderBounds(canvasConfig.width, canvasConfig.height);
+    const lastSignature = lastFullRenderSignatureRef.current;
+    const hasMainCanvasOverlays = Boolean(
+      moveState
+      || overlayState.selectionData
+      || toolState.lassoSelection.active
+      || toolState.linePreview.active
+      || pasteMode.isActive
+      || (isPreviewActive && previewData.size > 0)
+      || textToolState.isTyping
+      || onionSkinVisible
+    );
+    const canRenderDirtyRegion = dirtyBounds !== null
+      && !hasMainCanvasOverlays
+      && lastSignature !== null
+      && lastSignature.length === viewSignature.length
+      && lastSignature.every((value, index) => value === viewSignature[index]);
+    dirtyTracker.clear();
+
+    if (canRenderDirtyRegion) {
+      const region = visibleRegion ? intersectCellRegions(dirtyBounds, visibleRegion) : null;
+      if (region) {
+        const rect = cellRegionToPixelRect(region, canvasConfig.panOffset, canvasConfig.effectiveCellWidth, canvasConfig.effectiveCellHeight);
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(rect.x, rect.y, rect.width, rect.height);
+        ctx.clip();
+
+        if (canvasConfig.canvasBackgroundColor === 'transparent') {
+          ctx.clearRect(rect.x, rect.y, rect.width, rect.height);
+        } else {
+          ctx.fillStyle = canvasConfig.canvasBackgroundColor;
+          ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+        }
+
+        drawGridBackground(ctx, region);
+
+        ctx.font = drawingStyles.font;
+        ctx.textAlign = drawingStyles.textAlign;
+        ctx.textBaseline = drawingStyles.textBaseline;
+        forEachCellInRegion(displayCells ?? useCanvasStore.getState().cells, region, (x, y, cell) => {
+          drawCell(ctx, x, y, cell);
+        });
+
+        ctx.restore();
+        finishCanvasRender(getCellRegionArea(region));
+      }
+      return;
+    }
+
+    lastFullRenderSignatureRef.current = viewSignature;
+
     // Clear canvas and fill with background color
     if (canvasConfig.canvasBackgroundColor === 'transparent') {
       // For transparent backgrounds, clear the canvas completely
-      ctx.clearRect(0, 0, canvasConfig.canvasWidth, canvasConfig.canvasHeight);
+      ctx.clearRect(0, 0, canvasConfig.displayWidth, canvasConfig.displayHeight);
     } else {
       // For solid backgrounds, fill with the background color
       ctx.fillStyle = canvasConfig.canvasBackgroundColor;
-      ctx.fillRect(0, 0, canvasConfig.canvasWidth, canvasConfig.canvasHeight);
+      ctx.fillRect(0, 0, canvasConfig.displayWidth, canvasConfig.displayHeight);
+    }
+
+    // Nothing of the grid is inside the visible window
+    if (!visibleRegion) {
+      finishCanvasRender(0);
+      return;
     }
 
     // Render grid background layer first (behind content)
-    drawGridBackground(ctx);
+    drawGridBackground(ctx, visibleRegion);
 
     // Render onion skin layers (previous and next frames)
     renderOnionSkins();
@@ -250,28 +389,26 @@ export const useCanvasRenderer = () => {
       });
     }
 
-    // Draw static cells (excluding cells being moved)
+    // Draw static cells inside the visible window (excluding cells being moved)
     // Skip drawing original cells if time effects preview OR effects preview is active (preview will render all cells)
     if (!isTimeEffectPreviewActive && !isEffectPreviewActive) {
-      for (let y = 0; y < canvasConfig.height; y++) {
-        for (let x = 0; x < canvasConfig.width; x++) {
-          const key = `${x},${y}`;
-          
-          if (movingCells.has(key)) {
-            // Draw empty cell in original position during move
-            drawCell(ctx, x, y, { 
-              char: ' ', 
-              color: drawingStyles.defaultTextColor, 
-              bgColor: drawingStyles.defaultBgColor 
-            });
-          } else {
-            const cell = getCell(x, y);
-            if (cell) {
-              drawCell(ctx, x, y, cell);
-            }
-          }
+      forEachCellInRegion(displayCells ?? useCanvasStore.getState().cells, visibleRegion, (x, y, cell, key) => {
+        if (!movingCells.has(key)) {
+          drawCell(ctx, x, y, cell);
         }
-      }
+      });
+
+      // Draw empty cells in the original positions during move
+      movingCells.forEach((key) => {
+        const [x, y] = key.split(',').map(Number);
+        if (x >= visibleRegion.minX && x <= visibleRegion.maxX && y >= visibleRegion.minY && y <= visibleRegion.maxY) {
+          drawCell(ctx, x, y, { 
+            char: ' ', 
+            color: drawingStyles.defaultTextColor, 
+            bgColor: drawingStyles.defaultBgColor 
+          });
+        }
+      });
     }
 
     // Draw moved cells at their new positions
@@ -473,8 +610,8 @@ export const useCanvasRenderer = () => {
         ctx.save();
         ctx.globalAlpha = previewAlpha;
         
-        for (let y = 0; y < canvasConfig.height; y++) {
-          for (let x = 0; x < canvasConfig.width; x++) {
+        for (let y = visibleRegion.minY; y <= visibleRegion.maxY; y++) {
+          for (let x = visibleRegion.minX; x <= visibleRegion.maxX; x++) {
             const key = `${x},${y}`;
             const previewCell = previewData.get(key);
             
@@ -543,16 +680,17 @@ export const useCanvasRenderer = () => {
     }
 
     // Finish performance measurement
-    const totalCells = width * height;
-    finishCanvasRender(totalCells);
+    finishCanvasRender(getCellRegionArea(visibleRegion));
 
   }, [
     // Use memoized objects to reduce re-renders
     canvasConfig,
     toolState,
     overlayState,
+    visibleRegion,
+    viewSignature,
   // Keep these individual dependencies for now
-  getCell,
+  displayCells,
   drawCell,
   drawGridBackground,
     getTotalOffset,
@@ -569,6 +707,7 @@ export const useCanvasRenderer = () => {
     // ASCII Type preview outline state
     previewOrigin,
     previewDimensions,
+    onionSkinVisible,
     // Additional direct dependencies referenced in the callback
     activeTool,
     canvasBackgroundColor,
@@ -595,22 +734,29 @@ export const useCanvasRenderer = () => {
     scheduleRender();
   }, [scheduleRender]);
 
-  // Re-render when dependencies change (now throttled)
+  // Re-render when dependencies or cells change (now throttled)
+  // Cell edits tracked by the dirty tracker only repaint their region
   useEffect(() => {
-    triggerRender();
-  }, [triggerRender]);
+    scheduleRender();
+  }, [cells, scheduleRender]);
+
+  // Latest render function for the resize effect, which must not re-run on every edit
+  const renderCanvasRef = useRef(renderCanvas);
+  renderCanvasRef.current = renderCanvas;
 
   // Handle canvas resize with high-DPI setup
+  // The canvas element only covers the visible window, so large canvases stay within browser limits
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    // Setup high-DPI canvas for crisp text rendering
-    setupHighDPICanvas(canvas, canvasWidth, canvasHeight);
+    // Setup high-DPI canvas for crisp text rendering (this also clears the canvas)
+    setupHighDPICanvas(canvas, displayWidth, displayHeight);
     
     // Re-render after resize (immediate for resize)
-    renderCanvas();
-  }, [canvasWidth, canvasHeight, renderCanvas, canvasRef]);
+    markFullRedraw();
+    renderCanvasRef.current();
+  }, [displayWidth, displayHeight, canvasRef]);
 
   return {
     renderCanvas,
@@ -0,0 +1,86 @@
+import { useCallback } from 'react';
+import { useCanvasStore } from '../stores/canvasStore';
+import { useToolStore } from '../stores/toolStore';
+import { useAnimationStore } from '../stores/animationStore';
+import { clampCanvasSize, resizeAllFrames } from '../utils/canvasResizeUtils';
+import type { CanvasAnchor, CanvasResizeHistoryAction, Cell } from '../types';
+
+/**
+ * Hook for resizing the canvas around an anchor point across all frames
+ * Records a single undoable canvas_resize entry holding every frame and layer
+ */
+export function useCanvasResize() {
+  const { width: canvasWidth, height: canvasHeight, cells, setCanvasSize, setCanvasData } = useCanvasStore();
+  const { frames, currentFrameIndex, selectedFrameIndices, replaceFrames } = useAnimationStore();
+  const { clearSelection, clearLassoSelection, clearMagicWandSelection } = useToolStore();
+
+  /**
+   * Resize the canvas, shifting every frame relative to the anchor
+   * Optionally fills newly exposed space with fillCell
+   */
+  const resizeCanvas = useCallback((
+    width: number,
+    height: number,
+    anchor: CanvasAnchor,
+    fillCell?: Cell | null
+  ) => {
+    const newSize = clampCanvasSize(width, height);
+    const previousSize = { width: canvasWidth, height: canvasHeight };
+
+    if (newSize.width === previousSize.width && newSize.height === previousSize.height) {
+      return;
+    }
+
+    // Use the live canvas for the current frame in case it hasn't been synced yet
+    // Other frames are shared with history (frames are replaced, not mutated)
+    const previousFrames = frames.map((frame, index) => (
+      index === currentFrameIndex ? { ...frame, data: new Map(cells) } : frame
+    ));
+    const resizedFrames = resizeAllFrames(previousFrames, previousSize, newSize, anchor, fillCell);
+
+    // Selections refer to the old coordinates
+    clearSelection();
+    clearLassoSelection();
+    clearMagicWandSelection();
+
+    replaceFrames(resizedFrames, currentFrameIndex, Array.from(selectedFrameIndices));
+    setCanvasSize(newSize.width, newSize.height);
+    setCanvasData(resizedFrames[currentFrameIndex]?.data ?? new Map());
+
+    // Whole frames are stored so undo/redo restores every layer along with the size
+    const action: CanvasResizeHistoryAction = {
+      type: 'canvas_resize',
+      timestamp: Date.now(),
+      description: `Resize canvas from ${previousSize.width}×${previousSize.height} to ${newSize.width}×${newSize.height} (${anchor})`,
+      data: {
+        previousWidth: previousSize.width,
+        previousHeight: previousSize.height,
+        newWidth: newSize.width,
+        newHeight: newSize.height,
+        previousCanvasData: previousFrames[currentFrameIndex]?.data ?? new Map(cells),
+        frameIndex: currentFrameIndex,
+        previousFrames,
+        newFrames: resizedFrames
+      }
+    };
+
+    useToolStore.getState().pushToHistory(action);
+  }, [
+    canvasWidth,
+    canvasHeight,
+    cells,
+    frames,
+    currentFrameIndex,
+    selectedFrameIndices,
+    setCanvasSize,
+    setCanvasData,
+    replaceFrames,
+    clearSelection,
+    clearLassoSelection,
+    clearMagicWandSelection
+  ]);
+
+  return {
+    resizeCanvas
+  };
+}
@@ -2,6 +2,8 @@ import { useCallback } from 'react';
 import { useCanvasContext } from '../contexts/CanvasContext';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useToolStore } from '../stores/toolStore';
+import { getCanvasDisplaySize } from '../utils/canvasViewport';
+import { canEditActiveLayer } from '../utils/layerLock';
 
 /**
  * Custom hook that provides canvas state management functionality
@@ -18,6 +20,7 @@ export const useCanvasState = () => {
     cellHeight,
     zoom,
     panOffset,
+    viewportRect,
     selectionMode,
     moveState,
     pendingSelectionStart,
@@ -82,6 +85,12 @@ export const useCanvasState = () => {
       return;
     }
 
+    // A locked layer keeps its cells where they were
+    if (!canEditActiveLayer()) {
+      setMoveState(null);
+      return;
+    }
+
     const totalOffset = {
       x: moveState.baseOffset.x + moveState.currentOffset.x,
       y: moveState.baseOffset.y + moveState.currentOffset.y
@@ -173,6 +182,9 @@ export const useCanvasState = () => {
     // Canvas dimensions (with zoom applied)
     canvasWidth: width * cellWidth * zoom,
     canvasHeight: height * cellHeight * zoom,
+
+    // Size of the canvas element (the visible window when the canvas is larger than the viewport)
+    displaySize: getCanvasDisplaySize(width * cellWidth * zoom, height * cellHeight * zoom, viewportRect),
     
     // Effective cell dimensions for rendering  
     effectiveCellWidth: cellWidth * zoom,
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useCanvasContext } from '../contexts/CanvasContext';
+import type { CanvasViewportRect } from '../utils/canvasViewport';
+
+/**
+ * Hook that tracks the visible window of the canvas scroll container
+ * Keeps viewportRect in the canvas context in sync with scrolling and resizing
+ * so large canvases only render the cells that are on screen
+ */
+export const useCanvasViewport = (scrollContainerRef: RefObject<HTMLDivElement | null>) => {
+  const { setViewportRect } = useCanvasContext();
+  const lastRectRef = useRef<CanvasViewportRect | null>(null);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const updateViewport = () => {
+      const next: CanvasViewportRect = {
+        x: container.scrollLeft,
+        y: container.scrollTop,
+        width: container.clientWidth,
+        height: container.clientHeight
+      };
+
+      // Skip no-op updates so scrolling doesn't re-render context consumers needlessly
+      const last = lastRectRef.current;
+      if (last && last.x === next.x && last.y === next.y && last.width === next.width && last.height === next.height) {
+        return;
+      }
+
+      lastRectRef.current = next;
+      setViewportRect(next);
+    };
+
+    updateViewport();
+
+    container.addEventListener('scroll', updateViewport, { passive: true });
+    const resizeObserver = typeof ResizeObserver !== 'undefined'
+      ? new ResizeObserver(updateViewport)
+      : null;
+    resizeObserver?.observe(container);
+
+    return () => {
+      container.removeEventListener('scroll', updateViewport);
+      resizeObserver?.disconnect();
+    };
+  }, [scrollContainerRef, setViewportRect]);
+};
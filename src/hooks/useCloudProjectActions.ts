@@ -21,70 +21,17 @@ import type { SessionData } from '@ascii-motion/premium';
 import type { ExportDataBundle } from '../types/export';
 import { saveAs } from 'file-saver';
 import { useSessionImporter } from '../utils/sessionImporter';
+import { buildSessionData } from '../utils/sessionFormat';
 import { useProjectMetadataStore } from '../stores/projectMetadataStore';
 
 export function useCloudProjectActions() {
-  const { currentProjectId, setCurrentProjectId } = useProjectMetadataStore();
+  const { currentProjectId, setCurrentProjectId, markDocumentSaved } = useProjectMetadataStore();
   const [showProjectsDialog, setShowProjectsDialog] = useState(false);
   const [projectsRefreshTrigger, setProjectsRefreshTrigger] = useState(0);
 
   const { saveToCloud, saveProgress, saveProgressMessage } = useCloudProject();
   const { importSession } = useSessionImporter();
 
-  /**
-   * Convert export data to SessionData format
-   */
-  const createSessionData = useCallback((data: ExportDataBundle): SessionData => {
-    return {
-      version: '1.0.0',
-      name: data.name,
-      description: data.description,
-      metadata: {
-        exportedAt: new Date().toISOString(),
-        exportVersion: '1.0.0',
-      },
-      canvas: {
-        width: data.canvasDimensions.width,
-        height: data.canvasDimensions.height,
-        canvasBackgroundColor: data.canvasBackgroundColor,
-        showGrid: data.showGrid,
-      },
-      animation: {
-        frames: data.frames.map((frame) => ({
-          id: frame.id,
-          name: frame.name,
-          duration: frame.duration,
-          data: Object.fromEntries(frame.data.entries()),
-        })),
-        currentFrameIndex: data.currentFrameIndex,
-        frameRate: data.frameRate,
-        looping: data.looping,
-      },
-      tools: {
-        activeTool: data.toolState.activeTool,
-        selectedCharacter: data.toolState.selectedCharacter,
-        selectedColor: data.toolState.selectedColor,
-        selectedBgColor: data.toolState.selectedBgColor,
-        paintBucketContiguous: data.toolState.paintBucketContiguous,
-        rectangleFilled: data.toolState.rectangleFilled,
-      },
-      ui: {
-        theme: data.uiState.theme,
-        zoom: data.uiState.zoom,
-        panOffset: data.uiState.panOffset,
-        fontMetrics: data.fontMetrics,
-      },
-      typography: {
-        fontSize: data.typography.fontSize,
-        characterSpacing: data.typography.characterSpacing,
-        lineSpacing: data.typography.lineSpacing,
-        selectedFontId: data.typography.selectedFontId,
-      },
-      palettes: data.paletteState,
-      characterPalettes: data.characterPaletteState,
-    };
-  }, []);
-
   /**
    * Check if a project is currently published
    */
@@ -117,8 +64,8 @@ export function useCloudProjectActions() {
   const handleSaveToCloud = useCallback(
     async (exportData: ExportDataBundle, projectName?: string, description?: string, forceNew?: boolean) => {
       try {
-        // Create session data from current state
-        const sessionData = createSessionData(exportData);
+        // Same document the session file export and the local library write
+        const sessionData = buildSessionData(exportData, { includeMetadata: true });
 
         // Check if updating an existing published project
         const isUpdatingPublished = !forceNew && currentProjectId && await checkIfPublished(currentProjectId);
@@ -133,6 +80,7 @@ export function useCloudProjectActions() {
 
         if (project) {
           setCurrentProjectId(project.id);
+          markDocumentSaved();
 
           // If we're updating a published project, regenerate preview images
           if (isUpdatingPublished) {
@@ -201,7 +149,7 @@ export function useCloudProjectActions() {
       }
       return null;
     },
-    [saveToCloud, currentProjectId, createSessionData, setCurrentProjectId, checkIfPublished]
+    [saveToCloud, currentProjectId, setCurrentProjectId, markDocumentSaved, checkIfPublished]
   );
 
   /**
@@ -238,12 +186,13 @@ export function useCloudProjectActions() {
 
         // Update current project tracking
         setCurrentProjectId(projectId);
+        markDocumentSaved();
       } catch (err) {
         console.error('[CloudActions] Load failed:', err);
         throw err;
       }
     },
-    [importSession, setCurrentProjectId]
+    [importSession, setCurrentProjectId, markDocumentSaved]
   );
 
   /**
@@ -255,20 +204,11 @@ export function useCloudProjectActions() {
       try {
         const typedSessionData = sessionData as SessionData;
         
-        // Use the same export structure as exportRenderer.exportSession
-        // This ensures consistency between local exports and cloud downloads
+        // Cloud projects are stored as session documents already; keep every field
+        // (effect stack, tool presets) and the version they were written with
         const exportData = {
-          version: '1.0.0',
+          ...typedSessionData,
           name: typedSessionData.name || projectName,
-          description: typedSessionData.description,
-          metadata: typedSessionData.metadata,
-          canvas: typedSessionData.canvas,
-          animation: typedSessionData.animation,
-          tools: typedSessionData.tools,
-          ui: typedSessionData.ui,
-          typography: typedSessionData.typography,
-          palettes: typedSessionData.palettes,
-          characterPalettes: typedSessionData.characterPalettes,
         };
         
         // Create blob and download with consistent formatting
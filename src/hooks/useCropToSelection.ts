@@ -4,6 +4,8 @@ import { useCanvasStore } from '../stores/canvasStore';
 import { useToolStore } from '../stores/toolStore';
 import { useAnimationStore } from '../stores/animationStore';
 import { cropCanvasToSelection, cropAllFramesToSelection } from '../utils/cropUtils';
+import { CANVAS_SIZE_LIMITS } from '../constants';
+import { canEditActiveLayer } from '../utils/layerLock';
 import type { CanvasResizeHistoryAction } from '../types';
 
 /**
@@ -13,7 +15,7 @@ import type { CanvasResizeHistoryAction } from '../types';
 export function useCropToSelection() {
   const { width: canvasWidth, height: canvasHeight, cells, setCanvasSize, setCanvasData } = useCanvasStore();
   const { selection, lassoSelection, magicWandSelection, activeTool, clearSelection, clearLassoSelection, clearMagicWandSelection } = useToolStore();
-  const { frames, currentFrameIndex, setFrameData } = useAnimationStore();
+  const { frames, currentFrameIndex, selectedFrameIndices, replaceFrames } = useAnimationStore();
 
   /**
    * Get the current active selection's cells based on active tool
@@ -49,6 +51,9 @@ export function useCropToSelection() {
       console.warn('No active selection to crop to');
       return;
     }
+    if (!canEditActiveLayer()) {
+      return;
+    }
 
     // Crop current frame to get new dimensions
     const cropResult = cropCanvasToSelection(cells, selectedCells);
@@ -61,36 +66,42 @@ export function useCropToSelection() {
     const { newWidth, newHeight, croppedCells } = cropResult;
 
     // Validate new dimensions
-    if (newWidth < 4 || newWidth > 200 || newHeight < 4 || newHeight > 100) {
+    if ((
+      newWidth < CANVAS_SIZE_LIMITS.minWidth || newWidth > CANVAS_SIZE_LIMITS.maxWidth
+      || newHeight < CANVAS_SIZE_LIMITS.minHeight || newHeight > CANVAS_SIZE_LIMITS.maxHeight
+    )) {
       toast.error('Cannot execute crop: minimum canvas size is 4x4 characters.');
       return;
     }
 
-    // Save previous state for undo - including ALL frames
+    // Save previous state for undo - including ALL frames and layers
+    // Use the live canvas for the current frame in case it hasn't been synced yet
     const previousWidth = canvasWidth;
     const previousHeight = canvasHeight;
     const previousCells = new Map(cells);
-    const previousAllFramesData = frames.map(frame => new Map(frame.data));
+    const previousFrames = frames.map((frame, index) => (
+      index === currentFrameIndex ? { ...frame, data: previousCells } : frame
+    ));
 
     // Crop all frames
-    const croppedFrames = cropAllFramesToSelection(frames, selectedCells);
+    const croppedFrames = cropAllFramesToSelection(previousFrames, selectedCells);
     
     if (!croppedFrames) {
       console.warn('Failed to crop frames');
       return;
     }
 
-    // Apply crop to all frames
-    croppedFrames.forEach((croppedFrameData, index) => {
-      setFrameData(index, croppedFrameData);
-    });
+    // The current layer keeps only the selected cells
+    if (croppedFrames[currentFrameIndex]) {
+      croppedFrames[currentFrameIndex] = { ...croppedFrames[currentFrameIndex], data: croppedCells };
+    }
 
-    // Apply crop to current canvas
+    // Apply crop to all frames and the current canvas
+    replaceFrames(croppedFrames, currentFrameIndex, Array.from(selectedFrameIndices));
     setCanvasSize(newWidth, newHeight);
     setCanvasData(croppedCells);
 
-    // Add to history - we'll use a custom approach to store all frames
-    // We'll create a canvas_resize action but extend it with all frames data
+    // Add to history as a canvas_resize action holding every frame
     const action: CanvasResizeHistoryAction = {
       type: 'canvas_resize' as const,
       timestamp: Date.now(),
@@ -102,10 +113,9 @@ export function useCropToSelection() {
         newHeight,
         previousCanvasData: previousCells,
         frameIndex: currentFrameIndex,
-        // Store all frames' previous data for crop operations
-        allFramesPreviousData: previousAllFramesData,
-        allFramesNewData: croppedFrames,
-        isCropOperation: true
+        // Store whole frames so undo/redo restores every layer
+        previousFrames,
+        newFrames: croppedFrames
       }
     };
     
@@ -129,10 +139,11 @@ export function useCropToSelection() {
     canvasHeight,
     frames,
     currentFrameIndex,
+    selectedFrameIndices,
     activeTool,
     setCanvasSize,
     setCanvasData,
-    setFrameData,
+    replaceFrames,
     clearSelection,
     clearLassoSelection,
     clearMagicWandSelection
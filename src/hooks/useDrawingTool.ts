@@ -2,7 +2,9 @@ import { useCallback } from 'react';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useToolStore } from '../stores/toolStore';
 import { useCanvasContext } from '../contexts/CanvasContext';
+import { useSymmetry } from './useSymmetry';
 import { calculateBrushCells } from '../utils/brushUtils';
+import { transformSymmetryChar } from '../utils/symmetryUtils';
 import type { Cell } from '../types';
 
 /**
@@ -29,11 +31,12 @@ export const useDrawingTool = () => {
     fillMatchBgColor
   } = useToolStore();
   const { fontMetrics } = useCanvasContext();
+  const { getSymmetricPoints } = useSymmetry();
 
   // Helper function to create a cell respecting the tool toggles
-  const createCellWithToggles = useCallback((x: number, y: number): Cell => {
+  const createCellWithToggles = useCallback((x: number, y: number, char: string = selectedChar): Cell => {
     const existingCell = getCell(x, y);
-    const newChar = toolAffectsChar ? selectedChar : (existingCell?.char || ' ');
+    const newChar = toolAffectsChar ? char : (existingCell?.char || ' ');
     
     // Only apply color data if the cell will have a character (not just a space)
     const willHaveChar = newChar !== ' ';
@@ -48,14 +51,21 @@ export const useDrawingTool = () => {
   }, [toolAffectsChar, toolAffectsColor, toolAffectsBgColor, selectedChar, selectedColor, selectedBgColor, getCell]);
 
   // Helper function to create a cell with all attributes (for shape tools)
-  const createCellWithAllAttributes = useCallback((): Cell => {
+  const createCellWithAllAttributes = useCallback((char: string = selectedChar): Cell => {
     return {
-      char: selectedChar,
+      char,
       color: selectedColor,
       bgColor: selectedBgColor
     };
   }, [selectedChar, selectedColor, selectedBgColor]);
 
+  // Paint a cell and its symmetric copies; the selected character is mirrored per copy
+  const paintSymmetric = useCallback((x: number, y: number, createCell: (char: string, x: number, y: number) => Cell) => {
+    getSymmetricPoints(x, y).forEach((point) => {
+      setCell(point.x, point.y, createCell(transformSymmetryChar(selectedChar, point.transform), point.x, point.y));
+    });
+  }, [getSymmetricPoints, setCell, selectedChar]);
+
   // Bresenham line algorithm for drawing lines between two points
   const getLinePoints = useCallback((x0: number, y0: number, x1: number, y1: number) => {
     const points: { x: number; y: number }[] = [];
@@ -92,10 +102,9 @@ export const useDrawingTool = () => {
   const drawLine = useCallback((x0: number, y0: number, x1: number, y1: number) => {
     const points = getLinePoints(x0, y0, x1, y1);
     points.forEach(({ x, y }) => {
-      const newCell = createCellWithToggles(x, y);
-      setCell(x, y, newCell);
+      paintSymmetric(x, y, (char, cellX, cellY) => createCellWithToggles(cellX, cellY, char));
     });
-  }, [getLinePoints, setCell, createCellWithToggles]);
+  }, [getLinePoints, paintSymmetric, createCellWithToggles]);
 
   const applyBrushStroke = useCallback((toolKey: 'pencil' | 'eraser', centerX: number, centerY: number) => {
     const brush = brushSettings[toolKey];
@@ -109,15 +118,14 @@ export const useDrawingTool = () => {
 
     if (toolKey === 'eraser') {
       brushCells.forEach(({ x, y }) => {
-        clearCell(x, y);
+        getSymmetricPoints(x, y).forEach((point) => clearCell(point.x, point.y));
       });
     } else {
       brushCells.forEach(({ x, y }) => {
-        const newCell = createCellWithToggles(x, y);
-        setCell(x, y, newCell);
+        paintSymmetric(x, y, (char, cellX, cellY) => createCellWithToggles(cellX, cellY, char));
       });
     }
-  }, [brushSettings, fontMetrics.aspectRatio, clearCell, createCellWithToggles, setCell]);
+  }, [brushSettings, fontMetrics.aspectRatio, clearCell, createCellWithToggles, getSymmetricPoints, paintSymmetric]);
 
   const applyBrushLine = useCallback((toolKey: 'pencil' | 'eraser', x0: number, y0: number, x1: number, y1: number) => {
     const points = getLinePoints(x0, y0, x1, y1);
@@ -168,19 +176,35 @@ export const useDrawingTool = () => {
         break;
       }
       case 'paintbucket': {
-        const newCell = {
-          char: selectedChar,
-          color: selectedColor,
-          bgColor: selectedBgColor
-        };
-        fillArea(
-          x, 
-          y, 
-          newCell, 
-          paintBucketContiguous, 
-          { char: fillMatchChar, color: fillMatchColor, bgColor: fillMatchBgColor },
-          { char: toolAffectsChar, color: toolAffectsColor, bgColor: toolAffectsBgColor }
-        );
+        const seeds = getSymmetricPoints(x, y);
+        const seedCellsBefore = seeds.map((seed) => getCell(seed.x, seed.y));
+
+        seeds.forEach((seed, index) => {
+          // Skip mirrored seeds already covered by an earlier fill in this click
+          const before = seedCellsBefore[index];
+          const current = getCell(seed.x, seed.y);
+          if (index > 0 && (
+            current?.char !== before?.char ||
+            current?.color !== before?.color ||
+            current?.bgColor !== before?.bgColor
+          )) {
+            return;
+          }
+
+          const newCell = {
+            char: transformSymmetryChar(selectedChar, seed.transform),
+            color: selectedColor,
+            bgColor: selectedBgColor
+          };
+          fillArea(
+            seed.x, 
+            seed.y, 
+            newCell, 
+            paintBucketContiguous, 
+            { char: fillMatchChar, color: fillMatchColor, bgColor: fillMatchBgColor },
+            { char: toolAffectsChar, color: toolAffectsColor, bgColor: toolAffectsBgColor }
+          );
+        });
         break;
       }
     }
@@ -194,6 +218,7 @@ export const useDrawingTool = () => {
     setPencilLastPosition,
     applyBrushStroke,
     applyBrushLine,
+    getSymmetricPoints,
     fillMatchChar,
     fillMatchColor,
     fillMatchBgColor,
@@ -216,17 +241,15 @@ export const useDrawingTool = () => {
         // For hollow rectangles, only draw border
         if (!rectangleFilled) {
           if (x === minX || x === maxX || y === minY || y === maxY) {
-            const newCell = createCellWithAllAttributes();
-            setCell(x, y, newCell);
+            paintSymmetric(x, y, (char) => createCellWithAllAttributes(char));
           }
         } else {
           // For filled rectangles, draw all cells
-          const newCell = createCellWithAllAttributes();
-          setCell(x, y, newCell);
+          paintSymmetric(x, y, (char) => createCellWithAllAttributes(char));
         }
       }
     }
-  }, [rectangleFilled, setCell, createCellWithAllAttributes]);
+  }, [rectangleFilled, paintSymmetric, createCellWithAllAttributes]);
 
   // Helper function to get ellipse points using a simpler approach
   const getEllipsePoints = useCallback((centerX: number, centerY: number, radiusX: number, radiusY: number, filled: boolean = false) => {
@@ -289,11 +312,10 @@ export const useDrawingTool = () => {
     // Draw all the ellipse points
     points.forEach(({ x, y }) => {
       if (x >= 0 && y >= 0) { // Basic bounds checking
-        const newCell = createCellWithAllAttributes();
-        setCell(x, y, newCell);
+        paintSymmetric(x, y, (char) => createCellWithAllAttributes(char));
       }
     });
-  }, [rectangleFilled, setCell, getEllipsePoints, createCellWithAllAttributes]);
+  }, [rectangleFilled, paintSymmetric, getEllipsePoints, createCellWithAllAttributes]);
 
   return {
     drawAtPosition,
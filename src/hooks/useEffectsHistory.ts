@@ -76,8 +76,9 @@ export const useEffectsHistory = () => {
       let historyData: ApplyEffectHistoryAction['data'];
       
       if (applyToTimeline) {
-        // Save current state of all frames for undo
-        const previousFramesData = frames.map((frame, index) => ({
+        // Save the frames the store is about to replace (read live, not from the last render)
+        const sourceFrames = useAnimationStore.getState().frames;
+        const previousFramesData = sourceFrames.map((frame, index) => ({
           frameIndex: index,
           data: new Map(frame.data)
         }));
@@ -86,7 +87,7 @@ export const useEffectsHistory = () => {
           effectType,
           effectSettings: { ...settings },
           applyToTimeline: true,
-          affectedFrameIndices: frames.map((_, index) => index),
+          affectedFrameIndices: sourceFrames.map((_, index) => index),
           previousFramesData
         };
       } else {
@@ -96,7 +97,7 @@ export const useEffectsHistory = () => {
           effectSettings: { ...settings },
           applyToTimeline: false,
           affectedFrameIndices: [currentFrameIndex],
-          previousCanvasData: new Map(canvasData)
+          previousCanvasData: new Map(useCanvasStore.getState().cells)
         };
       }
 
@@ -154,7 +155,6 @@ export const useEffectsHistory = () => {
     applyToTimeline, 
     frames, 
     currentFrameIndex, 
-    canvasData, 
     getCurrentEffectSettings, 
     pushToHistory,
     clearError,
@@ -240,8 +240,9 @@ export const useEffectsHistory = () => {
       let historyData: ApplyEffectHistoryAction['data'];
       
       if (currentApplyToTimeline) {
-        // Save current state of all frames for undo
-        const previousFramesData = frames.map((frame, index) => ({
+        // Save the frames the store is about to replace (read live, not from the last render)
+        const sourceFrames = useAnimationStore.getState().frames;
+        const previousFramesData = sourceFrames.map((frame, index) => ({
           frameIndex: index,
           data: new Map(frame.data)
         }));
@@ -250,7 +251,7 @@ export const useEffectsHistory = () => {
           effectType,
           effectSettings: { ...effectSettings },
           applyToTimeline: true,
-          affectedFrameIndices: frames.map((_, index) => index),
+          affectedFrameIndices: sourceFrames.map((_, index) => index),
           previousFramesData
         };
       } else {
@@ -260,7 +261,7 @@ export const useEffectsHistory = () => {
           effectSettings: { ...effectSettings },
           applyToTimeline: false,
           affectedFrameIndices: [currentFrameIndex],
-          previousCanvasData: new Map(canvasData)
+          previousCanvasData: new Map(useCanvasStore.getState().cells)
         };
       }
 
@@ -330,7 +331,6 @@ export const useEffectsHistory = () => {
     applyToTimeline,
     frames,
     currentFrameIndex,
-    canvasData,
     getCurrentEffectSettings,
     setEffectSettingsTemporarily,
     pushToHistory,
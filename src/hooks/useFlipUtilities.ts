@@ -1,27 +1,42 @@
 /**
  * Flip utilities hook with undo/redo history integration
- * Provides flip actions that work with all selection types
+ * Provides flip and rotate actions that work with all selection types
  */
 
 import { useCallback } from 'react';
+import { toast } from 'sonner';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useToolStore } from '../stores/toolStore';
 import { useAnimationStore } from '../stores/animationStore';
 import { 
   applyHorizontalFlip, 
+  applyRotation,
   applyVerticalFlip, 
   getActiveSelectionBounds,
+  getRotatedSize,
+  rotateCanvasData,
   transformLassoPathForFlip,
   transformSelectedCellsForFlip
 } from '../utils/flipUtils';
+import type { RotationAngle } from '../utils/flipUtils';
 import { useCanvasContext } from '../contexts/CanvasContext';
+import { CANVAS_SIZE_LIMITS } from '../constants';
+import { mapFrameLayers } from '../utils/layerUtils';
+import { canEditActiveLayer } from '../utils/layerLock';
+import type { CanvasResizeHistoryAction } from '../types';
+
+const ROTATION_LABELS: Record<RotationAngle, string> = {
+  90: '90° clockwise',
+  180: '180°',
+  270: '90° counter-clockwise'
+};
 
 /**
  * Custom hook providing flip utilities with integrated undo/redo history
  */
 export const useFlipUtilities = () => {
-  const { cells, width, height, setCanvasData } = useCanvasStore();
-  const { currentFrameIndex } = useAnimationStore();
+  const { cells, width, height, setCanvasData, setCanvasSize } = useCanvasStore();
+  const { frames, currentFrameIndex, selectedFrameIndices, replaceFrames } = useAnimationStore();
   const { moveState, setMoveState } = useCanvasContext();
   const { 
     pushCanvasHistory, 
@@ -31,7 +46,8 @@ export const useFlipUtilities = () => {
     magicWandSelection,
     updateLassoSelectedCells,
     setLassoPath,
-    updateMagicWandSelectedCells
+    updateMagicWandSelectedCells,
+    setSelectionFromMask
   } = useToolStore();
 
   /**
@@ -39,6 +55,8 @@ export const useFlipUtilities = () => {
    * Works with any active selection or entire canvas if no selection
    */
   const flipHorizontal = useCallback(() => {
+    if (!canEditActiveLayer()) return;
+
     // Save current state for undo
     pushCanvasHistory(new Map(cells), currentFrameIndex, 'Flip horizontal');
 
@@ -101,6 +119,8 @@ export const useFlipUtilities = () => {
    * Works with any active selection or entire canvas if no selection
    */
   const flipVertical = useCallback(() => {
+    if (!canEditActiveLayer()) return;
+
     // Save current state for undo
     pushCanvasHistory(new Map(cells), currentFrameIndex, 'Flip vertical');
 
@@ -158,6 +178,129 @@ export const useFlipUtilities = () => {
     updateMagicWandSelectedCells
   ]);
 
+  /**
+   * Rotate the whole canvas across all frames, resizing it to the rotated dimensions
+   */
+  const rotateCanvas = useCallback((angle: RotationAngle) => {
+    const size = getRotatedSize(width, height, angle);
+    if ((
+      size.width < CANVAS_SIZE_LIMITS.minWidth || size.width > CANVAS_SIZE_LIMITS.maxWidth
+      || size.height < CANVAS_SIZE_LIMITS.minHeight || size.height > CANVAS_SIZE_LIMITS.maxHeight
+    )) {
+      toast.error(`Cannot rotate canvas: ${size.width}×${size.height} is outside the supported canvas size.`);
+      return;
+    }
+
+    // Use the live canvas for the current frame in case it hasn't been synced yet
+    const previousFrames = frames.map((frame, index) => (
+      index === currentFrameIndex ? { ...frame, data: new Map(cells) } : frame
+    ));
+    const rotatedFrames = previousFrames.map(frame => mapFrameLayers(
+      frame,
+      data => rotateCanvasData(data, width, height, angle).canvasData
+    ));
+
+    replaceFrames(rotatedFrames, currentFrameIndex, Array.from(selectedFrameIndices));
+    setCanvasSize(size.width, size.height);
+    setCanvasData(rotatedFrames[currentFrameIndex]?.data ?? new Map());
+
+    // Whole frames are stored so undo/redo restores every layer along with the size
+    const action: CanvasResizeHistoryAction = {
+      type: 'canvas_resize',
+      timestamp: Date.now(),
+      description: `Rotate canvas ${ROTATION_LABELS[angle]}`,
+      data: {
+        previousWidth: width,
+        previousHeight: height,
+        newWidth: size.width,
+        newHeight: size.height,
+        previousCanvasData: previousFrames[currentFrameIndex]?.data ?? new Map(cells),
+        frameIndex: currentFrameIndex,
+        previousFrames,
+        newFrames: rotatedFrames
+      }
+    };
+    useToolStore.getState().pushToHistory(action);
+  }, [
+    cells,
+    width,
+    height,
+    frames,
+    currentFrameIndex,
+    selectedFrameIndices,
+    replaceFrames,
+    setCanvasSize,
+    setCanvasData
+  ]);
+
+  /**
+   * Rotate canvas content clockwise around the selection center
+   * Rotates the selection in place, or the whole canvas (all frames) if no selection
+   */
+  const rotate = useCallback((angle: RotationAngle) => {
+    const hasMagicSelection = magicWandSelection.active && magicWandSelection.selectedCells.size > 0;
+    const hasLassoSelection = !hasMagicSelection && lassoSelection.active && lassoSelection.selectedCells.size > 0;
+    const hasRectSelection = !hasMagicSelection && !hasLassoSelection && selection.active;
+
+    if (!hasMagicSelection && !hasLassoSelection && !hasRectSelection && !moveState) {
+      rotateCanvas(angle);
+      return;
+    }
+    if (!canEditActiveLayer()) return;
+
+    // Save current state for undo
+    pushCanvasHistory(new Map(cells), currentFrameIndex, `Rotate ${ROTATION_LABELS[angle]}`);
+
+    const { bounds, selectedCells } = getActiveSelectionBounds(
+      { selection, lassoSelection, magicWandSelection },
+      width,
+      height
+    );
+
+    let rotatedSelection: Set<string>;
+    if (moveState) {
+      const rotated = applyRotation(moveState.originalData, bounds, angle, selectedCells || undefined);
+      rotatedSelection = rotated.selectedCells;
+      setMoveState({
+        ...moveState,
+        originalData: rotated.canvasData
+      });
+    } else {
+      const rotated = applyRotation(cells, bounds, angle, selectedCells || undefined, { width, height });
+      rotatedSelection = rotated.selectedCells;
+      setCanvasData(rotated.canvasData);
+      finalizeCanvasHistory(new Map(rotated.canvasData));
+    }
+
+    if (hasMagicSelection) {
+      updateMagicWandSelectedCells(rotatedSelection);
+    } else if (hasLassoSelection) {
+      updateLassoSelectedCells(rotatedSelection);
+      // The drawn outline no longer matches the rotated cells; the mask is authoritative
+      setLassoPath([]);
+    } else if (hasRectSelection) {
+      setSelectionFromMask(rotatedSelection);
+    }
+  }, [
+    cells,
+    width,
+    height,
+    currentFrameIndex,
+    pushCanvasHistory,
+    selection,
+    lassoSelection,
+    magicWandSelection,
+    setCanvasData,
+    moveState,
+    setMoveState,
+    finalizeCanvasHistory,
+    rotateCanvas,
+    updateLassoSelectedCells,
+    setLassoPath,
+    updateMagicWandSelectedCells,
+    setSelectionFromMask
+  ]);
+
   /**
    * Get description of what will be flipped for UI feedback
    */
@@ -188,6 +331,7 @@ export const useFlipUtilities = () => {
   return {
     flipHorizontal,
     flipVertical,
+    rotate,
     getFlipDescription
   };
 };
\ No newline at end of file
@@ -0,0 +1,158 @@
+/**
+ * Frame layer hook
+ * Wraps the animation store's layer actions so the canvas (which always edits
+ * the active layer) stays in sync when the active layer changes, and records
+ * layer stack changes in undo history
+ */
+
+import { useCallback } from 'react';
+import { useCanvasStore } from '../stores/canvasStore';
+import { useAnimationStore } from '../stores/animationStore';
+import { useToolStore } from '../stores/toolStore';
+import { resolveFrameLayers } from '../utils/layerUtils';
+import type { LayerId, UpdateLayersHistoryAction } from '../types';
+
+/**
+ * Record a layer change, folding it into the latest entry when both share a merge key
+ */
+const recordLayerHistory = (action: UpdateLayersHistoryAction) => {
+  const toolStore = useToolStore.getState();
+  const { historyStack, historyPosition } = toolStore;
+  const latest = historyStack[historyPosition];
+
+  if (
+    action.data.mergeKey &&
+    historyPosition === historyStack.length - 1 &&
+    latest?.type === 'update_layers' &&
+    latest.data.mergeKey === action.data.mergeKey &&
+    latest.data.frameIndex === action.data.frameIndex
+  ) {
+    const updatedStack = [...historyStack];
+    updatedStack[historyPosition] = {
+      ...latest,
+      timestamp: action.timestamp,
+      data: { ...latest.data, newFrame: action.data.newFrame }
+    };
+    useToolStore.setState({ historyStack: updatedStack });
+    return;
+  }
+
+  toolStore.pushToHistory(action);
+};
+
+export const useFrameLayers = () => {
+  const currentFrameIndex = useAnimationStore((state) => state.currentFrameIndex);
+  const currentFrame = useAnimationStore((state) => state.frames[state.currentFrameIndex]);
+
+  /**
+   * Flush pending canvas edits into the frame, run a layer action, record it in
+   * history, then load whatever layer is active afterwards back into the canvas
+   */
+  const withLayerHistory = useCallback((description: string, action: () => void, mergeKey?: string) => {
+    const canvasStore = useCanvasStore.getState();
+    const animationStore = useAnimationStore.getState();
+    const frameIndex = animationStore.currentFrameIndex;
+
+    animationStore.setFrameData(frameIndex, canvasStore.cells);
+    const previousFrame = useAnimationStore.getState().frames[frameIndex];
+    action();
+
+    // Frames are replaced rather than mutated, so history can share both snapshots
+    const updatedFrame = useAnimationStore.getState().frames[frameIndex];
+    if (!previousFrame || !updatedFrame || updatedFrame === previousFrame) return;
+
+    canvasStore.setCanvasData(updatedFrame.data);
+    recordLayerHistory({
+      type: 'update_layers',
+      timestamp: Date.now(),
+      description,
+      data: {
+        frameIndex,
+        previousFrame,
+        newFrame: updatedFrame,
+        mergeKey
+      }
+    });
+  }, []);
+
+  const getLayerName = useCallback((layerId: LayerId) => (
+    currentFrame?.layers?.find(layer => layer.id === layerId)?.name ?? 'layer'
+  ), [currentFrame]);
+
+  const addLayer = useCallback((name?: string) => {
+    withLayerHistory(
+      `Add layer${name ? ` "${name}"` : ''}`,
+      () => useAnimationStore.getState().addLayer(currentFrameIndex, name)
+    );
+  }, [withLayerHistory, currentFrameIndex]);
+
+  const removeLayer = useCallback((layerId: LayerId) => {
+    withLayerHistory(
+      `Delete layer "${getLayerName(layerId)}"`,
+      () => useAnimationStore.getState().removeLayer(currentFrameIndex, layerId)
+    );
+  }, [withLayerHistory, getLayerName, currentFrameIndex]);
+
+  // Switching layers is navigation, not an edit, so it stays out of history
+  const selectLayer = useCallback((layerId: LayerId) => {
+    const canvasStore = useCanvasStore.getState();
+    const animationStore = useAnimationStore.getState();
+
+    animationStore.setFrameData(currentFrameIndex, canvasStore.cells);
+    animationStore.setActiveLayer(currentFrameIndex, layerId);
+
+    const updatedFrame = useAnimationStore.getState().frames[currentFrameIndex];
+    if (updatedFrame) {
+      canvasStore.setCanvasData(updatedFrame.data);
+    }
+  }, [currentFrameIndex]);
+
+  const moveLayer = useCallback((layerId: LayerId, toIndex: number) => {
+    withLayerHistory(
+      `Move layer "${getLayerName(layerId)}"`,
+      () => useAnimationStore.getState().moveLayer(currentFrameIndex, layerId, toIndex)
+    );
+  }, [withLayerHistory, getLayerName, currentFrameIndex]);
+
+  const renameLayer = useCallback((layerId: LayerId, name: string) => {
+    withLayerHistory(
+      `Rename layer "${getLayerName(layerId)}" to "${name}"`,
+      () => useAnimationStore.getState().renameLayer(currentFrameIndex, layerId, name)
+    );
+  }, [withLayerHistory, getLayerName, currentFrameIndex]);
+
+  const setLayerVisibility = useCallback((layerId: LayerId, visible: boolean) => {
+    withLayerHistory(
+      `${visible ? 'Show' : 'Hide'} layer "${getLayerName(layerId)}"`,
+      () => useAnimationStore.getState().setLayerVisibility(currentFrameIndex, layerId, visible)
+    );
+  }, [withLayerHistory, getLayerName, currentFrameIndex]);
+
+  const setLayerLocked = useCallback((layerId: LayerId, locked: boolean) => {
+    withLayerHistory(
+      `${locked ? 'Lock' : 'Unlock'} layer "${getLayerName(layerId)}"`,
+      () => useAnimationStore.getState().setLayerLocked(currentFrameIndex, layerId, locked)
+    );
+  }, [withLayerHistory, getLayerName, currentFrameIndex]);
+
+  const setLayerOpacity = useCallback((layerId: LayerId, opacity: number) => {
+    withLayerHistory(
+      `Set layer "${getLayerName(layerId)}" opacity`,
+      () => useAnimationStore.getState().setLayerOpacity(currentFrameIndex, layerId, opacity),
+      `opacity:${layerId}`
+    );
+  }, [withLayerHistory, getLayerName, currentFrameIndex]);
+
+  return {
+    layers: currentFrame ? resolveFrameLayers(currentFrame) : [],
+    activeLayerId: currentFrame?.activeLayerId,
+    addLayer,
+    removeLayer,
+    selectLayer,
+    moveLayer,
+    renameLayer,
+    setLayerVisibility,
+    setLayerLocked,
+    setLayerOpacity
+  };
+};
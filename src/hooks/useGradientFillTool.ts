@@ -6,6 +6,7 @@ import { useToolStore } from '../stores/toolStore';
 import { useAnimationStore } from '../stores/animationStore';
 import { calculateGradientCells } from '../utils/gradientEngine';
 import { getGradientFillArea } from '../utils/fillArea';
+import { canEditActiveLayer } from '../utils/layerLock';
 import type { CanvasHistoryAction } from '../types';
 
 /**
@@ -121,6 +122,9 @@ export const useGradientFillTool = () => {
       console.warn('Cannot apply gradient: missing required state');
       return;
     }
+    if (!canEditActiveLayer()) {
+      return;
+    }
     
     try {
       // Store current canvas state for undo
@@ -0,0 +1,78 @@
+/**
+ * History navigation hook
+ * Backs the History panel: jumps several undo/redo steps at once and manages
+ * snapshot bookmarks of the whole project state
+ */
+
+import { useCallback } from 'react';
+import { useCanvasStore } from '../stores/canvasStore';
+import { useAnimationStore } from '../stores/animationStore';
+import { useToolStore } from '../stores/toolStore';
+import { processHistoryAction } from './useKeyboardShortcuts';
+import { createHistorySnapshot, restoreHistorySnapshot } from '../utils/historySnapshots';
+
+export const useHistoryNavigation = () => {
+  const historyStack = useToolStore((state) => state.historyStack);
+  const historyPosition = useToolStore((state) => state.historyPosition);
+  const historySnapshots = useToolStore((state) => state.historySnapshots);
+  const renameSnapshot = useToolStore((state) => state.renameHistorySnapshot);
+  const removeSnapshot = useToolStore((state) => state.removeHistorySnapshot);
+
+  /**
+   * Undo or redo until the given step is the latest applied one
+   * -1 returns to the state before the oldest remaining step
+   */
+  const jumpToPosition = useCallback((targetPosition: number) => {
+    const toolStore = useToolStore.getState();
+    const target = Math.max(-1, Math.min(targetPosition, toolStore.historyStack.length - 1));
+    if (target === toolStore.historyPosition) return;
+
+    // Set flag to prevent auto-save during history processing
+    useToolStore.setState({ isProcessingHistory: true });
+    try {
+      while (useToolStore.getState().historyPosition !== target) {
+        const isRedo = useToolStore.getState().historyPosition < target;
+        const action = isRedo ? useToolStore.getState().redo() : useToolStore.getState().undo();
+        if (!action) break;
+        // Each step reads fresh store state, since the previous step changed it
+        processHistoryAction(action, isRedo, useCanvasStore.getState(), useAnimationStore.getState());
+      }
+    } finally {
+      // Clear flag after a small delay to ensure all effects have settled
+      setTimeout(() => {
+        useToolStore.setState({ isProcessingHistory: false });
+      }, 200);
+    }
+  }, []);
+
+  const addSnapshot = useCallback((name?: string) => {
+    const { addHistorySnapshot, historySnapshots: snapshots } = useToolStore.getState();
+    addHistorySnapshot(createHistorySnapshot(name?.trim() || `Snapshot ${snapshots.length + 1}`));
+  }, []);
+
+  const restoreSnapshot = useCallback((snapshotId: string) => {
+    const { historySnapshots: snapshots, pushToHistory } = useToolStore.getState();
+    const snapshot = snapshots.find(item => item.id === snapshotId);
+    if (!snapshot) return;
+
+    useToolStore.setState({ isProcessingHistory: true });
+    try {
+      pushToHistory(restoreHistorySnapshot(snapshot));
+    } finally {
+      setTimeout(() => {
+        useToolStore.setState({ isProcessingHistory: false });
+      }, 200);
+    }
+  }, []);
+
+  return {
+    historyStack,
+    historyPosition,
+    historySnapshots,
+    jumpToPosition,
+    addSnapshot,
+    restoreSnapshot,
+    renameSnapshot,
+    removeSnapshot
+  };
+};
@@ -1,10 +1,17 @@
-import { useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useMemo, useRef } from 'react';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useToolStore } from '../stores/toolStore';
 import { useAnimationStore } from '../stores/animationStore';
 import { useBezierStore } from '../stores/bezierStore';
+import { useEffectsStore } from '../stores/effectsStore';
 import { useCanvasContext } from '../contexts/CanvasContext';
-import { getToolForHotkey } from '../constants/hotkeys';
+import { useTheme } from '../contexts/ThemeContext';
+import { TOOL_HOTKEYS } from '../constants/hotkeys';
+import type { CommandId } from '../constants/commands';
+import { useKeymapStore } from '../stores/keymapStore';
+import { eventToChord } from '../utils/keymap';
+import { executeCommand, registerCommandHandlers } from '../utils/commandHandlers';
+import type { CommandHandler } from '../utils/commandHandlers';
 import { useZoomControls } from './useZoomControls';
 import { useFrameNavigation } from './useFrameNavigation';
 import { useAnimationHistory } from './useAnimationHistory';
@@ -14,16 +21,43 @@ import { useFlipUtilities } from './useFlipUtilities';
 import { useCropToSelection } from './useCropToSelection';
 import { useProjectFileActions } from './useProjectFileActions';
 import { ANSI_COLORS } from '../constants/colors';
+import { resolveCanvasEditData } from '../utils/historyDiff';
+import { readOSClipboardCells } from '../utils/clipboardUtils';
+import { canEditActiveLayer } from '../utils/layerLock';
+import type { ClipboardRenderOptions } from '../utils/clipboardUtils';
+import { processRestoreSnapshotAction } from '../utils/historySnapshots';
 import type { AnyHistoryAction, CanvasHistoryAction, CanvasResizeHistoryAction, FrameId, Cell } from '../types';
 
 type CanvasStoreState = ReturnType<typeof useCanvasStore.getState>;
+
+const isFileCommand = (commandId: CommandId) => commandId.startsWith('file.');
 type CanvasStoreForHistory = Pick<CanvasStoreState, 'setCanvasData'>;
 type AnimationStoreState = ReturnType<typeof useAnimationStore.getState>;
 
+/**
+ * Re-insert a whole frame stored in history (layers and id included) and load the
+ * resulting current frame into the canvas
+ */
+const insertHistoryFrame = (
+  canvasStore: CanvasStoreForHistory,
+  animationStore: AnimationStoreState,
+  frameIndex: number,
+  frame: import('../types').Frame,
+  currentIndex: number
+) => {
+  const frames = [...animationStore.frames];
+  frames.splice(frameIndex, 0, frame);
+  animationStore.replaceFrames(frames, currentIndex);
+
+  const { frames: restoredFrames, currentFrameIndex } = useAnimationStore.getState();
+  canvasStore.setCanvasData(restoredFrames[currentFrameIndex]?.data ?? new Map());
+};
+
 /**
  * Helper function to process different types of history actions
+ * Shared with the toolbar Undo/Redo buttons and the History panel, which replays several steps at once
  */
-const processHistoryAction = (
+export const processHistoryAction = (
   action: AnyHistoryAction,
   isRedo: boolean,
   canvasStore: CanvasStoreForHistory,
@@ -32,18 +66,21 @@ const processHistoryAction = (
   switch (action.type) {
     case 'canvas_edit': {
       const canvasAction = action as CanvasHistoryAction;
-      // Determine which snapshot to apply
-      // Undo -> previousCanvasData (state before edit)
-      // Redo -> newCanvasData (state after edit) if available, else fallback to previousCanvasData (legacy entries)
-      const targetData = isRedo
-        ? (canvasAction.data.newCanvasData ?? canvasAction.data.previousCanvasData)
-        : canvasAction.data.previousCanvasData;
-      if (isRedo && !canvasAction.data.newCanvasData) {
-        if (process.env.NODE_ENV !== 'production') {
-          console.warn('[history] Redo encountered legacy canvas_edit entry without newCanvasData; using previousCanvasData fallback');
-        }
+
+      // Re-activate the layer the edit was made on so the snapshot lands on it
+      const { layerId, frameIndex: editFrameIndex } = canvasAction.data;
+      const reactivateLayer = Boolean(layerId && animationStore.frames[editFrameIndex]?.activeLayerId !== layerId);
+      if (layerId && reactivateLayer) {
+        animationStore.setActiveLayer(editFrameIndex, layerId);
       }
 
+      // Undo -> state before the edit, Redo -> state after it (both derived from the stored cell diff)
+      // The live canvas holds the edited layer's current state unless another frame or layer is showing
+      const currentData = !reactivateLayer && animationStore.currentFrameIndex === editFrameIndex
+        ? useCanvasStore.getState().cells
+        : useAnimationStore.getState().frames[editFrameIndex]?.data ?? new Map<string, Cell>();
+      const targetData = resolveCanvasEditData(canvasAction, isRedo, currentData);
+
       // Update frame data FIRST to avoid auto-save race conditions
       animationStore.setFrameData(canvasAction.data.frameIndex, targetData);
 
@@ -61,6 +98,20 @@ const processHistoryAction = (
       const resizeAction = action as CanvasResizeHistoryAction;
       const canvas = useCanvasStore.getState();
       
+      // Whole-frame snapshots restore every layer of every frame along with the size
+      const targetFrames = isRedo ? resizeAction.data.newFrames : resizeAction.data.previousFrames;
+      if (targetFrames) {
+        canvas.setCanvasSize(
+          isRedo ? resizeAction.data.newWidth : resizeAction.data.previousWidth,
+          isRedo ? resizeAction.data.newHeight : resizeAction.data.previousHeight
+        );
+        animationStore.replaceFrames(targetFrames, resizeAction.data.frameIndex);
+        // The current frame index may not change, so reload the canvas explicitly
+        const restoredFrame = useAnimationStore.getState().frames[resizeAction.data.frameIndex];
+        canvasStore.setCanvasData(restoredFrame?.data ?? new Map());
+        break;
+      }
+      
       // Check if this is a crop operation with all frames data
       const isCropOperation = resizeAction.data.isCropOperation === true;
       
@@ -103,10 +154,7 @@ const processHistoryAction = (
     case 'add_frame': {
       if (isRedo) {
         // Redo: Re-add the frame with full properties
-        const frame = action.data.frame;
-        animationStore.addFrame(action.data.frameIndex, frame.data, frame.duration);
-        animationStore.updateFrameName(action.data.frameIndex, frame.name);
-        // Canvas will sync automatically since addFrame sets current frame
+        insertHistoryFrame(canvasStore, animationStore, action.data.frameIndex, action.data.frame, action.data.frameIndex);
       } else {
         // Undo: Remove the frame that was added
         animationStore.removeFrame(action.data.frameIndex);
@@ -123,11 +171,12 @@ const processHistoryAction = (
       
     case 'duplicate_frame': {
       if (isRedo) {
-        // Redo: Re-add the duplicated frame using the stored frame data
-        const frame = action.data.frame;
-        animationStore.addFrame(action.data.newIndex, frame.data, frame.duration);
-        animationStore.updateFrameName(action.data.newIndex, frame.name);
-        // Canvas will sync automatically since addFrame sets current frame
+        // Redo: Duplicate the original frame again, layers included
+        animationStore.duplicateFrame(action.data.originalIndex);
+        const duplicatedFrame = useAnimationStore.getState().frames[action.data.newIndex];
+        if (duplicatedFrame) {
+          canvasStore.setCanvasData(duplicatedFrame.data);
+        }
       } else {
         // Undo: Remove the duplicated frame
         animationStore.removeFrame(action.data.newIndex);
@@ -152,19 +201,9 @@ const processHistoryAction = (
           canvasStore.setCanvasData(currentFrame.data);
         }
       } else {
-        // Undo: Re-add the deleted frame
-        const deletedFrame = action.data.frame;
-        
-        // Add frame at the correct position
-        animationStore.addFrame(action.data.frameIndex, deletedFrame.data, deletedFrame.duration);
-        
-        // Update the frame properties to match the deleted frame
-        animationStore.updateFrameName(action.data.frameIndex, deletedFrame.name);
-        
-        // Restore previous current frame
-        animationStore.setCurrentFrame(action.data.previousCurrentFrame);
-        // Sync canvas with the restored frame
-        canvasStore.setCanvasData(deletedFrame.data);
+        // Undo: Re-insert the deleted frame at its position, layers included,
+        // and go back to the previous current frame
+        insertHistoryFrame(canvasStore, animationStore, action.data.frameIndex, action.data.frame, action.data.previousCurrentFrame);
       }
       break;
     }
@@ -263,9 +302,15 @@ const processHistoryAction = (
     case 'apply_time_effect': {
       const timeEffectAction = action as import('../types').ApplyTimeEffectHistoryAction;
       if (isRedo) {
-        // Redo: Re-apply the time effect
-        console.log(`Redo: Re-applying ${timeEffectAction.data.effectType} time effect`);
-        console.warn('Redo for time effects is not yet implemented - would need to re-apply effect');
+        // Redo: Restore the post-effect frames
+        if (timeEffectAction.data.newFramesData) {
+          timeEffectAction.data.newFramesData.forEach(({ frameIndex, data }) => {
+            animationStore.setFrameData(frameIndex, data);
+          });
+          console.log(`✅ Redo: Applied ${timeEffectAction.data.effectType} time effect to ${timeEffectAction.data.newFramesData.length} frames`);
+        } else {
+          console.warn(`⚠️ Redo for ${timeEffectAction.data.effectType} time effect: newFramesData missing (legacy entry)`);
+        }
       } else {
         // Undo: Restore previous frame data
         if (timeEffectAction.data.previousFramesData) {
@@ -354,21 +399,10 @@ const processHistoryAction = (
         animationStore.clearAllFrames();
         console.log('✅ Redo: Cleared all frames');
       } else {
-        // Undo: Restore all deleted frames
-        deleteAllAction.data.frames.forEach((frame, index) => {
-          if (index === 0) {
-            // Replace the default frame created by clearAllFrames
-            animationStore.setFrameData(0, frame.data);
-            animationStore.updateFrameName(0, frame.name);
-            animationStore.updateFrameDuration(0, frame.duration);
-          } else {
-            // Add additional frames
-            animationStore.addFrame(index, frame.data, frame.duration);
-            animationStore.updateFrameName(index, frame.name);
-          }
-        });
-        
-        animationStore.setCurrentFrame(deleteAllAction.data.previousCurrentFrame);
+        // Undo: Restore all deleted frames, replacing the default frame created by clearAllFrames
+        animationStore.replaceFrames(deleteAllAction.data.frames, deleteAllAction.data.previousCurrentFrame);
+        const { frames: restoredFrames, currentFrameIndex } = useAnimationStore.getState();
+        canvasStore.setCanvasData(restoredFrames[currentFrameIndex]?.data ?? new Map());
         console.log(`✅ Undo: Restored ${deleteAllAction.data.frames.length} frames`);
       }
       break;
@@ -494,6 +528,60 @@ const processHistoryAction = (
       break;
     }
 
+    case 'restore_snapshot': {
+      const restoreAction = action as import('../types').RestoreSnapshotHistoryAction;
+      processRestoreSnapshotAction(restoreAction, isRedo);
+      console.log(`✅ ${isRedo ? 'Redo' : 'Undo'}: Restore snapshot "${restoreAction.data.snapshotName}"`);
+      break;
+    }
+
+    case 'apply_tween': {
+      const tweenAction = action as import('../types').ApplyTweenHistoryAction;
+      const targetFrames = isRedo ? tweenAction.data.newFrames : tweenAction.data.previousFrames;
+      const targetCurrentFrame = isRedo ? tweenAction.data.newCurrentFrame : tweenAction.data.previousCurrentFrame;
+
+      animationStore.replaceFrames(targetFrames, targetCurrentFrame);
+      // The current frame index may not change, so reload the canvas explicitly
+      const restoredFrame = useAnimationStore.getState().frames[targetCurrentFrame];
+      if (restoredFrame) {
+        canvasStore.setCanvasData(restoredFrame.data);
+      }
+      console.log(`✅ ${isRedo ? 'Redo' : 'Undo'}: Selection tween (${tweenAction.data.frameCount} frame(s))`);
+      break;
+    }
+
+    case 'update_layers': {
+      const layersAction = action as import('../types').UpdateLayersHistoryAction;
+      const { frameIndex } = layersAction.data;
+
+      animationStore.restoreFrame(frameIndex, isRedo ? layersAction.data.newFrame : layersAction.data.previousFrame);
+      if (animationStore.currentFrameIndex !== frameIndex) {
+        animationStore.setCurrentFrame(frameIndex);
+      }
+
+      // The active layer may have changed, so reload the canvas explicitly
+      const restoredFrame = useAnimationStore.getState().frames[frameIndex];
+      if (restoredFrame) {
+        canvasStore.setCanvasData(restoredFrame.data);
+      }
+      console.log(`✅ ${isRedo ? 'Redo' : 'Undo'}: ${layersAction.description}`);
+      break;
+    }
+
+    case 'update_effect_stack': {
+      const stackAction = action as import('../types').UpdateEffectStackHistoryAction;
+      const effectStack = isRedo ? stackAction.data.newStack : stackAction.data.previousStack;
+      const { editingStackEntryId } = useEffectsStore.getState();
+
+      // Keep editing an entry only if it still exists in the restored stack
+      useEffectsStore.setState({
+        effectStack,
+        editingStackEntryId: effectStack.some(entry => entry.id === editingStackEntryId) ? editingStackEntryId : null
+      });
+      console.log(`✅ ${isRedo ? 'Redo' : 'Undo'}: ${stackAction.description}`);
+      break;
+    }
+
     case 'bezier_commit': {
       const commitAction = action as import('../types').BezierCommitHistoryAction;
       const bezierStore = useBezierStore.getState();
@@ -692,8 +780,18 @@ const processHistoryAction = (
  * - Zoom (+/-, =)
  */
 export const useKeyboardShortcuts = () => {
-  const { cells, setCanvasData, width, height } = useCanvasStore();
-  const { startPasteMode, commitPaste, pasteMode } = useCanvasContext();
+  const { cells, setCanvasData, width, height, canvasBackgroundColor } = useCanvasStore();
+  const {
+    startPasteMode,
+    commitPaste,
+    pasteMode,
+    hoveredCell,
+    fontMetrics,
+    fontSize,
+    characterSpacing,
+    lineSpacing
+  } = useCanvasContext();
+  const { theme } = useTheme();
   const { toggleOnionSkin, currentFrameIndex, frames, selectedFrameIndices } = useAnimationStore();
   const { zoomIn, zoomOut } = useZoomControls();
   const { showSaveProjectDialog, showSaveAsDialog, showOpenProjectDialog } = useProjectFileActions();
@@ -702,8 +800,8 @@ export const useKeyboardShortcuts = () => {
   const { navigateNext, navigatePrevious, navigateFirst, navigateLast, canNavigate } = useFrameNavigation();
   const { addFrame, removeFrame, duplicateFrame, duplicateFrameRange, deleteFrameRange } = useAnimationHistory();
   
-  // Flip utilities for Shift+H and Shift+V
-  const { flipHorizontal, flipVertical } = useFlipUtilities();
+  // Flip and rotate utilities for Shift+H, Shift+V, Shift+R and Shift+E
+  const { flipHorizontal, flipVertical, rotate } = useFlipUtilities();
   
   // Crop utility for Cmd+Shift+C / Ctrl+Shift+C
   const { canCrop, cropToSelection } = useCropToSelection();
@@ -794,6 +892,38 @@ export const useKeyboardShortcuts = () => {
     return false;
   }, [startPasteMode]);
 
+  // Canvas appearance used for the HTML, SVG and PNG clipboard flavours on copy
+  const clipboardRenderOptions = useMemo((): ClipboardRenderOptions => ({
+    backgroundColor: canvasBackgroundColor,
+    fontMetrics,
+    typography: { fontSize, characterSpacing, lineSpacing },
+    theme
+  }), [canvasBackgroundColor, fontMetrics, fontSize, characterSpacing, lineSpacing, theme]);
+
+  // Latest hovered cell, read when an async OS clipboard paste resolves
+  const hoveredCellRef = useRef(hoveredCell);
+  useEffect(() => {
+    hoveredCellRef.current = hoveredCell;
+  }, [hoveredCell]);
+
+  // Paste text copied outside the editor (plain, ANSI or HTML) at the hovered cell,
+  // falling back to the app clipboards when the OS clipboard has nothing new
+  const startPasteFromAnyClipboard = useCallback(() => {
+    const { selectedColor, selectedBgColor } = useToolStore.getState();
+
+    readOSClipboardCells({ color: selectedColor, bgColor: selectedBgColor })
+      .then(externalCells => {
+        if (externalCells && startPasteMode(hoveredCellRef.current ?? { x: 0, y: 0 }, externalCells)) {
+          return;
+        }
+        startPasteFromClipboard();
+      })
+      .catch(error => {
+        console.warn('Failed to paste from OS clipboard:', error);
+        startPasteFromClipboard();
+      });
+  }, [startPasteMode, startPasteFromClipboard]);
+
   // Helper function to swap foreground/background colors
   const swapForegroundBackground = useCallback(() => {
     const { selectedColor, selectedBgColor, setSelectedColor, setSelectedBgColor } = useToolStore.getState();
@@ -946,6 +1076,194 @@ export const useKeyboardShortcuts = () => {
     (event as unknown as { returnValue?: boolean }).returnValue = false;
   }, []);
 
+  // Undo/redo with enhanced history support
+  const runHistoryStep = useCallback((isRedo: boolean) => {
+    if (isRedo ? !canRedo() : !canUndo()) return false;
+    const action = isRedo ? redo() : undo();
+    if (action) {
+      // Set flag to prevent auto-save during history processing
+      useToolStore.setState({ isProcessingHistory: true });
+      try {
+        handleHistoryAction(action, isRedo);
+      } finally {
+        // Clear flag after a small delay to ensure all effects have settled
+        setTimeout(() => {
+          useToolStore.setState({ isProcessingHistory: false });
+        }, 200);
+      }
+    }
+  }, [canUndo, canRedo, undo, redo, handleHistoryAction]);
+
+  // Handlers for the registry commands this hook implements
+  // Returning false leaves the key event to the browser (e.g. copy without a selection)
+  const commandHandlers = useMemo((): Partial<Record<CommandId, CommandHandler>> => {
+    const toolHandlers: Partial<Record<CommandId, CommandHandler>> = {};
+    TOOL_HOTKEYS.forEach(({ tool }) => {
+      toolHandlers[`tool.${tool}`] = () => setActiveTool(tool);
+    });
+
+    return {
+      ...toolHandlers,
+      'file.save': () => showSaveProjectDialog(),
+      'file.saveAs': () => showSaveAsDialog(),
+      'file.open': () => showOpenProjectDialog(),
+      'edit.undo': () => runHistoryStep(false),
+      'edit.redo': () => runHistoryStep(true),
+      'edit.selectAll': () => {
+        // Switch to selection tool if not already active
+        if (activeTool !== 'select') {
+          setActiveTool('select');
+        }
+
+        // Clear any existing selections
+        clearSelection();
+        clearLassoSelection();
+        clearMagicWandSelection();
+
+        // Create a selection that covers the entire canvas
+        // Canvas coordinates go from 0,0 to width-1,height-1
+        startSelection(0, 0);
+        updateSelection(width - 1, height - 1);
+      },
+      'edit.copy': () => {
+        // Copy selection (prioritize magic wand, then lasso, then rectangular)
+        if (magicWandSelection.active) {
+          copyMagicWandSelection(cells, clipboardRenderOptions);
+        } else if (lassoSelection.active) {
+          copyLassoSelection(cells, clipboardRenderOptions);
+        } else if (selection.active) {
+          copySelection(cells, clipboardRenderOptions);
+        } else {
+          return false;
+        }
+      },
+      'edit.paste': () => {
+        if (!canEditActiveLayer()) {
+          return;
+        }
+        // If already in paste mode, commit the paste
+        if (pasteMode.isActive) {
+          const pastedData = commitPaste();
+          if (pastedData) {
+            // Save current state for undo
+            const { pushCanvasHistory, finalizeCanvasHistory } = useToolStore.getState();
+            pushCanvasHistory(new Map(cells), currentFrameIndex, 'Paste lasso selection');
+
+            // Merge pasted data with current canvas
+            const newCells = new Map(cells);
+            pastedData.forEach((cell, key) => {
+              newCells.set(key, cell);
+            });
+
+            setCanvasData(newCells);
+            finalizeCanvasHistory(new Map(newCells));
+          }
+        } else {
+          startPasteFromAnyClipboard();
+        }
+      },
+      'edit.cropToSelection': () => {
+        // Crop canvas to selection if there's an active selection
+        if (canCrop()) {
+          cropToSelection();
+        }
+      },
+      'transform.flipHorizontal': () => flipHorizontal(),
+      'transform.flipVertical': () => flipVertical(),
+      'transform.rotateClockwise': () => rotate(90),
+      'transform.rotateCounterClockwise': () => rotate(270),
+      'color.swap': () => swapForegroundBackground(),
+      'color.previousPaletteColor': () => navigatePaletteColor('previous'),
+      'color.nextPaletteColor': () => navigatePaletteColor('next'),
+      'brush.decreaseSize': () => adjustBrushSize('decrease'),
+      'brush.increaseSize': () => adjustBrushSize('increase'),
+      'character.previous': () => navigateCharacterPaletteCharacters('previous'),
+      'character.next': () => navigateCharacterPaletteCharacters('next'),
+      'view.zoomIn': () => zoomIn(),
+      'view.zoomOut': () => zoomOut(),
+      'frame.previous': () => (canNavigate ? navigatePrevious() : false),
+      'frame.next': () => (canNavigate ? navigateNext() : false),
+      'frame.first': () => (canNavigate ? navigateFirst() : false),
+      'frame.last': () => (canNavigate ? navigateLast() : false),
+      'frame.add': () => addFrame(currentFrameIndex + 1),
+      'frame.duplicate': () => {
+        const selectedFrames = Array.from(selectedFrameIndices).sort((a, b) => a - b);
+        if (selectedFrames.length > 1) {
+          duplicateFrameRange(selectedFrames);
+        } else {
+          duplicateFrame(currentFrameIndex);
+        }
+      },
+      'frame.delete': () => {
+        if (frames.length <= 1) return false;
+
+        // Check if multiple frames are selected
+        const selectedFrames = Array.from(selectedFrameIndices).sort((a, b) => a - b);
+        if (selectedFrames.length > 1) {
+          // Batch delete all selected frames
+          deleteFrameRange(selectedFrames);
+        } else {
+          // Single frame delete
+          removeFrame(currentFrameIndex);
+        }
+      },
+      'onionSkin.toggle': () => toggleOnionSkin()
+    };
+  }, [
+    cells,
+    width,
+    height,
+    selection,
+    lassoSelection,
+    magicWandSelection,
+    copySelection,
+    copyLassoSelection,
+    copyMagicWandSelection,
+    clipboardRenderOptions,
+    clearSelection,
+    clearLassoSelection,
+    clearMagicWandSelection,
+    startSelection,
+    updateSelection,
+    setCanvasData,
+    runHistoryStep,
+    commitPaste,
+    pasteMode,
+    startPasteFromAnyClipboard,
+    activeTool,
+    setActiveTool,
+    swapForegroundBackground,
+    adjustBrushSize,
+    toggleOnionSkin,
+    currentFrameIndex,
+    frames,
+    selectedFrameIndices,
+    zoomIn,
+    zoomOut,
+    navigateNext,
+    navigatePrevious,
+    navigateFirst,
+    navigateLast,
+    navigatePaletteColor,
+    navigateCharacterPaletteCharacters,
+    canNavigate,
+    addFrame,
+    removeFrame,
+    duplicateFrame,
+    duplicateFrameRange,
+    deleteFrameRange,
+    flipHorizontal,
+    flipVertical,
+    rotate,
+    canCrop,
+    cropToSelection,
+    showSaveProjectDialog,
+    showSaveAsDialog,
+    showOpenProjectDialog
+  ]);
+
+  useEffect(() => registerCommandHandlers(commandHandlers), [commandHandlers]);
+
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     // If any modal dialog is open, disable all keyboard shortcuts
     // Check for shadcn/ui dialogs that are actually open and visible
@@ -959,34 +1277,17 @@ export const useKeyboardShortcuts = () => {
     }
 
     const isModifierPressed = event.metaKey || event.ctrlKey;
-    const normalizedKey = typeof event.key === 'string' ? event.key.toLowerCase() : '';
+    const commandId = useKeymapStore.getState().getCommandForChord(eventToChord(event));
 
-    // Handle Cmd/Ctrl+Shift+S for Save As
-    if (isModifierPressed && event.shiftKey && !event.altKey) {
-      if (normalizedKey === 's') {
-        blockBrowserShortcut(event);
-        showSaveAsDialog();
-        return;
-      }
-    }
-
-    // Handle Cmd/Ctrl+S for Save and Cmd/Ctrl+O for Open
-    if (isModifierPressed && !event.altKey && !event.shiftKey) {
-      if (normalizedKey === 's') {
-        blockBrowserShortcut(event);
-        showSaveProjectDialog();
-        return;
-      }
-
-      if (normalizedKey === 'o') {
-        blockBrowserShortcut(event);
-        showOpenProjectDialog();
-        return;
-      }
+    // File commands (save, save as, open) work everywhere and override the browser's own shortcuts
+    if (commandId && isFileCommand(commandId)) {
+      blockBrowserShortcut(event);
+      executeCommand(commandId);
+      return;
     }
 
-    // If paste mode is active, let paste mode handle its own keyboard events (except Ctrl/Cmd+V to commit)
-    if (pasteMode.isActive && !(isModifierPressed && normalizedKey === 'v')) {
+    // If paste mode is active, let paste mode handle its own keyboard events (except the paste command to commit)
+    if (pasteMode.isActive && commandId !== 'edit.paste') {
       return;
     }
 
@@ -1033,10 +1334,9 @@ export const useKeyboardShortcuts = () => {
       return; // Let the text tool handle all other keys
     }
 
-    // Spacebar playback toggle - let it pass through to AnimationTimeline component
+    // Playback toggle - let it pass through to AnimationTimeline component
     // Don't preventDefault here, let the timeline handler deal with it
-    if (!isModifierPressed && (event.key === ' ' || event.key === 'Space')) {
-      // Just return without preventing default - let the event bubble to AnimationTimeline
+    if (commandId === 'playback.toggle') {
       return;
     }
 
@@ -1064,6 +1364,14 @@ export const useKeyboardShortcuts = () => {
 
     // Handle Delete/Backspace key (without modifier) - Clear selected cells
     if ((event.key === 'Delete' || event.key === 'Backspace') && !isModifierPressed) {
+      const hasSelection = (magicWandSelection.active && magicWandSelection.selectedCells.size > 0)
+        || (lassoSelection.active && lassoSelection.selectedCells.size > 0)
+        || selection.active;
+      if (hasSelection && !canEditActiveLayer()) {
+        event.preventDefault();
+        return;
+      }
+
       // Check if any selection is active and clear the selected cells
       if (magicWandSelection.active && magicWandSelection.selectedCells.size > 0) {
         event.preventDefault();
@@ -1135,353 +1443,31 @@ export const useKeyboardShortcuts = () => {
       }
     }
 
-    const isBracketLeft = event.code === 'BracketLeft' || event.key === '[' || event.key === '{';
-    const isBracketRight = event.code === 'BracketRight' || event.key === ']' || event.key === '}';
-
-    if (isModifierPressed && !event.altKey && !event.shiftKey) {
-      if (isBracketLeft) {
-        event.preventDefault();
-        navigateCharacterPaletteCharacters('previous');
-        return;
-      }
-
-      if (isBracketRight) {
-        event.preventDefault();
-        navigateCharacterPaletteCharacters('next');
-        return;
-      }
-    }
-
-    // Handle shift-modified hotkeys (first/last frame, palette colors, flip utilities, onion skinning)
-    if (event.shiftKey && !event.metaKey && !event.ctrlKey && !event.altKey) {
-      const isShiftComma = event.key === '<' || event.code === 'Comma';
-      const isShiftPeriod = event.key === '>' || event.code === 'Period';
-
-      if (canNavigate && isShiftComma) {
-        event.preventDefault();
-        navigateFirst();
-        return;
-      }
-
-      if (canNavigate && isShiftPeriod) {
-        event.preventDefault();
-        navigateLast();
-        return;
-      }
-
-      if (isBracketLeft) {
-        event.preventDefault();
-        navigatePaletteColor('previous');
-        return;
-      }
-
-      if (isBracketRight) {
-        event.preventDefault();
-        navigatePaletteColor('next');
-        return;
-      }
-
-      if (event.key === 'H' || event.key === 'h') {
-        event.preventDefault();
-        flipHorizontal();
-        return;
-      }
-      if (event.key === 'V' || event.key === 'v') {
-        event.preventDefault();
-        flipVertical();
-        return;
-      }
-      if (event.key === 'C' || event.key === 'c') {
-        event.preventDefault();
-        // Crop canvas to selection if there's an active selection
-        if (canCrop()) {
-          cropToSelection();
-        }
-        return;
-      }
-      if (event.key === 'O' || event.key === 'o') {
-        event.preventDefault();
-        toggleOnionSkin();
-        return;
-      }
-    }
-
-    // Handle tool hotkeys (single key presses for tool switching)
-    // Only process if no modifier keys are pressed and key is a valid tool hotkey
-    if (!event.metaKey && !event.ctrlKey && !event.altKey && !event.shiftKey) {
-      if (isBracketLeft) {
-        event.preventDefault();
-        adjustBrushSize('decrease');
-        return;
-      }
-
-      if (isBracketRight) {
-        event.preventDefault();
-        adjustBrushSize('increase');
-        return;
-      }
-
-      // Handle zoom hotkeys
-      if (event.key === '+' || event.key === '=') {
-        event.preventDefault();
-        zoomIn();
-        return;
-      }
-      if (event.key === '-') {
-        event.preventDefault();
-        zoomOut();
-        return;
-      }
-      
-      // Handle frame navigation shortcuts (comma and period keys)
-      if (event.key === ',' && canNavigate) {
-        event.preventDefault();
-        navigatePrevious();
-        return;
-      }
-      if (event.key === '.' && canNavigate) {
-        event.preventDefault();
-        navigateNext();
-        return;
-      }
-      
-      // Handle color hotkeys
-      if (event.key === 'x') {
-        // Swap foreground/background colors using existing logic
-        event.preventDefault();
-        swapForegroundBackground();
-        return;
-      }
-      
-      if (event.key === '[') {
-        // Previous palette color
-        event.preventDefault();
-        navigatePaletteColor('previous');
-        return;
-      }
-      
-      if (event.key === ']') {
-        // Next palette color
-        event.preventDefault();
-        navigatePaletteColor('next');
-        return;
-      }
-      
-      const targetTool = getToolForHotkey(event.key);
-      if (targetTool) {
-        event.preventDefault();
-        setActiveTool(targetTool);
-        return;
-      }
-    }
-
-    // Check for modifier keys (Cmd on Mac, Ctrl on Windows/Linux)
-    if (!isModifierPressed) return;
-    
-    // Handle Ctrl+Delete or Ctrl+Backspace for frame deletion (before the switch statement)
-    if ((event.key === 'Delete' || event.key === 'Backspace') && isModifierPressed) {
-      if (frames.length > 1) {
-        event.preventDefault();
-        
-        // Check if multiple frames are selected
-        const selectedFrames = Array.from(selectedFrameIndices).sort((a, b) => a - b);
-        
-        if (selectedFrames.length > 1) {
-          // Batch delete all selected frames
-          deleteFrameRange(selectedFrames);
-        } else {
-          // Single frame delete
-          removeFrame(currentFrameIndex);
-        }
-      }
-      return;
-    }
-
-    switch (normalizedKey) {
-      case 'n':
-        // Ctrl+N = Add new frame after current frame
-        if (!event.shiftKey) {
-          event.preventDefault();
-          addFrame(currentFrameIndex + 1);
-        }
-        break;
-        
-      case 'd':
-        // Ctrl+D = Duplicate current frame
-        if (!event.shiftKey) {
-          event.preventDefault();
-          const selectedFrames = Array.from(selectedFrameIndices).sort((a, b) => a - b);
-          if (selectedFrames.length > 1) {
-            duplicateFrameRange(selectedFrames);
-          } else {
-            duplicateFrame(currentFrameIndex);
-          }
-        }
-        break;
-
-        
-      case 'a':
-        // Select All - activate selection tool and select entire canvas
-        event.preventDefault();
-        
-        // Switch to selection tool if not already active
-        if (activeTool !== 'select') {
-          setActiveTool('select');
-        }
-        
-        // Clear any existing selections
-        clearSelection();
-        clearLassoSelection();
-        clearMagicWandSelection();
-        
-        // Create a selection that covers the entire canvas
-        // Canvas coordinates go from 0,0 to width-1,height-1
-        startSelection(0, 0);
-        updateSelection(width - 1, height - 1);
-        break;
-        
-      case 'c':
-        // Copy selection (prioritize magic wand, then lasso, then rectangular)
-        if (magicWandSelection.active) {
-          event.preventDefault();
-          copyMagicWandSelection(cells);
-        } else if (lassoSelection.active) {
-          event.preventDefault();
-          copyLassoSelection(cells);
-        } else if (selection.active) {
-          event.preventDefault();
-          copySelection(cells);
-        }
-        break;
-        
-      case 'v':
-        // Enhanced paste with preview mode
-        event.preventDefault();
-        
-        // If already in paste mode, commit the paste
-        if (pasteMode.isActive) {
-          const pastedData = commitPaste();
-          if (pastedData) {
-            // Save current state for undo
-            const { pushCanvasHistory, finalizeCanvasHistory } = useToolStore.getState();
-            pushCanvasHistory(new Map(cells), currentFrameIndex, 'Paste lasso selection');
-            
-            // Merge pasted data with current canvas
-            const newCells = new Map(cells);
-            pastedData.forEach((cell, key) => {
-              newCells.set(key, cell);
-            });
-            
-            setCanvasData(newCells);
-            finalizeCanvasHistory(new Map(newCells));
-          }
-        } else {
-          startPasteFromClipboard();
-        }
-        break;
-        
-      case 'z':
-        // Undo/Redo with enhanced history support
-        if (event.shiftKey) {
-          // Shift+Cmd+Z = Redo
-          if (canRedo()) {
-            event.preventDefault();
-            const redoAction = redo();
-            if (redoAction) {
-              // Set flag to prevent auto-save during history processing
-              useToolStore.setState({ isProcessingHistory: true });
-              try {
-                handleHistoryAction(redoAction, true);
-              } finally {
-                // Clear flag after a small delay to ensure all effects have settled
-                setTimeout(() => {
-                  useToolStore.setState({ isProcessingHistory: false });
-                }, 200);
-              }
-            }
-          }
-        } else {
-          // Cmd+Z = Undo
-          if (canUndo()) {
-            event.preventDefault();
-            const undoAction = undo();
-            if (undoAction) {
-              // Set flag to prevent auto-save during history processing
-              useToolStore.setState({ isProcessingHistory: true });
-              try {
-                handleHistoryAction(undoAction, false);
-              } finally {
-                // Clear flag after a small delay to ensure all effects have settled
-                setTimeout(() => {
-                  useToolStore.setState({ isProcessingHistory: false });
-                }, 200);
-              }
-            }
-          }
-        }
-        break;
+    // Everything else goes through the keymap (see constants/commands.ts)
+    if (!commandId || event.defaultPrevented) return;
+    if (executeCommand(commandId)) {
+      event.preventDefault();
     }
   }, [
     cells,
-    width,
-    height,
     selection,
     lassoSelection,
     magicWandSelection,
-    copySelection,
-    copyLassoSelection,
-    copyMagicWandSelection,
     clearSelection,
     clearLassoSelection,
     clearMagicWandSelection,
-    startSelection,
-    updateSelection,
     setCanvasData,
-    undo,
-    redo,
-    canUndo,
-    canRedo,
-    handleHistoryAction,
-    commitPaste,
     pasteMode,
-    startPasteFromClipboard,
     textToolState,
     activeTool,
-    setActiveTool,
-    swapForegroundBackground,
-    adjustBrushSize,
-    toggleOnionSkin,
     currentFrameIndex,
-    frames,
-    selectedFrameIndices,
-    zoomIn,
-    zoomOut,
-    navigateNext,
-    navigatePrevious,
-    navigateFirst,
-    navigateLast,
-    navigatePaletteColor,
-    navigateCharacterPaletteCharacters,
-    canNavigate,
-    addFrame,
-    removeFrame,
-    duplicateFrame,
-    duplicateFrameRange,
-    deleteFrameRange,
-    flipHorizontal,
-    flipVertical,
-    canCrop,
-    cropToSelection,
-    showSaveProjectDialog,
-    showSaveAsDialog,
-    showOpenProjectDialog,
     blockBrowserShortcut
   ]);
 
   const handleShortcutKeyPress = useCallback((event: KeyboardEvent) => {
-    if ((event.metaKey || event.ctrlKey) && !event.altKey && !event.shiftKey) {
-      const normalizedKey = typeof event.key === 'string' ? event.key.toLowerCase() : '';
-      if (normalizedKey === 's' || normalizedKey === 'o') {
+    if (event.metaKey || event.ctrlKey) {
+      const commandId = useKeymapStore.getState().getCommandForChord(eventToChord(event));
+      if (commandId && isFileCommand(commandId)) {
         blockBrowserShortcut(event);
       }
     }
@@ -1504,14 +1490,17 @@ export const useKeyboardShortcuts = () => {
     // Expose functions for UI buttons
     copySelection: () => {
       if (magicWandSelection.active) {
-        copyMagicWandSelection(cells);
+        copyMagicWandSelection(cells, clipboardRenderOptions);
       } else if (lassoSelection.active) {
-        copyLassoSelection(cells);
+        copyLassoSelection(cells, clipboardRenderOptions);
       } else if (selection.active) {
-        copySelection(cells);
+        copySelection(cells, clipboardRenderOptions);
       }
     },
     pasteSelection: () => {
+      if (!canEditActiveLayer()) {
+        return;
+      }
       // If already in paste mode, commit the paste
       if (pasteMode.isActive) {
         const pastedData = commitPaste();
@@ -1526,7 +1515,7 @@ export const useKeyboardShortcuts = () => {
           finalizeCanvasHistory(new Map(newCells));
         }
       } else {
-        startPasteFromClipboard();
+        startPasteFromAnyClipboard();
       }
     }
   };
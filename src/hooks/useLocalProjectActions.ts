@@ -0,0 +1,108 @@
+/**
+ * ASCII Motion
+ * Local Project Actions Hook
+ *
+ * Save, open and delete projects in the browser's IndexedDB library.
+ * Works offline and without an account; documents use the .asciimtn session format
+ * so they load through the regular session importer.
+ */
+
+import { useCallback } from 'react';
+import type { ExportDataBundle } from '../types/export';
+import { useSessionImporter } from '../utils/sessionImporter';
+import { buildSessionData } from '../utils/sessionFormat';
+import type { SessionDocument } from '../utils/sessionFormat';
+import {
+  deleteLocalProject,
+  getLocalProject,
+  saveLocalProject,
+} from '../utils/localProjectStorage';
+import { useProjectMetadataStore } from '../stores/projectMetadataStore';
+
+export interface LocalTypographyCallbacks {
+  setFontSize: (size: number) => void;
+  setCharacterSpacing: (spacing: number) => void;
+  setLineSpacing: (spacing: number) => void;
+  setSelectedFontId?: (fontId: string) => void;
+}
+
+export function useLocalProjectActions() {
+  const { localProjectId, setLocalProjectId, markDocumentSaved } = useProjectMetadataStore();
+  const { importSession } = useSessionImporter();
+
+  /**
+   * Restore a session document into the editor
+   * Goes through a File so the regular importer handles validation and migration
+   */
+  const importSessionDocument = useCallback(
+    async (sessionData: SessionDocument, typographyCallbacks?: LocalTypographyCallbacks) => {
+      const blob = new Blob([JSON.stringify(sessionData)], { type: 'application/json' });
+      const file = new File([blob], 'local-project.asciimtn', { type: 'application/json' });
+      await importSession(file, typographyCallbacks);
+    },
+    [importSession]
+  );
+
+  /**
+   * Save the current project to the local library
+   * Updates the current local project unless forceNew is set (Save As)
+   */
+  const handleSaveLocal = useCallback(
+    async (exportData: ExportDataBundle, projectName: string, description?: string, forceNew?: boolean) => {
+      const sessionData = buildSessionData(exportData, { includeMetadata: true });
+      const record = await saveLocalProject(sessionData, {
+        id: forceNew ? null : localProjectId,
+        name: projectName || 'Untitled Project',
+        description,
+      });
+
+      setLocalProjectId(record.id);
+
+      // The saved copy supersedes the crash-recovery snapshot
+      markDocumentSaved();
+
+      return record;
+    },
+    [localProjectId, setLocalProjectId, markDocumentSaved]
+  );
+
+  /**
+   * Open a project from the local library
+   */
+  const handleLoadLocal = useCallback(
+    async (projectId: string, typographyCallbacks?: LocalTypographyCallbacks) => {
+      const record = await getLocalProject(projectId);
+      if (!record) {
+        throw new Error('Project not found in local storage');
+      }
+
+      await importSessionDocument(record.sessionData, typographyCallbacks);
+      setLocalProjectId(record.id);
+      markDocumentSaved();
+      return record;
+    },
+    [importSessionDocument, setLocalProjectId, markDocumentSaved]
+  );
+
+  /**
+   * Delete a project from the local library
+   * The open document stays in the editor but is no longer linked to the deleted project
+   */
+  const handleDeleteLocal = useCallback(
+    async (projectId: string) => {
+      await deleteLocalProject(projectId);
+      if (projectId === localProjectId) {
+        setLocalProjectId(null);
+      }
+    },
+    [localProjectId, setLocalProjectId]
+  );
+
+  return {
+    localProjectId,
+    importSessionDocument,
+    handleSaveLocal,
+    handleLoadLocal,
+    handleDeleteLocal,
+  };
+}
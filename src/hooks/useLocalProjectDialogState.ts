@@ -0,0 +1,32 @@
+/**
+ * ASCII Motion
+ * Local Project Dialog State Hook
+ * 
+ * Manages the open/close state of the local (browser storage) project dialogs
+ * This allows the dialogs to be rendered in App.tsx (inside CanvasProvider)
+ * while being controlled from HamburgerMenu (outside CanvasProvider)
+ */
+
+import { create } from 'zustand';
+
+interface LocalProjectDialogState {
+  showSaveLocalDialog: boolean;
+  showLocalProjectsDialog: boolean;
+  saveAsMode: boolean; // true = "Save As...", false = "Save"
+  triggerSilentSave: boolean; // true = overwrite the current local project without showing dialog
+  setShowSaveLocalDialog: (show: boolean) => void;
+  setShowLocalProjectsDialog: (show: boolean) => void;
+  setSaveAsMode: (saveAs: boolean) => void;
+  setTriggerSilentSave: (trigger: boolean) => void;
+}
+
+export const useLocalProjectDialogState = create<LocalProjectDialogState>((set) => ({
+  showSaveLocalDialog: false,
+  showLocalProjectsDialog: false,
+  saveAsMode: false,
+  triggerSilentSave: false,
+  setShowSaveLocalDialog: (show) => set({ showSaveLocalDialog: show }),
+  setShowLocalProjectsDialog: (show) => set({ showLocalProjectsDialog: show }),
+  setSaveAsMode: (saveAs) => set({ saveAsMode: saveAs }),
+  setTriggerSilentSave: (trigger) => set({ triggerSilentSave: trigger }),
+}));
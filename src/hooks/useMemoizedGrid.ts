@@ -35,7 +35,7 @@ export const useMemoizedGrid = (
   moveState?: MoveState | null,
   getTotalOffset?: (moveState: MoveState) => { x: number; y: number }
 ) => {
-  const { width, height, cells, getCell } = useCanvasStore();
+  const { width, height, cells } = useCanvasStore();
   const { selection } = useToolStore();
 
   // Memoize the set of moving cell coordinates
@@ -60,32 +60,32 @@ export const useMemoizedGrid = (
     const movingCells: GridCell[] = [];
 
     // Process static cells (not being moved)
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const key = `${x},${y}`;
-        
-        if (movingCellKeys.has(key)) {
-          // Cell is being moved - render empty cell in original position
-          visibleCells.push({
-            x,
-            y,
-            cell: { char: ' ', color: '#000000', bgColor: '#FFFFFF' },
-            key: `static_${key}`,
-            isMoving: false
-          });
-        } else {
-          // Normal cell rendering
-          const cell = getCell(x, y);
-          visibleCells.push({
-            x,
-            y,
-            cell,
-            key,
-            isMoving: false
-          });
-        }
+    // Walk the sparse cell map rather than every coordinate so large canvases stay cheap
+    cells.forEach((cell, key) => {
+      if (movingCellKeys.has(key)) return;
+      const [x, y] = key.split(',').map(Number);
+      if (x < width && y < height) {
+        visibleCells.push({
+          x,
+          y,
+          cell,
+          key,
+          isMoving: false
+        });
       }
-    }
+    });
+
+    // Cells being moved - render empty cells in their original positions
+    movingCellKeys.forEach((key) => {
+      const [x, y] = key.split(',').map(Number);
+      visibleCells.push({
+        x,
+        y,
+        cell: { char: ' ', color: '#000000', bgColor: '#FFFFFF' },
+        key: `static_${key}`,
+        isMoving: false
+      });
+    });
 
     // Process moving cells at their new positions
     if (moveState && moveState.originalData.size > 0) {
@@ -114,7 +114,7 @@ export const useMemoizedGrid = (
       totalCells: visibleCells.length + movingCells.length,
       hasChanges: cells.size > 0 || movingCells.length > 0
     };
-  }, [width, height, cells, getCell, movingCellKeys, moveState, totalOffset]);
+  }, [width, height, cells, movingCellKeys, moveState, totalOffset]);
 
   // Memoize selection data
   const selectionData = useMemo(() => {
@@ -6,6 +6,7 @@ import {
   calculateOnionSkinOpacity, 
   getOnionSkinColor 
 } from '../constants/onionSkin';
+import { compositeFrame } from '../utils/layerUtils';
 import type { Cell } from '../types';
 
 /**
@@ -13,7 +14,7 @@ import type { Cell } from '../types';
  * Renders previous and next frames with tinted transparency
  */
 export const useOnionSkinRenderer = () => {
-  const { onionSkin, getFrameData, currentFrameIndex, frames, isPlaying } = useAnimationStore();
+  const { onionSkin, currentFrameIndex, frames, isPlaying } = useAnimationStore();
   const { canvasRef, panOffset, fontMetrics } = useCanvasContext();
   const {
     effectiveCellWidth,
@@ -41,8 +42,9 @@ export const useOnionSkinRenderer = () => {
   const getCacheKey = useCallback((frameIndex: number, distance: number, isPrevious: boolean): string => {
     const frame = frames[frameIndex];
     const thumbKey = frame?.thumbnail || `frame-${frameIndex}`;
-    return `${thumbKey}-${distance}-${isPrevious ? 'prev' : 'next'}-${zoom}-${effectiveCellWidth}-${effectiveCellHeight}`;
-  }, [frames, zoom, effectiveCellWidth, effectiveCellHeight]);
+    // Layers only cover the visible window, so the scroll position is part of the key
+    return `${thumbKey}-${distance}-${isPrevious ? 'prev' : 'next'}-${zoom}-${effectiveCellWidth}-${effectiveCellHeight}-${panOffset.x},${panOffset.y}`;
+  }, [frames, zoom, effectiveCellWidth, effectiveCellHeight, panOffset]);
 
   // Create or get cached onion skin layer
   const getOrCreateOnionSkinLayer = useCallback((
@@ -88,6 +90,14 @@ export const useOnionSkinRenderer = () => {
         const pixelX = x * effectiveCellWidth + panOffset.x;
         const pixelY = y * effectiveCellHeight + panOffset.y;
 
+        // Skip cells outside the visible window
+        if (
+          pixelX + effectiveCellWidth < 0 || pixelX > onionCanvas.width ||
+          pixelY + effectiveCellHeight < 0 || pixelY > onionCanvas.height
+        ) {
+          return;
+        }
+
         // Draw character with tint color
         ctx.fillStyle = tintColor;
         ctx.fillText(
@@ -138,7 +148,8 @@ export const useOnionSkinRenderer = () => {
     for (let i = 1; i <= onionSkin.previousFrames; i++) {
       const frameIndex = currentFrameIndex - i;
       if (frameIndex >= 0) {
-        const frameData = getFrameData(frameIndex);
+        const frame = frames[frameIndex];
+        const frameData = frame ? compositeFrame(frame) : undefined;
         if (frameData) {
           const onionLayer = getOrCreateOnionSkinLayer(frameData, i, true, frameIndex);
           if (onionLayer) {
@@ -152,7 +163,8 @@ export const useOnionSkinRenderer = () => {
     for (let i = 1; i <= onionSkin.nextFrames; i++) {
       const frameIndex = currentFrameIndex + i;
       if (frameIndex < frames.length) {
-        const frameData = getFrameData(frameIndex);
+        const frame = frames[frameIndex];
+        const frameData = frame ? compositeFrame(frame) : undefined;
         if (frameData) {
           const onionLayer = getOrCreateOnionSkinLayer(frameData, i, false, frameIndex);
           if (onionLayer) {
@@ -168,8 +180,7 @@ export const useOnionSkinRenderer = () => {
     onionSkin.nextFrames,
     isPlaying,
     currentFrameIndex,
-    frames.length,
-    getFrameData,
+    frames,
     getOrCreateOnionSkinLayer
   ]);
 
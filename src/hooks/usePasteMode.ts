@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useState } from 'react';
 import { useToolStore } from '../stores/toolStore';
 import { useCanvasStore } from '../stores/canvasStore';
+import { canEditActiveLayer } from '../utils/layerLock';
 import type { Cell } from '@/types';
 
 export interface PastePreview {
@@ -107,13 +108,14 @@ export const usePasteMode = () => {
 
   /**
    * Start paste mode - show preview at specified position
+   * External data (e.g. text from the OS clipboard) is previewed instead of the app clipboards when given
    */
-  const startPasteMode = useCallback((initialPosition: { x: number; y: number }) => {
-    if (!hasClipboard() && !hasLassoClipboard() && !hasMagicWandClipboard()) {
+  const startPasteMode = useCallback((initialPosition: { x: number; y: number }, externalData?: Map<string, Cell>) => {
+    if (!externalData && !hasClipboard() && !hasLassoClipboard() && !hasMagicWandClipboard()) {
       return false;
     }
 
-    const activeClipboard = getActiveClipboard();
+    const activeClipboard = externalData ?? getActiveClipboard();
     if (!activeClipboard) {
       return false;
     }
@@ -244,6 +246,9 @@ export const usePasteMode = () => {
     if (!pasteMode.isActive || !pasteMode.preview) {
       return false;
     }
+    if (!canEditActiveLayer()) {
+      return false;
+    }
 
     const pastedData = commitPaste();
     if (pastedData) {
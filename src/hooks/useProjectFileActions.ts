@@ -1,21 +1,35 @@
 import { useCallback } from 'react';
 import { useAuth } from '@ascii-motion/premium';
 import { useCloudDialogState } from './useCloudDialogState';
+import { useLocalProjectDialogState } from './useLocalProjectDialogState';
 import { useProjectMetadataStore } from '../stores/projectMetadataStore';
 
 /**
  * Provides actions for Save (Ctrl+S), Save As (Ctrl+Shift+S), and Open (Ctrl+O) shortcuts
  * - If user is authenticated: Opens cloud save/open dialogs or performs silent save
- * - If user is not authenticated: Shortcuts are disabled (no-op)
+ * - If user is not authenticated: Uses the local (browser storage) project library
  */
 export const useProjectFileActions = () => {
   const { user } = useAuth();
   const { setShowSaveToCloudDialog, setShowProjectsDialog, setSaveAsMode, setTriggerSilentSave } = useCloudDialogState();
-  const { currentProjectId } = useProjectMetadataStore();
+  const {
+    setShowSaveLocalDialog,
+    setShowLocalProjectsDialog,
+    setSaveAsMode: setLocalSaveAsMode,
+    setTriggerSilentSave: setTriggerLocalSilentSave,
+  } = useLocalProjectDialogState();
+  const { currentProjectId, localProjectId } = useProjectMetadataStore();
 
   const showSaveProjectDialog = useCallback(() => {
     if (!user) {
-      return; // Not authenticated, do nothing
+      // Offline/local: overwrite the open local project, or ask for a name the first time
+      if (localProjectId) {
+        setTriggerLocalSilentSave(true);
+      } else {
+        setLocalSaveAsMode(false);
+        setShowSaveLocalDialog(true);
+      }
+      return;
     }
 
     // If project has been saved before (has currentProjectId), trigger silent save
@@ -26,28 +40,32 @@ export const useProjectFileActions = () => {
       setSaveAsMode(false);
       setShowSaveToCloudDialog(true);
     }
-  }, [user, currentProjectId, setSaveAsMode, setShowSaveToCloudDialog, setTriggerSilentSave]);
+  }, [user, currentProjectId, localProjectId, setSaveAsMode, setShowSaveToCloudDialog, setTriggerSilentSave, setLocalSaveAsMode, setShowSaveLocalDialog, setTriggerLocalSilentSave]);
 
   const showSaveAsDialog = useCallback(() => {
     if (user) {
       setSaveAsMode(true); // Save As mode (always create new)
       setShowSaveToCloudDialog(true);
+    } else {
+      setLocalSaveAsMode(true);
+      setShowSaveLocalDialog(true);
     }
-    // If not authenticated, do nothing (shortcuts disabled)
-  }, [user, setShowSaveToCloudDialog, setSaveAsMode]);
+  }, [user, setShowSaveToCloudDialog, setSaveAsMode, setLocalSaveAsMode, setShowSaveLocalDialog]);
 
   const showOpenProjectDialog = useCallback(() => {
     if (user) {
       // User is authenticated - use cloud projects dialog
       setShowProjectsDialog(true);
+    } else {
+      setShowLocalProjectsDialog(true);
     }
-    // If not authenticated, do nothing (shortcuts disabled)
-  }, [user, setShowProjectsDialog]);
+  }, [user, setShowProjectsDialog, setShowLocalProjectsDialog]);
 
   return {
     showSaveProjectDialog,
     showSaveAsDialog,
     showOpenProjectDialog,
     currentProjectId, // Expose for checking if project is saved
+    localProjectId,
   } as const;
 };
@@ -0,0 +1,45 @@
+import { useCallback, useMemo } from 'react';
+import { useSymmetryStore } from '../stores/symmetryStore';
+import { useCanvasStore } from '../stores/canvasStore';
+import { useCanvasContext } from '../contexts/CanvasContext';
+import { getSymmetryPoints } from '../utils/symmetryUtils';
+import type { SymmetryPoint } from '../utils/symmetryUtils';
+import type { SymmetrySettings } from '../types';
+
+/**
+ * Custom hook exposing the current symmetry settings as point mappers
+ * Used by drawing tools to paint mirrored/rotated copies of each cell
+ */
+export const useSymmetry = () => {
+  const enabled = useSymmetryStore((state) => state.enabled);
+  const mode = useSymmetryStore((state) => state.mode);
+  const radialSegments = useSymmetryStore((state) => state.radialSegments);
+  const center = useSymmetryStore((state) => state.center);
+  const width = useCanvasStore((state) => state.width);
+  const height = useCanvasStore((state) => state.height);
+  const { fontMetrics } = useCanvasContext();
+
+  const settings = useMemo<SymmetrySettings>(() => ({
+    enabled,
+    mode,
+    radialSegments,
+    center
+  }), [enabled, mode, radialSegments, center]);
+
+  // Cell (x, y) followed by its symmetric copies
+  const getSymmetricPoints = useCallback((x: number, y: number): SymmetryPoint[] => {
+    return getSymmetryPoints(x, y, settings, { width, height, aspectRatio: fontMetrics.aspectRatio });
+  }, [settings, width, height, fontMetrics.aspectRatio]);
+
+  // Expand a list of cells with every symmetric copy (character transforms dropped)
+  const expandSymmetricPoints = useCallback((points: Array<{ x: number; y: number }>): Array<{ x: number; y: number }> => {
+    if (!enabled) return points;
+    return points.flatMap(({ x, y }) => getSymmetricPoints(x, y).map((point) => ({ x: point.x, y: point.y })));
+  }, [enabled, getSymmetricPoints]);
+
+  return {
+    settings,
+    getSymmetricPoints,
+    expandSymmetricPoints
+  };
+};
@@ -10,14 +10,20 @@ import { useTimeEffectsStore } from '../stores/timeEffectsStore';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useAnimationStore } from '../stores/animationStore';
 import { useToolStore } from '../stores/toolStore';
+import { useBezierStore } from '../stores/bezierStore';
 import { markFullRedraw } from '../utils/dirtyTracker';
+import { cloneFrames, snapshotFrames } from '../utils/frameUtils';
+import { getActiveSelectionBounds } from '../utils/flipUtils';
+import { applySelectionMask, getSelectionMaskWeights } from '../utils/selectionMask';
+import { canEditActiveLayer } from '../utils/layerLock';
+import { buildTweenFrames, captureTweenKeyframe, createMotionPath } from '../utils/tweenUtils';
 import { 
   applyWaveWarpToFrame, 
   applyWiggleToFrame, 
   calculateAccumulatedTime,
   clampFrameDuration
 } from '../utils/timeEffectsProcessing';
-import type { ApplyTimeEffectHistoryAction, SetFrameDurationsHistoryAction, Cell } from '../types';
+import type { ApplyTimeEffectHistoryAction, ApplyTweenHistoryAction, SetFrameDurationsHistoryAction, Cell } from '../types';
 
 /**
  * Custom hook providing time effects actions with integrated undo/redo history.
@@ -28,10 +34,14 @@ export const useTimeEffectsHistory = () => {
   const { 
     waveWarpSettings, 
     wiggleSettings, 
+    tweenSettings,
+    tweenKeyframe,
     frameRange,
     closeWaveWarpDialog,
     closeWiggleDialog,
-    closeSetDurationDialog
+    closeSetDurationDialog,
+    closeTweenDialog,
+    setTweenKeyframe
   } = useTimeEffectsStore();
   
   const { width: canvasWidth, height: canvasHeight } = useCanvasStore();
@@ -66,6 +76,9 @@ export const useTimeEffectsHistory = () => {
         console.warn('No frames selected for wave warp');
         return false;
       }
+      if (!canEditActiveLayer(affectedIndices)) {
+        return false;
+      }
       
       // Save previous state for undo
       const previousFramesData = affectedIndices.map(index => ({
@@ -80,15 +93,23 @@ export const useTimeEffectsHistory = () => {
       let currentFrameTransformedData: Map<string, Cell> | null = null;
       const currentFrameIndex = animationStore.currentFrameIndex;
       
+      // Limit the warp to the active selection, if any
+      const maskWeights = getSelectionMaskWeights(useToolStore.getState(), canvasWidth, canvasHeight);
+      const newFramesData: Array<{ frameIndex: number; data: Map<string, Cell> }> = [];
+      
       affectedIndices.forEach(frameIndex => {
         const accumulatedTime = calculateAccumulatedTime(frames, frameIndex);
-        const transformedData = applyWaveWarpToFrame(
+        const warpedData = applyWaveWarpToFrame(
           frames[frameIndex].data,
           canvasWidth,
           canvasHeight,
           waveWarpSettings,
           accumulatedTime
         );
+        const transformedData = maskWeights
+          ? applySelectionMask(frames[frameIndex].data, warpedData, maskWeights)
+          : warpedData;
+        newFramesData.push({ frameIndex, data: transformedData });
         
         console.log(`[Wave Warp] Frame ${frameIndex}: accumulatedTime=${accumulatedTime}ms, cells before=${frames[frameIndex].data.size}, cells after=${transformedData.size}`);
         
@@ -122,7 +143,8 @@ export const useTimeEffectsHistory = () => {
           effectSettings: { ...waveWarpSettings },
           frameRange: { ...frameRange },
           affectedFrameIndices: affectedIndices,
-          previousFramesData
+          previousFramesData,
+          newFramesData
         }
       };
       
@@ -159,6 +181,9 @@ export const useTimeEffectsHistory = () => {
         console.warn('No frames selected for wiggle');
         return false;
       }
+      if (!canEditActiveLayer(affectedIndices)) {
+        return false;
+      }
       
       // Save previous state for undo
       const previousFramesData = affectedIndices.map(index => ({
@@ -173,15 +198,23 @@ export const useTimeEffectsHistory = () => {
       let currentFrameTransformedData: Map<string, Cell> | null = null;
       const currentFrameIndex = animationStore.currentFrameIndex;
       
+      // Limit the wiggle to the active selection, if any
+      const maskWeights = getSelectionMaskWeights(useToolStore.getState(), canvasWidth, canvasHeight);
+      const newFramesData: Array<{ frameIndex: number; data: Map<string, Cell> }> = [];
+      
       affectedIndices.forEach(frameIndex => {
         const accumulatedTime = calculateAccumulatedTime(frames, frameIndex);
-        const transformedData = applyWiggleToFrame(
+        const wiggledData = applyWiggleToFrame(
           frames[frameIndex].data,
           canvasWidth,
           canvasHeight,
           wiggleSettings,
           accumulatedTime
         );
+        const transformedData = maskWeights
+          ? applySelectionMask(frames[frameIndex].data, wiggledData, maskWeights)
+          : wiggledData;
+        newFramesData.push({ frameIndex, data: transformedData });
         
         animationStore.setFrameData(frameIndex, transformedData);
         
@@ -208,7 +241,8 @@ export const useTimeEffectsHistory = () => {
           effectSettings: { ...wiggleSettings },
           frameRange: { ...frameRange },
           affectedFrameIndices: affectedIndices,
-          previousFramesData
+          previousFramesData,
+          newFramesData
         }
       };
       
@@ -290,10 +324,159 @@ export const useTimeEffectsHistory = () => {
     }
   }, [frames, pushToHistory, closeSetDurationDialog]);
   
+  /**
+   * Get the cell keys covered by the active selection, or null when nothing is selected
+   */
+  const getSelectedCellKeys = useCallback((): Set<string> | null => {
+    const toolState = useToolStore.getState();
+    if (!toolState.selection.active && !toolState.lassoSelection.active && !toolState.magicWandSelection.active) {
+      return null;
+    }
+    
+    const { bounds, selectedCells } = getActiveSelectionBounds(toolState, canvasWidth, canvasHeight);
+    if (selectedCells) {
+      return new Set(selectedCells);
+    }
+    
+    const keys = new Set<string>();
+    for (let y = Math.max(0, bounds.minY); y <= Math.min(canvasHeight - 1, bounds.maxY); y++) {
+      for (let x = Math.max(0, bounds.minX); x <= Math.min(canvasWidth - 1, bounds.maxX); x++) {
+        keys.add(`${x},${y}`);
+      }
+    }
+    return keys.size > 0 ? keys : null;
+  }, [canvasWidth, canvasHeight]);
+  
+  /**
+   * Get the top-left cell of the active selection, used as a tween end placement
+   */
+  const getSelectionOrigin = useCallback((): { x: number; y: number } | null => {
+    const keys = getSelectedCellKeys();
+    if (!keys) return null;
+    
+    let minX = Infinity;
+    let minY = Infinity;
+    keys.forEach(key => {
+      const [x, y] = key.split(',').map(Number);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+    });
+    return { x: minX, y: minY };
+  }, [getSelectedCellKeys]);
+  
+  /**
+   * Capture the active selection on the current frame as the tween start keyframe
+   */
+  const captureTweenStart = useCallback((): boolean => {
+    const keys = getSelectedCellKeys();
+    if (!keys) {
+      console.warn('No selection to capture as tween keyframe');
+      return false;
+    }
+    
+    // Use the live canvas so unsaved edits on the current frame are included
+    const { cells } = useCanvasStore.getState();
+    const { currentFrameIndex } = useAnimationStore.getState();
+    const keyframe = captureTweenKeyframe(cells, keys, currentFrameIndex);
+    if (!keyframe || keyframe.cells.size === 0) {
+      console.warn('Selection is empty, nothing to tween');
+      return false;
+    }
+    
+    setTweenKeyframe(keyframe);
+    return true;
+  }, [getSelectedCellKeys, setTweenKeyframe]);
+  
+  /**
+   * Generate tween frames from the captured keyframe with history tracking
+   */
+  const applyTweenWithHistory = useCallback(async (): Promise<boolean> => {
+    try {
+      if (!tweenKeyframe) {
+        console.warn('No tween keyframe captured');
+        return false;
+      }
+      
+      const animationStore = useAnimationStore.getState();
+      const canvasStore = useCanvasStore.getState();
+      const previousCurrentFrame = animationStore.currentFrameIndex;
+      
+      // Flush pending canvas edits into the current frame before snapshotting
+      animationStore.setFrameData(previousCurrentFrame, new Map(canvasStore.cells));
+      const previousFrames = snapshotFrames(useAnimationStore.getState().frames);
+      
+      const { anchorPoints, isClosed } = useBezierStore.getState();
+      const motionPath = tweenSettings.followPath ? createMotionPath(anchorPoints, isClosed) : null;
+      
+      const { frames: newFrames, tweenedIndices } = buildTweenFrames(
+        cloneFrames(previousFrames),
+        tweenKeyframe,
+        tweenSettings,
+        canvasWidth,
+        canvasHeight,
+        motionPath
+      );
+      
+      if (tweenedIndices.length === 0) {
+        console.warn('No frames to tween');
+        return false;
+      }
+      // Inserted frames are new; overwritten frames keep their layer locks
+      if (tweenSettings.frameMode !== 'insert' && !canEditActiveLayer(tweenedIndices)) {
+        return false;
+      }
+      
+      // Land on the last tweened frame so the result is visible
+      const newCurrentFrame = tweenedIndices[tweenedIndices.length - 1];
+      
+      animationStore.replaceFrames(newFrames, newCurrentFrame);
+      canvasStore.setCanvasData(useAnimationStore.getState().frames[newCurrentFrame].data);
+      markFullRedraw();
+      
+      const historyAction: ApplyTweenHistoryAction = {
+        type: 'apply_tween',
+        timestamp: Date.now(),
+        description: tweenSettings.frameMode === 'insert'
+          ? `Tween selection across ${tweenedIndices.length} new frame(s)`
+          : `Tween selection across ${tweenedIndices.length} frame(s)`,
+        data: {
+          frameMode: tweenSettings.frameMode,
+          previousFrames,
+          previousCurrentFrame,
+          newFrames,
+          newCurrentFrame,
+          frameCount: tweenedIndices.length
+        }
+      };
+      
+      pushToHistory(historyAction);
+      
+      // Keyframe indices are stale once frames are inserted
+      setTweenKeyframe(null);
+      closeTweenDialog();
+      
+      return true;
+    } catch (error) {
+      console.error('Failed to apply tween:', error);
+      return false;
+    }
+  }, [
+    tweenKeyframe,
+    tweenSettings,
+    canvasWidth,
+    canvasHeight,
+    pushToHistory,
+    setTweenKeyframe,
+    closeTweenDialog
+  ]);
+  
   return {
     applyWaveWarpWithHistory,
     applyWiggleWithHistory,
     setFrameDurationsWithHistory,
+    captureTweenStart,
+    getSelectionOrigin,
+    applyTweenWithHistory,
     getAffectedFrameIndices
   };
 };
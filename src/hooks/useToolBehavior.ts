@@ -103,6 +103,9 @@ export const useToolBehavior = () => {
         return 'cursor-text';
       case 'fliphorizontal':
       case 'flipvertical':
+      case 'rotateclockwise':
+      case 'rotatecounterclockwise':
+      case 'rotate180':
         return 'cursor-pointer'; // Clickable utilities
       default:
         return 'cursor-default';
@@ -140,6 +143,12 @@ export const useToolBehavior = () => {
         return 'Flip Horizontal';
       case 'flipvertical':
         return 'Flip Vertical';
+      case 'rotateclockwise':
+        return 'Rotate Clockwise';
+      case 'rotatecounterclockwise':
+        return 'Rotate Counter-Clockwise';
+      case 'rotate180':
+        return 'Rotate 180°';
       default:
         return 'Unknown';
     }
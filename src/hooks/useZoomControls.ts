@@ -1,7 +1,7 @@
 import { useCanvasContext } from '@/contexts/CanvasContext';
 
 export const useZoomControls = () => {
-  const { zoom, setZoom, panOffset, setPanOffset } = useCanvasContext();
+  const { zoom, setZoom, basePanOffset: panOffset, setPanOffset } = useCanvasContext();
 
   const zoomIn = () => {
     const newZoom = Math.min(4.0, zoom + 0.2);
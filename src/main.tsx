@@ -4,12 +4,16 @@ import './index.css'
 import './styles/bundled-fonts.css'
 import { AppReveal } from './components/common/AppReveal'
 import App from './App'
+import { useToolStore, loadHistoryLimits } from './stores/toolStore'
 import { SpeedInsights } from '@vercel/speed-insights/react'
 
 // Set initial theme from localStorage or default to dark
 const storedTheme = localStorage.getItem('ascii-motion-theme') || 'dark'
 document.documentElement.classList.add(storedTheme)
 
+// Apply the saved undo history limits before any edits are recorded
+useToolStore.getState().setHistoryLimits(loadHistoryLimits())
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <AppReveal>
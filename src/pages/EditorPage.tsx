@@ -22,19 +22,25 @@ import { EffectsPanel } from '../components/features/EffectsPanel'
 import { GeneratorsPanel } from '../components/features/GeneratorsPanel'
 import { ImageExportDialog } from '../components/features/ImageExportDialog'
 import { VideoExportDialog } from '../components/features/VideoExportDialog'
+import { GifExportDialog } from '../components/features/GifExportDialog'
+import { SpriteSheetExportDialog } from '../components/features/SpriteSheetExportDialog'
 import { SessionExportDialog } from '../components/features/SessionExportDialog'
 import { TextExportDialog } from '../components/features/TextExportDialog'
+import { AnsiExportDialog } from '../components/features/AnsiExportDialog'
 import { JsonExportDialog } from '../components/features/JsonExportDialog'
 import { HtmlExportDialog } from '../components/features/HtmlExportDialog'
 import { ReactExportDialog } from '../components/features/ReactExportDialog'
 import { JsonImportDialog } from '../components/features/JsonImportDialog'
+import { AnsiImportDialog } from '../components/features/AnsiImportDialog'
 import { SetFrameDurationDialog } from '../components/features/timeEffects/SetFrameDurationDialog'
 import { AddFramesDialog } from '../components/features/timeEffects/AddFramesDialog'
 import { WaveWarpDialog } from '../components/features/timeEffects/WaveWarpDialog'
 import { WiggleDialog } from '../components/features/timeEffects/WiggleDialog'
+import { TweenSelectionDialog } from '../components/features/timeEffects/TweenSelectionDialog'
 import { NewProjectDialog } from '../components/features/NewProjectDialog'
 import { ProjectSettingsDialog } from '../components/features/ProjectSettingsDialog'
 import { WelcomeDialog } from '../components/features/WelcomeDialog'
+import { CommandPalette } from '../components/features/CommandPalette'
 
 /**
  * Main editor page component
@@ -183,23 +189,31 @@ export function EditorPage() {
       <GeneratorsPanel />
       <ImageExportDialog />
       <VideoExportDialog />
+      <GifExportDialog />
+      <SpriteSheetExportDialog />
       <SessionExportDialog />
       <TextExportDialog />
+      <AnsiExportDialog />
       <JsonExportDialog />
       <HtmlExportDialog />
       <ReactExportDialog />
       <JsonImportDialog />
+      <AnsiImportDialog />
       
       {/* Time Effects Dialogs */}
       <SetFrameDurationDialog />
       <AddFramesDialog />
       <WaveWarpDialog />
       <WiggleDialog />
+      <TweenSelectionDialog />
       
       {/* Project Management Dialogs */}
       <NewProjectDialog />
       <ProjectSettingsDialog />
       
+      {/* Command Palette - Ctrl/Cmd+K */}
+      <CommandPalette />
+      
       {/* Welcome Dialog - Shows on first visit and major version updates */}
       <WelcomeDialog />
     </div>
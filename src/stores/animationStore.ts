@@ -1,7 +1,8 @@
 import { create } from 'zustand';
-import type { Animation, Frame, FrameId, Cell } from '../types';
+import type { Animation, Frame, FrameId, FrameLayer, LayerId, Cell } from '../types';
 import { DEFAULT_FRAME_DURATION } from '../constants';
 import { cloneFrame, cloneFrames, generateFrameId } from '../utils/frameUtils';
+import { activateLayer, createLayer, hasLayers } from '../utils/layerUtils';
 
 interface AnimationState extends Animation {
   // Drag state for frame reordering
@@ -38,6 +39,7 @@ interface AnimationState extends Animation {
   updateFrameName: (index: number, name: string) => void;
   reorderFrames: (fromIndex: number, toIndex: number) => void;
   replaceFrames: (frames: Frame[], currentIndex: number, selectedIndices?: number[]) => void;
+  restoreFrame: (frameIndex: number, frame: Frame) => void;
   
   // Batch operations for multi-frame selection
   removeFrameRange: (frameIndices: number[]) => void;
@@ -47,7 +49,7 @@ interface AnimationState extends Animation {
   // Bulk import operations
   importFramesOverwrite: (frames: Array<{ data: Map<string, Cell>, duration: number }>, startIndex: number) => void;
   importFramesAppend: (frames: Array<{ data: Map<string, Cell>, duration: number }>) => void;
-  importSessionFrames: (frames: Array<{ id: string, name: string, duration: number, data: Map<string, Cell>, thumbnail?: string }>) => void;
+  importSessionFrames: (frames: Array<{ id: string, name: string, duration: number, data: Map<string, Cell>, thumbnail?: string, layers?: FrameLayer[], activeLayerId?: LayerId }>) => void;
   
   // Reset animation to initial state
   resetAnimation: () => void;
@@ -81,6 +83,16 @@ interface AnimationState extends Animation {
   setFrameData: (frameIndex: number, data: Map<string, Cell>) => void;
   getFrameData: (frameIndex: number) => Map<string, Cell> | undefined;
   
+  // Layer management (operates on a single frame's layer stack)
+  addLayer: (frameIndex: number, name?: string) => void;
+  removeLayer: (frameIndex: number, layerId: LayerId) => void;
+  moveLayer: (frameIndex: number, layerId: LayerId, toIndex: number) => void;
+  renameLayer: (frameIndex: number, layerId: LayerId, name: string) => void;
+  setActiveLayer: (frameIndex: number, layerId: LayerId) => void;
+  setLayerVisibility: (frameIndex: number, layerId: LayerId, visible: boolean) => void;
+  setLayerLocked: (frameIndex: number, layerId: LayerId, locked: boolean) => void;
+  setLayerOpacity: (frameIndex: number, layerId: LayerId, opacity: number) => void;
+  
   // Playback controls
   play: () => void;
   pause: () => void;
@@ -309,6 +321,16 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
     }, 50);
   },
 
+  restoreFrame: (frameIndex: number, frame: Frame) => {
+    set((state) => {
+      if (!state.frames[frameIndex]) return state;
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = cloneFrame(frame);
+      return { frames: newFrames };
+    });
+  },
+
   updateFrameDuration: (index: number, duration: number) => {
     set((state) => {
       const newFrames = [...state.frames];
@@ -342,20 +364,7 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
       }
 
       // Create a deep copy of frames to avoid reference issues
-      const newFrames = state.frames.map(frame => ({
-        id: frame.id,
-        name: frame.name,
-        duration: frame.duration,
-        thumbnail: frame.thumbnail,
-        data: new Map(Array.from(frame.data.entries()).map(([key, cell]) => [
-          key,
-          {
-            char: cell.char,
-            color: cell.color,
-            bgColor: cell.bgColor
-          }
-        ]))
-      }));
+      const newFrames = cloneFrames(state.frames);
       
       // Perform the move operation
       const [movedFrame] = newFrames.splice(fromIndex, 1);
@@ -547,6 +556,147 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
     return frames[frameIndex]?.data;
   },
 
+  // Layer management
+  addLayer: (frameIndex: number, name?: string) => {
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame) return state;
+
+      // Promote a flat frame to a layered one, keeping its cells as the base layer
+      const baseLayers: FrameLayer[] = hasLayers(frame)
+        ? frame.layers
+        : [createLayer('Layer 1')];
+      const activeLayerId = hasLayers(frame) ? frame.activeLayerId : baseLayers[0].id;
+      const activeIndex = baseLayers.findIndex(layer => layer.id === activeLayerId);
+
+      const newLayer = createLayer(name || `Layer ${baseLayers.length + 1}`);
+      const layers = baseLayers.map(layer => (
+        layer.id === activeLayerId ? { ...layer, data: new Map(frame.data) } : layer
+      ));
+      layers.splice(activeIndex + 1, 0, newLayer);
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = {
+        ...frame,
+        layers,
+        activeLayerId: newLayer.id,
+        data: new Map<string, Cell>()
+      };
+      return { frames: newFrames };
+    });
+  },
+
+  removeLayer: (frameIndex: number, layerId: LayerId) => {
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame || !hasLayers(frame) || frame.layers.length <= 1) return state; // Keep at least one layer
+
+      const removedIndex = frame.layers.findIndex(layer => layer.id === layerId);
+      if (removedIndex === -1) return state;
+
+      let updatedFrame: Frame = frame;
+      if (frame.activeLayerId === layerId) {
+        // Activate the layer below (or above when removing the bottom layer)
+        const fallback = frame.layers[removedIndex > 0 ? removedIndex - 1 : 1];
+        updatedFrame = activateLayer(frame, fallback.id);
+      }
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = {
+        ...updatedFrame,
+        layers: updatedFrame.layers!.filter(layer => layer.id !== layerId)
+      };
+      return { frames: newFrames };
+    });
+  },
+
+  moveLayer: (frameIndex: number, layerId: LayerId, toIndex: number) => {
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame || !hasLayers(frame)) return state;
+
+      const fromIndex = frame.layers.findIndex(layer => layer.id === layerId);
+      const targetIndex = Math.max(0, Math.min(toIndex, frame.layers.length - 1));
+      if (fromIndex === -1 || fromIndex === targetIndex) return state;
+
+      const layers = [...frame.layers];
+      const [moved] = layers.splice(fromIndex, 1);
+      layers.splice(targetIndex, 0, moved);
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = { ...frame, layers };
+      return { frames: newFrames };
+    });
+  },
+
+  renameLayer: (frameIndex: number, layerId: LayerId, name: string) => {
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame || !hasLayers(frame)) return state;
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = {
+        ...frame,
+        layers: frame.layers.map(layer => (layer.id === layerId ? { ...layer, name } : layer))
+      };
+      return { frames: newFrames };
+    });
+  },
+
+  setActiveLayer: (frameIndex: number, layerId: LayerId) => {
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame || !hasLayers(frame) || frame.activeLayerId === layerId) return state;
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = activateLayer(frame, layerId);
+      return { frames: newFrames };
+    });
+  },
+
+  setLayerVisibility: (frameIndex: number, layerId: LayerId, visible: boolean) => {
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame || !hasLayers(frame)) return state;
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = {
+        ...frame,
+        layers: frame.layers.map(layer => (layer.id === layerId ? { ...layer, visible } : layer))
+      };
+      return { frames: newFrames };
+    });
+  },
+
+  setLayerLocked: (frameIndex: number, layerId: LayerId, locked: boolean) => {
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame || !hasLayers(frame)) return state;
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = {
+        ...frame,
+        layers: frame.layers.map(layer => (layer.id === layerId ? { ...layer, locked } : layer))
+      };
+      return { frames: newFrames };
+    });
+  },
+
+  setLayerOpacity: (frameIndex: number, layerId: LayerId, opacity: number) => {
+    const clampedOpacity = Math.max(0, Math.min(1, opacity));
+    set((state) => {
+      const frame = state.frames[frameIndex];
+      if (!frame || !hasLayers(frame)) return state;
+
+      const newFrames = [...state.frames];
+      newFrames[frameIndex] = {
+        ...frame,
+        layers: frame.layers.map(layer => (layer.id === layerId ? { ...layer, opacity: clampedOpacity } : layer))
+      };
+      return { frames: newFrames };
+    });
+  },
+
   // Playback controls
   play: () => {
     set((state) => ({
@@ -809,7 +959,7 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
   },
 
   // Session-specific import that preserves all frame properties
-  importSessionFrames: (frames: Array<{ id: string, name: string, duration: number, data: Map<string, Cell>, thumbnail?: string }>) => {
+  importSessionFrames: (frames: Array<{ id: string, name: string, duration: number, data: Map<string, Cell>, thumbnail?: string, layers?: FrameLayer[], activeLayerId?: LayerId }>) => {
     set((state) => {
       // Completely replace the frames array with the imported frames
       // This ensures exact order preservation and no interference from existing frames
@@ -820,7 +970,10 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
           name: frameData.name,
           duration: frameData.duration,
           data: new Map(frameData.data), // Deep copy the cell data
-          thumbnail: frameData.thumbnail
+          thumbnail: frameData.thumbnail,
+          ...(frameData.layers && frameData.layers.length > 0 && frameData.activeLayerId
+            ? { layers: frameData.layers, activeLayerId: frameData.activeLayerId }
+            : {})
         })),
         currentFrameIndex: 0, // Start at first frame
         totalDuration: frames.reduce((total, frame) => total + frame.duration, 0)
@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import type { Canvas, Cell } from '../types';
 import { createCellKey } from '../types';
-import { DEFAULT_CANVAS_SIZES } from '../constants';
+import { CANVAS_SIZE_LIMITS, DEFAULT_CANVAS_SIZES } from '../constants';
+import { markCellDirty, markFullRedraw } from '../utils/dirtyTracker';
 
 interface CanvasState extends Canvas {
   // Canvas display settings
@@ -34,9 +35,9 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
 
   // Actions
   setCanvasSize: (width: number, height: number) => {
-    // Enforce hard limits: 4-200 width, 4-100 height
-    const constrainedWidth = Math.max(4, Math.min(200, width));
-    const constrainedHeight = Math.max(4, Math.min(100, height));
+    // Enforce hard limits: 4-1000 width, 4-500 height
+    const constrainedWidth = Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, width));
+    const constrainedHeight = Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, height));
     
     set((state) => {
       // Clear cells that are outside new bounds
@@ -54,6 +55,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
         cells: newCells
       };
     });
+    markFullRedraw();
   },
 
   setCanvasBackgroundColor: (color: string) => {
@@ -81,6 +83,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       
       return { cells: newCells };
     });
+    markCellDirty(x, y);
   },
 
   getCell: (x: number, y: number) => {
@@ -103,10 +106,12 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       newCells.delete(createCellKey(x, y));
       return { cells: newCells };
     });
+    markCellDirty(x, y);
   },
 
   clearCanvas: () => {
     set({ cells: new Map() });
+    markFullRedraw();
   },
 
   fillArea: (startX: number, startY: number, newCell: Cell, contiguous: boolean = true, matchCriteria?: { char: boolean; color: boolean; bgColor: boolean }, affectsCriteria?: { char: boolean; color: boolean; bgColor: boolean }) => {
@@ -222,10 +227,12 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     }
 
     set({ cells: newCells });
+    markFullRedraw();
   },
 
   setCanvasData: (cells: Map<string, Cell>) => {
     set({ cells: new Map(cells) });
+    markFullRedraw();
   },
 
   // Computed values
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+
+const STORAGE_KEY = 'ascii-motion-recent-commands';
+const MAX_RECENT_ENTRIES = 8;
+
+interface CommandPaletteState {
+  isOpen: boolean;
+  recentEntryIds: string[]; // Most recently run palette entries first
+
+  setOpen: (open: boolean) => void;
+  recordEntryUsage: (entryId: string) => void;
+}
+
+/**
+ * Load recently used palette entries from localStorage
+ */
+const loadRecentEntryIds = (): string[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((id): id is string => typeof id === 'string').slice(0, MAX_RECENT_ENTRIES);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load recent commands:', error);
+  }
+  return [];
+};
+
+/**
+ * Save recently used palette entries to localStorage
+ */
+const saveRecentEntryIds = (entryIds: string[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entryIds));
+  } catch (error) {
+    console.error('Failed to save recent commands:', error);
+  }
+};
+
+export const useCommandPaletteStore = create<CommandPaletteState>((set, get) => ({
+  isOpen: false,
+  recentEntryIds: loadRecentEntryIds(),
+
+  setOpen: (open: boolean) => set({ isOpen: open }),
+
+  recordEntryUsage: (entryId: string) => {
+    const recentEntryIds = [entryId, ...get().recentEntryIds.filter(id => id !== entryId)].slice(0, MAX_RECENT_ENTRIES);
+    set({ recentEntryIds });
+    saveRecentEntryIds(recentEntryIds);
+  }
+}));
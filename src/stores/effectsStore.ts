@@ -6,6 +6,8 @@
  * - Effect settings for all supported effects
  * - Canvas analysis caching for performance
  * - Timeline targeting toggle
+ * - Non-destructive effect stack (evaluated at render/export time)
+ * - Timeline application in a worker with progress and cancellation
  * - Integration with existing stores for apply/preview operations
  */
 
@@ -18,7 +20,9 @@ import type {
   RemapCharactersEffectSettings,
   ScatterEffectSettings,
   CanvasAnalysis,
-  LastAppliedEffect
+  LastAppliedEffect,
+  EffectSettings,
+  EffectStackEntry
 } from '../types/effects';
 import { 
   DEFAULT_LEVELS_SETTINGS,
@@ -26,12 +30,41 @@ import {
   DEFAULT_REMAP_COLORS_SETTINGS,
   DEFAULT_REMAP_CHARACTERS_SETTINGS,
   DEFAULT_SCATTER_SETTINGS,
-  CANVAS_ANALYSIS
+  CANVAS_ANALYSIS,
+  EFFECT_DEFINITIONS
 } from '../constants/effectsDefaults';
 import { useCanvasStore } from './canvasStore';
+import { useAnimationStore } from './animationStore';
 import { usePreviewStore } from './previewStore';
+import { useToolStore } from './toolStore';
 import { processEffect } from '../utils/effectsProcessing';
-import type { Cell } from '../types';
+import { createEffectStackEntry } from '../utils/effectStack';
+import { applySelectionMask, getSelectionMaskWeights } from '../utils/selectionMask';
+import { canEditActiveLayer } from '../utils/layerLock';
+import { isProcessingCancelled, processingWorkerPool } from '../utils/processingWorkerPool';
+import type { Cell, FrameId, UpdateEffectStackHistoryAction } from '../types';
+
+const getEffectName = (effectType: EffectType): string =>
+  EFFECT_DEFINITIONS.find(def => def.id === effectType)?.name ?? effectType;
+
+/**
+ * Record an effect stack change so it can be undone like any other edit
+ */
+const recordEffectStackHistory = (
+  previousStack: EffectStackEntry[],
+  newStack: EffectStackEntry[],
+  description: string
+): void => {
+  if (previousStack === newStack) return;
+  
+  const action: UpdateEffectStackHistoryAction = {
+    type: 'update_effect_stack',
+    timestamp: Date.now(),
+    description,
+    data: { previousStack, newStack }
+  };
+  useToolStore.getState().pushToHistory(action);
+};
 
 export interface EffectsState {
   // UI State
@@ -56,6 +89,11 @@ export interface EffectsState {
   
   // Last Applied Effect State
   lastAppliedEffect: LastAppliedEffect | null; // Last successfully applied effect
+  applyProgress: number | null;              // Timeline application progress (0-1), null when idle
+  
+  // Effect Stack State
+  effectStack: EffectStackEntry[];           // Non-destructive effects, applied in order
+  editingStackEntryId: string | null;        // Stack entry loaded into the effect panel
   
   // Error State
   lastError: string | null;                  // Last error message
@@ -88,6 +126,15 @@ export interface EffectsState {
   applyEffect: (effect: EffectType) => Promise<boolean>;
   setLastAppliedEffect: (effect: LastAppliedEffect) => void;
   
+  // Actions - Effect Stack
+  addEffectToStack: (effect: EffectType, frameIds: FrameId[] | null) => string;
+  editEffectStackEntry: (id: string) => void;
+  saveEditingStackEntry: () => void;
+  updateEffectStackEntry: (id: string, updates: Partial<Omit<EffectStackEntry, 'id'>>) => void;
+  removeEffectStackEntry: (id: string) => void;
+  moveEffectStackEntry: (id: string, toIndex: number) => void;
+  setEffectStack: (stack: EffectStackEntry[]) => void;
+  
   // Actions - Error Management
   clearError: () => void;
   
@@ -112,6 +159,47 @@ const generateCanvasHash = (cells: Map<string, Cell>, frameCount: number): strin
   return Math.abs(hash).toString(36);
 };
 
+// In-flight timeline application; aborted when the panel is cancelled
+let applyAbortController: AbortController | null = null;
+
+// Mask weights for the active selection (null = whole canvas)
+const getActiveMaskWeights = () => {
+  const { width, height } = useCanvasStore.getState();
+  return getSelectionMaskWeights(useToolStore.getState(), width, height);
+};
+
+// Current panel settings for an effect type
+const getSettingsForEffect = (state: EffectsState, effect: EffectType): EffectSettings => {
+  switch (effect) {
+    case 'levels':
+      return state.levelsSettings;
+    case 'hue-saturation':
+      return state.hueSaturationSettings;
+    case 'remap-colors':
+      return state.remapColorsSettings;
+    case 'remap-characters':
+      return state.remapCharactersSettings;
+    case 'scatter':
+      return state.scatterSettings;
+  }
+};
+
+// State patch that loads settings into an effect's panel slot
+const getSettingsPatch = (effect: EffectType, settings: EffectSettings): Partial<EffectsState> => {
+  switch (effect) {
+    case 'levels':
+      return { levelsSettings: { ...(settings as LevelsEffectSettings) } };
+    case 'hue-saturation':
+      return { hueSaturationSettings: { ...(settings as HueSaturationEffectSettings) } };
+    case 'remap-colors':
+      return { remapColorsSettings: { ...(settings as RemapColorsEffectSettings) } };
+    case 'remap-characters':
+      return { remapCharactersSettings: { ...(settings as RemapCharactersEffectSettings) } };
+    case 'scatter':
+      return { scatterSettings: { ...(settings as ScatterEffectSettings) } };
+  }
+};
+
 export const useEffectsStore = create<EffectsState>((set, get) => ({
   // Initial state
   isOpen: false,
@@ -135,6 +223,11 @@ export const useEffectsStore = create<EffectsState>((set, get) => ({
   
   // Last applied effect state
   lastAppliedEffect: null,
+  applyProgress: null,
+  
+  // Effect stack state
+  effectStack: [],
+  editingStackEntryId: null,
   
   // Error state
   lastError: null,
@@ -156,9 +249,15 @@ export const useEffectsStore = create<EffectsState>((set, get) => ({
       get().stopPreview();
     }
     
+    // Cancel a timeline application that is still processing
+    applyAbortController?.abort();
+    applyAbortController = null;
+    
     set({ 
       isOpen: false, 
-      activeEffect: null 
+      activeEffect: null,
+      editingStackEntryId: null,
+      applyProgress: null
     });
   },
   
@@ -446,7 +545,10 @@ export const useEffectsStore = create<EffectsState>((set, get) => ({
       
       // Update preview store with processed cells if successful
       if (result.success && result.processedCells) {
-        previewStore.setPreviewData(result.processedCells);
+        const maskWeights = getActiveMaskWeights();
+        previewStore.setPreviewData(
+          maskWeights ? applySelectionMask(currentCells, result.processedCells, maskWeights) : result.processedCells
+        );
       } else {
         console.error('Preview processing failed:', result);
         previewStore.clearPreview();
@@ -491,64 +593,119 @@ export const useEffectsStore = create<EffectsState>((set, get) => ({
 
       const settings = getEffectSettings();
 
+      const targetIndices = state.applyToTimeline
+        ? useAnimationStore.getState().frames.map((_, index) => index)
+        : undefined;
+      if (!canEditActiveLayer(targetIndices)) {
+        return false;
+      }
+
+      // Snapshot what the effect will replace before the first await; edits made while
+      // it is processing must not be overwritten by results computed from older data
+      const sourceFrames = useAnimationStore.getState().frames;
+      const sourceCells = useCanvasStore.getState().cells;
+
+      // Limit the effect to the active selection, if any
+      const maskWeights = getActiveMaskWeights();
+
       // Import processing engine dynamically
-      const { processEffect, processEffectOnFrames } = await import('../utils/effectsProcessing');
+      const { processEffect } = await import('../utils/effectsProcessing');
 
       if (state.applyToTimeline) {
         // Apply to entire timeline
-        const { useAnimationStore } = await import('./animationStore');
-        const animationStore = useAnimationStore.getState();
-        
         // Get canvas background color for blend operations
-        const { useCanvasStore } = await import('./canvasStore');
         const canvasBackgroundColor = useCanvasStore.getState().canvasBackgroundColor;
         
-        const result = await processEffectOnFrames(
-          effect,
-          animationStore.frames,
-          settings,
-          () => {
-            // Progress tracking could be added here if needed
-          },
-          canvasBackgroundColor
-        );
+        // Process frames in a worker; only the active cells are sent, not layers or thumbnails
+        const abortController = new AbortController();
+        applyAbortController = abortController;
+        set({ applyProgress: 0 });
+        
+        let result;
+        try {
+          result = await processingWorkerPool.run(
+            {
+              type: 'effect-frames',
+              effectType: effect,
+              frames: sourceFrames.map(({ id, name, duration, data }) => ({ id, name, duration, data })),
+              settings,
+              canvasBackgroundColor
+            },
+            {
+              signal: abortController.signal,
+              onProgress: ({ progress }) => set({ applyProgress: progress })
+            }
+          );
+        } finally {
+          if (applyAbortController === abortController) {
+            applyAbortController = null;
+          }
+          set({ applyProgress: null });
+        }
+        
+        if (abortController.signal.aborted) {
+          return false;
+        }
 
         if (result.errors.length > 0) {
           console.warn('Effect processing had errors:', result.errors);
         }
 
+        // The main thread stays free while the worker runs; give up if anything was edited meanwhile
+        const latestFrames = useAnimationStore.getState().frames;
+        const framesChanged = latestFrames.length !== sourceFrames.length
+          || latestFrames.some((frame, index) => frame !== sourceFrames[index])
+          || useCanvasStore.getState().cells !== sourceCells;
+        if (framesChanged) {
+          throw new Error('The animation was edited while the effect was processing. Apply the effect again.');
+        }
+
+        // Merge results by frame id
+        const processedById = new Map(result.processedFrames.map(frame => [frame.id, frame.data]));
+        const processedFrames = latestFrames.map(frame => {
+          const processedData = processedById.get(frame.id);
+          if (!processedData) return frame;
+          return {
+            ...frame,
+            data: maskWeights ? applySelectionMask(frame.data, processedData, maskWeights) : processedData
+          };
+        });
+
         // Update animation store with processed frames
         // Use the set function directly to update frames
         useAnimationStore.setState((state) => ({
           ...state,
-          frames: result.processedFrames
+          frames: processedFrames
         }));
 
         // Sync the canvas with the processed current frame
         const updatedAnimationStore = useAnimationStore.getState();
         const currentFrame = updatedAnimationStore.frames[updatedAnimationStore.currentFrameIndex];
         if (currentFrame) {
-          const { useCanvasStore } = await import('./canvasStore');
-          const canvasStore = useCanvasStore.getState();
-          canvasStore.setCanvasData(currentFrame.data);
+          useCanvasStore.getState().setCanvasData(currentFrame.data);
         }
 
       } else {
         // Apply to current canvas only
-        const { useCanvasStore } = await import('./canvasStore');
         const canvasStore = useCanvasStore.getState();
         
         const result = await processEffect(
           effect,
-          canvasStore.cells,
+          sourceCells,
           settings,
           canvasStore.canvasBackgroundColor
         );
 
+        if (useCanvasStore.getState().cells !== sourceCells) {
+          throw new Error('The canvas was edited while the effect was processing. Apply the effect again.');
+        }
+
         if (result.success && result.processedCells) {
           // Update canvas store with processed cells
           const { setCanvasData } = canvasStore;
-          setCanvasData(result.processedCells);
+          setCanvasData(
+            maskWeights ? applySelectionMask(sourceCells, result.processedCells, maskWeights) : result.processedCells
+          );
         } else {
           throw new Error(result.error || 'Effect processing failed');
         }
@@ -562,6 +719,10 @@ export const useEffectsStore = create<EffectsState>((set, get) => ({
       
       return true;
     } catch (error) {
+      if (isProcessingCancelled(error)) {
+        return false;
+      }
+      
       console.error(`Failed to apply ${effect} effect:`, error);
       set(state => ({ ...state, lastError: `Failed to apply effect: ${error instanceof Error ? error.message : 'Unknown error'}` }));
       return false;
@@ -573,6 +734,104 @@ export const useEffectsStore = create<EffectsState>((set, get) => ({
     set({ lastAppliedEffect: effect });
   },
   
+  // Effect Stack Actions
+  addEffectToStack: (effect: EffectType, frameIds: FrameId[] | null) => {
+    const entry = createEffectStackEntry(
+      { effectType: effect, effectSettings: getSettingsForEffect(get(), effect) },
+      frameIds,
+      getActiveMaskWeights()
+    );
+    
+    const previousStack = get().effectStack;
+    set({ effectStack: [...previousStack, entry] });
+    recordEffectStackHistory(previousStack, get().effectStack, `Add ${getEffectName(effect)} to effect stack`);
+    return entry.id;
+  },
+  
+  editEffectStackEntry: (id: string) => {
+    const entry = get().effectStack.find(item => item.id === id);
+    if (!entry) return;
+    
+    if (get().isPreviewActive) {
+      get().stopPreview();
+    }
+    
+    // Load the entry's settings into the panel so the regular controls edit it
+    set({
+      ...getSettingsPatch(entry.effectType, entry.effectSettings),
+      isOpen: true,
+      activeEffect: entry.effectType,
+      editingStackEntryId: id
+    });
+    
+    get().analyzeCanvas();
+  },
+  
+  saveEditingStackEntry: () => {
+    const { editingStackEntryId, effectStack } = get();
+    const entry = effectStack.find(item => item.id === editingStackEntryId);
+    if (!entry) return;
+    
+    get().updateEffectStackEntry(entry.id, {
+      effectSettings: JSON.parse(JSON.stringify(getSettingsForEffect(get(), entry.effectType)))
+    });
+  },
+  
+  updateEffectStackEntry: (id: string, updates: Partial<Omit<EffectStackEntry, 'id'>>) => {
+    const previousStack = get().effectStack;
+    const entry = previousStack.find(item => item.id === id);
+    if (!entry) return;
+    
+    set({
+      effectStack: previousStack.map(item => (
+        item.id === id ? { ...item, ...updates } : item
+      ))
+    });
+    
+    const effectName = getEffectName(entry.effectType);
+    const description = Object.keys(updates).length === 1 && updates.enabled !== undefined
+      ? `${updates.enabled ? 'Enable' : 'Disable'} ${effectName} in effect stack`
+      : `Edit ${effectName} in effect stack`;
+    recordEffectStackHistory(previousStack, get().effectStack, description);
+  },
+  
+  removeEffectStackEntry: (id: string) => {
+    const previousStack = get().effectStack;
+    const entry = previousStack.find(item => item.id === id);
+    if (!entry) return;
+    
+    set(state => ({
+      effectStack: state.effectStack.filter(item => item.id !== id),
+      editingStackEntryId: state.editingStackEntryId === id ? null : state.editingStackEntryId
+    }));
+    recordEffectStackHistory(previousStack, get().effectStack, `Remove ${getEffectName(entry.effectType)} from effect stack`);
+  },
+  
+  moveEffectStackEntry: (id: string, toIndex: number) => {
+    const previousStack = get().effectStack;
+    set(state => {
+      const fromIndex = state.effectStack.findIndex(entry => entry.id === id);
+      if (fromIndex === -1) return state;
+      
+      const targetIndex = Math.max(0, Math.min(toIndex, state.effectStack.length - 1));
+      if (targetIndex === fromIndex) return state;
+      
+      const effectStack = [...state.effectStack];
+      const [moved] = effectStack.splice(fromIndex, 1);
+      effectStack.splice(targetIndex, 0, moved);
+      return { effectStack };
+    });
+    
+    const moved = previousStack.find(entry => entry.id === id);
+    if (moved) {
+      recordEffectStackHistory(previousStack, get().effectStack, `Reorder ${getEffectName(moved.effectType)} in effect stack`);
+    }
+  },
+  
+  setEffectStack: (stack: EffectStackEntry[]) => {
+    set({ effectStack: stack, editingStackEntryId: null });
+  },
+  
   // Utility Actions
   clearError: () => {
     set({ lastError: null });
@@ -592,6 +851,9 @@ export const useEffectsStore = create<EffectsState>((set, get) => ({
       isPreviewActive: false,
       previewEffect: null,
       lastAppliedEffect: null,
+      applyProgress: null,
+      effectStack: [],
+      editingStackEntryId: null,
       lastError: null
     });
   }
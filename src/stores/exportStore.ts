@@ -6,8 +6,11 @@ import type {
   ImageExportSettings,
   SvgExportSettings,
   VideoExportSettings, 
+  GifExportSettings,
+  SpriteSheetExportSettings,
   SessionExportSettings,
   TextExportSettings,
+  AnsiExportSettings,
   JsonExportSettings,
   HtmlExportSettings,
   ExportHistoryEntry,
@@ -27,8 +30,11 @@ interface ExportActions {
   // Settings management
   setImageSettings: (settings: Partial<ImageExportSettings>) => void;
   setVideoSettings: (settings: Partial<VideoExportSettings>) => void;
+  setGifSettings: (settings: Partial<GifExportSettings>) => void;
+  setSpriteSheetSettings: (settings: Partial<SpriteSheetExportSettings>) => void;
   setSessionSettings: (settings: Partial<SessionExportSettings>) => void;
   setTextSettings: (settings: Partial<TextExportSettings>) => void;
+  setAnsiSettings: (settings: Partial<AnsiExportSettings>) => void;
   setJsonSettings: (settings: Partial<JsonExportSettings>) => void;
   setHtmlSettings: (settings: Partial<HtmlExportSettings>) => void;
   setReactSettings: (settings: Partial<ReactExportSettings>) => void;
@@ -44,7 +50,7 @@ interface ExportActions {
 interface ExportStoreState extends ExportState, ExportActions {}
 
 // Default SVG settings
-const DEFAULT_SVG_SETTINGS: SvgExportSettings = {
+export const DEFAULT_SVG_SETTINGS: SvgExportSettings = {
   includeGrid: false,        // No grid by default
   textAsOutlines: false,     // Use <text> elements by default (smaller file size)
   includeBackground: true,   // Include background color by default
@@ -72,11 +78,29 @@ const DEFAULT_VIDEO_SETTINGS: VideoExportSettings = {
   loops: 'none', // Default to no looping
 };
 
+const DEFAULT_GIF_SETTINGS: GifExportSettings = {
+  sizeMultiplier: 1,
+  includeGrid: false,
+  loops: 'infinite', // Loop forever like most GIFs
+  colors: 256, // Full GIF palette
+  dithering: false, // Crisp glyph edges by default
+};
+
+const DEFAULT_SPRITESHEET_SETTINGS: SpriteSheetExportSettings = {
+  sizeMultiplier: 1,
+  includeGrid: false,
+  includeBackground: false, // Game engines usually expect transparent sprites
+  layout: 'grid',
+  columns: 0, // Automatic
+  padding: 1, // Avoids texture bleeding between neighbouring frames
+  metadataFormat: 'hash', // Aseprite's default JSON layout
+};
+
 const DEFAULT_SESSION_SETTINGS: SessionExportSettings = {
   includeMetadata: true,
 };
 
-const DEFAULT_TEXT_SETTINGS: TextExportSettings = {
+export const DEFAULT_TEXT_SETTINGS: TextExportSettings = {
   removeLeadingSpaces: true,
   removeTrailingSpaces: true,
   removeLeadingLines: true,
@@ -84,26 +108,37 @@ const DEFAULT_TEXT_SETTINGS: TextExportSettings = {
   includeMetadata: false,
 };
 
-const DEFAULT_JSON_SETTINGS: JsonExportSettings = {
+export const DEFAULT_ANSI_SETTINGS: AnsiExportSettings = {
+  colorMode: 'truecolor', // Most modern terminals support 24-bit color
+  includeBackground: false, // Keep the terminal's own background
+  output: 'ans',
+  cursorHome: true, // Playable with `cat`
+  loop: true,
+};
+
+export const DEFAULT_JSON_SETTINGS: JsonExportSettings = {
   includeMetadata: true,
   humanReadable: true, // Pretty-print JSON for readability
   includeEmptyCells: false, // Don't include default/empty cells to reduce file size
 };
 
-const DEFAULT_HTML_SETTINGS: HtmlExportSettings = {
+export const DEFAULT_HTML_SETTINGS: HtmlExportSettings = {
   includeMetadata: true,
   animationSpeed: 1.0, // Normal speed
   backgroundColor: '#000000', // Black background
   fontFamily: 'monospace', // Standard monospace
   fontSize: 14, // 14px default size
   loops: 'infinite', // Loop infinitely
+  playerSource: 'inline', // Self-contained page
+  playerUrl: '', // Must point at a hosted build of the player module
 };
 
-const DEFAULT_REACT_SETTINGS: ReactExportSettings = {
+export const DEFAULT_REACT_SETTINGS: ReactExportSettings = {
   typescript: true,
   includeControls: true,
   includeBackground: true,
   fileName: 'ascii-motion-animation',
+  playerSource: 'inline',
 };
 
 export const useExportStore = create<ExportStoreState>((set, get) => ({
@@ -115,8 +150,11 @@ export const useExportStore = create<ExportStoreState>((set, get) => ({
   // Default settings
   imageSettings: DEFAULT_IMAGE_SETTINGS,
   videoSettings: DEFAULT_VIDEO_SETTINGS,
+  gifSettings: DEFAULT_GIF_SETTINGS,
+  spriteSheetSettings: DEFAULT_SPRITESHEET_SETTINGS,
   sessionSettings: DEFAULT_SESSION_SETTINGS,
   textSettings: DEFAULT_TEXT_SETTINGS,
+  ansiSettings: DEFAULT_ANSI_SETTINGS,
   jsonSettings: DEFAULT_JSON_SETTINGS,
   htmlSettings: DEFAULT_HTML_SETTINGS,
   reactSettings: DEFAULT_REACT_SETTINGS,
@@ -169,6 +207,18 @@ export const useExportStore = create<ExportStoreState>((set, get) => ({
     }));
   },
   
+  setGifSettings: (settings: Partial<GifExportSettings>) => {
+    set((state) => ({
+      gifSettings: { ...state.gifSettings, ...settings }
+    }));
+  },
+  
+  setSpriteSheetSettings: (settings: Partial<SpriteSheetExportSettings>) => {
+    set((state) => ({
+      spriteSheetSettings: { ...state.spriteSheetSettings, ...settings }
+    }));
+  },
+  
   setSessionSettings: (settings: Partial<SessionExportSettings>) => {
     set((state) => ({
       sessionSettings: { ...state.sessionSettings, ...settings }
@@ -181,6 +231,12 @@ export const useExportStore = create<ExportStoreState>((set, get) => ({
     }));
   },
   
+  setAnsiSettings: (settings: Partial<AnsiExportSettings>) => {
+    set((state) => ({
+      ansiSettings: { ...state.ansiSettings, ...settings }
+    }));
+  },
+  
   setJsonSettings: (settings: Partial<JsonExportSettings>) => {
     set((state) => ({
       jsonSettings: { ...state.jsonSettings, ...settings }
@@ -225,10 +281,16 @@ export const useExportStore = create<ExportStoreState>((set, get) => ({
         return state.imageSettings;
       case 'mp4':
         return state.videoSettings;
+      case 'gif':
+        return state.gifSettings;
+      case 'spritesheet':
+        return state.spriteSheetSettings;
       case 'session':
         return state.sessionSettings;
       case 'text':
         return state.textSettings;
+      case 'ansi':
+        return state.ansiSettings;
       case 'json':
         return state.jsonSettings;
       case 'html':
@@ -3,7 +3,7 @@
  * 
  * Features:
  * - Generator panel state (open/closed, active generator)
- * - Generator settings for all 4 generators
+ * - Generator settings for all generators
  * - Output mode (append/overwrite) configuration
  * - Preview playback state management
  * - Mapping settings integration
@@ -18,6 +18,10 @@ import type {
   ParticlePhysicsSettings,
   RainDropsSettings,
   DigitalRainSettings,
+  CellularAutomataSettings,
+  FireSettings,
+  PlasmaSettings,
+  Perspective3DSettings,
   GeneratorMappingSettings,
   GeneratorFrame,
   GeneratorSettings
@@ -27,17 +31,24 @@ import {
   DEFAULT_TURBULENT_NOISE_SETTINGS,
   DEFAULT_PARTICLE_PHYSICS_SETTINGS,
   DEFAULT_RAIN_DROPS_SETTINGS,
-  DEFAULT_DIGITAL_RAIN_SETTINGS
+  DEFAULT_DIGITAL_RAIN_SETTINGS,
+  DEFAULT_CELLULAR_AUTOMATA_SETTINGS,
+  DEFAULT_FIRE_SETTINGS,
+  DEFAULT_PLASMA_SETTINGS,
+  DEFAULT_PERSPECTIVE_3D_SETTINGS
 } from '../constants/generators';
 import { useCanvasStore } from './canvasStore';
 import { useAnimationStore } from './animationStore';
 import { useToolStore } from './toolStore';
-import { generateFrames } from '../utils/generators/generatorEngine';
-import { ASCIIConverter, type ConversionSettings } from '../utils/asciiConverter';
+import { isProcessingCancelled, processingWorkerPool } from '../utils/processingWorkerPool';
+import type { ConversionSettings } from '../utils/asciiConverter';
+import { createCanvasSeedGrid } from '../utils/generators/cellularAutomata';
 import { usePaletteStore } from './paletteStore';
 import { usePreviewStore } from './previewStore';
+import { applySelectionMask, getSelectionMaskWeights } from '../utils/selectionMask';
+import { canEditActiveLayer } from '../utils/layerLock';
 // import { cloneFrames } from '../utils/frameUtils'; // TODO: Phase 5 - Use for history
-import type { Frame } from '../types';
+import type { Cell, Frame } from '../types';
 
 // UI state for panel tabs and playback
 export interface GeneratorUIState {
@@ -66,6 +77,21 @@ const DEFAULT_MAPPING_SETTINGS: GeneratorMappingSettings = {
   backgroundColorDitherStrength: 0.5
 };
 
+// Mask weights for the active selection (null = whole canvas)
+const getActiveMaskWeights = () => {
+  const { width, height } = useCanvasStore.getState();
+  return getSelectionMaskWeights(useToolStore.getState(), width, height);
+};
+
+// In-flight preview generation; aborted when a newer preview starts or the panel closes
+let previewAbortController: AbortController | null = null;
+
+// Preview cells for a generated frame; with a selection only the masked cells are shown over the canvas
+const getPreviewCells = (frameData: Map<string, Cell>): Map<string, Cell> => {
+  const maskWeights = getActiveMaskWeights();
+  return maskWeights ? applySelectionMask(new Map(), frameData, maskWeights) : frameData;
+};
+
 export interface GeneratorsState {
   // UI State
   isOpen: boolean;
@@ -79,12 +105,17 @@ export interface GeneratorsState {
   particlePhysicsSettings: ParticlePhysicsSettings;
   rainDropsSettings: RainDropsSettings;
   digitalRainSettings: DigitalRainSettings;
+  cellularAutomataSettings: CellularAutomataSettings;
+  fireSettings: FireSettings;
+  plasmaSettings: PlasmaSettings;
+  perspective3DSettings: Perspective3DSettings;
   
   // Mapping Settings (shared across all generators)
   mappingSettings: GeneratorMappingSettings;
   
   // Preview State
   isGenerating: boolean;
+  generationProgress: number;           // Preview generation progress (0-1)
   previewFrames: GeneratorFrame[];      // Raw RGBA frames from generator
   convertedFrames: Frame[];             // Converted ASCII frames
   totalPreviewFrames: number;
@@ -109,6 +140,10 @@ export interface GeneratorsState {
   updateParticlePhysicsSettings: (settings: Partial<ParticlePhysicsSettings>) => void;
   updateRainDropsSettings: (settings: Partial<RainDropsSettings>) => void;
   updateDigitalRainSettings: (settings: Partial<DigitalRainSettings>) => void;
+  updateCellularAutomataSettings: (settings: Partial<CellularAutomataSettings>) => void;
+  updateFireSettings: (settings: Partial<FireSettings>) => void;
+  updatePlasmaSettings: (settings: Partial<PlasmaSettings>) => void;
+  updatePerspective3DSettings: (settings: Partial<Perspective3DSettings>) => void;
   resetGeneratorSettings: (id: GeneratorId) => void;
   
   // Actions - Mapping Settings
@@ -148,12 +183,17 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
   particlePhysicsSettings: { ...DEFAULT_PARTICLE_PHYSICS_SETTINGS },
   rainDropsSettings: { ...DEFAULT_RAIN_DROPS_SETTINGS },
   digitalRainSettings: { ...DEFAULT_DIGITAL_RAIN_SETTINGS },
+  cellularAutomataSettings: { ...DEFAULT_CELLULAR_AUTOMATA_SETTINGS },
+  fireSettings: { ...DEFAULT_FIRE_SETTINGS },
+  plasmaSettings: { ...DEFAULT_PLASMA_SETTINGS },
+  perspective3DSettings: { ...DEFAULT_PERSPECTIVE_3D_SETTINGS },
   
   // Default mapping settings
   mappingSettings: { ...DEFAULT_MAPPING_SETTINGS },
   
   // Preview state
   isGenerating: false,
+  generationProgress: 0,
   previewFrames: [],
   convertedFrames: [],
   totalPreviewFrames: 0,
@@ -199,6 +239,16 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
           originY: centerY
         });
       }
+    } else if (id === 'fire') {
+      // Default source is a line along the bottom row
+      const currentSettings = get().fireSettings;
+      if (currentSettings.sourceX === 40 && currentSettings.sourceY === 23) {
+        get().updateFireSettings({
+          sourceX: centerX,
+          sourceY: canvasHeight - 1,
+          sourceSize: currentSettings.sourceSize === 80 ? canvasWidth : currentSettings.sourceSize
+        });
+      }
     }
     
     set({ 
@@ -216,10 +266,15 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
   },
   
   closeGenerator: () => {
+    previewAbortController?.abort();
+    previewAbortController = null;
+    
     set({ 
       isOpen: false, 
       activeGenerator: null,
       uiState: { ...DEFAULT_UI_STATE },
+      isGenerating: false,
+      generationProgress: 0,
       previewFrames: [],
       convertedFrames: [],
       totalPreviewFrames: 0,
@@ -248,7 +303,7 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
     if (!currentState.uiState.isPlaying) {
       const frame = currentState.convertedFrames[currentState.uiState.currentPreviewFrame];
       if (frame) {
-        previewStore.setPreviewData(frame.data);
+        previewStore.setPreviewData(getPreviewCells(frame.data));
       } else {
         previewStore.clearPreview();
       }
@@ -272,7 +327,7 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
       // When pausing, sync canvas with current frame for live preview
       const frame = currentState.convertedFrames[currentState.uiState.currentPreviewFrame];
       if (frame) {
-        previewStore.setPreviewData(frame.data);
+        previewStore.setPreviewData(getPreviewCells(frame.data));
       }
     }
     // When playing, keep the last frame visible (don't clear canvas)
@@ -297,7 +352,7 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
     if (!state.uiState.isPlaying) {
       const frame = state.convertedFrames[clampedIndex];
       if (frame) {
-        previewStore.setPreviewData(frame.data);
+        previewStore.setPreviewData(getPreviewCells(frame.data));
       } else {
         previewStore.clearPreview();
       }
@@ -355,6 +410,46 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
     }));
   },
   
+  updateCellularAutomataSettings: (settings: Partial<CellularAutomataSettings>) => {
+    set(state => ({
+      cellularAutomataSettings: {
+        ...state.cellularAutomataSettings,
+        ...settings
+      },
+      isPreviewDirty: true
+    }));
+  },
+  
+  updateFireSettings: (settings: Partial<FireSettings>) => {
+    set(state => ({
+      fireSettings: {
+        ...state.fireSettings,
+        ...settings
+      },
+      isPreviewDirty: true
+    }));
+  },
+  
+  updatePlasmaSettings: (settings: Partial<PlasmaSettings>) => {
+    set(state => ({
+      plasmaSettings: {
+        ...state.plasmaSettings,
+        ...settings
+      },
+      isPreviewDirty: true
+    }));
+  },
+  
+  updatePerspective3DSettings: (settings: Partial<Perspective3DSettings>) => {
+    set(state => ({
+      perspective3DSettings: {
+        ...state.perspective3DSettings,
+        ...settings
+      },
+      isPreviewDirty: true
+    }));
+  },
+  
   resetGeneratorSettings: (id: GeneratorId) => {
     switch (id) {
       case 'radio-waves':
@@ -387,6 +482,30 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
           isPreviewDirty: true
         });
         break;
+      case 'cellular-automata':
+        set({ 
+          cellularAutomataSettings: { ...DEFAULT_CELLULAR_AUTOMATA_SETTINGS },
+          isPreviewDirty: true
+        });
+        break;
+      case 'fire':
+        set({ 
+          fireSettings: { ...DEFAULT_FIRE_SETTINGS },
+          isPreviewDirty: true
+        });
+        break;
+      case 'plasma':
+        set({ 
+          plasmaSettings: { ...DEFAULT_PLASMA_SETTINGS },
+          isPreviewDirty: true
+        });
+        break;
+      case 'perspective-3d':
+        set({ 
+          perspective3DSettings: { ...DEFAULT_PERSPECTIVE_3D_SETTINGS },
+          isPreviewDirty: true
+        });
+        break;
     }
   },
   
@@ -407,13 +526,18 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
   // Preview Generation Actions
   regeneratePreview: async () => {
     const state = get();
-    const { activeGenerator, isGenerating } = state;
+    const { activeGenerator } = state;
     
-    if (!activeGenerator || isGenerating) {
+    if (!activeGenerator) {
       return;
     }
     
-  set({ isGenerating: true, lastError: null, isPreviewDirty: false });
+    // The latest settings win: cancel a preview that is still being generated
+    previewAbortController?.abort();
+    const abortController = new AbortController();
+    previewAbortController = abortController;
+    
+    set({ isGenerating: true, generationProgress: 0, lastError: null, isPreviewDirty: false });
     
     try {
       const canvasWidth = useCanvasStore.getState().width;
@@ -456,6 +580,30 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
           frameRate = state.digitalRainSettings.frameRate;
           seed = state.digitalRainSettings.seed;
           break;
+        case 'cellular-automata':
+          settings = state.cellularAutomataSettings;
+          frameCount = state.cellularAutomataSettings.frameCount;
+          frameRate = state.cellularAutomataSettings.frameRate;
+          seed = state.cellularAutomataSettings.seed;
+          break;
+        case 'fire':
+          settings = state.fireSettings;
+          frameCount = state.fireSettings.frameCount;
+          frameRate = state.fireSettings.frameRate;
+          seed = state.fireSettings.seed;
+          break;
+        case 'plasma':
+          settings = state.plasmaSettings;
+          frameCount = state.plasmaSettings.frameCount;
+          frameRate = state.plasmaSettings.frameRate;
+          seed = state.plasmaSettings.seed;
+          break;
+        case 'perspective-3d':
+          settings = state.perspective3DSettings;
+          frameCount = state.perspective3DSettings.frameCount;
+          frameRate = state.perspective3DSettings.frameRate;
+          seed = state.perspective3DSettings.seed;
+          break;
         default:
           throw new Error(`Unknown generator: ${activeGenerator}`);
       }
@@ -463,24 +611,10 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
       // Calculate frame duration from frame rate
       const frameDuration = Math.floor(1000 / frameRate);
       
-      // Generate frames using the generator engine
-      const result = await generateFrames(
-        activeGenerator,
-        settings,
-        canvasWidth,
-        canvasHeight,
-        frameCount,
-        frameDuration,
-        seed
-      );
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Frame generation failed');
-      }
-      
-      // Convert RGBA frames to ASCII using mapping settings
-      const converter = new ASCIIConverter();
-      const convertedFrames: Frame[] = [];
+      // Cellular automata can evolve the art already on the canvas
+      const seedGrid = activeGenerator === 'cellular-automata' && state.cellularAutomataSettings.seedMode === 'canvas'
+        ? createCanvasSeedGrid(useCanvasStore.getState().cells, canvasWidth, canvasHeight)
+        : undefined;
       
       // Get character set from mapping settings and create a temporary palette
       const characterSet = state.mappingSettings.characterSet;
@@ -551,55 +685,54 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
         ditherStrength: state.mappingSettings.ditherStrength
       };
       
-      // Convert each RGBA frame to ASCII
-      for (let frameIdx = 0; frameIdx < result.frames.length; frameIdx++) {
-        const generatorFrame = result.frames[frameIdx];
-        const { width, height, data, frameDuration } = generatorFrame;
-        
-        // Create canvas for ProcessedFrame requirement
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        
-        // Create ImageData from generator frame
-        const imageData = new ImageData(
-          new Uint8ClampedArray(data), // Clone the data
-          width,
-          height
-        );
-        
-        // Convert using ASCIIConverter
-        const conversionResult = converter.convertFrame(
-          { canvas, imageData }, // ProcessedFrame format
+      // Simulate and map to ASCII in a worker so the panel stays responsive
+      const result = await processingWorkerPool.run(
+        {
+          type: 'generate-frames',
+          generatorId: activeGenerator,
+          settings,
+          width: canvasWidth,
+          height: canvasHeight,
+          frameCount,
+          frameDuration,
+          seed,
+          seedGrid,
           conversionSettings
-        );
-        
-        // Generate frame ID
-        const frameId = `generator-${activeGenerator}-${frameIdx}` as import('../types').FrameId;
-        
-        // Create Frame object for animation system
-        convertedFrames.push({
-          id: frameId,
-          name: `Frame ${frameIdx + 1}`,
-          duration: frameDuration,
-          data: conversionResult.cells
-        });
+        },
+        {
+          signal: abortController.signal,
+          onProgress: ({ progress }) => set({ generationProgress: progress })
+        }
+      );
+      
+      // Superseded after the worker finished but before this continuation ran
+      if (abortController.signal.aborted) {
+        return;
       }
+      previewAbortController = null;
+      
+      const convertedFrames: Frame[] = result.frames.map((generatorFrame, frameIdx) => ({
+        id: `generator-${activeGenerator}-${frameIdx}` as import('../types').FrameId,
+        name: `Frame ${frameIdx + 1}`,
+        duration: generatorFrame.frameDuration,
+        data: result.cells[frameIdx]
+      }));
 
       let hadPendingDirtyChanges = false;
       set((state) => {
         hadPendingDirtyChanges = state.isPreviewDirty;
         // Preserve current frame, but clamp to new frame count
-        const newFrameCount = result.frameCount;
+        const newFrameCount = result.frames.length;
         const currentFrame = state.uiState.currentPreviewFrame;
         const clampedFrame = Math.min(currentFrame, Math.max(0, newFrameCount - 1));
         
         return {
           previewFrames: result.frames,
           convertedFrames,
-          totalPreviewFrames: result.frameCount,
+          totalPreviewFrames: result.frames.length,
           isPreviewDirty: false,
           isGenerating: false,
+          generationProgress: 1,
           uiState: {
             ...state.uiState,
             currentPreviewFrame: clampedFrame
@@ -622,13 +755,19 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
       if (!updatedState.uiState.isPlaying) {
         const frame = updatedState.convertedFrames[updatedState.uiState.currentPreviewFrame];
         if (frame) {
-          previewStore.setPreviewData(frame.data);
+          previewStore.setPreviewData(getPreviewCells(frame.data));
         } else {
           previewStore.clearPreview();
         }
       }
       
     } catch (error) {
+      // A newer preview (or closing the panel) replaced this one
+      if (isProcessingCancelled(error) || abortController.signal.aborted) {
+        return;
+      }
+      
+      previewAbortController = null;
       console.error('[Generators] Preview generation failed:', error);
       set({
         lastError: error instanceof Error ? error.message : 'Preview generation failed',
@@ -683,15 +822,36 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
       const animationStore = useAnimationStore.getState();
       const { currentFrameIndex, frames, importFramesOverwrite, importFramesAppend } = animationStore;
       
+      // Overwrite mode replaces the active layer of existing frames; appended frames are new
+      if (outputMode === 'overwrite') {
+        const targetIndices = framesToApply
+          .map((_, index) => currentFrameIndex + index)
+          .filter(index => index < frames.length);
+        if (!canEditActiveLayer(targetIndices)) {
+          return false;
+        }
+      }
+      
       // Capture before state for history
       const previousFrames = outputMode === 'overwrite' ? [...frames] : undefined;
       const previousCurrentFrame = currentFrameIndex;
       
-      // Prepare frame data for import
-      const frameData = framesToApply.map(frame => ({
-        data: frame.data,
-        duration: frame.duration
-      }));
+      // With a selection, generated cells only replace the selected area. Overwritten frames
+      // keep their artwork elsewhere; appended frames (and frames past the end) build on the current frame
+      const maskWeights = getActiveMaskWeights();
+      const frameData = framesToApply.map((frame, index) => {
+        if (!maskWeights) {
+          return { data: frame.data, duration: frame.duration };
+        }
+        
+        const baseFrame = outputMode === 'overwrite'
+          ? frames[currentFrameIndex + index] ?? frames[currentFrameIndex]
+          : frames[currentFrameIndex];
+        return {
+          data: applySelectionMask(baseFrame?.data ?? new Map(), frame.data, maskWeights),
+          duration: frame.duration
+        };
+      });
       
       // Apply based on output mode
       if (outputMode === 'overwrite') {
@@ -749,6 +909,9 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
   
   // Utility Actions
   reset: () => {
+    previewAbortController?.abort();
+    previewAbortController = null;
+    
     set({
       isOpen: false,
       activeGenerator: null,
@@ -759,8 +922,13 @@ export const useGeneratorsStore = create<GeneratorsState>((set, get) => ({
       particlePhysicsSettings: { ...DEFAULT_PARTICLE_PHYSICS_SETTINGS },
       rainDropsSettings: { ...DEFAULT_RAIN_DROPS_SETTINGS },
       digitalRainSettings: { ...DEFAULT_DIGITAL_RAIN_SETTINGS },
+      cellularAutomataSettings: { ...DEFAULT_CELLULAR_AUTOMATA_SETTINGS },
+      fireSettings: { ...DEFAULT_FIRE_SETTINGS },
+      plasmaSettings: { ...DEFAULT_PLASMA_SETTINGS },
+      perspective3DSettings: { ...DEFAULT_PERSPECTIVE_3D_SETTINGS },
       mappingSettings: { ...DEFAULT_MAPPING_SETTINGS },
       isGenerating: false,
+      generationProgress: 0,
       previewFrames: [],
       convertedFrames: [],
       totalPreviewFrames: 0,
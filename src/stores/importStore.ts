@@ -11,6 +11,7 @@
 import { create } from 'zustand';
 import type { MediaFile, ProcessedFrame } from '../utils/mediaProcessor';
 import { usePaletteStore } from './paletteStore';
+import type { CanvasAnchor } from '../types';
 
 export interface ImportUIState {
   // UI preferences that should persist across sessions
@@ -65,7 +66,7 @@ export interface ImportSettings {
   characterWidth: number;   // Target width in characters
   characterHeight: number;  // Target height in characters
   maintainAspectRatio: boolean;
-  cropMode: 'center' | 'top' | 'bottom' | 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  cropMode: CanvasAnchor;
   
   // Nudge controls - fine positioning adjustments
   nudgeX: number;          // Horizontal nudge offset in characters
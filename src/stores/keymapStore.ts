@@ -0,0 +1,118 @@
+import { create } from 'zustand';
+import { COMMANDS_BY_ID, DEFAULT_KEYMAP_PRESET_ID, KEYMAP_PRESETS } from '../constants/commands';
+import type { CommandId } from '../constants/commands';
+import {
+  buildChordLookup,
+  normalizeChord,
+  parseKeymap,
+  resolveKeymap,
+  serializeKeymap
+} from '../utils/keymap';
+import type { KeymapBindings, KeymapOverrides } from '../utils/keymap';
+
+const STORAGE_KEY = 'ascii-motion-keymap';
+
+interface StoredKeymap {
+  presetId: string;
+  overrides: KeymapOverrides;
+}
+
+interface KeymapState {
+  presetId: string;
+  overrides: KeymapOverrides; // User rebinds on top of the preset
+  bindings: KeymapBindings; // Resolved chords per command
+  chordLookup: Map<string, CommandId>; // Chord -> command used by the shortcut handlers
+
+  setPreset: (presetId: string) => void;
+  setCommandChords: (commandId: CommandId, chords: string[]) => void;
+  resetCommand: (commandId: CommandId) => void;
+  resetAll: () => void;
+  exportKeymap: () => string;
+  importKeymap: (json: string) => { skipped: string[] };
+  getCommandForChord: (chord: string | null) => CommandId | undefined;
+}
+
+/**
+ * Load the saved keymap from localStorage
+ */
+const loadStoredKeymap = (): StoredKeymap => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (stored) {
+      const { preset, overrides } = parseKeymap(stored);
+      return { presetId: preset, overrides };
+    }
+  } catch (error) {
+    console.error('Failed to load keymap:', error);
+  }
+  return { presetId: DEFAULT_KEYMAP_PRESET_ID, overrides: {} };
+};
+
+/**
+ * Save the keymap to localStorage
+ */
+const saveStoredKeymap = (presetId: string, overrides: KeymapOverrides): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeKeymap(presetId, overrides));
+  } catch (error) {
+    console.error('Failed to save keymap:', error);
+  }
+};
+
+const buildKeymapState = (presetId: string, overrides: KeymapOverrides) => {
+  const bindings = resolveKeymap(presetId, overrides);
+  return {
+    presetId,
+    overrides,
+    bindings,
+    chordLookup: buildChordLookup(bindings)
+  };
+};
+
+const initialKeymap = loadStoredKeymap();
+
+export const useKeymapStore = create<KeymapState>((set, get) => {
+  const applyKeymap = (presetId: string, overrides: KeymapOverrides) => {
+    set(buildKeymapState(presetId, overrides));
+    saveStoredKeymap(presetId, overrides);
+  };
+
+  return {
+    ...buildKeymapState(initialKeymap.presetId, initialKeymap.overrides),
+
+    setPreset: (presetId: string) => {
+      if (!KEYMAP_PRESETS.some(preset => preset.id === presetId)) return;
+      // Switching presets starts from a clean slate
+      applyKeymap(presetId, {});
+    },
+
+    setCommandChords: (commandId: CommandId, chords: string[]) => {
+      if (COMMANDS_BY_ID.get(commandId)?.fixed) return;
+      const normalized = Array.from(new Set(
+        chords.map(chord => normalizeChord(chord)).filter((chord): chord is string => Boolean(chord))
+      ));
+      applyKeymap(get().presetId, { ...get().overrides, [commandId]: normalized });
+    },
+
+    resetCommand: (commandId: CommandId) => {
+      const overrides = { ...get().overrides };
+      delete overrides[commandId];
+      applyKeymap(get().presetId, overrides);
+    },
+
+    resetAll: () => {
+      applyKeymap(get().presetId, {});
+    },
+
+    exportKeymap: () => serializeKeymap(get().presetId, get().overrides),
+
+    importKeymap: (json: string) => {
+      // Throws with a readable message when the file is invalid
+      const { preset, overrides, skipped } = parseKeymap(json);
+      applyKeymap(preset, overrides);
+      return { skipped };
+    },
+
+    getCommandForChord: (chord: string | null) => (chord ? get().chordLookup.get(chord) : undefined)
+  };
+});
@@ -4,10 +4,14 @@ interface ProjectMetadataState {
   projectName: string;
   projectDescription: string;
   currentProjectId: string | null; // Cloud project ID (null for unsaved projects)
+  localProjectId: string | null; // Local (IndexedDB) project ID (null until saved locally)
+  savedRevision: number; // Bumped whenever the document is explicitly saved or loaded
   
   setProjectName: (name: string) => void;
   setProjectDescription: (description: string) => void;
   setCurrentProjectId: (id: string | null) => void;
+  setLocalProjectId: (id: string | null) => void;
+  markDocumentSaved: () => void;
   resetProject: () => void;
 }
 
@@ -15,13 +19,18 @@ export const useProjectMetadataStore = create<ProjectMetadataState>((set) => ({
   projectName: 'Untitled Project',
   projectDescription: '',
   currentProjectId: null,
+  localProjectId: null,
+  savedRevision: 0,
   
   setProjectName: (name) => set({ projectName: name }),
   setProjectDescription: (description) => set({ projectDescription: description }),
   setCurrentProjectId: (id) => set({ currentProjectId: id }),
+  setLocalProjectId: (id) => set({ localProjectId: id }),
+  markDocumentSaved: () => set((state) => ({ savedRevision: state.savedRevision + 1 })),
   resetProject: () => set({ 
     projectName: 'Untitled Project', 
     projectDescription: '',
-    currentProjectId: null
+    currentProjectId: null,
+    localProjectId: null
   }),
 }));
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import type { SymmetryMode, SymmetrySettings } from '../types';
+import { MAX_RADIAL_SEGMENTS, MIN_RADIAL_SEGMENTS } from '../utils/symmetryUtils';
+
+interface SymmetryState extends SymmetrySettings {
+  isPlacingCenter: boolean; // Next canvas click sets the center
+
+  // Actions
+  setEnabled: (enabled: boolean) => void;
+  toggleEnabled: () => void;
+  setMode: (mode: SymmetryMode) => void;
+  setRadialSegments: (segments: number) => void;
+  setCenter: (center: { x: number; y: number } | null) => void;
+  setPlacingCenter: (placing: boolean) => void;
+}
+
+export const useSymmetryStore = create<SymmetryState>((set) => ({
+  // Initial state
+  enabled: false,
+  mode: 'vertical',
+  radialSegments: 4,
+  center: null,
+  isPlacingCenter: false,
+
+  // Actions
+  setEnabled: (enabled: boolean) => {
+    set({ enabled });
+  },
+
+  toggleEnabled: () => {
+    set((state) => ({ enabled: !state.enabled }));
+  },
+
+  setMode: (mode: SymmetryMode) => {
+    set({ mode });
+  },
+
+  setRadialSegments: (segments: number) => {
+    set({
+      radialSegments: Math.max(MIN_RADIAL_SEGMENTS, Math.min(MAX_RADIAL_SEGMENTS, Math.round(segments)))
+    });
+  },
+
+  // Centers snap to half cells so mirrored cells always land on the grid
+  setCenter: (center: { x: number; y: number } | null) => {
+    set({
+      center: center ? { x: Math.round(center.x * 2) / 2, y: Math.round(center.y * 2) / 2 } : null
+    });
+  },
+
+  setPlacingCenter: (placing: boolean) => {
+    set({ isPlacingCenter: placing });
+  }
+}));
@@ -10,20 +10,25 @@ import type {
   WaveWarpSettings, 
   WiggleSettings, 
   FrameRangeSettings,
-  TimeEffectType 
+  TimeEffectType,
+  TweenKeyframe,
+  TweenSettings
 } from '../types/timeEffects';
 import { 
   DEFAULT_WAVE_WARP_SETTINGS, 
-  DEFAULT_WIGGLE_SETTINGS 
+  DEFAULT_WIGGLE_SETTINGS,
+  DEFAULT_TWEEN_SETTINGS
 } from '../constants/timeEffects';
 import { useAnimationStore } from './animationStore';
 import { useCanvasStore } from './canvasStore';
 import { usePreviewStore } from './previewStore';
+import { useToolStore } from './toolStore';
 import { 
   applyWaveWarpToFrame, 
   applyWiggleToFrame, 
   calculateAccumulatedTime 
 } from '../utils/timeEffectsProcessing';
+import { applySelectionMask, getSelectionMaskWeights } from '../utils/selectionMask';
 import type { Cell } from '../types';
 
 interface TimeEffectsState {
@@ -34,12 +39,19 @@ interface TimeEffectsState {
   isWiggleDialogOpen: boolean;
   isSetDurationDialogOpen: boolean;
   isAddFramesDialogOpen: boolean;
+  isTweenDialogOpen: boolean;
   
   // ==========================================
   // Effect Settings (Persisted)
   // ==========================================
   waveWarpSettings: WaveWarpSettings;
   wiggleSettings: WiggleSettings;
+  tweenSettings: TweenSettings;
+  
+  // ==========================================
+  // Selection Tween Keyframe
+  // ==========================================
+  tweenKeyframe: TweenKeyframe | null;
   
   // ==========================================
   // Frame Range Control (Shared across effects)
@@ -63,6 +75,8 @@ interface TimeEffectsState {
   closeSetDurationDialog: () => void;
   openAddFramesDialog: () => void;
   closeAddFramesDialog: () => void;
+  openTweenDialog: (endPlacement?: { x: number; y: number } | null) => void;
+  closeTweenDialog: () => void;
   
   // ==========================================
   // Actions - Settings Updates
@@ -70,6 +84,8 @@ interface TimeEffectsState {
   updateWaveWarpSettings: (settings: Partial<WaveWarpSettings>) => void;
   updateWiggleSettings: (settings: Partial<WiggleSettings>) => void;
   updateFrameRange: (range: Partial<FrameRangeSettings>) => void;
+  updateTweenSettings: (settings: Partial<TweenSettings>) => void;
+  setTweenKeyframe: (keyframe: TweenKeyframe | null) => void;
   resetWaveWarpSettings: () => void;
   resetWiggleSettings: () => void;
   
@@ -89,9 +105,13 @@ export const useTimeEffectsStore = create<TimeEffectsState>((set, get) => ({
   isWiggleDialogOpen: false,
   isSetDurationDialogOpen: false,
   isAddFramesDialogOpen: false,
+  isTweenDialogOpen: false,
   
   waveWarpSettings: { ...DEFAULT_WAVE_WARP_SETTINGS },
   wiggleSettings: { ...DEFAULT_WIGGLE_SETTINGS },
+  tweenSettings: { ...DEFAULT_TWEEN_SETTINGS },
+  
+  tweenKeyframe: null,
   
   frameRange: {
     applyToAll: true,
@@ -152,6 +172,29 @@ export const useTimeEffectsStore = create<TimeEffectsState>((set, get) => ({
   openAddFramesDialog: () => set({ isAddFramesDialogOpen: true }),
   closeAddFramesDialog: () => set({ isAddFramesDialogOpen: false }),
   
+  openTweenDialog: (endPlacement) => {
+    // When a start keyframe exists on another frame, the current frame and
+    // selection become the tween target
+    const { tweenKeyframe, tweenSettings } = get();
+    const { currentFrameIndex } = useAnimationStore.getState();
+    
+    if (tweenKeyframe && currentFrameIndex !== tweenKeyframe.frameIndex) {
+      set({
+        isTweenDialogOpen: true,
+        tweenSettings: {
+          ...tweenSettings,
+          endFrame: currentFrameIndex,
+          endPosition: endPlacement ?? { ...tweenKeyframe.origin }
+        }
+      });
+      return;
+    }
+    
+    set({ isTweenDialogOpen: true });
+  },
+  
+  closeTweenDialog: () => set({ isTweenDialogOpen: false }),
+  
   // ==========================================
   // Settings Update Actions
   // ==========================================
@@ -184,6 +227,14 @@ export const useTimeEffectsStore = create<TimeEffectsState>((set, get) => ({
     }));
   },
   
+  updateTweenSettings: (settings) => {
+    set((state) => ({
+      tweenSettings: { ...state.tweenSettings, ...settings }
+    }));
+  },
+  
+  setTweenKeyframe: (keyframe) => set({ tweenKeyframe: keyframe }),
+  
   resetWaveWarpSettings: () => {
     set({ waveWarpSettings: { ...DEFAULT_WAVE_WARP_SETTINGS } });
     
@@ -271,9 +322,12 @@ export const useTimeEffectsStore = create<TimeEffectsState>((set, get) => ({
         );
       }
       
-      // Update preview on canvas
+      // Update preview on canvas, limited to the active selection
       if (previewData) {
-        previewStore.setPreviewData(previewData);
+        const maskWeights = getSelectionMaskWeights(useToolStore.getState(), canvasWidth, canvasHeight);
+        previewStore.setPreviewData(
+          maskWeights ? applySelectionMask(currentFrameData, previewData, maskWeights) : previewData
+        );
       }
     } catch (error) {
       console.error('Failed to update preview:', error);
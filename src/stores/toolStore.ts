@@ -1,18 +1,61 @@
 import { create } from 'zustand';
-import type { Tool, ToolState, Selection, LassoSelection, MagicWandSelection, TextToolState, AnyHistoryAction, CanvasHistoryAction, BrushShape, BrushSettings, Cell } from '../types';
-import { DEFAULT_COLORS } from '../constants';
+import type { Tool, ToolState, Selection, LassoSelection, MagicWandSelection, SelectionMaskSettings, TextToolState, AnyHistoryAction, CanvasHistoryAction, BrushShape, BrushSettings, Cell, HistorySnapshot } from '../types';
+import { DEFAULT_COLORS, DEFAULT_HISTORY_MEMORY_BUDGET_MB, MAX_LIMITS } from '../constants';
+import { compactCanvasHistoryAction, getHistoryOverflowCount } from '../utils/historyDiff';
 import { 
   rectangularSelectionToText, 
   lassoSelectionToText, 
   magicWandSelectionToText, 
-  writeToOSClipboard 
+  writeSelectionToOSClipboard 
 } from '../utils/clipboardUtils';
+import type { ClipboardRenderOptions } from '../utils/clipboardUtils';
 import { 
   createRectSelectionMask,
   updateSelectionFromMask,
   getBoundsFromMask
 } from '../utils/selectionUtils';
 import { useAsciiTypeStore } from './asciiTypeStore';
+import { useAnimationStore } from './animationStore';
+
+const HISTORY_LIMITS_STORAGE_KEY = 'ascii-motion-history-limits';
+
+export interface HistoryLimits {
+  maxSize?: number;
+  memoryBudgetMb?: number;
+}
+
+/**
+ * Load the saved undo history limits from localStorage
+ */
+export const loadHistoryLimits = (): HistoryLimits => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(HISTORY_LIMITS_STORAGE_KEY) : null;
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      if (parsed && typeof parsed === 'object') {
+        const { maxSize, memoryBudgetMb } = parsed as Record<string, unknown>;
+        return {
+          maxSize: typeof maxSize === 'number' && Number.isFinite(maxSize) ? maxSize : undefined,
+          memoryBudgetMb: typeof memoryBudgetMb === 'number' && Number.isFinite(memoryBudgetMb) ? memoryBudgetMb : undefined
+        };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load history limits:', error);
+  }
+  return {};
+};
+
+/**
+ * Save the undo history limits to localStorage
+ */
+const saveHistoryLimits = (limits: Required<HistoryLimits>): void => {
+  try {
+    localStorage.setItem(HISTORY_LIMITS_STORAGE_KEY, JSON.stringify(limits));
+  } catch (error) {
+    console.error('Failed to save history limits:', error);
+  }
+};
 
 interface ToolStoreState extends ToolState {
   // Rectangular selection state
@@ -24,6 +67,9 @@ interface ToolStoreState extends ToolState {
   // Magic wand selection state
   magicWandSelection: MagicWandSelection;
   
+  // How effects, time effects and generators treat the active selection
+  selectionMaskSettings: SelectionMaskSettings;
+  
   // Text tool state
   textToolState: TextToolState;
   
@@ -53,7 +99,9 @@ interface ToolStoreState extends ToolState {
   historyStack: AnyHistoryAction[];
   historyPosition: number; // Current position in history stack (-1 = no history)
   maxHistorySize: number;
+  historyMemoryBudget: number; // Estimated bytes the history may hold before old steps are dropped
   isProcessingHistory: boolean; // Flag to prevent auto-save during undo/redo
+  historySnapshots: HistorySnapshot[]; // Bookmarked states, independent of history trimming
   
   // Animation playback state
   isPlaybackMode: boolean;
@@ -140,9 +188,10 @@ interface ToolStoreState extends ToolState {
   updateMagicWandSelectedCells: (selectedCells: Set<string>) => void;
   clearMagicWandSelection: () => void;
   setMagicWandSelectionFromMask: (mask: Set<string>, targetCell?: Cell | null) => void;
+  setSelectionMaskSettings: (settings: Partial<SelectionMaskSettings>) => void;
   
   // Clipboard actions
-  copySelection: (canvasData: Map<string, Cell>) => void;
+  copySelection: (canvasData: Map<string, Cell>, renderOptions?: ClipboardRenderOptions) => void;
   pasteSelection: (x: number, y: number) => Map<string, Cell> | null;
   hasClipboard: () => boolean;
   getActiveClipboardType: () => 'rectangle' | 'lasso' | 'magicwand' | null;
@@ -150,13 +199,13 @@ interface ToolStoreState extends ToolState {
   getClipboardOriginalPosition: () => { x: number; y: number } | null;
   
   // Lasso clipboard actions
-  copyLassoSelection: (canvasData: Map<string, Cell>) => void;
+  copyLassoSelection: (canvasData: Map<string, Cell>, renderOptions?: ClipboardRenderOptions) => void;
   pasteLassoSelection: (offsetX: number, offsetY: number) => Map<string, Cell> | null;
   hasLassoClipboard: () => boolean;
   getLassoClipboardOriginalPosition: () => { x: number; y: number } | null;
   
   // Magic wand clipboard actions
-  copyMagicWandSelection: (canvasData: Map<string, Cell>) => void;
+  copyMagicWandSelection: (canvasData: Map<string, Cell>, renderOptions?: ClipboardRenderOptions) => void;
   pasteMagicWandSelection: (offsetX: number, offsetY: number) => Map<string, Cell> | null;
   hasMagicWandClipboard: () => boolean;
   getMagicWandClipboardOriginalPosition: () => { x: number; y: number } | null;
@@ -178,8 +227,12 @@ interface ToolStoreState extends ToolState {
   undo: () => AnyHistoryAction | undefined;
   redo: () => AnyHistoryAction | undefined;
   clearHistory: () => void;
+  setHistoryLimits: (limits: HistoryLimits) => void;
   canUndo: () => boolean;
   canRedo: () => boolean;
+  addHistorySnapshot: (snapshot: HistorySnapshot) => void;
+  renameHistorySnapshot: (id: string, name: string) => void;
+  removeHistorySnapshot: (id: string) => void;
   
   // Playback mode actions
   setPlaybackMode: (enabled: boolean) => void;
@@ -283,6 +336,11 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
     contiguous: true
   },
   
+  selectionMaskSettings: {
+    feather: 0,
+    invert: false
+  },
+  
   // Text tool state
   textToolState: {
     isTyping: false,
@@ -308,8 +366,10 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
   // Enhanced history for undo/redo
   historyStack: [],
   historyPosition: -1,
-  maxHistorySize: 50,
+  maxHistorySize: MAX_LIMITS.UNDO_HISTORY,
+  historyMemoryBudget: DEFAULT_HISTORY_MEMORY_BUDGET_MB * 1024 * 1024,
   isProcessingHistory: false,
+  historySnapshots: [],
 
   // Tool actions
   setActiveTool: (tool: Tool) => {
@@ -668,8 +728,14 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
     }));
   },
 
+  setSelectionMaskSettings: (settings: Partial<SelectionMaskSettings>) => {
+    set((state) => ({
+      selectionMaskSettings: { ...state.selectionMaskSettings, ...settings }
+    }));
+  },
+
   // Clipboard actions
-  copySelection: (canvasData: Map<string, Cell>) => {
+  copySelection: (canvasData: Map<string, Cell>, renderOptions?: ClipboardRenderOptions) => {
     const { selection } = get();
     if (!selection.active || selection.selectedCells.size === 0) {
       return;
@@ -697,10 +763,10 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
       activeClipboardType: 'rectangle'
     });
     
-    // Also copy to OS clipboard as text
+    // Also copy to OS clipboard as text (plus HTML/SVG/PNG when render options are given)
     const textForClipboard = rectangularSelectionToText(canvasData, selection.selectedCells);
     if (textForClipboard.trim() !== '') {
-      writeToOSClipboard(textForClipboard).catch(error => {
+      writeSelectionToOSClipboard(canvasData, selection.selectedCells, renderOptions).catch(error => {
         console.warn('Failed to copy to OS clipboard:', error);
       });
     }
@@ -777,7 +843,7 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
   },
 
   // Lasso clipboard actions
-  copyLassoSelection: (canvasData: Map<string, Cell>) => {
+  copyLassoSelection: (canvasData: Map<string, Cell>, renderOptions?: ClipboardRenderOptions) => {
     const { lassoSelection } = get();
     
     if (!lassoSelection.active || lassoSelection.selectedCells.size === 0) {
@@ -811,10 +877,10 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
       activeClipboardType: 'lasso'
     });
     
-    // Also copy to OS clipboard as text
+    // Also copy to OS clipboard as text (plus HTML/SVG/PNG when render options are given)
     const textForClipboard = lassoSelectionToText(canvasData, lassoSelection.selectedCells);
     if (textForClipboard.trim() !== '') {
-      writeToOSClipboard(textForClipboard).catch(error => {
+      writeSelectionToOSClipboard(canvasData, lassoSelection.selectedCells, renderOptions).catch(error => {
         console.warn('Failed to copy lasso selection to OS clipboard:', error);
       });
     }
@@ -844,7 +910,7 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
   },
 
   // Magic wand clipboard actions
-  copyMagicWandSelection: (canvasData: Map<string, Cell>) => {
+  copyMagicWandSelection: (canvasData: Map<string, Cell>, renderOptions?: ClipboardRenderOptions) => {
     const { magicWandSelection } = get();
     if (!magicWandSelection.active || magicWandSelection.selectedCells.size === 0) {
       return;
@@ -878,10 +944,10 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
       activeClipboardType: 'magicwand'
     });
     
-    // Also copy to OS clipboard as text
+    // Also copy to OS clipboard as text (plus HTML/SVG/PNG when render options are given)
     const textForClipboard = magicWandSelectionToText(canvasData, magicWandSelection.selectedCells);
     if (textForClipboard.trim() !== '') {
-      writeToOSClipboard(textForClipboard).catch(error => {
+      writeSelectionToOSClipboard(canvasData, magicWandSelection.selectedCells, renderOptions).catch(error => {
         console.warn('Failed to copy magic wand selection to OS clipboard:', error);
       });
     }
@@ -923,12 +989,34 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
         newHistoryStack.splice(state.historyPosition + 1);
       }
       
+      // Canvas edits are stored as per-cell diffs once both states are known
+      if (action.type === 'canvas_edit') {
+        const canvasAction = action as CanvasHistoryAction;
+        const previousAction = newHistoryStack[newHistoryStack.length - 1];
+
+        // The state before this edit is the state after a pending edit on the same frame and layer
+        if (
+          previousAction?.type === 'canvas_edit' &&
+          canvasAction.data.previousCanvasData &&
+          previousAction.data.frameIndex === canvasAction.data.frameIndex &&
+          previousAction.data.layerId === canvasAction.data.layerId
+        ) {
+          compactCanvasHistoryAction(previousAction, canvasAction.data.previousCanvasData);
+        }
+
+        compactCanvasHistoryAction(canvasAction);
+      }
+
       // Add new action to history
       newHistoryStack.push(action);
       
-      // Limit history size
+      // Limit history size (step count, then estimated memory)
       if (newHistoryStack.length > state.maxHistorySize) {
-        newHistoryStack.shift();
+        newHistoryStack.splice(0, newHistoryStack.length - state.maxHistorySize);
+      }
+      const overflow = getHistoryOverflowCount(newHistoryStack, state.historyMemoryBudget);
+      if (overflow > 0) {
+        newHistoryStack.splice(0, overflow);
       }
       
       return {
@@ -945,23 +1033,21 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
       description,
       data: {
         previousCanvasData: new Map(canvasData),
-        frameIndex
+        frameIndex,
+        layerId: useAnimationStore.getState().frames[frameIndex]?.activeLayerId
       }
     };
     get().pushToHistory(action);
   },
 
-  // Finalize the most recent canvas_edit history action by attaching the post-edit canvas state
+  // Finalize the most recent canvas_edit history action by replacing its snapshot with a per-cell diff
   finalizeCanvasHistory: (newCanvasData: Map<string, Cell>) => {
     set((state) => {
       const { historyStack, historyPosition } = state;
       if (historyPosition < 0) return {};
       const action = historyStack[historyPosition];
       if (action && action.type === 'canvas_edit') {
-        const canvasAction = action as CanvasHistoryAction;
-        if (!canvasAction.data.newCanvasData) {
-          canvasAction.data.newCanvasData = new Map(newCanvasData);
-        }
+        compactCanvasHistoryAction(action as CanvasHistoryAction, newCanvasData);
       }
       return { historyStack: [...historyStack] };
     });
@@ -1016,7 +1102,37 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
   clearHistory: () => {
     set({
       historyStack: [],
-      historyPosition: -1
+      historyPosition: -1,
+      historySnapshots: []
+    });
+  },
+
+  setHistoryLimits: ({ maxSize, memoryBudgetMb }) => {
+    const current = get();
+    saveHistoryLimits({
+      maxSize: maxSize !== undefined ? Math.max(1, Math.round(maxSize)) : current.maxHistorySize,
+      memoryBudgetMb: memoryBudgetMb !== undefined ? Math.max(1, memoryBudgetMb) : current.historyMemoryBudget / (1024 * 1024)
+    });
+
+    set((state) => {
+      const maxHistorySize = maxSize !== undefined ? Math.max(1, Math.round(maxSize)) : state.maxHistorySize;
+      const historyMemoryBudget = memoryBudgetMb !== undefined
+        ? Math.max(1, memoryBudgetMb) * 1024 * 1024
+        : state.historyMemoryBudget;
+
+      // Drop the oldest steps that no longer fit
+      let dropCount = Math.max(0, state.historyStack.length - maxHistorySize);
+      dropCount += getHistoryOverflowCount(state.historyStack.slice(dropCount), historyMemoryBudget);
+      if (dropCount === 0) {
+        return { maxHistorySize, historyMemoryBudget };
+      }
+
+      return {
+        maxHistorySize,
+        historyMemoryBudget,
+        historyStack: state.historyStack.slice(dropCount),
+        historyPosition: Math.max(-1, state.historyPosition - dropCount)
+      };
     });
   },
 
@@ -1025,6 +1141,31 @@ export const useToolStore = create<ToolStoreState>((set, get) => ({
     const { historyStack, historyPosition } = get();
     return historyPosition < historyStack.length - 1;
   },
+
+  addHistorySnapshot: (snapshot: HistorySnapshot) => {
+    set((state) => {
+      // Oldest bookmarks go first once the limit is reached
+      const historySnapshots = [...state.historySnapshots, snapshot];
+      if (historySnapshots.length > MAX_LIMITS.HISTORY_SNAPSHOTS) {
+        historySnapshots.splice(0, historySnapshots.length - MAX_LIMITS.HISTORY_SNAPSHOTS);
+      }
+      return { historySnapshots };
+    });
+  },
+
+  renameHistorySnapshot: (id: string, name: string) => {
+    set((state) => ({
+      historySnapshots: state.historySnapshots.map(snapshot =>
+        snapshot.id === id ? { ...snapshot, name } : snapshot
+      )
+    }));
+  },
+
+  removeHistorySnapshot: (id: string) => {
+    set((state) => ({
+      historySnapshots: state.historySnapshots.filter(snapshot => snapshot.id !== id)
+    }));
+  },
   
   // Text tool actions
   startTyping: (x: number, y: number) => {
@@ -4,6 +4,8 @@
  * Defines interfaces for all effects, settings, and state management
  */
 
+import type { FrameId } from './index';
+
 // Core effect types
 export type EffectType = 'levels' | 'hue-saturation' | 'remap-colors' | 'remap-characters' | 'scatter';
 
@@ -188,4 +190,14 @@ export interface LastAppliedEffect {
   effectSettings: EffectSettings;
   applyToTimeline: boolean;
   timestamp: number;
+}
+
+// Non-destructive effect layer, evaluated at render/export time in stack order
+export interface EffectStackEntry {
+  id: string;
+  effectType: EffectType;
+  effectSettings: EffectSettings;
+  enabled: boolean;
+  frameIds: FrameId[] | null;                // Frames the entry applies to, kept across frame edits (null = every frame)
+  mask?: Record<string, number>;             // Selection mask weights by cell key (absent = whole canvas)
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 import type { Frame, Cell, Tool } from './index';
 import type { FontMetrics } from '../utils/fontMetrics';
+import type { SessionToolPresets } from '../utils/sessionToolPresets';
+import type { EffectStackEntry } from './effects';
 import type { ColorPalette, CharacterPalette, CharacterMappingSettings } from './palette';
 
 // Export format identifiers
-export type ExportFormatId = 'png' | 'svg' | 'mp4' | 'session' | 'media' | 'text' | 'json' | 'html' | 'react';
+export type ExportFormatId = 'png' | 'svg' | 'mp4' | 'gif' | 'session' | 'media' | 'text' | 'json' | 'html' | 'react' | 'ansi' | 'spritesheet';
 
 // Base export format interface
 export interface ExportFormat {
@@ -33,11 +35,15 @@ export interface ImageExportSettings {
   svgSettings?: SvgExportSettings;
 }
 
+// 'inline' embeds a self-contained player; 'package' depends on @ascii-motion/player
+export type PlayerSource = 'inline' | 'package';
+
 export interface ReactExportSettings {
   typescript: boolean;
   includeControls: boolean;
   includeBackground: boolean;
   fileName: string;
+  playerSource: PlayerSource;
 }
 
 export interface VideoExportSettings {
@@ -51,6 +57,22 @@ export interface VideoExportSettings {
   loops: 'none' | '2x' | '4x' | '8x'; // Number of times to loop the animation
 }
 
+export interface GifExportSettings {
+  sizeMultiplier: 1 | 2 | 4;
+  includeGrid: boolean;
+  loops: 'infinite' | number; // 'infinite' or total number of plays
+  colors: number; // 2-256 palette entries
+  dithering: boolean; // Floyd-Steinberg dithering when the palette is reduced
+}
+
+export interface SpriteSheetExportSettings extends Pick<ImageExportSettings, 'sizeMultiplier' | 'includeGrid'> {
+  includeBackground: boolean; // Transparent atlas when false
+  layout: 'grid' | 'packed'; // Uniform cells, or frames trimmed to their content and shelf-packed
+  columns: number; // Frames per row (0 = automatic, close to square)
+  padding: number; // Pixels between frames and around the sheet edge
+  metadataFormat: 'hash' | 'array'; // Aseprite JSON "frames" keyed by name or as a list
+}
+
 export interface SessionExportSettings {
   // No settings needed for session export
   includeMetadata: boolean;
@@ -64,6 +86,14 @@ export interface TextExportSettings {
   includeMetadata: boolean;
 }
 
+export interface AnsiExportSettings {
+  colorMode: 'ansi16' | 'ansi256' | 'truecolor';
+  includeBackground: boolean; // Fill transparent cells with the canvas background color
+  output: 'ans' | 'sh'; // Plain .ans file or a self-playing bash script
+  cursorHome: boolean; // Redraw frames in place so `cat` plays the animation (.ans only)
+  loop: boolean; // Loop playback (shell script only)
+}
+
 export interface JsonExportSettings {
   includeMetadata: boolean;
   humanReadable: boolean; // Pretty-print JSON
@@ -77,6 +107,8 @@ export interface HtmlExportSettings {
   fontFamily: 'monospace' | 'courier' | 'consolas';
   fontSize: number; // 8-24px
   loops: 'infinite' | number; // 'infinite' or specific number
+  playerSource: PlayerSource;
+  playerUrl: string; // ES module URL of @ascii-motion/player when playerSource is 'package' (no default)
 }
 
 export interface PaletteExportState {
@@ -97,8 +129,11 @@ export interface CharacterPaletteExportState {
 export type ExportSettings =
   | ImageExportSettings
   | VideoExportSettings
+  | GifExportSettings
+  | SpriteSheetExportSettings
   | SessionExportSettings
   | TextExportSettings
+  | AnsiExportSettings
   | JsonExportSettings
   | HtmlExportSettings
   | ReactExportSettings;
@@ -120,7 +155,8 @@ export interface ExportDataBundle {
   };
   
   // Animation data
-  frames: Frame[];
+  frames: Frame[];          // Rendered output (effect stack applied)
+  sourceFrames: Frame[];    // Unprocessed artwork with layers (for session saves)
   currentFrameIndex: number;
   frameRate: number;
   looping: boolean;
@@ -162,6 +198,12 @@ export interface ExportDataBundle {
 
   // Character palette state
   characterPaletteState: CharacterPaletteExportState;
+
+  // Effect, generator and tool presets (for session saves)
+  toolPresets: SessionToolPresets;
+
+  // Non-destructive effect stack (for session saves)
+  effectStack: EffectStackEntry[];
 }
 
 // Export result from exporters
@@ -172,6 +214,13 @@ export interface ExportResult {
   error?: string;
 }
 
+// String export produced without a browser (text, JSON, HTML, React, SVG, ANSI)
+export interface RenderedExport {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
 // Progress callback for long exports
 export interface ExportProgress {
   stage: string;
@@ -207,8 +256,11 @@ export interface ExportState {
   // Export settings for each format
   imageSettings: ImageExportSettings;
   videoSettings: VideoExportSettings;
+  gifSettings: GifExportSettings;
+  spriteSheetSettings: SpriteSheetExportSettings;
   sessionSettings: SessionExportSettings;
   textSettings: TextExportSettings;
+  ansiSettings: AnsiExportSettings;
   jsonSettings: JsonExportSettings;
   htmlSettings: HtmlExportSettings;
   reactSettings: ReactExportSettings;
@@ -5,7 +5,7 @@
  */
 
 // Core generator types
-export type GeneratorId = 'radio-waves' | 'turbulent-noise' | 'particle-physics' | 'rain-drops' | 'digital-rain';
+export type GeneratorId = 'radio-waves' | 'turbulent-noise' | 'particle-physics' | 'rain-drops' | 'digital-rain' | 'cellular-automata' | 'fire' | 'plasma' | 'perspective-3d';
 
 // Noise type options for turbulent noise generator
 export type NoiseType = 'perlin' | 'simplex' | 'worley';
@@ -25,6 +25,30 @@ export type ScatterType = 'noise' | 'bayer-2x2' | 'bayer-4x4' | 'gaussian';
 // Timing configuration mode
 export type TimingMode = 'duration' | 'frameCount' | 'both';
 
+// Rule family for cellular automata generator
+export type AutomatonType = 'life-like' | 'elementary';
+
+// Initial state for cellular automata generator
+export type AutomatonSeedMode = 'random' | 'center' | 'canvas';
+
+// Heat source shape for fire generator
+export type FireSourceShape = 'line' | 'point' | 'circle';
+
+// Palette cycling curve for plasma generator
+export type PlasmaPaletteMode = 'smooth' | 'bands';
+
+// Scene type for 3D perspective generator
+export type Perspective3DMode = 'starfield' | 'tunnel' | 'mesh';
+
+// Wall texture for 3D tunnel
+export type TunnelPattern = 'checker' | 'rings';
+
+// Mesh source for 3D perspective generator ('obj' uses an imported OBJ file)
+export type MeshPrimitive = 'cube' | 'torus' | 'sphere' | 'obj';
+
+// Mesh rendering style for 3D perspective generator
+export type MeshRenderStyle = 'solid' | 'wireframe';
+
 // Individual generator settings interfaces
 
 export interface RadioWavesSettings {
@@ -206,13 +230,134 @@ export interface DigitalRainSettings {
   seed: number;
 }
 
+export interface CellularAutomataSettings {
+  // Rules
+  automatonType: AutomatonType; // 2D Life-like grid or 1D elementary rows
+  lifeRule: string;             // B/S notation, e.g. "B3/S23" (Life-like)
+  elementaryRule: number;       // 0 - 255 Wolfram rule number (elementary)
+  wrapEdges: boolean;           // Treat the canvas as a torus
+  
+  // Initial state
+  seedMode: AutomatonSeedMode;  // Random soup, center pattern or current canvas
+  density: number;              // 0.0 - 1.0 live cell probability (random seed)
+  
+  // Evolution
+  generationsPerFrame: number;  // 1 - 10 generations simulated per frame
+  warmupGenerations: number;    // 0 - 500 generations simulated before the first frame
+  trailFade: number;            // 0.0 - 0.95 brightness kept by dead cells each generation (Life-like)
+  
+  // Timing
+  duration: number;             // milliseconds
+  frameRate: number;            // fps
+  frameCount: number;           // explicit frame count
+  timingMode: TimingMode;
+  
+  // Random seed
+  seed: number;
+}
+
+export interface FireSettings {
+  // Heat source
+  sourceShape: FireSourceShape; // Line, point or filled circle
+  sourceX: number;              // 0 to canvas width (center of the source)
+  sourceY: number;              // 0 to canvas height (center of the source)
+  sourceSize: number;           // 1 - 200 line width or circle diameter in characters
+  sourceIntensity: number;      // 0.0 - 1.0 heat emitted by the source
+  sourceFlicker: number;        // 0.0 - 1.0 random variation of the source heat
+  
+  // Propagation
+  cooling: number;              // 0.0 - 1.0 heat lost as flames rise
+  riseSpeed: number;            // 1 - 5 propagation steps per frame
+  wind: number;                 // -1.0 - 1.0 horizontal drift (negative = left)
+  turbulence: number;           // 0.0 - 1.0 random sideways flicker
+  preRun: boolean;              // Start with flames already burning (not an empty canvas)
+  
+  // Timing
+  duration: number;             // milliseconds
+  frameRate: number;            // fps
+  frameCount: number;           // explicit frame count
+  timingMode: TimingMode;
+  
+  // Random seed
+  seed: number;
+}
+
+export interface PlasmaSettings {
+  // Field properties
+  scale: number;                // 0.1 - 4.0 spatial frequency of the sine fields
+  complexity: number;           // 2 - 6 summed sine fields
+  speed: number;                // 0 - 5 field cycles per loop (whole numbers loop seamlessly)
+  
+  // Palette cycling
+  paletteCycles: number;        // 0 - 8 palette rotations per loop
+  paletteMode: PlasmaPaletteMode; // Smooth sine ramp or hard-edged bands
+  
+  // Visual adjustments
+  brightness: number;           // -1.0 to 1.0 brightness adjustment
+  contrast: number;             // 0.0 to 2.0 contrast multiplier
+  
+  // Timing
+  duration: number;             // milliseconds
+  frameRate: number;            // fps
+  frameCount: number;           // explicit frame count
+  timingMode: TimingMode;
+  
+  // Random seed
+  seed: number;
+}
+
+export interface Perspective3DSettings {
+  // Scene
+  mode: Perspective3DMode;      // Warp starfield, infinite tunnel or rotating mesh
+  fieldOfView: number;          // 30 - 120 degrees (vertical)
+  
+  // Starfield
+  starCount: number;            // 50 - 2000 stars
+  starSpeed: number;            // 1 - 5 depth passes per loop (whole numbers loop seamlessly)
+  starTrail: number;            // 0.0 - 1.0 streak length behind each star
+  
+  // Tunnel
+  tunnelPattern: TunnelPattern; // Checkerboard tiles or smooth rings
+  tunnelSegments: number;       // 4 - 32 tiles around the wall (even)
+  tunnelSpeed: number;          // 0 - 5 tile pairs travelled per loop
+  tunnelTwist: number;          // -3 - 3 wall rotations per loop
+  
+  // Mesh
+  meshPrimitive: MeshPrimitive;
+  meshRenderStyle: MeshRenderStyle;
+  objSource: string;            // Raw OBJ text (only used when meshPrimitive is 'obj')
+  objFileName: string;          // Display name of the imported OBJ file
+  rotationX: number;            // -3 - 3 turns per loop around each axis
+  rotationY: number;
+  rotationZ: number;
+  meshScale: number;            // 0.2 - 1.5 mesh size relative to canvas height
+  ambientLight: number;         // 0.0 - 1.0 light on faces turned away from the light
+  
+  // Visual adjustments
+  brightness: number;           // -1.0 to 1.0 brightness adjustment
+  contrast: number;             // 0.0 to 2.0 contrast multiplier
+  
+  // Timing
+  duration: number;             // milliseconds
+  frameRate: number;            // fps
+  frameCount: number;           // explicit frame count
+  timingMode: TimingMode;
+  
+  // Random seed
+  seed: number;
+}
+
 // Union type for all generator settings
 export type GeneratorSettings = 
   | RadioWavesSettings 
   | TurbulentNoiseSettings 
   | ParticlePhysicsSettings 
   | RainDropsSettings
-  | DigitalRainSettings;
+  | DigitalRainSettings
+  | CellularAutomataSettings
+  | FireSettings
+  | PlasmaSettings
+  | Perspective3DSettings;
 
 // Mapping settings (mirrors import store structure)
 export interface GeneratorMappingSettings {
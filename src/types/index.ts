@@ -2,6 +2,7 @@
 
 export type FrameId = string & { __brand: 'FrameId' };
 export type ProjectId = string & { __brand: 'ProjectId' };
+export type LayerId = string & { __brand: 'LayerId' };
 
 export interface Cell {
   char: string;
@@ -9,12 +10,24 @@ export interface Cell {
   bgColor: string;
 }
 
+export interface FrameLayer {
+  id: LayerId;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number; // 0-1, cells are skipped (ordered dither) rather than blended
+  data: Map<string, Cell>; // key: "x,y" - ignored for the active layer, see Frame.data
+}
+
 export interface Frame {
   id: FrameId;
   name: string;
   duration: number; // in milliseconds
-  data: Map<string, Cell>; // key: "x,y"
+  data: Map<string, Cell>; // key: "x,y" - cells of the active layer when layers are present
   thumbnail?: string; // base64 image data URL
+  // Optional layer stack (bottom to top). Frames without layers behave as a single layer.
+  layers?: FrameLayer[];
+  activeLayerId?: LayerId;
 }
 
 export interface Animation {
@@ -32,6 +45,9 @@ export interface Canvas {
   cells: Map<string, Cell>; // current frame data, key: "x,y"
 }
 
+// 9-way anchor used when content is placed on a canvas of a different size
+export type CanvasAnchor = 'center' | 'top' | 'bottom' | 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
 export interface Project {
   id: ProjectId;
   name: string;
@@ -73,7 +89,10 @@ export type Tool =
   | 'beziershape'
   | 'gradientfill'
   | 'fliphorizontal'
-  | 'flipvertical';
+  | 'flipvertical'
+  | 'rotateclockwise'
+  | 'rotatecounterclockwise'
+  | 'rotate180';
 
 export type BrushShape = 'circle' | 'square' | 'horizontal' | 'vertical';
 
@@ -82,6 +101,16 @@ export interface BrushSettings {
   shape: BrushShape;
 }
 
+// Symmetry axes: 'vertical' mirrors left/right, 'horizontal' mirrors top/bottom
+export type SymmetryMode = 'vertical' | 'horizontal' | 'both' | 'radial';
+
+export interface SymmetrySettings {
+  enabled: boolean;
+  mode: SymmetryMode;
+  radialSegments: number; // 2-12 copies for radial mode
+  center: { x: number; y: number } | null; // Cell coordinates (may be .5); null = canvas center
+}
+
 export interface ToolState {
   activeTool: Tool;
   selectedChar: string;
@@ -120,6 +149,12 @@ export interface MagicWandSelection {
   contiguous: boolean; // Whether to select only connected matching cells
 }
 
+// Limits effects, time effects and generators to the active selection
+export interface SelectionMaskSettings {
+  feather: number; // Cells of soft falloff inside the selection edge (0 = hard edge)
+  invert: boolean; // Affect everything outside the selection instead
+}
+
 export interface TextToolState {
   isTyping: boolean;
   cursorPosition: { x: number; y: number } | null;
@@ -264,6 +299,10 @@ export type HistoryActionType =
   | 'set_frame_durations'   // Bulk set frame durations
   | 'import_media'          // Import image/video to canvas
   | 'apply_generator'       // Apply procedural generator to timeline
+  | 'apply_tween'           // Tween selection content across frames
+  | 'update_layers'         // Add, remove, reorder or change properties of a frame's layers
+  | 'update_effect_stack'   // Add, remove, reorder or edit non-destructive effect stack entries
+  | 'restore_snapshot'      // Restore a bookmarked history snapshot
   | 'bezier_add_point'      // Add anchor point to bezier shape
   | 'bezier_move_point'     // Move anchor point(s)
   | 'bezier_adjust_handle'  // Adjust bezier handle
@@ -278,14 +317,28 @@ export interface HistoryAction {
   description: string;
 }
 
+// Single cell change recorded by history; undefined means the cell was empty
+export interface CellChange {
+  before?: Cell;
+  after?: Cell;
+}
+
+// Per-cell changes keyed by "x,y"
+export type CellDiff = Map<string, CellChange>;
+
 export interface CanvasHistoryAction extends HistoryAction {
   type: 'canvas_edit';
   data: {
     // Previous canvas state BEFORE the edit (used for undo)
-    previousCanvasData: Map<string, Cell>;
+    // Only kept until the edit is finalized, then replaced by cellDiff
+    previousCanvasData?: Map<string, Cell>;
     // New canvas state AFTER the edit (used for redo). May be undefined for legacy entries
     newCanvasData?: Map<string, Cell>;
+    // Cells changed by the edit (finalized entries)
+    cellDiff?: CellDiff;
     frameIndex: number;
+    // Layer that was active when the edit was made (layered frames only)
+    layerId?: LayerId;
   };
 }
 
@@ -302,6 +355,9 @@ export interface CanvasResizeHistoryAction extends HistoryAction {
     allFramesPreviousData?: Map<string, Cell>[];
     allFramesNewData?: Map<string, Cell>[];
     isCropOperation?: boolean;
+    // Whole frames (layer stacks included) before and after an operation on every frame
+    previousFrames?: Frame[];
+    newFrames?: Frame[];
   };
 }
 
@@ -440,6 +496,7 @@ export interface ApplyTimeEffectHistoryAction extends HistoryAction {
     frameRange: import('./timeEffects').FrameRangeSettings;
     affectedFrameIndices: number[];
     previousFramesData: Array<{ frameIndex: number; data: Map<string, Cell> }>;
+    newFramesData?: Array<{ frameIndex: number; data: Map<string, Cell> }>; // After state - needed for redo
   };
 }
 
@@ -484,6 +541,64 @@ export interface ApplyGeneratorHistoryAction extends HistoryAction {
   };
 }
 
+export interface ApplyTweenHistoryAction extends HistoryAction {
+  type: 'apply_tween';
+  data: {
+    frameMode: 'existing' | 'insert';
+    previousFrames: Frame[];
+    previousCurrentFrame: number;
+    newFrames: Frame[];
+    newCurrentFrame: number;
+    frameCount: number; // Number of tweened frames
+  };
+}
+
+export interface UpdateLayersHistoryAction extends HistoryAction {
+  type: 'update_layers';
+  data: {
+    frameIndex: number;
+    previousFrame: Frame; // Whole frame, layer stack included
+    newFrame: Frame;
+    // Consecutive changes with the same key (e.g. dragging an opacity slider) share one entry
+    mergeKey?: string;
+  };
+}
+
+export interface UpdateEffectStackHistoryAction extends HistoryAction {
+  type: 'update_effect_stack';
+  data: {
+    // Entries are replaced rather than mutated, so both stacks can share them
+    previousStack: import('./effects').EffectStackEntry[];
+    newStack: import('./effects').EffectStackEntry[];
+  };
+}
+
+// Bookmarked project state, kept outside the undo stack so trimming never drops it
+export interface HistorySnapshot {
+  id: string;
+  name: string;
+  timestamp: number;
+  frames: Frame[];
+  currentFrameIndex: number;
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+export interface RestoreSnapshotHistoryAction extends HistoryAction {
+  type: 'restore_snapshot';
+  data: {
+    snapshotName: string;
+    previousFrames: Frame[];
+    previousCurrentFrame: number;
+    previousWidth: number;
+    previousHeight: number;
+    newFrames: Frame[];
+    newCurrentFrame: number;
+    newWidth: number;
+    newHeight: number;
+  };
+}
+
 // Bezier Shape Tool History Actions
 export interface BezierAddPointHistoryAction extends HistoryAction {
   type: 'bezier_add_point';
@@ -596,6 +711,10 @@ export type AnyHistoryAction =
   | SetFrameDurationsHistoryAction
   | ImportMediaHistoryAction
   | ApplyGeneratorHistoryAction
+  | ApplyTweenHistoryAction
+  | UpdateLayersHistoryAction
+  | UpdateEffectStackHistoryAction
+  | RestoreSnapshotHistoryAction
   | BezierAddPointHistoryAction
   | BezierMovePointHistoryAction
   | BezierAdjustHandleHistoryAction
@@ -110,3 +110,36 @@ export interface SetFrameDurationHistoryAction {
  * Edit mode for frame duration dialog (milliseconds or FPS)
  */
 export type FrameDurationMode = 'ms' | 'fps';
+
+/**
+ * Tween Easing Curves
+ */
+export type TweenEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bounce';
+
+/**
+ * Tween Keyframe
+ * 
+ * Selection content captured on the start frame. Cell keys are relative
+ * to the selection origin (top-left of the selection bounds).
+ */
+export interface TweenKeyframe {
+  frameIndex: number;
+  origin: { x: number; y: number };
+  cells: Map<string, Cell>;
+  sourceKeys: string[];     // Absolute keys of the selection on the start frame
+}
+
+/**
+ * Selection Tween Settings
+ * 
+ * Moves keyframe content from its origin to a target placement across frames.
+ */
+export interface TweenSettings {
+  endFrame: number;                        // 0-based index of the target frame
+  endPosition: { x: number; y: number };   // Target selection origin on the end frame
+  easing: TweenEasing;
+  frameMode: 'existing' | 'insert';        // Tween across existing frames or insert new in-betweens
+  insertCount: number;                     // In-between frames to insert (1 - 60)
+  followPath: boolean;                     // Move along the bezier tool's anchor points
+  clearSource: boolean;                    // Remove the original content from tweened frames
+}
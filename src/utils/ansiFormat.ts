@@ -0,0 +1,500 @@
+/**
+ * ANSI Format Utility
+ * Converts cell grids to terminal escape sequences (16, 256 and 24-bit color)
+ * and parses SGR/cursor sequences back into cell frames
+ */
+
+import type { Cell } from '../types';
+import { hexToRgb, normalizeHexColor, rgbToHex } from './colorConversion';
+
+export type AnsiColorMode = 'ansi16' | 'ansi256' | 'truecolor';
+
+export interface AnsiEncodeOptions {
+  width: number;
+  height: number;
+  colorMode: AnsiColorMode;
+  backgroundColor?: string; // Used for transparent cells when set
+}
+
+export interface AnsiParseOptions {
+  columns: number; // Wrap column, matches the terminal width the art was drawn for
+  defaultColor?: string;
+}
+
+export interface AnsiParseResult {
+  frames: Map<string, Cell>[];
+  width: number;
+  height: number;
+}
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const ESC = '\x1b';
+const CSI = `${ESC}[`;
+const SGR_RESET = `${CSI}0m`;
+const ERASE_TO_LINE_END = `${CSI}K`;
+export const ANSI_CURSOR_HOME = `${CSI}H`;
+export const ANSI_CLEAR_SCREEN = `${CSI}2J`;
+export const ANSI_HIDE_CURSOR = `${CSI}?25l`;
+export const ANSI_SHOW_CURSOR = `${CSI}?25h`;
+// Form feed (page break) between frames of a plain dump; parseAnsi starts a new frame on it
+const FRAME_SEPARATOR = '\f';
+
+// xterm default colors for the 16 standard ANSI slots
+const ANSI_16_PALETTE: Rgb[] = [
+  { r: 0, g: 0, b: 0 },
+  { r: 205, g: 0, b: 0 },
+  { r: 0, g: 205, b: 0 },
+  { r: 205, g: 205, b: 0 },
+  { r: 0, g: 0, b: 238 },
+  { r: 205, g: 0, b: 205 },
+  { r: 0, g: 205, b: 205 },
+  { r: 229, g: 229, b: 229 },
+  { r: 127, g: 127, b: 127 },
+  { r: 255, g: 0, b: 0 },
+  { r: 0, g: 255, b: 0 },
+  { r: 255, g: 255, b: 0 },
+  { r: 92, g: 92, b: 255 },
+  { r: 255, g: 0, b: 255 },
+  { r: 0, g: 255, b: 255 },
+  { r: 255, g: 255, b: 255 }
+];
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+const colorDistance = (a: Rgb, b: Rgb): number =>
+  (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+
+const toRgb = (color: string | undefined): Rgb | null => {
+  if (!color || color === 'transparent') return null;
+  return hexToRgb(normalizeHexColor(color));
+};
+
+const nearestAnsi16 = (rgb: Rgb): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  ANSI_16_PALETTE.forEach((candidate, index) => {
+    const distance = colorDistance(rgb, candidate);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+  return best;
+};
+
+const nearestCubeLevel = (value: number): number => {
+  let best = 0;
+  CUBE_LEVELS.forEach((level, index) => {
+    if (Math.abs(level - value) < Math.abs(CUBE_LEVELS[best] - value)) {
+      best = index;
+    }
+  });
+  return best;
+};
+
+/**
+ * Get the RGB value of an xterm 256-color index
+ */
+export const ansi256ToRgb = (index: number): Rgb => {
+  if (index < 16) return ANSI_16_PALETTE[index];
+  if (index >= 232) {
+    const gray = 8 + (index - 232) * 10;
+    return { r: gray, g: gray, b: gray };
+  }
+  const cubeIndex = index - 16;
+  return {
+    r: CUBE_LEVELS[Math.floor(cubeIndex / 36)],
+    g: CUBE_LEVELS[Math.floor(cubeIndex / 6) % 6],
+    b: CUBE_LEVELS[cubeIndex % 6]
+  };
+};
+
+const nearestAnsi256 = (rgb: Rgb): number => {
+  const r = nearestCubeLevel(rgb.r);
+  const g = nearestCubeLevel(rgb.g);
+  const b = nearestCubeLevel(rgb.b);
+  const cubeIndex = 16 + r * 36 + g * 6 + b;
+
+  const average = (rgb.r + rgb.g + rgb.b) / 3;
+  const grayIndex = 232 + Math.max(0, Math.min(23, Math.round((average - 8) / 10)));
+
+  return colorDistance(rgb, ansi256ToRgb(cubeIndex)) <= colorDistance(rgb, ansi256ToRgb(grayIndex))
+    ? cubeIndex
+    : grayIndex;
+};
+
+/**
+ * Build the SGR parameters for a foreground or background color
+ */
+const colorParams = (rgb: Rgb | null, mode: AnsiColorMode, layer: 'fg' | 'bg'): string => {
+  if (!rgb) return layer === 'fg' ? '39' : '49';
+
+  switch (mode) {
+    case 'truecolor':
+      return `${layer === 'fg' ? 38 : 48};2;${rgb.r};${rgb.g};${rgb.b}`;
+    case 'ansi256':
+      return `${layer === 'fg' ? 38 : 48};5;${nearestAnsi256(rgb)}`;
+    case 'ansi16':
+    default: {
+      const index = nearestAnsi16(rgb);
+      const base = layer === 'fg' ? 30 : 40;
+      return index < 8 ? `${base + index}` : `${base + 60 + index - 8}`;
+    }
+  }
+};
+
+/**
+ * Encode a single frame as lines of text with SGR color sequences.
+ * Every line ends with a reset so background colors never bleed past the art.
+ */
+export const encodeAnsiFrame = (cells: Map<string, Cell>, options: AnsiEncodeOptions): string[] => {
+  const { width, height, colorMode } = options;
+  const fallbackBackground = toRgb(options.backgroundColor);
+  const lines: string[] = [];
+
+  for (let y = 0; y < height; y++) {
+    let line = '';
+    let activeFg = '';
+    let activeBg = '';
+    let lastVisibleLength = 0;
+
+    for (let x = 0; x < width; x++) {
+      const cell = cells.get(`${x},${y}`);
+      const char = cell?.char && cell.char !== '' ? cell.char : ' ';
+      const bg = colorParams(toRgb(cell?.bgColor) ?? fallbackBackground, colorMode, 'bg');
+      // Keep the previous foreground for blank cells to avoid redundant sequences
+      const fg = char === ' ' && activeFg ? activeFg : colorParams(toRgb(cell?.color), colorMode, 'fg');
+
+      const changes: string[] = [];
+      if (fg !== activeFg) changes.push(fg);
+      if (bg !== activeBg) changes.push(bg);
+      if (changes.length > 0) {
+        line += `${CSI}${changes.join(';')}m`;
+        activeFg = fg;
+        activeBg = bg;
+      }
+
+      line += char;
+      if (char !== ' ' || bg !== '49') {
+        lastVisibleLength = line.length;
+      }
+    }
+
+    // Drop trailing blank cells on the default background
+    lines.push(`${line.slice(0, lastVisibleLength)}${SGR_RESET}`);
+  }
+
+  return lines;
+};
+
+/**
+ * Join frame lines for in-place redraws: erase the rest of each line so
+ * shorter lines don't leave the previous frame behind
+ */
+const joinRedrawLines = (lines: string[]): string => lines.map(line => `${line}${ERASE_TO_LINE_END}`).join('\n');
+
+/**
+ * Encode frames as a single ANSI document.
+ * With `cursorHome` every frame redraws in place so `cat file.ans` plays the animation,
+ * otherwise frames are listed one after another, separated by form feeds.
+ */
+export const encodeAnsiAnimation = (
+  frames: Map<string, Cell>[],
+  options: AnsiEncodeOptions & { cursorHome: boolean }
+): string => {
+  if (!options.cursorHome) {
+    return frames.map(frame => encodeAnsiFrame(frame, options).join('\n')).join(`\n${FRAME_SEPARATOR}`) + '\n';
+  }
+
+  const body = frames
+    .map(frame => `${ANSI_CURSOR_HOME}${joinRedrawLines(encodeAnsiFrame(frame, options))}`)
+    .join('');
+  return `${ANSI_HIDE_CURSOR}${ANSI_CLEAR_SCREEN}${body}${SGR_RESET}${ANSI_SHOW_CURSOR}\n`;
+};
+
+/**
+ * Quote a string for bash using ANSI-C quoting ($'...')
+ */
+const toBashAnsiCString = (value: string): string => {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .split(ESC)
+    .join('\\e');
+  return `$'${escaped}'`;
+};
+
+/**
+ * Encode frames as a self-contained bash script that plays the animation with per-frame timing
+ */
+export const encodeAnsiShellScript = (
+  frames: Array<{ data: Map<string, Cell>; duration: number }>,
+  options: AnsiEncodeOptions & { loop: boolean; title?: string }
+): string => {
+  const frameStrings = frames.map(frame => toBashAnsiCString(joinRedrawLines(encodeAnsiFrame(frame.data, options))));
+  const delays = frames.map(frame => (Math.max(0, frame.duration) / 1000).toFixed(3));
+  // The title goes in a comment line; a line break or other control character would let it end the comment
+  // eslint-disable-next-line no-control-regex
+  const title = (options.title ?? '').replace(/[\u0000-\u001f\u007f-\u009f\u2028\u2029]+/g, ' ').trim();
+
+  return [
+    '#!/usr/bin/env bash',
+    `# ${title || 'ASCII Motion animation'}`,
+    '# Generated by ASCII Motion',
+    '',
+    'frames=(',
+    ...frameStrings.map(frame => `  ${frame}`),
+    ')',
+    `delays=(${delays.join(' ')})`,
+    '',
+    "cleanup() { printf '\\e[0m\\e[?25h\\n'; }",
+    'trap \'cleanup; exit 130\' INT TERM',
+    '',
+    "printf '\\e[?25l\\e[2J'",
+    'while :; do',
+    '  for i in "${!frames[@]}"; do',
+    "    printf '\\e[H%s' \"${frames[$i]}\"",
+    '    sleep "${delays[$i]}"',
+    '  done',
+    ...(options.loop ? [] : ['  break']),
+    'done',
+    'cleanup',
+    ''
+  ].join('\n');
+};
+
+const toHex = (rgb: Rgb): string => normalizeHexColor(rgbToHex(rgb));
+
+const ansi16Hex = (index: number): string => toHex(ANSI_16_PALETTE[index]);
+
+/**
+ * Parse ANSI text into frames of cells.
+ * A cursor-home after drawn content starts a new frame on top of the previous one,
+ * a clear-screen or form feed starts a new empty frame. SAUCE metadata after ^Z is ignored.
+ */
+export const parseAnsi = (text: string, options: AnsiParseOptions): AnsiParseResult => {
+  const columns = Math.max(1, Math.floor(options.columns));
+  const defaultColor = options.defaultColor ?? '#FFFFFF';
+  const frames: Map<string, Cell>[] = [];
+
+  let current = new Map<string, Cell>();
+  let hasContent = false;
+  let x = 0;
+  let y = 0;
+  let savedX = 0;
+  let savedY = 0;
+  let width = 0;
+  let height = 0;
+
+  let fgIndex: number | null = null; // 16-color index, tracked separately so bold can brighten it
+  let fg: string | null = null;
+  let bg: string | null = null;
+  let bold = false;
+  let inverse = false;
+
+  const startFrame = (clear: boolean) => {
+    if (hasContent) {
+      frames.push(current);
+      current = clear ? new Map<string, Cell>() : new Map(current);
+      hasContent = false;
+    } else if (clear) {
+      current = new Map<string, Cell>();
+    }
+  };
+
+  const resolveForeground = (): string => {
+    if (fgIndex !== null) return ansi16Hex(bold && fgIndex < 8 ? fgIndex + 8 : fgIndex);
+    return fg ?? defaultColor;
+  };
+
+  const putChar = (char: string) => {
+    if (x >= columns) {
+      x = 0;
+      y++;
+    }
+
+    let color = resolveForeground();
+    let bgColor = bg ?? 'transparent';
+    if (inverse) {
+      [color, bgColor] = [bgColor === 'transparent' ? '#000000' : bgColor, color];
+    }
+
+    const key = `${x},${y}`;
+    if (char === ' ' && bgColor === 'transparent') {
+      current.delete(key);
+    } else {
+      current.set(key, { char, color, bgColor });
+      width = Math.max(width, x + 1);
+      height = Math.max(height, y + 1);
+    }
+    hasContent = true;
+    x++;
+  };
+
+  const applySgr = (params: number[]) => {
+    if (params.length === 0) params = [0];
+
+    for (let i = 0; i < params.length; i++) {
+      const code = params[i];
+
+      if (code === 0) {
+        fgIndex = null;
+        fg = null;
+        bg = null;
+        bold = false;
+        inverse = false;
+      } else if (code === 1) {
+        bold = true;
+      } else if (code === 22) {
+        bold = false;
+      } else if (code === 7) {
+        inverse = true;
+      } else if (code === 27) {
+        inverse = false;
+      } else if (code >= 30 && code <= 37) {
+        fgIndex = code - 30;
+      } else if (code >= 90 && code <= 97) {
+        fgIndex = code - 90 + 8;
+      } else if (code === 39) {
+        fgIndex = null;
+        fg = null;
+      } else if (code >= 40 && code <= 47) {
+        bg = ansi16Hex(code - 40);
+      } else if (code >= 100 && code <= 107) {
+        bg = ansi16Hex(code - 100 + 8);
+      } else if (code === 49) {
+        bg = null;
+      } else if (code === 38 || code === 48) {
+        let color: string | null = null;
+        if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+          color = toHex(ansi256ToRgb(Math.max(0, Math.min(255, params[i + 2]))));
+          i += 2;
+        } else if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+          color = toHex({ r: params[i + 2], g: params[i + 3], b: params[i + 4] });
+          i += 4;
+        }
+        if (color && code === 38) {
+          fgIndex = null;
+          fg = color;
+        } else if (color) {
+          bg = color;
+        }
+      }
+    }
+  };
+
+  const applyCsi = (rawParams: string, command: string) => {
+    const isPrivate = rawParams.startsWith('?');
+    const params = (isPrivate ? rawParams.slice(1) : rawParams)
+      .split(';')
+      .filter(part => part !== '')
+      .map(part => parseInt(part, 10))
+      .filter(value => !Number.isNaN(value));
+    if (isPrivate) return;
+
+    const amount = Math.max(1, params[0] ?? 1);
+
+    switch (command) {
+      case 'm':
+        applySgr(params);
+        break;
+      case 'H':
+      case 'f': {
+        const row = Math.max(1, params[0] ?? 1) - 1;
+        const col = Math.max(1, params[1] ?? 1) - 1;
+        if (row === 0 && col === 0) {
+          startFrame(false);
+        }
+        x = col;
+        y = row;
+        break;
+      }
+      case 'J':
+        if ((params[0] ?? 0) === 2) {
+          startFrame(true);
+          x = 0;
+          y = 0;
+        }
+        break;
+      case 'K': {
+        const mode = params[0] ?? 0;
+        const from = mode === 0 ? x : 0;
+        const to = mode === 1 ? x : columns - 1;
+        for (let col = from; col <= to; col++) {
+          current.delete(`${col},${y}`);
+        }
+        break;
+      }
+      case 'A':
+        y = Math.max(0, y - amount);
+        break;
+      case 'B':
+        y += amount;
+        break;
+      case 'C':
+        x = Math.min(columns, x + amount);
+        break;
+      case 'D':
+        x = Math.max(0, x - amount);
+        break;
+      case 's':
+        savedX = x;
+        savedY = y;
+        break;
+      case 'u':
+        x = savedX;
+        y = savedY;
+        break;
+      default:
+        // Unsupported sequences (erase display modes other than 2, scroll regions, ...) are ignored
+        break;
+    }
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\x1a') break; // SAUCE / end-of-file marker
+
+    if (char === ESC) {
+      if (text[i + 1] === '[') {
+        let end = i + 2;
+        while (end < text.length && !/[@-~]/.test(text[end])) end++;
+        if (end >= text.length) break;
+        applyCsi(text.slice(i + 2, end), text[end]);
+        i = end;
+      } else {
+        i++; // Skip two-character escape sequences
+      }
+      continue;
+    }
+
+    if (char === '\n') {
+      x = 0;
+      y++;
+    } else if (char === '\r') {
+      x = 0;
+    } else if (char === FRAME_SEPARATOR) {
+      startFrame(true);
+      x = 0;
+      y = 0;
+    } else if (char === '\t') {
+      const spaces = 8 - (x % 8);
+      for (let s = 0; s < spaces; s++) putChar(' ');
+    } else if (char >= ' ') {
+      putChar(char);
+    }
+  }
+
+  if (hasContent || frames.length === 0) {
+    frames.push(current);
+  }
+
+  return { frames, width, height };
+};
@@ -0,0 +1,115 @@
+import { useCanvasStore } from '../stores/canvasStore';
+import { useAnimationStore } from '../stores/animationStore';
+import { useToolStore } from '../stores/toolStore';
+import type { Cell, ImportMediaHistoryAction } from '../types';
+import { DEFAULT_FRAME_DURATION } from '../constants';
+import { snapshotFrames } from './frameUtils';
+import { parseAnsi } from './ansiFormat';
+
+// Code page 437 glyphs for bytes 0x80-0xFF (classic DOS-era .ans art)
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»' +
+  '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+  'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■ ';
+
+export interface AnsiImportSummary {
+  frameCount: number;
+  clippedCells: number;
+}
+
+/**
+ * ANSI Import Utility
+ * Parses terminal escape-sequence art and appends it to the animation as new frames
+ */
+export class AnsiImporter {
+
+  /**
+   * Decode file bytes as UTF-8, falling back to code page 437 for legacy art
+   */
+  static decodeAnsiText(bytes: Uint8Array): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      let text = '';
+      bytes.forEach(byte => {
+        text += byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH[byte - 0x80];
+      });
+      return text;
+    }
+  }
+
+  /**
+   * Import an ANSI file, appending every parsed frame to the end of the animation
+   */
+  static async importAnsiFile(file: File): Promise<AnsiImportSummary> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const text = AnsiImporter.decodeAnsiText(bytes);
+
+    const canvasStore = useCanvasStore.getState();
+    const { width, height } = canvasStore;
+    const parsed = parseAnsi(text, { columns: width });
+
+    // Keep only cells that fit the current canvas
+    let clippedCells = 0;
+    const frameData = parsed.frames.map(frame => {
+      const data = new Map<string, Cell>();
+      frame.forEach((cell, key) => {
+        const [x, y] = key.split(',').map(Number);
+        if (x < width && y < height) {
+          data.set(key, cell);
+        } else {
+          clippedCells++;
+        }
+      });
+      return { data, duration: DEFAULT_FRAME_DURATION };
+    });
+
+    if (frameData.every(frame => frame.data.size === 0)) {
+      throw new Error('No ANSI art found in file');
+    }
+
+    const animationStore = useAnimationStore.getState();
+
+    // Flush pending canvas edits so undo restores them
+    animationStore.setFrameData(animationStore.currentFrameIndex, canvasStore.cells);
+
+    const previousFrames = snapshotFrames(useAnimationStore.getState().frames);
+    const previousCurrentFrame = animationStore.currentFrameIndex;
+
+    animationStore.importFramesAppend(frameData);
+
+    const newState = useAnimationStore.getState();
+    const historyAction: ImportMediaHistoryAction = {
+      type: 'import_media',
+      timestamp: Date.now(),
+      description: `Import ${frameData.length} frame${frameData.length === 1 ? '' : 's'} from ${file.name}`,
+      data: {
+        mode: 'append',
+        previousFrames,
+        previousCurrentFrame,
+        newFrames: snapshotFrames(newState.frames),
+        newCurrentFrame: newState.currentFrameIndex,
+        importedFrameCount: frameData.length
+      }
+    };
+    useToolStore.getState().pushToHistory(historyAction);
+
+    return { frameCount: frameData.length, clippedCells };
+  }
+}
+
+/**
+ * Hook for ANSI import functionality
+ */
+export const useAnsiImporter = () => {
+  const importAnsi = async (file: File): Promise<AnsiImportSummary> => {
+    try {
+      return await AnsiImporter.importAnsiFile(file);
+    } catch (error) {
+      console.error('ANSI import failed:', error);
+      throw error;
+    }
+  };
+
+  return { importAnsi };
+};
@@ -759,7 +759,7 @@ export class ASCIIConverter {
   /**
    * Convert processed frame to ASCII art cells
    */
-  convertFrame(frame: ProcessedFrame, settings: ConversionSettings): ConversionResult {
+  convertFrame(frame: Pick<ProcessedFrame, 'imageData'>, settings: ConversionSettings): ConversionResult {
     const startTime = performance.now();
     
     let { imageData } = frame;
@@ -0,0 +1,235 @@
+/**
+ * Large canvas benchmark for ASCII Motion
+ * Development tool that measures the rendering paths used for big canvases on
+ * a synthetic frame: full vs viewport-culled redraws, a simulated pan,
+ * dirty-region redraws and row-streamed text export
+ */
+
+import type { Cell } from '../types';
+import { performanceMonitor } from './performance';
+import {
+  cellRegionToPixelRect,
+  forEachCellInRegion,
+  getCellRegionArea,
+  getVisibleCellRegion
+} from './canvasViewport';
+import type { CellRegion } from './canvasViewport';
+import { indexFrameRows, rowToText } from './frameRows';
+
+export interface CanvasBenchmarkResult {
+  name: string;
+  durationMs: number;
+  detail: string;
+}
+
+export interface CanvasBenchmarkOptions {
+  // Size of the simulated visible window in pixels
+  viewportWidth?: number;
+  viewportHeight?: number;
+  // Fraction of cells holding a character (0-1)
+  density?: number;
+  // Number of scroll steps in the pan simulation
+  panSteps?: number;
+}
+
+const CELL_WIDTH = 10;
+const CELL_HEIGHT = 18;
+const BENCHMARK_CHARS = '#@%*+=-:.';
+const BENCHMARK_COLORS = ['#FFFFFF', '#FF6B6B', '#4ECDC4', '#FFE66D', '#A78BFA'];
+
+/**
+ * Build a deterministic synthetic frame
+ */
+const createBenchmarkFrame = (width: number, height: number, density: number): Map<string, Cell> => {
+  const cells = new Map<string, Cell>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Cheap hash so the pattern is stable between runs
+      const hash = ((x * 73856093) ^ (y * 19349663)) >>> 0;
+      if ((hash % 1000) / 1000 < density) {
+        cells.set(`${x},${y}`, {
+          char: BENCHMARK_CHARS[hash % BENCHMARK_CHARS.length],
+          color: BENCHMARK_COLORS[hash % BENCHMARK_COLORS.length],
+          bgColor: hash % 7 === 0 ? '#1F2937' : 'transparent'
+        });
+      }
+    }
+  }
+  return cells;
+};
+
+const drawBenchmarkCell = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  cell: Cell,
+  offset: { x: number; y: number }
+) => {
+  const pixelX = Math.round(x * CELL_WIDTH + offset.x);
+  const pixelY = Math.round(y * CELL_HEIGHT + offset.y);
+
+  if (cell.bgColor !== 'transparent') {
+    ctx.fillStyle = cell.bgColor;
+    ctx.fillRect(pixelX, pixelY, CELL_WIDTH, CELL_HEIGHT);
+  }
+
+  ctx.fillStyle = cell.color;
+  ctx.fillText(cell.char, pixelX + CELL_WIDTH / 2, pixelY + CELL_HEIGHT / 2);
+};
+
+const prepareContext = (ctx: CanvasRenderingContext2D) => {
+  ctx.font = '16px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+};
+
+/**
+ * Time a step with the performance monitor
+ */
+const measure = (name: string, work: () => void): number => {
+  performanceMonitor.start(name);
+  work();
+  return performanceMonitor.end(name);
+};
+
+// Let the browser paint between steps so the page stays responsive
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const formatMs = (value: number) => `${Math.round(value * 100) / 100}ms`;
+
+/**
+ * Run the large canvas benchmark (development only)
+ */
+export const runLargeCanvasBenchmark = async (
+  width: number = 1000,
+  height: number = 500,
+  options: CanvasBenchmarkOptions = {}
+): Promise<CanvasBenchmarkResult[]> => {
+  if (!import.meta.env.DEV) {
+    return [];
+  }
+
+  const {
+    viewportWidth = 1280,
+    viewportHeight = 720,
+    density = 0.6,
+    panSteps = 60
+  } = options;
+
+  const cells = createBenchmarkFrame(width, height, density);
+  const results: CanvasBenchmarkResult[] = [];
+  const gridSize = `${width}x${height}`;
+
+  // Offscreen canvas the size of the visible window, as used by the editor
+  const canvas = document.createElement('canvas');
+  canvas.width = viewportWidth;
+  canvas.height = viewportHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to create benchmark canvas context');
+  }
+  prepareContext(ctx);
+
+  const origin = { x: 0, y: 0 };
+  const visibleRegion = getVisibleCellRegion(viewportWidth, viewportHeight, origin, CELL_WIDTH, CELL_HEIGHT, width, height);
+
+  // Full redraw: every stored cell, including the ones outside the window
+  const fullTime = measure('benchmark-full-render', () => {
+    ctx.clearRect(0, 0, viewportWidth, viewportHeight);
+    cells.forEach((cell, key) => {
+      const [x, y] = key.split(',').map(Number);
+      drawBenchmarkCell(ctx, x, y, cell, origin);
+    });
+  });
+  results.push({
+    name: `Full render (${gridSize})`,
+    durationMs: fullTime,
+    detail: `${cells.size} cells drawn`
+  });
+  await yieldToBrowser();
+
+  // Culled redraw: only the cells inside the visible window
+  let culledCells = 0;
+  const culledTime = measure('benchmark-culled-render', () => {
+    ctx.clearRect(0, 0, viewportWidth, viewportHeight);
+    if (!visibleRegion) return;
+    forEachCellInRegion(cells, visibleRegion, (x, y, cell) => {
+      drawBenchmarkCell(ctx, x, y, cell, origin);
+      culledCells++;
+    });
+  });
+  results.push({
+    name: `Viewport render (${viewportWidth}x${viewportHeight}px)`,
+    durationMs: culledTime,
+    detail: `${culledCells} cells drawn, ${visibleRegion ? getCellRegionArea(visibleRegion) : 0} visible`
+  });
+  await yieldToBrowser();
+
+  // Pan: scroll diagonally across the whole canvas, one culled redraw per step
+  const maxScrollX = Math.max(0, width * CELL_WIDTH - viewportWidth);
+  const maxScrollY = Math.max(0, height * CELL_HEIGHT - viewportHeight);
+  let totalPanTime = 0;
+  let slowestPanFrame = 0;
+  for (let step = 0; step < panSteps; step++) {
+    const progress = panSteps > 1 ? step / (panSteps - 1) : 0;
+    const offset = { x: -Math.round(maxScrollX * progress), y: -Math.round(maxScrollY * progress) };
+    const region = getVisibleCellRegion(viewportWidth, viewportHeight, offset, CELL_WIDTH, CELL_HEIGHT, width, height);
+
+    const frameTime = measure('benchmark-pan-frame', () => {
+      ctx.clearRect(0, 0, viewportWidth, viewportHeight);
+      if (!region) return;
+      forEachCellInRegion(cells, region, (x, y, cell) => {
+        drawBenchmarkCell(ctx, x, y, cell, offset);
+      });
+    });
+
+    totalPanTime += frameTime;
+    slowestPanFrame = Math.max(slowestPanFrame, frameTime);
+  }
+  const averagePanTime = panSteps > 0 ? totalPanTime / panSteps : 0;
+  results.push({
+    name: `Pan (${panSteps} steps)`,
+    durationMs: averagePanTime,
+    detail: `avg per frame, slowest ${formatMs(slowestPanFrame)} (${slowestPanFrame <= 16.67 ? 'within' : 'over'} 60fps budget)`
+  });
+  await yieldToBrowser();
+
+  // Dirty-region redraw: a single edited cell plus its padding
+  const dirtyRegion: CellRegion = { minX: 9, minY: 9, maxX: 11, maxY: 11 };
+  const dirtyTime = measure('benchmark-dirty-render', () => {
+    const rect = cellRegionToPixelRect(dirtyRegion, origin, CELL_WIDTH, CELL_HEIGHT);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    ctx.clip();
+    ctx.clearRect(rect.x, rect.y, rect.width, rect.height);
+    forEachCellInRegion(cells, dirtyRegion, (x, y, cell) => {
+      drawBenchmarkCell(ctx, x, y, cell, origin);
+    });
+    ctx.restore();
+  });
+  results.push({
+    name: 'Dirty-region redraw',
+    durationMs: dirtyTime,
+    detail: `${getCellRegionArea(dirtyRegion)} cells repainted`
+  });
+  await yieldToBrowser();
+
+  // Row-streamed text export of the whole frame
+  let exportedLength = 0;
+  const exportTime = measure('benchmark-text-export', () => {
+    const rowIndex = indexFrameRows(cells, width, height);
+    const lines: string[] = [];
+    for (let y = 0; y < height; y++) {
+      lines.push(rowToText(rowIndex.rows.get(y), 0, width).replace(/\s+$/, ''));
+    }
+    exportedLength = lines.join('\n').length;
+  });
+  results.push({
+    name: 'Text export (row-streamed)',
+    durationMs: exportTime,
+    detail: `${exportedLength} characters`
+  });
+
+  return results;
+};
@@ -0,0 +1,94 @@
+import type { Cell, CanvasAnchor, Frame } from '../types';
+import { CANVAS_SIZE_LIMITS } from '../constants';
+import { mapFrameLayers } from './layerUtils';
+
+/**
+ * Canvas resize helpers
+ * Places existing content on a canvas of a new size relative to a 9-way anchor
+ */
+
+/**
+ * Clamp requested canvas dimensions to the supported range
+ */
+export function clampCanvasSize(width: number, height: number): { width: number; height: number } {
+  return {
+    width: Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, Math.round(width))),
+    height: Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, Math.round(height)))
+  };
+}
+
+/**
+ * Offset applied to existing content when resizing from one size to another
+ * Negative offsets mean content is trimmed on the left/top
+ */
+export function getAnchorOffset(
+  previousSize: { width: number; height: number },
+  newSize: { width: number; height: number },
+  anchor: CanvasAnchor
+): { x: number; y: number } {
+  const deltaX = newSize.width - previousSize.width;
+  const deltaY = newSize.height - previousSize.height;
+
+  const horizontal = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? deltaX : Math.floor(deltaX / 2);
+  const vertical = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? deltaY : Math.floor(deltaY / 2);
+
+  return { x: horizontal, y: vertical };
+}
+
+/**
+ * Reposition canvas data for a resize
+ * Cells that fall outside the new bounds are dropped; newly exposed space is
+ * filled with `fillCell` when provided
+ */
+export function resizeCanvasData(
+  cells: Map<string, Cell>,
+  previousSize: { width: number; height: number },
+  newSize: { width: number; height: number },
+  anchor: CanvasAnchor,
+  fillCell?: Cell | null
+): Map<string, Cell> {
+  const offset = getAnchorOffset(previousSize, newSize, anchor);
+  const resizedCells = new Map<string, Cell>();
+
+  if (fillCell) {
+    for (let y = 0; y < newSize.height; y++) {
+      for (let x = 0; x < newSize.width; x++) {
+        const sourceX = x - offset.x;
+        const sourceY = y - offset.y;
+        const isNewSpace = sourceX < 0 || sourceY < 0 || sourceX >= previousSize.width || sourceY >= previousSize.height;
+        if (isNewSpace) {
+          resizedCells.set(`${x},${y}`, { ...fillCell });
+        }
+      }
+    }
+  }
+
+  cells.forEach((cell, key) => {
+    const [x, y] = key.split(',').map(Number);
+    const newX = x + offset.x;
+    const newY = y + offset.y;
+
+    if (newX >= 0 && newY >= 0 && newX < newSize.width && newY < newSize.height) {
+      resizedCells.set(`${newX},${newY}`, { ...cell });
+    }
+  });
+
+  return resizedCells;
+}
+
+/**
+ * Resize every frame of an animation consistently, including inactive layers
+ * Only the bottom layer receives `fillCell` so upper layers stay transparent
+ */
+export function resizeAllFrames(
+  frames: Frame[],
+  previousSize: { width: number; height: number },
+  newSize: { width: number; height: number },
+  anchor: CanvasAnchor,
+  fillCell?: Cell | null
+): Frame[] {
+  return frames.map(frame => mapFrameLayers(
+    frame,
+    (data, layerIndex) => resizeCanvasData(data, previousSize, newSize, anchor, layerIndex === 0 ? fillCell : null)
+  ));
+}
@@ -4,6 +4,8 @@
  * based on typography settings (fontSize, characterSpacing, lineSpacing)
  */
 
+import { CANVAS_SIZE_LIMITS } from '../constants';
+
 export interface TypographySettings {
   fontSize: number;
   characterSpacing: number;
@@ -79,8 +81,8 @@ export function validateCharacterDimensions(
   dimensions: CharacterDimensions
 ): CharacterDimensions {
   return {
-    width: Math.max(4, Math.min(200, dimensions.width)),
-    height: Math.max(4, Math.min(100, dimensions.height))
+    width: Math.max(CANVAS_SIZE_LIMITS.minWidth, Math.min(CANVAS_SIZE_LIMITS.maxWidth, dimensions.width)),
+    height: Math.max(CANVAS_SIZE_LIMITS.minHeight, Math.min(CANVAS_SIZE_LIMITS.maxHeight, dimensions.height))
   };
 }
 
@@ -93,8 +95,8 @@ export function getPixelConstraints(typography: TypographySettings): {
   minHeight: number;
   maxHeight: number;
 } {
-  const minChars = { width: 4, height: 4 };
-  const maxChars = { width: 200, height: 100 };
+  const minChars = { width: CANVAS_SIZE_LIMITS.minWidth, height: CANVAS_SIZE_LIMITS.minHeight };
+  const maxChars = { width: CANVAS_SIZE_LIMITS.maxWidth, height: CANVAS_SIZE_LIMITS.maxHeight };
   
   const minPixels = charactersToPixels(minChars, typography);
   const maxPixels = charactersToPixels(maxChars, typography);
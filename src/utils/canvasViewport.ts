@@ -0,0 +1,126 @@
+import type { Cell } from '../types';
+
+/**
+ * Viewport helpers for large canvases
+ * The canvas element only covers the visible window of the grid, so renderers
+ * map that window back to a cell region and skip everything outside it
+ */
+
+export interface CellRegion {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface CanvasViewportRect {
+  // Scroll position of the visible window within the full canvas (pixels)
+  x: number;
+  y: number;
+  // Size of the scroll container (pixels, 0 until measured)
+  width: number;
+  height: number;
+}
+
+export const EMPTY_VIEWPORT_RECT: CanvasViewportRect = { x: 0, y: 0, width: 0, height: 0 };
+
+/**
+ * Size of the canvas element: the full canvas when it fits, otherwise the visible window
+ */
+export const getCanvasDisplaySize = (
+  canvasWidth: number,
+  canvasHeight: number,
+  viewport: CanvasViewportRect
+): { width: number; height: number } => ({
+  width: viewport.width > 0 ? Math.min(canvasWidth, viewport.width) : canvasWidth,
+  height: viewport.height > 0 ? Math.min(canvasHeight, viewport.height) : canvasHeight
+});
+
+/**
+ * Grid cells covered by a canvas of the given size drawn at the given pixel offset
+ * Returns null when no cell is visible
+ */
+export const getVisibleCellRegion = (
+  displayWidth: number,
+  displayHeight: number,
+  offset: { x: number; y: number },
+  cellWidth: number,
+  cellHeight: number,
+  gridWidth: number,
+  gridHeight: number
+): CellRegion | null => {
+  if (cellWidth <= 0 || cellHeight <= 0) return null;
+
+  const minX = Math.max(0, Math.floor(-offset.x / cellWidth));
+  const minY = Math.max(0, Math.floor(-offset.y / cellHeight));
+  const maxX = Math.min(gridWidth - 1, Math.ceil((displayWidth - offset.x) / cellWidth) - 1);
+  const maxY = Math.min(gridHeight - 1, Math.ceil((displayHeight - offset.y) / cellHeight) - 1);
+
+  if (minX > maxX || minY > maxY) return null;
+  return { minX, minY, maxX, maxY };
+};
+
+/**
+ * Overlap of two cell regions, or null when they don't intersect
+ */
+export const intersectCellRegions = (a: CellRegion, b: CellRegion): CellRegion | null => {
+  const minX = Math.max(a.minX, b.minX);
+  const minY = Math.max(a.minY, b.minY);
+  const maxX = Math.min(a.maxX, b.maxX);
+  const maxY = Math.min(a.maxY, b.maxY);
+
+  if (minX > maxX || minY > maxY) return null;
+  return { minX, minY, maxX, maxY };
+};
+
+export const getCellRegionArea = (region: CellRegion): number =>
+  (region.maxX - region.minX + 1) * (region.maxY - region.minY + 1);
+
+/**
+ * Pixel rectangle covering a cell region, rounded outward to whole pixels
+ */
+export const cellRegionToPixelRect = (
+  region: CellRegion,
+  offset: { x: number; y: number },
+  cellWidth: number,
+  cellHeight: number
+): { x: number; y: number; width: number; height: number } => {
+  const x = Math.floor(region.minX * cellWidth + offset.x);
+  const y = Math.floor(region.minY * cellHeight + offset.y);
+  const right = Math.ceil((region.maxX + 1) * cellWidth + offset.x);
+  const bottom = Math.ceil((region.maxY + 1) * cellHeight + offset.y);
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * Visit the stored cells inside a region
+ * Walks the sparse map when it is smaller than the region so mostly empty
+ * posters don't pay for every visible coordinate
+ */
+export const forEachCellInRegion = (
+  cells: Map<string, Cell>,
+  region: CellRegion,
+  callback: (x: number, y: number, cell: Cell, key: string) => void
+): void => {
+  if (cells.size < getCellRegionArea(region)) {
+    cells.forEach((cell, key) => {
+      const comma = key.indexOf(',');
+      const x = Number(key.slice(0, comma));
+      const y = Number(key.slice(comma + 1));
+      if (x >= region.minX && x <= region.maxX && y >= region.minY && y <= region.maxY) {
+        callback(x, y, cell, key);
+      }
+    });
+    return;
+  }
+
+  for (let y = region.minY; y <= region.maxY; y++) {
+    for (let x = region.minX; x <= region.maxX; x++) {
+      const key = `${x},${y}`;
+      const cell = cells.get(key);
+      if (cell) {
+        callback(x, y, cell, key);
+      }
+    }
+  }
+};
@@ -1,9 +1,36 @@
 /**
  * Utility functions for converting canvas selections to OS clipboard text format
+ * and for converting OS clipboard text (plain, ANSI or HTML) back into cells
  */
 
 import type { Cell } from '../types';
+import type { FontMetrics } from './fontMetrics';
+import type { TypographySettings } from './canvasSizeConversion';
 import { getBoundsFromMask } from './selectionUtils';
+import { parseAnsi } from './ansiFormat';
+import { normalizeHexColor, rgbToHex } from './colorConversion';
+import { generateSvgHeader, generateSvgTextElement } from './svgExportUtils';
+import { ExportRenderer } from './exportRenderer';
+
+export interface ClipboardPasteColors {
+  color: string;
+  bgColor: string;
+}
+
+// Canvas appearance needed to render selections as HTML, SVG and PNG
+export interface ClipboardRenderOptions {
+  backgroundColor: string;
+  fontMetrics: FontMetrics;
+  typography: TypographySettings;
+  theme: 'light' | 'dark';
+}
+
+const DEFAULT_FONT_STACK = 'SF Mono, Monaco, Cascadia Code, Consolas, JetBrains Mono, Fira Code, Monaspace Neon, Geist Mono, Courier New, monospace';
+
+// Text most recently written by the editor, so pasting it back uses the richer internal clipboard
+let lastWrittenText: string | null = null;
+
+const normalizeLineEndings = (text: string): string => text.replace(/\r\n?/g, '\n');
 
 /**
  * Convert a selection of canvas cells to text format for OS clipboard
@@ -112,11 +139,190 @@ export const magicWandSelectionToText = (
   return lassoSelectionToText(canvasData, selectedCells);
 };
 
+/**
+ * Selected cells moved to 0,0, with the size of the selection's bounding box
+ */
+const getSelectionCells = (
+  canvasData: Map<string, Cell>,
+  mask: Set<string>
+): { cells: Map<string, Cell>; width: number; height: number } | null => {
+  const bounds = getBoundsFromMask(mask);
+  if (!bounds) {
+    return null;
+  }
+
+  const cells = new Map<string, Cell>();
+  mask.forEach((key) => {
+    const cell = canvasData.get(key);
+    if (cell) {
+      const [x, y] = key.split(',').map(Number);
+      cells.set(`${x - bounds.minX},${y - bounds.minY}`, cell);
+    }
+  });
+
+  return {
+    cells,
+    width: bounds.maxX - bounds.minX + 1,
+    height: bounds.maxY - bounds.minY + 1
+  };
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Convert a selection to a colored HTML <pre> snippet
+ * Runs of cells with the same colors share one <span>
+ */
+export const selectionToHtml = (
+  canvasData: Map<string, Cell>,
+  mask: Set<string>,
+  options: ClipboardRenderOptions
+): string => {
+  const selection = getSelectionCells(canvasData, mask);
+  if (!selection) {
+    return '';
+  }
+
+  const fontStack = options.fontMetrics.fontFamily || DEFAULT_FONT_STACK;
+  const lineHeight = options.typography.lineSpacing || 1.0;
+  const rows: string[] = [];
+
+  for (let y = 0; y < selection.height; y++) {
+    let row = '';
+    let run = '';
+    let runStyle: string | null = null;
+
+    const flushRun = () => {
+      if (run) {
+        row += runStyle ? `<span style="${runStyle}">${escapeHtml(run)}</span>` : escapeHtml(run);
+      }
+      run = '';
+    };
+
+    for (let x = 0; x < selection.width; x++) {
+      const cell = selection.cells.get(`${x},${y}`);
+      const style = cell
+        ? `color:${cell.color}${cell.bgColor && cell.bgColor !== 'transparent' ? `;background-color:${cell.bgColor}` : ''}`
+        : null;
+
+      if (style !== runStyle) {
+        flushRun();
+        runStyle = style;
+      }
+      run += cell?.char || ' ';
+    }
+    flushRun();
+    rows.push(row.replace(/\s+$/, ''));
+  }
+
+  return `<pre style="font-family:${escapeHtml(fontStack)};line-height:${lineHeight};background-color:${options.backgroundColor};padding:8px">${rows.join('\n')}</pre>`;
+};
+
+/**
+ * Convert a selection to an SVG document using the SVG export helpers
+ */
+export const selectionToSvg = (
+  canvasData: Map<string, Cell>,
+  mask: Set<string>,
+  options: ClipboardRenderOptions
+): string => {
+  const selection = getSelectionCells(canvasData, mask);
+  if (!selection) {
+    return '';
+  }
+
+  // Same cell sizing as the SVG export
+  const fontSize = options.typography.fontSize || options.fontMetrics.fontSize || 16;
+  const cellWidth = fontSize * 0.6 * (options.typography.characterSpacing || 1.0);
+  const cellHeight = fontSize * (options.typography.lineSpacing || 1.0);
+  const fontStack = options.fontMetrics.fontFamily || DEFAULT_FONT_STACK;
+
+  let svg = generateSvgHeader(selection.width * cellWidth, selection.height * cellHeight, options.backgroundColor);
+  selection.cells.forEach((cell, key) => {
+    if (!cell.char) return;
+    const [x, y] = key.split(',').map(Number);
+    svg += generateSvgTextElement(cell.char, x, y, cell.color || '#ffffff', cell.bgColor, cellWidth, cellHeight, fontSize, fontStack);
+  });
+
+  return `${svg}</svg>`;
+};
+
+/**
+ * Render a selection to PNG through the image export renderer
+ */
+export const selectionToPng = async (
+  canvasData: Map<string, Cell>,
+  mask: Set<string>,
+  options: ClipboardRenderOptions
+): Promise<Blob> => {
+  const selection = getSelectionCells(canvasData, mask);
+  if (!selection) {
+    throw new Error('Selection is empty');
+  }
+
+  return new ExportRenderer().renderImageBlob(selection.cells, selection.width, selection.height, {
+    backgroundColor: options.backgroundColor,
+    showGrid: false,
+    fontMetrics: options.fontMetrics,
+    typography: options.typography,
+    sizeMultiplier: 1,
+    theme: options.theme
+  });
+};
+
+/**
+ * Copy a selection to the OS clipboard as plain text plus, when render options are
+ * given and the browser supports it, colored HTML, SVG and PNG flavours
+ * Falls back to plain text when rich clipboard writes are unavailable or rejected
+ */
+export const writeSelectionToOSClipboard = async (
+  canvasData: Map<string, Cell>,
+  mask: Set<string>,
+  options?: ClipboardRenderOptions
+): Promise<boolean> => {
+  const text = maskToText(canvasData, mask);
+
+  if (!options || typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
+    return writeToOSClipboard(text);
+  }
+
+  const supportsType = (type: string) =>
+    typeof ClipboardItem.supports !== 'function' || ClipboardItem.supports(type);
+
+  // Blob promises keep the write inside the user gesture while the PNG renders (Safari)
+  const flavours: Record<string, Promise<Blob>> = {
+    'text/plain': Promise.resolve(new Blob([text], { type: 'text/plain' })),
+    'text/html': Promise.resolve(new Blob([selectionToHtml(canvasData, mask, options)], { type: 'text/html' }))
+  };
+  if (supportsType('image/png')) {
+    flavours['image/png'] = selectionToPng(canvasData, mask, options);
+  }
+  // Only offered where the browser reports support; unknown types reject the whole write
+  if (typeof ClipboardItem.supports === 'function' && ClipboardItem.supports('image/svg+xml')) {
+    flavours['image/svg+xml'] = Promise.resolve(new Blob([selectionToSvg(canvasData, mask, options)], { type: 'image/svg+xml' }));
+  }
+
+  lastWrittenText = normalizeLineEndings(text);
+  try {
+    await navigator.clipboard.write([new ClipboardItem(flavours)]);
+    return true;
+  } catch (error) {
+    console.warn('Failed to write rich clipboard data, falling back to text:', error);
+    return writeToOSClipboard(text);
+  }
+};
+
 /**
  * Write text to the OS clipboard using the Clipboard API
  * Falls back gracefully if clipboard API is not available
  */
 export const writeToOSClipboard = async (text: string): Promise<boolean> => {
+  lastWrittenText = normalizeLineEndings(text);
   try {
     if (navigator.clipboard && navigator.clipboard.writeText) {
       await navigator.clipboard.writeText(text);
@@ -132,3 +338,200 @@ export const writeToOSClipboard = async (text: string): Promise<boolean> => {
     return false;
   }
 };
+
+/**
+ * Shift cells so the top-left non-empty cell sits at 0,0
+ */
+const normalizeCellOffsets = (cells: Map<string, Cell>): Map<string, Cell> => {
+  let minX = Infinity;
+  let minY = Infinity;
+  cells.forEach((_, key) => {
+    const [x, y] = key.split(',').map(Number);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+  });
+
+  const normalized = new Map<string, Cell>();
+  cells.forEach((cell, key) => {
+    const [x, y] = key.split(',').map(Number);
+    normalized.set(`${x - minX},${y - minY}`, cell);
+  });
+  return normalized;
+};
+
+/**
+ * Convert plain text to cells drawn in the given colors
+ * Spaces are left empty, matching how blank canvas cells are copied
+ */
+export const textToCells = (text: string, colors: ClipboardPasteColors): Map<string, Cell> => {
+  const cells = new Map<string, Cell>();
+
+  normalizeLineEndings(text).split('\n').forEach((line, y) => {
+    let x = 0;
+    for (const char of line) {
+      if (char === '\t') {
+        x += 8 - (x % 8);
+        continue;
+      }
+      if (char.trim() !== '') {
+        cells.set(`${x},${y}`, { char, color: colors.color, bgColor: colors.bgColor });
+      }
+      x++;
+    }
+  });
+
+  return normalizeCellOffsets(cells);
+};
+
+/**
+ * Convert ANSI-colored text (e.g. copied from a terminal) to cells
+ * Text without color codes falls back to the given foreground color
+ */
+export const ansiTextToCells = (text: string, colors: ClipboardPasteColors): Map<string, Cell> => {
+  const normalized = normalizeLineEndings(text);
+  // Clipboard text carries its own line breaks, so only wrap beyond the longest line
+  const columns = Math.max(1, ...normalized.split('\n').map(line => line.length));
+  const { frames } = parseAnsi(normalized, { columns, defaultColor: colors.color });
+  return normalizeCellOffsets(frames[frames.length - 1] ?? new Map());
+};
+
+/**
+ * Parse an inline CSS color (hex or rgb/rgba) to hex, or null when unset or transparent
+ */
+const parseCssColor = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+
+  if (/^#([0-9a-f]{3}|[0-9a-f]{6})$/.test(color)) {
+    return normalizeHexColor(color);
+  }
+
+  const match = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)$/);
+  if (!match) return null;
+  if (match[4] !== undefined && parseFloat(match[4]) === 0) return null;
+
+  return normalizeHexColor(rgbToHex({ r: Number(match[1]), g: Number(match[2]), b: Number(match[3]) }));
+};
+
+const HTML_BLOCK_TAGS = new Set(['DIV', 'P', 'PRE', 'TR', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+const HTML_SKIPPED_TAGS = new Set(['HEAD', 'STYLE', 'SCRIPT', 'TITLE', 'META']);
+const MONOSPACE_FONT = /mono|courier|consolas|menlo/i;
+
+/**
+ * Convert HTML clipboard content (terminal and code editor copies) to cells
+ * Returns null when the HTML is not preformatted text, since colors from regular
+ * web pages describe the page rather than the art
+ */
+export const htmlToCells = (html: string, colors: ClipboardPasteColors): Map<string, Cell> | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const elements = Array.from(doc.body.querySelectorAll<HTMLElement>('*'));
+  const isPreformatted = elements.some(element =>
+    element.tagName === 'PRE' ||
+    element.tagName === 'CODE' ||
+    MONOSPACE_FONT.test(element.style.fontFamily) ||
+    element.style.whiteSpace.startsWith('pre')
+  );
+  if (!isPreformatted) return null;
+
+  const cells = new Map<string, Cell>();
+  let x = 0;
+  let y = 0;
+
+  const newLine = () => {
+    x = 0;
+    y++;
+  };
+
+  const walk = (node: Node, color: string, bgColor: string | null) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      for (const char of normalizeLineEndings(node.textContent ?? '')) {
+        if (char === '\n') {
+          newLine();
+        } else if (char === '\t') {
+          x += 8 - (x % 8);
+        } else {
+          const isBlank = char.trim() === '' || char === '\u00a0';
+          // Blank cells are only kept when the HTML paints a background behind them
+          if (!isBlank || bgColor) {
+            cells.set(`${x},${y}`, {
+              char: isBlank ? ' ' : char,
+              color,
+              bgColor: bgColor ?? colors.bgColor
+            });
+          }
+          x++;
+        }
+      }
+      return;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as HTMLElement;
+    if (HTML_SKIPPED_TAGS.has(element.tagName)) return;
+    if (element.tagName === 'BR') {
+      newLine();
+      return;
+    }
+
+    const nextColor = parseCssColor(element.style?.color || element.getAttribute('color')) ?? color;
+    const nextBgColor = parseCssColor(element.style?.backgroundColor) ?? bgColor;
+    const isBlock = HTML_BLOCK_TAGS.has(element.tagName);
+
+    if (isBlock && x > 0) newLine();
+    element.childNodes.forEach(child => walk(child, nextColor, nextBgColor));
+    if (isBlock && x > 0) newLine();
+  };
+
+  walk(doc.body, colors.color, null);
+  return cells.size > 0 ? normalizeCellOffsets(cells) : null;
+};
+
+/**
+ * Read the OS clipboard and convert its contents to cells
+ * Prefers ANSI escape codes, then preformatted HTML, then plain text. Returns null
+ * when the clipboard is empty, unreadable, or still holds text the editor copied
+ */
+export const readOSClipboardCells = async (colors: ClipboardPasteColors): Promise<Map<string, Cell> | null> => {
+  if (!navigator.clipboard) {
+    return null;
+  }
+
+  let text = '';
+  let html = '';
+
+  try {
+    if (navigator.clipboard.read) {
+      const items = await navigator.clipboard.read();
+      for (const item of items) {
+        if (!text && item.types.includes('text/plain')) {
+          text = await (await item.getType('text/plain')).text();
+        }
+        if (!html && item.types.includes('text/html')) {
+          html = await (await item.getType('text/html')).text();
+        }
+      }
+    } else if (navigator.clipboard.readText) {
+      text = await navigator.clipboard.readText();
+    }
+  } catch (error) {
+    // Permission denied or unsupported - the internal clipboard is used instead
+    console.warn('Failed to read from OS clipboard:', error);
+    return null;
+  }
+
+  if (text && normalizeLineEndings(text) === lastWrittenText) {
+    return null;
+  }
+
+  let cells: Map<string, Cell> | null = null;
+  if (text.includes('\x1b[')) {
+    cells = ansiTextToCells(text, colors);
+  } else if (html) {
+    cells = htmlToCells(html, colors);
+  }
+  if (!cells && text) {
+    cells = textToCells(text, colors);
+  }
+
+  return cells && cells.size > 0 ? cells : null;
+};
@@ -0,0 +1,39 @@
+/**
+ * Runtime handlers for registry commands
+ * Components and hooks register the commands they implement; keyboard
+ * shortcuts (and anything else that triggers commands by id) run them here
+ */
+
+import type { CommandId } from '../constants/commands';
+
+// Return false when the command did not apply (the key event is then left alone)
+export type CommandHandler = () => boolean | void;
+
+const handlers = new Map<CommandId, CommandHandler>();
+
+/**
+ * Register handlers; returns a cleanup that removes only these handlers
+ */
+export const registerCommandHandlers = (entries: Partial<Record<CommandId, CommandHandler>>): (() => void) => {
+  const registered = Object.entries(entries) as Array<[CommandId, CommandHandler]>;
+  registered.forEach(([commandId, handler]) => handlers.set(commandId, handler));
+
+  return () => {
+    registered.forEach(([commandId, handler]) => {
+      if (handlers.get(commandId) === handler) {
+        handlers.delete(commandId);
+      }
+    });
+  };
+};
+
+export const hasCommandHandler = (commandId: CommandId): boolean => handlers.has(commandId);
+
+/**
+ * Run a command; returns true when it was handled
+ */
+export const executeCommand = (commandId: CommandId): boolean => {
+  const handler = handlers.get(commandId);
+  if (!handler) return false;
+  return handler() !== false;
+};
@@ -1,5 +1,6 @@
-import type { Cell } from '../types';
+import type { Cell, Frame } from '../types';
 import { getBoundsFromMask } from './selectionUtils';
+import { mapFrameLayers } from './layerUtils';
 
 /**
  * Crop canvas data to the bounds of a selection
@@ -54,12 +55,12 @@ export function cropCanvasToSelection(
 
 /**
  * Crop all frames in an animation to match selection bounds
- * Returns array of cropped frame data
+ * Every layer of every frame is cropped so layers stay aligned
  */
 export function cropAllFramesToSelection(
-  frames: Array<{ data: Map<string, Cell> }>,
+  frames: Frame[],
   selectedCells: Set<string>
-): Array<Map<string, Cell>> | null {
+): Frame[] | null {
   const bounds = getBoundsFromMask(selectedCells);
   
   if (!bounds) {
@@ -67,12 +68,12 @@ export function cropAllFramesToSelection(
   }
 
   const { minX, minY, maxX, maxY } = bounds;
-  
-  return frames.map((frame) => {
+
+  const cropToBounds = (data: Map<string, Cell>) => {
     const croppedCells = new Map<string, Cell>();
     
-    // Reposition all cells in this frame
-    frame.data.forEach((cell, key) => {
+    // Reposition all cells in this layer
+    data.forEach((cell, key) => {
       const [x, y] = key.split(',').map(Number);
       
       // Only keep cells within the crop bounds
@@ -85,5 +86,7 @@ export function cropAllFramesToSelection(
     });
     
     return croppedCells;
-  });
+  };
+  
+  return frames.map(frame => mapFrameLayers(frame, cropToBounds));
 }
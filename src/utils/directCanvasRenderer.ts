@@ -1,7 +1,11 @@
 import type { Frame, Cell } from '../types';
 import { useCanvasStore } from '../stores/canvasStore';
+import { useEffectsStore } from '../stores/effectsStore';
 import { setupTextRendering } from './canvasTextRendering';
 import { calculateAdaptiveGridColor } from './gridColor';
+import { compositeFrame } from './layerUtils';
+import { applyEffectStack } from './effectStack';
+import { forEachCellInRegion, getVisibleCellRegion } from './canvasViewport';
 
 /**
  * Direct canvas renderer for optimized playback
@@ -144,26 +148,45 @@ export const renderFrameDirectly = (
     ctx.fillRect(0, 0, canvas.width, canvas.height);
   }
 
+  // Only the cells inside the visible window of the canvas are drawn
+  const visibleRegion = getVisibleCellRegion(
+    canvas.clientWidth || canvas.width,
+    canvas.clientHeight || canvas.height,
+    settings.panOffset,
+    settings.effectiveCellWidth,
+    settings.effectiveCellHeight,
+    canvasSettings.width,
+    canvasSettings.height
+  );
+  if (!visibleRegion) {
+    return;
+  }
+
   // Draw grid background if enabled (optional for playback)
   if (canvasSettings.showGrid) {
     ctx.strokeStyle = gridLineColor;
     ctx.lineWidth = 1;
+
+    const top = visibleRegion.minY * settings.effectiveCellHeight + settings.panOffset.y;
+    const bottom = (visibleRegion.maxY + 1) * settings.effectiveCellHeight + settings.panOffset.y;
+    const left = visibleRegion.minX * settings.effectiveCellWidth + settings.panOffset.x;
+    const right = (visibleRegion.maxX + 1) * settings.effectiveCellWidth + settings.panOffset.x;
     
     // Draw vertical lines
-    for (let x = 0; x <= canvasSettings.width; x++) {
+    for (let x = visibleRegion.minX; x <= visibleRegion.maxX + 1; x++) {
       const lineX = Math.round(x * settings.effectiveCellWidth + settings.panOffset.x) + 0.5;
       ctx.beginPath();
-      ctx.moveTo(lineX, settings.panOffset.y);
-      ctx.lineTo(lineX, canvasSettings.height * settings.effectiveCellHeight + settings.panOffset.y);
+      ctx.moveTo(lineX, top);
+      ctx.lineTo(lineX, bottom);
       ctx.stroke();
     }
     
     // Draw horizontal lines
-    for (let y = 0; y <= canvasSettings.height; y++) {
+    for (let y = visibleRegion.minY; y <= visibleRegion.maxY + 1; y++) {
       const lineY = Math.round(y * settings.effectiveCellHeight + settings.panOffset.y) + 0.5;
       ctx.beginPath();
-      ctx.moveTo(settings.panOffset.x, lineY);
-      ctx.lineTo(canvasSettings.width * settings.effectiveCellWidth + settings.panOffset.x, lineY);
+      ctx.moveTo(left, lineY);
+      ctx.lineTo(right, lineY);
       ctx.stroke();
     }
   }
@@ -173,14 +196,12 @@ export const renderFrameDirectly = (
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
 
-  // Render all cells in the frame
-  frame.data.forEach((cell, key) => {
-    const [x, y] = key.split(',').map(Number);
-    
-    // Only render cells within canvas bounds
-    if (x >= 0 && x < canvasSettings.width && y >= 0 && y < canvasSettings.height) {
-      drawCellDirect(ctx, x, y, cell, drawingSettings);
-    }
+  // Render all cells in the frame (flattening any layers, then applying the effect stack)
+  const { effectStack } = useEffectsStore.getState();
+  const frameCells = applyEffectStack(compositeFrame(frame), effectStack, frame.id, canvasSettings.canvasBackgroundColor);
+
+  forEachCellInRegion(frameCells, visibleRegion, (x, y, cell) => {
+    drawCellDirect(ctx, x, y, cell, drawingSettings);
   });
   
 };
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * effectStack.ts - Non-destructive effect stack evaluation
+ *
+ * Effect stack entries are stored with their settings and applied in order on top
+ * of the frame artwork whenever it is rendered or exported. Frame data is never modified.
+ * Entries limited to some frames store frame IDs, so inserting, deleting or reordering
+ * frames never moves an effect onto different artwork.
+ */
+
+import type { Cell, Frame, FrameId } from '../types';
+import type { EffectStackEntry, LastAppliedEffect } from '../types/effects';
+import { EFFECT_DEFINITIONS } from '../constants/effectsDefaults';
+import { applyEffectToCells } from './effectsProcessing';
+import { applySelectionMask } from './selectionMask';
+import type { SelectionMaskWeights } from './selectionMask';
+
+export const generateEffectStackEntryId = (): string =>
+  `effect-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Create a stack entry from an effect type and settings (e.g. a LastAppliedEffect)
+ */
+export const createEffectStackEntry = (
+  effect: Pick<LastAppliedEffect, 'effectType' | 'effectSettings'>,
+  frameIds: FrameId[] | null = null,
+  maskWeights: SelectionMaskWeights | null = null
+): EffectStackEntry => ({
+  id: generateEffectStackEntryId(),
+  effectType: effect.effectType,
+  effectSettings: JSON.parse(JSON.stringify(effect.effectSettings)),
+  enabled: true,
+  frameIds: frameIds ? [...frameIds] : null,
+  ...(maskWeights ? { mask: Object.fromEntries(maskWeights) } : {})
+});
+
+// Entry masks are stored as plain objects (session friendly); keep the Map form per entry
+const maskWeightsCache = new WeakMap<Record<string, number>, SelectionMaskWeights>();
+
+const getEntryMaskWeights = (mask: Record<string, number>): SelectionMaskWeights => {
+  let weights = maskWeightsCache.get(mask);
+  if (!weights) {
+    weights = new Map(Object.entries(mask));
+    maskWeightsCache.set(mask, weights);
+  }
+  return weights;
+};
+
+const EFFECT_TYPES = new Set<string>(EFFECT_DEFINITIONS.map(def => def.id));
+
+/**
+ * Validate a stack loaded from a session file
+ */
+export const isValidEffectStack = (stack: unknown): stack is EffectStackEntry[] => {
+  if (!Array.isArray(stack)) return false;
+
+  return stack.every(entry => {
+    if (typeof entry !== 'object' || entry === null) return false;
+    if (typeof entry.id !== 'string' || !EFFECT_TYPES.has(entry.effectType)) return false;
+    if (typeof entry.enabled !== 'boolean') return false;
+    if (typeof entry.effectSettings !== 'object' || entry.effectSettings === null) return false;
+    if (entry.mask !== undefined && (typeof entry.mask !== 'object' || entry.mask === null)) return false;
+    if (entry.frameIds === null) return true;
+    return Array.isArray(entry.frameIds)
+      && entry.frameIds.every((frameId: unknown) => typeof frameId === 'string');
+  });
+};
+
+/**
+ * Whether an entry affects the given frame
+ */
+export const isEffectStackEntryActive = (entry: EffectStackEntry, frameId: FrameId): boolean => {
+  if (!entry.enabled) return false;
+  if (!entry.frameIds) return true;
+  return entry.frameIds.includes(frameId);
+};
+
+/**
+ * Human-readable entry label, e.g. "Levels · selection · frames 2-5".
+ * Frame numbers are looked up from the current frame order.
+ */
+export const describeEffectStackEntry = (entry: EffectStackEntry, frames: Frame[]): string => {
+  const effectName = EFFECT_DEFINITIONS.find(def => def.id === entry.effectType)?.name ?? entry.effectType;
+  const name = entry.mask ? `${effectName} · selection` : effectName;
+  if (!entry.frameIds) return name;
+
+  const frameIds = new Set(entry.frameIds);
+  const indices = frames.flatMap((frame, index) => (frameIds.has(frame.id) ? [index] : []));
+  if (indices.length === 0) return `${name} · no frames`;
+
+  const start = indices[0];
+  const end = indices[indices.length - 1];
+  if (start === end) return `${name} · frame ${start + 1}`;
+  return end - start + 1 === indices.length
+    ? `${name} · frames ${start + 1}-${end + 1}`
+    : `${name} · ${indices.length} frames`;
+};
+
+/**
+ * Apply every active stack entry to a frame's cells, in stack order.
+ * Returns the input map untouched when no entry applies.
+ */
+export const applyEffectStack = (
+  cells: Map<string, Cell>,
+  stack: EffectStackEntry[],
+  frameId: FrameId,
+  canvasBackgroundColor: string
+): Map<string, Cell> => {
+  let result = cells;
+
+  for (const entry of stack) {
+    if (!isEffectStackEntryActive(entry, frameId)) continue;
+
+    try {
+      const processed = applyEffectToCells(entry.effectType, result, entry.effectSettings, canvasBackgroundColor).processedCells;
+      result = entry.mask ? applySelectionMask(result, processed, getEntryMaskWeights(entry.mask)) : processed;
+    } catch (error) {
+      // A broken entry should not stop the rest of the stack from rendering
+      console.error(`Effect stack entry ${entry.id} failed:`, error);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Apply the stack to flattened export frames (see `toExportFrame`).
+ * Layer data is dropped from processed frames since `data` now holds the final output.
+ */
+export const applyEffectStackToFrames = (
+  frames: Frame[],
+  stack: EffectStackEntry[],
+  canvasBackgroundColor: string
+): Frame[] => {
+  if (!stack.some(entry => entry.enabled)) return frames;
+
+  return frames.map(frame => {
+    const data = applyEffectStack(frame.data, stack, frame.id, canvasBackgroundColor);
+    if (data === frame.data) return frame;
+
+    return { ...frame, data, layers: undefined, activeLayerId: undefined };
+  });
+};
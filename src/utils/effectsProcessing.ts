@@ -8,6 +8,7 @@
 import type { Cell, Frame } from '../types';
 import type {
   EffectType,
+  EffectSettings,
   LevelsEffectSettings,
   HueSaturationEffectSettings,
   RemapColorsEffectSettings,
@@ -60,6 +61,32 @@ export function mapCanvasColorsToPalette(
   return mappings;
 }
 
+/**
+ * Synchronously apply an effect to canvas data.
+ * Used wherever effects are evaluated at render time (effect stack) as well as by processEffect.
+ */
+export function applyEffectToCells(
+  effectType: EffectType,
+  cells: Map<string, Cell>,
+  settings: EffectSettings,
+  canvasBackgroundColor: string = '#000000'
+): { processedCells: Map<string, Cell>, affectedCells: number } {
+  switch (effectType) {
+    case 'levels':
+      return processLevelsEffect(cells, settings as LevelsEffectSettings);
+    case 'hue-saturation':
+      return processHueSaturationEffect(cells, settings as HueSaturationEffectSettings);
+    case 'remap-colors':
+      return processRemapColorsEffect(cells, settings as RemapColorsEffectSettings);
+    case 'remap-characters':
+      return processRemapCharactersEffect(cells, settings as RemapCharactersEffectSettings);
+    case 'scatter':
+      return processScatterEffect(cells, settings as ScatterEffectSettings, canvasBackgroundColor);
+    default:
+      throw new Error(`Unknown effect type: ${effectType}`);
+  }
+}
+
 /**
  * Main effect processing function - applies an effect to canvas data
  */
@@ -72,48 +99,7 @@ export async function processEffect(
   const startTime = performance.now();
   
   try {
-    let processedCells: Map<string, Cell> | null = null;
-    let affectedCells = 0;
-
-    switch (effectType) {
-      case 'levels': {
-        const result = await processLevelsEffect(cells, settings as LevelsEffectSettings);
-        processedCells = result.processedCells;
-        affectedCells = result.affectedCells;
-        break;
-      }
-        
-      case 'hue-saturation': {
-        const hsResult = await processHueSaturationEffect(cells, settings as HueSaturationEffectSettings);
-        processedCells = hsResult.processedCells;
-        affectedCells = hsResult.affectedCells;
-        break;
-      }
-        
-      case 'remap-colors': {
-        const rcResult = await processRemapColorsEffect(cells, settings as RemapColorsEffectSettings);
-        processedCells = rcResult.processedCells;
-        affectedCells = rcResult.affectedCells;
-        break;
-      }
-        
-      case 'remap-characters': {
-        const rchResult = await processRemapCharactersEffect(cells, settings as RemapCharactersEffectSettings);
-        processedCells = rchResult.processedCells;
-        affectedCells = rchResult.affectedCells;
-        break;
-      }
-      
-      case 'scatter': {
-        const scatterResult = await processScatterEffect(cells, settings as ScatterEffectSettings, canvasBackgroundColor);
-        processedCells = scatterResult.processedCells;
-        affectedCells = scatterResult.affectedCells;
-        break;
-      }
-        
-      default:
-        throw new Error(`Unknown effect type: ${effectType}`);
-    }
+    const { processedCells, affectedCells } = applyEffectToCells(effectType, cells, settings, canvasBackgroundColor);
 
     const processingTime = performance.now() - startTime;
 
@@ -192,10 +178,10 @@ export async function processEffectOnFrames(
 /**
  * Levels Effect Processing
  */
-async function processLevelsEffect(
+function processLevelsEffect(
   cells: Map<string, Cell>,
   settings: LevelsEffectSettings
-): Promise<{ processedCells: Map<string, Cell>, affectedCells: number }> {
+): { processedCells: Map<string, Cell>, affectedCells: number } {
   const processedCells = new Map<string, Cell>();
   let affectedCells = 0;
 
@@ -254,10 +240,10 @@ async function processLevelsEffect(
 /**
  * Hue & Saturation Effect Processing
  */
-async function processHueSaturationEffect(
+function processHueSaturationEffect(
   cells: Map<string, Cell>,
   settings: HueSaturationEffectSettings
-): Promise<{ processedCells: Map<string, Cell>, affectedCells: number }> {
+): { processedCells: Map<string, Cell>, affectedCells: number } {
   const processedCells = new Map<string, Cell>();
   let affectedCells = 0;
 
@@ -295,10 +281,10 @@ async function processHueSaturationEffect(
 /**
  * Remap Colors Effect Processing
  */
-async function processRemapColorsEffect(
+function processRemapColorsEffect(
   cells: Map<string, Cell>,
   settings: RemapColorsEffectSettings
-): Promise<{ processedCells: Map<string, Cell>, affectedCells: number }> {
+): { processedCells: Map<string, Cell>, affectedCells: number } {
   const processedCells = new Map<string, Cell>();
   let affectedCells = 0;
 
@@ -336,10 +322,10 @@ async function processRemapColorsEffect(
 /**
  * Remap Characters Effect Processing
  */
-async function processRemapCharactersEffect(
+function processRemapCharactersEffect(
   cells: Map<string, Cell>,
   settings: RemapCharactersEffectSettings
-): Promise<{ processedCells: Map<string, Cell>, affectedCells: number }> {
+): { processedCells: Map<string, Cell>, affectedCells: number } {
   const processedCells = new Map<string, Cell>();
   let affectedCells = 0;
 
@@ -590,11 +576,11 @@ function hslToHex(h: number, s: number, l: number): string {
  * Scatter Effect Processing
  * Randomly scatters cells based on various patterns
  */
-async function processScatterEffect(
+function processScatterEffect(
   cells: Map<string, Cell>,
   settings: ScatterEffectSettings,
   canvasBackgroundColor: string = '#000000'
-): Promise<{ processedCells: Map<string, Cell>, affectedCells: number }> {
+): { processedCells: Map<string, Cell>, affectedCells: number } {
   const processedCells = new Map<string, Cell>();
   const { strength, scatterType, seed, blendColors } = settings;
   
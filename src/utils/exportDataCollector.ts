@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import type { ExportDataBundle } from '../types/export';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useAnimationStore } from '../stores/animationStore';
@@ -8,6 +9,10 @@ import { usePaletteStore } from '../stores/paletteStore';
 import { VERSION, BUILD_DATE, BUILD_HASH } from '../constants/version';
 import { useCharacterPaletteStore } from '../stores/characterPaletteStore';
 import { useProjectMetadataStore } from '../stores/projectMetadataStore';
+import { useEffectsStore } from '../stores/effectsStore';
+import { toExportFrame } from './layerUtils';
+import { collectSessionToolPresets } from './sessionToolPresets';
+import { applyEffectStackToFrames } from './effectStack';
 
 /**
  * Collects all data needed for export operations
@@ -71,6 +76,10 @@ export class ExportDataCollector {
       projectDescription
     } = projectMetadataStore;
 
+    // Get effect stack
+    const { effectStack } = useEffectsStore.getState();
+    const sourceFrames = frames.map(toExportFrame); // Flattened copies with resolved layers
+
     // Get UI context data (we'll need to pass this in since we can't use hooks here)
     // This will be handled by the calling component
 
@@ -86,10 +95,8 @@ export class ExportDataCollector {
       },
       
       // Animation data
-      frames: frames.map(frame => ({
-        ...frame,
-        data: new Map(frame.data) // Deep copy frame data
-      })),
+      frames: applyEffectStackToFrames(sourceFrames, effectStack, canvasBackgroundColor),
+      sourceFrames,
       currentFrameIndex,
       frameRate,
       looping,
@@ -152,7 +159,13 @@ export class ExportDataCollector {
         mappingMethod,
         invertDensity,
         characterSpacing
-      }
+      },
+
+      // Tool presets
+      toolPresets: collectSessionToolPresets(),
+
+      // Effect stack
+      effectStack: effectStack.map(entry => ({ ...entry }))
     };
   }
 }
@@ -199,6 +212,14 @@ export const useExportDataCollector = (): ExportDataBundle => {
   const invertCharacterDensity = useCharacterPaletteStore(state => state.invertDensity);
   const characterSpacingSetting = useCharacterPaletteStore(state => state.characterSpacing);
 
+  // Flattened copies with resolved layers, then the effect stack applied for rendering
+  const effectStack = useEffectsStore(state => state.effectStack);
+  const sourceFrames = useMemo(() => frames.map(toExportFrame), [frames]);
+  const renderedFrames = useMemo(
+    () => applyEffectStackToFrames(sourceFrames, effectStack, canvasBackgroundColor),
+    [sourceFrames, effectStack, canvasBackgroundColor]
+  );
+
   // Get project metadata
   const projectName = useProjectMetadataStore(state => state.projectName);
   const projectDescription = useProjectMetadataStore(state => state.projectDescription);
@@ -206,7 +227,7 @@ export const useExportDataCollector = (): ExportDataBundle => {
   // Get canvas context data
   const {
     zoom,
-    panOffset,
+    basePanOffset: panOffset,
     fontMetrics,
     fontSize,
     characterSpacing,
@@ -233,10 +254,8 @@ export const useExportDataCollector = (): ExportDataBundle => {
     },
     
     // Animation data
-    frames: frames.map(frame => ({
-      ...frame,
-      data: new Map(frame.data) // Deep copy frame data
-    })),
+    frames: renderedFrames,
+    sourceFrames,
     currentFrameIndex,
     frameRate,
     looping,
@@ -291,7 +310,11 @@ export const useExportDataCollector = (): ExportDataBundle => {
       mappingMethod: characterMappingMethod,
       invertDensity: invertCharacterDensity,
       characterSpacing: characterSpacingSetting
-    }
+    },
+
+    toolPresets: collectSessionToolPresets(),
+
+    effectStack: effectStack.map(entry => ({ ...entry }))
   };
 };
 
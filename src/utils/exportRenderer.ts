@@ -1,21 +1,32 @@
-import { saveAs } from 'file-saver';
+import FileSaver from 'file-saver';
 import type { Font } from 'opentype.js';
 import type { 
   ExportDataBundle, 
   ImageExportSettings, 
   VideoExportSettings, 
+  GifExportSettings,
+  SpriteSheetExportSettings,
   SessionExportSettings,
   TextExportSettings,
+  AnsiExportSettings,
   JsonExportSettings,
   HtmlExportSettings,
   ReactExportSettings,
-  ExportProgress 
+  SvgExportSettings,
+  ExportProgress,
+  RenderedExport
 } from '../types/export';
 import type { Cell } from '../types';
 import type { TypographySettings } from './canvasSizeConversion';
 import type { FontMetrics } from './fontMetrics';
 import { setupTextRendering } from './canvasTextRendering';
+import { buildSessionData } from './sessionFormat';
+import { GifEncoder, buildGifPalette } from './gifEncoder';
+import { encodeAnsiAnimation, encodeAnsiShellScript } from './ansiFormat';
 import { calculateAdaptiveGridColor } from './gridColor';
+import { indexFrameRows, rowToText } from './frameRows';
+import { buildSpriteSheetMetadata, getFrameCellBounds, getSpriteNames, layoutSpriteSheet } from './spriteSheet';
+import type { SpriteSheetSprite } from './spriteSheet';
 import { 
   generateSvgHeader, 
   generateSvgGrid, 
@@ -24,6 +35,13 @@ import {
   minifySvg
 } from './svgExportUtils';
 
+// Default import keeps the module loadable from Node ESM (file-saver is CommonJS), see src/cli
+const { saveAs } = FileSaver;
+
+// Browser canvas limits; export scale is reduced so large canvases stay within them
+const MAX_EXPORT_CANVAS_DIMENSION = 16384;
+const MAX_EXPORT_CANVAS_AREA = 268435456;
+
 interface JsonExportFrameColors {
   foreground?: Record<string, string> | string;
   background?: Record<string, string> | string;
@@ -68,7 +86,7 @@ interface JsonExportStructure {
 
 /**
  * High-quality export renderer for ASCII Motion
- * Handles image (PNG/JPEG/SVG), MP4, and Session exports with optimal quality settings
+ * Handles image (PNG/JPEG/SVG), MP4, GIF, and Session exports with optimal quality settings
  */
 export class ExportRenderer {
   private progressCallback?: (progress: ExportProgress) => void;
@@ -90,18 +108,9 @@ export class ExportRenderer {
     try {
       const currentFrame = data.frames[data.currentFrameIndex]?.data || data.canvasData;
 
-      const exportCanvas = this.createExportCanvas(
-        data.canvasDimensions.width,
-        data.canvasDimensions.height,
-        settings.sizeMultiplier,
-        data.fontMetrics,
-        data.typography
-      );
-
       this.updateProgress('Rendering canvas...', 30);
 
-      await this.renderFrame(
-        exportCanvas.canvas,
+      const blob = await this.renderImageBlob(
         currentFrame,
         data.canvasDimensions.width,
         data.canvasDimensions.height,
@@ -112,16 +121,11 @@ export class ExportRenderer {
           typography: data.typography,
           sizeMultiplier: settings.sizeMultiplier,
           theme: data.uiState.theme,
-          scale: exportCanvas.scale
+          mimeType: settings.format === 'jpg' ? 'image/jpeg' : 'image/png',
+          quality: settings.format === 'jpg' ? Math.min(Math.max(settings.quality, 10), 100) / 100 : undefined
         }
       );
 
-      this.updateProgress('Converting to image...', 70);
-
-      const mimeType = settings.format === 'jpg' ? 'image/jpeg' : 'image/png';
-      const quality = settings.format === 'jpg' ? Math.min(Math.max(settings.quality, 10), 100) / 100 : undefined;
-      const blob = await this.canvasToBlob(exportCanvas.canvas, mimeType, quality);
-
       this.updateProgress('Saving file...', 90);
 
       const extension = settings.format === 'jpg' ? 'jpg' : 'png';
@@ -134,6 +138,43 @@ export class ExportRenderer {
     }
   }
 
+  /**
+   * Render a grid of cells to an image blob (PNG unless another mime type is given)
+   * Shared by the image export and rich clipboard copies
+   */
+  async renderImageBlob(
+    frameData: Map<string, Cell>,
+    gridWidth: number,
+    gridHeight: number,
+    options: {
+      backgroundColor: string;
+      showGrid: boolean;
+      fontMetrics: FontMetrics;
+      typography: TypographySettings;
+      sizeMultiplier: number;
+      theme: 'light' | 'dark';
+      mimeType?: string;
+      quality?: number;
+    }
+  ): Promise<Blob> {
+    const { mimeType = 'image/png', quality, ...renderOptions } = options;
+
+    const exportCanvas = this.createExportCanvas(
+      gridWidth,
+      gridHeight,
+      renderOptions.sizeMultiplier,
+      renderOptions.fontMetrics,
+      renderOptions.typography
+    );
+
+    await this.renderFrame(exportCanvas.canvas, frameData, gridWidth, gridHeight, {
+      ...renderOptions,
+      scale: exportCanvas.scale
+    });
+
+    return this.canvasToBlob(exportCanvas.canvas, mimeType, quality);
+  }
+
   /**
    * Export current frame as SVG (Scalable Vector Graphics)
    */
@@ -144,25 +185,43 @@ export class ExportRenderer {
   ): Promise<void> {
     this.updateProgress('Preparing SVG export...', 0);
 
+    const svgSettings = settings.svgSettings!;
+
+    // Load font if text-as-outlines is enabled
+    let font: Font | undefined;
+    if (svgSettings.textAsOutlines) {
+      this.updateProgress('Loading font for outlines...', 5);
+      const { fontLoader } = await import('./font/fontLoader');
+      const fontId = svgSettings.outlineFont || 'jetbrains-mono';
+      
+      try {
+        const loadedFont = await fontLoader.loadFont(fontId, { cache: true, timeout: 10000 });
+        font = loadedFont.font;
+      } catch {
+        // Font loading failed, will fall back to pixel tracing
+        font = undefined;
+      }
+    }
+
+    const output = this.renderSvg(data, svgSettings, filename, font);
+
+    this.updateProgress('Saving file...', 95);
+    this.saveRenderedExport(output);
+    this.updateProgress('Export complete!', 100);
+  }
+
+  /**
+   * Render the current frame as an SVG document (no DOM required).
+   * Outlines need a loaded font; without one, text elements or pixel tracing are used.
+   */
+  renderSvg(
+    data: ExportDataBundle,
+    svgSettings: SvgExportSettings,
+    filename: string,
+    font?: Font
+  ): RenderedExport {
     try {
       const currentFrame = data.frames[data.currentFrameIndex]?.data || data.canvasData;
-      const svgSettings = settings.svgSettings!;
-
-      // Load font if text-as-outlines is enabled
-      let font: Font | undefined;
-      if (svgSettings.textAsOutlines) {
-        this.updateProgress('Loading font for outlines...', 5);
-        const { fontLoader } = await import('./font/fontLoader');
-        const fontId = svgSettings.outlineFont || 'jetbrains-mono';
-        
-        try {
-          const loadedFont = await fontLoader.loadFont(fontId, { cache: true, timeout: 10000 });
-          font = loadedFont.font;
-        } catch {
-          // Font loading failed, will fall back to pixel tracing
-          font = undefined;
-        }
-      }
 
       // Calculate dimensions using typography settings
       const actualFontSize = data.typography?.fontSize || data.fontMetrics?.fontSize || 16;
@@ -274,13 +333,7 @@ export class ExportRenderer {
         svg = minifySvg(svg);
       }
 
-      this.updateProgress('Saving file...', 95);
-
-      // Create blob and download
-      const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
-      saveAs(blob, `${filename}.svg`);
-
-      this.updateProgress('Export complete!', 100);
+      return { filename: `${filename}.svg`, content: svg, mimeType: 'image/svg+xml;charset=utf-8' };
     } catch (error) {
       console.error('SVG export failed:', error);
       throw new Error(`SVG export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -323,6 +376,223 @@ export class ExportRenderer {
     }
   }
 
+  /**
+   * Export animation as an animated GIF
+   * Each frame keeps its own duration; colors are reduced to a shared palette
+   */
+  async exportGif(
+    data: ExportDataBundle,
+    settings: GifExportSettings,
+    filename: string
+  ): Promise<void> {
+    this.updateProgress('Preparing GIF export...', 0);
+
+    try {
+      if (data.frames.length === 0) {
+        throw new Error('No frames to export');
+      }
+
+      const frameCount = data.frames.length;
+      const framePixels: Uint8ClampedArray[] = [];
+      let outputWidth = 0;
+      let outputHeight = 0;
+
+      for (let index = 0; index < frameCount; index++) {
+        const exportCanvas = this.createExportCanvas(
+          data.canvasDimensions.width,
+          data.canvasDimensions.height,
+          settings.sizeMultiplier,
+          data.fontMetrics,
+          data.typography
+        );
+
+        await this.renderFrame(
+          exportCanvas.canvas,
+          data.frames[index].data,
+          data.canvasDimensions.width,
+          data.canvasDimensions.height,
+          {
+            backgroundColor: data.canvasBackgroundColor,
+            showGrid: settings.includeGrid && data.showGrid,
+            fontMetrics: data.fontMetrics,
+            typography: data.typography,
+            sizeMultiplier: settings.sizeMultiplier,
+            theme: data.uiState.theme,
+            scale: exportCanvas.scale
+          }
+        );
+
+        // Sample down from the high-DPI render so GIF dimensions match the chosen size
+        const pixelCanvas = this.downscaleCanvas(exportCanvas.canvas, exportCanvas.scale);
+        outputWidth = pixelCanvas.width;
+        outputHeight = pixelCanvas.height;
+
+        const pixelCtx = pixelCanvas.getContext('2d');
+        if (!pixelCtx) {
+          throw new Error('Failed to create canvas context');
+        }
+        framePixels.push(pixelCtx.getImageData(0, 0, outputWidth, outputHeight).data);
+
+        // Clean up canvases
+        exportCanvas.canvas.width = 0;
+        exportCanvas.canvas.height = 0;
+        pixelCanvas.width = 0;
+        pixelCanvas.height = 0;
+
+        this.updateProgress(`Rendering frame ${index + 1}/${frameCount}...`, 5 + ((index + 1) / frameCount) * 40);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      this.updateProgress('Building color palette...', 50);
+
+      const palette = buildGifPalette(framePixels, settings.colors);
+      const encoder = new GifEncoder({
+        width: outputWidth,
+        height: outputHeight,
+        palette,
+        repeat: this.getGifRepeatCount(settings.loops)
+      });
+
+      for (let index = 0; index < frameCount; index++) {
+        encoder.addFrame(framePixels[index], data.frames[index].duration, settings.dithering);
+        this.updateProgress(`Encoding frame ${index + 1}/${frameCount}...`, 55 + ((index + 1) / frameCount) * 35);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      const bytes = encoder.finish();
+
+      this.updateProgress('Saving file...', 95);
+
+      const blob = new Blob([bytes], { type: 'image/gif' });
+      saveAs(blob, `${filename}.gif`);
+
+      this.updateProgress('Export complete!', 100);
+    } catch (error) {
+      console.error('GIF export failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Export all frames as a PNG sprite sheet with an Aseprite-style JSON sidecar
+   */
+  async exportSpriteSheet(
+    data: ExportDataBundle,
+    settings: SpriteSheetExportSettings,
+    filename: string
+  ): Promise<void> {
+    this.updateProgress('Preparing sprite sheet export...', 0);
+
+    try {
+      if (data.frames.length === 0) {
+        throw new Error('No frames to export');
+      }
+
+      const { width: gridWidth, height: gridHeight } = data.canvasDimensions;
+      const frameCount = data.frames.length;
+      const names = getSpriteNames(data.frames.map(frame => frame.name));
+      const frameCanvases: HTMLCanvasElement[] = [];
+      const sprites: SpriteSheetSprite[] = [];
+
+      for (let index = 0; index < frameCount; index++) {
+        const frame = data.frames[index];
+        const exportCanvas = this.createExportCanvas(
+          gridWidth,
+          gridHeight,
+          settings.sizeMultiplier,
+          data.fontMetrics,
+          data.typography
+        );
+
+        await this.renderFrame(exportCanvas.canvas, frame.data, gridWidth, gridHeight, {
+          backgroundColor: settings.includeBackground ? data.canvasBackgroundColor : 'transparent',
+          showGrid: settings.includeGrid && data.showGrid,
+          fontMetrics: data.fontMetrics,
+          typography: data.typography,
+          sizeMultiplier: settings.sizeMultiplier,
+          theme: data.uiState.theme,
+          scale: exportCanvas.scale
+        });
+
+        // Atlas coordinates are in output pixels, so sample down from the high-DPI render
+        const pixelCanvas = this.downscaleCanvas(exportCanvas.canvas, exportCanvas.scale);
+        exportCanvas.canvas.width = 0;
+        exportCanvas.canvas.height = 0;
+
+        const frameSize = { w: pixelCanvas.width, h: pixelCanvas.height };
+        let source = { x: 0, y: 0, ...frameSize };
+
+        // Packed sheets trim each frame to its content; blank frames keep their full size
+        const bounds = settings.layout === 'packed' ? getFrameCellBounds(frame.data, gridWidth, gridHeight) : null;
+        if (bounds) {
+          const cellWidth = frameSize.w / gridWidth;
+          const cellHeight = frameSize.h / gridHeight;
+          const x = Math.round(bounds.minX * cellWidth);
+          const y = Math.round(bounds.minY * cellHeight);
+          source = {
+            x,
+            y,
+            w: Math.max(1, Math.min(frameSize.w, Math.round((bounds.maxX + 1) * cellWidth)) - x),
+            h: Math.max(1, Math.min(frameSize.h, Math.round((bounds.maxY + 1) * cellHeight)) - y)
+          };
+        }
+
+        frameCanvases.push(pixelCanvas);
+        sprites.push({ name: names[index], duration: frame.duration, source, frameSize });
+
+        this.updateProgress(`Rendering frame ${index + 1}/${frameCount}...`, 5 + ((index + 1) / frameCount) * 70);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      this.updateProgress('Packing sprite sheet...', 80);
+
+      const layout = layoutSpriteSheet(sprites, settings);
+      if (layout.width > MAX_EXPORT_CANVAS_DIMENSION || layout.height > MAX_EXPORT_CANVAS_DIMENSION) {
+        throw new Error(`Sprite sheet is too large (${layout.width}x${layout.height}). Try fewer columns, a smaller resolution or the packed layout.`);
+      }
+
+      const sheetCanvas = document.createElement('canvas');
+      sheetCanvas.width = layout.width;
+      sheetCanvas.height = layout.height;
+      const sheetCtx = sheetCanvas.getContext('2d');
+      if (!sheetCtx) {
+        throw new Error('Failed to create canvas context');
+      }
+
+      sprites.forEach((sprite, index) => {
+        const { source } = sprite;
+        const position = layout.positions[index];
+        sheetCtx.drawImage(frameCanvases[index], source.x, source.y, source.w, source.h, position.x, position.y, source.w, source.h);
+
+        // Clean up frame canvases
+        frameCanvases[index].width = 0;
+        frameCanvases[index].height = 0;
+      });
+
+      this.updateProgress('Encoding PNG...', 90);
+
+      const imageBlob = await this.canvasToBlob(sheetCanvas, 'image/png');
+      sheetCanvas.width = 0;
+      sheetCanvas.height = 0;
+
+      const metadata = buildSpriteSheetMetadata(sprites, layout, {
+        imageName: `${filename}.png`,
+        appVersion: data.metadata.version,
+        format: settings.metadataFormat
+      });
+
+      this.updateProgress('Saving files...', 95);
+
+      saveAs(imageBlob, `${filename}.png`);
+      saveAs(new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }), `${filename}.json`);
+
+      this.updateProgress('Export complete!', 100);
+    } catch (error) {
+      console.error('Sprite sheet export failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Export complete session as JSON file
    */
@@ -337,68 +607,7 @@ export class ExportRenderer {
       this.updateProgress('Serializing data...', 30);
 
       // Create session data structure
-      const sessionData = {
-        version: '1.0.0',
-        name: data.metadata.projectName || data.name || 'Untitled Project',
-        description: data.metadata.projectDescription || data.description,
-        metadata: settings.includeMetadata ? {
-          exportedAt: new Date().toISOString(),
-          exportVersion: '1.0.0',
-          userAgent: navigator.userAgent
-        } : undefined,
-        canvas: {
-          width: data.canvasDimensions.width,
-          height: data.canvasDimensions.height,
-          canvasBackgroundColor: data.canvasBackgroundColor,
-          showGrid: data.showGrid
-        },
-        animation: {
-          frames: data.frames.map(frame => ({
-            id: frame.id,
-            name: frame.name,
-            duration: frame.duration,
-            data: Object.fromEntries(frame.data.entries())
-          })),
-          currentFrameIndex: data.currentFrameIndex,
-          frameRate: data.frameRate,
-          looping: data.looping
-        },
-        tools: {
-          activeTool: data.toolState.activeTool,
-          selectedCharacter: data.toolState.selectedCharacter,
-          selectedColor: data.toolState.selectedColor,
-          selectedBgColor: data.toolState.selectedBgColor,
-          paintBucketContiguous: data.toolState.paintBucketContiguous,
-          rectangleFilled: data.toolState.rectangleFilled
-        },
-        ui: {
-          theme: data.uiState.theme,
-          zoom: data.uiState.zoom,
-          panOffset: data.uiState.panOffset,
-          fontMetrics: data.fontMetrics
-        },
-        typography: {
-          fontSize: data.typography.fontSize,
-          characterSpacing: data.typography.characterSpacing,
-          lineSpacing: data.typography.lineSpacing,
-          selectedFontId: data.typography.selectedFontId
-        },
-        palettes: data.paletteState ? {
-          activePaletteId: data.paletteState.activePaletteId,
-          customPalettes: data.paletteState.customPalettes,
-          recentColors: data.paletteState.recentColors
-        } : undefined,
-        characterPalettes: data.characterPaletteState ? {
-          activePaletteId: data.characterPaletteState.activePaletteId,
-          customPalettes: data.characterPaletteState.customPalettes.map(palette => ({
-            ...palette,
-            characters: [...palette.characters]
-          })),
-          mappingMethod: data.characterPaletteState.mappingMethod,
-          invertDensity: data.characterPaletteState.invertDensity,
-          characterSpacing: data.characterPaletteState.characterSpacing
-        } : undefined
-      };
+      const sessionData = buildSessionData(data, { includeMetadata: settings.includeMetadata });
 
       this.updateProgress('Converting to JSON...', 70);
 
@@ -428,6 +637,21 @@ export class ExportRenderer {
   ): Promise<void> {
     this.updateProgress('Preparing text export...', 0);
 
+    const output = this.renderText(data, settings, filename);
+
+    this.updateProgress('Saving file...', 95);
+    this.saveRenderedExport(output);
+    this.updateProgress('Export complete!', 100);
+  }
+
+  /**
+   * Render animation frames as simple text (no DOM required)
+   */
+  renderText(
+    data: ExportDataBundle, 
+    settings: TextExportSettings, 
+    filename: string
+  ): RenderedExport {
     try {
       this.updateProgress('Processing frames...', 20);
 
@@ -458,32 +682,20 @@ export class ExportRenderer {
 
         this.updateProgress(`Processing frame ${frameIndex + 1}...`, 20 + (frameIndex / data.frames.length) * 60);
 
-        // Convert frame to 2D array of characters
-        const grid: string[][] = [];
-        for (let y = 0; y < data.canvasDimensions.height; y++) {
-          grid[y] = [];
-          for (let x = 0; x < data.canvasDimensions.width; x++) {
-            const cellKey = `${x},${y}`;
-            const cell = frameData.get(cellKey);
-            grid[y][x] = cell?.char || ' '; // Use space for empty cells
-          }
-        }
-
-        // Apply cropping settings
-        const processedGrid = this.cropGrid(grid, settings);
+        // Index cells by row so lines are built one at a time without a full grid
+        const { width, height } = data.canvasDimensions;
+        const rowIndex = indexFrameRows(frameData, width, height);
+        const bounds = this.getTextCropBounds(rowIndex.contentBounds, height, settings);
 
-        // Convert grid to text lines
-        const frameTextLines = processedGrid.map(row => {
-          let line = row.join('');
+        // Convert rows to text lines
+        for (let y = bounds.startY; y < bounds.endY; y++) {
+          let line = rowToText(rowIndex.rows.get(y), bounds.startX, width);
           // Apply trailing space removal if enabled
           if (settings.removeTrailingSpaces) {
             line = line.replace(/\s+$/, '');
           }
-          return line;
-        });
-
-        // Add frame text to output
-        textLines.push(...frameTextLines);
+          textLines.push(line);
+        }
 
         // Add frame separator (except for last frame)
         if (frameIndex < data.frames.length - 1) {
@@ -495,15 +707,10 @@ export class ExportRenderer {
 
       this.updateProgress('Creating text file...', 90);
 
-      // Join all lines with newlines and create blob
+      // Join all lines with newlines
       const textContent = textLines.join('\n');
-      const blob = new Blob([textContent], { type: 'text/plain; charset=utf-8' });
       
-      this.updateProgress('Saving file...', 95);
-      
-      saveAs(blob, `${filename}.txt`);
-      
-      this.updateProgress('Export complete!', 100);
+      return { filename: `${filename}.txt`, content: textContent, mimeType: 'text/plain; charset=utf-8' };
     } catch (error) {
       console.error('Text export failed:', error);
       throw new Error(`Text export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -511,137 +718,91 @@ export class ExportRenderer {
   }
 
   /**
-   * Export project data as human-readable JSON
+   * Export animation frames as ANSI escape sequences (.ans) or a bash player script (.sh)
    */
-  async exportJson(
-    data: ExportDataBundle, 
-    settings: JsonExportSettings, 
+  async exportAnsi(
+    data: ExportDataBundle,
+    settings: AnsiExportSettings,
     filename: string
   ): Promise<void> {
-    this.updateProgress('Preparing JSON export...', 0);
+    this.updateProgress('Preparing ANSI export...', 0);
 
-    try {
-      this.updateProgress('Serializing project data...', 30);
-
-      // Create frames with text content and separate color data
-      const frames: JsonExportFrameEntry[] = [];
+    const output = this.renderAnsi(data, settings, filename);
 
-      data.frames.forEach((frame, index) => {
-        this.updateProgress(`Processing frame ${index + 1}...`, 30 + (index / data.frames.length) * 40);
-        
-        // Build frame content as text lines
-        const lines: string[] = [];
-        const foregroundColors: { [key: string]: string } = {};
-        const backgroundColors: { [key: string]: string } = {};
-
-        // Process each row
-        for (let y = 0; y < data.canvasDimensions.height; y++) {
-          let line = '';
-          
-          for (let x = 0; x < data.canvasDimensions.width; x++) {
-            const cellKey = `${x},${y}`;
-            const cell = frame.data.get(cellKey);
-            
-            const character = cell?.char || ' ';
-            const fgColor = cell?.color || '#FFFFFF';
-            const bgColor = cell?.bgColor || 'transparent';
-
-            // Add character to line
-            line += character;
-
-            // Store color data only for non-empty/non-space cells
-            if (character !== ' ' && character !== '') {
-              if (fgColor !== '#FFFFFF') {
-                foregroundColors[`${x},${y}`] = fgColor;
-              }
-              if (bgColor !== 'transparent' && bgColor !== '#000000') {
-                backgroundColors[`${x},${y}`] = bgColor;
-              }
-            }
-          }
-          
-          // Remove trailing spaces from line
-          lines.push(line.replace(/\s+$/, ''));
-        }
+    this.updateProgress('Saving file...', 95);
+    this.saveRenderedExport(output);
+    this.updateProgress('Export complete!', 100);
+  }
 
-        // Remove trailing empty lines
-        while (lines.length > 0 && lines[lines.length - 1] === '') {
-          lines.pop();
-        }
+  /**
+   * Render animation frames as ANSI escape sequences or a bash player script (no DOM required)
+   */
+  renderAnsi(
+    data: ExportDataBundle,
+    settings: AnsiExportSettings,
+    filename: string
+  ): RenderedExport {
+    try {
+      if (data.frames.length === 0) {
+        throw new Error('No frames to export');
+      }
 
-        const contentLines = [...lines];
-        const joinedContent = contentLines.join('\n');
-        const content = settings.humanReadable ? contentLines : joinedContent;
+      this.updateProgress('Encoding frames...', 30);
 
-        const frameEntry: JsonExportFrameEntry = {
-          title: `Frame ${index}`,
-          duration: frame.duration,
-          content
-        };
+      const encodeOptions = {
+        width: data.canvasDimensions.width,
+        height: data.canvasDimensions.height,
+        colorMode: settings.colorMode,
+        backgroundColor: settings.includeBackground ? data.canvasBackgroundColor : undefined
+      };
 
-        if (settings.humanReadable) {
-          frameEntry.contentString = joinedContent;
-        }
+      const content = settings.output === 'sh'
+        ? encodeAnsiShellScript(data.frames, {
+            ...encodeOptions,
+            loop: settings.loop,
+            title: data.metadata.projectName || data.name
+          })
+        : encodeAnsiAnimation(data.frames.map(frame => frame.data), {
+            ...encodeOptions,
+            cursorHome: settings.cursorHome && data.frames.length > 1
+          });
 
-        const colorEntries: JsonExportFrameColors = {};
-        let hasColorData = false;
+      const mimeType = settings.output === 'sh' ? 'text/x-shellscript' : 'text/plain';
 
-        if (Object.keys(foregroundColors).length > 0) {
-          colorEntries.foreground = settings.humanReadable
-            ? JSON.stringify(foregroundColors)
-            : foregroundColors;
-          hasColorData = true;
-        }
+      return { filename: `${filename}.${settings.output}`, content, mimeType: `${mimeType};charset=utf-8` };
+    } catch (error) {
+      console.error('ANSI export failed:', error);
+      throw new Error(`ANSI export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-        if (Object.keys(backgroundColors).length > 0) {
-          colorEntries.background = settings.humanReadable
-            ? JSON.stringify(backgroundColors)
-            : backgroundColors;
-          hasColorData = true;
-        }
+  /**
+   * Export project data as human-readable JSON
+   */
+  async exportJson(
+    data: ExportDataBundle, 
+    settings: JsonExportSettings, 
+    filename: string
+  ): Promise<void> {
+    this.updateProgress('Preparing JSON export...', 0);
 
-        if (hasColorData) {
-          frameEntry.colors = colorEntries;
-        }
+    const output = this.renderJson(data, settings, filename);
 
-        frames.push(frameEntry);
-      });
+    this.updateProgress('Saving file...', 95);
+    this.saveRenderedExport(output);
+    this.updateProgress('Export complete!', 100);
+  }
 
-      // Create the final JSON structure
-      const metadata: JsonExportMetadata | undefined = settings.includeMetadata
-        ? {
-            exportedAt: new Date().toISOString(),
-            exportVersion: '1.0.0',
-            appVersion: data.metadata.version,
-            description: data.metadata.projectDescription || 'ASCII Motion Animation - Human Readable Format',
-            title: data.metadata.projectName || filename,
-            frameCount: data.frames.length,
-            canvasSize: {
-              width: data.canvasDimensions.width,
-              height: data.canvasDimensions.height
-            }
-          }
-        : undefined;
-
-      const jsonData: JsonExportStructure = {
-        ...(metadata ? { metadata } : {}),
-        canvas: {
-          width: data.canvasDimensions.width,
-          height: data.canvasDimensions.height,
-          backgroundColor: data.canvasBackgroundColor
-        },
-        typography: {
-          fontSize: data.typography.fontSize,
-          characterSpacing: data.typography.characterSpacing,
-          lineSpacing: data.typography.lineSpacing
-        },
-        animation: {
-          frameRate: data.frameRate,
-          looping: data.looping,
-          currentFrame: data.currentFrameIndex
-        },
-        frames
-      };
+  /**
+   * Render project data as human-readable JSON (no DOM required)
+   */
+  renderJson(
+    data: ExportDataBundle, 
+    settings: JsonExportSettings, 
+    filename: string
+  ): RenderedExport {
+    try {
+      const jsonData = this.buildJsonStructure(data, settings, filename);
 
       this.updateProgress('Converting to JSON...', 80);
 
@@ -650,19 +811,140 @@ export class ExportRenderer {
         ? JSON.stringify(jsonData, null, 2)
         : JSON.stringify(jsonData);
       
-      this.updateProgress('Creating file...', 90);
-
-      // Create blob and download
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      saveAs(blob, `${filename}.json`);
-      
-      this.updateProgress('Export complete!', 100);
+      return { filename: `${filename}.json`, content: jsonString, mimeType: 'application/json' };
     } catch (error) {
       console.error('JSON export failed:', error);
       throw new Error(`JSON export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Build the JSON export structure (also consumed by @ascii-motion/player)
+   */
+  private buildJsonStructure(
+    data: ExportDataBundle,
+    settings: JsonExportSettings,
+    filename: string
+  ): JsonExportStructure {
+    this.updateProgress('Serializing project data...', 30);
+
+    // Create frames with text content and separate color data
+    const frames: JsonExportFrameEntry[] = [];
+
+    data.frames.forEach((frame, index) => {
+      this.updateProgress(`Processing frame ${index + 1}...`, 30 + (index / data.frames.length) * 40);
+      
+      // Build frame content as text lines
+      const lines: string[] = [];
+      const foregroundColors: { [key: string]: string } = {};
+      const backgroundColors: { [key: string]: string } = {};
+
+      // Process each row from the row index (blank rows have no stored cells)
+      const rowIndex = indexFrameRows(frame.data, data.canvasDimensions.width, data.canvasDimensions.height);
+      for (let y = 0; y < data.canvasDimensions.height; y++) {
+        const row = rowIndex.rows.get(y);
+        const line = rowToText(row, 0, data.canvasDimensions.width);
+
+        // Store color data only for non-empty/non-space cells
+        row?.forEach(({ x, cell }) => {
+          const character = cell.char || ' ';
+          const fgColor = cell.color || '#FFFFFF';
+          const bgColor = cell.bgColor || 'transparent';
+
+          if (character !== ' ') {
+            if (fgColor !== '#FFFFFF') {
+              foregroundColors[`${x},${y}`] = fgColor;
+            }
+            if (bgColor !== 'transparent' && bgColor !== '#000000') {
+              backgroundColors[`${x},${y}`] = bgColor;
+            }
+          }
+        });
+        
+        // Remove trailing spaces from line
+        lines.push(line.replace(/\s+$/, ''));
+      }
+
+      // Remove trailing empty lines
+      while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+      }
+
+      const contentLines = [...lines];
+      const joinedContent = contentLines.join('\n');
+      const content = settings.humanReadable ? contentLines : joinedContent;
+
+      const frameEntry: JsonExportFrameEntry = {
+        title: `Frame ${index}`,
+        duration: frame.duration,
+        content
+      };
+
+      if (settings.humanReadable) {
+        frameEntry.contentString = joinedContent;
+      }
+
+      const colorEntries: JsonExportFrameColors = {};
+      let hasColorData = false;
+
+      if (Object.keys(foregroundColors).length > 0) {
+        colorEntries.foreground = settings.humanReadable
+          ? JSON.stringify(foregroundColors)
+          : foregroundColors;
+        hasColorData = true;
+      }
+
+      if (Object.keys(backgroundColors).length > 0) {
+        colorEntries.background = settings.humanReadable
+          ? JSON.stringify(backgroundColors)
+          : backgroundColors;
+        hasColorData = true;
+      }
+
+      if (hasColorData) {
+        frameEntry.colors = colorEntries;
+      }
+
+      frames.push(frameEntry);
+    });
+
+    // Create the final JSON structure
+    const metadata: JsonExportMetadata | undefined = settings.includeMetadata
+      ? {
+          exportedAt: new Date().toISOString(),
+          exportVersion: '1.0.0',
+          appVersion: data.metadata.version,
+          description: data.metadata.projectDescription || 'ASCII Motion Animation - Human Readable Format',
+          title: data.metadata.projectName || filename,
+          frameCount: data.frames.length,
+          canvasSize: {
+            width: data.canvasDimensions.width,
+            height: data.canvasDimensions.height
+          }
+        }
+      : undefined;
+
+    return {
+      ...(metadata ? { metadata } : {}),
+      canvas: {
+        width: data.canvasDimensions.width,
+        height: data.canvasDimensions.height,
+        backgroundColor: data.canvasBackgroundColor
+      },
+      typography: {
+        fontSize: data.typography.fontSize,
+        characterSpacing: data.typography.characterSpacing,
+        lineSpacing: data.typography.lineSpacing
+      },
+      animation: {
+        frameRate: data.frameRate,
+        looping: data.looping,
+        currentFrame: data.currentFrameIndex
+      },
+      frames
+    };
+  }
+
   /**
    * Export animation as standalone HTML file with inline CSS/JS
    */
@@ -673,7 +955,26 @@ export class ExportRenderer {
   ): Promise<void> {
     this.updateProgress('Preparing HTML export...', 0);
 
+    const output = this.renderHtml(data, settings, filename);
+
+    this.updateProgress('Saving file...', 95);
+    this.saveRenderedExport(output);
+    this.updateProgress('Export complete!', 100);
+  }
+
+  /**
+   * Render animation as a standalone HTML document with inline CSS/JS (no DOM required)
+   */
+  renderHtml(
+    data: ExportDataBundle, 
+    settings: HtmlExportSettings, 
+    filename: string
+  ): RenderedExport {
     try {
+      if (settings.playerSource === 'package') {
+        return this.renderPlayerHtml(data, settings, filename);
+      }
+
       this.updateProgress('Generating HTML structure...', 20);
 
       // Prepare frame data as JSON for JavaScript
@@ -682,18 +983,18 @@ export class ExportRenderer {
         const colorGrid: string[][] = [];
         const bgColorGrid: string[][] = [];
         
-        // Initialize grids
-        for (let y = 0; y < data.canvasDimensions.height; y++) {
-          frameGrid[y] = [];
-          colorGrid[y] = [];
-          bgColorGrid[y] = [];
-          for (let x = 0; x < data.canvasDimensions.width; x++) {
-            const cellKey = `${x},${y}`;
-            const cell = frame.data.get(cellKey);
-            frameGrid[y][x] = cell?.char || ' ';
-            colorGrid[y][x] = cell?.color || '#FFFFFF';
-            bgColorGrid[y][x] = cell?.bgColor || 'transparent';
-          }
+        // Initialize grids row by row, filling in only the stored cells
+        const { width, height } = data.canvasDimensions;
+        const rowIndex = indexFrameRows(frame.data, width, height);
+        for (let y = 0; y < height; y++) {
+          frameGrid[y] = new Array<string>(width).fill(' ');
+          colorGrid[y] = new Array<string>(width).fill('#FFFFFF');
+          bgColorGrid[y] = new Array<string>(width).fill('transparent');
+          rowIndex.rows.get(y)?.forEach(({ x, cell }) => {
+            frameGrid[y][x] = cell.char || ' ';
+            colorGrid[y][x] = cell.color || '#FFFFFF';
+            bgColorGrid[y][x] = cell.bgColor || 'transparent';
+          });
         }
         
         return {
@@ -1196,13 +1497,7 @@ export class ExportRenderer {
 </body>
 </html>`;
 
-      this.updateProgress('Creating file...', 90);
-
-      // Create blob and download
-      const blob = new Blob([htmlContent], { type: 'text/html' });
-      saveAs(blob, `${filename}.html`);
-      
-      this.updateProgress('Export complete!', 100);
+      return { filename: `${filename}.html`, content: htmlContent, mimeType: 'text/html' };
     } catch (error) {
       console.error('HTML export failed:', error);
       throw new Error(`HTML export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1218,10 +1513,41 @@ export class ExportRenderer {
   ): Promise<void> {
     this.updateProgress('Preparing React component export...', 0);
 
+    const output = this.renderReactComponent(data, settings);
+
+    this.updateProgress('Saving file...', 95);
+    this.saveRenderedExport(output);
+    this.updateProgress('Export complete!', 100);
+  }
+
+  /**
+   * Render animation as a React component source file (no DOM required)
+   */
+  renderReactComponent(
+    data: ExportDataBundle,
+    settings: ReactExportSettings
+  ): RenderedExport {
     try {
       const requestedName = settings.fileName?.trim() || 'ascii-motion-animation';
       const sanitizedFileName = this.sanitizeReactFileName(requestedName) || 'ascii-motion-animation';
       const componentName = this.toPascalCase(sanitizedFileName);
+      const extension = settings.typescript ? 'tsx' : 'jsx';
+
+      if (settings.playerSource === 'package') {
+        this.updateProgress('Generating component code...', 60);
+
+        return {
+          filename: `${sanitizedFileName}.${extension}`,
+          content: this.generatePlayerReactComponentCode({
+            componentName,
+            animationJson: JSON.stringify(this.buildPlayerData(data, sanitizedFileName), null, 2),
+            isTypescript: settings.typescript,
+            includeControls: settings.includeControls,
+            includeBackground: settings.includeBackground
+          }),
+          mimeType: 'text/plain;charset=utf-8'
+        };
+      }
 
       const fontSize = data.typography?.fontSize ?? data.fontMetrics?.fontSize ?? 16;
       const characterSpacing = data.typography?.characterSpacing ?? 1.0;
@@ -1290,19 +1616,252 @@ export class ExportRenderer {
         backgroundColor: settings.includeBackground ? data.canvasBackgroundColor : null
       });
 
-      this.updateProgress('Saving file...', 90);
-
-      const extension = settings.typescript ? 'tsx' : 'jsx';
-      const blob = new Blob([componentCode], { type: 'text/plain;charset=utf-8' });
-      saveAs(blob, `${sanitizedFileName}.${extension}`);
-
-      this.updateProgress('Export complete!', 100);
+      return { filename: `${sanitizedFileName}.${extension}`, content: componentCode, mimeType: 'text/plain;charset=utf-8' };
     } catch (error) {
       console.error('React component export failed:', error);
       throw new Error(`React component export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Compact JSON export structure embedded for @ascii-motion/player
+   */
+  private buildPlayerData(data: ExportDataBundle, filename: string): JsonExportStructure {
+    return this.buildJsonStructure(
+      data,
+      { includeMetadata: true, humanReadable: false, includeEmptyCells: false },
+      filename
+    );
+  }
+
+  /**
+   * Standalone HTML page that loads @ascii-motion/player instead of inlining a player
+   */
+  private renderPlayerHtml(
+    data: ExportDataBundle,
+    settings: HtmlExportSettings,
+    filename: string
+  ): RenderedExport {
+    const playerUrl = settings.playerUrl.trim();
+    if (!playerUrl) {
+      throw new Error('A player module URL is required when loading the shared player');
+    }
+
+    this.updateProgress('Serializing animation data...', 30);
+
+    // Escape "<" so frame content and the URL can never close the script element
+    const playerModuleUrl = JSON.stringify(playerUrl).replace(/</g, '\\u003c');
+    const playerData = this.buildPlayerData(data, filename);
+    playerData.typography.fontSize = settings.fontSize;
+    const animationJson = JSON.stringify(playerData).replace(/</g, '\\u003c');
+    const playerOptions = JSON.stringify({
+      speed: Math.max(settings.animationSpeed, 0.1),
+      loop: settings.loops === 'infinite' ? true : settings.loops,
+      fontFamily: `${settings.fontFamily}, monospace`
+    });
+    const title = this.escapeHtml(data.metadata.projectName || filename);
+
+    this.updateProgress('Generating HTML structure...', 60);
+
+    const htmlContent = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title} - ASCII Motion Animation</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 32px 24px;
+      min-height: 100vh;
+      box-sizing: border-box;
+      background-color: ${settings.backgroundColor};
+      color: #f8f9fb;
+      font-family: system-ui, sans-serif;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 16px;
+    }
+
+    .ascii-motion-player:focus-visible {
+      outline: 2px solid rgba(139, 92, 246, 0.9);
+      outline-offset: 4px;
+    }
+
+    button {
+      padding: 6px 14px;
+      border-radius: 8px;
+      border: 1px solid rgba(255,255,255,0.18);
+      background: rgba(22,22,26,0.9);
+      color: inherit;
+      cursor: pointer;
+    }
+  </style>
+</head>
+<body>
+  <div id="player"></div>
+  <button id="toggle" type="button" aria-controls="player">Play</button>
+  <script type="module">
+    import { createAsciiPlayer } from ${playerModuleUrl};
+
+    const animation = ${animationJson};
+    const player = createAsciiPlayer(document.getElementById('player'), animation, ${playerOptions});
+    const toggle = document.getElementById('toggle');
+    const updateToggle = () => {
+      toggle.textContent = player.getState().isPlaying ? 'Pause' : 'Play';
+    };
+
+    toggle.addEventListener('click', () => player.toggle());
+    player.on('play', updateToggle);
+    player.on('pause', updateToggle);
+    player.on('ended', updateToggle);
+    updateToggle();
+  </script>
+</body>
+</html>`;
+
+    return { filename: `${filename}.html`, content: htmlContent, mimeType: 'text/html' };
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * React component that renders through @ascii-motion/player/react.
+   * Keeps the props of the inlined component (showControls, autoPlay, onReady).
+   */
+  private generatePlayerReactComponentCode(options: {
+    componentName: string;
+    animationJson: string;
+    isTypescript: boolean;
+    includeControls: boolean;
+    includeBackground: boolean;
+  }): string {
+    const { componentName, animationJson, isTypescript, includeControls, includeBackground } = options;
+
+    const lines: string[] = [];
+    lines.push("'use client';");
+    lines.push('');
+    lines.push(`import { useEffect, useRef${includeControls ? ', useState' : ''} } from 'react';`);
+    lines.push("import { AsciiMotionPlayer } from '@ascii-motion/player/react';");
+
+    if (isTypescript) {
+      lines.push("import type { AsciiMotionJson } from '@ascii-motion/player';");
+      lines.push("import type { AsciiMotionPlayerHandle } from '@ascii-motion/player/react';");
+      lines.push('');
+      lines.push('type AsciiMotionComponentProps = {');
+      if (includeControls) {
+        lines.push('  showControls?: boolean;');
+      }
+      lines.push('  autoPlay?: boolean;');
+      lines.push('  loop?: boolean;');
+      lines.push('  speed?: number;');
+      lines.push('  className?: string;');
+      lines.push('  onReady?: (api: {');
+      lines.push('    play: () => void;');
+      lines.push('    pause: () => void;');
+      lines.push('    togglePlay: () => void;');
+      lines.push('    restart: () => void;');
+      lines.push('  }) => void;');
+      lines.push('  onEnded?: () => void;');
+      lines.push('};');
+      lines.push('');
+      lines.push(`const ANIMATION: AsciiMotionJson = ${animationJson};`);
+    } else {
+      lines.push('');
+      lines.push('/**');
+      lines.push(' * @typedef {Object} AsciiMotionComponentProps');
+      if (includeControls) {
+        lines.push(' * @property {boolean} [showControls]');
+      }
+      lines.push(' * @property {boolean} [autoPlay]');
+      lines.push(' * @property {boolean} [loop]');
+      lines.push(' * @property {number} [speed]');
+      lines.push(' * @property {string} [className]');
+      lines.push(' * @property {(api: { play: () => void; pause: () => void; togglePlay: () => void; restart: () => void; }) => void} [onReady]');
+      lines.push(' * @property {() => void} [onEnded]');
+      lines.push(' */');
+      lines.push('');
+      lines.push(`const ANIMATION = ${animationJson};`);
+      lines.push('');
+      lines.push('/** @param {AsciiMotionComponentProps} props */');
+    }
+
+    if (isTypescript) {
+      lines.push('');
+    }
+    lines.push(`const ${componentName} = ({`);
+    if (includeControls) {
+      lines.push('  showControls = true,');
+    }
+    lines.push('  autoPlay = true,');
+    lines.push('  loop,');
+    lines.push('  speed = 1,');
+    lines.push('  className,');
+    lines.push('  onReady,');
+    lines.push('  onEnded');
+    lines.push(`}${isTypescript ? ': AsciiMotionComponentProps' : ''}) => {`);
+    lines.push(isTypescript
+      ? '  const playerRef = useRef<AsciiMotionPlayerHandle>(null);'
+      : '  const playerRef = useRef(null);');
+    if (includeControls) {
+      lines.push('  const [isPlaying, setIsPlaying] = useState(false);');
+    }
+    lines.push('');
+    lines.push('  useEffect(() => {');
+    lines.push('    onReady?.({');
+    lines.push('      play: () => playerRef.current?.play(),');
+    lines.push('      pause: () => playerRef.current?.pause(),');
+    lines.push('      togglePlay: () => playerRef.current?.toggle(),');
+    lines.push('      restart: () => {');
+    lines.push('        playerRef.current?.seek(0);');
+    lines.push('        playerRef.current?.play();');
+    lines.push('      }');
+    lines.push('    });');
+    lines.push('  }, [onReady]);');
+    lines.push('');
+    lines.push('  return (');
+    lines.push("    <div className={className} style={{ display: 'inline-flex', flexDirection: 'column', gap: '12px' }}>");
+    lines.push('      <AsciiMotionPlayer');
+    lines.push('        ref={playerRef}');
+    lines.push('        data={ANIMATION}');
+    lines.push('        autoplay={autoPlay}');
+    lines.push('        loop={loop}');
+    lines.push('        speed={speed}');
+    lines.push(`        showBackground={${includeBackground}}`);
+    if (includeControls) {
+      lines.push('        onPlay={() => setIsPlaying(true)}');
+      lines.push('        onPause={() => setIsPlaying(false)}');
+      lines.push('        onEnded={() => {');
+      lines.push('          setIsPlaying(false);');
+      lines.push('          onEnded?.();');
+      lines.push('        }}');
+    } else {
+      lines.push('        onEnded={onEnded}');
+    }
+    lines.push('      />');
+    if (includeControls) {
+      lines.push('      {showControls && (');
+      lines.push('        <button type="button" onClick={() => playerRef.current?.toggle()}>');
+      lines.push("          {isPlaying ? 'Pause' : 'Play'}");
+      lines.push('        </button>');
+      lines.push('      )}');
+    }
+    lines.push('    </div>');
+    lines.push('  );');
+    lines.push('};');
+    lines.push('');
+    lines.push(`export default ${componentName};`);
+
+    return lines.join('\n') + '\n';
+  }
+
   private sanitizeReactFileName(value: string): string {
     if (!value) {
       return '';
@@ -1755,46 +2314,21 @@ export class ExportRenderer {
   }
 
   /**
-   * Crop grid based on text export settings
+   * Rows and first column kept by the text export cropping settings
    */
-  private cropGrid(grid: string[][], settings: TextExportSettings): string[][] {
-    let processedGrid = [...grid.map(row => [...row])];
-
-    // Remove leading lines
-    if (settings.removeLeadingLines) {
-      while (processedGrid.length > 0 && processedGrid[0].every(char => char === ' ')) {
-        processedGrid.shift();
-      }
-    }
-
-    // Remove trailing lines
-    if (settings.removeTrailingLines) {
-      while (processedGrid.length > 0 && processedGrid[processedGrid.length - 1].every(char => char === ' ')) {
-        processedGrid.pop();
-      }
-    }
-
-    // Remove leading spaces (find leftmost non-space character across all rows)
-    if (settings.removeLeadingSpaces) {
-      let leftmostColumn = Infinity;
-      
-      // Find the leftmost column with any non-space character
-      for (const row of processedGrid) {
-        for (let col = 0; col < row.length; col++) {
-          if (row[col] !== ' ') {
-            leftmostColumn = Math.min(leftmostColumn, col);
-            break;
-          }
-        }
-      }
-
-      // Remove leading columns if we found any content
-      if (leftmostColumn !== Infinity && leftmostColumn > 0) {
-        processedGrid = processedGrid.map(row => row.slice(leftmostColumn));
-      }
-    }
-
-    return processedGrid;
+  private getTextCropBounds(
+    contentBounds: { minX: number; minY: number; maxX: number; maxY: number } | null,
+    height: number,
+    settings: TextExportSettings
+  ): { startX: number; startY: number; endY: number } {
+    // Blank frames lose every line when either line-removal option is on
+    const startY = settings.removeLeadingLines ? (contentBounds ? contentBounds.minY : height) : 0;
+    const endY = settings.removeTrailingLines ? (contentBounds ? contentBounds.maxY + 1 : 0) : height;
+
+    // Remove leading spaces (leftmost non-space character across all rows)
+    const startX = settings.removeLeadingSpaces && contentBounds ? contentBounds.minX : 0;
+
+    return { startX, startY, endY: Math.max(startY, endY) };
   }
 
   /**
@@ -1832,8 +2366,14 @@ export class ExportRenderer {
     const displayWidth = Math.max(gridWidth * baseCellWidth, 1);
     const displayHeight = Math.max(gridHeight * baseCellHeight, 1);
     
-    // Use device pixel ratio for high-DPI export (minimum 2x for crisp exports)
-    const devicePixelRatio = Math.max(window.devicePixelRatio || 1, 2);
+    // Use device pixel ratio for high-DPI export (minimum 2x for crisp exports),
+    // reduced when a large canvas would exceed the browser's canvas size limits
+    const maxScale = Math.min(
+      MAX_EXPORT_CANVAS_DIMENSION / displayWidth,
+      MAX_EXPORT_CANVAS_DIMENSION / displayHeight,
+      Math.sqrt(MAX_EXPORT_CANVAS_AREA / (displayWidth * displayHeight))
+    );
+    const devicePixelRatio = Math.min(Math.max(window.devicePixelRatio || 1, 2), maxScale);
     
     // Set canvas internal resolution to match device pixel ratio
     canvas.width = displayWidth * devicePixelRatio;
@@ -2264,6 +2804,35 @@ export class ExportRenderer {
     return clonedCanvas;
   }
 
+  /**
+   * Draw a high-DPI export canvas at 1x pixel density
+   */
+  private downscaleCanvas(sourceCanvas: HTMLCanvasElement, scale: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(sourceCanvas.width / scale));
+    canvas.height = Math.max(1, Math.round(sourceCanvas.height / scale));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to create canvas context');
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(sourceCanvas, 0, 0, canvas.width, canvas.height);
+
+    return canvas;
+  }
+
+  /**
+   * Convert GIF loop setting to the NETSCAPE repeat count (null = play once)
+   */
+  private getGifRepeatCount(loops: GifExportSettings['loops']): number | null {
+    if (loops === 'infinite') return 0;
+    const plays = Math.max(1, Math.round(loops));
+    return plays > 1 ? plays - 1 : null;
+  }
+
   /**
    * Convert loop setting to numeric multiplier
    */
@@ -2375,6 +2944,14 @@ export class ExportRenderer {
     }
   }
 
+  /**
+   * Download a rendered string export
+   */
+  private saveRenderedExport(output: RenderedExport): void {
+    const blob = new Blob([output.content], { type: output.mimeType });
+    saveAs(blob, output.filename);
+  }
+
   /**
    * Update export progress
    */
@@ -1,9 +1,11 @@
 /**
- * Flip utility functions for horizontal and vertical content flipping
+ * Flip and rotate utility functions for selection and canvas content
  * Supports all selection types and handles coordinate transformations
  */
 
 import type { Cell } from '../types';
+import { CELL_ASPECT_RATIO } from './fontMetrics';
+import { mirrorGlyphHorizontal, mirrorGlyphVertical, rotateGlyph } from './glyphTransforms';
 
 export interface FlipBounds {
   minX: number;
@@ -75,7 +77,7 @@ export const flipVertical = (x: number, y: number, bounds: FlipBounds): { x: num
 
 /**
  * Apply horizontal flip to canvas data within specified bounds
- * Only flips cells that exist in the original data
+ * Only flips cells that exist in the original data; directional glyphs are mirrored
  */
 export const applyHorizontalFlip = (
   canvasData: Map<string, Cell>,
@@ -99,7 +101,7 @@ export const applyHorizontalFlip = (
     if (cell) {
       const [x, y] = cellKey.split(',').map(Number);
       const flipped = flipHorizontal(x, y, bounds);
-      cellsToFlip.set(`${flipped.x},${flipped.y}`, { ...cell });
+      cellsToFlip.set(`${flipped.x},${flipped.y}`, { ...cell, char: mirrorGlyphHorizontal(cell.char) });
     }
   });
 
@@ -120,7 +122,7 @@ export const applyHorizontalFlip = (
 
 /**
  * Apply vertical flip to canvas data within specified bounds
- * Only flips cells that exist in the original data
+ * Only flips cells that exist in the original data; directional glyphs are mirrored
  */
 export const applyVerticalFlip = (
   canvasData: Map<string, Cell>,
@@ -144,7 +146,7 @@ export const applyVerticalFlip = (
     if (cell) {
       const [x, y] = cellKey.split(',').map(Number);
       const flipped = flipVertical(x, y, bounds);
-      cellsToFlip.set(`${flipped.x},${flipped.y}`, { ...cell });
+      cellsToFlip.set(`${flipped.x},${flipped.y}`, { ...cell, char: mirrorGlyphVertical(cell.char) });
     }
   });
 
@@ -249,4 +251,168 @@ export const transformLassoPathForFlip = (
       : flipVertical(point.x, point.y, bounds);
     return { x: flippedPoint.x, y: flippedPoint.y };
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Clockwise rotation angles supported by the rotate actions
+ */
+export type RotationAngle = 90 | 180 | 270;
+
+/**
+ * Size of a block after rotation
+ * Cells are narrower than they are tall, so quarter turns rescale the block to keep
+ * its on-screen proportions (a 10×6 block at 0.6 aspect stays 10×6 instead of becoming 6×10)
+ */
+export const getRotatedSize = (
+  width: number,
+  height: number,
+  angle: RotationAngle,
+  aspectRatio: number = CELL_ASPECT_RATIO
+): { width: number; height: number } => {
+  if (angle === 180) {
+    return { width, height };
+  }
+
+  return {
+    width: Math.max(1, Math.round(height / aspectRatio)),
+    height: Math.max(1, Math.round(width * aspectRatio))
+  };
+};
+
+/**
+ * Visit every destination cell of a rotation with the source cell it samples
+ * Offsets are measured in pixel units (x scaled by aspect ratio) so shapes keep their proportions
+ */
+const sampleRotation = (
+  source: FlipBounds,
+  target: FlipBounds,
+  angle: RotationAngle,
+  aspectRatio: number,
+  visit: (targetX: number, targetY: number, sourceX: number, sourceY: number) => void
+) => {
+  const sourceWidth = source.maxX - source.minX + 1;
+  const sourceHeight = source.maxY - source.minY + 1;
+  const targetWidth = target.maxX - target.minX + 1;
+  const targetHeight = target.maxY - target.minY + 1;
+  const aspect = aspectRatio || 1;
+
+  for (let y = target.minY; y <= target.maxY; y++) {
+    for (let x = target.minX; x <= target.maxX; x++) {
+      const offsetX = (x - target.minX + 0.5 - targetWidth / 2) * aspect;
+      const offsetY = y - target.minY + 0.5 - targetHeight / 2;
+
+      // Inverse rotation: where did this destination cell come from?
+      let sourceOffsetX: number;
+      let sourceOffsetY: number;
+      if (angle === 90) {
+        sourceOffsetX = offsetY;
+        sourceOffsetY = -offsetX;
+      } else if (angle === 270) {
+        sourceOffsetX = -offsetY;
+        sourceOffsetY = offsetX;
+      } else {
+        sourceOffsetX = -offsetX;
+        sourceOffsetY = -offsetY;
+      }
+
+      visit(
+        x,
+        y,
+        source.minX + Math.floor(sourceOffsetX / aspect + sourceWidth / 2),
+        source.minY + Math.floor(sourceOffsetY + sourceHeight / 2)
+      );
+    }
+  }
+};
+
+/**
+ * Apply a clockwise rotation to canvas data within specified bounds
+ * The rotated block stays centered on the original bounds and directional glyphs are rotated.
+ * Returns the new data along with the rotated bounds and selection, clipped to the canvas when
+ * canvas dimensions are given.
+ */
+export const applyRotation = (
+  canvasData: Map<string, Cell>,
+  bounds: FlipBounds,
+  angle: RotationAngle,
+  selectedCells?: Set<string>,
+  canvasSize?: { width: number; height: number },
+  aspectRatio: number = CELL_ASPECT_RATIO
+): { canvasData: Map<string, Cell>; bounds: FlipBounds; selectedCells: Set<string> } => {
+  const newCanvasData = new Map(canvasData);
+  const rotatedSelection = new Set<string>();
+  const quarterTurns = angle / 90;
+
+  const isSelected = (x: number, y: number) => selectedCells
+    ? selectedCells.has(`${x},${y}`)
+    : x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+
+  const sourceWidth = bounds.maxX - bounds.minX + 1;
+  const sourceHeight = bounds.maxY - bounds.minY + 1;
+  const size = getRotatedSize(sourceWidth, sourceHeight, angle, aspectRatio);
+  const minX = bounds.minX + Math.round((sourceWidth - size.width) / 2);
+  const minY = bounds.minY + Math.round((sourceHeight - size.height) / 2);
+  const rotatedBounds: FlipBounds = {
+    minX,
+    maxX: minX + size.width - 1,
+    minY,
+    maxY: minY + size.height - 1
+  };
+
+  // Clear the original positions (only for cells that existed)
+  canvasData.forEach((_cell, key) => {
+    const [x, y] = key.split(',').map(Number);
+    if (isSelected(x, y)) {
+      newCanvasData.delete(key);
+    }
+  });
+
+  sampleRotation(bounds, rotatedBounds, angle, aspectRatio, (x, y, sourceX, sourceY) => {
+    if (!isSelected(sourceX, sourceY)) return;
+    if (canvasSize && (x < 0 || y < 0 || x >= canvasSize.width || y >= canvasSize.height)) return;
+
+    const key = `${x},${y}`;
+    rotatedSelection.add(key);
+
+    const cell = canvasData.get(`${sourceX},${sourceY}`);
+    if (cell) {
+      newCanvasData.set(key, { ...cell, char: rotateGlyph(cell.char, quarterTurns) });
+    }
+  });
+
+  return {
+    canvasData: newCanvasData,
+    bounds: rotatedSelection.size > 0 ? calculateBoundsFromCells(rotatedSelection) : rotatedBounds,
+    selectedCells: rotatedSelection
+  };
+};
+
+/**
+ * Rotate an entire canvas clockwise, returning the data with its new dimensions
+ */
+export const rotateCanvasData = (
+  canvasData: Map<string, Cell>,
+  width: number,
+  height: number,
+  angle: RotationAngle,
+  aspectRatio: number = CELL_ASPECT_RATIO
+): { canvasData: Map<string, Cell>; width: number; height: number } => {
+  const size = getRotatedSize(width, height, angle, aspectRatio);
+  const rotatedData = new Map<string, Cell>();
+  const quarterTurns = angle / 90;
+
+  sampleRotation(
+    calculateCanvasBounds(width, height),
+    calculateCanvasBounds(size.width, size.height),
+    angle,
+    aspectRatio,
+    (x, y, sourceX, sourceY) => {
+      const cell = canvasData.get(`${sourceX},${sourceY}`);
+      if (cell) {
+        rotatedData.set(`${x},${y}`, { ...cell, char: rotateGlyph(cell.char, quarterTurns) });
+      }
+    }
+  );
+
+  return { canvasData: rotatedData, width: size.width, height: size.height };
+};
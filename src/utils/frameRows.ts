@@ -0,0 +1,81 @@
+import type { Cell } from '../types';
+
+/**
+ * Row-oriented access to sparse frame data
+ * Exports walk frames one row at a time from this index instead of building a
+ * full width × height grid, which keeps large canvases cheap to serialize
+ */
+
+export interface RowCell {
+  x: number;
+  cell: Cell;
+}
+
+export interface FrameRowIndex {
+  // Stored cells per row, sorted by x (rows without cells are absent)
+  rows: Map<number, RowCell[]>;
+  // Bounds of visible characters (non-space), null when the frame is blank
+  contentBounds: { minX: number; minY: number; maxX: number; maxY: number } | null;
+}
+
+const hasVisibleChar = (cell: Cell): boolean => Boolean(cell.char) && cell.char !== ' ';
+
+/**
+ * Group a frame's cells by row, ignoring cells outside the canvas
+ */
+export const indexFrameRows = (
+  cells: Map<string, Cell>,
+  width: number,
+  height: number
+): FrameRowIndex => {
+  const rows = new Map<number, RowCell[]>();
+  let contentBounds: FrameRowIndex['contentBounds'] = null;
+
+  cells.forEach((cell, key) => {
+    const comma = key.indexOf(',');
+    const x = Number(key.slice(0, comma));
+    const y = Number(key.slice(comma + 1));
+    if (x < 0 || x >= width || y < 0 || y >= height) return;
+
+    let row = rows.get(y);
+    if (!row) {
+      row = [];
+      rows.set(y, row);
+    }
+    row.push({ x, cell });
+
+    if (hasVisibleChar(cell)) {
+      if (!contentBounds) {
+        contentBounds = { minX: x, minY: y, maxX: x, maxY: y };
+      } else {
+        contentBounds.minX = Math.min(contentBounds.minX, x);
+        contentBounds.minY = Math.min(contentBounds.minY, y);
+        contentBounds.maxX = Math.max(contentBounds.maxX, x);
+        contentBounds.maxY = Math.max(contentBounds.maxY, y);
+      }
+    }
+  });
+
+  rows.forEach(row => row.sort((a, b) => a.x - b.x));
+
+  return { rows, contentBounds };
+};
+
+/**
+ * Characters of one row between startX (inclusive) and endX (exclusive)
+ * Missing or empty cells become spaces
+ */
+export const rowToText = (row: RowCell[] | undefined, startX: number, endX: number): string => {
+  const length = Math.max(0, endX - startX);
+  if (!row || row.length === 0) {
+    return ' '.repeat(length);
+  }
+
+  const chars = new Array<string>(length).fill(' ');
+  for (const { x, cell } of row) {
+    if (x >= startX && x < endX && cell.char) {
+      chars[x - startX] = cell.char;
+    }
+  }
+  return chars.join('');
+};
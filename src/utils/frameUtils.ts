@@ -1,4 +1,5 @@
 import type { Cell, Frame, FrameId } from '../types';
+import { cloneLayer } from './layerUtils';
 
 const cloneCell = (cell: Cell): Cell => ({
   char: cell.char,
@@ -11,9 +12,17 @@ export const cloneFrame = (frame: Frame): Frame => ({
   name: frame.name,
   duration: frame.duration,
   thumbnail: frame.thumbnail,
-  data: new Map(Array.from(frame.data.entries()).map(([key, cell]) => [key, cloneCell(cell)]))
+  data: new Map(Array.from(frame.data.entries()).map(([key, cell]) => [key, cloneCell(cell)])),
+  ...(frame.layers ? { layers: frame.layers.map(cloneLayer), activeLayerId: frame.activeLayerId } : {})
 });
 
 export const cloneFrames = (frames: Frame[]): Frame[] => frames.map(cloneFrame);
 
+/**
+ * Snapshot frames for undo history without copying cell data
+ * The stores replace frames instead of mutating them, and history restores copy
+ * them back in (replaceFrames/addFrame), so history entries can share frames
+ */
+export const snapshotFrames = (frames: Frame[]): Frame[] => [...frames];
+
 export const generateFrameId = (): FrameId => `frame-${Date.now()}-${Math.random()}` as FrameId;
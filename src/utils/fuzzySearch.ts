@@ -0,0 +1,51 @@
+/**
+ * Fuzzy matching for search boxes
+ * Query characters must appear in order; consecutive runs and word starts
+ * score higher (so "gf" finds "Gradient Fill tool")
+ */
+
+const WORD_SEPARATORS = /[\s\-_./:&()]/;
+
+/**
+ * Score how well the query matches the text, or null when it does not match
+ * Higher is better; an empty query matches everything with a score of 0
+ */
+export const fuzzyMatchScore = (query: string, text: string): number | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+
+  const haystack = text.toLowerCase();
+
+  // Plain substring matches always beat scattered ones
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex !== -1) {
+    const atWordStart = substringIndex === 0 || WORD_SEPARATORS.test(haystack[substringIndex - 1]);
+    return 1000 + (atWordStart ? 500 : 0) - substringIndex;
+  }
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of needle) {
+    if (WORD_SEPARATORS.test(char)) continue;
+
+    const matchIndex = haystack.indexOf(char, textIndex);
+    if (matchIndex === -1) return null;
+
+    if (matchIndex === previousMatch + 1) {
+      score += 15; // Consecutive characters
+    } else if (matchIndex === 0 || WORD_SEPARATORS.test(haystack[matchIndex - 1])) {
+      score += 10; // Start of a word
+    } else {
+      score += 1;
+    }
+    // Prefer matches that do not skip over much of the text
+    score -= Math.min(matchIndex - textIndex, 5);
+
+    previousMatch = matchIndex;
+    textIndex = matchIndex + 1;
+  }
+
+  return score;
+};
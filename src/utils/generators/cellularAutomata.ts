@@ -0,0 +1,239 @@
+/**
+ * cellularAutomata.ts - Cellular Automata generator implementation
+ *
+ * Evolves Life-like rules (B/S notation) on the canvas grid, or scrolls 1D elementary
+ * rules (Wolfram numbering) upward one row per generation. Can start from a random soup,
+ * a center pattern, or the cells already drawn on the canvas.
+ */
+
+import type { Cell } from '../../types';
+import type { CellularAutomataSettings, GeneratorFrame } from '../../types/generators';
+
+export interface LifeRule {
+  birth: boolean[];    // Indexed by live neighbor count (0-8)
+  survival: boolean[]; // Indexed by live neighbor count (0-8)
+}
+
+// R-pentomino: small Life seed that keeps evolving for over a thousand generations
+const R_PENTOMINO = [[1, 0], [2, 0], [0, 1], [1, 1], [1, 2]];
+
+/**
+ * Parse a Life-like rule in B/S notation ("B3/S23", "b36/s23") or legacy S/B notation ("23/3")
+ * Returns null when the rule is not valid
+ */
+export function parseLifeRule(rule: string): LifeRule | null {
+  const normalized = rule.replace(/\s+/g, '').toUpperCase();
+  let birthDigits: string;
+  let survivalDigits: string;
+
+  const bsMatch = normalized.match(/^B([0-8]*)\/?S([0-8]*)$/);
+  const sbMatch = normalized.match(/^S([0-8]*)\/?B([0-8]*)$/);
+  const legacyMatch = normalized.match(/^([0-8]*)\/([0-8]*)$/);
+
+  if (bsMatch) {
+    [, birthDigits, survivalDigits] = bsMatch;
+  } else if (sbMatch) {
+    [, survivalDigits, birthDigits] = sbMatch;
+  } else if (legacyMatch) {
+    [, survivalDigits, birthDigits] = legacyMatch;
+  } else {
+    return null;
+  }
+
+  const birth = new Array<boolean>(9).fill(false);
+  const survival = new Array<boolean>(9).fill(false);
+  for (const digit of birthDigits) birth[Number(digit)] = true;
+  for (const digit of survivalDigits) survival[Number(digit)] = true;
+
+  return { birth, survival };
+}
+
+/**
+ * Sample live cells from canvas data: anything with a visible character or background
+ */
+export function createCanvasSeedGrid(
+  cells: Map<string, Cell>,
+  width: number,
+  height: number
+): Uint8Array {
+  const grid = new Uint8Array(width * height);
+
+  cells.forEach((cell, key) => {
+    const hasChar = Boolean(cell.char) && cell.char !== ' ';
+    const hasBackground = Boolean(cell.bgColor) && cell.bgColor !== 'transparent';
+    if (!hasChar && !hasBackground) return;
+
+    const [x, y] = key.split(',').map(Number);
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      grid[y * width + x] = 1;
+    }
+  });
+
+  return grid;
+}
+
+/**
+ * Generate cellular automata animation frames
+ */
+export async function generateCellularAutomata(
+  settings: CellularAutomataSettings,
+  width: number,
+  height: number,
+  frameCount: number,
+  frameDuration: number,
+  seed: number,
+  seedGrid?: Uint8Array,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
+): Promise<GeneratorFrame[]> {
+  const frames: GeneratorFrame[] = [];
+
+  // Calculate frame timing based on mode
+  const actualFrameCount = settings.timingMode === 'frameCount'
+    ? settings.frameCount
+    : frameCount;
+
+  const actualFrameDuration = settings.timingMode === 'duration'
+    ? Math.floor(settings.duration / actualFrameCount)
+    : frameDuration;
+
+  const isElementary = settings.automatonType === 'elementary';
+  const lifeRule = isElementary ? null : parseLifeRule(settings.lifeRule);
+  if (!isElementary && !lifeRule) {
+    throw new Error(`Invalid Life-like rule "${settings.lifeRule}" (expected B/S notation such as B3/S23)`);
+  }
+  const elementaryRule = Math.max(0, Math.min(255, Math.round(settings.elementaryRule)));
+
+  // Initialize seeded random
+  let randomState = seed;
+  const seededRandom = (): number => {
+    randomState = (randomState * 1103515245 + 12345) & 0x7fffffff;
+    return randomState / 0x7fffffff;
+  };
+
+  let cells = new Uint8Array(width * height);
+  let nextCells = new Uint8Array(width * height);
+  const brightness = new Float32Array(width * height);
+
+  // Seed the initial state (elementary automata seed their newest row, at the bottom)
+  const seedRowStart = isElementary ? (height - 1) * width : 0;
+  if (settings.seedMode === 'canvas' && seedGrid && seedGrid.length === cells.length) {
+    cells.set(seedGrid);
+  } else if (settings.seedMode === 'center') {
+    const centerX = Math.floor(width / 2);
+    const centerY = Math.floor(height / 2);
+    if (isElementary) {
+      cells[seedRowStart + centerX] = 1;
+    } else {
+      for (const [dx, dy] of R_PENTOMINO) {
+        const x = centerX + dx - 1;
+        const y = centerY + dy - 1;
+        if (x >= 0 && x < width && y >= 0 && y < height) {
+          cells[y * width + x] = 1;
+        }
+      }
+    }
+  } else {
+    for (let index = seedRowStart; index < cells.length; index++) {
+      cells[index] = seededRandom() < settings.density ? 1 : 0;
+    }
+  }
+
+  for (let index = 0; index < cells.length; index++) {
+    brightness[index] = cells[index];
+  }
+
+  const stepLife = (rule: LifeRule) => {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let neighbors = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (dx === 0 && dy === 0) continue;
+            let nx = x + dx;
+            let ny = y + dy;
+            if (settings.wrapEdges) {
+              nx = (nx + width) % width;
+              ny = (ny + height) % height;
+            } else if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
+              continue;
+            }
+            neighbors += cells[ny * width + nx];
+          }
+        }
+
+        const index = y * width + x;
+        const alive = cells[index] ? rule.survival[neighbors] : rule.birth[neighbors];
+        nextCells[index] = alive ? 1 : 0;
+        brightness[index] = alive ? 1 : brightness[index] * settings.trailFade;
+      }
+    }
+
+    [cells, nextCells] = [nextCells, cells];
+  };
+
+  const stepElementary = () => {
+    // Scroll every row up and compute the new bottom row from the previous one
+    const lastRow = cells.subarray((height - 1) * width);
+    const newRow = new Uint8Array(width);
+    for (let x = 0; x < width; x++) {
+      const leftX = settings.wrapEdges ? (x - 1 + width) % width : x - 1;
+      const rightX = settings.wrapEdges ? (x + 1) % width : x + 1;
+      const left = leftX >= 0 ? lastRow[leftX] : 0;
+      const right = rightX < width ? lastRow[rightX] : 0;
+      const pattern = (left << 2) | (lastRow[x] << 1) | right;
+      newRow[x] = (elementaryRule >> pattern) & 1;
+    }
+
+    cells.copyWithin(0, width);
+    cells.set(newRow, (height - 1) * width);
+    brightness.copyWithin(0, width);
+    for (let x = 0; x < width; x++) {
+      brightness[(height - 1) * width + x] = newRow[x];
+    }
+  };
+
+  const step = () => {
+    if (lifeRule) {
+      stepLife(lifeRule);
+    } else {
+      stepElementary();
+    }
+  };
+
+  const warmupGenerations = Math.max(0, Math.round(settings.warmupGenerations));
+  for (let generation = 0; generation < warmupGenerations; generation++) {
+    step();
+  }
+
+  const generationsPerFrame = Math.max(1, Math.round(settings.generationsPerFrame));
+
+  // Generate each frame (the first frame shows the seeded state)
+  for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
+    if (frameIdx > 0) {
+      for (let generation = 0; generation < generationsPerFrame; generation++) {
+        step();
+      }
+    }
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let index = 0; index < brightness.length; index++) {
+      const value = Math.round(brightness[index] * 255);
+      const pixelIdx = index * 4;
+      data[pixelIdx] = value;     // R
+      data[pixelIdx + 1] = value; // G
+      data[pixelIdx + 2] = value; // B
+      data[pixelIdx + 3] = 255;   // A (fully opaque)
+    }
+
+    frames.push({
+      width,
+      height,
+      data,
+      frameDuration: actualFrameDuration
+    });
+  }
+
+  return frames;
+}
@@ -27,7 +27,8 @@ export async function generateDigitalRain(
   height: number,
   frameCount: number,
   frameDuration: number,
-  seed: number
+  seed: number,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
 ): Promise<GeneratorFrame[]> {
   const frames: GeneratorFrame[] = [];
   
@@ -120,6 +121,8 @@ export async function generateDigitalRain(
   
   // Generate each frame
   for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
     // Calculate spawn probability per frame
     // frequency is trails per second, convert to probability per frame
     const baseSpawnProbability = settings.frequency / (1000 / actualFrameDuration);
@@ -0,0 +1,174 @@
+/**
+ * fire.ts - Fire generator implementation
+ *
+ * Classic demoscene fire: a heat source feeds a buffer whose values rise one row per
+ * propagation step, averaging the cells below and cooling as they climb. Wind drifts
+ * the flames sideways and turbulence adds flicker.
+ */
+
+import type { FireSettings, GeneratorFrame } from '../../types/generators';
+import { CELL_ASPECT_RATIO } from '../fontMetrics';
+
+// Heat removed per step at full cooling
+const MAX_COOLING_PER_STEP = 0.12;
+
+/**
+ * Heat source cells for the configured shape
+ */
+function createSourceMask(settings: FireSettings, width: number, height: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  const centerX = Math.round(settings.sourceX);
+  const centerY = Math.round(settings.sourceY);
+  const size = Math.max(1, Math.round(settings.sourceSize));
+
+  const setCell = (x: number, y: number) => {
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      mask[y * width + x] = 1;
+    }
+  };
+
+  switch (settings.sourceShape) {
+    case 'point':
+      setCell(centerX, centerY);
+      break;
+
+    case 'line': {
+      const startX = Math.round(settings.sourceX - size / 2);
+      for (let x = startX; x < startX + size; x++) {
+        setCell(x, centerY);
+      }
+      break;
+    }
+
+    case 'circle': {
+      // Size is the horizontal diameter in characters; rows are taller than columns are wide
+      const radius = (size / 2) * CELL_ASPECT_RATIO;
+      const rowRadius = Math.ceil(radius);
+      const columnRadius = Math.ceil(size / 2);
+      for (let dy = -rowRadius; dy <= rowRadius; dy++) {
+        for (let dx = -columnRadius; dx <= columnRadius; dx++) {
+          const distance = Math.sqrt((dx * CELL_ASPECT_RATIO) ** 2 + dy * dy);
+          if (distance <= radius) {
+            setCell(centerX + dx, centerY + dy);
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Generate fire animation frames
+ */
+export async function generateFire(
+  settings: FireSettings,
+  width: number,
+  height: number,
+  frameCount: number,
+  frameDuration: number,
+  seed: number,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
+): Promise<GeneratorFrame[]> {
+  const frames: GeneratorFrame[] = [];
+
+  // Calculate frame timing based on mode
+  const actualFrameCount = settings.timingMode === 'frameCount'
+    ? settings.frameCount
+    : frameCount;
+
+  const actualFrameDuration = settings.timingMode === 'duration'
+    ? Math.floor(settings.duration / actualFrameCount)
+    : frameDuration;
+
+  // Initialize seeded random
+  let randomState = seed;
+  const seededRandom = (): number => {
+    randomState = (randomState * 1103515245 + 12345) & 0x7fffffff;
+    return randomState / 0x7fffffff;
+  };
+
+  const sourceMask = createSourceMask(settings, width, height);
+  let heat = new Float32Array(width * height);
+  let nextHeat = new Float32Array(width * height);
+
+  // Heat at a fractional column, interpolated between neighbors (outside the canvas is cold)
+  const sampleHeat = (x: number, y: number): number => {
+    if (y >= height) return 0;
+
+    const leftX = Math.floor(x);
+    const fraction = x - leftX;
+    const left = leftX >= 0 && leftX < width ? heat[y * width + leftX] : 0;
+    const right = leftX + 1 >= 0 && leftX + 1 < width ? heat[y * width + leftX + 1] : 0;
+    return left + (right - left) * fraction;
+  };
+
+  const step = () => {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // Heat arrives from below, shifted by wind and turbulence
+        const drift = settings.wind + (seededRandom() - 0.5) * 2 * settings.turbulence;
+        const sourceX = x - drift;
+
+        const average = (
+          sampleHeat(sourceX - 1, y + 1) +
+          sampleHeat(sourceX, y + 1) +
+          sampleHeat(sourceX + 1, y + 1) +
+          sampleHeat(sourceX, y + 2)
+        ) / 4;
+
+        const cooling = settings.cooling * MAX_COOLING_PER_STEP * (0.5 + seededRandom());
+        nextHeat[y * width + x] = Math.max(0, average - cooling);
+      }
+    }
+
+    // Feed the source after propagation so it stays at full heat
+    for (let index = 0; index < sourceMask.length; index++) {
+      if (sourceMask[index]) {
+        const sourceHeat = settings.sourceIntensity * (1 - settings.sourceFlicker * seededRandom());
+        nextHeat[index] = Math.max(nextHeat[index], sourceHeat);
+      }
+    }
+
+    [heat, nextHeat] = [nextHeat, heat];
+  };
+
+  // Pre-run so flames have climbed the canvas before the first frame
+  if (settings.preRun) {
+    for (let i = 0; i < height * 2; i++) {
+      step();
+    }
+  }
+
+  const riseSpeed = Math.max(1, Math.round(settings.riseSpeed));
+
+  // Generate each frame
+  for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
+    for (let i = 0; i < riseSpeed; i++) {
+      step();
+    }
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let index = 0; index < heat.length; index++) {
+      const value = Math.round(Math.min(1, heat[index]) * 255);
+      const pixelIdx = index * 4;
+      data[pixelIdx] = value;     // R
+      data[pixelIdx + 1] = value; // G
+      data[pixelIdx + 2] = value; // B
+      data[pixelIdx + 3] = 255;   // A (fully opaque)
+    }
+
+    frames.push({
+      width,
+      height,
+      data,
+      frameDuration: actualFrameDuration
+    });
+  }
+
+  return frames;
+}
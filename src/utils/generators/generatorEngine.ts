@@ -11,6 +11,10 @@ import { generateTurbulentNoise } from './turbulentNoise';
 import { generateParticlePhysics } from './particlePhysics';
 import { generateRainDrops } from './rainDrops';
 import { generateDigitalRain } from './digitalRain';
+import { generateCellularAutomata } from './cellularAutomata';
+import { generateFire } from './fire';
+import { generatePlasma } from './plasma';
+import { generatePerspective3D } from './perspective3d';
 
 /**
  * Result from generator processing
@@ -33,6 +37,8 @@ export interface GeneratorResult {
  * @param frameCount - Number of frames to generate
  * @param frameDuration - Duration of each frame in milliseconds
  * @param seed - Random seed for deterministic generation (Phase 4: currently unused)
+ * @param seedGrid - Live cells sampled from the canvas, for generators that evolve existing art
+ * @param onProgress - Called before each frame is simulated
  * @returns Promise<GeneratorResult> with generated RGBA frames
  */
 export async function generateFrames(
@@ -42,7 +48,9 @@ export async function generateFrames(
   height: number,
   frameCount: number,
   frameDuration: number,
-  _seed: number // TODO: Phase 4 - Use for deterministic generation
+  _seed: number, // TODO: Phase 4 - Use for deterministic generation
+  seedGrid?: Uint8Array,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
 ): Promise<GeneratorResult> {
   const startTime = performance.now();
   
@@ -57,7 +65,8 @@ export async function generateFrames(
           height,
           frameCount,
           frameDuration,
-          _seed
+          _seed,
+          onProgress
         );
         break;
       }
@@ -69,7 +78,8 @@ export async function generateFrames(
           height,
           frameCount,
           frameDuration,
-          _seed
+          _seed,
+          onProgress
         );
         break;
       }
@@ -81,7 +91,8 @@ export async function generateFrames(
           height,
           frameCount,
           frameDuration,
-          _seed
+          _seed,
+          onProgress
         );
         break;
       }
@@ -93,7 +104,8 @@ export async function generateFrames(
           height,
           frameCount,
           frameDuration,
-          _seed
+          _seed,
+          onProgress
         );
         break;
       }
@@ -105,7 +117,61 @@ export async function generateFrames(
           height,
           frameCount,
           frameDuration,
-          _seed
+          _seed,
+          onProgress
+        );
+        break;
+      }
+        
+      case 'cellular-automata': {
+        frames = await generateCellularAutomata(
+          _settings as import('../../types/generators').CellularAutomataSettings,
+          width,
+          height,
+          frameCount,
+          frameDuration,
+          _seed,
+          seedGrid,
+          onProgress
+        );
+        break;
+      }
+      
+      case 'fire': {
+        frames = await generateFire(
+          _settings as import('../../types/generators').FireSettings,
+          width,
+          height,
+          frameCount,
+          frameDuration,
+          _seed,
+          onProgress
+        );
+        break;
+      }
+      
+      case 'plasma': {
+        frames = await generatePlasma(
+          _settings as import('../../types/generators').PlasmaSettings,
+          width,
+          height,
+          frameCount,
+          frameDuration,
+          _seed,
+          onProgress
+        );
+        break;
+      }
+      
+      case 'perspective-3d': {
+        frames = await generatePerspective3D(
+          _settings as import('../../types/generators').Perspective3DSettings,
+          width,
+          height,
+          frameCount,
+          frameDuration,
+          _seed,
+          onProgress
         );
         break;
       }
@@ -200,7 +200,8 @@ export async function generateParticlePhysics(
   height: number,
   frameCount: number,
   frameDuration: number,
-  seed: number
+  seed: number,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
   // Note: Particles don't use loop smoothing (free-running simulation)
 ): Promise<GeneratorFrame[]> {
   const frames: GeneratorFrame[] = [];
@@ -265,6 +266,8 @@ export async function generateParticlePhysics(
   
   // Generate each frame
   for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
     // Spawn new particles - handle both whole and fractional amounts
     // In burst mode, only spawn on first frame
     if (settings.emitterMode === 'continuous' || frameIdx === 0) {
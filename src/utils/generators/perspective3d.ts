@@ -0,0 +1,467 @@
+/**
+ * perspective3d.ts - 3D Perspective generator implementation
+ *
+ * Renders a warp starfield, an infinite textured tunnel, or a rotating mesh (cube, torus,
+ * sphere or an imported OBJ file) with a simple pinhole camera. Meshes are rasterized with
+ * a depth buffer and flat Lambert shading, so character mapping produces the classic
+ * spinning-donut look. Rotations, travel speeds and palette motion are whole turns per
+ * loop, so whole-number settings loop seamlessly.
+ */
+
+import type { GeneratorFrame, MeshPrimitive, Perspective3DSettings } from '../../types/generators';
+import { CELL_ASPECT_RATIO } from '../fontMetrics';
+
+type Vec3 = [number, number, number];
+
+export interface Mesh {
+  vertices: Vec3[];
+  faces: number[][]; // Vertex indices per polygon (3 or more)
+}
+
+interface ProjectedVertex {
+  x: number;    // Screen column
+  y: number;    // Screen row
+  invZ: number; // 1 / camera depth (interpolates linearly in screen space)
+}
+
+// Nearest star depth (stars travel from depth 1 toward the camera)
+const STAR_NEAR_DEPTH = 0.05;
+
+// Depth covered by a full-length star trail
+const STAR_TRAIL_DEPTH = 0.2;
+
+// Tunnel fog density per unit of depth
+const TUNNEL_FOG = 0.12;
+
+// Closest the mesh center may get to the camera (mesh radius is 1)
+const MIN_MESH_DISTANCE = 1.3;
+
+// Direction toward the light: above, left and in front of the mesh
+const LIGHT_DIRECTION: Vec3 = normalize([-0.4, 0.6, -0.7]);
+
+function normalize([x, y, z]: Vec3): Vec3 {
+  const length = Math.sqrt(x * x + y * y + z * z);
+  return length > 0 ? [x / length, y / length, z / length] : [0, 0, 0];
+}
+
+/**
+ * Parse vertices and faces from Wavefront OBJ text
+ * Texture coordinates, normals, groups and materials are ignored. Returns null when the
+ * text contains no usable faces.
+ */
+export function parseObjMesh(source: string): Mesh | null {
+  const vertices: Vec3[] = [];
+  const faces: number[][] = [];
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const parts = rawLine.trim().split(/\s+/);
+
+    if (parts[0] === 'v' && parts.length >= 4) {
+      const vertex = parts.slice(1, 4).map(Number) as Vec3;
+      if (vertex.every(Number.isFinite)) {
+        vertices.push(vertex);
+      }
+    } else if (parts[0] === 'f' && parts.length >= 4) {
+      // Face entries look like "v", "v/vt", "v//vn" or "v/vt/vn"; negative indices count back
+      const face: number[] = [];
+      for (const entry of parts.slice(1)) {
+        const index = parseInt(entry.split('/')[0], 10);
+        const resolved = index < 0 ? vertices.length + index : index - 1;
+        if (Number.isNaN(index) || resolved < 0 || resolved >= vertices.length) {
+          face.length = 0;
+          break;
+        }
+        face.push(resolved);
+      }
+      if (face.length >= 3) {
+        faces.push(face);
+      }
+    }
+  }
+
+  return faces.length > 0 ? { vertices, faces } : null;
+}
+
+/**
+ * Build one of the built-in primitives
+ */
+function createPrimitiveMesh(primitive: Exclude<MeshPrimitive, 'obj'>): Mesh {
+  const vertices: Vec3[] = [];
+  const faces: number[][] = [];
+
+  switch (primitive) {
+    case 'cube': {
+      // Vertex index bits: 1 = +x, 2 = +y, 4 = +z
+      for (let index = 0; index < 8; index++) {
+        vertices.push([index & 1 ? 1 : -1, index & 2 ? 1 : -1, index & 4 ? 1 : -1]);
+      }
+      faces.push([0, 2, 3, 1], [4, 5, 7, 6], [0, 1, 5, 4], [2, 6, 7, 3], [0, 4, 6, 2], [1, 3, 7, 5]);
+      break;
+    }
+
+    case 'torus': {
+      const majorSegments = 36;
+      const minorSegments = 18;
+      const majorRadius = 1;
+      const minorRadius = 0.45;
+      // Ring lies in the XY plane so the hole faces the camera before rotating
+      for (let i = 0; i < majorSegments; i++) {
+        const u = (i / majorSegments) * Math.PI * 2;
+        for (let j = 0; j < minorSegments; j++) {
+          const v = (j / minorSegments) * Math.PI * 2;
+          const ringRadius = majorRadius + minorRadius * Math.cos(v);
+          vertices.push([ringRadius * Math.cos(u), ringRadius * Math.sin(u), minorRadius * Math.sin(v)]);
+        }
+      }
+      for (let i = 0; i < majorSegments; i++) {
+        const nextI = (i + 1) % majorSegments;
+        for (let j = 0; j < minorSegments; j++) {
+          const nextJ = (j + 1) % minorSegments;
+          faces.push([
+            i * minorSegments + j,
+            nextI * minorSegments + j,
+            nextI * minorSegments + nextJ,
+            i * minorSegments + nextJ
+          ]);
+        }
+      }
+      break;
+    }
+
+    case 'sphere': {
+      const rings = 12;
+      const segments = 24;
+      for (let ring = 0; ring <= rings; ring++) {
+        const latitude = (ring / rings) * Math.PI;
+        for (let segment = 0; segment < segments; segment++) {
+          const longitude = (segment / segments) * Math.PI * 2;
+          vertices.push([
+            Math.sin(latitude) * Math.cos(longitude),
+            Math.cos(latitude),
+            Math.sin(latitude) * Math.sin(longitude)
+          ]);
+        }
+      }
+      for (let ring = 0; ring < rings; ring++) {
+        for (let segment = 0; segment < segments; segment++) {
+          const nextSegment = (segment + 1) % segments;
+          const current = ring * segments;
+          const next = (ring + 1) * segments;
+          // Polar rows collapse to triangles
+          if (ring === 0) {
+            faces.push([current + segment, next + nextSegment, next + segment]);
+          } else if (ring === rings - 1) {
+            faces.push([current + segment, current + nextSegment, next + segment]);
+          } else {
+            faces.push([current + segment, current + nextSegment, next + nextSegment, next + segment]);
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  return { vertices, faces };
+}
+
+/**
+ * Center a mesh on the origin and scale it to a bounding radius of 1
+ */
+function normalizeMesh(mesh: Mesh): Mesh {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const vertex of mesh.vertices) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], vertex[axis]);
+      max[axis] = Math.max(max[axis], vertex[axis]);
+    }
+  }
+
+  const center: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  let radius = 0;
+  for (const vertex of mesh.vertices) {
+    radius = Math.max(radius, Math.hypot(vertex[0] - center[0], vertex[1] - center[1], vertex[2] - center[2]));
+  }
+  const scale = radius > 0 ? 1 / radius : 1;
+
+  return {
+    vertices: mesh.vertices.map(vertex => [
+      (vertex[0] - center[0]) * scale,
+      (vertex[1] - center[1]) * scale,
+      (vertex[2] - center[2]) * scale
+    ] as Vec3),
+    faces: mesh.faces
+  };
+}
+
+/**
+ * Rotate around X, then Y, then Z (angles in radians)
+ */
+function rotate([x, y, z]: Vec3, angleX: number, angleY: number, angleZ: number): Vec3 {
+  const cosX = Math.cos(angleX);
+  const sinX = Math.sin(angleX);
+  const y1 = y * cosX - z * sinX;
+  const z1 = y * sinX + z * cosX;
+
+  const cosY = Math.cos(angleY);
+  const sinY = Math.sin(angleY);
+  const x2 = x * cosY + z1 * sinY;
+  const z2 = -x * sinY + z1 * cosY;
+
+  const cosZ = Math.cos(angleZ);
+  const sinZ = Math.sin(angleZ);
+  return [x2 * cosZ - y1 * sinZ, x2 * sinZ + y1 * cosZ, z2];
+}
+
+/**
+ * Generate 3D perspective animation frames
+ */
+export async function generatePerspective3D(
+  settings: Perspective3DSettings,
+  width: number,
+  height: number,
+  frameCount: number,
+  frameDuration: number,
+  seed: number,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
+): Promise<GeneratorFrame[]> {
+  const frames: GeneratorFrame[] = [];
+
+  // Calculate frame timing based on mode
+  const actualFrameCount = settings.timingMode === 'frameCount'
+    ? settings.frameCount
+    : frameCount;
+
+  const actualFrameDuration = settings.timingMode === 'duration'
+    ? Math.floor(settings.duration / actualFrameCount)
+    : frameDuration;
+
+  // Initialize seeded random
+  let randomState = seed;
+  const seededRandom = (): number => {
+    randomState = (randomState * 1103515245 + 12345) & 0x7fffffff;
+    return randomState / 0x7fffffff;
+  };
+
+  // Pinhole camera at the origin looking down +z, y up; focal length in rows
+  const tanHalfFov = Math.tan((Math.max(1, Math.min(170, settings.fieldOfView)) * Math.PI) / 360);
+  const focal = (height / 2) / tanHalfFov;
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  // Cells are narrower than they are tall, so one unit spans more columns than rows
+  const project = ([x, y, z]: Vec3): ProjectedVertex => ({
+    x: centerX + (x * focal) / (z * CELL_ASPECT_RATIO),
+    y: centerY - (y * focal) / z,
+    invZ: 1 / z
+  });
+
+  const intensity = new Float32Array(width * height);
+  const depthBuffer = new Float32Array(width * height);
+
+  // Plot a line, keeping the nearest sample in each cell
+  const drawLine = (from: ProjectedVertex, to: ProjectedVertex, fromValue: number, toValue: number) => {
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y))));
+    for (let step = 0; step <= steps; step++) {
+      const t = step / steps;
+      const x = Math.floor(from.x + (to.x - from.x) * t);
+      const y = Math.floor(from.y + (to.y - from.y) * t);
+      if (x < 0 || x >= width || y < 0 || y >= height) continue;
+
+      const index = y * width + x;
+      const invZ = from.invZ + (to.invZ - from.invZ) * t;
+      if (invZ >= depthBuffer[index]) {
+        depthBuffer[index] = invZ;
+        intensity[index] = fromValue + (toValue - fromValue) * t;
+      }
+    }
+  };
+
+  // Fill a triangle with a flat value, depth-tested at each cell center
+  const fillTriangle = (a: ProjectedVertex, b: ProjectedVertex, c: ProjectedVertex, value: number) => {
+    const area = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+    if (Math.abs(area) < 1e-9) return;
+
+    const minX = Math.max(0, Math.floor(Math.min(a.x, b.x, c.x)));
+    const maxX = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x, c.x)));
+    const minY = Math.max(0, Math.floor(Math.min(a.y, b.y, c.y)));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y, c.y)));
+
+    for (let y = minY; y <= maxY; y++) {
+      const sampleY = y + 0.5;
+      for (let x = minX; x <= maxX; x++) {
+        const sampleX = x + 0.5;
+        const weightA = ((c.x - b.x) * (sampleY - b.y) - (c.y - b.y) * (sampleX - b.x)) / area;
+        const weightB = ((a.x - c.x) * (sampleY - c.y) - (a.y - c.y) * (sampleX - c.x)) / area;
+        const weightC = 1 - weightA - weightB;
+        if (weightA < 0 || weightB < 0 || weightC < 0) continue;
+
+        const index = y * width + x;
+        const invZ = weightA * a.invZ + weightB * b.invZ + weightC * c.invZ;
+        if (invZ > depthBuffer[index]) {
+          depthBuffer[index] = invZ;
+          intensity[index] = value;
+        }
+      }
+    }
+  };
+
+  // Scene setup
+  const halfSpanY = tanHalfFov;
+  const halfSpanX = tanHalfFov * (width * CELL_ASPECT_RATIO) / height;
+  const stars = settings.mode === 'starfield'
+    ? Array.from({ length: Math.max(0, Math.round(settings.starCount)) }, () => ({
+        x: (seededRandom() * 2 - 1) * halfSpanX,
+        y: (seededRandom() * 2 - 1) * halfSpanY,
+        z: seededRandom()
+      }))
+    : [];
+
+  let mesh: Mesh | null = null;
+  if (settings.mode === 'mesh') {
+    const sourceMesh = settings.meshPrimitive === 'obj'
+      ? parseObjMesh(settings.objSource)
+      : createPrimitiveMesh(settings.meshPrimitive);
+    if (!sourceMesh) {
+      throw new Error(settings.objSource.trim()
+        ? 'The OBJ file contains no faces (expected "v" and "f" lines)'
+        : 'Import an OBJ file to render a custom mesh');
+    }
+    mesh = normalizeMesh(sourceMesh);
+  }
+  const meshDistance = Math.max(MIN_MESH_DISTANCE, 1 / (Math.max(0.05, settings.meshScale) * tanHalfFov));
+
+  // Tunnel tiles need an even count around the wall for the checkerboard to meet at the seam
+  const tunnelSegments = Math.max(2, Math.round(settings.tunnelSegments / 2) * 2);
+
+  // Generate each frame
+  for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
+    const t = frameIdx / actualFrameCount; // 0 to 1
+
+    intensity.fill(0);
+    depthBuffer.fill(0);
+
+    if (settings.mode === 'starfield') {
+      const travel = Math.round(settings.starSpeed) * t;
+      for (const star of stars) {
+        // Depth fraction 1 = far, 0 = passing the camera; wraps back to the far plane
+        const depthFraction = (((star.z - travel) % 1) + 1) % 1;
+        const toDepth = (fraction: number) => STAR_NEAR_DEPTH + (1 - STAR_NEAR_DEPTH) * fraction;
+
+        const head = project([star.x, star.y, toDepth(depthFraction)]);
+        const headValue = 1 - depthFraction;
+        const tailFraction = Math.min(1, depthFraction + settings.starTrail * STAR_TRAIL_DEPTH);
+        const tail = project([star.x, star.y, toDepth(tailFraction)]);
+
+        drawLine(tail, head, (1 - tailFraction) * 0.3, headValue);
+      }
+    } else if (settings.mode === 'tunnel') {
+      const wallRotation = settings.tunnelTwist * t * Math.PI * 2;
+      const travel = Math.round(settings.tunnelSpeed) * 2 * t;
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const dx = (x + 0.5 - centerX) * CELL_ASPECT_RATIO;
+          const dy = y + 0.5 - centerY;
+          const distance = Math.sqrt(dx * dx + dy * dy);
+          if (distance === 0) continue;
+
+          // Wall of radius 1: a cell at this distance from the center sees it at this depth
+          const depth = focal / distance;
+          const around = (((Math.atan2(dy, dx) + wallRotation) / (Math.PI * 2)) % 1 + 1) % 1 * tunnelSegments;
+          const along = depth + travel;
+
+          const texture = settings.tunnelPattern === 'checker'
+            ? ((Math.floor(around) + Math.floor(along)) & 1 ? 1 : 0.25)
+            : 0.5 + 0.5 * Math.cos(along * Math.PI * 2);
+
+          intensity[y * width + x] = texture * Math.exp(-depth * TUNNEL_FOG);
+        }
+      }
+    } else if (mesh) {
+      const angleX = Math.round(settings.rotationX) * t * Math.PI * 2;
+      const angleY = Math.round(settings.rotationY) * t * Math.PI * 2;
+      const angleZ = Math.round(settings.rotationZ) * t * Math.PI * 2;
+
+      const cameraVertices = mesh.vertices.map(vertex => {
+        const rotated = rotate(vertex, angleX, angleY, angleZ);
+        return [rotated[0], rotated[1], rotated[2] + meshDistance] as Vec3;
+      });
+      const projected = cameraVertices.map(project);
+
+      for (const face of mesh.faces) {
+        if (settings.meshRenderStyle === 'wireframe') {
+          // Nearer edges are brighter
+          const edgeValue = (index: number) => {
+            const closeness = (meshDistance + 1 - cameraVertices[index][2]) / 2;
+            return settings.ambientLight + (1 - settings.ambientLight) * Math.max(0, Math.min(1, closeness));
+          };
+          for (let i = 0; i < face.length; i++) {
+            const from = face[i];
+            const to = face[(i + 1) % face.length];
+            drawLine(projected[from], projected[to], edgeValue(from), edgeValue(to));
+          }
+          continue;
+        }
+
+        // Face normal (Newell's method handles non-planar OBJ polygons), turned toward the camera
+        const normal: Vec3 = [0, 0, 0];
+        const centroid: Vec3 = [0, 0, 0];
+        for (let i = 0; i < face.length; i++) {
+          const current = cameraVertices[face[i]];
+          const next = cameraVertices[face[(i + 1) % face.length]];
+          normal[0] += (current[1] - next[1]) * (current[2] + next[2]);
+          normal[1] += (current[2] - next[2]) * (current[0] + next[0]);
+          normal[2] += (current[0] - next[0]) * (current[1] + next[1]);
+          centroid[0] += current[0];
+          centroid[1] += current[1];
+          centroid[2] += current[2];
+        }
+        let unitNormal = normalize(normal);
+        if (unitNormal[0] * centroid[0] + unitNormal[1] * centroid[1] + unitNormal[2] * centroid[2] > 0) {
+          unitNormal = [-unitNormal[0], -unitNormal[1], -unitNormal[2]];
+        }
+
+        const diffuse = Math.max(0,
+          unitNormal[0] * LIGHT_DIRECTION[0] +
+          unitNormal[1] * LIGHT_DIRECTION[1] +
+          unitNormal[2] * LIGHT_DIRECTION[2]
+        );
+        const shade = settings.ambientLight + (1 - settings.ambientLight) * diffuse;
+
+        for (let i = 1; i < face.length - 1; i++) {
+          fillTriangle(projected[face[0]], projected[face[i]], projected[face[i + 1]], shade);
+        }
+      }
+    }
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let index = 0; index < intensity.length; index++) {
+      let value = intensity[index];
+
+      // Contrast: Scale around midpoint (0.5)
+      value = (value - 0.5) * settings.contrast + 0.5;
+
+      // Brightness: Simple addition
+      value += settings.brightness;
+
+      const byte = Math.round(Math.max(0, Math.min(1, value)) * 255);
+      const pixelIdx = index * 4;
+      data[pixelIdx] = byte;     // R
+      data[pixelIdx + 1] = byte; // G
+      data[pixelIdx + 2] = byte; // B
+      data[pixelIdx + 3] = 255;  // A (fully opaque)
+    }
+
+    frames.push({
+      width,
+      height,
+      data,
+      frameDuration: actualFrameDuration
+    });
+  }
+
+  return frames;
+}
@@ -0,0 +1,126 @@
+/**
+ * plasma.ts - Plasma generator implementation
+ *
+ * Classic demoscene plasma: several linear and radial sine fields are summed and the
+ * result is run through a cycling palette ramp. Field speeds and palette cycles are
+ * whole turns per loop, so whole-number settings loop seamlessly.
+ */
+
+import type { GeneratorFrame, PlasmaSettings } from '../../types/generators';
+import { CELL_ASPECT_RATIO } from '../fontMetrics';
+
+interface PlasmaField {
+  kind: 'linear' | 'radial';
+  directionX: number;  // Unit direction (linear fields)
+  directionY: number;
+  centerX: number;     // Center in aspect-corrected units (radial fields)
+  centerY: number;
+  frequency: number;   // Radians per aspect-corrected cell
+  phase: number;       // Starting phase in radians
+  turns: number;       // Signed phase turns per loop
+}
+
+// Spatial frequency at scale 1.0, in radians per aspect-corrected cell
+const BASE_FREQUENCY = 0.25;
+
+/**
+ * Generate plasma animation frames
+ */
+export async function generatePlasma(
+  settings: PlasmaSettings,
+  width: number,
+  height: number,
+  frameCount: number,
+  frameDuration: number,
+  seed: number,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
+): Promise<GeneratorFrame[]> {
+  const frames: GeneratorFrame[] = [];
+
+  // Calculate frame timing based on mode
+  const actualFrameCount = settings.timingMode === 'frameCount'
+    ? settings.frameCount
+    : frameCount;
+
+  const actualFrameDuration = settings.timingMode === 'duration'
+    ? Math.floor(settings.duration / actualFrameCount)
+    : frameDuration;
+
+  // Initialize seeded random
+  let randomState = seed;
+  const seededRandom = (): number => {
+    randomState = (randomState * 1103515245 + 12345) & 0x7fffffff;
+    return randomState / 0x7fffffff;
+  };
+
+  // Alternate linear and radial fields with seeded directions, centers and frequencies
+  const fieldCount = Math.max(1, Math.round(settings.complexity));
+  const fields: PlasmaField[] = [];
+  for (let i = 0; i < fieldCount; i++) {
+    const angle = seededRandom() * Math.PI * 2;
+    fields.push({
+      kind: i % 2 === 0 ? 'linear' : 'radial',
+      directionX: Math.cos(angle),
+      directionY: Math.sin(angle),
+      centerX: seededRandom() * width * CELL_ASPECT_RATIO,
+      centerY: seededRandom() * height,
+      frequency: settings.scale * BASE_FREQUENCY * (0.5 + seededRandom()),
+      phase: seededRandom() * Math.PI * 2,
+      turns: Math.round(settings.speed) * (1 + (i % 2)) * (seededRandom() < 0.5 ? -1 : 1)
+    });
+  }
+
+  const paletteCycles = Math.round(settings.paletteCycles);
+
+  // Generate each frame
+  for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
+    const t = frameIdx / actualFrameCount; // 0 to 1
+
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const px = x * CELL_ASPECT_RATIO;
+
+        let sum = 0;
+        for (const field of fields) {
+          const position = field.kind === 'linear'
+            ? px * field.directionX + y * field.directionY
+            : Math.sqrt((px - field.centerX) ** 2 + (y - field.centerY) ** 2);
+          sum += Math.sin(position * field.frequency + field.phase + t * field.turns * Math.PI * 2);
+        }
+
+        // Map -1..1 to a palette position, then rotate the palette over time
+        const palettePosition = (sum / fields.length + 1) * 0.5 + paletteCycles * t;
+        let intensity = settings.paletteMode === 'bands'
+          ? palettePosition - Math.floor(palettePosition)
+          : 0.5 + 0.5 * Math.sin(palettePosition * Math.PI * 2);
+
+        // Contrast: Scale around midpoint (0.5)
+        intensity = (intensity - 0.5) * settings.contrast + 0.5;
+
+        // Brightness: Simple addition
+        intensity += settings.brightness;
+
+        const value = Math.round(Math.max(0, Math.min(1, intensity)) * 255);
+
+        const pixelIdx = (y * width + x) * 4;
+        data[pixelIdx] = value;     // R
+        data[pixelIdx + 1] = value; // G
+        data[pixelIdx + 2] = value; // B
+        data[pixelIdx + 3] = 255;   // A (fully opaque)
+      }
+    }
+
+    frames.push({
+      width,
+      height,
+      data,
+      frameDuration: actualFrameDuration
+    });
+  }
+
+  return frames;
+}
@@ -146,8 +146,8 @@ export async function generateRadioWaves(
   height: number,
   frameCount: number,
   frameDuration: number,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _seed: number // Reserved for future deterministic randomness
+  _seed: number, // Reserved for future deterministic randomness
+  onProgress?: (frameIndex: number, totalFrames: number) => void
 ): Promise<GeneratorFrame[]> {
   const frames: GeneratorFrame[] = [];
   
@@ -166,6 +166,8 @@ export async function generateRadioWaves(
   
   // Generate each frame
   for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
     const t = frameIdx / actualFrameCount; // 0 to 1
     
     // Calculate wave phase offset for this frame
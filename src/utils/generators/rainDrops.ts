@@ -26,7 +26,8 @@ export async function generateRainDrops(
   height: number,
   frameCount: number,
   frameDuration: number,
-  seed: number
+  seed: number,
+  onProgress?: (frameIndex: number, totalFrames: number) => void
 ): Promise<GeneratorFrame[]> {
   const frames: GeneratorFrame[] = [];
   
@@ -52,6 +53,8 @@ export async function generateRainDrops(
   
   // Generate each frame
   for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
     // Calculate spawn probability per frame
     // dropFrequency is drops per second, convert to probability per frame
     const baseSpawnProbability = settings.dropFrequency / (1000 / actualFrameDuration);
@@ -16,8 +16,8 @@ export async function generateTurbulentNoise(
   height: number,
   frameCount: number,
   frameDuration: number,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _seed: number // Reserved for deterministic seeding
+  _seed: number, // Reserved for deterministic seeding
+  onProgress?: (frameIndex: number, totalFrames: number) => void
 ): Promise<GeneratorFrame[]> {
   const frames: GeneratorFrame[] = [];
   
@@ -36,6 +36,8 @@ export async function generateTurbulentNoise(
   
   // Generate each frame
   for (let frameIdx = 0; frameIdx < actualFrameCount; frameIdx++) {
+    onProgress?.(frameIdx, actualFrameCount);
+
     const t = frameIdx / actualFrameCount; // 0 to 1
     
     // Calculate time offset for evolution
@@ -0,0 +1,404 @@
+/**
+ * GIF Encoder Utility
+ * Minimal animated GIF89a writer for the export pipeline: global palette quantization,
+ * optional Floyd-Steinberg dithering, LZW compression and NETSCAPE2.0 looping
+ */
+
+export type GifColor = [number, number, number];
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  palette: GifColor[];
+  repeat: number | null; // 0 = loop forever, n = repeat n extra times, null = play once
+}
+
+interface HistogramEntry {
+  color: number; // 0xRRGGBB
+  count: number;
+}
+
+// Upper bound of pixels sampled when building the palette
+const MAX_PALETTE_SAMPLES = 2_000_000;
+const MIN_FRAME_DELAY_CS = 2; // Browsers clamp smaller delays to 100ms
+const MAX_LZW_CODE = 4096;
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(64 * 1024);
+  private length = 0;
+
+  writeByte(value: number): void {
+    if (this.length >= this.buffer.length) {
+      const next = new Uint8Array(this.buffer.length * 2);
+      next.set(this.buffer);
+      this.buffer = next;
+    }
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeBytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) {
+      this.writeByte(values[i]);
+    }
+  }
+
+  writeUint16(value: number): void {
+    this.writeByte(value & 0xff);
+    this.writeByte((value >> 8) & 0xff);
+  }
+
+  writeString(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.writeByte(value.charCodeAt(i));
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const toRgb = (color: number): GifColor => [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+
+/**
+ * Median cut quantization over a color histogram
+ */
+const medianCut = (entries: HistogramEntry[], maxColors: number): GifColor[] => {
+  const boxes: HistogramEntry[][] = [entries];
+
+  const channelRange = (box: HistogramEntry[], shift: number): number => {
+    let min = 255;
+    let max = 0;
+    box.forEach(({ color }) => {
+      const value = (color >> shift) & 0xff;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    return max - min;
+  };
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel spread
+    let targetIndex = -1;
+    let targetShift = 0;
+    let targetRange = 0;
+
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      [16, 8, 0].forEach(shift => {
+        const range = channelRange(box, shift);
+        if (range > targetRange) {
+          targetRange = range;
+          targetIndex = index;
+          targetShift = shift;
+        }
+      });
+    });
+
+    if (targetIndex === -1) break;
+
+    const box = boxes[targetIndex];
+    box.sort((a, b) => ((a.color >> targetShift) & 0xff) - ((b.color >> targetShift) & 0xff));
+
+    const total = box.reduce((sum, entry) => sum + entry.count, 0);
+    let accumulated = 0;
+    let splitIndex = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      accumulated += box[i].count;
+      if (accumulated >= total / 2) {
+        splitIndex = i + 1;
+        break;
+      }
+      splitIndex = i + 1;
+    }
+
+    boxes.splice(targetIndex, 1, box.slice(0, splitIndex), box.slice(splitIndex));
+  }
+
+  return boxes.map(box => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let count = 0;
+    box.forEach(({ color, count: weight }) => {
+      r += ((color >> 16) & 0xff) * weight;
+      g += ((color >> 8) & 0xff) * weight;
+      b += (color & 0xff) * weight;
+      count += weight;
+    });
+    return [Math.round(r / count), Math.round(g / count), Math.round(b / count)] as GifColor;
+  });
+};
+
+/**
+ * Build a global palette shared by all frames so colors don't flicker between frames.
+ * Returns the exact colors when the animation uses no more than `maxColors`.
+ */
+export const buildGifPalette = (frames: Uint8ClampedArray[], maxColors: number): GifColor[] => {
+  const paletteSize = Math.max(2, Math.min(256, Math.floor(maxColors)));
+  const totalPixels = frames.reduce((sum, frame) => sum + frame.length / 4, 0);
+  const step = Math.max(1, Math.floor(totalPixels / MAX_PALETTE_SAMPLES));
+
+  const histogram = new Map<number, number>();
+  frames.forEach(frame => {
+    for (let i = 0; i < frame.length; i += 4 * step) {
+      const color = (frame[i] << 16) | (frame[i + 1] << 8) | frame[i + 2];
+      histogram.set(color, (histogram.get(color) ?? 0) + 1);
+    }
+  });
+
+  const entries = Array.from(histogram.entries()).map(([color, count]) => ({ color, count }));
+  if (entries.length === 0) {
+    return [[0, 0, 0]];
+  }
+
+  if (entries.length <= paletteSize) {
+    return entries.map(entry => toRgb(entry.color));
+  }
+
+  return medianCut(entries, paletteSize);
+};
+
+/**
+ * Animated GIF writer. Add frames in order, then call `finish()` for the file bytes.
+ */
+export class GifEncoder {
+  private writer = new ByteWriter();
+  private width: number;
+  private height: number;
+  private palette: GifColor[];
+  private tableBits: number;
+  private exactLookup = new Map<number, number>();
+  private nearestCache = new Int16Array(32768).fill(-1);
+  private elapsedMs = 0;
+  private elapsedCs = 0;
+
+  constructor(options: GifEncoderOptions) {
+    this.width = Math.max(1, Math.round(options.width));
+    this.height = Math.max(1, Math.round(options.height));
+    this.palette = options.palette.slice(0, 256);
+    this.tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, this.palette.length))));
+
+    this.palette.forEach(([r, g, b], index) => {
+      const key = (r << 16) | (g << 8) | b;
+      if (!this.exactLookup.has(key)) {
+        this.exactLookup.set(key, index);
+      }
+    });
+
+    this.writeHeader(options.repeat);
+  }
+
+  /**
+   * Add a frame of RGBA pixels (width * height * 4) shown for `durationMs`
+   */
+  addFrame(rgba: Uint8ClampedArray, durationMs: number, dither = false): void {
+    const indices = dither ? this.ditherPixels(rgba) : this.mapPixels(rgba);
+
+    // Round on the cumulative timeline so per-frame rounding doesn't drift
+    this.elapsedMs += Math.max(0, durationMs);
+    const targetCs = Math.round(this.elapsedMs / 10);
+    const delayCs = Math.min(0xffff, Math.max(MIN_FRAME_DELAY_CS, targetCs - this.elapsedCs));
+    this.elapsedCs += delayCs;
+
+    // Graphic control extension: no transparency, leave frame in place
+    this.writer.writeBytes([0x21, 0xf9, 0x04, 0x04]);
+    this.writer.writeUint16(delayCs);
+    this.writer.writeBytes([0x00, 0x00]);
+
+    // Image descriptor using the global color table
+    this.writer.writeByte(0x2c);
+    this.writer.writeUint16(0);
+    this.writer.writeUint16(0);
+    this.writer.writeUint16(this.width);
+    this.writer.writeUint16(this.height);
+    this.writer.writeByte(0x00);
+
+    this.writeLzw(indices, Math.max(2, this.tableBits));
+  }
+
+  finish(): Uint8Array {
+    this.writer.writeByte(0x3b);
+    return this.writer.toUint8Array();
+  }
+
+  private writeHeader(repeat: number | null): void {
+    this.writer.writeString('GIF89a');
+    this.writer.writeUint16(this.width);
+    this.writer.writeUint16(this.height);
+    // Global color table present, color resolution and table size
+    this.writer.writeByte(0x80 | ((this.tableBits - 1) << 4) | (this.tableBits - 1));
+    this.writer.writeByte(0x00); // Background color index
+    this.writer.writeByte(0x00); // Pixel aspect ratio
+
+    const tableSize = 1 << this.tableBits;
+    for (let i = 0; i < tableSize; i++) {
+      const color = this.palette[i] ?? [0, 0, 0];
+      this.writer.writeBytes(color);
+    }
+
+    if (repeat !== null) {
+      this.writer.writeBytes([0x21, 0xff, 0x0b]);
+      this.writer.writeString('NETSCAPE2.0');
+      this.writer.writeBytes([0x03, 0x01]);
+      this.writer.writeUint16(Math.max(0, Math.min(0xffff, repeat)));
+      this.writer.writeByte(0x00);
+    }
+  }
+
+  private findNearest(r: number, g: number, b: number): number {
+    const exact = this.exactLookup.get((r << 16) | (g << 8) | b);
+    if (exact !== undefined) return exact;
+
+    const cacheKey = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = this.nearestCache[cacheKey];
+    if (cached !== -1) return cached;
+
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < this.palette.length; i++) {
+      const [pr, pg, pb] = this.palette[i];
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = i;
+      }
+    }
+
+    this.nearestCache[cacheKey] = bestIndex;
+    return bestIndex;
+  }
+
+  private mapPixels(rgba: Uint8ClampedArray): Uint8Array {
+    const indices = new Uint8Array(this.width * this.height);
+    for (let i = 0; i < indices.length; i++) {
+      const offset = i * 4;
+      indices[i] = this.findNearest(rgba[offset], rgba[offset + 1], rgba[offset + 2]);
+    }
+    return indices;
+  }
+
+  /**
+   * Floyd-Steinberg error diffusion against the global palette
+   */
+  private ditherPixels(rgba: Uint8ClampedArray): Uint8Array {
+    const { width, height } = this;
+    const indices = new Uint8Array(width * height);
+    const working = new Float32Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+      working[i * 3] = rgba[i * 4];
+      working[i * 3 + 1] = rgba[i * 4 + 1];
+      working[i * 3 + 2] = rgba[i * 4 + 2];
+    }
+
+    const diffuse = (x: number, y: number, errors: number[], factor: number) => {
+      if (x < 0 || x >= width || y >= height) return;
+      const offset = (y * width + x) * 3;
+      working[offset] += errors[0] * factor;
+      working[offset + 1] += errors[1] * factor;
+      working[offset + 2] += errors[2] * factor;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = y * width + x;
+        const offset = pixel * 3;
+        const r = Math.max(0, Math.min(255, Math.round(working[offset])));
+        const g = Math.max(0, Math.min(255, Math.round(working[offset + 1])));
+        const b = Math.max(0, Math.min(255, Math.round(working[offset + 2])));
+
+        const index = this.findNearest(r, g, b);
+        indices[pixel] = index;
+
+        const [pr, pg, pb] = this.palette[index];
+        const errors = [r - pr, g - pg, b - pb];
+        diffuse(x + 1, y, errors, 7 / 16);
+        diffuse(x - 1, y + 1, errors, 3 / 16);
+        diffuse(x, y + 1, errors, 5 / 16);
+        diffuse(x + 1, y + 1, errors, 1 / 16);
+      }
+    }
+
+    return indices;
+  }
+
+  /**
+   * Variable-length LZW compression written as GIF data sub-blocks
+   */
+  private writeLzw(indices: Uint8Array, minCodeSize: number): void {
+    const writer = this.writer;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let dictionary = new Map<number, number>();
+
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const block: number[] = [];
+
+    const flushBlock = () => {
+      if (block.length === 0) return;
+      writer.writeByte(block.length);
+      writer.writeBytes(block);
+      block.length = 0;
+    };
+
+    const emit = (code: number) => {
+      bitBuffer |= code << bitCount;
+      bitCount += codeSize;
+      while (bitCount >= 8) {
+        block.push(bitBuffer & 0xff);
+        bitBuffer >>>= 8;
+        bitCount -= 8;
+        if (block.length === 255) flushBlock();
+      }
+    };
+
+    writer.writeByte(minCodeSize);
+    emit(clearCode);
+
+    if (indices.length > 0) {
+      let prefix = indices[0];
+
+      for (let i = 1; i < indices.length; i++) {
+        const value = indices[i];
+        const key = (prefix << 8) | value;
+        const code = dictionary.get(key);
+
+        if (code !== undefined) {
+          prefix = code;
+          continue;
+        }
+
+        emit(prefix);
+
+        if (nextCode === MAX_LZW_CODE) {
+          emit(clearCode);
+          dictionary = new Map<number, number>();
+          codeSize = minCodeSize + 1;
+          nextCode = endCode + 1;
+        } else {
+          if (nextCode >= 1 << codeSize) codeSize++;
+          dictionary.set(key, nextCode++);
+        }
+
+        prefix = value;
+      }
+
+      emit(prefix);
+    }
+
+    emit(endCode);
+    if (bitCount > 0) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+    }
+    flushBlock();
+    writer.writeByte(0x00); // Block terminator
+  }
+}
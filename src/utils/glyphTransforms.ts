@@ -0,0 +1,140 @@
+/**
+ * Glyph transforms for flipping and rotating ASCII art
+ *
+ * Moving cells isn't enough when art is mirrored or rotated: directional glyphs
+ * (`/`, `(`, `┌`, `▌`, `→`) have to be swapped for their mirrored/rotated
+ * counterparts. Box-drawing characters are described by their line weight in each
+ * direction so every mirror/rotation is derived from one table.
+ */
+
+type Direction = 0 | 1 | 2 | 3; // up, right, down, left
+
+// Line weight per direction (up, right, down, left): 0 none, 1 light, 2 heavy, 3 double
+const BOX_GLYPH_WEIGHTS: Array<[string, string]> = [
+  // Light
+  ['─', '0101'], ['│', '1010'], ['┌', '0110'], ['┐', '0011'], ['└', '1100'], ['┘', '1001'],
+  ['├', '1110'], ['┤', '1011'], ['┬', '0111'], ['┴', '1101'], ['┼', '1111'],
+  ['╴', '0001'], ['╵', '1000'], ['╶', '0100'], ['╷', '0010'],
+  // Heavy
+  ['━', '0202'], ['┃', '2020'], ['┏', '0220'], ['┓', '0022'], ['┗', '2200'], ['┛', '2002'],
+  ['┣', '2220'], ['┫', '2022'], ['┳', '0222'], ['┻', '2202'], ['╋', '2222'],
+  ['╸', '0002'], ['╹', '2000'], ['╺', '0200'], ['╻', '0020'],
+  // Double
+  ['═', '0303'], ['║', '3030'], ['╔', '0330'], ['╗', '0033'], ['╚', '3300'], ['╝', '3003'],
+  ['╠', '3330'], ['╣', '3033'], ['╦', '0333'], ['╩', '3303'], ['╬', '3333'],
+  // Mixed single/double
+  ['╒', '0310'], ['╓', '0130'], ['╕', '0013'], ['╖', '0031'],
+  ['╘', '1300'], ['╙', '3100'], ['╛', '1003'], ['╜', '3001'],
+  ['╞', '1310'], ['╟', '3130'], ['╡', '1013'], ['╢', '3031'],
+  ['╤', '0313'], ['╥', '0131'], ['╧', '1303'], ['╨', '3101'],
+  ['╪', '1313'], ['╫', '3131']
+];
+
+// Rounded corners use the same connection model in their own family
+const ARC_GLYPH_WEIGHTS: Array<[string, string]> = [
+  ['╭', '0110'], ['╮', '0011'], ['╰', '1100'], ['╯', '1001']
+];
+
+const buildWeightLookup = (glyphs: Array<[string, string]>) => ({
+  byGlyph: new Map(glyphs),
+  byWeights: new Map(glyphs.map(([glyph, weights]) => [weights, glyph]))
+});
+
+const BOX_LOOKUPS = [buildWeightLookup(BOX_GLYPH_WEIGHTS), buildWeightLookup(ARC_GLYPH_WEIGHTS)];
+
+/**
+ * Remap a box-drawing glyph by moving each direction's line weight
+ * `source[d]` is the direction whose weight ends up in direction d
+ */
+const remapBoxGlyph = (char: string, source: [Direction, Direction, Direction, Direction]): string | null => {
+  for (const lookup of BOX_LOOKUPS) {
+    const weights = lookup.byGlyph.get(char);
+    if (weights) {
+      const remapped = source.map(direction => weights[direction]).join('');
+      return lookup.byWeights.get(remapped) ?? char;
+    }
+  }
+  return null;
+};
+
+const buildPairMap = (pairs: Array<[string, string]>): Map<string, string> => {
+  const map = new Map<string, string>();
+  pairs.forEach(([a, b]) => {
+    map.set(a, b);
+    map.set(b, a);
+  });
+  return map;
+};
+
+const buildCycleMap = (cycles: string[][]): Map<string, string> => {
+  const map = new Map<string, string>();
+  cycles.forEach(cycle => {
+    cycle.forEach((glyph, index) => {
+      map.set(glyph, cycle[(index + 1) % cycle.length]);
+    });
+  });
+  return map;
+};
+
+// Glyphs swapped when mirroring left <-> right
+const HORIZONTAL_MIRROR_PAIRS = buildPairMap([
+  ['/', '\\'], ['(', ')'], ['[', ']'], ['{', '}'], ['<', '>'],
+  ['«', '»'], ['‹', '›'], ['⟨', '⟩'], ['⌐', '¬'], ['b', 'd'], ['p', 'q'],
+  ['╱', '╲'],
+  ['▌', '▐'], ['▖', '▗'], ['▘', '▝'], ['▙', '▟'], ['▛', '▜'], ['▚', '▞'],
+  ['←', '→'], ['↖', '↗'], ['↙', '↘'], ['⇐', '⇒'],
+  ['◀', '▶'], ['◁', '▷'], ['◄', '►'], ['◢', '◣'], ['◤', '◥']
+]);
+
+// Glyphs swapped when mirroring top <-> bottom
+const VERTICAL_MIRROR_PAIRS = buildPairMap([
+  ['/', '\\'], ['^', 'v'], ['∧', '∨'], ['b', 'p'], ['d', 'q'], ['M', 'W'],
+  ['╱', '╲'],
+  ['▀', '▄'], ['▖', '▘'], ['▗', '▝'], ['▙', '▛'], ['▟', '▜'], ['▚', '▞'],
+  ['↑', '↓'], ['↖', '↙'], ['↗', '↘'], ['⇑', '⇓'],
+  ['▲', '▼'], ['△', '▽'], ['◢', '◥'], ['◣', '◤']
+]);
+
+// One clockwise quarter turn on screen
+const CLOCKWISE_CYCLES = buildCycleMap([
+  ['-', '|'], ['/', '\\'], ['╱', '╲'],
+  ['^', '>', 'v', '<'],
+  ['┄', '┆'], ['┅', '┇'], ['┈', '┊'], ['┉', '┋'], ['╌', '╎'], ['╍', '╏'],
+  ['▀', '▐', '▄', '▌'],
+  ['▘', '▝', '▗', '▖'],
+  ['▛', '▜', '▟', '▙'],
+  ['▚', '▞'],
+  ['↑', '→', '↓', '←'], ['↖', '↗', '↘', '↙'], ['⇑', '⇒', '⇓', '⇐'],
+  ['▲', '▶', '▼', '◀'], ['△', '▷', '▽', '◁'],
+  ['◤', '◥', '◢', '◣']
+]);
+
+/**
+ * Mirror a glyph left <-> right (used by horizontal flips)
+ */
+export const mirrorGlyphHorizontal = (char: string): string =>
+  remapBoxGlyph(char, [0, 3, 2, 1]) ?? HORIZONTAL_MIRROR_PAIRS.get(char) ?? char;
+
+/**
+ * Mirror a glyph top <-> bottom (used by vertical flips)
+ */
+export const mirrorGlyphVertical = (char: string): string =>
+  remapBoxGlyph(char, [2, 1, 0, 3]) ?? VERTICAL_MIRROR_PAIRS.get(char) ?? char;
+
+/**
+ * Rotate a glyph 90° clockwise
+ */
+export const rotateGlyphClockwise = (char: string): string =>
+  remapBoxGlyph(char, [3, 0, 1, 2]) ?? CLOCKWISE_CYCLES.get(char) ?? char;
+
+/**
+ * Rotate a glyph by a number of clockwise quarter turns (negative turns rotate counter-clockwise)
+ */
+export const rotateGlyph = (char: string, quarterTurns: number): string => {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  let result = char;
+  for (let i = 0; i < turns; i++) {
+    result = rotateGlyphClockwise(result);
+  }
+  return result;
+};
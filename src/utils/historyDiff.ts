@@ -0,0 +1,145 @@
+import type { AnyHistoryAction, CanvasHistoryAction, Cell, CellDiff } from '../types';
+
+/**
+ * Delta helpers for undo history
+ *
+ * Canvas edits are stored as per-cell diffs instead of full before/after
+ * snapshots, and timeline entries share frame objects with the project
+ * (frames are replaced, never mutated, by the stores). A canvas_edit keeps its
+ * `previousCanvasData` snapshot only until the edit is finalized.
+ */
+
+// Rough cost of one stored cell entry (key string, cell object and map overhead)
+const ESTIMATED_BYTES_PER_CELL = 128;
+
+const cellsEqual = (a: Cell | undefined, b: Cell | undefined): boolean => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return a.char === b.char && a.color === b.color && a.bgColor === b.bgColor;
+};
+
+/**
+ * Cells that differ between two canvas states
+ */
+export const createCellDiff = (before: Map<string, Cell>, after: Map<string, Cell>): CellDiff => {
+  const diff: CellDiff = new Map();
+
+  before.forEach((cell, key) => {
+    const nextCell = after.get(key);
+    if (!cellsEqual(cell, nextCell)) {
+      diff.set(key, { before: cell, after: nextCell });
+    }
+  });
+
+  after.forEach((cell, key) => {
+    if (!before.has(key)) {
+      diff.set(key, { after: cell });
+    }
+  });
+
+  return diff;
+};
+
+/**
+ * Apply a diff to a canvas state, forwards (redo) or backwards (undo)
+ * Returns a new map; the base is left untouched
+ */
+export const applyCellDiff = (base: Map<string, Cell>, diff: CellDiff, isRedo: boolean): Map<string, Cell> => {
+  const result = new Map(base);
+
+  diff.forEach((change, key) => {
+    const target = isRedo ? change.after : change.before;
+    if (target) {
+      result.set(key, target);
+    } else {
+      result.delete(key);
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Replace a canvas_edit's snapshots with a diff, in place
+ * No-op for entries that are already compact or lack the "before" snapshot
+ */
+export const compactCanvasHistoryAction = (
+  action: CanvasHistoryAction,
+  newCanvasData?: Map<string, Cell>
+): void => {
+  const { data } = action;
+  if (data.cellDiff || !data.previousCanvasData) return;
+
+  const after = newCanvasData ?? data.newCanvasData;
+  if (!after) return;
+
+  data.cellDiff = createCellDiff(data.previousCanvasData, after);
+  delete data.previousCanvasData;
+  delete data.newCanvasData;
+};
+
+/**
+ * Canvas state to apply when undoing or redoing a canvas_edit
+ * `currentData` is the edited frame's state right now, which equals the state
+ * after the edit when undoing and before it when redoing
+ */
+export const resolveCanvasEditData = (
+  action: CanvasHistoryAction,
+  isRedo: boolean,
+  currentData: Map<string, Cell>
+): Map<string, Cell> => {
+  // Entries that were never finalized are compacted against the current state on undo
+  if (!isRedo) {
+    compactCanvasHistoryAction(action, currentData);
+  }
+
+  const { cellDiff, previousCanvasData, newCanvasData } = action.data;
+  if (cellDiff) {
+    return applyCellDiff(currentData, cellDiff, isRedo);
+  }
+
+  if (isRedo && !newCanvasData && process.env.NODE_ENV !== 'production') {
+    console.warn('[history] Redo encountered legacy canvas_edit entry without newCanvasData; using previousCanvasData fallback');
+  }
+
+  return (isRedo ? newCanvasData ?? previousCanvasData : previousCanvasData) ?? currentData;
+};
+
+/**
+ * Estimated memory held by a value inside history data
+ * Maps and frames already counted (shared between entries) are skipped
+ */
+const estimateValueSize = (value: unknown, seen: Set<object>, depth: number): number => {
+  if (!value || typeof value !== 'object' || depth > 6) return 0;
+  if (seen.has(value)) return 0;
+  seen.add(value);
+
+  if (value instanceof Map) {
+    return value.size * ESTIMATED_BYTES_PER_CELL;
+  }
+
+  if (value instanceof Set) {
+    return value.size * 32;
+  }
+
+  const children = Array.isArray(value) ? value : Object.values(value);
+  return children.reduce((total: number, child) => total + estimateValueSize(child, seen, depth + 1), 0);
+};
+
+/**
+ * Number of oldest entries to drop so the history fits the memory budget
+ * Walks from the newest entry so the most recent steps are always kept
+ */
+export const getHistoryOverflowCount = (historyStack: AnyHistoryAction[], memoryBudgetBytes: number): number => {
+  const seen = new Set<object>();
+  let total = 0;
+
+  for (let index = historyStack.length - 1; index >= 0; index--) {
+    total += estimateValueSize(historyStack[index], seen, 0);
+    if (total > memoryBudgetBytes && index < historyStack.length - 1) {
+      return index + 1;
+    }
+  }
+
+  return 0;
+};
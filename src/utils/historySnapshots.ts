@@ -0,0 +1,106 @@
+import type { AnyHistoryAction, HistorySnapshot, RestoreSnapshotHistoryAction } from '../types';
+import { useAnimationStore } from '../stores/animationStore';
+import { useCanvasStore } from '../stores/canvasStore';
+import { snapshotFrames } from './frameUtils';
+
+/**
+ * History snapshot (bookmark) helpers
+ * Snapshots capture the whole timeline and canvas size so they can be restored
+ * after the undo steps that produced them have been trimmed away
+ */
+
+type SnapshotState = Pick<HistorySnapshot, 'frames' | 'currentFrameIndex' | 'canvasWidth' | 'canvasHeight'>;
+
+const generateSnapshotId = (): string =>
+  `snapshot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Current project state, with pending canvas edits flushed into the current frame
+ */
+const captureSnapshotState = (): SnapshotState => {
+  const canvasStore = useCanvasStore.getState();
+  const animationStore = useAnimationStore.getState();
+  animationStore.setFrameData(animationStore.currentFrameIndex, new Map(canvasStore.cells));
+
+  const { frames, currentFrameIndex } = useAnimationStore.getState();
+  return {
+    frames: snapshotFrames(frames),
+    currentFrameIndex,
+    canvasWidth: canvasStore.width,
+    canvasHeight: canvasStore.height
+  };
+};
+
+/**
+ * Bookmark the current project state
+ */
+export const createHistorySnapshot = (name: string): HistorySnapshot => ({
+  id: generateSnapshotId(),
+  name,
+  timestamp: Date.now(),
+  ...captureSnapshotState()
+});
+
+/**
+ * Load a snapshot state into the stores (canvas size, frames and visible canvas)
+ */
+export const applyHistorySnapshotState = (state: SnapshotState): void => {
+  const canvasStore = useCanvasStore.getState();
+  if (canvasStore.width !== state.canvasWidth || canvasStore.height !== state.canvasHeight) {
+    canvasStore.setCanvasSize(state.canvasWidth, state.canvasHeight);
+  }
+
+  useAnimationStore.getState().replaceFrames(state.frames, state.currentFrameIndex);
+
+  // The current frame index may not change, so reload the canvas explicitly
+  const restoredFrame = useAnimationStore.getState().frames[state.currentFrameIndex];
+  if (restoredFrame) {
+    useCanvasStore.getState().setCanvasData(restoredFrame.data);
+  }
+};
+
+/**
+ * Restore a snapshot and describe it as an undoable history action
+ */
+export const restoreHistorySnapshot = (snapshot: HistorySnapshot): RestoreSnapshotHistoryAction => {
+  const previous = captureSnapshotState();
+  applyHistorySnapshotState(snapshot);
+
+  return {
+    type: 'restore_snapshot',
+    timestamp: Date.now(),
+    description: `Restore snapshot "${snapshot.name}"`,
+    data: {
+      snapshotName: snapshot.name,
+      previousFrames: previous.frames,
+      previousCurrentFrame: previous.currentFrameIndex,
+      previousWidth: previous.canvasWidth,
+      previousHeight: previous.canvasHeight,
+      newFrames: snapshotFrames(snapshot.frames),
+      newCurrentFrame: snapshot.currentFrameIndex,
+      newWidth: snapshot.canvasWidth,
+      newHeight: snapshot.canvasHeight
+    }
+  };
+};
+
+/**
+ * Undo or redo a snapshot restore
+ */
+export const processRestoreSnapshotAction = (action: RestoreSnapshotHistoryAction, isRedo: boolean): void => {
+  const { data } = action;
+  applyHistorySnapshotState(isRedo
+    ? { frames: data.newFrames, currentFrameIndex: data.newCurrentFrame, canvasWidth: data.newWidth, canvasHeight: data.newHeight }
+    : { frames: data.previousFrames, currentFrameIndex: data.previousCurrentFrame, canvasWidth: data.previousWidth, canvasHeight: data.previousHeight }
+  );
+};
+
+/**
+ * Frame a history step mainly affected, used for panel thumbnails
+ * Returns undefined for steps that are not tied to a frame (e.g. bezier edits)
+ */
+export const getHistoryActionFrameIndex = (action: AnyHistoryAction): number | undefined => {
+  const data = action.data as Record<string, unknown>;
+  const candidates = [data.frameIndex, data.newIndex, data.newCurrentFrame, data.previousCurrentFrame, data.previousFrameIndex];
+  return candidates.find((value): value is number => typeof value === 'number');
+};
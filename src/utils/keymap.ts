@@ -0,0 +1,300 @@
+/**
+ * Keymap utilities
+ *
+ * Chords are strings of modifiers followed by one key, joined with "+":
+ * "Mod+Shift+Z", "Shift+[", "B", "Space". "Mod" is Cmd on macOS and Ctrl
+ * elsewhere; the "+" key itself is written "Plus". Punctuation is read from the
+ * physical key so Shift+, stays "Shift+," instead of "<"
+ */
+
+import {
+  COMMANDS,
+  COMMANDS_BY_ID,
+  DEFAULT_KEYMAP_PRESET_ID,
+  KEYMAP_PRESETS
+} from '../constants/commands';
+import type { CommandId } from '../constants/commands';
+
+export type KeymapBindings = Record<CommandId, string[]>;
+export type KeymapOverrides = Partial<Record<CommandId, string[]>>;
+
+export interface KeymapFile {
+  version: number;
+  preset: string;
+  bindings: KeymapOverrides;
+}
+
+const KEYMAP_FILE_VERSION = 1;
+const MODIFIER_ORDER = ['Mod', 'Alt', 'Shift'] as const;
+
+const MODIFIER_ALIASES: Record<string, typeof MODIFIER_ORDER[number]> = {
+  mod: 'Mod',
+  cmd: 'Mod',
+  command: 'Mod',
+  meta: 'Mod',
+  ctrl: 'Mod',
+  control: 'Mod',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift'
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  space: 'Space',
+  spacebar: 'Space',
+  esc: 'Escape',
+  escape: 'Escape',
+  del: 'Delete',
+  delete: 'Delete',
+  backspace: 'Backspace',
+  enter: 'Enter',
+  return: 'Enter',
+  tab: 'Tab',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  arrowup: 'ArrowUp',
+  arrowdown: 'ArrowDown',
+  arrowleft: 'ArrowLeft',
+  arrowright: 'ArrowRight',
+  plus: 'Plus'
+};
+
+// Physical keys whose character changes with Shift
+const CODE_KEYS: Record<string, string> = {
+  Comma: ',',
+  Period: '.',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Minus: '-',
+  Equal: '=',
+  Slash: '/',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Space: 'Space',
+  NumpadAdd: 'Plus'
+};
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Meta', 'Alt', 'AltGraph', 'CapsLock', 'OS']);
+
+const normalizeKeyName = (key: string): string | null => {
+  if (!key) return null;
+  const alias = KEY_ALIASES[key.toLowerCase()] ?? KEY_ALIASES[key];
+  if (alias) return alias;
+  if (key.length === 1) return key.toUpperCase();
+  // Function keys and other named keys (F3, Insert, ...)
+  return key.charAt(0).toUpperCase() + key.slice(1);
+};
+
+/**
+ * Canonical form of a chord string, or null when it is not a valid chord
+ */
+export const normalizeChord = (chord: string): string | null => {
+  if (typeof chord !== 'string') return null;
+  const trimmed = chord.trim();
+  if (!trimmed) return null;
+
+  // A lone "+" (or a trailing "++") means the plus key
+  if (trimmed === '+') return 'Plus';
+  const parts = trimmed.replace(/\+\+$/, '+Plus').split('+').map(part => part.trim());
+
+  const modifiers = new Set<string>();
+  let key: string | null = null;
+
+  for (const part of parts) {
+    if (!part) return null;
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (modifier) {
+      modifiers.add(modifier);
+      continue;
+    }
+    if (key) return null; // More than one non-modifier key
+    key = normalizeKeyName(part);
+  }
+
+  const orderedModifiers = MODIFIER_ORDER.filter(modifier => modifiers.has(modifier));
+  if (!key) {
+    // Modifier-only chords (e.g. "Alt") are allowed for fixed commands
+    return orderedModifiers.length === 1 ? orderedModifiers[0] : null;
+  }
+
+  return [...orderedModifiers, key].join('+');
+};
+
+/**
+ * Chord for a keydown event, or null for modifier-only presses
+ */
+export const eventToChord = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  let key: string | null = CODE_KEYS[event.code] ?? null;
+  if (!key && event.code?.startsWith('Digit')) {
+    key = event.code.slice(5);
+  }
+  // Alt (Option on macOS) and non-Latin layouts change the character of letter keys
+  if (!key && event.code?.startsWith('Key') && (event.altKey || !/^[a-z]$/i.test(event.key))) {
+    key = event.code.slice(3);
+  }
+  if (!key) {
+    key = event.key === '+' ? 'Plus' : normalizeKeyName(event.key);
+  }
+  if (!key) return null;
+
+  const modifiers: string[] = [];
+  if (event.metaKey || event.ctrlKey) modifiers.push('Mod');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+
+  return [...modifiers, key].join('+');
+};
+
+/**
+ * Keys of a chord for display ("Cmd" is shown as ⌘ or Ctrl by the dialogs)
+ */
+export const formatChordKeys = (chord: string): string[] =>
+  chord.split('+').map(part => {
+    if (part === 'Mod') return 'Cmd';
+    if (part === 'Plus') return '+';
+    if (part === 'Escape') return 'Esc';
+    return part;
+  });
+
+/**
+ * Short label for tooltips, e.g. "Shift+H" or "⌘Z"
+ */
+export const formatChordLabel = (chord: string): string => {
+  const isMac = typeof navigator !== 'undefined' && navigator.platform.includes('Mac');
+  return formatChordKeys(chord)
+    .map(part => (part === 'Cmd' ? (isMac ? '⌘' : 'Ctrl') : part))
+    .join(isMac ? '' : '+');
+};
+
+/**
+ * Tooltip text with the first bound chord, e.g. "Eraser tool (E)"
+ */
+export const formatShortcutTooltip = (baseDescription: string, chords: string[] | undefined): string =>
+  chords && chords.length > 0 ? `${baseDescription} (${formatChordLabel(chords[0])})` : baseDescription;
+
+/**
+ * Full bindings for a preset with user overrides applied on top
+ */
+export const resolveKeymap = (presetId: string, overrides: KeymapOverrides = {}): KeymapBindings => {
+  const preset = KEYMAP_PRESETS.find(item => item.id === presetId)
+    ?? KEYMAP_PRESETS.find(item => item.id === DEFAULT_KEYMAP_PRESET_ID);
+
+  const bindings = {} as KeymapBindings;
+  COMMANDS.forEach(command => {
+    bindings[command.id] = command.fixed
+      ? command.defaultChords
+      : overrides[command.id] ?? preset?.bindings[command.id] ?? command.defaultChords;
+  });
+  return bindings;
+};
+
+/**
+ * Chord -> command lookup; the first command in registry order wins a conflict
+ * Fixed commands are handled by their own listeners and are left out
+ */
+export const buildChordLookup = (bindings: KeymapBindings): Map<string, CommandId> => {
+  const lookup = new Map<string, CommandId>();
+  COMMANDS.forEach(command => {
+    if (command.fixed) return;
+    bindings[command.id]?.forEach(chord => {
+      if (!lookup.has(chord)) {
+        lookup.set(chord, command.id);
+      }
+    });
+  });
+  return lookup;
+};
+
+/**
+ * Chords bound to more than one command
+ */
+export const findKeymapConflicts = (bindings: KeymapBindings): Map<string, CommandId[]> => {
+  const usage = new Map<string, CommandId[]>();
+  COMMANDS.forEach(command => {
+    bindings[command.id]?.forEach(chord => {
+      const commands = usage.get(chord) ?? [];
+      commands.push(command.id);
+      usage.set(chord, commands);
+    });
+  });
+
+  const conflicts = new Map<string, CommandId[]>();
+  usage.forEach((commands, chord) => {
+    if (commands.length > 1) {
+      conflicts.set(chord, commands);
+    }
+  });
+  return conflicts;
+};
+
+/**
+ * JSON for a keymap export
+ */
+export const serializeKeymap = (presetId: string, overrides: KeymapOverrides): string => {
+  const file: KeymapFile = {
+    version: KEYMAP_FILE_VERSION,
+    preset: presetId,
+    bindings: overrides
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse and validate a keymap export
+ * Unknown commands and fixed commands are skipped; invalid chords are an error
+ */
+export const parseKeymap = (json: string): { preset: string; overrides: KeymapOverrides; skipped: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Keymap file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Keymap file must contain an object');
+  }
+
+  const file = parsed as Partial<KeymapFile>;
+  if (file.version !== undefined && file.version > KEYMAP_FILE_VERSION) {
+    throw new Error(`Keymap version ${file.version} is newer than this editor supports`);
+  }
+
+  const preset = typeof file.preset === 'string' && KEYMAP_PRESETS.some(item => item.id === file.preset)
+    ? file.preset
+    : DEFAULT_KEYMAP_PRESET_ID;
+
+  const overrides: KeymapOverrides = {};
+  const skipped: string[] = [];
+  Object.entries(file.bindings ?? {}).forEach(([commandId, chords]) => {
+    const command = COMMANDS_BY_ID.get(commandId as CommandId);
+    if (!command || command.fixed) {
+      skipped.push(commandId);
+      return;
+    }
+    if (!Array.isArray(chords)) {
+      throw new Error(`Bindings for "${commandId}" must be a list of chords`);
+    }
+
+    overrides[command.id] = chords.map(chord => {
+      const normalized = normalizeChord(String(chord));
+      if (!normalized) {
+        throw new Error(`Invalid chord "${chord}" for "${commandId}"`);
+      }
+      return normalized;
+    });
+  });
+
+  return { preset, overrides, skipped };
+};
@@ -0,0 +1,18 @@
+import { toast } from 'sonner';
+import { useAnimationStore } from '../stores/animationStore';
+import { getActiveLayer, isActiveLayerLocked } from './layerUtils';
+
+/**
+ * Shared guard for every command that writes to the active layer.
+ * Checks the current frame, or the given frames for timeline-wide commands,
+ * and returns false (telling the user why) when a target layer is locked.
+ */
+export const canEditActiveLayer = (frameIndices?: number[]): boolean => {
+  const { frames, currentFrameIndex } = useAnimationStore.getState();
+  const targets = (frameIndices ?? [currentFrameIndex]).map(index => frames[index]);
+  const lockedFrame = targets.find(frame => isActiveLayerLocked(frame));
+  if (!lockedFrame) return true;
+
+  toast.error(`Layer "${getActiveLayer(lockedFrame)?.name ?? 'Layer'}" is locked`);
+  return false;
+};
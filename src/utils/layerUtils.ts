@@ -0,0 +1,192 @@
+import type { Cell, Frame, FrameLayer, LayerId } from '../types';
+
+/**
+ * Layer helpers
+ *
+ * Frames optionally carry a layer stack (bottom to top). To keep every tool,
+ * effect and history handler working unchanged, `frame.data` always holds the
+ * cells of the active layer; the active entry inside `frame.layers` is only a
+ * placeholder until another layer becomes active and its cells are stashed.
+ */
+
+// 4x4 Bayer matrix used to turn layer opacity into a stable skip pattern
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5]
+];
+
+export const generateLayerId = (): LayerId => `layer-${Date.now()}-${Math.random()}` as LayerId;
+
+export const createLayer = (name: string, data?: Map<string, Cell>): FrameLayer => ({
+  id: generateLayerId(),
+  name,
+  visible: true,
+  locked: false,
+  opacity: 1,
+  data: data ? new Map(data) : new Map<string, Cell>()
+});
+
+export const cloneLayer = (layer: FrameLayer): FrameLayer => ({
+  ...layer,
+  data: new Map(Array.from(layer.data.entries()).map(([key, cell]) => [key, { ...cell }]))
+});
+
+export const hasLayers = (frame: Frame): frame is Frame & { layers: FrameLayer[]; activeLayerId: LayerId } =>
+  Array.isArray(frame.layers) && frame.layers.length > 0 && frame.activeLayerId !== undefined;
+
+export const getActiveLayer = (frame: Frame): FrameLayer | undefined =>
+  hasLayers(frame) ? frame.layers.find(layer => layer.id === frame.activeLayerId) : undefined;
+
+export const isActiveLayerLocked = (frame: Frame | undefined): boolean =>
+  frame ? getActiveLayer(frame)?.locked === true : false;
+
+/**
+ * Get the authoritative cell data for a layer of a frame
+ */
+export const getLayerData = (frame: Frame, layer: FrameLayer): Map<string, Cell> =>
+  layer.id === frame.activeLayerId ? frame.data : layer.data;
+
+/**
+ * Return the layer stack with the active layer's cells filled in from `frame.data`
+ */
+export const resolveFrameLayers = (frame: Frame): FrameLayer[] => {
+  if (!hasLayers(frame)) return [];
+  return frame.layers.map(layer => (
+    layer.id === frame.activeLayerId ? { ...layer, data: frame.data } : layer
+  ));
+};
+
+/**
+ * A cell that carries neither a glyph nor a background lets lower layers show through
+ */
+export const isTransparentCell = (cell: Cell | undefined): boolean => {
+  if (!cell) return true;
+  const hasGlyph = cell.char !== '' && cell.char !== ' ';
+  const hasBackground = !!cell.bgColor && cell.bgColor !== 'transparent';
+  return !hasGlyph && !hasBackground;
+};
+
+/**
+ * Whether a cell of a layer with the given opacity survives compositing.
+ * ASCII cells cannot be blended, so partial opacity skips a dithered subset of cells.
+ */
+export const isCellVisibleAtOpacity = (x: number, y: number, opacity: number): boolean => {
+  if (opacity >= 1) return true;
+  if (opacity <= 0) return false;
+  const threshold = (BAYER_4X4[y & 3][x & 3] + 0.5) / 16;
+  return threshold < opacity;
+};
+
+const compositeCell = (lower: Cell | undefined, upper: Cell): Cell => {
+  if (!lower) return upper;
+
+  const upperHasGlyph = upper.char !== '' && upper.char !== ' ';
+  const upperHasBackground = !!upper.bgColor && upper.bgColor !== 'transparent';
+
+  if (upperHasGlyph && upperHasBackground) return upper;
+  if (upperHasGlyph) {
+    // Glyph on a transparent background keeps the background from below
+    return { char: upper.char, color: upper.color, bgColor: lower.bgColor };
+  }
+  // Background-only cell covers whatever glyph was below
+  return { char: upper.char, color: upper.color, bgColor: upper.bgColor };
+};
+
+/**
+ * Flatten an ordered (bottom to top) list of layers into a single cell map
+ */
+export const compositeLayers = (layers: FrameLayer[]): Map<string, Cell> => {
+  const result = new Map<string, Cell>();
+
+  layers.forEach(layer => {
+    if (!layer.visible || layer.opacity <= 0) return;
+
+    layer.data.forEach((cell, key) => {
+      if (isTransparentCell(cell)) return;
+      if (layer.opacity < 1) {
+        const [x, y] = key.split(',').map(Number);
+        if (!isCellVisibleAtOpacity(x, y, layer.opacity)) return;
+      }
+      result.set(key, compositeCell(result.get(key), cell));
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Composite all visible layers of a frame.
+ * `activeData` overrides the active layer's cells (e.g. live canvas cells while editing).
+ */
+export const compositeFrame = (frame: Frame, activeData?: Map<string, Cell>): Map<string, Cell> => {
+  if (!hasLayers(frame)) {
+    return activeData ?? frame.data;
+  }
+
+  const layers = resolveFrameLayers(frame).map(layer => (
+    activeData && layer.id === frame.activeLayerId ? { ...layer, data: activeData } : layer
+  ));
+  return compositeLayers(layers);
+};
+
+/**
+ * Make another layer active: stash the current active cells into the stack and
+ * move the target layer's cells into `frame.data`
+ */
+export const activateLayer = (frame: Frame, layerId: LayerId): Frame => {
+  if (!hasLayers(frame) || frame.activeLayerId === layerId) return frame;
+  const target = frame.layers.find(layer => layer.id === layerId);
+  if (!target) return frame;
+
+  return {
+    ...frame,
+    layers: frame.layers.map(layer => {
+      if (layer.id === frame.activeLayerId) return { ...layer, data: new Map(frame.data) };
+      if (layer.id === layerId) return { ...layer, data: new Map<string, Cell>() };
+      return layer;
+    }),
+    activeLayerId: layerId,
+    data: new Map(target.data)
+  };
+};
+
+/**
+ * Apply a whole-canvas transform (resize, crop, rotate) to every layer of a frame
+ * The active layer's cells live in `frame.data`; its stack entry is left as a placeholder.
+ * `layerIndex` is the position in the stack (0 = bottom, and 0 for flat frames).
+ */
+export const mapFrameLayers = (
+  frame: Frame,
+  transform: (data: Map<string, Cell>, layerIndex: number) => Map<string, Cell>
+): Frame => {
+  if (!hasLayers(frame)) {
+    return { ...frame, data: transform(frame.data, 0) };
+  }
+
+  const activeIndex = frame.layers.findIndex(layer => layer.id === frame.activeLayerId);
+  return {
+    ...frame,
+    data: transform(frame.data, activeIndex),
+    layers: frame.layers.map((layer, index) => (
+      index === activeIndex ? layer : { ...layer, data: transform(layer.data, index) }
+    ))
+  };
+};
+
+/**
+ * Snapshot a frame for export: `data` holds the flattened composite and every
+ * layer entry (including the active one) carries its own cells
+ */
+export const toExportFrame = (frame: Frame): Frame => {
+  if (!hasLayers(frame)) {
+    return { ...frame, data: new Map(frame.data) };
+  }
+
+  return {
+    ...frame,
+    data: compositeFrame(frame),
+    layers: resolveFrameLayers(frame).map(layer => ({ ...layer, data: new Map(layer.data) }))
+  };
+};
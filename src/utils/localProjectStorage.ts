@@ -0,0 +1,172 @@
+/**
+ * Local project library backed by IndexedDB
+ *
+ * Projects are stored as full .asciimtn session documents (see `buildSessionData`), so
+ * anything saved locally can be reopened with the regular session importer. A single
+ * autosave slot holds the working document for crash recovery.
+ */
+
+import type { SessionDocument } from './sessionFormat';
+
+const DB_NAME = 'ascii-motion';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const AUTOSAVE_STORE = 'autosave';
+const AUTOSAVE_KEY = 'current';
+
+export interface LocalProjectSummary {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+  width: number;
+  height: number;
+  frameCount: number;
+}
+
+export interface LocalProjectRecord extends LocalProjectSummary {
+  sessionData: SessionDocument;
+}
+
+export interface LocalAutosaveRecord {
+  savedAt: string;
+  localProjectId: string | null; // Local project the working document belongs to, if any
+  sessionData: SessionDocument;
+}
+
+export const generateLocalProjectId = (): string =>
+  `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Whether IndexedDB is available (private browsing modes and old browsers may not have it)
+ */
+export const isLocalStorageAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isLocalStorageAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(PROJECTS_STORE)) {
+          database.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(AUTOSAVE_STORE)) {
+          database.createObjectStore(AUTOSAVE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open local project storage'));
+    }).catch(error => {
+      // Allow a later call to retry (e.g. after the user frees up storage)
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, mode);
+
+  // Writes only count once the transaction commits
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+  const result = await requestToPromise(operation(transaction.objectStore(storeName)));
+  await committed;
+  return result;
+};
+
+const toSummary = (record: LocalProjectRecord): LocalProjectSummary => ({
+  id: record.id,
+  name: record.name,
+  description: record.description,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  width: record.width,
+  height: record.height,
+  frameCount: record.frameCount
+});
+
+/**
+ * List saved local projects, most recently updated first
+ */
+export const listLocalProjects = async (): Promise<LocalProjectSummary[]> => {
+  const records = await withStore<LocalProjectRecord[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getLocalProject = async (id: string): Promise<LocalProjectRecord | null> => {
+  const record = await withStore<LocalProjectRecord | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+  return record ?? null;
+};
+
+/**
+ * Create or overwrite a local project
+ * Pass an existing id to update that project; its creation date is preserved.
+ */
+export const saveLocalProject = async (
+  sessionData: SessionDocument,
+  options: { id?: string | null; name: string; description?: string }
+): Promise<LocalProjectRecord> => {
+  const now = new Date().toISOString();
+  const existing = options.id ? await getLocalProject(options.id) : null;
+
+  const record: LocalProjectRecord = {
+    id: existing?.id ?? generateLocalProjectId(),
+    name: options.name,
+    description: options.description ?? '',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    width: sessionData.canvas.width,
+    height: sessionData.canvas.height,
+    frameCount: sessionData.animation.frames.length,
+    sessionData: { ...sessionData, name: options.name, description: options.description }
+  };
+
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const deleteLocalProject = async (id: string): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const writeAutosave = async (record: LocalAutosaveRecord): Promise<void> => {
+  await withStore(AUTOSAVE_STORE, 'readwrite', store => store.put(record, AUTOSAVE_KEY));
+};
+
+export const readAutosave = async (): Promise<LocalAutosaveRecord | null> => {
+  const record = await withStore<LocalAutosaveRecord | undefined>(AUTOSAVE_STORE, 'readonly', store => store.get(AUTOSAVE_KEY));
+  return record ?? null;
+};
+
+export const clearAutosave = async (): Promise<void> => {
+  await withStore(AUTOSAVE_STORE, 'readwrite', store => store.delete(AUTOSAVE_KEY));
+};
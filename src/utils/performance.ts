@@ -237,10 +237,17 @@ export const clearPerformanceHistory = () => {
   performanceMonitor.clear();
 };
 
+// Loaded on demand so the benchmark stays out of the main bundle
+export const runLargeCanvasBenchmark = async (width?: number, height?: number) => {
+  const { runLargeCanvasBenchmark: runBenchmark } = await import('./canvasBenchmark');
+  return runBenchmark(width, height);
+};
+
 type PerformanceHelperBindings = {
   monitor: PerformanceMonitor;
   logStats: () => void;
   testGrid: (width: number, height: number) => ReturnType<typeof testLargeGridPerformance>;
+  benchmarkLargeCanvas: (width?: number, height?: number) => ReturnType<typeof runLargeCanvasBenchmark>;
   clear: () => void;
 };
 
@@ -251,6 +258,7 @@ if (import.meta.env.DEV) {
     monitor: performanceMonitor,
     logStats: logPerformanceStats,
     testGrid: testLargeGridPerformance,
+    benchmarkLargeCanvas: runLargeCanvasBenchmark,
     clear: clearPerformanceHistory
   };
 }
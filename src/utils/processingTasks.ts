@@ -0,0 +1,166 @@
+/**
+ * processingTasks.ts - Heavy processing jobs shared by the worker pool and its fallback
+ *
+ * Each task is plain, structured-clonable data so it can be posted to a Web Worker.
+ * The same runner executes tasks on the main thread when workers are unavailable.
+ */
+
+import type { Cell, Frame } from '../types';
+import type { GeneratorFrame, GeneratorId, GeneratorSettings } from '../types/generators';
+import type { EffectSettings, EffectType } from '../types/effects';
+import { generateFrames } from './generators/generatorEngine';
+import { processEffectOnFrames } from './effectsProcessing';
+import { ASCIIConverter, type ConversionSettings } from './asciiConverter';
+
+/**
+ * Simulate a generator and map its RGBA frames to ASCII cells
+ */
+export interface GenerateFramesTask {
+  type: 'generate-frames';
+  generatorId: GeneratorId;
+  settings: GeneratorSettings;
+  width: number;
+  height: number;
+  frameCount: number;
+  frameDuration: number;
+  seed: number;
+  seedGrid?: Uint8Array; // Live cells sampled from the canvas (cellular automata)
+  conversionSettings: ConversionSettings;
+}
+
+export interface GenerateFramesTaskResult {
+  type: 'generate-frames';
+  frames: GeneratorFrame[]; // RGBA frames (buffers are transferred back from the worker)
+  cells: Array<Map<string, Cell>>; // ASCII cells for each frame
+  processingTime: number;
+}
+
+/**
+ * Apply an effect to every frame of the timeline
+ */
+export interface EffectFramesTask {
+  type: 'effect-frames';
+  effectType: EffectType;
+  frames: Frame[];
+  settings: EffectSettings;
+  canvasBackgroundColor: string;
+}
+
+export interface EffectFramesTaskResult {
+  type: 'effect-frames';
+  processedFrames: Frame[];
+  totalAffectedCells: number;
+  processingTime: number;
+  errors: string[];
+}
+
+export type ProcessingTask = GenerateFramesTask | EffectFramesTask;
+export type ProcessingTaskResult = GenerateFramesTaskResult | EffectFramesTaskResult;
+
+export type ProcessingTaskResultFor<T extends ProcessingTask> =
+  T extends GenerateFramesTask ? GenerateFramesTaskResult : EffectFramesTaskResult;
+
+export interface ProcessingTaskProgress {
+  progress: number; // 0-1
+  message: string;
+}
+
+// Worker message protocol
+export interface ProcessingWorkerRequest {
+  id: number;
+  task: ProcessingTask;
+}
+
+export type ProcessingWorkerResponse =
+  | { id: number; type: 'progress'; progress: ProcessingTaskProgress }
+  | { id: number; type: 'result'; result: ProcessingTaskResult }
+  | { id: number; type: 'error'; error: string };
+
+async function runGenerateFramesTask(
+  task: GenerateFramesTask,
+  onProgress?: (progress: ProcessingTaskProgress) => void
+): Promise<GenerateFramesTaskResult> {
+  const startTime = performance.now();
+
+  // Simulation fills the first half of the progress bar, ASCII mapping the second
+  const result = await generateFrames(
+    task.generatorId,
+    task.settings,
+    task.width,
+    task.height,
+    task.frameCount,
+    task.frameDuration,
+    task.seed,
+    task.seedGrid,
+    (frameIndex, totalFrames) => onProgress?.({
+      progress: (frameIndex / totalFrames) * 0.5,
+      message: `Simulating frame ${frameIndex + 1} of ${totalFrames}`
+    })
+  );
+
+  if (!result.success) {
+    throw new Error(result.error || 'Frame generation failed');
+  }
+
+  const converter = new ASCIIConverter();
+  const cells = result.frames.map((frame, frameIndex) => {
+    onProgress?.({
+      progress: 0.5 + (frameIndex / result.frames.length) * 0.5,
+      message: `Mapping frame ${frameIndex + 1} of ${result.frames.length}`
+    });
+
+    const imageData = new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height);
+    return converter.convertFrame({ imageData }, task.conversionSettings).cells;
+  });
+
+  return {
+    type: 'generate-frames',
+    frames: result.frames,
+    cells,
+    processingTime: performance.now() - startTime
+  };
+}
+
+async function runEffectFramesTask(
+  task: EffectFramesTask,
+  onProgress?: (progress: ProcessingTaskProgress) => void
+): Promise<EffectFramesTaskResult> {
+  const result = await processEffectOnFrames(
+    task.effectType,
+    task.frames,
+    task.settings,
+    (frameIndex, totalFrames) => onProgress?.({
+      progress: frameIndex / totalFrames,
+      message: `Processing frame ${frameIndex + 1} of ${totalFrames}`
+    }),
+    task.canvasBackgroundColor
+  );
+
+  return { type: 'effect-frames', ...result };
+}
+
+/**
+ * Run a processing task in the current thread
+ */
+export async function runProcessingTask(
+  task: ProcessingTask,
+  onProgress?: (progress: ProcessingTaskProgress) => void
+): Promise<ProcessingTaskResult> {
+  switch (task.type) {
+    case 'generate-frames':
+      return runGenerateFramesTask(task, onProgress);
+    case 'effect-frames':
+      return runEffectFramesTask(task, onProgress);
+  }
+}
+
+/**
+ * Buffers that can be transferred instead of copied when posting a result
+ */
+export function getResultTransferables(result: ProcessingTaskResult): Transferable[] {
+  if (result.type === 'generate-frames') {
+    // A buffer may only appear once in a transfer list
+    return [...new Set(result.frames.map(frame => frame.data.buffer as ArrayBuffer))];
+  }
+  return [];
+}
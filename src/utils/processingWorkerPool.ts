@@ -0,0 +1,197 @@
+/**
+ * processingWorkerPool.ts - Worker pool for generator and effect processing
+ *
+ * Features:
+ * - Lazily started workers, sized to the available cores
+ * - FIFO queue when every worker is busy
+ * - Progress events forwarded from the worker
+ * - Cancellation through AbortSignal (terminates the busy worker)
+ * - Main-thread fallback where Web Workers are unavailable
+ */
+
+import {
+  runProcessingTask,
+  type ProcessingTask,
+  type ProcessingTaskProgress,
+  type ProcessingTaskResult,
+  type ProcessingTaskResultFor,
+  type ProcessingWorkerRequest,
+  type ProcessingWorkerResponse
+} from './processingTasks';
+
+const MAX_POOL_SIZE = 4;
+
+export interface ProcessingTaskOptions {
+  onProgress?: (progress: ProcessingTaskProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingJob {
+  id: number;
+  task: ProcessingTask;
+  options: ProcessingTaskOptions;
+  resolve: (result: ProcessingTaskResult) => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  job: PendingJob | null;
+}
+
+const createCancelledError = () => new DOMException('Processing cancelled', 'AbortError');
+
+/**
+ * True when a task promise rejected because its signal was aborted
+ */
+export const isProcessingCancelled = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export class ProcessingWorkerPool {
+  private slots: Array<WorkerSlot | null>;
+  private queue: PendingJob[] = [];
+  private nextJobId = 1;
+
+  constructor(size = Math.max(1, Math.min(MAX_POOL_SIZE, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1))) {
+    this.slots = new Array(size).fill(null);
+  }
+
+  /**
+   * Run a task on the next free worker
+   */
+  run<T extends ProcessingTask>(task: T, options: ProcessingTaskOptions = {}): Promise<ProcessingTaskResultFor<T>> {
+    if (typeof Worker === 'undefined') {
+      return this.runInline(task, options);
+    }
+
+    return new Promise<ProcessingTaskResult>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(createCancelledError());
+        return;
+      }
+
+      const job: PendingJob = {
+        id: this.nextJobId++,
+        task,
+        options,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', handleAbort)
+      };
+
+      const handleAbort = () => this.cancel(job);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      this.queue.push(job);
+      this.dispatch();
+    }) as Promise<ProcessingTaskResultFor<T>>;
+  }
+
+  /**
+   * Stop every worker and reject all queued and running jobs
+   */
+  terminate(): void {
+    const jobs = [...this.queue, ...this.slots.map(slot => slot?.job).filter((job): job is PendingJob => Boolean(job))];
+    this.queue = [];
+    this.slots = this.slots.map(slot => {
+      slot?.worker.terminate();
+      return null;
+    });
+    jobs.forEach(job => {
+      job.cleanup();
+      job.reject(createCancelledError());
+    });
+  }
+
+  private async runInline<T extends ProcessingTask>(
+    task: T,
+    options: ProcessingTaskOptions
+  ): Promise<ProcessingTaskResultFor<T>> {
+    if (options.signal?.aborted) {
+      throw createCancelledError();
+    }
+
+    const result = await runProcessingTask(task, options.onProgress);
+    if (options.signal?.aborted) {
+      throw createCancelledError();
+    }
+    return result as ProcessingTaskResultFor<T>;
+  }
+
+  private dispatch(): void {
+    for (let index = 0; index < this.slots.length && this.queue.length > 0; index++) {
+      const slot = this.slots[index] ?? this.createSlot(index);
+      if (slot.job) continue;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const request: ProcessingWorkerRequest = { id: job.id, task: job.task };
+      slot.worker.postMessage(request);
+    }
+  }
+
+  private createSlot(index: number): WorkerSlot {
+    const worker = new Worker(new URL('../workers/processing.worker.ts', import.meta.url), { type: 'module' });
+    const slot: WorkerSlot = { worker, job: null };
+
+    worker.addEventListener('message', (event: MessageEvent<ProcessingWorkerResponse>) => {
+      const message = event.data;
+      const job = slot.job;
+      if (!job || job.id !== message.id) return;
+
+      if (message.type === 'progress') {
+        job.options.onProgress?.(message.progress);
+        return;
+      }
+
+      slot.job = null;
+      job.cleanup();
+      if (message.type === 'result') {
+        job.resolve(message.result);
+      } else {
+        job.reject(new Error(message.error));
+      }
+      this.dispatch();
+    });
+
+    worker.addEventListener('error', (event) => {
+      const job = slot.job;
+      console.error('[ProcessingWorkerPool] Worker error:', event.message);
+
+      // Replace the broken worker so later jobs still run
+      worker.terminate();
+      this.slots[index] = null;
+      if (job) {
+        job.cleanup();
+        job.reject(new Error(event.message || 'Processing worker failed'));
+      }
+      this.dispatch();
+    });
+
+    this.slots[index] = slot;
+    return slot;
+  }
+
+  private cancel(job: PendingJob): void {
+    const queueIndex = this.queue.indexOf(job);
+    if (queueIndex !== -1) {
+      this.queue.splice(queueIndex, 1);
+    } else {
+      // Running jobs are synchronous loops inside the worker, so the worker itself has to go
+      const slotIndex = this.slots.findIndex(slot => slot?.job === job);
+      if (slotIndex === -1) return;
+
+      this.slots[slotIndex]!.worker.terminate();
+      this.slots[slotIndex] = null;
+    }
+
+    job.cleanup();
+    job.reject(createCancelledError());
+    this.dispatch();
+  }
+}
+
+// Shared pool instance
+export const processingWorkerPool = new ProcessingWorkerPool();
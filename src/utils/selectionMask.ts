@@ -0,0 +1,197 @@
+/**
+ * Selection masks for effects, time effects and generators
+ * A mask maps cell keys to a 0-1 weight: 1 takes the processed cell, 0 keeps the
+ * original, and feathered edges fall in between
+ */
+
+import type { Cell, SelectionMaskSettings } from '../types';
+import { hexToRgb, rgbToHex } from './colorConversion';
+
+export type SelectionMaskWeights = Map<string, number>;
+
+export const MAX_SELECTION_FEATHER = 8;
+
+// Ordered dither thresholds so feathered edges mix characters in a stable pattern
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5]
+];
+
+const NEIGHBOR_OFFSETS = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1]
+];
+
+interface SelectionToolState {
+  selection: { active: boolean; selectedCells: Set<string> };
+  lassoSelection: { active: boolean; selectedCells: Set<string> };
+  magicWandSelection: { active: boolean; selectedCells: Set<string> };
+  selectionMaskSettings: SelectionMaskSettings;
+}
+
+/**
+ * Cells of the active selection, or null when nothing is selected
+ * Priority matches getActiveSelectionBounds: Magic Wand > Lasso > Rectangular
+ */
+export const getActiveSelectionCells = (toolState: SelectionToolState): Set<string> | null => {
+  const { magicWandSelection, lassoSelection, selection } = toolState;
+
+  if (magicWandSelection.active && magicWandSelection.selectedCells.size > 0) {
+    return magicWandSelection.selectedCells;
+  }
+  if (lassoSelection.active && lassoSelection.selectedCells.size > 0) {
+    return lassoSelection.selectedCells;
+  }
+  if (selection.active && selection.selectedCells.size > 0) {
+    return selection.selectedCells;
+  }
+  return null;
+};
+
+/**
+ * Turn selected cells into mask weights, applying invert and feather
+ * Feathering fades weights over `feather` cells inward from the selection edge;
+ * the canvas border does not count as an edge
+ */
+export const buildSelectionMaskWeights = (
+  selectedCells: Set<string>,
+  width: number,
+  height: number,
+  settings: SelectionMaskSettings
+): SelectionMaskWeights => {
+  const inside = new Uint8Array(width * height);
+  selectedCells.forEach(key => {
+    const [x, y] = key.split(',').map(Number);
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      inside[y * width + x] = 1;
+    }
+  });
+  if (settings.invert) {
+    for (let index = 0; index < inside.length; index++) {
+      inside[index] = inside[index] ? 0 : 1;
+    }
+  }
+
+  const feather = Math.max(0, Math.min(MAX_SELECTION_FEATHER, Math.round(settings.feather)));
+  const weights: SelectionMaskWeights = new Map();
+
+  if (feather === 0) {
+    for (let index = 0; index < inside.length; index++) {
+      if (inside[index]) {
+        weights.set(`${index % width},${Math.floor(index / width)}`, 1);
+      }
+    }
+    return weights;
+  }
+
+  // Breadth-first distance from the nearest unselected cell (8-connected)
+  const distance = new Int32Array(width * height).fill(-1);
+  const queue: number[] = [];
+  for (let index = 0; index < inside.length; index++) {
+    if (!inside[index]) {
+      distance[index] = 0;
+      queue.push(index);
+    }
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head];
+    if (distance[index] > feather) continue;
+
+    const x = index % width;
+    const y = Math.floor(index / width);
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+      const neighbor = ny * width + nx;
+      if (distance[neighbor] === -1) {
+        distance[neighbor] = distance[index] + 1;
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  for (let index = 0; index < inside.length; index++) {
+    if (!inside[index]) continue;
+    // Cells farther than the feather width (or with no unselected cell at all) are fully inside
+    const weight = distance[index] === -1 ? 1 : Math.min(1, distance[index] / (feather + 1));
+    weights.set(`${index % width},${Math.floor(index / width)}`, weight);
+  }
+
+  return weights;
+};
+
+/**
+ * Mask weights for the active selection, or null when effects should cover the whole canvas
+ */
+export const getSelectionMaskWeights = (
+  toolState: SelectionToolState,
+  width: number,
+  height: number
+): SelectionMaskWeights | null => {
+  const selectedCells = getActiveSelectionCells(toolState);
+  if (!selectedCells) return null;
+
+  return buildSelectionMaskWeights(selectedCells, width, height, toolState.selectionMaskSettings);
+};
+
+const mixColors = (from: string, to: string, weight: number, fallback: string): string => {
+  const fromRgb = hexToRgb(from);
+  const toRgb = hexToRgb(to);
+  if (!fromRgb || !toRgb) return fallback;
+
+  return rgbToHex({
+    r: fromRgb.r + (toRgb.r - fromRgb.r) * weight,
+    g: fromRgb.g + (toRgb.g - fromRgb.g) * weight,
+    b: fromRgb.b + (toRgb.b - fromRgb.b) * weight
+  });
+};
+
+/**
+ * Combine processed cells with the originals through a mask
+ * Cells outside the mask keep their original content; partially weighted cells
+ * take the processed character by ordered dither and blend their colors
+ */
+export const applySelectionMask = (
+  original: Map<string, Cell>,
+  processed: Map<string, Cell>,
+  weights: SelectionMaskWeights
+): Map<string, Cell> => {
+  const result = new Map(original);
+
+  weights.forEach((weight, key) => {
+    if (weight <= 0) return;
+
+    const originalCell = original.get(key);
+    const processedCell = processed.get(key);
+
+    let useProcessed = weight >= 1;
+    if (!useProcessed) {
+      const [x, y] = key.split(',').map(Number);
+      useProcessed = weight > (BAYER_4X4[y & 3][x & 3] + 0.5) / 16;
+    }
+
+    const chosen = useProcessed ? processedCell : originalCell;
+    if (!chosen) {
+      result.delete(key);
+      return;
+    }
+
+    if (weight < 1 && originalCell && processedCell) {
+      result.set(key, {
+        ...chosen,
+        color: mixColors(originalCell.color, processedCell.color, weight, chosen.color),
+        bgColor: mixColors(originalCell.bgColor, processedCell.bgColor, weight, chosen.bgColor)
+      });
+    } else {
+      result.set(key, chosen);
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,188 @@
+import type { Cell, Frame, FrameLayer, LayerId } from '../types';
+import { isValidCell } from '../types';
+import type { ExportDataBundle } from '../types/export';
+import { hasLayers } from './layerUtils';
+
+/**
+ * Shared (de)serialization helpers for the .asciimtn session format
+ * Used by the session file export, cloud saves, the local project library and the session importer
+ */
+
+/**
+ * Current .asciimtn format version
+ * 1.0.0 - canvas, animation, tools, typography and palettes
+ * 1.1.0 - adds `toolPresets` (effects, time effects, generators, gradient, media import, ASCII box)
+ * 1.2.0 - adds `effectStack` (non-destructive effects applied at render time)
+ */
+export const SESSION_FORMAT_VERSION = '1.2.0';
+
+export type SessionFrameCells = Record<string, Cell>;
+
+export interface SessionLayerData {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  data: SessionFrameCells;
+}
+
+export interface SessionFrameData {
+  id: string;
+  name?: string;
+  duration?: number;
+  data?: SessionFrameCells; // Flattened cells so older readers still see the artwork
+  thumbnail?: string;
+  layers?: SessionLayerData[];
+  activeLayerId?: string;
+}
+
+const cellsToRecord = (cells: Map<string, Cell>): SessionFrameCells => Object.fromEntries(cells.entries());
+
+const recordToCells = (record: SessionFrameCells | undefined): Map<string, Cell> => {
+  const cells = new Map<string, Cell>();
+  if (!record) return cells;
+  Object.entries(record).forEach(([key, cell]) => {
+    if (cell) {
+      cells.set(key, cell);
+    }
+  });
+  return cells;
+};
+
+/**
+ * Serialize an export frame (see `toExportFrame`) for the session file.
+ * The flattened cells are written as `data` so files stay readable by layer-unaware versions.
+ */
+export const serializeSessionFrame = (frame: Frame): SessionFrameData => {
+  const serialized: SessionFrameData = {
+    id: frame.id,
+    name: frame.name,
+    duration: frame.duration,
+    data: cellsToRecord(frame.data)
+  };
+
+  if (hasLayers(frame)) {
+    serialized.layers = frame.layers.map(layer => ({
+      id: layer.id,
+      name: layer.name,
+      visible: layer.visible,
+      locked: layer.locked,
+      opacity: layer.opacity,
+      data: cellsToRecord(layer.data)
+    }));
+    serialized.activeLayerId = frame.activeLayerId;
+  }
+
+  return serialized;
+};
+
+export const isValidSessionLayer = (layer: unknown): layer is SessionLayerData => {
+  if (typeof layer !== 'object' || layer === null) return false;
+  const candidate = layer as Partial<SessionLayerData>;
+  return typeof candidate.id === 'string'
+    && typeof candidate.name === 'string'
+    && typeof candidate.visible === 'boolean'
+    && typeof candidate.locked === 'boolean'
+    && typeof candidate.opacity === 'number'
+    && typeof candidate.data === 'object'
+    && candidate.data !== null
+    && Object.values(candidate.data).every(isValidCell);
+};
+
+/**
+ * Restore the in-memory cell data and layer stack of a session frame.
+ * Frames without layers (pre-layer files) load as flat frames.
+ */
+export const deserializeSessionFrameCells = (
+  frameData: SessionFrameData
+): { data: Map<string, Cell>; layers?: FrameLayer[]; activeLayerId?: LayerId } => {
+  const layers = frameData.layers;
+  const activeLayer = layers?.find(layer => layer.id === frameData.activeLayerId);
+
+  if (!layers || layers.length === 0 || !activeLayer) {
+    return { data: recordToCells(frameData.data) };
+  }
+
+  return {
+    data: recordToCells(activeLayer.data),
+    layers: layers.map(layer => ({
+      id: layer.id as LayerId,
+      name: layer.name,
+      visible: layer.visible,
+      locked: layer.locked,
+      opacity: Math.max(0, Math.min(1, layer.opacity)),
+      data: layer.id === activeLayer.id ? new Map<string, Cell>() : recordToCells(layer.data)
+    })),
+    activeLayerId: activeLayer.id as LayerId
+  };
+};
+
+/**
+ * Build the .asciimtn session document for the current export data.
+ * This is exactly what the session file export writes; the local project library stores it as-is.
+ */
+export const buildSessionData = (
+  data: ExportDataBundle,
+  options: { includeMetadata: boolean }
+) => ({
+  version: SESSION_FORMAT_VERSION,
+  name: data.metadata.projectName || data.name || 'Untitled Project',
+  description: data.metadata.projectDescription || data.description,
+  metadata: options.includeMetadata ? {
+    exportedAt: new Date().toISOString(),
+    exportVersion: SESSION_FORMAT_VERSION,
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined
+  } : undefined,
+  canvas: {
+    width: data.canvasDimensions.width,
+    height: data.canvasDimensions.height,
+    canvasBackgroundColor: data.canvasBackgroundColor,
+    showGrid: data.showGrid
+  },
+  animation: {
+    frames: data.sourceFrames.map(serializeSessionFrame),
+    currentFrameIndex: data.currentFrameIndex,
+    frameRate: data.frameRate,
+    looping: data.looping
+  },
+  tools: {
+    activeTool: data.toolState.activeTool,
+    selectedCharacter: data.toolState.selectedCharacter,
+    selectedColor: data.toolState.selectedColor,
+    selectedBgColor: data.toolState.selectedBgColor,
+    paintBucketContiguous: data.toolState.paintBucketContiguous,
+    rectangleFilled: data.toolState.rectangleFilled
+  },
+  ui: {
+    theme: data.uiState.theme,
+    zoom: data.uiState.zoom,
+    panOffset: data.uiState.panOffset,
+    fontMetrics: data.fontMetrics
+  },
+  typography: {
+    fontSize: data.typography.fontSize,
+    characterSpacing: data.typography.characterSpacing,
+    lineSpacing: data.typography.lineSpacing,
+    selectedFontId: data.typography.selectedFontId
+  },
+  palettes: data.paletteState ? {
+    activePaletteId: data.paletteState.activePaletteId,
+    customPalettes: data.paletteState.customPalettes,
+    recentColors: data.paletteState.recentColors
+  } : undefined,
+  characterPalettes: data.characterPaletteState ? {
+    activePaletteId: data.characterPaletteState.activePaletteId,
+    customPalettes: data.characterPaletteState.customPalettes.map(palette => ({
+      ...palette,
+      characters: [...palette.characters]
+    })),
+    mappingMethod: data.characterPaletteState.mappingMethod,
+    invertDensity: data.characterPaletteState.invertDensity,
+    characterSpacing: data.characterPaletteState.characterSpacing
+  } : undefined,
+  toolPresets: data.toolPresets,
+  effectStack: data.effectStack
+});
+
+export type SessionDocument = ReturnType<typeof buildSessionData>;
@@ -4,21 +4,18 @@ import { useToolStore } from '../stores/toolStore';
 import { usePaletteStore } from '../stores/paletteStore';
 import { useCharacterPaletteStore } from '../stores/characterPaletteStore';
 import { useProjectMetadataStore } from '../stores/projectMetadataStore';
-import type { Cell, Tool } from '../types';
+import type { Frame, FrameId, Tool } from '../types';
 import { DEFAULT_FRAME_DURATION } from '../constants';
 import type { TypographySettings } from './canvasSizeConversion';
 import type { ColorPalette, CharacterPalette, CharacterMappingSettings } from '../types/palette';
 import { isColorPalette, isCharacterPalette } from '../types/palette';
-
-type SessionFrameCells = Record<string, Cell>;
-
-interface SessionFrameData {
-  id: string;
-  name?: string;
-  duration?: number;
-  data?: SessionFrameCells;
-  thumbnail?: string;
-}
+import { deserializeSessionFrameCells, isValidSessionLayer, SESSION_FORMAT_VERSION } from './sessionFormat';
+import type { SessionFrameData } from './sessionFormat';
+import { isValidSessionToolPresets, restoreSessionToolPresets } from './sessionToolPresets';
+import type { SessionToolPresets } from './sessionToolPresets';
+import { isValidEffectStack } from './effectStack';
+import { useEffectsStore } from '../stores/effectsStore';
+import type { EffectStackEntry } from '../types/effects';
 
 interface SessionCanvasData {
   width: number;
@@ -56,7 +53,7 @@ interface SessionCharacterPalettesData {
   characterSpacing: number;
 }
 
-interface SessionImportData {
+export interface SessionImportData {
   version: string;
   name?: string;
   description?: string;
@@ -66,8 +63,26 @@ interface SessionImportData {
   typography?: TypographySettings;
   palettes?: SessionPalettesData;
   characterPalettes?: SessionCharacterPalettesData;
+  toolPresets?: SessionToolPresets; // Added in 1.1.0
+  effectStack?: EffectStackEntry[]; // Added in 1.2.0
 }
 
+/**
+ * Compare two dotted session versions ("1.0.0" < "1.1.0").
+ * Missing or non-numeric parts count as 0.
+ */
+const compareSessionVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
 /**
  * Session Import Utility
  * Handles loading and restoring session data from .asciimtn files
@@ -92,12 +107,7 @@ export class SessionImporter {
       reader.onload = (event) => {
         try {
           const content = event.target?.result as string;
-          const sessionData = JSON.parse(content) as unknown;
-          
-          // Validate session data structure
-          if (!SessionImporter.validateSessionData(sessionData)) {
-            throw new Error('Invalid session file format');
-          }
+          const sessionData = SessionImporter.parseSessionData(JSON.parse(content));
           
           // Import the session data
           SessionImporter.restoreSessionData(sessionData, typographyCallbacks);
@@ -116,6 +126,39 @@ export class SessionImporter {
     });
   }
   
+  /**
+   * Validate parsed session JSON and upgrade it to the current format.
+   * Store-free, so it can also be used outside the browser (see the render CLI).
+   */
+  static parseSessionData(data: unknown): SessionImportData {
+    if (!SessionImporter.validateSessionData(data)) {
+      throw new Error('Invalid session file format');
+    }
+    
+    return SessionImporter.migrateSessionData(data);
+  }
+  
+  /**
+   * Convert session frames back to animation frames, preserving all original properties
+   */
+  static deserializeFrames(sessionData: SessionImportData): Frame[] {
+    return sessionData.animation.frames.map((frameData) => {
+      // Convert frame data objects back to Maps (layered frames load the active layer into data)
+      const { data, layers, activeLayerId } = deserializeSessionFrameCells(frameData);
+      
+      // Preserve ALL original frame properties from the export
+      return {
+        id: frameData.id as FrameId, // Preserve original frame ID
+        name: frameData.name || 'Untitled Frame', // Preserve original name
+        duration: frameData.duration ?? DEFAULT_FRAME_DURATION,
+        data,
+        thumbnail: frameData.thumbnail, // Preserve thumbnail if exists
+        layers,
+        activeLayerId
+      };
+    });
+  }
+  
   /**
    * Validate session data structure
    */
@@ -163,6 +206,10 @@ export class SessionImporter {
         if (frameCandidate.data !== undefined && (typeof frameCandidate.data !== 'object' || frameCandidate.data === null)) {
           return false;
         }
+        if (frameCandidate.layers !== undefined) {
+          if (!Array.isArray(frameCandidate.layers) || !frameCandidate.layers.every(isValidSessionLayer)) return false;
+          if (typeof frameCandidate.activeLayerId !== 'string') return false;
+        }
       }
 
       const tools = candidate.tools;
@@ -202,12 +249,46 @@ export class SessionImporter {
         if (typeof characterPalettes.characterSpacing !== 'number') return false;
       }
 
+      // Tool presets only exist from 1.1.0; older files never carried them
+      if (candidate.toolPresets !== undefined && compareSessionVersions(candidate.version, '1.1.0') >= 0) {
+        if (!isValidSessionToolPresets(candidate.toolPresets)) return false;
+      }
+
+      if (candidate.effectStack !== undefined && compareSessionVersions(candidate.version, '1.2.0') >= 0) {
+        if (!isValidEffectStack(candidate.effectStack)) return false;
+      }
+
       return true;
     } catch {
       return false;
     }
   }
   
+  /**
+   * Upgrade older session data to the current format
+   * - < 1.1.0: no tool presets; the current effect, generator and tool settings are kept
+   * - < 1.2.0: no effect stack; frames were saved with effects already applied
+   */
+  private static migrateSessionData(sessionData: SessionImportData): SessionImportData {
+    if (compareSessionVersions(sessionData.version, SESSION_FORMAT_VERSION) > 0) {
+      console.warn(`Session file version ${sessionData.version} is newer than supported version ${SESSION_FORMAT_VERSION}; unknown data will be ignored`);
+      return sessionData;
+    }
+
+    const migrated = { ...sessionData };
+
+    if (compareSessionVersions(migrated.version, '1.1.0') < 0) {
+      delete migrated.toolPresets;
+    }
+
+    if (compareSessionVersions(migrated.version, '1.2.0') < 0) {
+      delete migrated.effectStack;
+    }
+
+    migrated.version = SESSION_FORMAT_VERSION;
+    return migrated;
+  }
+  
   /**
    * Restore session data to application stores
    */
@@ -255,26 +336,7 @@ export class SessionImporter {
     // Restore animation frames
     if (sessionData.animation.frames && sessionData.animation.frames.length > 0) {
       // Convert session frame data preserving ALL original properties
-      const importedFrames = sessionData.animation.frames.map((frameData) => {
-        // Convert frame data object back to Map
-        const frameMap = new Map<string, Cell>();
-        if (frameData.data) {
-          Object.entries(frameData.data).forEach(([key, cellData]) => {
-            if (cellData) {
-              frameMap.set(key, cellData);
-            }
-          });
-        }
-        
-        // Preserve ALL original frame properties from the export
-        return {
-          id: frameData.id, // Preserve original frame ID
-          name: frameData.name || 'Untitled Frame', // Preserve original name
-          duration: frameData.duration ?? DEFAULT_FRAME_DURATION,
-          data: frameMap,
-          thumbnail: frameData.thumbnail // Preserve thumbnail if exists
-        };
-      });
+      const importedFrames = SessionImporter.deserializeFrames(sessionData);
       
       // Use the new session-specific import method that preserves all frame properties
       // This is the most reliable way to ensure exact frame order preservation
@@ -332,6 +394,14 @@ export class SessionImporter {
       });
     }
     
+    // Restore effect, generator and tool presets
+    if (sessionData.toolPresets) {
+      restoreSessionToolPresets(sessionData.toolPresets);
+    }
+
+    // Replace the effect stack (older sessions have none)
+    useEffectsStore.getState().setEffectStack(sessionData.effectStack ?? []);
+    
     // Restore typography settings
     if (typographyCallbacks && sessionData.typography) {
       if (sessionData.typography.fontSize !== undefined) {
@@ -0,0 +1,262 @@
+import { useEffectsStore } from '../stores/effectsStore';
+import { useTimeEffectsStore } from '../stores/timeEffectsStore';
+import { useGeneratorsStore } from '../stores/generatorsStore';
+import { useGradientStore } from '../stores/gradientStore';
+import { useImportStore } from '../stores/importStore';
+import { useAsciiBoxStore } from '../stores/asciiBoxStore';
+import type { GradientSessionSettings } from '../stores/gradientStore';
+import type { ImportSettings, ImportUIState } from '../stores/importStore';
+import type { BoxDrawingMode } from '../stores/asciiBoxStore';
+import type {
+  LevelsEffectSettings,
+  HueSaturationEffectSettings,
+  RemapColorsEffectSettings,
+  RemapCharactersEffectSettings,
+  ScatterEffectSettings
+} from '../types/effects';
+import type {
+  WaveWarpSettings,
+  WiggleSettings,
+  TweenSettings,
+  FrameRangeSettings
+} from '../types/timeEffects';
+import type {
+  RadioWavesSettings,
+  TurbulentNoiseSettings,
+  ParticlePhysicsSettings,
+  RainDropsSettings,
+  DigitalRainSettings,
+  CellularAutomataSettings,
+  FireSettings,
+  PlasmaSettings,
+  Perspective3DSettings,
+  GeneratorMappingSettings
+} from '../types/generators';
+
+/**
+ * Tool presets stored in the .asciimtn session (format 1.1.0+)
+ * Captures the tuned settings of effects, time effects, generators and drawing tools
+ * so a project reopens with the workspace it was saved in
+ */
+
+export interface SessionEffectsPresets {
+  applyToTimeline: boolean;
+  levelsSettings: LevelsEffectSettings;
+  hueSaturationSettings: HueSaturationEffectSettings;
+  remapColorsSettings: RemapColorsEffectSettings;
+  remapCharactersSettings: RemapCharactersEffectSettings;
+  scatterSettings: ScatterEffectSettings;
+}
+
+export interface SessionTimeEffectsPresets {
+  waveWarpSettings: WaveWarpSettings;
+  wiggleSettings: WiggleSettings;
+  tweenSettings: TweenSettings;
+  frameRange: FrameRangeSettings;
+}
+
+export interface SessionGeneratorsPresets {
+  outputMode: 'overwrite' | 'append';
+  radioWavesSettings: RadioWavesSettings;
+  turbulentNoiseSettings: TurbulentNoiseSettings;
+  particlePhysicsSettings: ParticlePhysicsSettings;
+  rainDropsSettings: RainDropsSettings;
+  digitalRainSettings: DigitalRainSettings;
+  cellularAutomataSettings?: CellularAutomataSettings; // Missing in sessions saved before the generator existed
+  fireSettings?: FireSettings;
+  plasmaSettings?: PlasmaSettings;
+  perspective3DSettings?: Perspective3DSettings;
+  mappingSettings: GeneratorMappingSettings;
+}
+
+export interface SessionMediaImportPresets {
+  settings: ImportSettings;
+  uiState: ImportUIState;
+}
+
+export interface SessionAsciiBoxPresets {
+  selectedStyleId: string;
+  drawingMode: BoxDrawingMode;
+}
+
+export interface SessionToolPresets {
+  effects?: SessionEffectsPresets;
+  timeEffects?: SessionTimeEffectsPresets;
+  generators?: SessionGeneratorsPresets;
+  gradient?: GradientSessionSettings;
+  mediaImport?: SessionMediaImportPresets;
+  asciiBox?: SessionAsciiBoxPresets;
+}
+
+// Settings objects are plain JSON, so a structured clone keeps saved presets detached from the stores
+const clonePreset = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasObjectFields = (value: unknown, fields: string[]): boolean =>
+  isObject(value) && fields.every(field => value[field] === undefined || isObject(value[field]));
+
+/**
+ * Snapshot the current tool presets from their stores
+ */
+export const collectSessionToolPresets = (): SessionToolPresets => {
+  const effects = useEffectsStore.getState();
+  const timeEffects = useTimeEffectsStore.getState();
+  const generators = useGeneratorsStore.getState();
+  const gradient = useGradientStore.getState();
+  const mediaImport = useImportStore.getState();
+  const asciiBox = useAsciiBoxStore.getState();
+
+  return clonePreset({
+    effects: {
+      applyToTimeline: effects.applyToTimeline,
+      levelsSettings: effects.levelsSettings,
+      hueSaturationSettings: effects.hueSaturationSettings,
+      remapColorsSettings: effects.remapColorsSettings,
+      remapCharactersSettings: effects.remapCharactersSettings,
+      scatterSettings: effects.scatterSettings
+    },
+    timeEffects: {
+      waveWarpSettings: timeEffects.waveWarpSettings,
+      wiggleSettings: timeEffects.wiggleSettings,
+      tweenSettings: timeEffects.tweenSettings,
+      frameRange: timeEffects.frameRange
+    },
+    generators: {
+      outputMode: generators.outputMode,
+      radioWavesSettings: generators.radioWavesSettings,
+      turbulentNoiseSettings: generators.turbulentNoiseSettings,
+      particlePhysicsSettings: generators.particlePhysicsSettings,
+      rainDropsSettings: generators.rainDropsSettings,
+      digitalRainSettings: generators.digitalRainSettings,
+      cellularAutomataSettings: generators.cellularAutomataSettings,
+      fireSettings: generators.fireSettings,
+      plasmaSettings: generators.plasmaSettings,
+      perspective3DSettings: generators.perspective3DSettings,
+      mappingSettings: generators.mappingSettings
+    },
+    // Panel settings live in the session slot while the gradient panel is closed
+    gradient: gradient.sessionSettings ?? {
+      definition: gradient.definition,
+      contiguous: gradient.contiguous,
+      matchChar: gradient.matchChar,
+      matchColor: gradient.matchColor,
+      matchBgColor: gradient.matchBgColor
+    },
+    mediaImport: {
+      settings: mediaImport.sessionSettings ?? mediaImport.settings,
+      uiState: mediaImport.sessionUIState ?? mediaImport.uiState
+    },
+    asciiBox: {
+      selectedStyleId: asciiBox.selectedStyleId,
+      drawingMode: asciiBox.drawingMode
+    }
+  });
+};
+
+/**
+ * Validate the shape of a session's tool presets.
+ * Individual settings are merged over the current store values, so only the structure is checked.
+ */
+export const isValidSessionToolPresets = (presets: unknown): presets is SessionToolPresets => {
+  if (!isObject(presets)) return false;
+
+  if (presets.effects !== undefined && !hasObjectFields(presets.effects, [
+    'levelsSettings', 'hueSaturationSettings', 'remapColorsSettings', 'remapCharactersSettings', 'scatterSettings'
+  ])) return false;
+
+  if (presets.timeEffects !== undefined && !hasObjectFields(presets.timeEffects, [
+    'waveWarpSettings', 'wiggleSettings', 'tweenSettings', 'frameRange'
+  ])) return false;
+
+  if (presets.generators !== undefined && !hasObjectFields(presets.generators, [
+    'radioWavesSettings', 'turbulentNoiseSettings', 'particlePhysicsSettings',
+    'rainDropsSettings', 'digitalRainSettings', 'mappingSettings'
+  ])) return false;
+
+  if (presets.gradient !== undefined) {
+    const gradient = presets.gradient;
+    if (!isObject(gradient) || !isObject(gradient.definition)) return false;
+    const definition = gradient.definition;
+    if (typeof definition.type !== 'string') return false;
+    const properties = [definition.character, definition.textColor, definition.backgroundColor];
+    if (!properties.every(property => isObject(property) && Array.isArray(property.stops))) return false;
+  }
+
+  if (presets.mediaImport !== undefined && !hasObjectFields(presets.mediaImport, ['settings', 'uiState'])) return false;
+
+  if (presets.asciiBox !== undefined) {
+    const asciiBox = presets.asciiBox;
+    if (!isObject(asciiBox)) return false;
+    if (asciiBox.selectedStyleId !== undefined && typeof asciiBox.selectedStyleId !== 'string') return false;
+    if (asciiBox.drawingMode !== undefined && typeof asciiBox.drawingMode !== 'string') return false;
+  }
+
+  return true;
+};
+
+/**
+ * Apply saved tool presets to their stores.
+ * Sections missing from the session leave the current settings untouched.
+ */
+export const restoreSessionToolPresets = (presets: SessionToolPresets): void => {
+  const { effects, timeEffects, generators, gradient, mediaImport, asciiBox } = clonePreset(presets);
+
+  if (effects) {
+    const effectsStore = useEffectsStore.getState();
+    if (effects.applyToTimeline !== undefined) effectsStore.setApplyToTimeline(effects.applyToTimeline);
+    if (effects.levelsSettings) effectsStore.updateLevelsSettings(effects.levelsSettings);
+    if (effects.hueSaturationSettings) effectsStore.updateHueSaturationSettings(effects.hueSaturationSettings);
+    if (effects.remapColorsSettings) effectsStore.updateRemapColorsSettings(effects.remapColorsSettings);
+    if (effects.remapCharactersSettings) effectsStore.updateRemapCharactersSettings(effects.remapCharactersSettings);
+    if (effects.scatterSettings) effectsStore.updateScatterSettings(effects.scatterSettings);
+  }
+
+  if (timeEffects) {
+    const timeEffectsStore = useTimeEffectsStore.getState();
+    if (timeEffects.waveWarpSettings) timeEffectsStore.updateWaveWarpSettings(timeEffects.waveWarpSettings);
+    if (timeEffects.wiggleSettings) timeEffectsStore.updateWiggleSettings(timeEffects.wiggleSettings);
+    if (timeEffects.tweenSettings) timeEffectsStore.updateTweenSettings(timeEffects.tweenSettings);
+    if (timeEffects.frameRange) timeEffectsStore.updateFrameRange(timeEffects.frameRange);
+  }
+
+  if (generators) {
+    const generatorsStore = useGeneratorsStore.getState();
+    if (generators.outputMode) generatorsStore.setOutputMode(generators.outputMode);
+    if (generators.radioWavesSettings) generatorsStore.updateRadioWavesSettings(generators.radioWavesSettings);
+    if (generators.turbulentNoiseSettings) generatorsStore.updateTurbulentNoiseSettings(generators.turbulentNoiseSettings);
+    if (generators.particlePhysicsSettings) generatorsStore.updateParticlePhysicsSettings(generators.particlePhysicsSettings);
+    if (generators.rainDropsSettings) generatorsStore.updateRainDropsSettings(generators.rainDropsSettings);
+    if (generators.digitalRainSettings) generatorsStore.updateDigitalRainSettings(generators.digitalRainSettings);
+    if (generators.cellularAutomataSettings) generatorsStore.updateCellularAutomataSettings(generators.cellularAutomataSettings);
+    if (generators.fireSettings) generatorsStore.updateFireSettings(generators.fireSettings);
+    if (generators.plasmaSettings) generatorsStore.updatePlasmaSettings(generators.plasmaSettings);
+    if (generators.perspective3DSettings) generatorsStore.updatePerspective3DSettings(generators.perspective3DSettings);
+    if (generators.mappingSettings) generatorsStore.updateMappingSettings(generators.mappingSettings);
+  }
+
+  if (gradient) {
+    // Each setter also refreshes the gradient session slot used when the panel reopens
+    const gradientStore = useGradientStore.getState();
+    gradientStore.updateDefinition(gradient.definition);
+    if (gradient.contiguous !== undefined) gradientStore.setContiguous(gradient.contiguous);
+    gradientStore.setMatchCriteria({
+      char: gradient.matchChar ?? gradientStore.matchChar,
+      color: gradient.matchColor ?? gradientStore.matchColor,
+      bgColor: gradient.matchBgColor ?? gradientStore.matchBgColor
+    });
+  }
+
+  if (mediaImport) {
+    const importStore = useImportStore.getState();
+    if (mediaImport.settings) importStore.updateSettings(mediaImport.settings);
+    if (mediaImport.uiState) importStore.updateUIState(mediaImport.uiState);
+  }
+
+  if (asciiBox) {
+    const asciiBoxStore = useAsciiBoxStore.getState();
+    if (asciiBox.selectedStyleId) asciiBoxStore.setSelectedStyle(asciiBox.selectedStyleId);
+    if (asciiBox.drawingMode) asciiBoxStore.setDrawingMode(asciiBox.drawingMode);
+  }
+};
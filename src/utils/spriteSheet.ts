@@ -0,0 +1,204 @@
+import type { Cell } from '../types';
+import type { SpriteSheetExportSettings } from '../types/export';
+
+/**
+ * Sprite sheet layout and metadata
+ * Frames are placed on a single atlas and described by a JSON sidecar in the
+ * format Aseprite writes ("Hash" or "Array"), which most game engines import
+ */
+
+export interface SpriteRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SpriteSheetSprite {
+  name: string;
+  duration: number;
+  source: SpriteRect; // Pixels copied from the rendered frame
+  frameSize: { w: number; h: number }; // Untrimmed frame size
+}
+
+export interface SpriteSheetLayout {
+  positions: Array<{ x: number; y: number }>; // Atlas position of each sprite, in input order
+  width: number;
+  height: number;
+}
+
+interface AsepriteFrameEntry {
+  frame: SpriteRect;
+  rotated: false;
+  trimmed: boolean;
+  spriteSourceSize: SpriteRect;
+  sourceSize: { w: number; h: number };
+  duration: number;
+}
+
+export interface AsepriteSpriteSheetJson {
+  frames: Record<string, AsepriteFrameEntry> | Array<AsepriteFrameEntry & { filename: string }>;
+  meta: {
+    app: string;
+    version: string;
+    image: string;
+    format: 'RGBA8888';
+    size: { w: number; h: number };
+    scale: string;
+    frameTags: [];
+  };
+}
+
+/**
+ * Cell bounds of everything that renders in a frame (visible characters and
+ * background colors), or null when the frame is blank
+ */
+export const getFrameCellBounds = (
+  cells: Map<string, Cell>,
+  width: number,
+  height: number
+): { minX: number; minY: number; maxX: number; maxY: number } | null => {
+  let bounds: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
+
+  cells.forEach((cell, key) => {
+    const hasChar = Boolean(cell.char) && cell.char !== ' ';
+    const hasBackground = Boolean(cell.bgColor) && cell.bgColor !== 'transparent';
+    if (!hasChar && !hasBackground) return;
+
+    const [x, y] = key.split(',').map(Number);
+    if (x < 0 || x >= width || y < 0 || y >= height) return;
+
+    if (!bounds) {
+      bounds = { minX: x, minY: y, maxX: x, maxY: y };
+    } else {
+      bounds.minX = Math.min(bounds.minX, x);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxX = Math.max(bounds.maxX, x);
+      bounds.maxY = Math.max(bounds.maxY, y);
+    }
+  });
+
+  return bounds;
+};
+
+/**
+ * Frame names for the metadata, falling back to "Frame N" and made unique
+ */
+export const getSpriteNames = (frameNames: Array<string | undefined>): string[] => {
+  const used = new Set<string>();
+
+  return frameNames.map((frameName, index) => {
+    const base = frameName?.trim() || `Frame ${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    while (used.has(name)) {
+      name = `${base} (${suffix++})`;
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+/**
+ * Place sprites on the atlas
+ * 'grid' gives every frame an equal cell; 'packed' fills shelves of trimmed
+ * sprites (tallest first) no wider than the equivalent grid row
+ */
+export const layoutSpriteSheet = (
+  sprites: SpriteSheetSprite[],
+  settings: Pick<SpriteSheetExportSettings, 'layout' | 'columns' | 'padding'>
+): SpriteSheetLayout => {
+  const padding = Math.max(0, Math.round(settings.padding));
+
+  if (sprites.length === 0) {
+    return { positions: [], width: 1, height: 1 };
+  }
+
+  const cellWidth = Math.max(...sprites.map(sprite => sprite.frameSize.w));
+  const cellHeight = Math.max(...sprites.map(sprite => sprite.frameSize.h));
+  const columns = settings.columns > 0
+    ? Math.min(Math.round(settings.columns), sprites.length)
+    : Math.ceil(Math.sqrt(sprites.length));
+
+  if (settings.layout === 'grid') {
+    const rows = Math.ceil(sprites.length / columns);
+    return {
+      positions: sprites.map((_, index) => ({
+        x: padding + (index % columns) * (cellWidth + padding),
+        y: padding + Math.floor(index / columns) * (cellHeight + padding)
+      })),
+      width: padding + columns * (cellWidth + padding),
+      height: padding + rows * (cellHeight + padding)
+    };
+  }
+
+  const maxRowWidth = padding + columns * (cellWidth + padding);
+  const order = sprites
+    .map((sprite, index) => ({ sprite, index }))
+    .sort((a, b) => b.sprite.source.h - a.sprite.source.h || a.index - b.index);
+
+  const positions = new Array<{ x: number; y: number }>(sprites.length);
+  let shelfY = padding;
+  let shelfHeight = 0;
+  let cursorX = padding;
+  let width = 1;
+
+  for (const { sprite, index } of order) {
+    // Start a new shelf when this sprite would overflow the row (unless the shelf is empty)
+    if (cursorX > padding && cursorX + sprite.source.w + padding > maxRowWidth) {
+      shelfY += shelfHeight + padding;
+      shelfHeight = 0;
+      cursorX = padding;
+    }
+
+    positions[index] = { x: cursorX, y: shelfY };
+    cursorX += sprite.source.w + padding;
+    shelfHeight = Math.max(shelfHeight, sprite.source.h);
+    width = Math.max(width, cursorX);
+  }
+
+  return { positions, width, height: shelfY + shelfHeight + padding };
+};
+
+/**
+ * Build the Aseprite-compatible JSON sidecar for a laid out sheet
+ */
+export const buildSpriteSheetMetadata = (
+  sprites: SpriteSheetSprite[],
+  layout: SpriteSheetLayout,
+  options: {
+    imageName: string;
+    appVersion: string;
+    format: SpriteSheetExportSettings['metadataFormat'];
+  }
+): AsepriteSpriteSheetJson => {
+  const entries = sprites.map((sprite, index) => {
+    const { source, frameSize } = sprite;
+    const entry: AsepriteFrameEntry = {
+      frame: { x: layout.positions[index].x, y: layout.positions[index].y, w: source.w, h: source.h },
+      rotated: false,
+      trimmed: source.x !== 0 || source.y !== 0 || source.w !== frameSize.w || source.h !== frameSize.h,
+      spriteSourceSize: { ...source },
+      sourceSize: { ...frameSize },
+      duration: sprite.duration
+    };
+    return { name: sprite.name, entry };
+  });
+
+  const frames = options.format === 'array'
+    ? entries.map(({ name, entry }) => ({ filename: name, ...entry }))
+    : Object.fromEntries(entries.map(({ name, entry }) => [name, entry]));
+
+  return {
+    frames,
+    meta: {
+      app: 'https://ascii-motion.app',
+      version: options.appVersion,
+      image: options.imageName,
+      format: 'RGBA8888',
+      size: { w: layout.width, h: layout.height },
+      scale: '1',
+      frameTags: []
+    }
+  };
+};
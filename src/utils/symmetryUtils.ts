@@ -0,0 +1,125 @@
+/**
+ * Symmetry utilities for mirrored drawing
+ *
+ * Maps a drawn cell to its mirrored/rotated counterparts; directional
+ * characters are remapped with the glyph tables in glyphTransforms.ts.
+ */
+
+import { mirrorGlyphHorizontal, mirrorGlyphVertical, rotateGlyph } from './glyphTransforms';
+import type { SymmetrySettings, Tool } from '../types';
+
+export const MIN_RADIAL_SEGMENTS = 2;
+export const MAX_RADIAL_SEGMENTS = 12;
+
+// Tools that paint symmetric copies while symmetry is enabled
+export const SYMMETRY_TOOLS: ReadonlyArray<Tool> = ['pencil', 'eraser', 'paintbucket', 'rectangle', 'ellipse', 'asciibox'];
+
+/**
+ * How a symmetric copy relates to the original cell
+ * quarterTurns is null for rotations that aren't a multiple of 90° (characters are left as-is)
+ */
+export interface SymmetryTransform {
+  flipX: boolean;
+  flipY: boolean;
+  quarterTurns: 0 | 1 | 2 | 3 | null;
+}
+
+export interface SymmetryPoint {
+  x: number;
+  y: number;
+  transform: SymmetryTransform;
+}
+
+export const IDENTITY_TRANSFORM: SymmetryTransform = { flipX: false, flipY: false, quarterTurns: 0 };
+
+/**
+ * Transform a character to match a symmetric copy
+ */
+export const transformSymmetryChar = (char: string, transform: SymmetryTransform): string => {
+  let result = char;
+  if (transform.flipX) result = mirrorGlyphHorizontal(result);
+  if (transform.flipY) result = mirrorGlyphVertical(result);
+  return rotateGlyph(result, transform.quarterTurns ?? 0);
+};
+
+/**
+ * Resolve the symmetry center (defaults to the middle of the canvas)
+ */
+export const getSymmetryCenter = (
+  settings: SymmetrySettings,
+  width: number,
+  height: number
+): { x: number; y: number } => settings.center ?? { x: (width - 1) / 2, y: (height - 1) / 2 };
+
+/**
+ * Get every cell a symmetric stroke at (x, y) paints, starting with (x, y) itself
+ *
+ * Radial rotation happens in pixel space so copies stay round on non-square cells.
+ * Points outside the canvas and duplicates (cells on an axis) are dropped.
+ */
+export const getSymmetryPoints = (
+  x: number,
+  y: number,
+  settings: SymmetrySettings,
+  canvas: { width: number; height: number; aspectRatio: number }
+): SymmetryPoint[] => {
+  const origin: SymmetryPoint = { x, y, transform: IDENTITY_TRANSFORM };
+  if (!settings.enabled) {
+    return [origin];
+  }
+
+  const center = getSymmetryCenter(settings, canvas.width, canvas.height);
+  const candidates: SymmetryPoint[] = [origin];
+  const mirroredX = Math.round(2 * center.x - x);
+  const mirroredY = Math.round(2 * center.y - y);
+
+  switch (settings.mode) {
+    case 'vertical':
+      candidates.push({ x: mirroredX, y, transform: { flipX: true, flipY: false, quarterTurns: 0 } });
+      break;
+    case 'horizontal':
+      candidates.push({ x, y: mirroredY, transform: { flipX: false, flipY: true, quarterTurns: 0 } });
+      break;
+    case 'both':
+      candidates.push(
+        { x: mirroredX, y, transform: { flipX: true, flipY: false, quarterTurns: 0 } },
+        { x, y: mirroredY, transform: { flipX: false, flipY: true, quarterTurns: 0 } },
+        { x: mirroredX, y: mirroredY, transform: { flipX: true, flipY: true, quarterTurns: 0 } }
+      );
+      break;
+    case 'radial': {
+      const segments = Math.max(MIN_RADIAL_SEGMENTS, Math.min(MAX_RADIAL_SEGMENTS, Math.round(settings.radialSegments)));
+      const aspectRatio = canvas.aspectRatio || 1;
+      const dx = (x - center.x) * aspectRatio;
+      const dy = y - center.y;
+
+      for (let i = 1; i < segments; i++) {
+        const angle = (2 * Math.PI * i) / segments;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const quarter = (4 * i) / segments;
+
+        candidates.push({
+          x: Math.round(center.x + (dx * cos - dy * sin) / aspectRatio),
+          y: Math.round(center.y + dx * sin + dy * cos),
+          transform: {
+            flipX: false,
+            flipY: false,
+            quarterTurns: Number.isInteger(quarter) ? (quarter % 4) as 0 | 1 | 2 | 3 : null
+          }
+        });
+      }
+      break;
+    }
+  }
+
+  const seen = new Set<string>();
+  return candidates.filter(point => {
+    const key = `${point.x},${point.y}`;
+    if (seen.has(key) || point.x < 0 || point.y < 0 || point.x >= canvas.width || point.y >= canvas.height) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
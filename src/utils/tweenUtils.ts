@@ -0,0 +1,299 @@
+/**
+ * Selection Tween Utilities
+ *
+ * Captures selection content as a keyframe and generates in-between frames
+ * that move it to a target placement with easing, optionally along a bezier path.
+ */
+
+import type { Cell, Frame } from '../types';
+import type { TweenEasing, TweenKeyframe, TweenSettings } from '../types/timeEffects';
+import type { BezierAnchorPoint } from '../stores/bezierStore';
+import { cloneFrame, generateFrameId } from './frameUtils';
+
+type Point = { x: number; y: number };
+
+// Samples per bezier segment used to approximate arc length
+const PATH_SAMPLES_PER_SEGMENT = 32;
+
+/**
+ * Map linear progress (0-1) through an easing curve
+ */
+export const applyTweenEasing = (t: number, easing: TweenEasing): number => {
+  const clamped = Math.max(0, Math.min(1, t));
+
+  switch (easing) {
+    case 'ease-in':
+      return clamped * clamped * clamped;
+    case 'ease-out':
+      return 1 - Math.pow(1 - clamped, 3);
+    case 'ease-in-out':
+      return clamped < 0.5
+        ? 4 * clamped * clamped * clamped
+        : 1 - Math.pow(-2 * clamped + 2, 3) / 2;
+    case 'bounce': {
+      // Standard ease-out bounce
+      const n1 = 7.5625;
+      const d1 = 2.75;
+      if (clamped < 1 / d1) return n1 * clamped * clamped;
+      if (clamped < 2 / d1) {
+        const x = clamped - 1.5 / d1;
+        return n1 * x * x + 0.75;
+      }
+      if (clamped < 2.5 / d1) {
+        const x = clamped - 2.25 / d1;
+        return n1 * x * x + 0.9375;
+      }
+      const x = clamped - 2.625 / d1;
+      return n1 * x * x + 0.984375;
+    }
+    case 'linear':
+    default:
+      return clamped;
+  }
+};
+
+/**
+ * Capture selected cells of a frame as a tween keyframe.
+ * Returns null when the selection is empty.
+ */
+export const captureTweenKeyframe = (
+  frameData: Map<string, Cell>,
+  selectedKeys: Iterable<string>,
+  frameIndex: number
+): TweenKeyframe | null => {
+  const sourceKeys = Array.from(selectedKeys);
+  if (sourceKeys.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  sourceKeys.forEach(key => {
+    const [x, y] = key.split(',').map(Number);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+  });
+
+  const cells = new Map<string, Cell>();
+  sourceKeys.forEach(key => {
+    const cell = frameData.get(key);
+    if (!cell) return;
+    const [x, y] = key.split(',').map(Number);
+    cells.set(`${x - minX},${y - minY}`, { ...cell });
+  });
+
+  return {
+    frameIndex,
+    origin: { x: minX, y: minY },
+    cells,
+    sourceKeys
+  };
+};
+
+/**
+ * Convert the bezier tool's anchor points into cubic segments.
+ * Mirrors createBezierPath: quadratic joins (one handle) are elevated to cubics.
+ */
+const getCubicSegments = (anchorPoints: BezierAnchorPoint[], isClosed: boolean): Point[][] => {
+  const segments: Point[][] = [];
+  const pointCount = anchorPoints.length;
+  const segmentCount = isClosed ? pointCount : pointCount - 1;
+
+  for (let i = 0; i < segmentCount; i++) {
+    const from = anchorPoints[i];
+    const to = anchorPoints[(i + 1) % pointCount];
+    const p0 = from.position;
+    const p3 = to.position;
+
+    const outHandle = from.hasHandles && from.handleOut
+      ? { x: p0.x + from.handleOut.x, y: p0.y + from.handleOut.y }
+      : null;
+    const inHandle = to.hasHandles && to.handleIn
+      ? { x: p3.x + to.handleIn.x, y: p3.y + to.handleIn.y }
+      : null;
+
+    let p1: Point;
+    let p2: Point;
+    if (outHandle && inHandle) {
+      p1 = outHandle;
+      p2 = inHandle;
+    } else if (outHandle || inHandle) {
+      const q = (outHandle || inHandle) as Point;
+      p1 = { x: p0.x + (2 / 3) * (q.x - p0.x), y: p0.y + (2 / 3) * (q.y - p0.y) };
+      p2 = { x: p3.x + (2 / 3) * (q.x - p3.x), y: p3.y + (2 / 3) * (q.y - p3.y) };
+    } else {
+      p1 = p0;
+      p2 = p3;
+    }
+
+    segments.push([p0, p1, p2, p3]);
+  }
+
+  return segments;
+};
+
+const evaluateCubic = ([p0, p1, p2, p3]: Point[], t: number): Point => {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * p0.y + b * p1.y + c * p2.y + d * p3.y
+  };
+};
+
+/**
+ * Build an arc-length parameterized motion path from bezier anchor points.
+ * Returns null when there are fewer than two anchor points.
+ */
+export const createMotionPath = (
+  anchorPoints: BezierAnchorPoint[],
+  isClosed: boolean
+): ((t: number) => Point) | null => {
+  if (anchorPoints.length < 2) return null;
+
+  const samples: Point[] = [];
+  getCubicSegments(anchorPoints, isClosed).forEach((segment, index) => {
+    for (let step = index === 0 ? 0 : 1; step <= PATH_SAMPLES_PER_SEGMENT; step++) {
+      samples.push(evaluateCubic(segment, step / PATH_SAMPLES_PER_SEGMENT));
+    }
+  });
+
+  const lengths = [0];
+  for (let i = 1; i < samples.length; i++) {
+    const dx = samples[i].x - samples[i - 1].x;
+    const dy = samples[i].y - samples[i - 1].y;
+    lengths.push(lengths[i - 1] + Math.hypot(dx, dy));
+  }
+  const totalLength = lengths[lengths.length - 1];
+
+  return (t: number) => {
+    if (totalLength === 0) return samples[0];
+    const target = Math.max(0, Math.min(1, t)) * totalLength;
+
+    let index = 1;
+    while (index < lengths.length - 1 && lengths[index] < target) index++;
+
+    const segmentLength = lengths[index] - lengths[index - 1];
+    const local = segmentLength > 0 ? (target - lengths[index - 1]) / segmentLength : 0;
+    return {
+      x: samples[index - 1].x + (samples[index].x - samples[index - 1].x) * local,
+      y: samples[index - 1].y + (samples[index].y - samples[index - 1].y) * local
+    };
+  };
+};
+
+/**
+ * Get the selection origin for a tween at progress t (already eased)
+ */
+export const getTweenPosition = (
+  keyframe: TweenKeyframe,
+  endPosition: Point,
+  t: number,
+  motionPath: ((t: number) => Point) | null
+): Point => {
+  if (motionPath) {
+    const start = motionPath(0);
+    const current = motionPath(t);
+    return {
+      x: Math.round(keyframe.origin.x + current.x - start.x),
+      y: Math.round(keyframe.origin.y + current.y - start.y)
+    };
+  }
+
+  return {
+    x: Math.round(keyframe.origin.x + (endPosition.x - keyframe.origin.x) * t),
+    y: Math.round(keyframe.origin.y + (endPosition.y - keyframe.origin.y) * t)
+  };
+};
+
+/**
+ * Place keyframe content into frame data at the given origin
+ */
+export const stampTweenCells = (
+  frameData: Map<string, Cell>,
+  keyframe: TweenKeyframe,
+  position: Point,
+  canvasWidth: number,
+  canvasHeight: number,
+  clearSource: boolean
+): Map<string, Cell> => {
+  const result = new Map(frameData);
+
+  if (clearSource) {
+    keyframe.sourceKeys.forEach(key => result.delete(key));
+  }
+
+  keyframe.cells.forEach((cell, key) => {
+    const [dx, dy] = key.split(',').map(Number);
+    const x = position.x + dx;
+    const y = position.y + dy;
+    if (x < 0 || y < 0 || x >= canvasWidth || y >= canvasHeight) return;
+    result.set(`${x},${y}`, { ...cell });
+  });
+
+  return result;
+};
+
+/**
+ * Generate the tweened frame list.
+ * - existing: frames after the keyframe up to `endFrame` are updated, reaching the target on `endFrame`
+ * - insert: `insertCount` new frames are inserted after the keyframe, reaching the target on the last one
+ */
+export const buildTweenFrames = (
+  frames: Frame[],
+  keyframe: TweenKeyframe,
+  settings: TweenSettings,
+  canvasWidth: number,
+  canvasHeight: number,
+  motionPath: ((t: number) => Point) | null
+): { frames: Frame[]; tweenedIndices: number[] } => {
+  const startIndex = keyframe.frameIndex;
+  const sourceFrame = frames[startIndex];
+  if (!sourceFrame) {
+    return { frames, tweenedIndices: [] };
+  }
+
+  const path = settings.followPath ? motionPath : null;
+  const positionAt = (t: number) => getTweenPosition(keyframe, settings.endPosition, applyTweenEasing(t, settings.easing), path);
+
+  if (settings.frameMode === 'insert') {
+    const count = Math.max(1, Math.floor(settings.insertCount));
+    const inserted: Frame[] = [];
+
+    for (let step = 1; step <= count; step++) {
+      const base = cloneFrame(sourceFrame);
+      inserted.push({
+        ...base,
+        id: generateFrameId(),
+        name: `${sourceFrame.name} Tween ${step}`,
+        data: stampTweenCells(base.data, keyframe, positionAt(step / count), canvasWidth, canvasHeight, settings.clearSource)
+      });
+    }
+
+    const newFrames = [...frames];
+    newFrames.splice(startIndex + 1, 0, ...inserted);
+    return {
+      frames: newFrames,
+      tweenedIndices: inserted.map((_, index) => startIndex + 1 + index)
+    };
+  }
+
+  const endIndex = Math.min(settings.endFrame, frames.length - 1);
+  if (endIndex <= startIndex) {
+    return { frames, tweenedIndices: [] };
+  }
+
+  const span = endIndex - startIndex;
+  const tweenedIndices: number[] = [];
+  const newFrames = frames.map((frame, index) => {
+    if (index <= startIndex || index > endIndex) return frame;
+    tweenedIndices.push(index);
+    return {
+      ...frame,
+      data: stampTweenCells(frame.data, keyframe, positionAt((index - startIndex) / span), canvasWidth, canvasHeight, settings.clearSource)
+    };
+  });
+
+  return { frames: newFrames, tweenedIndices };
+};
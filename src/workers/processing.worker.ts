@@ -0,0 +1,28 @@
+/**
+ * processing.worker.ts - Web Worker entry for generator and effect processing
+ *
+ * Runs one task per message and reports progress until the result is posted.
+ * Cancellation terminates the worker from the pool, so no cancel message is needed.
+ */
+
+import {
+  getResultTransferables,
+  runProcessingTask,
+  type ProcessingWorkerRequest,
+  type ProcessingWorkerResponse
+} from '../utils/processingTasks';
+
+const post = (message: ProcessingWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.addEventListener('message', async (event: MessageEvent<ProcessingWorkerRequest>) => {
+  const { id, task } = event.data;
+
+  try {
+    const result = await runProcessingTask(task, progress => post({ id, type: 'progress', progress }));
+    post({ id, type: 'result', result }, getResultTransferables(result));
+  } catch (error) {
+    post({ id, type: 'error', error: error instanceof Error ? error.message : 'Unknown processing error' });
+  }
+});